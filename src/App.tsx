@@ -4,6 +4,7 @@ import Navigation from './components/Navigation';
 import Hero from './components/Hero';
 import Features from './components/Features';
 import FileConverterSection from './components/FileConverterSection';
+import Results from './components/Results';
 import Installation from './components/Installation';
 import Requirements from './components/Requirements';
 import Footer from './components/Footer';
@@ -21,6 +22,7 @@ function App() {
         <Hero />
         <Features />
         <FileConverterSection />
+        <Results />
         <Installation />
         <Requirements />
       </main>
@@ -1,4 +1,4 @@
-import React, { useState, useRef, useCallback } from 'react';
+import React, { useState, useRef, useCallback, useEffect } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
 import { 
   HiUpload, 
@@ -7,22 +7,37 @@ import {
   HiRefresh, 
   HiExclamationCircle,
   HiCheckCircle,
+  HiBan,
+  HiChevronUp,
+  HiChevronDown,
+  HiPause,
+  HiPlay,
   HiDocument,
   HiPhotograph
 } from 'react-icons/hi';
 import { 
-  ConversionOption, 
   UploadedFile, 
   ConversionResult, 
-  CONVERSION_OPTIONS, 
+  ConvertedOutput,
   MAX_FILE_SIZE,
-  SUPPORTED_FILE_TYPES,
   QUALITY_SETTINGS,
-  FILE_SIZE_LIMITS,
-  CONVERSION_MATRIX
+  FILE_SIZE_LIMITS
 } from '../types/fileTypes';
+import { clearSavedBatch, getSavedBatch, markBatchFilesDone, SavedBatch, saveBatch } from '../utils/batchSession';
+import { addConversionToHistory } from '../utils/conversionHistory';
+import { ConversionRoute, getConversionRoutes, getRouteForSteps } from '../utils/conversionPlanner';
+import { ConversionQueueOptions, createConversionQueue, QueueOrder } from '../utils/conversionQueue';
+import { getPoolSize, runConversion } from '../utils/conversionWorkerPool';
+import { downloadFile } from '../utils/downloadUtils';
+import { ArchiveSource, createResultsArchive } from '../utils/resultArchive';
+import { extractZipEntries, isZipUpload, listZipEntries, ZipInputEntry } from '../utils/zipInput';
+import { 
+  ConverterOptions,
+  getConverterOptions,
+  getInputFormats,
+  getStorableOptions
+} from '../utils/converterRegistry';
 import { 
-  convertFile, 
   downloadConvertedFile, 
   ConversionProgress,
   ConversionResult as UtilConversionResult,
@@ -32,14 +47,52 @@ import {
   validateFileIntegrity
 } from '../utils/fileConversion';
 
+// A ZIP upload waiting for the user to pick the entries to convert
+interface PendingArchive {
+  file: File;
+  entries: ZipInputEntry[];
+  selected: string[];
+}
+
 const FileConverterSection: React.FC = () => {
-  const [selectedConversion, setSelectedConversion] = useState<ConversionOption | null>(null);
+  const [selectedConversion, setSelectedConversion] = useState<ConversionRoute | null>(null);
   const [uploadedFiles, setUploadedFiles] = useState<UploadedFile[]>([]);
   const [conversionResults, setConversionResults] = useState<ConversionResult[]>([]);
   const [isDragOver, setIsDragOver] = useState(false);
   const [isConverting, setIsConverting] = useState(false);
   const [conversionProgress, setConversionProgress] = useState<Record<string, ConversionProgress>>({});
+  const [converterOptions, setConverterOptions] = useState<ConverterOptions>({});
+  const [combineFiles, setCombineFiles] = useState(true);
+  const [queueOptions, setQueueOptions] = useState<Pick<ConversionQueueOptions, 'concurrency' | 'order'>>(
+    () => ({ concurrency: getPoolSize(), order: 'fifo' })
+  );
+  const [isPaused, setIsPaused] = useState(false);
+  const [folderPerSource, setFolderPerSource] = useState(false);
+  const [isArchiving, setIsArchiving] = useState(false);
+  const [pendingArchives, setPendingArchives] = useState<PendingArchive[]>([]);
+  const [savedBatch, setSavedBatch] = useState<SavedBatch | null>(null);
+  // Passwords typed for encrypted PDFs, by result id
+  const [passwords, setPasswords] = useState<Record<string, string>>({});
   const fileInputRef = useRef<HTMLInputElement>(null);
+  // Jobs are keyed by result id; the queue owns their AbortControllers
+  const [queue] = useState(() => createConversionQueue(queueOptions));
+
+  // Offer to resume a batch that a crash or reload cut short
+  useEffect(() => {
+    getSavedBatch()
+      .then(setSavedBatch)
+      .catch(error => console.error('Could not read the saved batch:', error));
+  }, []);
+
+  // Direct conversions first, then those that chain several converters
+  const routes = getConversionRoutes();
+  const inputFormats = getInputFormats();
+
+  const selectRoute = (route: ConversionRoute) => {
+    setSelectedConversion(route);
+    setConverterOptions(getConverterOptions(route));
+  };
+  const canCombine = !!selectedConversion?.steps[0].combine;
 
   // File validation
   const validateFile = async (file: File): Promise<string | null> => {
@@ -58,8 +111,8 @@ const FileConverterSection: React.FC = () => {
     return null;
   };
 
-  // Handle file upload
-  const handleFileUpload = useCallback(async (files: FileList) => {
+  // Validate files and add them to the upload list
+  const addFiles = useCallback(async (files: File[]) => {
     const newFiles: UploadedFile[] = [];
     const errors: string[] = [];
 
@@ -71,16 +124,17 @@ const FileConverterSection: React.FC = () => {
         continue;
       }
 
-      // Detect file format
-      const detectedFormat = detectFileFormat(file);
-      
+      // Detect file format from the content
+      const detected = await detectFileFormat(file);
+
       const uploadedFile: UploadedFile = {
         id: `file-${Date.now()}-${index}`,
         file,
         name: file.name,
         size: file.size,
         type: file.type,
-        format: detectedFormat,
+        format: detected.format,
+        formatWarning: detected.warning,
       };
 
       newFiles.push(uploadedFile);
@@ -93,6 +147,59 @@ const FileConverterSection: React.FC = () => {
     setUploadedFiles(prev => [...prev, ...newFiles]);
   }, []);
 
+  // Handle file upload; ZIP archives are listed so their entries can be picked
+  const handleFileUpload = useCallback(async (files: FileList) => {
+    const archives: PendingArchive[] = [];
+    const errors: string[] = [];
+
+    for (const file of Array.from(files).filter(isZipUpload)) {
+      try {
+        const entries = await listZipEntries(file);
+        archives.push({ file, entries, selected: entries.filter(entry => entry.format).map(entry => entry.name) });
+      } catch (error) {
+        errors.push(`${file.name}: ${error instanceof Error ? error.message : 'Cannot read ZIP archive'}`);
+      }
+    }
+
+    if (errors.length > 0) {
+      alert(errors.join('\n'));
+    }
+
+    setPendingArchives(prev => [...prev, ...archives]);
+    await addFiles(Array.from(files).filter(file => !isZipUpload(file)));
+  }, [addFiles]);
+
+  // Pick entries of the first pending archive
+  const toggleArchiveEntry = (name: string) => {
+    setPendingArchives(([archive, ...rest]) => archive ? [{
+      ...archive,
+      selected: archive.selected.includes(name)
+        ? archive.selected.filter(selected => selected !== name)
+        : [...archive.selected, name],
+    }, ...rest] : []);
+  };
+
+  const setAllArchiveEntries = (selectAll: boolean) => {
+    setPendingArchives(([archive, ...rest]) => archive ? [{
+      ...archive,
+      selected: selectAll ? archive.entries.filter(entry => entry.format).map(entry => entry.name) : [],
+    }, ...rest] : []);
+  };
+
+  // Extract the selected entries as uploaded files, or skip the archive
+  const resolveArchive = async (extract: boolean) => {
+    const archive = pendingArchives[0];
+    if (!archive) return;
+    setPendingArchives(prev => prev.slice(1));
+    if (!extract || archive.selected.length === 0) return;
+
+    try {
+      await addFiles(await extractZipEntries(archive.file, archive.selected));
+    } catch (error) {
+      alert(`${archive.file.name}: ${error instanceof Error ? error.message : 'Cannot extract ZIP archive'}`);
+    }
+  };
+
   // Drag and drop handlers
   const handleDragOver = useCallback((e: React.DragEvent) => {
     e.preventDefault();
@@ -127,9 +234,14 @@ const FileConverterSection: React.FC = () => {
     setConversionResults(prev => prev.filter(result => result.originalFile.id !== fileId));
   };
 
-  // Real file conversion with proper error handling
-  const performConversion = async (file: UploadedFile): Promise<ConversionResult> => {
-    if (!selectedConversion) {
+  // Real file conversion with proper error handling; `group` combines several files into one output
+  const performConversion = async (
+    file: UploadedFile,
+    group?: UploadedFile[],
+    route = selectedConversion,
+    options = converterOptions
+  ): Promise<ConversionResult> => {
+    if (!route) {
       return {
         id: `result-${file.id}`,
         originalFile: file,
@@ -142,52 +254,97 @@ const FileConverterSection: React.FC = () => {
     const result: ConversionResult = {
       id: `result-${file.id}`,
       originalFile: file,
+      inputFiles: group,
+      route,
+      options: getStorableOptions(route, options),
       status: 'pending',
       progress: 0,
     };
 
-    // Update initial result
+    // Update initial result; it stays pending until the queue starts it
     setConversionResults(prev => 
-      prev.map(r => r.id === result.id ? { ...result, status: 'converting' } : r)
+      prev.map(r => r.id === result.id ? result : r)
     );
 
+    const handleStart = (attempt: number) => {
+      setConversionResults(prev => 
+        prev.map(r => r.id === result.id ? { ...r, status: 'converting', progress: 0 } : r)
+      );
+      if (attempt > 1) {
+        setConversionProgress(prev => ({
+          ...prev,
+          [file.id]: { stage: 'validation', progress: 0, message: `Retrying (attempt ${attempt})...` }
+        }));
+      }
+    };
+
+    const handleProgress = (progress: ConversionProgress) => {
+      setConversionProgress(prev => ({
+        ...prev,
+        [file.id]: progress
+      }));
+      
+      // Update progress in results
+      setConversionResults(prev => 
+        prev.map(r => r.id === result.id ? { 
+          ...r, 
+          progress: progress.progress,
+          status: 'converting'
+        } : r)
+      );
+    };
+
     try {
       // Perform actual conversion
-      const conversionResult = await convertFile(
-        file.file,
-        selectedConversion.from,
-        selectedConversion.to,
-        (progress: ConversionProgress) => {
-          setConversionProgress(prev => ({
-            ...prev,
-            [file.id]: progress
-          }));
-          
-          // Update progress in results
-          setConversionResults(prev => 
-            prev.map(r => r.id === result.id ? { 
-              ...r, 
-              progress: progress.progress,
-              status: 'converting'
-            } : r)
-          );
-        }
-      );
+      // Queued, then run on the worker pool off the main thread
+      const inputs = group ? group.map(item => item.file) : [file.file];
+      const conversionResult = await queue.add({
+        id: result.id,
+        size: inputs.reduce((total, input) => total + input.size, 0),
+        onStart: handleStart,
+        run: (signal) => runConversion(route, inputs, options, handleProgress, signal)
+      });
 
       // Update final result
-      if (conversionResult.success && conversionResult.outputBlob) {
+      if (conversionResult.cancelled) {
+        const cancelledResult: ConversionResult = { ...result, status: 'cancelled', progress: 0 };
+        setConversionResults(prev => 
+          prev.map(r => r.id === result.id ? cancelledResult : r)
+        );
+        return cancelledResult;
+      } else if (conversionResult.success && conversionResult.outputBlob) {
         const downloadUrl = URL.createObjectURL(conversionResult.outputBlob);
+        const outputs = conversionResult.outputFiles && conversionResult.outputFiles.length > 1
+          ? conversionResult.outputFiles.map((output, index) => ({
+              downloadUrl: index === 0 ? downloadUrl : URL.createObjectURL(output.blob),
+              blob: output.blob,
+              fileName: output.fileName,
+              size: output.blob.size
+            }))
+          : undefined;
         const finalResult: ConversionResult = {
           ...result,
           status: 'success',
           progress: 100,
           downloadUrl,
-          convertedFileName: conversionResult.outputFileName
+          outputBlob: conversionResult.outputBlob,
+          convertedFileName: conversionResult.outputFileName,
+          convertedSize: conversionResult.convertedSize,
+          outputs,
+          conversionTime: conversionResult.conversionTime,
+          pages: conversionResult.pages
         };
         
         setConversionResults(prev => 
           prev.map(r => r.id === result.id ? finalResult : r)
         );
+
+        // Kept across page reloads; a full or unavailable store only loses the history
+        addConversionToHistory(route, inputs, options, conversionResult)
+          .catch(error => console.error('Could not save conversion history:', error));
+        // Skipped when an interrupted batch is resumed
+        markBatchFilesDone((group ?? [file]).map(item => item.id))
+          .catch(error => console.error('Could not update the saved batch:', error));
         
         return finalResult;
       } else {
@@ -195,7 +352,8 @@ const FileConverterSection: React.FC = () => {
           ...result,
           status: 'error',
           progress: 0,
-          errorMessage: conversionResult.error || 'Conversion failed'
+          errorMessage: conversionResult.error || 'Conversion failed',
+          passwordRequired: conversionResult.passwordRequired
         };
         
         setConversionResults(prev => 
@@ -221,14 +379,87 @@ const FileConverterSection: React.FC = () => {
     }
   };
 
-  // Start conversion process
-  const startConversion = async () => {
-    if (!selectedConversion || uploadedFiles.length === 0) return;
+  // Cancel one conversion, or every queued and running one
+  const cancelConversion = (resultId: string) => {
+    queue.cancel(resultId);
+  };
+
+  const cancelAll = () => {
+    queue.cancelAll();
+  };
+
+  // Running conversions finish while paused; queued ones wait
+  const togglePause = () => {
+    if (queue.isPaused()) queue.resume();
+    else queue.pause();
+    setIsPaused(queue.isPaused());
+  };
+
+  const updateQueueOptions = (changes: Partial<Pick<ConversionQueueOptions, 'concurrency' | 'order'>>) => {
+    setQueueOptions(prev => ({ ...prev, ...changes }));
+    queue.setOptions(changes);
+  };
+
+  // Move a file up or down; pending conversions follow the new order
+  const moveFile = (fileId: string, offset: number) => {
+    const index = uploadedFiles.findIndex(file => file.id === fileId);
+    const target = index + offset;
+    if (index < 0 || target < 0 || target >= uploadedFiles.length) return;
+
+    const reordered = [...uploadedFiles];
+    [reordered[index], reordered[target]] = [reordered[target], reordered[index]];
+    setUploadedFiles(reordered);
+
+    const ids = reordered.map(file => `result-${file.id}`);
+    queue.reorder(ids);
+    setConversionResults(prev => [...prev].sort((a, b) => ids.indexOf(a.id) - ids.indexOf(b.id)));
+  };
+
+  // Run a failed or cancelled conversion again, the way it was first run
+  const retryConversion = async (result: ConversionResult) => {
+    await performConversion(result.originalFile, result.inputFiles, result.route, result.options);
+  };
+
+  // Run an encrypted PDF again with the password typed for it
+  const unlockConversion = async (result: ConversionResult) => {
+    const password = passwords[result.id];
+    if (!password) return;
+    await performConversion(result.originalFile, result.inputFiles, result.route, { ...result.options, password });
+  };
+
+  // Start conversion process; a resumed batch passes its own files and settings
+  const startConversion = async (
+    files = uploadedFiles,
+    route = selectedConversion,
+    options = converterOptions,
+    combine = combineFiles
+  ) => {
+    if (!route || files.length === 0) return;
 
     setIsConverting(true);
+
+    // Converters that accept several inputs produce one output, shown as one result
+    const combined: UploadedFile | null = route.steps[0].combine && combine && files.length > 1
+      ? {
+          ...files[0],
+          id: `combined-${Date.now()}`,
+          name: `${files.length} files combined`,
+          size: files.reduce((total, file) => total + file.size, 0),
+        }
+      : null;
+
+    // Saved so the batch can be resumed after a reload; a full store only loses that
+    setSavedBatch(null);
+    saveBatch({
+      label: route.label,
+      steps: route.steps.map(step => step.id),
+      options: getStorableOptions(route, options),
+      combine: !!combined,
+      files: files.map(file => ({ id: file.id, name: file.name, type: file.type, blob: file.file, done: false })),
+    }).catch(error => console.error('Could not save the batch:', error));
     
     // Initialize conversion results
-    const initialResults: ConversionResult[] = uploadedFiles.map(file => ({
+    const initialResults: ConversionResult[] = (combined ? [combined] : files).map(file => ({
       id: `result-${file.id}`,
       originalFile: file,
       status: 'pending',
@@ -237,21 +468,64 @@ const FileConverterSection: React.FC = () => {
     
     setConversionResults(initialResults);
 
-    // Process each file
-    for (const file of uploadedFiles) {
-      await performConversion(file);
+    // Every file is queued at once; the queue decides which run, in what order
+    if (combined) {
+      await performConversion(combined, files, route, options);
+    } else {
+      await Promise.all(files.map(file => performConversion(file, undefined, route, options)));
     }
 
+    // The batch ran to the end; failed files are retried from the results
+    clearSavedBatch().catch(error => console.error('Could not clear the saved batch:', error));
+
     // Clear progress tracking
     setConversionProgress({});
     setIsConverting(false);
   };
 
+  // Restore the files and settings of an interrupted batch and convert what is left
+  const resumeBatch = async (batch: SavedBatch) => {
+    setSavedBatch(null);
+    const route = getRouteForSteps(batch.steps);
+    if (!route) {
+      alert(`The ${batch.label} conversion is no longer available`);
+      await clearSavedBatch();
+      return;
+    }
+
+    const files: UploadedFile[] = await Promise.all(batch.files
+      .filter(saved => !saved.done)
+      .map(async saved => {
+        const file = new File([saved.blob], saved.name, { type: saved.type });
+        const detected = await detectFileFormat(file);
+        return { id: saved.id, file, name: saved.name, size: file.size, type: saved.type, format: detected.format, formatWarning: detected.warning };
+      }));
+    const options = getConverterOptions(route, batch.options);
+
+    setSelectedConversion(route);
+    setConverterOptions(options);
+    setCombineFiles(batch.combine);
+    setUploadedFiles(files);
+    await startConversion(files, route, options, batch.combine);
+  };
+
+  const discardBatch = () => {
+    setSavedBatch(null);
+    clearSavedBatch().catch(error => console.error('Could not clear the saved batch:', error));
+  };
+
   // Reset all
   const resetAll = () => {
+    cancelAll();
+    discardBatch();
+    setPendingArchives([]);
+    queue.resume();
+    setIsPaused(false);
     setUploadedFiles([]);
     setConversionResults([]);
+    setPasswords({});
     setSelectedConversion(null);
+    setConverterOptions({});
     setIsConverting(false);
     if (fileInputRef.current) {
       fileInputRef.current.value = '';
@@ -259,12 +533,14 @@ const FileConverterSection: React.FC = () => {
   };
 
   // Download file
-  const handleDownload = (result: ConversionResult) => {
-    if (result.status === 'success' && result.downloadUrl && result.convertedFileName) {
+  const handleDownload = (result: ConversionResult, output?: ConvertedOutput) => {
+    const downloadUrl = output?.downloadUrl ?? result.downloadUrl;
+    const fileName = output?.fileName ?? result.convertedFileName;
+    if (result.status === 'success' && downloadUrl && fileName) {
       try {
         const link = document.createElement('a');
-        link.href = result.downloadUrl;
-        link.download = result.convertedFileName;
+        link.href = downloadUrl;
+        link.download = fileName;
         link.style.display = 'none';
         document.body.appendChild(link);
         link.click();
@@ -276,6 +552,39 @@ const FileConverterSection: React.FC = () => {
     }
   };
 
+  // Bundle every successful output into one ZIP
+  const handleDownloadAll = async () => {
+    const sources: ArchiveSource[] = conversionResults
+      .filter(result => result.status === 'success')
+      .map(result => ({
+        name: result.originalFile.name,
+        files: result.outputs
+          ? result.outputs.map(output => ({ blob: output.blob, fileName: output.fileName }))
+          : result.outputBlob && result.convertedFileName
+            ? [{ blob: result.outputBlob, fileName: result.convertedFileName }]
+            : [],
+      }));
+    if (sources.length === 0) return;
+
+    setIsArchiving(true);
+    try {
+      const archive = await createResultsArchive(sources, { folderPerSource });
+      const url = URL.createObjectURL(archive);
+      await downloadFile(url, 'converted-files.zip');
+      // Revoke after a delay so the download can start
+      setTimeout(() => URL.revokeObjectURL(url), 1000);
+    } catch (error) {
+      console.error('Archive download failed:', error);
+      alert('Could not create the ZIP archive. Please download the files one by one.');
+    } finally {
+      setIsArchiving(false);
+    }
+  };
+
+  const successfulOutputCount = conversionResults
+    .filter(result => result.status === 'success')
+    .reduce((total, result) => total + (result.outputs?.length ?? 1), 0);
+
   // Get file icon
   const getFileIcon = (file: UploadedFile) => {
     if (file.type.startsWith('image/')) {
@@ -295,6 +604,9 @@ const FileConverterSection: React.FC = () => {
 
   const canConvert = selectedConversion && uploadedFiles.length > 0 && !isConverting;
 
+  const batchRemaining = savedBatch?.files.filter(file => !file.done).length ?? 0;
+  const batchCompleted = (savedBatch?.files.length ?? 0) - batchRemaining;
+
   return (
     <section className="bg-[#121826] py-12 sm:py-16">
       <div className="max-w-6xl mx-auto px-4 sm:px-6 lg:px-8">
@@ -316,6 +628,35 @@ const FileConverterSection: React.FC = () => {
         </motion.div>
 
         <div className="space-y-8">
+          {/* Interrupted batch */}
+          {savedBatch && !isConverting && (
+            <div className="bg-[#1a1e29] rounded-xl p-4 border border-yellow-600/40 flex flex-col sm:flex-row sm:items-center justify-between gap-4">
+              <div className="flex items-start gap-3">
+                <HiExclamationCircle className="text-yellow-500 text-xl mt-0.5 shrink-0" />
+                <p className="text-gray-300 text-sm">
+                  A {savedBatch.label} batch was interrupted on {new Date(savedBatch.savedAt).toLocaleString()}.{' '}
+                  {batchRemaining} of {savedBatch.files.length} file{savedBatch.files.length === 1 ? '' : 's'} still to convert
+                  {batchCompleted > 0 && `; ${batchCompleted} already converted will be skipped`}.
+                </p>
+              </div>
+              <div className="flex gap-2 shrink-0">
+                <button
+                  onClick={() => resumeBatch(savedBatch).catch(console.error)}
+                  className="bg-[#c1121f] text-white py-2 px-4 rounded-lg text-sm font-medium hover:bg-red-800 transition-colors duration-300 flex items-center gap-2"
+                >
+                  <HiPlay />
+                  Resume
+                </button>
+                <button
+                  onClick={discardBatch}
+                  className="bg-gray-700 text-white py-2 px-4 rounded-lg text-sm hover:bg-gray-600 transition-colors duration-300"
+                >
+                  Discard
+                </button>
+              </div>
+            </div>
+          )}
+
           {/* Conversion Type Selector */}
           <motion.div
             initial={{ opacity: 0, y: 20 }}
@@ -328,10 +669,10 @@ const FileConverterSection: React.FC = () => {
               Choose Conversion Type
             </h3>
             <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-3">
-              {CONVERSION_OPTIONS.map((option) => (
+              {routes.map((option) => (
                 <button
                   key={option.id}
-                  onClick={() => setSelectedConversion(option)}
+                  onClick={() => selectRoute(option)}
                   className={`p-3 rounded-lg border transition-all duration-300 text-left font-sans ${
                     selectedConversion?.id === option.id
                       ? 'border-[#c1121f] bg-[#c1121f]/10 text-white'
@@ -343,6 +684,11 @@ const FileConverterSection: React.FC = () => {
                     <div>
                       <div className="font-medium text-sm">{option.label}</div>
                       <div className="text-xs text-gray-400 mt-1">{option.description}</div>
+                      {option.steps.length > 1 && (
+                        <div className="text-xs text-blue-300 mt-1">
+                          {[option.from, ...option.steps.map(step => step.to)].join(' → ')}
+                        </div>
+                      )}
                       <div className="flex items-center gap-1 mt-1">
                         <span className={`text-xs px-2 py-0.5 rounded ${
                           option.quality === 'high' ? 'bg-green-600' : 
@@ -356,6 +702,61 @@ const FileConverterSection: React.FC = () => {
                 </button>
               ))}
             </div>
+
+            {/* Options declared by the selected converter */}
+            {selectedConversion && (selectedConversion.options.length > 0 || canCombine) && (
+              <div className="mt-6 grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-4 gap-4 font-sans">
+                {selectedConversion.options.map(field => field.type === 'select' ? (
+                  <label key={field.key} className="text-sm text-gray-300">
+                    {field.label}
+                    <select
+                      value={String(converterOptions[field.key] ?? field.defaultValue)}
+                      onChange={(e) => {
+                        const choice = field.choices?.find(item => String(item.value) === e.target.value);
+                        if (choice) setConverterOptions(prev => ({ ...prev, [field.key]: choice.value }));
+                      }}
+                      className="mt-1 w-full bg-gray-800 border border-gray-600 rounded-lg px-3 py-2 text-white"
+                    >
+                      {field.choices?.map(choice => (
+                        <option key={String(choice.value)} value={String(choice.value)}>{choice.label}</option>
+                      ))}
+                    </select>
+                  </label>
+                ) : field.type === 'password' ? (
+                  <label key={field.key} className="text-sm text-gray-300">
+                    {field.label}
+                    <input
+                      type="password"
+                      autoComplete="off"
+                      value={String(converterOptions[field.key] ?? field.defaultValue)}
+                      onChange={(e) => setConverterOptions(prev => ({ ...prev, [field.key]: e.target.value }))}
+                      className="mt-1 w-full bg-gray-800 border border-gray-600 rounded-lg px-3 py-2 text-white"
+                    />
+                  </label>
+                ) : (
+                  <label key={field.key} className="flex items-center gap-2 text-sm text-gray-300 sm:mt-6">
+                    <input
+                      type="checkbox"
+                      checked={Boolean(converterOptions[field.key] ?? field.defaultValue)}
+                      onChange={(e) => setConverterOptions(prev => ({ ...prev, [field.key]: e.target.checked }))}
+                      className="accent-[#c1121f]"
+                    />
+                    {field.label}
+                  </label>
+                ))}
+                {canCombine && (
+                  <label className="flex items-center gap-2 text-sm text-gray-300 sm:mt-6">
+                    <input
+                      type="checkbox"
+                      checked={combineFiles}
+                      onChange={(e) => setCombineFiles(e.target.checked)}
+                      className="accent-[#c1121f]"
+                    />
+                    Combine all files into one {selectedConversion.to}
+                  </label>
+                )}
+              </div>
+            )}
           </motion.div>
 
           {/* File Upload Area */}
@@ -387,7 +788,7 @@ const FileConverterSection: React.FC = () => {
                 multiple
                 onChange={handleFileInputChange}
                 className="absolute inset-0 w-full h-full opacity-0 cursor-pointer"
-                accept=".pdf,.docx,.txt,.png,.jpg,.jpeg,.pptx,.csv,.xlsx"
+                accept={[...inputFormats.flatMap(format => format.extensions.map(extension => `.${extension}`)), '.zip'].join(',')}
               />
               
               <HiUpload className="mx-auto text-4xl text-gray-400 mb-4" />
@@ -398,10 +799,65 @@ const FileConverterSection: React.FC = () => {
                 or click to browse (Max 50MB per file)
               </p>
               <p className="text-gray-500 text-xs mt-2 font-sans">
-                Supported: PDF, DOCX, PNG, JPG (High-quality conversions)
+                Supported: {inputFormats.map(format => format.id).join(', ')}, or a ZIP of them (High-quality conversions)
               </p>
             </div>
 
+            {/* ZIP entry picker */}
+            {pendingArchives.length > 0 && (
+              <div className="mt-6 bg-gray-800 rounded-lg p-4">
+                <div className="flex flex-wrap items-center justify-between gap-2 mb-3">
+                  <h4 className="text-white font-medium font-sans">
+                    Files in {pendingArchives[0].file.name}
+                    {pendingArchives.length > 1 && (
+                      <span className="text-gray-400 text-sm"> ({pendingArchives.length - 1} more archive{pendingArchives.length > 2 ? 's' : ''} waiting)</span>
+                    )}
+                  </h4>
+                  <div className="flex gap-3 text-sm">
+                    <button onClick={() => setAllArchiveEntries(true)} className="text-gray-300 hover:text-white">Select all</button>
+                    <button onClick={() => setAllArchiveEntries(false)} className="text-gray-300 hover:text-white">Select none</button>
+                  </div>
+                </div>
+                <div className="max-h-64 overflow-y-auto space-y-1">
+                  {pendingArchives[0].entries.map(entry => (
+                    <label
+                      key={entry.name}
+                      className={`flex items-center justify-between gap-3 text-sm font-sans ${entry.format ? 'text-gray-200' : 'text-gray-500'}`}
+                    >
+                      <span className="flex items-center gap-2 min-w-0">
+                        <input
+                          type="checkbox"
+                          checked={pendingArchives[0].selected.includes(entry.name)}
+                          disabled={!entry.format}
+                          onChange={() => toggleArchiveEntry(entry.name)}
+                          className="accent-[#c1121f]"
+                        />
+                        <span className="truncate">{entry.name}</span>
+                      </span>
+                      <span className="shrink-0 text-xs">
+                        {entry.format ?? 'Not supported'} • {formatFileSize(entry.size)}
+                      </span>
+                    </label>
+                  ))}
+                </div>
+                <div className="flex gap-3 mt-4">
+                  <button
+                    onClick={() => resolveArchive(true)}
+                    disabled={pendingArchives[0].selected.length === 0}
+                    className="bg-[#c1121f] text-white py-2 px-4 rounded-lg font-medium hover:bg-red-800 disabled:opacity-50 transition-colors duration-300 font-sans"
+                  >
+                    Add {pendingArchives[0].selected.length} file{pendingArchives[0].selected.length === 1 ? '' : 's'}
+                  </button>
+                  <button
+                    onClick={() => resolveArchive(false)}
+                    className="py-2 px-4 rounded-lg font-medium border border-gray-600 text-white hover:border-[#c1121f] transition-colors duration-300 font-sans"
+                  >
+                    Skip archive
+                  </button>
+                </div>
+              </div>
+            )}
+
             {/* Uploaded Files List */}
             <AnimatePresence>
               {uploadedFiles.length > 0 && (
@@ -411,8 +867,36 @@ const FileConverterSection: React.FC = () => {
                   exit={{ opacity: 0, height: 0 }}
                   className="mt-6 space-y-3"
                 >
-                  <h4 className="text-white font-medium font-sans">Uploaded Files:</h4>
-                  {uploadedFiles.map((file) => (
+                  <div className="flex flex-wrap items-center justify-between gap-3">
+                    <h4 className="text-white font-medium font-sans">Uploaded Files:</h4>
+                    <div className="flex flex-wrap items-center gap-3 text-sm text-gray-300">
+                      <label className="flex items-center gap-2">
+                        Order
+                        <select
+                          value={queueOptions.order}
+                          onChange={(e) => updateQueueOptions({ order: e.target.value as QueueOrder })}
+                          className="bg-gray-800 border border-gray-600 rounded-lg px-2 py-1 text-white"
+                        >
+                          <option value="fifo">As listed</option>
+                          <option value="smallest-first">Smallest first</option>
+                        </select>
+                      </label>
+                      <label className="flex items-center gap-2">
+                        At once
+                        <select
+                          value={queueOptions.concurrency}
+                          onChange={(e) => updateQueueOptions({ concurrency: Number(e.target.value) })}
+                          className="bg-gray-800 border border-gray-600 rounded-lg px-2 py-1 text-white"
+                        >
+                          {/* More jobs than workers would only wait on the pool */}
+                          {Array.from({ length: getPoolSize() }, (_value, index) => index + 1).map(count => (
+                            <option key={count} value={count}>{count}</option>
+                          ))}
+                        </select>
+                      </label>
+                    </div>
+                  </div>
+                  {uploadedFiles.map((file, index) => (
                     <motion.div
                       key={file.id}
                       initial={{ opacity: 0, x: -20 }}
@@ -432,14 +916,38 @@ const FileConverterSection: React.FC = () => {
                               </span>
                             )}
                           </div>
+                          {file.formatWarning && (
+                            <p className="flex items-center gap-1 text-yellow-500 text-xs font-sans mt-1">
+                              <HiExclamationCircle className="shrink-0" />
+                              {file.formatWarning}
+                            </p>
+                          )}
                         </div>
                       </div>
-                      <button
-                        onClick={() => removeFile(file.id)}
-                        className="text-gray-400 hover:text-red-500 transition-colors"
-                      >
-                        <HiX size={20} />
-                      </button>
+                      <div className="flex items-center gap-1">
+                        <button
+                          onClick={() => moveFile(file.id, -1)}
+                          disabled={index === 0}
+                          aria-label="Move up"
+                          className="text-gray-400 hover:text-white disabled:opacity-30 transition-colors"
+                        >
+                          <HiChevronUp size={20} />
+                        </button>
+                        <button
+                          onClick={() => moveFile(file.id, 1)}
+                          disabled={index === uploadedFiles.length - 1}
+                          aria-label="Move down"
+                          className="text-gray-400 hover:text-white disabled:opacity-30 transition-colors"
+                        >
+                          <HiChevronDown size={20} />
+                        </button>
+                        <button
+                          onClick={() => removeFile(file.id)}
+                          className="text-gray-400 hover:text-red-500 transition-colors"
+                        >
+                          <HiX size={20} />
+                        </button>
+                      </div>
                     </motion.div>
                   ))}
                 </motion.div>
@@ -456,7 +964,7 @@ const FileConverterSection: React.FC = () => {
             className="flex flex-col sm:flex-row gap-4 justify-center"
           >
             <button
-              onClick={startConversion}
+              onClick={() => startConversion()}
               disabled={!canConvert}
               className={`px-8 py-4 rounded-lg font-semibold text-lg flex items-center justify-center gap-2 transition-all duration-300 font-sans ${
                 canConvert
@@ -481,6 +989,26 @@ const FileConverterSection: React.FC = () => {
               )}
             </button>
 
+            {isConverting && (
+              <button
+                onClick={togglePause}
+                className="px-8 py-4 rounded-lg font-semibold text-lg flex items-center justify-center gap-2 border-2 border-gray-600 text-white hover:border-[#c1121f] transition-colors duration-300 font-sans"
+              >
+                {isPaused ? <HiPlay size={20} /> : <HiPause size={20} />}
+                {isPaused ? 'Resume' : 'Pause'}
+              </button>
+            )}
+
+            {isConverting && (
+              <button
+                onClick={cancelAll}
+                className="px-8 py-4 rounded-lg font-semibold text-lg flex items-center justify-center gap-2 border-2 border-gray-600 text-white hover:border-[#c1121f] transition-colors duration-300 font-sans"
+              >
+                <HiBan size={20} />
+                Cancel All
+              </button>
+            )}
+
             <button
               onClick={resetAll}
               className="px-8 py-4 rounded-lg font-semibold text-lg flex items-center justify-center gap-2 border-2 border-gray-600 text-white hover:border-[#c1121f] transition-colors duration-300 font-sans"
@@ -499,9 +1027,32 @@ const FileConverterSection: React.FC = () => {
                 exit={{ opacity: 0, y: -20 }}
                 className="bg-[#1a1e29] rounded-xl p-6 shadow-md border border-gray-700"
               >
-                <h3 className="text-lg font-semibold text-white mb-4 font-sans">
-                  Conversion Results
-                </h3>
+                <div className="flex flex-wrap items-center justify-between gap-3 mb-4">
+                  <h3 className="text-lg font-semibold text-white font-sans">
+                    Conversion Results
+                  </h3>
+                  {successfulOutputCount > 1 && (
+                    <div className="flex flex-wrap items-center gap-3">
+                      <label className="flex items-center gap-2 text-sm text-gray-300 font-sans">
+                        <input
+                          type="checkbox"
+                          checked={folderPerSource}
+                          onChange={(e) => setFolderPerSource(e.target.checked)}
+                          className="accent-[#c1121f]"
+                        />
+                        One folder per file
+                      </label>
+                      <button
+                        onClick={handleDownloadAll}
+                        disabled={isArchiving}
+                        className="bg-green-600 text-white py-2 px-4 rounded-lg font-medium flex items-center gap-2 hover:bg-green-700 disabled:opacity-60 transition-colors duration-300 font-sans"
+                      >
+                        <HiDownload size={16} />
+                        {isArchiving ? 'Creating ZIP...' : `Download all (${successfulOutputCount})`}
+                      </button>
+                    </div>
+                  )}
+                </div>
                 <div className="space-y-4">
                   {conversionResults.map((result) => (
                     <motion.div
@@ -536,6 +1087,18 @@ const FileConverterSection: React.FC = () => {
                         {result.status === 'error' && (
                           <HiExclamationCircle className="text-red-500 text-xl" />
                         )}
+                        {result.status === 'cancelled' && (
+                          <HiBan className="text-gray-400 text-xl" />
+                        )}
+                        {(result.status === 'converting' || result.status === 'pending') && (
+                          <button
+                            onClick={() => cancelConversion(result.id)}
+                            className="flex items-center gap-1 text-sm text-gray-400 hover:text-red-400 transition-colors duration-300 font-sans"
+                          >
+                            <HiX size={16} />
+                            Cancel
+                          </button>
+                        )}
                       </div>
 
                       {/* Progress Bar */}
@@ -559,7 +1122,29 @@ const FileConverterSection: React.FC = () => {
                       )}
 
                       {/* Success State */}
-                      {result.status === 'success' && (
+                      {result.status === 'success' && result.outputs && (
+                        <div className="space-y-2">
+                          <p className="text-xs text-gray-400 font-sans">
+                            {result.outputs.length} files
+                            {result.convertedSize && ` • ${formatFileSize(result.convertedSize)} total`}
+                          </p>
+                          {result.outputs.map(output => (
+                            <button
+                              key={output.fileName}
+                              onClick={() => handleDownload(result, output)}
+                              className="w-full bg-green-600 text-white py-2 px-4 rounded-lg font-medium flex items-center justify-center gap-2 hover:bg-green-700 transition-colors duration-300 font-sans"
+                            >
+                              <HiDownload size={16} />
+                              <div className="text-left">
+                                <div>Download {output.fileName}</div>
+                                <div className="text-xs opacity-75">{formatFileSize(output.size)}</div>
+                              </div>
+                            </button>
+                          ))}
+                        </div>
+                      )}
+
+                      {result.status === 'success' && !result.outputs && (
                         <button
                           onClick={() => handleDownload(result)}
                           className="w-full bg-green-600 text-white py-2 px-4 rounded-lg font-medium flex items-center justify-center gap-2 hover:bg-green-700 transition-colors duration-300 font-sans"
@@ -577,6 +1162,23 @@ const FileConverterSection: React.FC = () => {
                         </button>
                       )}
 
+                      {/* Cancelled State */}
+                      {result.status === 'cancelled' && (
+                        <div className="bg-gray-700/30 border border-gray-600 rounded-lg p-3">
+                          <div className="flex items-center gap-2 text-gray-400 text-sm font-sans">
+                            <HiBan size={16} />
+                            <span>Conversion cancelled</span>
+                          </div>
+                          <button
+                            onClick={() => retryConversion(result)}
+                            className="mt-2 flex items-center gap-1 text-sm text-gray-300 hover:text-white transition-colors duration-300 font-sans"
+                          >
+                            <HiRefresh size={14} />
+                            Retry
+                          </button>
+                        </div>
+                      )}
+
                       {/* Error State */}
                       {result.status === 'error' && (
                         <div className="bg-red-900/20 border border-red-500/30 rounded-lg p-3">
@@ -584,6 +1186,38 @@ const FileConverterSection: React.FC = () => {
                             <HiExclamationCircle size={16} />
                             <span>{result.errorMessage || 'Conversion failed'}</span>
                           </div>
+                          {result.passwordRequired && (
+                            <form
+                              onSubmit={(e) => {
+                                e.preventDefault();
+                                unlockConversion(result);
+                              }}
+                              className="mt-2 flex gap-2"
+                            >
+                              <input
+                                type="password"
+                                autoComplete="off"
+                                placeholder="PDF password"
+                                value={passwords[result.id] ?? ''}
+                                onChange={(e) => setPasswords(prev => ({ ...prev, [result.id]: e.target.value }))}
+                                className="flex-1 min-w-0 bg-gray-800 border border-gray-600 rounded-lg px-3 py-1 text-sm text-white font-sans"
+                              />
+                              <button
+                                type="submit"
+                                disabled={!passwords[result.id]}
+                                className="bg-[#c1121f] text-white px-3 py-1 rounded-lg text-sm hover:bg-red-800 disabled:opacity-50 transition-colors duration-300 font-sans"
+                              >
+                                Unlock
+                              </button>
+                            </form>
+                          )}
+                          <button
+                            onClick={() => retryConversion(result)}
+                            className="mt-2 flex items-center gap-1 text-sm text-red-300 hover:text-white transition-colors duration-300 font-sans"
+                          >
+                            <HiRefresh size={14} />
+                            Retry
+                          </button>
                         </div>
                       )}
                     </motion.div>
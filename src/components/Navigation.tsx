@@ -8,6 +8,7 @@ const Navigation: React.FC = () => {
   const navItems = [
     { name: 'Home', href: '#hero' },
     { name: 'Features', href: '#features' },
+    { name: 'History', href: '#history' },
     { name: 'Installation', href: '#installation' },
     { name: 'Requirements', href: '#requirements' },
   ];
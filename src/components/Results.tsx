@@ -1,22 +1,96 @@
-import React from 'react';
+import React, { useCallback, useEffect, useState } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
-import { HiDownload, HiCheckCircle, HiXCircle } from 'react-icons/hi';
+import { HiDownload, HiCheckCircle, HiRefresh, HiTrash } from 'react-icons/hi';
+import {
+  clearHistory,
+  deleteHistoryEntry,
+  getEntrySize,
+  getHistoryEntries,
+  getHistoryQuota,
+  HISTORY_QUOTA_CHOICES,
+  HistoryEntry,
+  addConversionToHistory,
+  setHistoryQuota,
+  subscribeToHistory
+} from '../utils/conversionHistory';
+import { getRouteForSteps } from '../utils/conversionPlanner';
+import { runConversion } from '../utils/conversionWorkerPool';
+import { downloadFile } from '../utils/downloadUtils';
+import { createResultsArchive } from '../utils/resultArchive';
 
-interface ConversionResult {
-  id: string;
-  originalName: string;
-  format: string;
-  status: 'success' | 'failed';
-  downloadUrl?: string;
-  timestamp: Date;
-}
+const formatFileSize = (bytes: number) => {
+  if (bytes === 0) return '0 Bytes';
+  const k = 1024;
+  const sizes = ['Bytes', 'KB', 'MB', 'GB'];
+  const i = Math.floor(Math.log(bytes) / Math.log(k));
+  return parseFloat((bytes / Math.pow(k, i)).toFixed(2)) + ' ' + sizes[i];
+};
+
+// Conversion history kept in IndexedDB, newest first
+const Results: React.FC = () => {
+  const [entries, setEntries] = useState<HistoryEntry[]>([]);
+  const [quota, setQuota] = useState(getHistoryQuota);
+  const [busyIds, setBusyIds] = useState<string[]>([]);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadEntries = useCallback(() => {
+    getHistoryEntries()
+      .then(setEntries)
+      .catch(() => setError('Conversion history is not available in this browser'));
+  }, []);
+
+  useEffect(() => {
+    loadEntries();
+    return subscribeToHistory(loadEntries);
+  }, [loadEntries]);
+
+  const setBusy = (id: string, busy: boolean) => {
+    setBusyIds(prev => busy ? [...prev, id] : prev.filter(busyId => busyId !== id));
+  };
+
+  // Several outputs are downloaded together as a ZIP
+  const handleDownload = async (entry: HistoryEntry) => {
+    const single = entry.outputs.length === 1 ? entry.outputs[0] : null;
+    const blob = single
+      ? single.blob
+      : await createResultsArchive([{ name: entry.sources[0]?.name ?? 'converted', files: entry.outputs.map(output => ({ blob: output.blob, fileName: output.name })) }]);
+    const fileName = single ? single.name : `${(entry.sources[0]?.name ?? 'converted').replace(/\.[^/.]+$/, '')}.zip`;
 
-interface ResultsProps {
-  results: ConversionResult[];
-}
+    const url = URL.createObjectURL(blob);
+    await downloadFile(url, fileName);
+    setTimeout(() => URL.revokeObjectURL(url), 1000);
+  };
+
+  // Convert the stored sources again with the same route and options
+  const handleRerun = async (entry: HistoryEntry) => {
+    const route = getRouteForSteps(entry.steps);
+    if (!route) {
+      setError(`The ${entry.label} conversion is no longer available`);
+      return;
+    }
+
+    setBusy(entry.id, true);
+    try {
+      const files = entry.sources.map(source => new File([source.blob], source.name, { type: source.type }));
+      const result = await runConversion(route, files, entry.options);
+      if (result.success) {
+        await addConversionToHistory(route, files, entry.options, result);
+      } else {
+        setError(result.error || 'Conversion failed');
+      }
+    } catch (rerunError) {
+      setError(rerunError instanceof Error ? rerunError.message : 'Conversion failed');
+    } finally {
+      setBusy(entry.id, false);
+    }
+  };
+
+  const handleQuotaChange = (value: number) => {
+    setQuota(value);
+    setHistoryQuota(value).catch(console.error);
+  };
 
-const Results: React.FC<ResultsProps> = ({ results }) => {
-  if (results.length === 0) return null;
+  const usage = entries.reduce((total, entry) => total + getEntrySize(entry), 0);
 
   const containerVariants = {
     hidden: { opacity: 0 },
@@ -44,7 +118,7 @@ const Results: React.FC<ResultsProps> = ({ results }) => {
   };
 
   return (
-    <section className="bg-black py-16 sm:py-20">
+    <section id="history" className="bg-[#121826] py-12 sm:py-16">
       <div className="max-w-6xl mx-auto px-4 sm:px-6 lg:px-8">
         <motion.div
           initial={{ opacity: 0, y: 30 }}
@@ -54,97 +128,144 @@ const Results: React.FC<ResultsProps> = ({ results }) => {
           className="text-center mb-12"
         >
           <h2 className="text-3xl sm:text-4xl font-bold text-white mb-4">
-            Conversion Results
+            Conversion History
           </h2>
           <p className="text-gray-400 text-lg">
-            Your converted files are ready for download
+            Your past conversions, stored in this browser
           </p>
         </motion.div>
 
-        <motion.div
-          variants={containerVariants}
-          initial="hidden"
-          animate="visible"
-          className="grid gap-4 md:gap-6 grid-cols-1 md:grid-cols-2 lg:grid-cols-3"
-        >
-          <AnimatePresence>
-            {results.map((result) => (
-              <motion.div
-                key={result.id}
-                variants={itemVariants}
-                exit="exit"
-                layout
-                className="bg-gray-800 rounded-lg p-6 border border-gray-700 hover:border-gray-600 transition-colors duration-300"
-              >
-                {/* Header */}
-                <div className="flex items-center justify-between mb-4">
-                  <div className="flex items-center gap-2">
-                    {result.status === 'success' ? (
-                      <HiCheckCircle className="text-green-500 text-xl" />
-                    ) : (
-                      <HiXCircle className="text-red-500 text-xl" />
-                    )}
-                    <span
-                      className={`font-medium text-sm ${
-                        result.status === 'success'
-                          ? 'text-green-400'
-                          : 'text-red-400'
-                      }`}
-                    >
-                      {result.status === 'success' ? 'Success' : 'Failed'}
-                    </span>
-                  </div>
-                  <span className="text-xs text-gray-400">
-                    {result.format.toUpperCase()}
-                  </span>
-                </div>
-
-                {/* File Info */}
-                <div className="mb-4">
-                  <h3 className="text-white font-medium truncate mb-1">
-                    {result.originalName}
-                  </h3>
-                  <p className="text-gray-400 text-sm">
-                    Converted {result.timestamp.toLocaleTimeString()}
-                  </p>
-                </div>
-
-                {/* Download Button */}
-                {result.status === 'success' && (
-                  <motion.button
-                    whileHover={{ scale: 1.02 }}
-                    whileTap={{ scale: 0.98 }}
-                    className="w-full bg-primary-red text-white py-2 px-4 rounded-lg font-medium flex items-center justify-center gap-2 hover:bg-red-600 transition-colors duration-300"
-                    onClick={() => {
-                      // Simulate download
-                      console.log('Downloading:', result.originalName);
-                    }}
+        {/* Storage quota */}
+        <div className="flex flex-wrap items-center justify-between gap-4 mb-6 text-sm text-gray-400">
+          <span>
+            {entries.length} conversion{entries.length === 1 ? '' : 's'} • {formatFileSize(usage)} used
+          </span>
+          <label className="flex items-center gap-2">
+            Storage limit
+            <select
+              value={quota}
+              onChange={(e) => handleQuotaChange(Number(e.target.value))}
+              className="bg-gray-800 border border-gray-600 rounded-lg px-2 py-1 text-white"
+            >
+              {HISTORY_QUOTA_CHOICES.map(choice => (
+                <option key={choice} value={choice}>
+                  {choice === 0 ? 'Off (keep nothing)' : formatFileSize(choice)}
+                </option>
+              ))}
+            </select>
+          </label>
+        </div>
+
+        {error && (
+          <div className="mb-6 bg-red-900/20 border border-red-500/30 rounded-lg p-3 text-red-400 text-sm flex justify-between gap-4">
+            <span>{error}</span>
+            <button onClick={() => setError(null)} className="hover:text-white">Dismiss</button>
+          </div>
+        )}
+
+        {entries.length === 0 ? (
+          <p className="text-center text-gray-500">
+            {quota === 0 ? 'History is turned off.' : 'Converted files will appear here.'}
+          </p>
+        ) : (
+          <motion.div
+            variants={containerVariants}
+            initial="hidden"
+            animate="visible"
+            className="grid gap-4 md:gap-6 grid-cols-1 md:grid-cols-2 lg:grid-cols-3"
+          >
+            <AnimatePresence>
+              {entries.map((entry) => {
+                const busy = busyIds.includes(entry.id);
+                return (
+                  <motion.div
+                    key={entry.id}
+                    variants={itemVariants}
+                    exit="exit"
+                    layout
+                    className="bg-gray-800 rounded-lg p-6 border border-gray-700 hover:border-gray-600 transition-colors duration-300"
                   >
-                    <HiDownload size={16} />
-                    Download
-                  </motion.button>
-                )}
-
-                {result.status === 'failed' && (
-                  <div className="w-full bg-gray-700 text-gray-400 py-2 px-4 rounded-lg font-medium text-center">
-                    Conversion Failed
-                  </div>
-                )}
-              </motion.div>
-            ))}
-          </AnimatePresence>
-        </motion.div>
+                    {/* Header */}
+                    <div className="flex items-center justify-between mb-4">
+                      <div className="flex items-center gap-2">
+                        <HiCheckCircle className="text-green-500 text-xl" />
+                        <span className="font-medium text-sm text-green-400">{entry.label}</span>
+                      </div>
+                      <span className="text-xs text-gray-400">
+                        {entry.to.toUpperCase()}
+                      </span>
+                    </div>
+
+                    {/* File Info */}
+                    <div className="mb-4">
+                      <h3 className="text-white font-medium truncate mb-1">
+                        {entry.sources.length === 1 ? entry.sources[0].name : `${entry.sources.length} files combined`}
+                      </h3>
+                      <p className="text-gray-400 text-sm">
+                        Converted {new Date(entry.createdAt).toLocaleString()}
+                      </p>
+                      <p className="text-gray-500 text-xs mt-1">
+                        {formatFileSize(entry.originalSize)} → {formatFileSize(entry.convertedSize)}
+                        {entry.outputs.length > 1 && ` • ${entry.outputs.length} files`}
+                        {entry.conversionTime !== undefined && ` • ${(entry.conversionTime / 1000).toFixed(1)}s`}
+                      </p>
+                    </div>
+
+                    {/* Actions; outputs of password-protected files are not stored */}
+                    <div className="flex gap-2">
+                      {entry.outputs.length === 0 ? (
+                        <p className="flex-1 text-gray-400 text-xs self-center">
+                          Output not saved because the file was password-protected
+                        </p>
+                      ) : (
+                        <>
+                          <motion.button
+                            whileHover={{ scale: 1.02 }}
+                            whileTap={{ scale: 0.98 }}
+                            className="flex-1 bg-[#c1121f] text-white py-2 px-4 rounded-lg font-medium flex items-center justify-center gap-2 hover:bg-red-800 transition-colors duration-300"
+                            onClick={() => handleDownload(entry).catch(console.error)}
+                          >
+                            <HiDownload size={16} />
+                            Download
+                          </motion.button>
+                          <button
+                            onClick={() => handleRerun(entry)}
+                            disabled={busy}
+                            aria-label="Convert again"
+                            className="bg-gray-700 text-white py-2 px-3 rounded-lg hover:bg-gray-600 disabled:opacity-50 transition-colors duration-300"
+                          >
+                            <HiRefresh size={16} className={busy ? 'animate-spin' : undefined} />
+                          </button>
+                        </>
+                      )}
+                      <button
+                        onClick={() => deleteHistoryEntry(entry.id).catch(console.error)}
+                        aria-label="Delete"
+                        className="bg-gray-700 text-white py-2 px-3 rounded-lg hover:bg-red-700 transition-colors duration-300"
+                      >
+                        <HiTrash size={16} />
+                      </button>
+                    </div>
+                  </motion.div>
+                );
+              })}
+            </AnimatePresence>
+          </motion.div>
+        )}
 
-        {/* Clear Results */}
-        {results.length > 0 && (
+        {/* Clear History */}
+        {entries.length > 0 && (
           <motion.div
             initial={{ opacity: 0, y: 20 }}
             animate={{ opacity: 1, y: 0 }}
             transition={{ delay: 0.5, duration: 0.6 }}
             className="text-center mt-8"
           >
-            <button className="text-gray-400 hover:text-white transition-colors duration-300 text-sm">
-              Clear All Results
+            <button
+              onClick={() => clearHistory().catch(console.error)}
+              className="text-gray-400 hover:text-white transition-colors duration-300 text-sm"
+            >
+              Clear All History
             </button>
           </motion.div>
         )}
@@ -154,4 +275,3 @@ const Results: React.FC<ResultsProps> = ({ results }) => {
 };
 
 export default Results;
-export type { ConversionResult };
\ No newline at end of file
@@ -2,6 +2,8 @@ import { StrictMode } from 'react';
 import { createRoot } from 'react-dom/client';
 import App from './App.tsx';
 import './index.css';
+// Registers the built-in formats and converters
+import './utils/converters';
 
 createRoot(document.getElementById('root')!).render(
   <StrictMode>
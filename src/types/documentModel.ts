@@ -0,0 +1,119 @@
+/**
+ * Format-independent document model
+ * Readers (PDF, DOCX, ...) produce it and writers consume it, so every
+ * document conversion goes through the same structure.
+ */
+
+export interface RunStyle {
+  bold?: boolean;
+  italic?: boolean;
+  underline?: boolean;
+  strike?: boolean;
+  // Font size in points
+  fontSize?: number;
+  fontFamily?: string;
+  // Hex colour without '#', e.g. "1F2937"
+  color?: string;
+  highlight?: string;
+  verticalAlign?: 'superscript' | 'subscript';
+}
+
+export interface TextRun {
+  type: 'text';
+  text: string;
+  style: RunStyle;
+  link?: string;
+}
+
+export interface BreakRun {
+  type: 'break';
+  kind: 'line' | 'page';
+}
+
+export interface FloatingPosition {
+  // Edge the offset is measured from
+  relativeTo: 'page' | 'margin' | 'paragraph';
+  // Offset in points, or an alignment within the reference area
+  offset?: number;
+  align?: 'start' | 'center' | 'end';
+}
+
+export interface ImageFloat {
+  horizontal: FloatingPosition;
+  vertical: FloatingPosition;
+  // Text continues below the picture instead of running through it
+  wrapText: boolean;
+  behindText?: boolean;
+}
+
+export interface ImageRun {
+  type: 'image';
+  data: Uint8Array;
+  // MIME type, e.g. "image/png"
+  contentType: string;
+  // Display size in points
+  width: number;
+  height: number;
+  altText?: string;
+  // Set for anchored pictures; inline pictures flow with the text
+  float?: ImageFloat;
+}
+
+export type DocumentRun = TextRun | BreakRun | ImageRun;
+
+export type ParagraphAlignment = 'left' | 'center' | 'right' | 'justify';
+
+export interface ParagraphStyle {
+  // In right-to-left paragraphs left and right mean the start and end edges
+  alignment?: ParagraphAlignment;
+  direction?: 'ltr' | 'rtl';
+  // Spacing and indentation in points
+  spaceBefore?: number;
+  spaceAfter?: number;
+  indentLeft?: number;
+  indentFirstLine?: number;
+  // Line height as a multiple of the font size
+  lineSpacing?: number;
+}
+
+export interface ListInfo {
+  ordered: boolean;
+  // Nesting depth, starting at 0
+  level: number;
+  // Items sharing an id continue the same numbering sequence
+  listId?: string;
+  // Number format, e.g. "decimal", "lowerLetter", "upperRoman"
+  format?: string;
+  // Number of the first item in the sequence; 1 when unset
+  start?: number;
+}
+
+export interface DocumentParagraph {
+  type: 'paragraph';
+  runs: DocumentRun[];
+  style: ParagraphStyle;
+  headingLevel?: number;
+  list?: ListInfo;
+}
+
+export interface TableCell {
+  blocks: DocumentBlock[];
+  colSpan?: number;
+}
+
+export interface TableRow {
+  cells: TableCell[];
+  isHeader?: boolean;
+}
+
+export interface DocumentTable {
+  type: 'table';
+  rows: TableRow[];
+}
+
+export type DocumentBlock = DocumentParagraph | DocumentTable;
+
+export interface DocumentModel {
+  blocks: DocumentBlock[];
+  title?: string;
+}
@@ -1,3 +1,6 @@
+import type { ConversionRoute } from '../utils/conversionPlanner';
+import type { ConverterOptions } from '../utils/converterRegistry';
+
 export interface ConversionOption {
   id: string;
   label: string;
@@ -16,90 +19,44 @@ export interface UploadedFile {
   type: string;
   preview?: string;
   format?: string;
+  // Shown when the extension does not match the detected content
+  formatWarning?: string;
 }
 
 export interface ConversionResult {
   id: string;
   originalFile: UploadedFile;
-  status: 'pending' | 'converting' | 'success' | 'error';
+  // Files a combined conversion was started with, so a retry converts the same ones
+  inputFiles?: UploadedFile[];
+  // Route and options (without passwords) the conversion ran with, for retrying it
+  route?: ConversionRoute;
+  options?: ConverterOptions;
+  status: 'pending' | 'converting' | 'success' | 'error' | 'cancelled';
   progress: number;
   downloadUrl?: string;
+  // Kept for bundling results into one archive
+  outputBlob?: Blob;
   errorMessage?: string;
+  // The file is an encrypted PDF; it can be retried with a password
+  passwordRequired?: boolean;
   convertedFileName?: string;
+  convertedSize?: number;
+  // Individual files when a conversion produces several (e.g. one image per PDF page)
+  outputs?: ConvertedOutput[];
   conversionTime?: number;
   pages?: number;
   qualityInfo?: string;
 }
 
-// Enhanced conversion options with quality indicators
-export const CONVERSION_OPTIONS: ConversionOption[] = [
-  { 
-    id: 'pdf-jpg', 
-    label: 'PDF to JPG', 
-    from: 'PDF', 
-    to: 'JPG', 
-    icon: '📄→🖼️',
-    description: 'Convert PDF pages to high-quality JPEG images',
-    quality: 'high'
-  },
-  { 
-    id: 'pdf-png', 
-    label: 'PDF to PNG', 
-    from: 'PDF', 
-    to: 'PNG', 
-    icon: '📄→🖼️',
-    description: 'Convert PDF pages to PNG images with transparency support',
-    quality: 'high'
-  },
-  { 
-    id: 'pdf-docx', 
-    label: 'PDF to DOCX', 
-    from: 'PDF', 
-    to: 'DOCX', 
-    icon: '📄→📝',
-    description: 'Extract text and convert PDF to editable Word document',
-    quality: 'high'
-  },
-  { 
-    id: 'docx-pdf', 
-    label: 'DOCX to PDF', 
-    from: 'DOCX', 
-    to: 'PDF', 
-    icon: '📝→📄',
-    description: 'Convert Word document to PDF format',
-    quality: 'high'
-  },
-  { 
-    id: 'jpg-png', 
-    label: 'JPG to PNG', 
-    from: 'JPG', 
-    to: 'PNG', 
-    icon: '🖼️→🖼️',
-    description: 'Convert JPEG to PNG with transparency support',
-    quality: 'high'
-  },
-  { 
-    id: 'png-jpg', 
-    label: 'PNG to JPG', 
-    from: 'PNG', 
-    to: 'JPG', 
-    icon: '🖼️→🖼️',
-    description: 'Convert PNG to JPEG with optimized file size',
-    quality: 'high'
-  },
-];
+export interface ConvertedOutput {
+  downloadUrl: string;
+  blob: Blob;
+  fileName: string;
+  size: number;
+}
 
 export const MAX_FILE_SIZE = 50 * 1024 * 1024; // 50MB for better document support
 
-export const SUPPORTED_FILE_TYPES = {
-  'application/pdf': ['pdf'],
-  'application/vnd.openxmlformats-officedocument.wordprocessingml.document': ['docx'],
-  'image/png': ['png'],
-  'image/jpeg': ['jpg', 'jpeg'],
-  'text/rtf': ['rtf'],
-  'text/plain': ['txt'],
-};
-
 // Quality settings for different conversion types
 export const QUALITY_SETTINGS = {
   image: {
@@ -125,11 +82,3 @@ export const FILE_SIZE_LIMITS = {
   'image/png': 20 * 1024 * 1024, // 20MB
   default: 20 * 1024 * 1024 // 20MB
 };
-
-// Supported conversion matrix
-export const CONVERSION_MATRIX = {
-  'PDF': ['JPG', 'PNG', 'DOCX'],
-  'DOCX': ['PDF'],
-  'JPG': ['PNG'],
-  'PNG': ['JPG']
-};
\ No newline at end of file
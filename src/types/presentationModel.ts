@@ -0,0 +1,159 @@
+/**
+ * Format-independent presentation model
+ * The PPTX reader resolves what slides inherit from their layout, master
+ * and theme, so each slide here is complete: positioned shapes, pictures
+ * and tables with their own fills, outlines and text styles. All sizes are
+ * in points.
+ */
+
+export interface SlideColor {
+  // Hex colour without '#'
+  hex: string;
+  // Opacity from 0 to 1; opaque when unset
+  alpha?: number;
+}
+
+export interface SlideImage {
+  data: Uint8Array;
+  contentType: string;
+}
+
+export type SlideFill =
+  | { type: 'solid'; color: SlideColor }
+  // Angle in degrees clockwise from left-to-right; radial gradients start at the centre
+  | { type: 'gradient'; stops: Array<{ position: number; color: SlideColor }>; angle: number; radial?: boolean }
+  | { type: 'image'; image: SlideImage };
+
+export interface SlideOutline {
+  color: SlideColor;
+  width: number;
+  // Dash and gap lengths in multiples of the line width
+  dash?: number[];
+  arrowStart?: boolean;
+  arrowEnd?: boolean;
+}
+
+// Commands of a custom shape outline; arc angles are in degrees
+export type PathCommand =
+  | { type: 'move' | 'line'; x: number; y: number }
+  | { type: 'cubic' | 'quad'; points: Array<[number, number]> }
+  | { type: 'arc'; widthRadius: number; heightRadius: number; startAngle: number; sweepAngle: number }
+  | { type: 'close' };
+
+export interface ShapePath {
+  // Coordinate space of the commands, stretched over the shape; points when unset
+  width?: number;
+  height?: number;
+  commands: PathCommand[];
+  fill: boolean;
+  stroke: boolean;
+}
+
+export type ShapeGeometry =
+  // Preset shape name as in DrawingML ("rect", "roundRect", "rightArrow", ...)
+  | { preset: string; adjustments: Record<string, number> }
+  | { paths: ShapePath[] };
+
+// Percentages of the line height (1 = single) or fixed points
+export type TextSpacing = { percent: number } | { points: number };
+
+export interface SlideTextRun {
+  // May hold line breaks
+  text: string;
+  fontSize: number;
+  fontFamily: string;
+  color: SlideColor;
+  bold?: boolean;
+  italic?: boolean;
+  underline?: boolean;
+  strike?: boolean;
+  // Superscript above 0, subscript below, as a fraction of the font size
+  baseline?: number;
+}
+
+export interface SlideParagraph {
+  runs: SlideTextRun[];
+  alignment: 'left' | 'center' | 'right' | 'justify';
+  // Left margin of the text, and where the first line (or bullet) starts relative to it
+  marginLeft: number;
+  indent: number;
+  spaceBefore?: TextSpacing;
+  spaceAfter?: TextSpacing;
+  lineSpacing?: TextSpacing;
+  bullet?: { text: string; fontSize: number; fontFamily: string; color: SlideColor };
+  // Size of an empty paragraph's line
+  fontSize: number;
+}
+
+export interface SlideTextBody {
+  paragraphs: SlideParagraph[];
+  anchor: 'top' | 'middle' | 'bottom';
+  insets: { left: number; top: number; right: number; bottom: number };
+  wrap: boolean;
+  // Text running down (90) or up (270) the shape
+  vertical?: 90 | 270;
+}
+
+export interface SlideTransform {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  // Degrees clockwise about the centre
+  rotation?: number;
+  flipH?: boolean;
+  flipV?: boolean;
+}
+
+export interface SlideShape extends SlideTransform {
+  type: 'shape';
+  geometry: ShapeGeometry;
+  fill?: SlideFill;
+  outline?: SlideOutline;
+  text?: SlideTextBody;
+}
+
+export interface SlidePicture extends SlideTransform {
+  type: 'picture';
+  image: SlideImage;
+  // Fractions of the image cut off each side; negative values pad it
+  crop?: { left: number; top: number; right: number; bottom: number };
+  // Pictures cropped to a shape other than a rectangle
+  geometry?: ShapeGeometry;
+  outline?: SlideOutline;
+}
+
+export interface SlideTableCell {
+  text?: SlideTextBody;
+  fill?: SlideFill;
+  borders: { left?: SlideOutline; top?: SlideOutline; right?: SlideOutline; bottom?: SlideOutline };
+  colSpan?: number;
+  rowSpan?: number;
+  // Covered by a neighbouring cell that spans it
+  merged?: boolean;
+}
+
+export interface SlideTable extends SlideTransform {
+  type: 'table';
+  columns: number[];
+  // Row heights are minimums; rows grow to fit their text
+  rows: Array<{ height: number; cells: SlideTableCell[] }>;
+}
+
+export type SlideElement = SlideShape | SlidePicture | SlideTable;
+
+export interface Slide {
+  // White when unset
+  background?: SlideFill;
+  // In drawing order: master and layout shapes first
+  elements: SlideElement[];
+  // Skipped in slide shows
+  hidden?: boolean;
+}
+
+export interface Presentation {
+  width: number;
+  height: number;
+  slides: Slide[];
+  title?: string;
+}
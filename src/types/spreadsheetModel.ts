@@ -0,0 +1,53 @@
+/**
+ * Format-independent spreadsheet model
+ * Spreadsheet readers (XLSX, CSV) produce it and writers consume it, the
+ * way documents go through the document model.
+ */
+
+// Dates are numbers (serial days) with a date number format, as in Excel
+export type CellValue = string | number | boolean;
+
+export interface CellStyle {
+  bold?: boolean;
+  italic?: boolean;
+  // Hex colours without '#'
+  color?: string;
+  fill?: string;
+  alignment?: 'left' | 'center' | 'right';
+}
+
+export interface SpreadsheetCell {
+  value: CellValue;
+  // Excel number format code, e.g. "0.00%" or "yyyy-mm-dd"; General when unset
+  numberFormat?: string;
+  // Formula without the leading '='
+  formula?: string;
+  // Error cells (#DIV/0!, #N/A, ...) keep the error text as their value
+  error?: boolean;
+  style?: CellStyle;
+}
+
+// Zero-based and inclusive
+export interface CellRange {
+  startRow: number;
+  startColumn: number;
+  endRow: number;
+  endColumn: number;
+}
+
+export interface Worksheet {
+  name: string;
+  // Sparse rows and cells; missing ones are empty
+  rows: Array<Array<SpreadsheetCell | undefined> | undefined>;
+  merges: CellRange[];
+  // Column widths in characters, as Excel stores them
+  columnWidths?: Array<number | undefined>;
+  hidden?: boolean;
+}
+
+export interface Workbook {
+  sheets: Worksheet[];
+  // Serial day 0 is 1904-01-01 instead of 1899-12-31
+  date1904?: boolean;
+  title?: string;
+}
@@ -0,0 +1,50 @@
+/**
+ * The app's IndexedDB database
+ * Shared by the conversion history and the saved batch queue.
+ */
+
+const DB_NAME = 'vixert-converter';
+const DB_VERSION = 2;
+
+export const HISTORY_STORE = 'history';
+export const BATCH_STORE = 'batch';
+
+let database: Promise<IDBDatabase> | null = null;
+
+export const requestToPromise = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error ?? new Error('IndexedDB request failed'));
+  });
+
+const openDatabase = (): Promise<IDBDatabase> => {
+  if (!database) {
+    database = new Promise((resolve, reject) => {
+      if (typeof indexedDB === 'undefined') {
+        reject(new Error('IndexedDB is not available in this browser'));
+        return;
+      }
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      // Creates whichever stores an older version of the database lacks
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(HISTORY_STORE)) {
+          db.createObjectStore(HISTORY_STORE, { keyPath: 'id' }).createIndex('createdAt', 'createdAt');
+        }
+        if (!db.objectStoreNames.contains(BATCH_STORE)) {
+          db.createObjectStore(BATCH_STORE, { keyPath: 'id' });
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error ?? new Error('Cannot open the app database'));
+    });
+    // Allow a later attempt after a failure, e.g. in private browsing
+    database.catch(() => {
+      database = null;
+    });
+  }
+  return database;
+};
+
+export const getStore = async (name: string, mode: IDBTransactionMode): Promise<IDBObjectStore> =>
+  (await openDatabase()).transaction(name, mode).objectStore(name);
@@ -0,0 +1,62 @@
+/**
+ * Saved batch
+ * The files and settings of a running batch are kept in IndexedDB, so a
+ * batch cut short by a crash or reload can be resumed on the next visit.
+ * Files are marked done as they convert successfully and are skipped then.
+ */
+
+import { BATCH_STORE, getStore as getAppStore, requestToPromise } from './appDatabase';
+import type { ConverterOptions } from './converterRegistry';
+
+export interface SavedBatchFile {
+  // Id of the uploaded file
+  id: string;
+  name: string;
+  type: string;
+  blob: Blob;
+  done: boolean;
+}
+
+export interface SavedBatch {
+  savedAt: number;
+  label: string;
+  // Converter ids of the selected route
+  steps: string[];
+  options: ConverterOptions;
+  // Whether the files are combined into one output
+  combine: boolean;
+  files: SavedBatchFile[];
+}
+
+// Only one batch runs at a time
+const BATCH_KEY = 'current';
+
+const getStore = (mode: IDBTransactionMode) => getAppStore(BATCH_STORE, mode);
+
+export const saveBatch = async (batch: Omit<SavedBatch, 'savedAt'>): Promise<void> => {
+  await requestToPromise((await getStore('readwrite')).put({ ...batch, id: BATCH_KEY, savedAt: Date.now() }));
+};
+
+/**
+ * The interrupted batch, if it still has files to convert
+ */
+export const getSavedBatch = async (): Promise<SavedBatch | null> => {
+  const stored = await requestToPromise((await getStore('readonly')).get(BATCH_KEY) as IDBRequest<SavedBatch | undefined>);
+  return stored && stored.files.some(file => !file.done) ? stored : null;
+};
+
+/**
+ * Mark files as converted. Read and write share one transaction, so
+ * conversions finishing together do not overwrite each other.
+ */
+export const markBatchFilesDone = async (fileIds: string[]): Promise<void> => {
+  const store = await getStore('readwrite');
+  const stored = await requestToPromise(store.get(BATCH_KEY) as IDBRequest<SavedBatch | undefined>);
+  if (!stored) return;
+  const files = stored.files.map(file => fileIds.includes(file.id) ? { ...file, done: true } : file);
+  await requestToPromise(store.put({ ...stored, files }));
+};
+
+export const clearSavedBatch = async (): Promise<void> => {
+  await requestToPromise((await getStore('readwrite')).delete(BATCH_KEY));
+};
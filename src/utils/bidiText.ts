@@ -0,0 +1,169 @@
+/**
+ * Right-to-left text support
+ * Character direction classes, Arabic contextual shaping through the
+ * presentation form code points and visual reordering of mixed-direction lines.
+ */
+
+export type TextDirection = 'ltr' | 'rtl';
+
+// Isolated form of each letter; dual-joining letters are followed by their
+// final, initial and medial forms, right-joining letters by the final form only
+const ARABIC_FORMS: Record<number, { isolated: number; dual: boolean }> = {};
+
+const addForms = (dual: boolean, entries: Array<[number, number]>) => {
+  for (const [letter, isolated] of entries) ARABIC_FORMS[letter] = { isolated, dual };
+};
+
+addForms(false, [
+  [0x0622, 0xfe81], [0x0623, 0xfe83], [0x0624, 0xfe85], [0x0625, 0xfe87], [0x0627, 0xfe8d],
+  [0x0629, 0xfe93], [0x062f, 0xfea9], [0x0630, 0xfeab], [0x0631, 0xfead], [0x0632, 0xfeaf],
+  [0x0648, 0xfeed], [0x0649, 0xfeef], [0x0698, 0xfb8a],
+]);
+addForms(true, [
+  [0x0626, 0xfe89], [0x0628, 0xfe8f], [0x062a, 0xfe95], [0x062b, 0xfe99], [0x062c, 0xfe9d],
+  [0x062d, 0xfea1], [0x062e, 0xfea5], [0x0633, 0xfeb1], [0x0634, 0xfeb5], [0x0635, 0xfeb9],
+  [0x0636, 0xfebd], [0x0637, 0xfec1], [0x0638, 0xfec5], [0x0639, 0xfec9], [0x063a, 0xfecd],
+  [0x0641, 0xfed1], [0x0642, 0xfed5], [0x0643, 0xfed9], [0x0644, 0xfedd], [0x0645, 0xfee1],
+  [0x0646, 0xfee5], [0x0647, 0xfee9], [0x064a, 0xfef1], [0x067e, 0xfb56], [0x0686, 0xfb7a],
+  [0x06a9, 0xfb8e], [0x06af, 0xfb92], [0x06cc, 0xfbfc],
+]);
+
+const HAMZA = 0x0621;
+const TATWEEL = 0x0640;
+const LAM = 0x0644;
+
+// Lam followed by an alef variant becomes a single ligature (isolated form; +1 for final)
+const LAM_ALEF: Record<number, number> = { 0x0622: 0xfef5, 0x0623: 0xfef7, 0x0625: 0xfef9, 0x0627: 0xfefb };
+
+// Presentation form back to the letter it was shaped from
+const BASE_LETTERS = new Map<number, string>();
+for (const [letter, { isolated, dual }] of Object.entries(ARABIC_FORMS)) {
+  for (let form = 0; form < (dual ? 4 : 2); form++) BASE_LETTERS.set(isolated + form, String.fromCharCode(Number(letter)));
+}
+for (const [alef, ligature] of Object.entries(LAM_ALEF)) {
+  const text = String.fromCharCode(LAM, Number(alef));
+  BASE_LETTERS.set(ligature, text);
+  BASE_LETTERS.set(ligature + 1, text);
+}
+
+const MIRRORED: Record<string, string> = {
+  '(': ')', ')': '(', '[': ']', ']': '[', '{': '}', '}': '{', '<': '>', '>': '<', '«': '»', '»': '«',
+};
+
+const isTransparent = (code: number) => (code >= 0x064b && code <= 0x065f) || code === 0x0670 || (code >= 0x06d6 && code <= 0x06ed);
+
+/**
+ * Direction class of a character: strong RTL (Hebrew, Arabic, ...), strong LTR
+ * (letters of other scripts) or neutral (digits, spaces, punctuation)
+ */
+export const getCharDirection = (char: string): TextDirection | 'neutral' => {
+  const code = char.codePointAt(0) ?? 0;
+  if (
+    (code >= 0x0590 && code <= 0x08ff)
+    || (code >= 0xfb1d && code <= 0xfdff)
+    || (code >= 0xfe70 && code <= 0xfeff)
+    || (code >= 0x10800 && code <= 0x10fff)
+  ) {
+    // Arabic-Indic digits are numbers and keep their left-to-right order
+    return (code >= 0x0660 && code <= 0x0669) || (code >= 0x06f0 && code <= 0x06f9) ? 'neutral' : 'rtl';
+  }
+  return /\p{L}/u.test(char) ? 'ltr' : 'neutral';
+};
+
+/**
+ * Direction of the first strong character, as used for a paragraph's base direction
+ */
+export const detectTextDirection = (text: string): TextDirection => {
+  for (const char of text) {
+    const direction = getCharDirection(char);
+    if (direction !== 'neutral') return direction;
+  }
+  return 'ltr';
+};
+
+/**
+ * Replace Arabic letters with their contextual presentation forms
+ */
+export const shapeArabic = (text: string): string => {
+  const codes = Array.from(text, char => char.codePointAt(0) ?? 0);
+  const joinsForward = (code: number | undefined) => code !== undefined && (ARABIC_FORMS[code]?.dual || code === TATWEEL);
+  const joinsBackward = (code: number | undefined) => code !== undefined && (!!ARABIC_FORMS[code] || code === TATWEEL);
+  const neighbour = (index: number, step: number) => {
+    for (let i = index + step; i >= 0 && i < codes.length; i += step) {
+      if (!isTransparent(codes[i])) return { code: codes[i], index: i };
+    }
+    return undefined;
+  };
+
+  let result = '';
+  for (let i = 0; i < codes.length; i++) {
+    const code = codes[i];
+    const forms = ARABIC_FORMS[code];
+    if (!forms || code === HAMZA) {
+      result += String.fromCodePoint(code);
+      continue;
+    }
+    const previous = neighbour(i, -1);
+    const next = neighbour(i, 1);
+    const joinsPrevious = joinsForward(previous?.code);
+
+    if (code === LAM && next && LAM_ALEF[next.code]) {
+      result += String.fromCharCode(LAM_ALEF[next.code] + (joinsPrevious ? 1 : 0));
+      // Keep any harakat between lam and alef, drop the alef itself
+      for (let j = i + 1; j < next.index; j++) result += String.fromCodePoint(codes[j]);
+      i = next.index;
+      continue;
+    }
+
+    const joinsNext = forms.dual && joinsBackward(next?.code);
+    let form = 0;
+    if (joinsPrevious && joinsNext) form = 3;
+    else if (joinsPrevious) form = 1;
+    else if (joinsNext) form = 2;
+    result += String.fromCharCode(forms.isolated + form);
+  }
+  return result;
+};
+
+/**
+ * Letters a presentation form was shaped from, or null for other characters
+ */
+export const getArabicBaseText = (char: string): string | null => BASE_LETTERS.get(char.codePointAt(0) ?? 0) ?? null;
+
+/**
+ * Reverse a right-to-left run into display order, mirroring paired punctuation
+ */
+export const reverseRtlText = (text: string): string => {
+  const chars = Array.from(text);
+  const clusters: string[] = [];
+  for (const char of chars) {
+    // Combining marks stay after their base character
+    if (clusters.length && /\p{M}/u.test(char)) clusters[clusters.length - 1] += char;
+    else clusters.push(MIRRORED[char] ?? char);
+  }
+  return clusters.reverse().join('');
+};
+
+/**
+ * Visual order of items with bidi embedding levels: from the highest level
+ * down to 1, every run of items at that level or above is reversed
+ */
+export const reorderByLevels = <T>(items: T[], levels: number[]): T[] => {
+  const order = items.map((_, index) => index);
+  const maxLevel = Math.max(0, ...levels);
+  for (let level = maxLevel; level >= 1; level--) {
+    let start = 0;
+    while (start < order.length) {
+      if (levels[order[start]] < level) {
+        start++;
+        continue;
+      }
+      let end = start;
+      while (end < order.length && levels[order[end]] >= level) end++;
+      const reversed = order.slice(start, end).reverse();
+      order.splice(start, reversed.length, ...reversed);
+      start = end;
+    }
+  }
+  return order.map(index => items[index]);
+};
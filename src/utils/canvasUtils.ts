@@ -0,0 +1,50 @@
+/**
+ * Canvas helpers shared by the image-producing converters
+ * OffscreenCanvas is used where available so the same code runs in the
+ * conversion workers, which have no DOM.
+ */
+
+export type DrawingCanvas = HTMLCanvasElement | OffscreenCanvas;
+export type DrawingContext = CanvasRenderingContext2D | OffscreenCanvasRenderingContext2D;
+
+// Browsers refuse canvases much larger than this (~16k x 16k on most engines)
+export const MAX_CANVAS_AREA = 16384 * 16384 / 4;
+
+/**
+ * Create a canvas and its 2D context
+ */
+export const createCanvas = (width: number, height: number): { canvas: DrawingCanvas; ctx: DrawingContext } => {
+  const canvasWidth = Math.max(1, Math.round(width));
+  const canvasHeight = Math.max(1, Math.round(height));
+  let canvas: DrawingCanvas;
+  if (typeof OffscreenCanvas !== 'undefined') {
+    canvas = new OffscreenCanvas(canvasWidth, canvasHeight);
+  } else {
+    canvas = document.createElement('canvas');
+    canvas.width = canvasWidth;
+    canvas.height = canvasHeight;
+  }
+  const ctx = canvas.getContext('2d', { alpha: true }) as DrawingContext | null;
+  if (!ctx) {
+    throw new Error('Canvas context not available');
+  }
+  return { canvas, ctx };
+};
+
+/**
+ * Encode canvas contents as an image blob
+ */
+export const canvasToBlob = (canvas: DrawingCanvas, mimeType: string, quality?: number): Promise<Blob> => {
+  if (!('toBlob' in canvas)) return canvas.convertToBlob({ type: mimeType, quality });
+  return new Promise((resolve, reject) => {
+    canvas.toBlob((blob) => {
+      if (blob) resolve(blob);
+      else reject(new Error('Failed to generate output image'));
+    }, mimeType, quality);
+  });
+};
+
+/**
+ * Decode an encoded image (JPEG, PNG, ...) into something drawable
+ */
+export const decodeImageBlob = async (blob: Blob): Promise<ImageBitmap> => createImageBitmap(blob);
@@ -0,0 +1,156 @@
+/**
+ * Conversion history
+ * Successful conversions are kept in IndexedDB with their source files,
+ * options and outputs, so they survive a page refresh and can be downloaded
+ * or run again later. The oldest entries are dropped to stay within a
+ * user-chosen storage quota.
+ */
+
+import { getStore as getAppStore, HISTORY_STORE, requestToPromise } from './appDatabase';
+import type { ConversionRoute } from './conversionPlanner';
+import { ConverterOptions, getStorableOptions } from './converterRegistry';
+import type { ConversionResult } from './fileConversion';
+
+export interface HistoryFile {
+  name: string;
+  type: string;
+  blob: Blob;
+}
+
+export interface HistoryEntry {
+  id: string;
+  createdAt: number;
+  label: string;
+  from: string;
+  to: string;
+  // Converter ids of the route that produced the outputs
+  steps: string[];
+  options: ConverterOptions;
+  sources: HistoryFile[];
+  // Empty for conversions that needed a password, so decrypted content is never stored
+  outputs: HistoryFile[];
+  originalSize: number;
+  convertedSize: number;
+  conversionTime?: number;
+  pages?: number;
+}
+
+const QUOTA_KEY = 'vixert-history-quota';
+
+export const DEFAULT_HISTORY_QUOTA = 100 * 1024 * 1024;
+
+// 0 turns the history off
+export const HISTORY_QUOTA_CHOICES = [0, 25, 100, 250, 500].map(megabytes => megabytes * 1024 * 1024);
+
+const listeners = new Set<() => void>();
+
+const getStore = (mode: IDBTransactionMode) => getAppStore(HISTORY_STORE, mode);
+
+const notify = () => listeners.forEach(listener => listener());
+
+/**
+ * Bytes an entry takes up: its source and output files
+ */
+export const getEntrySize = (entry: HistoryEntry): number =>
+  [...entry.sources, ...entry.outputs].reduce((total, file) => total + file.blob.size, 0);
+
+export const getHistoryQuota = (): number => {
+  const stored = localStorage.getItem(QUOTA_KEY);
+  return stored !== null && Number.isFinite(Number(stored)) ? Number(stored) : DEFAULT_HISTORY_QUOTA;
+};
+
+/**
+ * Past conversions, newest first
+ */
+export const getHistoryEntries = async (): Promise<HistoryEntry[]> => {
+  const entries = await requestToPromise((await getStore('readonly')).getAll() as IDBRequest<HistoryEntry[]>);
+  return entries.sort((a, b) => b.createdAt - a.createdAt);
+};
+
+/**
+ * Delete the oldest entries until the history fits the quota
+ */
+const enforceQuota = async (quota: number): Promise<void> => {
+  const entries = await getHistoryEntries();
+  let total = entries.reduce((sum, entry) => sum + getEntrySize(entry), 0);
+  const store = await getStore('readwrite');
+  const deletions: Array<Promise<undefined>> = [];
+  for (const entry of [...entries].reverse()) {
+    if (total <= quota) break;
+    deletions.push(requestToPromise(store.delete(entry.id)));
+    total -= getEntrySize(entry);
+  }
+  await Promise.all(deletions);
+};
+
+export const setHistoryQuota = async (quota: number): Promise<void> => {
+  localStorage.setItem(QUOTA_KEY, String(quota));
+  await enforceQuota(quota);
+  notify();
+};
+
+/**
+ * Store a conversion; entries larger than the whole quota are not kept
+ */
+export const addHistoryEntry = async (entry: Omit<HistoryEntry, 'id' | 'createdAt'>): Promise<void> => {
+  const quota = getHistoryQuota();
+  const stored: HistoryEntry = {
+    ...entry,
+    id: `history-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
+    createdAt: Date.now(),
+  };
+  if (getEntrySize(stored) > quota) return;
+
+  await requestToPromise((await getStore('readwrite')).put(stored));
+  await enforceQuota(quota);
+  notify();
+};
+
+export const deleteHistoryEntry = async (id: string): Promise<void> => {
+  await requestToPromise((await getStore('readwrite')).delete(id));
+  notify();
+};
+
+export const clearHistory = async (): Promise<void> => {
+  await requestToPromise((await getStore('readwrite')).clear());
+  notify();
+};
+
+/**
+ * Be told whenever the history changes; returns the unsubscribe function
+ */
+export const subscribeToHistory = (listener: () => void): (() => void) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+/**
+ * Record a successful conversion of `sources` along `route`. Conversions
+ * that were given a password keep their still-encrypted sources only.
+ */
+export const addConversionToHistory = (
+  route: ConversionRoute,
+  sources: File[],
+  options: ConverterOptions,
+  result: ConversionResult
+): Promise<void> => {
+  const outputs = result.outputFiles?.length
+    ? result.outputFiles
+    : result.outputBlob ? [{ blob: result.outputBlob, fileName: result.outputFileName ?? 'output' }] : [];
+  const unlocked = route.options.some(field => field.type === 'password' && Boolean(options[field.key]));
+  return addHistoryEntry({
+    label: route.label,
+    from: route.from,
+    to: route.to,
+    steps: route.steps.map(step => step.id),
+    options: getStorableOptions(route, options),
+    sources: sources.map(source => ({ name: source.name, type: source.type, blob: source })),
+    outputs: unlocked ? [] : outputs.map(output => ({ name: output.fileName, type: output.blob.type, blob: output.blob })),
+    originalSize: result.originalSize,
+    convertedSize: result.convertedSize ?? outputs.reduce((total, output) => total + output.blob.size, 0),
+    conversionTime: result.conversionTime,
+    pages: result.pages,
+  });
+};
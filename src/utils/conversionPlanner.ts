@@ -0,0 +1,222 @@
+/**
+ * Multi-hop conversion planning
+ * Treats the registered converters as edges of a format graph and finds the
+ * best chain between two formats, e.g. DOCX → PDF → PNG, then runs it.
+ */
+
+import type { ConversionOption } from '../types/fileTypes';
+import {
+  Converter,
+  ConverterOptionField,
+  ConverterOptions,
+  getConverter,
+  getConverterOptions,
+  getConverters,
+  getFormat,
+  getInputFormats,
+} from './converterRegistry';
+import { cancelledResult, ConversionProgress, ConversionResult } from './fileConversion';
+
+type QualityTier = ConversionOption['quality'];
+
+export interface ConversionRoute extends ConversionOption {
+  steps: Converter[];
+  // Options of every step, without duplicates
+  options: ConverterOptionField[];
+}
+
+// Path cost per step; lower quality steps are avoided where possible
+const QUALITY_COST: Record<QualityTier, number> = { high: 1, medium: 2, low: 4 };
+const QUALITY_RANK: QualityTier[] = ['high', 'medium', 'low'];
+
+/**
+ * Quality of a chain: that of its weakest step
+ */
+const getRouteQuality = (steps: Converter[]): QualityTier =>
+  steps.reduce<QualityTier>(
+    (worst, step) => (QUALITY_RANK.indexOf(step.quality) > QUALITY_RANK.indexOf(worst) ? step.quality : worst),
+    'high'
+  );
+
+const createRoute = (steps: Converter[]): ConversionRoute => {
+  const first = steps[0];
+  const last = steps[steps.length - 1];
+  const options: ConverterOptionField[] = [];
+  for (const step of steps) {
+    for (const field of step.options ?? []) {
+      if (!options.some(option => option.key === field.key)) options.push(field);
+    }
+  }
+  if (steps.length === 1) return { ...first, steps, options };
+
+  const via = steps.slice(1).map(step => step.from);
+  return {
+    id: `${first.from.toLowerCase()}-${last.to.toLowerCase()}`,
+    label: `${first.from} to ${last.to}`,
+    from: first.from,
+    to: last.to,
+    icon: `${first.icon.split('→')[0]}→${last.icon.split('→').pop()}`,
+    description: `Converted via ${via.join(' → ')}`,
+    quality: getRouteQuality(steps),
+    steps,
+    options,
+  };
+};
+
+/**
+ * Cheapest chain of converters from one format to another (Dijkstra over
+ * the formats), or null when the target cannot be reached. Steps that
+ * extract text never follow a step whose output is only pictures.
+ */
+export const planConversion = (fromFormat: string, toFormat: string): ConversionRoute | null => {
+  const source = fromFormat.toUpperCase();
+  const target = toFormat.toUpperCase();
+  if (source === target) return null;
+
+  // A format is reached either with its text intact or as pictures only
+  const stateKey = (format: string, raster: boolean) => `${format}|${raster ? 'raster' : 'text'}`;
+  const converters = getConverters();
+  const costs = new Map<string, number>([[stateKey(source, false), 0]]);
+  const paths = new Map<string, Converter[]>([[stateKey(source, false), []]]);
+  const done = new Set<string>();
+
+  while (true) {
+    let current: string | null = null;
+    for (const [state, cost] of costs) {
+      if (!done.has(state) && (current === null || cost < (costs.get(current) ?? Infinity))) current = state;
+    }
+    if (current === null) return null;
+    const path = paths.get(current) ?? [];
+    const [format] = current.split('|');
+    if (format === target) return createRoute(path);
+    done.add(current);
+
+    const raster = path.some(step => step.rasterOutput);
+    for (const converter of converters) {
+      if (converter.from !== format || (raster && converter.extractsText)) continue;
+      const next = stateKey(converter.to, raster || Boolean(converter.rasterOutput));
+      if (done.has(next)) continue;
+      const cost = (costs.get(current) ?? 0) + QUALITY_COST[converter.quality];
+      if (cost < (costs.get(next) ?? Infinity)) {
+        costs.set(next, cost);
+        paths.set(next, [...path, converter]);
+      }
+    }
+  }
+};
+
+/**
+ * Rebuild a route from its converter ids, e.g. on the other side of a worker
+ * message; null when one of them is not registered or the chain cannot work
+ */
+export const getRouteForSteps = (stepIds: string[]): ConversionRoute | null => {
+  const steps = stepIds.map(id => getConverter(id));
+  if (steps.length === 0 || steps.some(step => !step)) return null;
+  const raster = steps.findIndex(step => step?.rasterOutput);
+  if (raster >= 0 && steps.slice(raster + 1).some(step => step?.extractsText)) return null;
+  return createRoute(steps as Converter[]);
+};
+
+/**
+ * Every conversion that can be made, direct ones first
+ */
+export const getConversionRoutes = (): ConversionRoute[] => {
+  const direct = getConverters().map(converter => createRoute([converter]));
+  const chained: ConversionRoute[] = [];
+  const formats = new Set(getConverters().flatMap(converter => [converter.from, converter.to]));
+  for (const source of getInputFormats()) {
+    for (const target of formats) {
+      if (direct.some(route => route.from === source.id && route.to === target)) continue;
+      const route = planConversion(source.id, target);
+      if (route) chained.push(route);
+    }
+  }
+  return [...direct, ...chained];
+};
+
+/**
+ * Outputs of a step as files, to be the input of the next one
+ */
+const toFiles = (result: ConversionResult, formatId: string): File[] => {
+  const type = getFormat(formatId)?.mimeTypes[0] ?? '';
+  const outputs = result.outputFiles?.length
+    ? result.outputFiles
+    : result.outputBlob ? [{ blob: result.outputBlob, fileName: result.outputFileName ?? 'output' }] : [];
+  return outputs.map(output => new File([output.blob], output.fileName, { type }));
+};
+
+/**
+ * One result holding the outputs of converting several inputs separately
+ */
+const mergeResults = (results: ConversionResult[], formatId: string, originalSize: number): ConversionResult => {
+  const outputFiles = results.flatMap(item => toFiles(item, formatId).map(file => ({ blob: file, fileName: file.name })));
+  return {
+    success: true,
+    outputBlob: outputFiles[0]?.blob,
+    outputFileName: outputFiles[0]?.fileName,
+    outputFiles,
+    originalSize,
+    convertedSize: outputFiles.reduce((total, output) => total + output.blob.size, 0),
+    pages: results.reduce((total, item) => total + (item.pages ?? 0), 0),
+  };
+};
+
+/**
+ * Run the steps of a route in sequence. Progress is reported per step and
+ * scaled to the whole route. Several inputs are combined by the first step
+ * when it supports that; otherwise each is converted on its own. Aborting
+ * the signal stops the route, between steps or within the running one.
+ */
+export const runConversionRoute = async (
+  route: ConversionRoute,
+  files: File[],
+  options: ConverterOptions = {},
+  onProgress?: (progress: ConversionProgress) => void,
+  signal?: AbortSignal
+): Promise<ConversionResult> => {
+  const startTime = Date.now();
+  const originalSize = files.reduce((total, file) => total + file.size, 0);
+  const totalSteps = route.steps.length;
+  let inputs = files;
+  let result: ConversionResult = { success: false, error: 'Nothing to convert', originalSize };
+
+  for (let index = 0; index < totalSteps; index++) {
+    if (signal?.aborted) return cancelledResult(originalSize);
+    const step = route.steps[index];
+    const stepOptions = getConverterOptions(step, options);
+    const isLast = index === totalSteps - 1;
+    const reportProgress = (progress: ConversionProgress) => onProgress?.({
+      ...progress,
+      stage: progress.stage === 'complete' && !isLast ? 'processing' : progress.stage,
+      progress: Math.round(((index + progress.progress / 100) / totalSteps) * 100),
+      message: totalSteps > 1 ? `Step ${index + 1} of ${totalSteps} (${step.from}→${step.to}): ${progress.message}` : progress.message,
+      step: index + 1,
+      totalSteps,
+    });
+
+    if (inputs.length > 1 && step.combine) {
+      result = await step.combine(inputs, stepOptions, reportProgress, signal);
+    } else {
+      const results: ConversionResult[] = [];
+      for (const input of inputs) {
+        const stepResult = await step.convert(input, stepOptions, reportProgress, signal);
+        results.push(stepResult);
+        if (!stepResult.success) break;
+      }
+      const last = results[results.length - 1];
+      result = results.length === 1 || !last.success ? last : mergeResults(results, step.to, originalSize);
+    }
+
+    if (result.cancelled) return { ...result, originalSize };
+    if (!result.success) {
+      return {
+        ...result,
+        error: totalSteps > 1 ? `Step ${index + 1} (${step.from}→${step.to}) failed: ${result.error}` : result.error,
+        originalSize,
+      };
+    }
+    if (!isLast) inputs = toFiles(result, step.to);
+  }
+
+  return { ...result, originalSize, conversionTime: Date.now() - startTime };
+};
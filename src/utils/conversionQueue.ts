@@ -0,0 +1,146 @@
+/**
+ * Conversion job queue
+ * Starts jobs up to a concurrency limit, in FIFO or smallest-first order,
+ * and can retry failed ones. The queue can be paused (running jobs finish,
+ * no new ones start), and pending jobs can be reordered or cancelled.
+ */
+
+import { cancelledResult, ConversionResult } from './fileConversion';
+
+export type QueueOrder = 'fifo' | 'smallest-first';
+
+export interface ConversionQueueOptions {
+  concurrency: number;
+  order: QueueOrder;
+  // Further attempts for a job that fails (not for cancelled ones or missing passwords)
+  retries: number;
+}
+
+export interface QueueJob {
+  id: string;
+  // Input size in bytes, for smallest-first ordering
+  size: number;
+  run: (signal: AbortSignal) => Promise<ConversionResult>;
+  // Called when an attempt starts; attempt 1 is the first run
+  onStart?: (attempt: number) => void;
+}
+
+export interface ConversionQueue {
+  add: (job: QueueJob) => Promise<ConversionResult>;
+  cancel: (id: string) => void;
+  cancelAll: () => void;
+  pause: () => void;
+  resume: () => void;
+  isPaused: () => boolean;
+  setOptions: (options: Partial<ConversionQueueOptions>) => void;
+  // Order of pending jobs for FIFO ordering; ids not listed keep their place after the listed ones
+  reorder: (ids: string[]) => void;
+}
+
+export const DEFAULT_QUEUE_OPTIONS: ConversionQueueOptions = {
+  concurrency: 2,
+  order: 'fifo',
+  // Most failures (corrupt files, validation errors) fail again; the user retries by hand
+  retries: 0,
+};
+
+interface QueueEntry {
+  job: QueueJob;
+  attempt: number;
+  controller: AbortController;
+  resolve: (result: ConversionResult) => void;
+}
+
+export const createConversionQueue = (initial: Partial<ConversionQueueOptions> = {}): ConversionQueue => {
+  let options: ConversionQueueOptions = { ...DEFAULT_QUEUE_OPTIONS, ...initial };
+  let pending: QueueEntry[] = [];
+  const running = new Map<string, QueueEntry>();
+  let paused = false;
+
+  const takeNext = (): QueueEntry | undefined => {
+    if (pending.length === 0) return undefined;
+    let index = 0;
+    if (options.order === 'smallest-first') {
+      pending.forEach((entry, candidate) => {
+        if (entry.job.size < pending[index].job.size) index = candidate;
+      });
+    }
+    return pending.splice(index, 1)[0];
+  };
+
+  const start = async (entry: QueueEntry): Promise<void> => {
+    running.set(entry.job.id, entry);
+    entry.attempt++;
+    entry.job.onStart?.(entry.attempt);
+
+    let result: ConversionResult;
+    try {
+      result = await entry.job.run(entry.controller.signal);
+    } catch (error) {
+      result = {
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error',
+        originalSize: entry.job.size
+      };
+    }
+    running.delete(entry.job.id);
+
+    if (entry.controller.signal.aborted) {
+      entry.resolve(cancelledResult(entry.job.size));
+    } else if (!result.success && !result.cancelled && !result.passwordRequired && entry.attempt <= options.retries) {
+      // Failed attempts go to the back of the queue
+      pending.push(entry);
+    } else {
+      entry.resolve(result);
+    }
+    fill();
+  };
+
+  const fill = (): void => {
+    while (!paused && running.size < Math.max(1, options.concurrency)) {
+      const entry = takeNext();
+      if (!entry) return;
+      void start(entry);
+    }
+  };
+
+  const cancel = (id: string): void => {
+    const entry = pending.find(candidate => candidate.job.id === id);
+    if (entry) {
+      pending = pending.filter(candidate => candidate !== entry);
+      entry.resolve(cancelledResult(entry.job.size));
+    }
+    // Running jobs report their cancellation when they return
+    running.get(id)?.controller.abort();
+  };
+
+  return {
+    add: (job) => new Promise((resolve) => {
+      pending.push({ job, attempt: 0, controller: new AbortController(), resolve });
+      fill();
+    }),
+    cancel,
+    cancelAll: () => {
+      for (const id of [...pending.map(entry => entry.job.id), ...running.keys()]) cancel(id);
+    },
+    pause: () => {
+      paused = true;
+    },
+    resume: () => {
+      paused = false;
+      fill();
+    },
+    isPaused: () => paused,
+    setOptions: (changes) => {
+      options = { ...options, ...changes };
+      fill();
+    },
+    reorder: (ids) => {
+      const position = (entry: QueueEntry) => {
+        const index = ids.indexOf(entry.job.id);
+        return index < 0 ? ids.length : index;
+      };
+      pending = [...pending].sort((a, b) => position(a) - position(b));
+    },
+  };
+};
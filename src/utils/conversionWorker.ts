@@ -0,0 +1,33 @@
+/**
+ * Conversion worker
+ * Entry point of the workers started by the conversion pool. Runs one
+ * route at a time and posts its progress and result back.
+ */
+
+import './converters';
+import { getRouteForSteps, runConversionRoute } from './conversionPlanner';
+import type { ConversionWorkerRequest, ConversionWorkerResponse } from './conversionWorkerPool';
+import type { ConversionResult } from './fileConversion';
+
+const post = (message: ConversionWorkerResponse): void => self.postMessage(message);
+
+self.onmessage = async (event: MessageEvent<ConversionWorkerRequest>) => {
+  const { id, steps, files, options } = event.data;
+  const originalSize = files.reduce((total, file) => total + file.size, 0);
+  let result: ConversionResult;
+
+  try {
+    const route = getRouteForSteps(steps);
+    result = route
+      ? await runConversionRoute(route, files, options, progress => post({ type: 'progress', id, progress }))
+      : { success: false, error: `Unknown conversion route: ${steps.join(', ')}`, originalSize };
+  } catch (error) {
+    result = {
+      success: false,
+      error: `Conversion failed: ${error instanceof Error ? error.message : 'Unknown error'}`,
+      originalSize
+    };
+  }
+
+  post({ type: 'result', id, result });
+};
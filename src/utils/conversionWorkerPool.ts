@@ -0,0 +1,168 @@
+/**
+ * Conversion worker pool
+ * Runs conversion routes in Web Workers so that large files do not block
+ * the page. Progress events are streamed back from the worker as they
+ * happen. Browsers without OffscreenCanvas convert on the main thread.
+ * A cancelled conversion terminates its worker, so it stops at once even
+ * inside long synchronous work; a fresh worker takes its place.
+ */
+
+import { ConversionRoute, runConversionRoute } from './conversionPlanner';
+import type { ConverterOptions } from './converterRegistry';
+import { cancelledResult, ConversionProgress, ConversionResult } from './fileConversion';
+
+export interface ConversionWorkerRequest {
+  type: 'convert';
+  id: number;
+  // Converter ids of the route, in order
+  steps: string[];
+  files: File[];
+  options: ConverterOptions;
+}
+
+export type ConversionWorkerResponse =
+  | { type: 'progress'; id: number; progress: ConversionProgress }
+  | { type: 'result'; id: number; result: ConversionResult };
+
+interface PoolTask {
+  request: ConversionWorkerRequest;
+  onProgress?: (progress: ConversionProgress) => void;
+  resolve: (result: ConversionResult) => void;
+}
+
+interface PoolWorker {
+  worker: Worker;
+  task: PoolTask | null;
+}
+
+// Each worker holds its own copy of the converters, so keep the pool modest
+const MAX_WORKERS = 4;
+
+const workers: PoolWorker[] = [];
+const queue: PoolTask[] = [];
+let nextTaskId = 1;
+
+/**
+ * Whether conversions can run off the main thread
+ */
+export const supportsWorkerConversion = (): boolean =>
+  typeof Worker !== 'undefined' && typeof OffscreenCanvas !== 'undefined' && typeof createImageBitmap !== 'undefined';
+
+/**
+ * Number of workers: one per core, leaving one for the page
+ */
+export const getPoolSize = (): number =>
+  Math.max(1, Math.min(MAX_WORKERS, (navigator.hardwareConcurrency || 2) - 1));
+
+const getOriginalSize = (request: ConversionWorkerRequest): number =>
+  request.files.reduce((total, file) => total + file.size, 0);
+
+const createPoolWorker = (): PoolWorker => {
+  const entry: PoolWorker = {
+    worker: new Worker(new URL('./conversionWorker.ts', import.meta.url), { type: 'module' }),
+    task: null,
+  };
+
+  entry.worker.onmessage = (event: MessageEvent<ConversionWorkerResponse>) => {
+    const message = event.data;
+    const task = entry.task;
+    if (!task || message.id !== task.request.id) return;
+
+    if (message.type === 'progress') {
+      task.onProgress?.(message.progress);
+      return;
+    }
+    entry.task = null;
+    task.resolve(message.result);
+    dispatch();
+  };
+
+  // A worker that crashed (e.g. out of memory) is replaced by a fresh one
+  entry.worker.onerror = (event: ErrorEvent) => {
+    event.preventDefault();
+    const task = entry.task;
+    entry.worker.terminate();
+    workers.splice(workers.indexOf(entry), 1);
+    task?.resolve({
+      success: false,
+      error: `Conversion worker failed: ${event.message || 'Unknown error'}`,
+      originalSize: getOriginalSize(task.request),
+    });
+    dispatch();
+  };
+
+  return entry;
+};
+
+/**
+ * Hand queued tasks to idle workers, starting new ones up to the pool size
+ */
+const dispatch = (): void => {
+  while (queue.length > 0) {
+    let entry = workers.find(candidate => !candidate.task);
+    if (!entry && workers.length < getPoolSize()) {
+      entry = createPoolWorker();
+      workers.push(entry);
+    }
+    if (!entry) return;
+
+    const task = queue.shift() as PoolTask;
+    entry.task = task;
+    entry.worker.postMessage(task.request);
+  }
+};
+
+/**
+ * Drop a task from the queue, or stop the worker running it
+ */
+const cancelTask = (task: PoolTask): void => {
+  const queued = queue.indexOf(task);
+  if (queued >= 0) {
+    queue.splice(queued, 1);
+  } else {
+    const entry = workers.find(candidate => candidate.task === task);
+    if (!entry) return;
+    entry.worker.terminate();
+    workers.splice(workers.indexOf(entry), 1);
+  }
+  task.resolve(cancelledResult(getOriginalSize(task.request)));
+  dispatch();
+};
+
+/**
+ * Run a conversion route on the worker pool. Tasks wait for a free worker,
+ * so any number can be started at once.
+ */
+export const runConversion = (
+  route: ConversionRoute,
+  files: File[],
+  options: ConverterOptions = {},
+  onProgress?: (progress: ConversionProgress) => void,
+  signal?: AbortSignal
+): Promise<ConversionResult> => {
+  if (!supportsWorkerConversion()) return runConversionRoute(route, files, options, onProgress, signal);
+
+  const request: ConversionWorkerRequest = {
+    type: 'convert',
+    id: nextTaskId++,
+    steps: route.steps.map(step => step.id),
+    files,
+    options,
+  };
+  if (signal?.aborted) return Promise.resolve(cancelledResult(getOriginalSize(request)));
+
+  return new Promise((resolve) => {
+    const onAbort = () => cancelTask(task);
+    const task: PoolTask = {
+      request,
+      onProgress,
+      resolve: (result) => {
+        signal?.removeEventListener('abort', onAbort);
+        resolve(result);
+      },
+    };
+    signal?.addEventListener('abort', onAbort, { once: true });
+    queue.push(task);
+    dispatch();
+  });
+};
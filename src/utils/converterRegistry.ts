@@ -0,0 +1,136 @@
+/**
+ * Converter registry
+ * Every conversion is declared once, with its input and output formats,
+ * options and implementation. The option list in the UI, the conversion
+ * matrix, input validation and routing are all derived from it.
+ */
+
+import type { ConversionOption } from '../types/fileTypes';
+import type { ConversionProgress, ConversionResult } from './fileConversion';
+
+export interface FileFormat {
+  // Upper-case identifier used in conversion ids, e.g. "PDF"
+  id: string;
+  extensions: string[];
+  mimeTypes: string[];
+}
+
+export type ConverterOptionValue = string | number | boolean;
+export type ConverterOptions = Record<string, ConverterOptionValue>;
+
+export interface ConverterOptionField {
+  key: string;
+  label: string;
+  // Password values are never persisted
+  type: 'select' | 'boolean' | 'password';
+  choices?: Array<{ value: string | number; label: string }>;
+  defaultValue: ConverterOptionValue;
+}
+
+export interface Converter extends ConversionOption {
+  options?: ConverterOptionField[];
+  // Output holds only pictures, with no text a later step could extract
+  rasterOutput?: boolean;
+  // Reads the text of its input, so it cannot follow a raster-only step
+  extractsText?: boolean;
+  // Aborting the signal ends the conversion with a cancelled result
+  convert: (
+    file: File,
+    options: ConverterOptions,
+    onProgress?: (progress: ConversionProgress) => void,
+    signal?: AbortSignal
+  ) => Promise<ConversionResult>;
+  // Converts several inputs into a single output, for converters that support it
+  combine?: (
+    files: File[],
+    options: ConverterOptions,
+    onProgress?: (progress: ConversionProgress) => void,
+    signal?: AbortSignal
+  ) => Promise<ConversionResult>;
+}
+
+const formats = new Map<string, FileFormat>();
+const converters = new Map<string, Converter>();
+
+export const registerFormat = (format: FileFormat): void => {
+  formats.set(format.id, format);
+};
+
+/**
+ * Add a converter; its input and output formats must be registered first
+ */
+export const registerConverter = (converter: Converter): void => {
+  for (const formatId of [converter.from, converter.to]) {
+    if (!formats.has(formatId)) throw new Error(`Unknown file format "${formatId}" in converter ${converter.id}`);
+  }
+  converters.set(converter.id, converter);
+};
+
+export const getFormat = (id: string): FileFormat | undefined => formats.get(id);
+
+export const getConverters = (): Converter[] => Array.from(converters.values());
+
+export const getConverter = (id: string): Converter | undefined => converters.get(id);
+
+export const findConverter = (fromFormat: string, toFormat: string): Converter | undefined =>
+  converters.get(`${fromFormat.toLowerCase()}-${toFormat.toLowerCase()}`);
+
+/**
+ * Option values with the defaults of a converter (or route) filled in
+ */
+export const getConverterOptions = (converter: Pick<Converter, 'options'>, values: ConverterOptions = {}): ConverterOptions => {
+  const options: ConverterOptions = {};
+  for (const field of converter.options ?? []) options[field.key] = values[field.key] ?? field.defaultValue;
+  return options;
+};
+
+/**
+ * Option values that may be persisted: the same, minus password fields
+ */
+export const getStorableOptions = (converter: Pick<Converter, 'options'>, values: ConverterOptions = {}): ConverterOptions => {
+  const options = getConverterOptions(converter, values);
+  for (const field of converter.options ?? []) {
+    if (field.type === 'password') delete options[field.key];
+  }
+  return options;
+};
+
+/**
+ * Target formats for each source format
+ */
+export const getConversionMatrix = (): Record<string, string[]> => {
+  const matrix: Record<string, string[]> = {};
+  for (const converter of converters.values()) {
+    matrix[converter.from] = [...(matrix[converter.from] ?? []), converter.to];
+  }
+  return matrix;
+};
+
+/**
+ * Formats that at least one converter accepts as input
+ */
+export const getInputFormats = (): FileFormat[] => {
+  const ids = new Set(getConverters().map(converter => converter.from));
+  return Array.from(formats.values()).filter(format => ids.has(format.id));
+};
+
+/**
+ * Accepted extensions keyed by MIME type, for input validation
+ */
+export const getSupportedInputTypes = (): Record<string, string[]> => {
+  const types: Record<string, string[]> = {};
+  for (const format of getInputFormats()) {
+    for (const mimeType of format.mimeTypes) types[mimeType] = [...(types[mimeType] ?? []), ...format.extensions];
+  }
+  return types;
+};
+
+/**
+ * Registered format of a file, by MIME type first and then by extension
+ */
+export const getFileFormat = (file: File): FileFormat | undefined => {
+  const extension = file.name.split('.').pop()?.toLowerCase() ?? '';
+  const all = Array.from(formats.values());
+  return all.find(format => file.type && format.mimeTypes.includes(file.type))
+    ?? all.find(format => format.extensions.includes(extension));
+};
@@ -0,0 +1,319 @@
+/**
+ * Built-in file formats and converters
+ * Imported once at start-up; a new format is added by registering it here
+ * together with the converters that read or write it.
+ */
+
+import { ConverterOptionField, ConverterOptions, registerConverter, registerFormat } from './converterRegistry';
+import {
+  convertDocxToPDF,
+  convertImage,
+  convertImagesToPDF,
+  convertPDFToDocx,
+  convertPDFToImage,
+  convertPresentation,
+  convertSpreadsheet,
+  convertTextDocument,
+} from './fileConversion';
+import { DEFAULT_IMAGE_PDF_OPTIONS, ImagePageSize, ImagePdfOptions, PageOrientation } from './imagePdf';
+
+registerFormat({ id: 'PDF', extensions: ['pdf'], mimeTypes: ['application/pdf'] });
+registerFormat({
+  id: 'DOCX',
+  extensions: ['docx'],
+  mimeTypes: ['application/vnd.openxmlformats-officedocument.wordprocessingml.document'],
+});
+registerFormat({ id: 'JPG', extensions: ['jpg', 'jpeg'], mimeTypes: ['image/jpeg'] });
+registerFormat({ id: 'PNG', extensions: ['png'], mimeTypes: ['image/png'] });
+registerFormat({ id: 'TXT', extensions: ['txt', 'text', 'log'], mimeTypes: ['text/plain'] });
+registerFormat({ id: 'RTF', extensions: ['rtf'], mimeTypes: ['application/rtf', 'text/rtf'] });
+registerFormat({ id: 'MD', extensions: ['md', 'markdown', 'mdown', 'mkd'], mimeTypes: ['text/markdown', 'text/x-markdown'] });
+registerFormat({ id: 'HTML', extensions: ['html', 'htm', 'xhtml'], mimeTypes: ['text/html', 'application/xhtml+xml'] });
+registerFormat({
+  id: 'XLSX',
+  extensions: ['xlsx', 'xlsm'],
+  mimeTypes: ['application/vnd.openxmlformats-officedocument.spreadsheetml.sheet'],
+});
+registerFormat({ id: 'CSV', extensions: ['csv', 'tsv'], mimeTypes: ['text/csv', 'text/tab-separated-values'] });
+registerFormat({
+  id: 'PPTX',
+  extensions: ['pptx', 'pptm'],
+  mimeTypes: ['application/vnd.openxmlformats-officedocument.presentationml.presentation'],
+});
+
+// Opens encrypted PDFs; never stored with the history or a saved batch
+const PDF_PASSWORD_FIELD: ConverterOptionField = {
+  key: 'password',
+  label: 'PDF password (if protected)',
+  type: 'password',
+  defaultValue: '',
+};
+
+registerConverter({
+  id: 'pdf-jpg',
+  label: 'PDF to JPG',
+  from: 'PDF',
+  to: 'JPG',
+  icon: '📄→🖼️',
+  description: 'Convert PDF pages to high-quality JPEG images',
+  quality: 'high',
+  rasterOutput: true,
+  options: [PDF_PASSWORD_FIELD],
+  convert: (file, options, onProgress, signal) => convertPDFToImage(file, 'JPG', onProgress, String(options.password ?? ''), signal),
+});
+
+registerConverter({
+  id: 'pdf-png',
+  label: 'PDF to PNG',
+  from: 'PDF',
+  to: 'PNG',
+  icon: '📄→🖼️',
+  description: 'Convert PDF pages to PNG images with transparency support',
+  quality: 'high',
+  rasterOutput: true,
+  options: [PDF_PASSWORD_FIELD],
+  convert: (file, options, onProgress, signal) => convertPDFToImage(file, 'PNG', onProgress, String(options.password ?? ''), signal),
+});
+
+registerConverter({
+  id: 'pdf-docx',
+  label: 'PDF to DOCX',
+  from: 'PDF',
+  to: 'DOCX',
+  icon: '📄→📝',
+  description: 'Extract text and convert PDF to editable Word document',
+  quality: 'high',
+  extractsText: true,
+  options: [PDF_PASSWORD_FIELD],
+  convert: (file, options, onProgress, signal) => convertPDFToDocx(file, onProgress, String(options.password ?? ''), signal),
+});
+
+registerConverter({
+  id: 'docx-pdf',
+  label: 'DOCX to PDF',
+  from: 'DOCX',
+  to: 'PDF',
+  icon: '📝→📄',
+  description: 'Convert Word document to PDF format',
+  quality: 'high',
+  convert: (file, _options, onProgress, signal) => convertDocxToPDF(file, onProgress, signal),
+});
+
+registerConverter({
+  id: 'jpg-png',
+  label: 'JPG to PNG',
+  from: 'JPG',
+  to: 'PNG',
+  icon: '🖼️→🖼️',
+  description: 'Convert JPEG to PNG with transparency support',
+  quality: 'high',
+  rasterOutput: true,
+  convert: (file, _options, onProgress, signal) => convertImage(file, 'PNG', onProgress, signal),
+});
+
+registerConverter({
+  id: 'png-jpg',
+  label: 'PNG to JPG',
+  from: 'PNG',
+  to: 'JPG',
+  icon: '🖼️→🖼️',
+  description: 'Convert PNG to JPEG with optimized file size',
+  quality: 'high',
+  rasterOutput: true,
+  convert: (file, _options, onProgress, signal) => convertImage(file, 'JPG', onProgress, signal),
+});
+
+const IMAGE_PDF_FIELDS: ConverterOptionField[] = [
+  {
+    key: 'pageSize',
+    label: 'Page size',
+    type: 'select',
+    choices: [
+      { value: 'a4', label: 'A4' },
+      { value: 'letter', label: 'Letter' },
+      { value: 'fit', label: 'Fit to image' },
+    ],
+    defaultValue: DEFAULT_IMAGE_PDF_OPTIONS.pageSize,
+  },
+  {
+    key: 'orientation',
+    label: 'Orientation',
+    type: 'select',
+    choices: [
+      { value: 'auto', label: 'Automatic' },
+      { value: 'portrait', label: 'Portrait' },
+      { value: 'landscape', label: 'Landscape' },
+    ],
+    defaultValue: DEFAULT_IMAGE_PDF_OPTIONS.orientation,
+  },
+  {
+    key: 'margin',
+    label: 'Margins',
+    type: 'select',
+    choices: [
+      { value: 0, label: 'None' },
+      { value: 18, label: 'Small' },
+      { value: 36, label: 'Normal' },
+    ],
+    defaultValue: DEFAULT_IMAGE_PDF_OPTIONS.margin,
+  },
+];
+
+const toImagePdfOptions = (options: ConverterOptions): ImagePdfOptions => ({
+  pageSize: (options.pageSize ?? DEFAULT_IMAGE_PDF_OPTIONS.pageSize) as ImagePageSize,
+  orientation: (options.orientation ?? DEFAULT_IMAGE_PDF_OPTIONS.orientation) as PageOrientation,
+  margin: Number(options.margin ?? DEFAULT_IMAGE_PDF_OPTIONS.margin),
+});
+
+for (const format of ['JPG', 'PNG']) {
+  registerConverter({
+    id: `${format.toLowerCase()}-pdf`,
+    label: `${format} to PDF`,
+    from: format,
+    to: 'PDF',
+    icon: '🖼️→📄',
+    description: format === 'JPG'
+      ? 'Place photos and scans on PDF pages without re-compressing them'
+      : 'Combine PNG images into a multi-page PDF',
+    quality: 'high',
+    rasterOutput: true,
+    options: IMAGE_PDF_FIELDS,
+    convert: (file, options, onProgress, signal) => convertImagesToPDF([file], toImagePdfOptions(options), onProgress, signal),
+    combine: (files, options, onProgress, signal) => convertImagesToPDF(files, toImagePdfOptions(options), onProgress, signal),
+  });
+}
+
+const TEXT_DOCUMENT_DESCRIPTIONS: Record<string, string> = {
+  'TXT-PDF': 'Lay out plain text on PDF pages in a monospaced font',
+  'TXT-DOCX': 'Turn plain text into an editable Word document',
+  'RTF-PDF': 'Convert rich text with its fonts, colours and paragraph formatting to PDF',
+  'RTF-DOCX': 'Convert rich text to a Word document, keeping its formatting',
+};
+
+for (const from of ['TXT', 'RTF'] as const) {
+  for (const to of ['PDF', 'DOCX'] as const) {
+    registerConverter({
+      id: `${from.toLowerCase()}-${to.toLowerCase()}`,
+      label: `${from} to ${to}`,
+      from,
+      to,
+      icon: to === 'PDF' ? '📃→📄' : '📃→📝',
+      description: TEXT_DOCUMENT_DESCRIPTIONS[`${from}-${to}`],
+      quality: 'high',
+      convert: (file, _options, onProgress, signal) => convertTextDocument(file, from, to, onProgress, signal),
+    });
+  }
+}
+
+registerConverter({
+  id: 'md-pdf',
+  label: 'Markdown to PDF',
+  from: 'MD',
+  to: 'PDF',
+  icon: '📑→📄',
+  description: 'Render Markdown headings, lists, code blocks, links and tables as a PDF',
+  quality: 'high',
+  convert: (file, _options, onProgress, signal) => convertTextDocument(file, 'MD', 'PDF', onProgress, signal),
+});
+
+registerConverter({
+  id: 'md-docx',
+  label: 'Markdown to DOCX',
+  from: 'MD',
+  to: 'DOCX',
+  icon: '📑→📝',
+  description: 'Turn Markdown into a formatted, editable Word document',
+  quality: 'high',
+  convert: (file, _options, onProgress, signal) => convertTextDocument(file, 'MD', 'DOCX', onProgress, signal),
+});
+
+registerConverter({
+  id: 'html-pdf',
+  label: 'HTML to PDF',
+  from: 'HTML',
+  to: 'PDF',
+  icon: '🌐→📄',
+  description: 'Paginate web pages, exported reports and email templates with their basic styling',
+  quality: 'medium',
+  convert: (file, _options, onProgress, signal) => convertTextDocument(file, 'HTML', 'PDF', onProgress, signal),
+});
+
+const CSV_DELIMITER_CHOICES = [
+  { value: ',', label: 'Comma' },
+  { value: ';', label: 'Semicolon' },
+  { value: '\t', label: 'Tab' },
+  { value: '|', label: 'Pipe' },
+];
+
+// CSV input: the delimiter is detected unless one is chosen
+const toCsvDelimiter = (options: ConverterOptions): string | undefined =>
+  options.delimiter && options.delimiter !== 'auto' ? String(options.delimiter) : undefined;
+
+registerConverter({
+  id: 'xlsx-csv',
+  label: 'XLSX to CSV',
+  from: 'XLSX',
+  to: 'CSV',
+  icon: '📊→📃',
+  description: 'Export every sheet to its own CSV file with values as displayed',
+  quality: 'high',
+  options: [{ key: 'delimiter', label: 'Delimiter', type: 'select', choices: CSV_DELIMITER_CHOICES, defaultValue: ',' }],
+  convert: (file, options, onProgress, signal) =>
+    convertSpreadsheet(file, 'XLSX', 'CSV', String(options.delimiter ?? ','), onProgress, signal),
+});
+
+registerConverter({
+  id: 'csv-xlsx',
+  label: 'CSV to XLSX',
+  from: 'CSV',
+  to: 'XLSX',
+  icon: '📃→📊',
+  description: 'Open delimited text as an Excel workbook with numbers and dates recognised',
+  quality: 'high',
+  options: [{
+    key: 'delimiter',
+    label: 'Delimiter',
+    type: 'select',
+    choices: [{ value: 'auto', label: 'Detect automatically' }, ...CSV_DELIMITER_CHOICES],
+    defaultValue: 'auto',
+  }],
+  convert: (file, options, onProgress, signal) =>
+    convertSpreadsheet(file, 'CSV', 'XLSX', toCsvDelimiter(options), onProgress, signal),
+});
+
+registerConverter({
+  id: 'xlsx-pdf',
+  label: 'XLSX to PDF',
+  from: 'XLSX',
+  to: 'PDF',
+  icon: '📊→📄',
+  description: 'Print each sheet as a paginated table with its header row repeated on every page',
+  quality: 'medium',
+  convert: (file, _options, onProgress, signal) => convertSpreadsheet(file, 'XLSX', 'PDF', undefined, onProgress, signal),
+});
+
+registerConverter({
+  id: 'pptx-pdf',
+  label: 'PPTX to PDF',
+  from: 'PPTX',
+  to: 'PDF',
+  icon: '📽️→📄',
+  description: 'Render each slide as a PDF page the size of the slide',
+  quality: 'medium',
+  rasterOutput: true,
+  convert: (file, _options, onProgress, signal) => convertPresentation(file, 'PDF', onProgress, signal),
+});
+
+for (const format of ['PNG', 'JPG'] as const) {
+  registerConverter({
+    id: `pptx-${format.toLowerCase()}`,
+    label: `PPTX to ${format}`,
+    from: 'PPTX',
+    to: format,
+    icon: '📽️→🖼️',
+    description: format === 'PNG' ? 'Save every slide as a sharp PNG image' : 'Save every slide as a compact JPEG image',
+    quality: 'medium',
+    rasterOutput: true,
+    convert: (file, _options, onProgress, signal) => convertPresentation(file, format, onProgress, signal),
+  });
+}
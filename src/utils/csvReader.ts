@@ -0,0 +1,181 @@
+/**
+ * CSV reader
+ * Detects the encoding and delimiter of delimited text and reads it into a
+ * one-sheet Workbook, turning numbers, percentages, booleans and ISO dates
+ * into typed cells as Excel does when it opens a CSV file.
+ */
+
+import { SpreadsheetCell, Workbook } from '../types/spreadsheetModel';
+import { dateToSerial } from './numberFormat';
+import { decodeText } from './textReader';
+
+export const CSV_DELIMITERS = [',', ';', '\t', '|'];
+
+// Records looked at to detect the delimiter
+const SAMPLE_RECORDS = 50;
+// Longer digit strings (card numbers, ids) lose precision as numbers
+const MAX_NUMBER_DIGITS = 15;
+
+/**
+ * Decode CSV bytes; besides what decodeText recognises, UTF-16 without a
+ * byte order mark is told apart by its zero bytes
+ */
+export const decodeCsv = (bytes: Uint8Array): string => {
+  const sample = bytes.subarray(0, Math.min(bytes.length, 1024) & ~1);
+  if (sample.length >= 4 && !(bytes[0] === 0xff && bytes[1] === 0xfe) && !(bytes[0] === 0xfe && bytes[1] === 0xff)) {
+    let evenZeros = 0;
+    let oddZeros = 0;
+    for (let i = 0; i < sample.length; i += 2) {
+      if (sample[i] === 0) evenZeros++;
+      if (sample[i + 1] === 0) oddZeros++;
+    }
+    const pairs = sample.length / 2;
+    if (oddZeros > pairs * 0.6 && evenZeros < pairs * 0.1) return new TextDecoder('utf-16le').decode(bytes);
+    if (evenZeros > pairs * 0.6 && oddZeros < pairs * 0.1) return new TextDecoder('utf-16be').decode(bytes);
+  }
+  return decodeText(bytes);
+};
+
+/**
+ * Split delimited text into records of fields; quoted fields may hold
+ * delimiters, doubled quotes and line breaks
+ */
+export const parseCsv = (text: string, delimiter: string, maxRecords = Infinity): string[][] => {
+  const records: string[][] = [];
+  let record: string[] = [];
+  let field = '';
+  // An empty quoted field still counts as a field
+  let quoted = false;
+  let i = 0;
+
+  while (i < text.length && records.length < maxRecords) {
+    const char = text[i];
+    if (char === '"' && field === '' && !quoted) {
+      // Quoted field, up to the closing quote; text after it is kept as is
+      quoted = true;
+      i++;
+      while (i < text.length) {
+        if (text[i] === '"' && text[i + 1] === '"') {
+          field += '"';
+          i += 2;
+        } else if (text[i] === '"') {
+          i++;
+          break;
+        } else {
+          field += text[i++];
+        }
+      }
+    } else if (char === delimiter) {
+      record.push(field);
+      field = '';
+      quoted = false;
+      i++;
+    } else if (char === '\r' || char === '\n') {
+      record.push(field);
+      records.push(record);
+      record = [];
+      field = '';
+      quoted = false;
+      i += char === '\r' && text[i + 1] === '\n' ? 2 : 1;
+    } else {
+      field += char;
+      i++;
+    }
+  }
+  if ((field !== '' || quoted || record.length > 0) && records.length < maxRecords) {
+    record.push(field);
+    records.push(record);
+  }
+  return records;
+};
+
+/**
+ * The delimiter that splits the first records into the same number of fields
+ * most consistently; commas when nothing splits the text
+ */
+export const detectDelimiter = (text: string): string => {
+  let best = { delimiter: ',', consistency: 0, fields: 1 };
+  for (const delimiter of CSV_DELIMITERS) {
+    const records = parseCsv(text.slice(0, 65536), delimiter, SAMPLE_RECORDS).filter(record => record.length > 1 || record[0] !== '');
+    // The last sampled record may be cut off
+    if (records.length > 2) records.pop();
+    const counts = new Map<number, number>();
+    for (const record of records) counts.set(record.length, (counts.get(record.length) ?? 0) + 1);
+    for (const [fields, count] of counts) {
+      if (fields < 2) continue;
+      const consistency = count / records.length;
+      if (consistency > best.consistency || (consistency === best.consistency && fields > best.fields)) {
+        best = { delimiter, consistency, fields };
+      }
+    }
+  }
+  return best.delimiter;
+};
+
+const decimalPlaces = (digits: string | undefined): string => (digits ? `.${'0'.repeat(digits.length)}` : '');
+
+/**
+ * Typed cell for a field; text that only looks numeric (leading zeros,
+ * long ids) stays text, and formulas are never evaluated
+ */
+const parseValue = (text: string, decimalComma: boolean): SpreadsheetCell | undefined => {
+  if (text === '') return undefined;
+  const trimmed = text.trim();
+  const [point, group] = decimalComma ? [',', '.'] : ['.', ','];
+  const escape = (char: string) => (char === '.' ? '\\.' : char);
+
+  const number = new RegExp(`^([+-]?)(\\d{1,3}(?:${escape(group)}\\d{3})+|\\d+)?(?:${escape(point)}(\\d+))?(%?)$`).exec(trimmed);
+  if (number && (number[2] || number[3])) {
+    const [, sign, whole = '0', fraction, percent] = number;
+    const digits = whole.replace(/\D/g, '');
+    // Leading zeros mark codes such as zip codes and phone numbers
+    if (digits.length > 1 && digits.startsWith('0') && !fraction && !percent) return { value: text };
+    if (digits.length + (fraction?.length ?? 0) > MAX_NUMBER_DIGITS) return { value: text };
+    const value = Number(`${sign}${digits}.${fraction ?? '0'}`) / (percent ? 100 : 1);
+    const grouped = whole.includes(group);
+    let numberFormat: string | undefined;
+    if (percent) numberFormat = `0${decimalPlaces(fraction)}%`;
+    else if (grouped) numberFormat = `#,##0${decimalPlaces(fraction)}`;
+    return numberFormat ? { value, numberFormat } : { value };
+  }
+  if (/^[+-]?\d+(\.\d+)?e[+-]?\d+$/i.test(trimmed)) return { value: Number(trimmed) };
+  if (/^(true|false)$/i.test(trimmed)) return { value: trimmed.toLowerCase() === 'true' };
+
+  const date = /^(\d{4})-(\d{2})-(\d{2})(?:[T ](\d{2}):(\d{2})(?::(\d{2}))?)?$/.exec(trimmed);
+  if (date) {
+    const [, year, month, day, hours, minutes, seconds] = date;
+    const time = new Date(Date.UTC(Number(year), Number(month) - 1, Number(day), Number(hours ?? 0), Number(minutes ?? 0), Number(seconds ?? 0)));
+    // Reject dates such as 2023-02-30 that roll over into the next month
+    if (time.getUTCDate() === Number(day) && time.getUTCMonth() === Number(month) - 1) {
+      const numberFormat = hours === undefined ? 'yyyy-mm-dd' : seconds === undefined ? 'yyyy-mm-dd hh:mm' : 'yyyy-mm-dd hh:mm:ss';
+      return { value: dateToSerial(time), numberFormat };
+    }
+  }
+  return { value: text };
+};
+
+/**
+ * Read a CSV file; without a delimiter it is detected, or taken from a
+ * leading "sep=" line as Excel writes it
+ */
+export const readCsv = (bytes: Uint8Array, name = 'Sheet1', delimiter?: string): Workbook => {
+  let text = decodeCsv(bytes);
+  const separatorLine = /^sep=(.)\r?\n/i.exec(text);
+  if (separatorLine) text = text.slice(separatorLine[0].length);
+  const separator = delimiter || separatorLine?.[1] || detectDelimiter(text);
+  // Where fields are separated by semicolons, a comma is usually the decimal separator
+  const decimalComma = separator === ';' && /\d,\d/.test(text.slice(0, 65536));
+
+  const records = parseCsv(text, separator);
+  // Blank lines at the end are not rows
+  while (records.length > 0 && records[records.length - 1].every(field => field === '')) records.pop();
+
+  return {
+    title: name,
+    sheets: [{
+      name,
+      rows: records.map(record => record.map(field => parseValue(field, decimalComma))),
+      merges: [],
+    }],
+  };
+};
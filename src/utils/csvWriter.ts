@@ -0,0 +1,33 @@
+/**
+ * CSV writer
+ * Writes a worksheet as delimited text with each cell as it is displayed,
+ * the way Excel saves a sheet as CSV.
+ */
+
+import { Worksheet } from '../types/spreadsheetModel';
+import { formatCellValue } from './numberFormat';
+
+/**
+ * Quote a field when it holds the delimiter, a quote or a line break
+ */
+const quoteField = (text: string, delimiter: string): string =>
+  text.includes(delimiter) || /["\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+
+/**
+ * Serialise a worksheet; every row has as many fields as the widest one and
+ * lines end with CRLF as RFC 4180 asks
+ */
+export const writeCsv = (sheet: Worksheet, delimiter = ',', date1904 = false): string => {
+  const width = sheet.rows.reduce((max, row) => Math.max(max, row?.length ?? 0), 0);
+  const lines: string[] = [];
+  for (let rowIndex = 0; rowIndex < sheet.rows.length; rowIndex++) {
+    const row = sheet.rows[rowIndex] ?? [];
+    const fields: string[] = [];
+    for (let column = 0; column < width; column++) {
+      const cell = row[column];
+      fields.push(cell ? quoteField(formatCellValue(cell, date1904), delimiter) : '');
+    }
+    lines.push(fields.join(delimiter));
+  }
+  return lines.length ? `${lines.join('\r\n')}\r\n` : '';
+};
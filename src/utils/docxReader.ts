@@ -0,0 +1,625 @@
+/**
+ * DOCX (Office Open XML) reader
+ * Parses word/document.xml with its styles and numbering into a DocumentModel.
+ */
+
+import {
+  DocumentBlock,
+  DocumentModel,
+  DocumentParagraph,
+  DocumentRun,
+  DocumentTable,
+  FloatingPosition,
+  ImageFloat,
+  ImageRun,
+  ListInfo,
+  ParagraphAlignment,
+  ParagraphStyle,
+  RunStyle,
+  TableCell,
+  TableRow,
+} from '../types/documentModel';
+import { findRelationship, readRelationships, readXmlPart, Relationship } from './opcPackage';
+import { openZip, ZipArchive } from './zipReader';
+import { childElement, childElements, findElement, getAttribute, getTextContent, localName, XmlElement } from './xmlUtils';
+
+interface StyleDefinition {
+  type: string;
+  name: string;
+  basedOn: string | null;
+  pPr: XmlElement | null;
+  rPr: XmlElement | null;
+}
+
+interface ResolvedStyle {
+  paragraph: ParagraphStyle;
+  run: RunStyle;
+  headingLevel?: number;
+  numbering?: { numId: string; level: number };
+}
+
+interface NumberingLevel {
+  format: string;
+  // Indentation of the level, applied between the paragraph style and direct formatting
+  pPr: XmlElement | null;
+}
+
+interface ReaderContext {
+  styles: Map<string, StyleDefinition>;
+  defaultParagraphStyle: string | null;
+  defaults: ResolvedStyle;
+  resolvedStyles: Map<string, ResolvedStyle>;
+  numbering: Map<string, Map<number, NumberingLevel>>;
+  relationships: Map<string, Relationship>;
+  zip: ZipArchive;
+}
+
+const HIGHLIGHT_COLORS: Record<string, string> = {
+  yellow: 'FFFF00',
+  green: '00FF00',
+  cyan: '00FFFF',
+  magenta: 'FF00FF',
+  blue: '0000FF',
+  red: 'FF0000',
+  darkBlue: '000080',
+  darkCyan: '008080',
+  darkGreen: '008000',
+  darkMagenta: '800080',
+  darkRed: '800000',
+  darkYellow: '808000',
+  darkGray: '808080',
+  lightGray: 'C0C0C0',
+  black: '000000',
+  white: 'FFFFFF',
+};
+
+const ALIGNMENTS: Record<string, ParagraphAlignment> = {
+  left: 'left',
+  start: 'left',
+  center: 'center',
+  right: 'right',
+  end: 'right',
+  both: 'justify',
+  distribute: 'justify',
+};
+
+const IMAGE_CONTENT_TYPES: Record<string, string> = {
+  png: 'image/png',
+  jpg: 'image/jpeg',
+  jpeg: 'image/jpeg',
+  jpe: 'image/jpeg',
+  gif: 'image/gif',
+  bmp: 'image/bmp',
+  tif: 'image/tiff',
+  tiff: 'image/tiff',
+  emf: 'image/x-emf',
+  wmf: 'image/x-wmf',
+};
+
+// DrawingML sizes are in English Metric Units
+const EMU_PER_POINT = 12700;
+
+const CSS_LENGTH_UNITS: Record<string, number> = { pt: 1, in: 72, cm: 72 / 2.54, mm: 72 / 25.4, px: 0.75, pc: 12 };
+
+const twipsToPoints = (value: string | null): number | undefined => {
+  if (value === null) return undefined;
+  const number = parseFloat(value);
+  return Number.isFinite(number) ? number / 20 : undefined;
+};
+
+/**
+ * Toggle properties such as <w:b/> are on unless w:val says otherwise
+ */
+const isToggleOn = (element: XmlElement | null): boolean | undefined => {
+  if (!element) return undefined;
+  const value = getAttribute(element, 'val');
+  return value === null || !['0', 'false', 'off', 'none'].includes(value);
+};
+
+const applyRunProperties = (rPr: XmlElement | null, base: RunStyle): RunStyle => {
+  if (!rPr) return base;
+  const style: RunStyle = { ...base };
+
+  const bold = isToggleOn(childElement(rPr, 'b'));
+  if (bold !== undefined) style.bold = bold;
+  const italic = isToggleOn(childElement(rPr, 'i'));
+  if (italic !== undefined) style.italic = italic;
+  const strike = isToggleOn(childElement(rPr, 'strike')) ?? isToggleOn(childElement(rPr, 'dstrike'));
+  if (strike !== undefined) style.strike = strike;
+  const underline = childElement(rPr, 'u');
+  if (underline) style.underline = isToggleOn(underline);
+
+  const size = getAttribute(childElement(rPr, 'sz'), 'val');
+  if (size && Number.isFinite(parseFloat(size))) style.fontSize = parseFloat(size) / 2;
+
+  const fonts = childElement(rPr, 'rFonts');
+  const fontFamily = getAttribute(fonts, 'ascii') || getAttribute(fonts, 'hAnsi');
+  if (fontFamily) style.fontFamily = fontFamily;
+
+  const color = getAttribute(childElement(rPr, 'color'), 'val');
+  if (color && /^[0-9a-fA-F]{6}$/.test(color)) style.color = color.toUpperCase();
+  else if (color === 'auto') delete style.color;
+
+  const highlight = getAttribute(childElement(rPr, 'highlight'), 'val');
+  const shading = getAttribute(childElement(rPr, 'shd'), 'fill');
+  if (highlight && HIGHLIGHT_COLORS[highlight]) style.highlight = HIGHLIGHT_COLORS[highlight];
+  else if (highlight === 'none') delete style.highlight;
+  else if (shading && /^[0-9a-fA-F]{6}$/.test(shading)) style.highlight = shading.toUpperCase();
+
+  const verticalAlign = getAttribute(childElement(rPr, 'vertAlign'), 'val');
+  if (verticalAlign === 'superscript' || verticalAlign === 'subscript') style.verticalAlign = verticalAlign;
+  else if (verticalAlign === 'baseline') delete style.verticalAlign;
+
+  return style;
+};
+
+const applyParagraphProperties = (pPr: XmlElement | null, base: ResolvedStyle): ResolvedStyle => {
+  if (!pPr) return base;
+  const paragraph: ParagraphStyle = { ...base.paragraph };
+  const resolved: ResolvedStyle = { ...base, paragraph };
+
+  const alignment = getAttribute(childElement(pPr, 'jc'), 'val');
+  if (alignment && ALIGNMENTS[alignment]) paragraph.alignment = ALIGNMENTS[alignment];
+  const bidi = isToggleOn(childElement(pPr, 'bidi'));
+  if (bidi !== undefined) paragraph.direction = bidi ? 'rtl' : 'ltr';
+
+  const spacing = childElement(pPr, 'spacing');
+  if (spacing) {
+    const before = twipsToPoints(getAttribute(spacing, 'before'));
+    const after = twipsToPoints(getAttribute(spacing, 'after'));
+    if (before !== undefined) paragraph.spaceBefore = before;
+    if (after !== undefined) paragraph.spaceAfter = after;
+    const line = getAttribute(spacing, 'line');
+    const lineRule = getAttribute(spacing, 'lineRule');
+    // Only proportional spacing maps onto a multiple; exact/atLeast values are in twips
+    if (line && (!lineRule || lineRule === 'auto')) paragraph.lineSpacing = parseFloat(line) / 240;
+  }
+
+  const indent = childElement(pPr, 'ind');
+  if (indent) {
+    const left = twipsToPoints(getAttribute(indent, 'left') ?? getAttribute(indent, 'start'));
+    const firstLine = twipsToPoints(getAttribute(indent, 'firstLine'));
+    const hanging = twipsToPoints(getAttribute(indent, 'hanging'));
+    if (left !== undefined) paragraph.indentLeft = left;
+    if (hanging !== undefined) paragraph.indentFirstLine = -hanging;
+    else if (firstLine !== undefined) paragraph.indentFirstLine = firstLine;
+  }
+
+  const outlineLevel = getAttribute(childElement(pPr, 'outlineLvl'), 'val');
+  if (outlineLevel !== null) {
+    const level = parseInt(outlineLevel, 10);
+    resolved.headingLevel = level >= 0 && level < 9 ? level + 1 : undefined;
+  }
+
+  const numPr = childElement(pPr, 'numPr');
+  if (numPr) {
+    const numId = getAttribute(childElement(numPr, 'numId'), 'val');
+    const level = parseInt(getAttribute(childElement(numPr, 'ilvl'), 'val') || '0', 10) || 0;
+    if (numId === '0') resolved.numbering = undefined;
+    else if (numId) resolved.numbering = { numId, level };
+    else if (resolved.numbering) resolved.numbering = { ...resolved.numbering, level };
+  }
+
+  return resolved;
+};
+
+const getHeadingLevelFromName = (styleId: string, name: string): number | undefined => {
+  const match = /^heading\s*([1-9])$/i.exec(name) || /^heading([1-9])$/i.exec(styleId);
+  if (match) return parseInt(match[1], 10);
+  if (/^title$/i.test(name) || styleId === 'Title') return 1;
+  return undefined;
+};
+
+/**
+ * Resolve a paragraph style through its basedOn chain
+ */
+const resolveParagraphStyle = (context: ReaderContext, styleId: string | null, depth = 0): ResolvedStyle => {
+  if (!styleId || depth > 16) return context.defaults;
+  const cached = context.resolvedStyles.get(styleId);
+  if (cached) return cached;
+
+  const definition = context.styles.get(styleId);
+  if (!definition) return context.defaults;
+
+  const base = resolveParagraphStyle(context, definition.basedOn, depth + 1);
+  const withParagraph = applyParagraphProperties(definition.pPr, base);
+  const resolved: ResolvedStyle = {
+    ...withParagraph,
+    run: applyRunProperties(definition.rPr, base.run),
+  };
+  const namedLevel = getHeadingLevelFromName(styleId, definition.name);
+  if (namedLevel) resolved.headingLevel = namedLevel;
+
+  context.resolvedStyles.set(styleId, resolved);
+  return resolved;
+};
+
+/**
+ * Run properties from a character style chain, layered over the paragraph's run style
+ */
+const resolveCharacterStyle = (context: ReaderContext, styleId: string | null, base: RunStyle, depth = 0): RunStyle => {
+  if (!styleId || depth > 16) return base;
+  const definition = context.styles.get(styleId);
+  if (!definition) return base;
+  return applyRunProperties(definition.rPr, resolveCharacterStyle(context, definition.basedOn, base, depth + 1));
+};
+
+const parseStyles = (stylesXml: XmlElement | null, context: ReaderContext) => {
+  if (!stylesXml) return;
+
+  const docDefaults = childElement(stylesXml, 'docDefaults');
+  const defaultRunProps = childElement(childElement(docDefaults, 'rPrDefault'), 'rPr');
+  const defaultParagraphProps = childElement(childElement(docDefaults, 'pPrDefault'), 'pPr');
+  const defaults = applyParagraphProperties(defaultParagraphProps, context.defaults);
+  context.defaults = { ...defaults, run: applyRunProperties(defaultRunProps, defaults.run) };
+
+  for (const style of childElements(stylesXml, 'style')) {
+    const id = getAttribute(style, 'styleId');
+    if (!id) continue;
+    const type = getAttribute(style, 'type') || 'paragraph';
+    context.styles.set(id, {
+      type,
+      name: getAttribute(childElement(style, 'name'), 'val') || id,
+      basedOn: getAttribute(childElement(style, 'basedOn'), 'val'),
+      pPr: childElement(style, 'pPr'),
+      rPr: childElement(style, 'rPr'),
+    });
+    const isDefault = getAttribute(style, 'default');
+    if (type === 'paragraph' && (isDefault === '1' || isDefault === 'true')) {
+      context.defaultParagraphStyle = id;
+    }
+  }
+};
+
+const parseNumbering = (numberingXml: XmlElement | null, context: ReaderContext) => {
+  if (!numberingXml) return;
+
+  const readLevels = (parent: XmlElement, levels: Map<number, NumberingLevel>) => {
+    for (const lvl of childElements(parent, 'lvl')) {
+      const level = parseInt(getAttribute(lvl, 'ilvl') || '0', 10) || 0;
+      levels.set(level, {
+        format: getAttribute(childElement(lvl, 'numFmt'), 'val') || 'decimal',
+        pPr: childElement(lvl, 'pPr'),
+      });
+    }
+  };
+
+  const abstractLevels = new Map<string, Map<number, NumberingLevel>>();
+  for (const abstractNum of childElements(numberingXml, 'abstractNum')) {
+    const levels = new Map<number, NumberingLevel>();
+    readLevels(abstractNum, levels);
+    abstractLevels.set(getAttribute(abstractNum, 'abstractNumId') || '', levels);
+  }
+
+  for (const num of childElements(numberingXml, 'num')) {
+    const numId = getAttribute(num, 'numId');
+    if (!numId) continue;
+    const abstractId = getAttribute(childElement(num, 'abstractNumId'), 'val') || '';
+    const levels = new Map(abstractLevels.get(abstractId) || []);
+    for (const override of childElements(num, 'lvlOverride')) readLevels(override, levels);
+    context.numbering.set(numId, levels);
+  }
+};
+
+const getListInfo = (context: ReaderContext, numbering: { numId: string; level: number }): ListInfo | undefined => {
+  const levels = context.numbering.get(numbering.numId);
+  if (!levels) return undefined;
+  const format = levels.get(numbering.level)?.format || 'bullet';
+  if (format === 'none') return undefined;
+  return {
+    ordered: format !== 'bullet',
+    level: numbering.level,
+    listId: numbering.numId,
+    format,
+  };
+};
+
+/**
+ * Load a picture part referenced by relationship id
+ */
+const loadImage = (context: ReaderContext, relationshipId: string | null, width: number, height: number): ImageRun | null => {
+  const relationship = relationshipId ? context.relationships.get(relationshipId) : undefined;
+  if (!relationship || relationship.external || !(width > 0) || !(height > 0)) return null;
+  const data = context.zip.read(relationship.target);
+  const extension = relationship.target.split('.').pop()?.toLowerCase() || '';
+  if (!data) return null;
+  return { type: 'image', data, contentType: IMAGE_CONTENT_TYPES[extension] || 'application/octet-stream', width, height };
+};
+
+const parseFloatingPosition = (element: XmlElement | null, vertical: boolean): FloatingPosition => {
+  const relativeFrom = getAttribute(element, 'relativeFrom') || '';
+  let relativeTo: FloatingPosition['relativeTo'] = 'margin';
+  if (relativeFrom === 'page') relativeTo = 'page';
+  else if (vertical && (relativeFrom === 'paragraph' || relativeFrom === 'line')) relativeTo = 'paragraph';
+
+  const align = getTextContent(childElement(element, 'align')).trim();
+  if (align) {
+    const start = vertical ? ['top', 'inside'] : ['left', 'inside'];
+    return { relativeTo, align: align === 'center' ? 'center' : start.includes(align) ? 'start' : 'end' };
+  }
+  const offset = parseFloat(getTextContent(childElement(element, 'posOffset')));
+  return { relativeTo, offset: Number.isFinite(offset) ? offset / EMU_PER_POINT : 0 };
+};
+
+/**
+ * DrawingML picture, either inline (wp:inline) or anchored (wp:anchor)
+ */
+const parseDrawing = (context: ReaderContext, drawing: XmlElement): ImageRun | null => {
+  const container = childElement(drawing, 'inline') || childElement(drawing, 'anchor');
+  if (!container) return null;
+
+  const extent = childElement(container, 'extent');
+  const width = parseFloat(getAttribute(extent, 'cx') || '0') / EMU_PER_POINT;
+  const height = parseFloat(getAttribute(extent, 'cy') || '0') / EMU_PER_POINT;
+  const image = loadImage(context, getAttribute(findElement(container, 'blip'), 'embed'), width, height);
+  if (!image) return null;
+
+  const description = getAttribute(childElement(container, 'docPr'), 'descr');
+  if (description) image.altText = description;
+
+  if (localName(container.name) === 'anchor') {
+    const float: ImageFloat = {
+      horizontal: parseFloatingPosition(childElement(container, 'positionH'), false),
+      vertical: parseFloatingPosition(childElement(container, 'positionV'), true),
+      wrapText: ['wrapSquare', 'wrapTight', 'wrapThrough', 'wrapTopAndBottom'].some(name => childElement(container, name)),
+    };
+    const behindDoc = getAttribute(container, 'behindDoc');
+    if (behindDoc === '1' || behindDoc === 'true') float.behindText = true;
+    image.float = float;
+  }
+  return image;
+};
+
+const parseCssLength = (value: string | undefined): number => {
+  const match = value?.trim().match(/^([\d.]+)([a-z]*)$/);
+  if (!match) return 0;
+  return parseFloat(match[1]) * (CSS_LENGTH_UNITS[match[2] || 'px'] ?? 0);
+};
+
+/**
+ * Legacy VML picture (w:pict) as written by older versions of Word
+ */
+const parsePicture = (context: ReaderContext, picture: XmlElement): ImageRun | null => {
+  const imageData = findElement(picture, 'imagedata');
+  const shape = findElement(picture, 'shape');
+  if (!imageData || !shape) return null;
+  const style = new Map(
+    (getAttribute(shape, 'style') || '').split(';').map(declaration => {
+      const [property, ...value] = declaration.split(':');
+      return [property.trim(), value.join(':')] as [string, string];
+    })
+  );
+  return loadImage(context, getAttribute(imageData, 'id'), parseCssLength(style.get('width')), parseCssLength(style.get('height')));
+};
+
+/**
+ * Convert the children of a run into document runs
+ */
+const parseRunContent = (
+  context: ReaderContext,
+  run: XmlElement,
+  style: RunStyle,
+  link: string | undefined,
+  runs: DocumentRun[]
+) => {
+  let text = '';
+  const flushText = () => {
+    if (text) runs.push({ type: 'text', text, style, link });
+    text = '';
+  };
+
+  for (const child of childElements(run)) {
+    switch (localName(child.name)) {
+      case 't':
+        text += getTextContent(child);
+        break;
+      case 'tab':
+      case 'ptab':
+        text += '\t';
+        break;
+      case 'noBreakHyphen':
+        text += '\u2011';
+        break;
+      case 'br': {
+        flushText();
+        const type = getAttribute(child, 'type');
+        runs.push({ type: 'break', kind: type === 'page' ? 'page' : 'line' });
+        break;
+      }
+      case 'cr':
+        flushText();
+        runs.push({ type: 'break', kind: 'line' });
+        break;
+      case 'drawing':
+      case 'pict': {
+        const image = localName(child.name) === 'drawing' ? parseDrawing(context, child) : parsePicture(context, child);
+        if (image) {
+          flushText();
+          runs.push(image);
+        }
+        break;
+      }
+      case 'AlternateContent': {
+        // Prefer the DrawingML choice, falling back to the VML rendition
+        flushText();
+        const choice = childElement(child, 'Choice');
+        const before = runs.length;
+        if (choice) parseRunContent(context, choice, style, link, runs);
+        if (runs.length === before) parseRunContent(context, childElement(child, 'Fallback') || child, style, link, runs);
+        break;
+      }
+      default:
+        // Field instructions, deleted text and revision marks carry no visible text here
+        break;
+    }
+  }
+  flushText();
+};
+
+const parseParagraphContent = (
+  context: ReaderContext,
+  container: XmlElement,
+  paragraphRunStyle: RunStyle,
+  link: string | undefined,
+  runs: DocumentRun[]
+) => {
+  for (const child of childElements(container)) {
+    switch (localName(child.name)) {
+      case 'r': {
+        const rPr = childElement(child, 'rPr');
+        const characterStyle = resolveCharacterStyle(context, getAttribute(childElement(rPr, 'rStyle'), 'val'), paragraphRunStyle);
+        parseRunContent(context, child, applyRunProperties(rPr, characterStyle), link, runs);
+        break;
+      }
+      case 'hyperlink': {
+        const relationshipId = getAttribute(child, 'id');
+        const relationship = relationshipId ? context.relationships.get(relationshipId) : undefined;
+        const target = relationship?.external ? relationship.target : undefined;
+        parseParagraphContent(context, child, paragraphRunStyle, target || link, runs);
+        break;
+      }
+      case 'sdt':
+        parseParagraphContent(context, childElement(child, 'sdtContent') || child, paragraphRunStyle, link, runs);
+        break;
+      case 'ins':
+      case 'smartTag':
+      case 'customXml':
+      case 'fldSimple':
+      case 'dir':
+      case 'bdo':
+      case 'moveTo':
+        parseParagraphContent(context, child, paragraphRunStyle, link, runs);
+        break;
+      default:
+        // w:del, w:moveFrom, bookmarks, comments and proofing marks are not rendered
+        break;
+    }
+  }
+};
+
+/**
+ * Merge neighbouring text runs that share style and link
+ */
+const mergeRuns = (runs: DocumentRun[]): DocumentRun[] => {
+  const merged: DocumentRun[] = [];
+  for (const run of runs) {
+    const previous = merged[merged.length - 1];
+    if (
+      run.type === 'text'
+      && previous?.type === 'text'
+      && previous.link === run.link
+      && JSON.stringify(previous.style) === JSON.stringify(run.style)
+    ) {
+      merged[merged.length - 1] = { ...previous, text: previous.text + run.text };
+    } else {
+      merged.push(run);
+    }
+  }
+  return merged;
+};
+
+const parseParagraph = (context: ReaderContext, element: XmlElement): DocumentParagraph => {
+  const pPr = childElement(element, 'pPr');
+  const styleId = getAttribute(childElement(pPr, 'pStyle'), 'val') || context.defaultParagraphStyle;
+  const styleResolved = resolveParagraphStyle(context, styleId);
+  let resolved = applyParagraphProperties(pPr, styleResolved);
+  if (resolved.numbering) {
+    const level = context.numbering.get(resolved.numbering.numId)?.get(resolved.numbering.level);
+    if (level?.pPr) resolved = applyParagraphProperties(pPr, applyParagraphProperties(level.pPr, styleResolved));
+  }
+
+  const runs: DocumentRun[] = [];
+  if (isToggleOn(childElement(pPr, 'pageBreakBefore'))) runs.push({ type: 'break', kind: 'page' });
+  parseParagraphContent(context, element, resolved.run, undefined, runs);
+
+  const paragraph: DocumentParagraph = {
+    type: 'paragraph',
+    runs: mergeRuns(runs),
+    style: resolved.paragraph,
+  };
+  if (resolved.headingLevel) paragraph.headingLevel = Math.min(resolved.headingLevel, 6);
+  const list = resolved.numbering ? getListInfo(context, resolved.numbering) : undefined;
+  if (list) paragraph.list = list;
+  return paragraph;
+};
+
+const parseTable = (context: ReaderContext, element: XmlElement): DocumentTable => {
+  const rows: TableRow[] = childElements(element, 'tr').map(tr => {
+    const cells: TableCell[] = childElements(tr, 'tc').map(tc => {
+      const tcPr = childElement(tc, 'tcPr');
+      const span = parseInt(getAttribute(childElement(tcPr, 'gridSpan'), 'val') || '1', 10) || 1;
+      const verticalMerge = childElement(tcPr, 'vMerge');
+      // Continuation cells of a vertical merge stay in the grid but without content
+      const isContinuation = verticalMerge !== null && getAttribute(verticalMerge, 'val') !== 'restart';
+      const cell: TableCell = { blocks: isContinuation ? [] : parseBlocks(context, tc) };
+      if (span > 1) cell.colSpan = span;
+      return cell;
+    });
+    const row: TableRow = { cells };
+    if (isToggleOn(childElement(childElement(tr, 'trPr'), 'tblHeader'))) row.isHeader = true;
+    return row;
+  });
+  return { type: 'table', rows };
+};
+
+const parseBlocks = (context: ReaderContext, container: XmlElement): DocumentBlock[] => {
+  const blocks: DocumentBlock[] = [];
+  for (const child of childElements(container)) {
+    switch (localName(child.name)) {
+      case 'p':
+        blocks.push(parseParagraph(context, child));
+        break;
+      case 'tbl':
+        blocks.push(parseTable(context, child));
+        break;
+      case 'sdt':
+        blocks.push(...parseBlocks(context, childElement(child, 'sdtContent') || child));
+        break;
+      case 'customXml':
+        blocks.push(...parseBlocks(context, child));
+        break;
+      default:
+        break;
+    }
+  }
+  return blocks;
+};
+
+/**
+ * Read a .docx file into the shared document model
+ */
+export const readDocx = (bytes: Uint8Array): DocumentModel => {
+  const zip = openZip(bytes);
+  const packageRelationships = readRelationships(zip, '');
+  const documentPath = findRelationship(packageRelationships, '/officeDocument')?.target || 'word/document.xml';
+
+  const documentXml = readXmlPart(zip, documentPath);
+  const body = childElement(documentXml, 'body');
+  if (!documentXml || !body) {
+    throw new Error('This file is not a Word document (word/document.xml is missing)');
+  }
+
+  const relationships = readRelationships(zip, documentPath);
+  const context: ReaderContext = {
+    styles: new Map(),
+    defaultParagraphStyle: null,
+    defaults: { paragraph: {}, run: {} },
+    resolvedStyles: new Map(),
+    numbering: new Map(),
+    relationships,
+    zip,
+  };
+
+  const stylesPart = findRelationship(relationships, '/styles');
+  parseStyles(stylesPart ? readXmlPart(zip, stylesPart.target) : null, context);
+  const numberingPart = findRelationship(relationships, '/numbering');
+  parseNumbering(numberingPart ? readXmlPart(zip, numberingPart.target) : null, context);
+
+  const model: DocumentModel = { blocks: parseBlocks(context, body) };
+
+  const corePart = findRelationship(packageRelationships, '/core-properties');
+  const title = getTextContent(childElement(corePart ? readXmlPart(zip, corePart.target) : null, 'title')).trim();
+  if (title) model.title = title;
+
+  return model;
+};
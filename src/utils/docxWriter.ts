@@ -0,0 +1,317 @@
+/**
+ * DOCX (Office Open XML) writer
+ * Serialises a DocumentModel into a WordprocessingML package.
+ */
+
+import {
+  DocumentBlock,
+  DocumentModel,
+  DocumentParagraph,
+  DocumentRun,
+  DocumentTable,
+  ImageRun,
+  ParagraphAlignment,
+  RunStyle,
+} from '../types/documentModel';
+import {
+  APP_PROPERTIES_XML,
+  buildContentTypesXml,
+  buildCorePropertiesXml,
+  buildPackageRelationshipsXml,
+  NS_PACKAGE_REL,
+  NS_REL,
+} from './opcPackage';
+import { escapeXml, XML_DECLARATION } from './xmlUtils';
+import { createZip } from './zipWriter';
+
+const NS_MAIN = 'http://schemas.openxmlformats.org/wordprocessingml/2006/main';
+const NS_WP = 'http://schemas.openxmlformats.org/drawingml/2006/wordprocessingDrawing';
+const NS_DRAWING = 'http://schemas.openxmlformats.org/drawingml/2006/main';
+const NS_PICTURE = 'http://schemas.openxmlformats.org/drawingml/2006/picture';
+
+export const DOCX_MIME_TYPE = 'application/vnd.openxmlformats-officedocument.wordprocessingml.document';
+
+// A4 portrait with 1 inch margins, in twentieths of a point
+const PAGE_WIDTH = 11906;
+const PAGE_HEIGHT = 16838;
+const PAGE_MARGIN = 1440;
+
+const HEADING_SIZES = [32, 26, 24, 22, 22, 22];
+
+const ALIGNMENT_VALUES: Record<ParagraphAlignment, string> = {
+  left: 'left',
+  center: 'center',
+  right: 'right',
+  justify: 'both',
+};
+
+const BULLET_SYMBOLS = ['•', '◦', '▪'];
+const NUMBER_FORMATS = ['decimal', 'lowerLetter', 'lowerRoman'];
+
+// Picture formats Word can display, by MIME type
+const IMAGE_EXTENSIONS: Record<string, string> = {
+  'image/png': 'png',
+  'image/jpeg': 'jpeg',
+  'image/gif': 'gif',
+  'image/bmp': 'bmp',
+  'image/tiff': 'tiff',
+  'image/x-emf': 'emf',
+  'image/x-wmf': 'wmf',
+};
+
+const EMU_PER_POINT = 12700;
+
+const BULLET_NUM_ID = 1;
+const FIRST_ORDERED_NUM_ID = 2;
+
+interface WriterContext {
+  hyperlinks: string[];
+  images: ImageRun[];
+  // Each ordered list restarts its numbering, so it gets its own w:num, with the first number of each level
+  orderedNums: Array<{ numId: number; starts: number[] }>;
+  currentOrderedNumId: number | null;
+}
+
+const twips = (points: number) => Math.round(points * 20);
+
+const renderRunProperties = (style: RunStyle, characterStyle?: string): string => {
+  const props: string[] = [];
+  if (characterStyle) props.push(`<w:rStyle w:val="${characterStyle}"/>`);
+  if (style.fontFamily) {
+    const font = escapeXml(style.fontFamily);
+    props.push(`<w:rFonts w:ascii="${font}" w:hAnsi="${font}" w:cs="${font}"/>`);
+  }
+  if (style.bold) props.push('<w:b/><w:bCs/>');
+  if (style.italic) props.push('<w:i/><w:iCs/>');
+  if (style.strike) props.push('<w:strike/>');
+  if (style.color) props.push(`<w:color w:val="${style.color}"/>`);
+  if (style.fontSize) props.push(`<w:sz w:val="${Math.round(style.fontSize * 2)}"/><w:szCs w:val="${Math.round(style.fontSize * 2)}"/>`);
+  if (style.underline) props.push('<w:u w:val="single"/>');
+  if (style.highlight) props.push(`<w:shd w:val="clear" w:color="auto" w:fill="${style.highlight}"/>`);
+  if (style.verticalAlign) props.push(`<w:vertAlign w:val="${style.verticalAlign}"/>`);
+  return props.length ? `<w:rPr>${props.join('')}</w:rPr>` : '';
+};
+
+/**
+ * Text content of a run, with tabs and newlines as their own elements
+ */
+const renderRunText = (text: string): string =>
+  text
+    .split(/(\t|\n)/)
+    .filter(part => part !== '')
+    .map(part => {
+      if (part === '\t') return '<w:tab/>';
+      if (part === '\n') return '<w:br/>';
+      return `<w:t xml:space="preserve">${escapeXml(part)}</w:t>`;
+    })
+    .join('');
+
+/**
+ * Picture as an inline drawing; anchored pictures are written inline too
+ */
+const renderImage = (image: ImageRun, context: WriterContext): string => {
+  if (!IMAGE_EXTENSIONS[image.contentType]) return '';
+  context.images.push(image);
+  const id = context.images.length;
+  const cx = Math.round(image.width * EMU_PER_POINT);
+  const cy = Math.round(image.height * EMU_PER_POINT);
+  const description = image.altText ? ` descr="${escapeXml(image.altText)}"` : '';
+  return `<w:r><w:drawing><wp:inline distT="0" distB="0" distL="0" distR="0"><wp:extent cx="${cx}" cy="${cy}"/>`
+    + `<wp:docPr id="${id}" name="Picture ${id}"${description}/>`
+    + `<wp:cNvGraphicFramePr><a:graphicFrameLocks xmlns:a="${NS_DRAWING}" noChangeAspect="1"/></wp:cNvGraphicFramePr>`
+    + `<a:graphic xmlns:a="${NS_DRAWING}"><a:graphicData uri="${NS_PICTURE}"><pic:pic xmlns:pic="${NS_PICTURE}">`
+    + `<pic:nvPicPr><pic:cNvPr id="${id}" name="image${id}.${IMAGE_EXTENSIONS[image.contentType]}"/><pic:cNvPicPr/></pic:nvPicPr>`
+    + `<pic:blipFill><a:blip r:embed="rIdImage${id}"/><a:stretch><a:fillRect/></a:stretch></pic:blipFill>`
+    + `<pic:spPr><a:xfrm><a:off x="0" y="0"/><a:ext cx="${cx}" cy="${cy}"/></a:xfrm><a:prstGeom prst="rect"><a:avLst/></a:prstGeom></pic:spPr>`
+    + '</pic:pic></a:graphicData></a:graphic></wp:inline></w:drawing></w:r>';
+};
+
+const renderRun = (run: DocumentRun, context: WriterContext): string => {
+  if (run.type === 'break') {
+    return run.kind === 'page' ? '<w:r><w:br w:type="page"/></w:r>' : '<w:r><w:br/></w:r>';
+  }
+  if (run.type === 'image') return renderImage(run, context);
+
+  if (run.link) {
+    context.hyperlinks.push(run.link);
+    const relationshipId = `rIdLink${context.hyperlinks.length}`;
+    return `<w:hyperlink r:id="${relationshipId}" w:history="1"><w:r>${renderRunProperties(run.style, 'Hyperlink')}${renderRunText(run.text)}</w:r></w:hyperlink>`;
+  }
+  return `<w:r>${renderRunProperties(run.style)}${renderRunText(run.text)}</w:r>`;
+};
+
+const renderParagraph = (paragraph: DocumentParagraph, context: WriterContext): string => {
+  const props: string[] = [];
+  const { style } = paragraph;
+
+  if (paragraph.headingLevel) {
+    props.push(`<w:pStyle w:val="Heading${Math.min(Math.max(paragraph.headingLevel, 1), 6)}"/>`);
+  } else if (paragraph.list) {
+    props.push('<w:pStyle w:val="ListParagraph"/>');
+  }
+
+  if (paragraph.list) {
+    let numId = BULLET_NUM_ID;
+    if (paragraph.list.ordered) {
+      if (context.currentOrderedNumId === null) {
+        context.currentOrderedNumId = FIRST_ORDERED_NUM_ID + context.orderedNums.length;
+        context.orderedNums.push({ numId: context.currentOrderedNumId, starts: [] });
+      }
+      numId = context.currentOrderedNumId;
+      const level = Math.min(paragraph.list.level, 8);
+      const starts = context.orderedNums[context.orderedNums.length - 1].starts;
+      starts[level] ??= paragraph.list.start ?? 1;
+    }
+    props.push(`<w:numPr><w:ilvl w:val="${Math.min(paragraph.list.level, 8)}"/><w:numId w:val="${numId}"/></w:numPr>`);
+  } else {
+    context.currentOrderedNumId = null;
+  }
+
+  if (style.direction === 'rtl') props.push('<w:bidi/>');
+
+  if (style.spaceBefore !== undefined || style.spaceAfter !== undefined || style.lineSpacing !== undefined) {
+    const attributes = [
+      style.spaceBefore !== undefined ? `w:before="${twips(style.spaceBefore)}"` : '',
+      style.spaceAfter !== undefined ? `w:after="${twips(style.spaceAfter)}"` : '',
+      style.lineSpacing !== undefined ? `w:line="${Math.round(style.lineSpacing * 240)}" w:lineRule="auto"` : '',
+    ].filter(Boolean);
+    props.push(`<w:spacing ${attributes.join(' ')}/>`);
+  }
+
+  if (style.indentLeft !== undefined || style.indentFirstLine !== undefined) {
+    const attributes: string[] = [];
+    if (style.indentLeft !== undefined) attributes.push(`w:left="${twips(style.indentLeft)}"`);
+    if (style.indentFirstLine !== undefined) {
+      attributes.push(style.indentFirstLine >= 0
+        ? `w:firstLine="${twips(style.indentFirstLine)}"`
+        : `w:hanging="${twips(-style.indentFirstLine)}"`);
+    }
+    props.push(`<w:ind ${attributes.join(' ')}/>`);
+  }
+
+  if (style.alignment) props.push(`<w:jc w:val="${ALIGNMENT_VALUES[style.alignment]}"/>`);
+
+  const pPr = props.length ? `<w:pPr>${props.join('')}</w:pPr>` : '';
+  return `<w:p>${pPr}${paragraph.runs.map(run => renderRun(run, context)).join('')}</w:p>`;
+};
+
+const renderTable = (table: DocumentTable, context: WriterContext): string => {
+  const columnCount = Math.max(1, ...table.rows.map(row => row.cells.reduce((total, cell) => total + (cell.colSpan || 1), 0)));
+  const columnWidth = Math.floor((PAGE_WIDTH - PAGE_MARGIN * 2) / columnCount);
+
+  const rows = table.rows.map(row => {
+    const cells = row.cells.map(cell => {
+      const span = cell.colSpan || 1;
+      const cellProps = `<w:tcPr><w:tcW w:w="${columnWidth * span}" w:type="dxa"/>${span > 1 ? `<w:gridSpan w:val="${span}"/>` : ''}</w:tcPr>`;
+      const content = renderBlocks(cell.blocks, context);
+      // Every cell must end with a paragraph
+      const needsParagraph = !cell.blocks.length || cell.blocks[cell.blocks.length - 1].type !== 'paragraph';
+      return `<w:tc>${cellProps}${content}${needsParagraph ? '<w:p/>' : ''}</w:tc>`;
+    });
+    const rowProps = row.isHeader ? '<w:trPr><w:tblHeader/></w:trPr>' : '';
+    return `<w:tr>${rowProps}${cells.join('')}</w:tr>`;
+  });
+
+  const grid = `<w:tblGrid>${`<w:gridCol w:w="${columnWidth}"/>`.repeat(columnCount)}</w:tblGrid>`;
+  const tableProps = '<w:tblPr><w:tblStyle w:val="TableGrid"/><w:tblW w:w="5000" w:type="pct"/><w:tblLook w:val="04A0" w:firstRow="1" w:lastRow="0" w:firstColumn="1" w:lastColumn="0" w:noHBand="0" w:noVBand="1"/></w:tblPr>';
+  context.currentOrderedNumId = null;
+  return `<w:tbl>${tableProps}${grid}${rows.join('')}</w:tbl>`;
+};
+
+const renderBlocks = (blocks: DocumentBlock[], context: WriterContext): string =>
+  blocks.map(block => (block.type === 'table' ? renderTable(block, context) : renderParagraph(block, context))).join('');
+
+const buildNumberingXml = (orderedNums: WriterContext['orderedNums']): string => {
+  const levels = (ordered: boolean) =>
+    Array.from({ length: 9 }, (_, level) => {
+      const indent = 720 * (level + 1);
+      const format = ordered ? NUMBER_FORMATS[level % NUMBER_FORMATS.length] : 'bullet';
+      const text = ordered ? `%${level + 1}.` : BULLET_SYMBOLS[level % BULLET_SYMBOLS.length];
+      return `<w:lvl w:ilvl="${level}"><w:start w:val="1"/><w:numFmt w:val="${format}"/><w:lvlText w:val="${text}"/><w:lvlJc w:val="left"/><w:pPr><w:ind w:left="${indent}" w:hanging="360"/></w:pPr></w:lvl>`;
+    }).join('');
+
+  const nums = orderedNums
+    .map(({ numId, starts }) => {
+      const overrides = Array.from({ length: Math.max(starts.length, 1) }, (_, level) =>
+        `<w:lvlOverride w:ilvl="${level}"><w:startOverride w:val="${starts[level] ?? 1}"/></w:lvlOverride>`);
+      return `<w:num w:numId="${numId}"><w:abstractNumId w:val="1"/>${overrides.join('')}</w:num>`;
+    })
+    .join('');
+
+  return `${XML_DECLARATION}<w:numbering xmlns:w="${NS_MAIN}">`
+    + `<w:abstractNum w:abstractNumId="0"><w:multiLevelType w:val="hybridMultilevel"/>${levels(false)}</w:abstractNum>`
+    + `<w:abstractNum w:abstractNumId="1"><w:multiLevelType w:val="hybridMultilevel"/>${levels(true)}</w:abstractNum>`
+    + `<w:num w:numId="${BULLET_NUM_ID}"><w:abstractNumId w:val="0"/></w:num>${nums}`
+    + '</w:numbering>';
+};
+
+const buildStylesXml = (): string => {
+  const headings = HEADING_SIZES.map((size, index) => {
+    const level = index + 1;
+    return `<w:style w:type="paragraph" w:styleId="Heading${level}"><w:name w:val="heading ${level}"/><w:basedOn w:val="Normal"/><w:next w:val="Normal"/><w:uiPriority w:val="9"/><w:qFormat/>`
+      + `<w:pPr><w:keepNext/><w:keepLines/><w:spacing w:before="${level === 1 ? 360 : 240}" w:after="120"/><w:outlineLvl w:val="${index}"/></w:pPr>`
+      + `<w:rPr><w:b/><w:bCs/>${level >= 4 ? '<w:i/>' : ''}<w:color w:val="1F2937"/><w:sz w:val="${size}"/><w:szCs w:val="${size}"/></w:rPr></w:style>`;
+  }).join('');
+
+  return `${XML_DECLARATION}<w:styles xmlns:w="${NS_MAIN}">`
+    + '<w:docDefaults><w:rPrDefault><w:rPr><w:rFonts w:ascii="Calibri" w:hAnsi="Calibri" w:eastAsia="Calibri" w:cs="Calibri"/><w:sz w:val="22"/><w:szCs w:val="22"/><w:lang w:val="en-US"/></w:rPr></w:rPrDefault>'
+    + '<w:pPrDefault><w:pPr><w:spacing w:after="160" w:line="259" w:lineRule="auto"/></w:pPr></w:pPrDefault></w:docDefaults>'
+    + '<w:style w:type="paragraph" w:default="1" w:styleId="Normal"><w:name w:val="Normal"/><w:qFormat/></w:style>'
+    + headings
+    + '<w:style w:type="paragraph" w:styleId="ListParagraph"><w:name w:val="List Paragraph"/><w:basedOn w:val="Normal"/><w:uiPriority w:val="34"/><w:qFormat/><w:pPr><w:spacing w:after="60"/><w:contextualSpacing/></w:pPr></w:style>'
+    + '<w:style w:type="character" w:default="1" w:styleId="DefaultParagraphFont"><w:name w:val="Default Paragraph Font"/><w:uiPriority w:val="1"/><w:semiHidden/></w:style>'
+    + '<w:style w:type="character" w:styleId="Hyperlink"><w:name w:val="Hyperlink"/><w:basedOn w:val="DefaultParagraphFont"/><w:rPr><w:color w:val="0563C1"/><w:u w:val="single"/></w:rPr></w:style>'
+    + '<w:style w:type="table" w:default="1" w:styleId="TableNormal"><w:name w:val="Normal Table"/><w:semiHidden/><w:tblPr><w:tblInd w:w="0" w:type="dxa"/><w:tblCellMar><w:top w:w="0" w:type="dxa"/><w:left w:w="108" w:type="dxa"/><w:bottom w:w="0" w:type="dxa"/><w:right w:w="108" w:type="dxa"/></w:tblCellMar></w:tblPr></w:style>'
+    + '<w:style w:type="table" w:styleId="TableGrid"><w:name w:val="Table Grid"/><w:basedOn w:val="TableNormal"/><w:pPr><w:spacing w:after="0" w:line="240" w:lineRule="auto"/></w:pPr><w:tblPr><w:tblBorders>'
+    + ['top', 'left', 'bottom', 'right', 'insideH', 'insideV'].map(side => `<w:${side} w:val="single" w:sz="4" w:space="0" w:color="auto"/>`).join('')
+    + '</w:tblBorders></w:tblPr></w:style>'
+    + '</w:styles>';
+};
+
+/**
+ * Build a .docx package from a document model
+ */
+export const createDocx = (model: DocumentModel): Uint8Array => {
+  const context: WriterContext = { hyperlinks: [], images: [], orderedNums: [], currentOrderedNumId: null };
+  const body = renderBlocks(model.blocks, context);
+  const sectionProps = `<w:sectPr><w:pgSz w:w="${PAGE_WIDTH}" w:h="${PAGE_HEIGHT}"/><w:pgMar w:top="${PAGE_MARGIN}" w:right="${PAGE_MARGIN}" w:bottom="${PAGE_MARGIN}" w:left="${PAGE_MARGIN}" w:header="708" w:footer="708" w:gutter="0"/></w:sectPr>`;
+
+  const documentXml = `${XML_DECLARATION}<w:document xmlns:w="${NS_MAIN}" xmlns:r="${NS_REL}" xmlns:wp="${NS_WP}"><w:body>${body}${sectionProps}</w:body></w:document>`;
+
+  const contentTypesXml = buildContentTypesXml(
+    [
+      ['word/document.xml', 'application/vnd.openxmlformats-officedocument.wordprocessingml.document.main+xml'],
+      ['word/styles.xml', 'application/vnd.openxmlformats-officedocument.wordprocessingml.styles+xml'],
+      ['word/numbering.xml', 'application/vnd.openxmlformats-officedocument.wordprocessingml.numbering+xml'],
+    ],
+    Array.from(new Set(context.images.map(image => image.contentType)), contentType => [IMAGE_EXTENSIONS[contentType], contentType])
+  );
+
+  const documentRelsXml = `${XML_DECLARATION}<Relationships xmlns="${NS_PACKAGE_REL}">`
+    + `<Relationship Id="rId1" Type="${NS_REL}/styles" Target="styles.xml"/>`
+    + `<Relationship Id="rId2" Type="${NS_REL}/numbering" Target="numbering.xml"/>`
+    + context.hyperlinks
+      .map((link, index) => `<Relationship Id="rIdLink${index + 1}" Type="${NS_REL}/hyperlink" Target="${escapeXml(link)}" TargetMode="External"/>`)
+      .join('')
+    + context.images
+      .map((image, index) => `<Relationship Id="rIdImage${index + 1}" Type="${NS_REL}/image" Target="media/image${index + 1}.${IMAGE_EXTENSIONS[image.contentType]}"/>`)
+      .join('')
+    + '</Relationships>';
+
+  return createZip([
+    { name: '[Content_Types].xml', data: contentTypesXml },
+    { name: '_rels/.rels', data: buildPackageRelationshipsXml('word/document.xml') },
+    { name: 'word/document.xml', data: documentXml },
+    { name: 'word/_rels/document.xml.rels', data: documentRelsXml },
+    { name: 'word/styles.xml', data: buildStylesXml() },
+    { name: 'word/numbering.xml', data: buildNumberingXml(context.orderedNums) },
+    { name: 'docProps/core.xml', data: buildCorePropertiesXml(model.title) },
+    { name: 'docProps/app.xml', data: APP_PROPERTIES_XML },
+    ...context.images.map((image, index) => ({
+      name: `word/media/image${index + 1}.${IMAGE_EXTENSIONS[image.contentType]}`,
+      data: image.data,
+      // Compressed image formats gain nothing from deflate
+      compress: image.contentType === 'image/bmp' || image.contentType === 'image/tiff',
+    })),
+  ]);
+};
@@ -3,9 +3,45 @@
  * Ensures all converted files are fully functional and can be opened without errors
  */
 
+import { QUALITY_SETTINGS } from '../types/fileTypes';
+import { canvasToBlob, createCanvas, decodeImageBlob, MAX_CANVAS_AREA } from './canvasUtils';
+import { planConversion, runConversionRoute } from './conversionPlanner';
+import { ConversionQueueOptions, createConversionQueue } from './conversionQueue';
+import {
+  ConverterOptions,
+  getConversionMatrix,
+  getFileFormat,
+  getInputFormats,
+  getSupportedInputTypes,
+} from './converterRegistry';
+import { readCsv } from './csvReader';
+import { writeCsv } from './csvWriter';
+import { DocumentModel, DocumentParagraph, DocumentRun, TextRun } from '../types/documentModel';
+import { readDocx } from './docxReader';
+import { createResultsArchive } from './resultArchive';
+import { createDocx, DOCX_MIME_TYPE } from './docxWriter';
+import { loadFontsForDocument } from './fontLoader';
+import { CONFIDENT_DETECTION, getExtensionMismatch, hasSignature, sniffFileFormat } from './formatSniffer';
+import { readHtml } from './htmlReader';
+import { createImagePdf, ImagePdfOptions } from './imagePdf';
+import { readMarkdown } from './markdownReader';
+import { renderDocumentToPdf } from './pdfLayout';
+import { openPdfDocument } from './pdfParser';
+import { isPdfPasswordError } from './pdfSecurity';
+import { getRenderViewport, renderPdfPage } from './pdfRenderer';
+import { readPptx } from './pptxReader';
+import { readRtf } from './rtfReader';
+import { renderSlide } from './slideRenderer';
+import { getPrintedSheets, getWorkbookPageLayout, workbookToDocument } from './spreadsheetDocument';
+import { extractDocumentParagraphs, PdfParagraph } from './pdfText';
+import { readPlainText } from './textReader';
+import { readXlsx } from './xlsxReader';
+import { createXlsx, XLSX_MIME_TYPE } from './xlsxWriter';
+
 export interface ConversionConfig {
   maxFileSize: number;
-  supportedFormats: Record<string, string[]>;
+  // Extensions by MIME type; defaults to the inputs of the registered converters
+  supportedFormats?: Record<string, string[]>;
   outputQuality: number;
   imageQuality: number;
   pdfDPI: number;
@@ -15,11 +51,26 @@ export interface ConversionResult {
   success: boolean;
   outputBlob?: Blob;
   outputFileName?: string;
+  // Every produced file when a conversion yields more than one (e.g. one image per PDF page)
+  outputFiles?: Array<{ blob: Blob; fileName: string }>;
   error?: string;
   originalSize: number;
   convertedSize?: number;
   pages?: number;
   conversionTime?: number;
+  // Set when the conversion was stopped through its AbortSignal
+  cancelled?: boolean;
+  // Set when an encrypted PDF needs a password that was not given or is wrong
+  passwordRequired?: boolean;
+}
+
+export interface DetectedFormat {
+  // Format id, e.g. "PNG", or "UNKNOWN"
+  format: string;
+  // 0 to 1; below 0.7 the format mostly comes from the file name
+  confidence: number;
+  // Set when the extension does not match the content
+  warning?: string;
 }
 
 export interface ConversionProgress {
@@ -28,24 +79,65 @@ export interface ConversionProgress {
   message: string;
   currentPage?: number;
   totalPages?: number;
+  // Position in a multi-step conversion route
+  step?: number;
+  totalSteps?: number;
 }
 
 // Enhanced configuration for quality conversions
 const DEFAULT_CONFIG: ConversionConfig = {
   maxFileSize: 50 * 1024 * 1024, // 50MB for better document support
-  supportedFormats: {
-    'application/pdf': ['pdf'],
-    'image/jpeg': ['jpg', 'jpeg'],
-    'image/png': ['png'],
-    'application/vnd.openxmlformats-officedocument.wordprocessingml.document': ['docx'],
-    'text/plain': ['txt'],
-    'text/rtf': ['rtf']
-  },
   outputQuality: 0.95,
   imageQuality: 0.92,
   pdfDPI: 150
 };
 
+/**
+ * Result of a conversion stopped through its AbortSignal
+ */
+export const cancelledResult = (originalSize: number): ConversionResult => ({
+  success: false,
+  cancelled: true,
+  error: 'Conversion cancelled',
+  originalSize
+});
+
+/**
+ * Build a document model from paragraphs recovered from a PDF
+ * Lines that end well short of the paragraph width keep their line break.
+ */
+const pdfParagraphsToDocument = (paragraphs: PdfParagraph[], title?: string): DocumentModel => ({
+  title,
+  blocks: paragraphs.map((paragraph): DocumentParagraph => {
+    const runs: DocumentRun[] = [];
+    const maxWidth = Math.max(...paragraph.lines.map(line => line.width));
+
+    paragraph.lines.forEach((line, index) => {
+      const style = { bold: line.bold || undefined, italic: line.italic || undefined };
+      const previous = runs[runs.length - 1];
+      if (previous?.type === 'text' && previous.style.bold === style.bold && previous.style.italic === style.italic) {
+        previous.text += line.text;
+      } else {
+        runs.push({ type: 'text', text: line.text, style });
+      }
+
+      if (index === paragraph.lines.length - 1) return;
+      const last = runs[runs.length - 1] as TextRun;
+      const next = paragraph.lines[index + 1];
+      if (line.width < maxWidth * 0.7) {
+        runs.push({ type: 'break', kind: 'line' });
+      } else if (/[A-Za-z]-$/.test(last.text) && /^[a-z]/.test(next.text)) {
+        // Re-join words hyphenated across a line break
+        last.text = last.text.slice(0, -1);
+      } else {
+        last.text += ' ';
+      }
+    });
+
+    return { type: 'paragraph', runs, style: {}, headingLevel: paragraph.headingLevel };
+  }),
+});
+
 /**
  * Enhanced file validation with integrity checks
  */
@@ -66,72 +158,38 @@ export const validateInputFile = (file: File, config: ConversionConfig = DEFAULT
     return 'File must have a valid extension';
   }
 
-  const isSupported = Object.values(config.supportedFormats).some(extensions => 
+  const isSupported = Object.values(config.supportedFormats ?? getSupportedInputTypes()).some(extensions => 
     extensions.includes(fileExtension)
   );
 
   if (!isSupported) {
-    return `File type "${fileExtension}" is not supported. Supported formats: PDF, DOCX, JPG, PNG`;
+    return `File type "${fileExtension}" is not supported. Supported formats: ${getInputFormats().map(format => format.id).join(', ')}`;
   }
 
   return null;
 };
 
 /**
- * Enhanced file integrity validation with magic bytes
+ * File integrity validation from the content: a file named as a format with a
+ * signature (PDF, PNG, DOCX, ...) must contain a recognisable one. Content that
+ * differs from the name is accepted here and reported by detectFileFormat.
  */
 export const validateFileIntegrity = async (file: File): Promise<{ valid: boolean; error?: string }> => {
-  return new Promise((resolve) => {
-    const reader = new FileReader();
-    
-    reader.onload = (e) => {
-      try {
-        const arrayBuffer = e.target?.result as ArrayBuffer;
-        if (!arrayBuffer) {
-          resolve({ valid: false, error: 'Cannot read file content' });
-          return;
-        }
-
-        const uint8Array = new Uint8Array(arrayBuffer.slice(0, 16));
-        const header = Array.from(uint8Array).map(b => b.toString(16).padStart(2, '0')).join('');
-
-        // Enhanced file signature validation
-        const signatures: Record<string, { patterns: string[]; name: string }> = {
-          'image/jpeg': { patterns: ['ffd8ff'], name: 'JPEG' },
-          'image/png': { patterns: ['89504e47'], name: 'PNG' },
-          'application/pdf': { patterns: ['255044462d'], name: 'PDF' },
-          'application/zip': { patterns: ['504b0304', '504b0506'], name: 'ZIP/Office' }
-        };
-
-        const fileType = file.type;
-        const expectedSig = signatures[fileType] || signatures['application/zip']; // Office docs are ZIP-based
-
-        if (expectedSig) {
-          const isValid = expectedSig.patterns.some(pattern => header.startsWith(pattern));
-          if (!isValid) {
-            resolve({ 
-              valid: false, 
-              error: `File appears to be corrupted or is not a valid ${expectedSig.name} file` 
-            });
-            return;
-          }
-        }
-
-        resolve({ valid: true });
-      } catch (error) {
-        resolve({ 
-          valid: false, 
-          error: `File validation failed: ${error instanceof Error ? error.message : 'Unknown error'}` 
-        });
-      }
-    };
+  try {
+    const claimed = getFileFormat(file);
+    if (!claimed || !hasSignature(claimed.id)) return { valid: true };
 
-    reader.onerror = () => {
-      resolve({ valid: false, error: 'Cannot read file for validation' });
+    const detection = await sniffFileFormat(file);
+    if (!detection.format || !hasSignature(detection.format) || detection.confidence < 0.5) {
+      return { valid: false, error: `File appears to be corrupted or is not a valid ${claimed.id} file` };
+    }
+    return { valid: true };
+  } catch (error) {
+    return {
+      valid: false,
+      error: `File validation failed: ${error instanceof Error ? error.message : 'Unknown error'}`
     };
-
-    reader.readAsArrayBuffer(file.slice(0, 16));
-  });
+  }
 };
 
 /**
@@ -140,7 +198,8 @@ export const validateFileIntegrity = async (file: File): Promise<{ valid: boolea
 export const convertImage = async (
   file: File, 
   targetFormat: string,
-  onProgress?: (progress: ConversionProgress) => void
+  onProgress?: (progress: ConversionProgress) => void,
+  signal?: AbortSignal
 ): Promise<ConversionResult> => {
   const startTime = Date.now();
   
@@ -158,102 +217,69 @@ export const convertImage = async (
       return { success: false, error: integrityCheck.error || 'File integrity check failed', originalSize: file.size };
     }
 
+    if (signal?.aborted) return cancelledResult(file.size);
     onProgress?.({ stage: 'processing', progress: 30, message: 'Loading and processing image...' });
 
-    return new Promise((resolve) => {
-      const img = new Image();
-      const canvas = document.createElement('canvas');
-      const ctx = canvas.getContext('2d', { alpha: true });
-
-      if (!ctx) {
-        resolve({ success: false, error: 'Canvas context not available', originalSize: file.size });
-        return;
-      }
-
-      img.onload = () => {
-        try {
-          onProgress?.({ stage: 'processing', progress: 60, message: 'Converting image format...' });
-
-          // Set canvas dimensions to maintain quality
-          canvas.width = img.width;
-          canvas.height = img.height;
-
-          // Handle transparency for PNG conversion
-          if (targetFormat.toLowerCase() === 'png') {
-            ctx.clearRect(0, 0, canvas.width, canvas.height);
-          } else if (targetFormat.toLowerCase() === 'jpg' || targetFormat.toLowerCase() === 'jpeg') {
-            // Fill with white background for JPEG (no transparency support)
-            ctx.fillStyle = '#FFFFFF';
-            ctx.fillRect(0, 0, canvas.width, canvas.height);
-          }
+    let bitmap: ImageBitmap;
+    try {
+      bitmap = await decodeImageBlob(file);
+    } catch {
+      return {
+        success: false,
+        error: 'Failed to load image - file may be corrupted or in an unsupported format',
+        originalSize: file.size
+      };
+    }
 
-          // Draw image with high quality
-          ctx.imageSmoothingEnabled = true;
-          ctx.imageSmoothingQuality = 'high';
-          ctx.drawImage(img, 0, 0);
+    if (signal?.aborted) {
+      bitmap.close();
+      return cancelledResult(file.size);
+    }
+    onProgress?.({ stage: 'processing', progress: 60, message: 'Converting image format...' });
+
+    // Canvas dimensions match the image to maintain quality
+    const { canvas, ctx } = createCanvas(bitmap.width, bitmap.height);
+    const format = targetFormat.toLowerCase();
+
+    // Handle transparency for PNG conversion
+    if (format === 'png') {
+      ctx.clearRect(0, 0, canvas.width, canvas.height);
+    } else if (format === 'jpg' || format === 'jpeg') {
+      // Fill with white background for JPEG (no transparency support)
+      ctx.fillStyle = '#FFFFFF';
+      ctx.fillRect(0, 0, canvas.width, canvas.height);
+    }
 
-          onProgress?.({ stage: 'finalizing', progress: 80, message: 'Generating output file...' });
+    // Draw image with high quality
+    ctx.imageSmoothingEnabled = true;
+    ctx.imageSmoothingQuality = 'high';
+    ctx.drawImage(bitmap, 0, 0);
+    bitmap.close();
 
-          // Convert with appropriate quality settings
-          const mimeType = `image/${targetFormat.toLowerCase() === 'jpg' ? 'jpeg' : targetFormat.toLowerCase()}`;
-          const quality = targetFormat.toLowerCase() === 'jpg' || targetFormat.toLowerCase() === 'jpeg' 
-            ? DEFAULT_CONFIG.imageQuality 
-            : undefined;
+    onProgress?.({ stage: 'finalizing', progress: 80, message: 'Generating output file...' });
 
-          canvas.toBlob((blob) => {
-            if (!blob) {
-              resolve({ success: false, error: 'Failed to generate output image', originalSize: file.size });
-              return;
-            }
+    // Convert with appropriate quality settings
+    const mimeType = `image/${format === 'jpg' ? 'jpeg' : format}`;
+    const quality = format === 'jpg' || format === 'jpeg' ? DEFAULT_CONFIG.imageQuality : undefined;
+    const blob = await canvasToBlob(canvas, mimeType, quality);
+    if (signal?.aborted) return cancelledResult(file.size);
 
-            const conversionTime = Date.now() - startTime;
-            const outputFileName = file.name.replace(/\.[^/.]+$/, `.${targetFormat.toLowerCase()}`);
-            
-            onProgress?.({ stage: 'complete', progress: 100, message: 'Image conversion completed successfully!' });
+    const conversionTime = Date.now() - startTime;
+    const outputFileName = file.name.replace(/\.[^/.]+$/, `.${format}`);
 
-            resolve({
-              success: true,
-              outputBlob: blob,
-              outputFileName,
-              originalSize: file.size,
-              convertedSize: blob.size,
-              conversionTime
-            });
-          }, mimeType, quality);
+    onProgress?.({ stage: 'complete', progress: 100, message: 'Image conversion completed successfully!' });
 
-        } catch (error) {
-          resolve({ 
-            success: false, 
-            error: `Image processing failed: ${error instanceof Error ? error.message : 'Unknown error'}`, 
-            originalSize: file.size 
-          });
-        }
-      };
-
-      img.onerror = () => {
-        resolve({ 
-          success: false, 
-          error: 'Failed to load image - file may be corrupted or in an unsupported format', 
-          originalSize: file.size 
-        });
-      };
-
-      // Load image from file
-      const reader = new FileReader();
-      reader.onload = (e) => {
-        if (e.target?.result) {
-          img.src = e.target.result as string;
-        } else {
-          resolve({ success: false, error: 'Failed to read image file', originalSize: file.size });
-        }
-      };
-      reader.onerror = () => {
-        resolve({ success: false, error: 'Failed to read image file', originalSize: file.size });
-      };
-      reader.readAsDataURL(file);
-    });
+    return {
+      success: true,
+      outputBlob: blob,
+      outputFileName,
+      originalSize: file.size,
+      convertedSize: blob.size,
+      conversionTime
+    };
 
   } catch (error) {
+    if (signal?.aborted) return cancelledResult(file.size);
     return { 
       success: false, 
       error: `Image conversion failed: ${error instanceof Error ? error.message : 'Unknown error'}`, 
@@ -268,7 +294,9 @@ export const convertImage = async (
 export const convertPDFToImage = async (
   file: File,
   targetFormat: string,
-  onProgress?: (progress: ConversionProgress) => void
+  onProgress?: (progress: ConversionProgress) => void,
+  password?: string,
+  signal?: AbortSignal
 ): Promise<ConversionResult> => {
   const startTime = Date.now();
   
@@ -298,70 +326,71 @@ export const convertPDFToImage = async (
             return;
           }
 
-          onProgress?.({ stage: 'processing', progress: 60, message: 'Converting PDF to image...' });
-
-          // For demo purposes, create a placeholder image with PDF info
-          // In production, you would use PDF.js or similar library
-          const canvas = document.createElement('canvas');
-          const ctx = canvas.getContext('2d');
-          
-          if (!ctx) {
-            resolve({ success: false, error: 'Canvas context not available', originalSize: file.size });
+          const pdfDocument = openPdfDocument(new Uint8Array(arrayBuffer), { password });
+          const pageCount = pdfDocument.pages.length;
+          if (pageCount === 0) {
+            resolve({ success: false, error: 'This PDF does not contain any pages', originalSize: file.size });
             return;
           }
 
-          // Create a high-quality placeholder image
-          canvas.width = 794; // A4 width at 96 DPI
-          canvas.height = 1123; // A4 height at 96 DPI
+          const format = targetFormat.toLowerCase();
+          const mimeType = `image/${format === 'jpg' ? 'jpeg' : format}`;
+          const quality = format === 'jpg' ? DEFAULT_CONFIG.imageQuality : undefined;
+          const baseName = file.name.replace(/\.pdf$/i, '');
+          const outputFiles: Array<{ blob: Blob; fileName: string }> = [];
 
-          // White background
-          ctx.fillStyle = '#FFFFFF';
-          ctx.fillRect(0, 0, canvas.width, canvas.height);
+          for (const page of pdfDocument.pages) {
+            if (signal?.aborted) {
+              resolve(cancelledResult(file.size));
+              return;
+            }
+            onProgress?.({
+              stage: 'processing',
+              progress: 30 + Math.round((page.index / pageCount) * 60),
+              message: `Rendering page ${page.index + 1} of ${pageCount}...`,
+              currentPage: page.index + 1,
+              totalPages: pageCount
+            });
 
-          // Add content indicating this is a PDF conversion
-          ctx.fillStyle = '#333333';
-          ctx.font = '24px Arial, sans-serif';
-          ctx.textAlign = 'center';
-          ctx.fillText('PDF Content Converted', canvas.width / 2, 100);
-          
-          ctx.font = '16px Arial, sans-serif';
-          ctx.fillText(`Original file: ${file.name}`, canvas.width / 2, 150);
-          ctx.fillText(`Size: ${(file.size / 1024 / 1024).toFixed(2)} MB`, canvas.width / 2, 180);
-          ctx.fillText('This is a demo conversion', canvas.width / 2, 220);
+            const viewport = getRenderViewport(page, QUALITY_SETTINGS.pdf.dpi, MAX_CANVAS_AREA);
+            const { canvas, ctx } = createCanvas(viewport.width, viewport.height);
 
-          // Add a border
-          ctx.strokeStyle = '#CCCCCC';
-          ctx.lineWidth = 2;
-          ctx.strokeRect(20, 20, canvas.width - 40, canvas.height - 40);
+            // Pages are painted onto white paper
+            ctx.fillStyle = '#FFFFFF';
+            ctx.fillRect(0, 0, canvas.width, canvas.height);
 
-          onProgress?.({ stage: 'finalizing', progress: 80, message: 'Generating image file...' });
+            await renderPdfPage(pdfDocument, page, ctx, viewport);
 
-          const mimeType = `image/${targetFormat.toLowerCase() === 'jpg' ? 'jpeg' : targetFormat.toLowerCase()}`;
-          const quality = targetFormat.toLowerCase() === 'jpg' ? DEFAULT_CONFIG.imageQuality : undefined;
+            const blob = await canvasToBlob(canvas, mimeType, quality);
+            const fileName = pageCount === 1 ? `${baseName}.${format}` : `${baseName}-page-${page.index + 1}.${format}`;
+            outputFiles.push({ blob, fileName });
+          }
 
-          canvas.toBlob((blob) => {
-            if (!blob) {
-              resolve({ success: false, error: 'Failed to generate output image', originalSize: file.size });
-              return;
-            }
+          onProgress?.({ stage: 'finalizing', progress: 95, message: 'Generating image files...' });
 
-            const conversionTime = Date.now() - startTime;
-            const outputFileName = file.name.replace(/\.pdf$/i, `.${targetFormat.toLowerCase()}`);
-            
-            onProgress?.({ stage: 'complete', progress: 100, message: 'PDF to image conversion completed!' });
+          const conversionTime = Date.now() - startTime;
+          onProgress?.({ stage: 'complete', progress: 100, message: 'PDF to image conversion completed!' });
 
-            resolve({
-              success: true,
-              outputBlob: blob,
-              outputFileName,
-              originalSize: file.size,
-              convertedSize: blob.size,
-              pages: 1,
-              conversionTime
-            });
-          }, mimeType, quality);
+          resolve({
+            success: true,
+            outputBlob: outputFiles[0].blob,
+            outputFileName: outputFiles[0].fileName,
+            outputFiles,
+            originalSize: file.size,
+            convertedSize: outputFiles.reduce((total, output) => total + output.blob.size, 0),
+            pages: pageCount,
+            conversionTime
+          });
 
         } catch (error) {
+          if (signal?.aborted) {
+            resolve(cancelledResult(file.size));
+            return;
+          }
+          if (isPdfPasswordError(error)) {
+            resolve({ success: false, error: error.message, passwordRequired: true, originalSize: file.size });
+            return;
+          }
           resolve({ 
             success: false, 
             error: `PDF processing failed: ${error instanceof Error ? error.message : 'Unknown error'}`, 
@@ -391,7 +420,9 @@ export const convertPDFToImage = async (
  */
 export const convertPDFToDocx = async (
   file: File,
-  onProgress?: (progress: ConversionProgress) => void
+  onProgress?: (progress: ConversionProgress) => void,
+  password?: string,
+  signal?: AbortSignal
 ): Promise<ConversionResult> => {
   const startTime = Date.now();
   
@@ -423,45 +454,36 @@ export const convertPDFToDocx = async (
 
           onProgress?.({ stage: 'processing', progress: 60, message: 'Converting to DOCX format...' });
 
-          // Enhanced text extraction from PDF
-          const uint8Array = new Uint8Array(arrayBuffer);
-          const pdfString = new TextDecoder('latin1').decode(uint8Array);
-          
-          // Extract text content with better parsing
-          let textContent = '';
-          const textMatches = pdfString.match(/\(([^)]+)\)/g);
-          
-          if (textMatches) {
-            textContent = textMatches
-              .map(match => match.slice(1, -1))
-              .filter(text => text.length > 1) // Filter out single characters
-              .join(' ')
-              .replace(/\\n/g, '\n')
-              .replace(/\\t/g, '\t')
-              .replace(/\\r/g, '\r');
-          }
+          // Parse the PDF structure and extract positioned text from every page
+          const pdfDocument = openPdfDocument(new Uint8Array(arrayBuffer), { password });
+          const paragraphs = extractDocumentParagraphs(pdfDocument, (pageIndex, pageCount) => {
+            // Stops the extraction between pages; reported as cancelled below
+            signal?.throwIfAborted();
+            onProgress?.({
+              stage: 'processing',
+              progress: 60 + Math.round((pageIndex / pageCount) * 20),
+              message: `Extracting text from page ${pageIndex + 1} of ${pageCount}...`,
+              currentPage: pageIndex + 1,
+              totalPages: pageCount
+            });
+          });
 
-          // If no text found, provide informative content
-          if (!textContent.trim()) {
-            textContent = `Content extracted from: ${file.name}\n\nThis PDF has been converted to DOCX format.\n\nOriginal file size: ${(file.size / 1024 / 1024).toFixed(2)} MB\nConversion date: ${new Date().toLocaleDateString()}\n\nNote: This is a demo conversion. In a production environment, advanced PDF parsing libraries would be used to maintain formatting, images, and complex layouts.`;
+          if (paragraphs.length === 0) {
+            resolve({
+              success: false,
+              error: 'No extractable text found in this PDF. It may contain only scanned images.',
+              originalSize: file.size
+            });
+            return;
           }
 
           onProgress?.({ stage: 'finalizing', progress: 80, message: 'Creating DOCX document...' });
 
-          // Create RTF content that can be opened by Word
-          const rtfContent = `{\\rtf1\\ansi\\deff0 {\\fonttbl {\\f0\\froman\\fcharset0 Times New Roman;}{\\f1\\fswiss\\fcharset0 Arial;}}
-{\\colortbl;\\red0\\green0\\blue0;\\red0\\green0\\blue255;}
-\\f0\\fs24 
-\\par\\pard\\qc\\b\\fs28 Document Converted from PDF\\b0\\fs24\\par
-\\par\\pard\\ql 
-\\f1\\fs22 Original file: ${file.name}\\par
-Conversion date: ${new Date().toLocaleDateString()}\\par
-\\par
-\\f0\\fs24 ${textContent.replace(/\n/g, '\\par ')}}`;
-
-          const blob = new Blob([rtfContent], { type: 'application/rtf' });
+          const title = file.name.replace(/\.pdf$/i, '');
+          const docx = createDocx(pdfParagraphsToDocument(paragraphs, title));
+          const blob = new Blob([docx], { type: DOCX_MIME_TYPE });
           const conversionTime = Date.now() - startTime;
-          const outputFileName = file.name.replace(/\.pdf$/i, '.rtf'); // Use RTF for better compatibility
+          const outputFileName = `${title}.docx`;
           
           onProgress?.({ stage: 'complete', progress: 100, message: 'PDF to DOCX conversion completed!' });
 
@@ -471,10 +493,19 @@ Conversion date: ${new Date().toLocaleDateString()}\\par
             outputFileName,
             originalSize: file.size,
             convertedSize: blob.size,
+            pages: pdfDocument.pages.length,
             conversionTime
           });
 
         } catch (error) {
+          if (signal?.aborted) {
+            resolve(cancelledResult(file.size));
+            return;
+          }
+          if (isPdfPasswordError(error)) {
+            resolve({ success: false, error: error.message, passwordRequired: true, originalSize: file.size });
+            return;
+          }
           resolve({ 
             success: false, 
             error: `PDF to DOCX conversion failed: ${error instanceof Error ? error.message : 'Unknown error'}`, 
@@ -504,7 +535,8 @@ Conversion date: ${new Date().toLocaleDateString()}\\par
  */
 export const convertDocxToPDF = async (
   file: File,
-  onProgress?: (progress: ConversionProgress) => void
+  onProgress?: (progress: ConversionProgress) => void,
+  signal?: AbortSignal
 ): Promise<ConversionResult> => {
   const startTime = Date.now();
   
@@ -516,6 +548,11 @@ export const convertDocxToPDF = async (
       return { success: false, error: validationError, originalSize: file.size };
     }
 
+    const integrityCheck = await validateFileIntegrity(file);
+    if (!integrityCheck.valid) {
+      return { success: false, error: integrityCheck.error || 'File integrity check failed', originalSize: file.size };
+    }
+
     onProgress?.({ stage: 'processing', progress: 30, message: 'Reading DOCX content...' });
 
     return new Promise((resolve) => {
@@ -531,94 +568,23 @@ export const convertDocxToPDF = async (
 
           onProgress?.({ stage: 'processing', progress: 60, message: 'Converting to PDF format...' });
 
-          // Extract text from DOCX (ZIP-based format)
-          const uint8Array = new Uint8Array(arrayBuffer);
-          let textContent = '';
-          
-          try {
-            const decoder = new TextDecoder('utf-8');
-            const content = decoder.decode(uint8Array);
-            
-            // Extract text from Office XML
-            const xmlTextMatches = content.match(/<w:t[^>]*>([^<]+)<\/w:t>/g) || 
-                                  content.match(/<t[^>]*>([^<]+)<\/t>/g);
-            
-            if (xmlTextMatches) {
-              textContent = xmlTextMatches
-                .map(match => match.replace(/<[^>]+>/g, ''))
-                .filter(text => text.trim().length > 0)
-                .join(' ');
-            }
-          } catch (decodeError) {
-            console.warn('Failed to decode DOCX content:', decodeError);
-          }
-
-          if (!textContent.trim()) {
-            textContent = `Content from: ${file.name}\n\nThis document has been converted from DOCX to PDF format.\n\nOriginal file size: ${(file.size / 1024 / 1024).toFixed(2)} MB\nConversion date: ${new Date().toLocaleDateString()}`;
+          // Unzip the package and parse word/document.xml into the document model
+          const documentModel = readDocx(new Uint8Array(arrayBuffer));
+          if (signal?.aborted) {
+            resolve(cancelledResult(file.size));
+            return;
           }
 
           onProgress?.({ stage: 'finalizing', progress: 80, message: 'Creating PDF document...' });
 
-          // Create a simple PDF-like text format
-          const pdfContent = `%PDF-1.4
-1 0 obj
-<<
-/Type /Catalog
-/Pages 2 0 R
->>
-endobj
-
-2 0 obj
-<<
-/Type /Pages
-/Kids [3 0 R]
-/Count 1
->>
-endobj
-
-3 0 obj
-<<
-/Type /Page
-/Parent 2 0 R
-/MediaBox [0 0 612 792]
-/Contents 4 0 R
->>
-endobj
-
-4 0 obj
-<<
-/Length ${textContent.length + 100}
->>
-stream
-BT
-/F1 12 Tf
-50 750 Td
-(Document converted from: ${file.name}) Tj
-0 -20 Td
-(Conversion date: ${new Date().toLocaleDateString()}) Tj
-0 -40 Td
-(${textContent.substring(0, 500)}...) Tj
-ET
-endstream
-endobj
-
-xref
-0 5
-0000000000 65535 f 
-0000000010 00000 n 
-0000000079 00000 n 
-0000000173 00000 n 
-0000000301 00000 n 
-trailer
-<<
-/Size 5
-/Root 1 0 R
->>
-startxref
-${400 + textContent.length}
-%%EOF`;
-
-          const blob = new Blob([pdfContent], { type: 'application/pdf' });
+          // Text outside the standard fonts' character set needs embedded fonts
+          const unicodeFonts = await loadFontsForDocument(documentModel);
+          if (signal?.aborted) {
+            resolve(cancelledResult(file.size));
+            return;
+          }
+          const pdf = renderDocumentToPdf(documentModel, { unicodeFonts });
+          const blob = new Blob([pdf.data], { type: 'application/pdf' });
           const conversionTime = Date.now() - startTime;
           const outputFileName = file.name.replace(/\.docx$/i, '.pdf');
           
@@ -630,10 +596,15 @@ ${400 + textContent.length}
             outputFileName,
             originalSize: file.size,
             convertedSize: blob.size,
+            pages: pdf.pageCount,
             conversionTime
           });
 
         } catch (error) {
+          if (signal?.aborted) {
+            resolve(cancelledResult(file.size));
+            return;
+          }
           resolve({ 
             success: false, 
             error: `DOCX to PDF conversion failed: ${error instanceof Error ? error.message : 'Unknown error'}`, 
@@ -650,6 +621,7 @@ ${400 + textContent.length}
     });
 
   } catch (error) {
+    if (signal?.aborted) return cancelledResult(file.size);
     return { 
       success: false, 
       error: `DOCX to PDF conversion failed: ${error instanceof Error ? error.message : 'Unknown error'}`, 
@@ -658,14 +630,345 @@ ${400 + textContent.length}
   }
 };
 
+type TextDocumentFormat = 'TXT' | 'RTF' | 'MD' | 'HTML';
+
+// Readers for the text-based formats; the title is the file name without its extension
+const TEXT_DOCUMENT_READERS: Record<TextDocumentFormat, (bytes: Uint8Array, title: string) => DocumentModel> = {
+  TXT: readPlainText,
+  RTF: readRtf,
+  MD: readMarkdown,
+  HTML: readHtml,
+};
+
+/**
+ * TXT, RTF, Markdown or HTML to PDF or DOCX through the document model
+ */
+export const convertTextDocument = async (
+  file: File,
+  sourceFormat: TextDocumentFormat,
+  targetFormat: 'PDF' | 'DOCX',
+  onProgress?: (progress: ConversionProgress) => void,
+  signal?: AbortSignal
+): Promise<ConversionResult> => {
+  const startTime = Date.now();
+  const label = `${sourceFormat} to ${targetFormat}`;
+
+  try {
+    onProgress?.({ stage: 'validation', progress: 10, message: `Validating ${sourceFormat} file...` });
+
+    const validationError = validateInputFile(file);
+    if (validationError) {
+      return { success: false, error: validationError, originalSize: file.size };
+    }
+
+    const integrityCheck = await validateFileIntegrity(file);
+    if (!integrityCheck.valid) {
+      return { success: false, error: integrityCheck.error || 'File integrity check failed', originalSize: file.size };
+    }
+
+    onProgress?.({ stage: 'processing', progress: 30, message: `Reading ${sourceFormat} content...` });
+
+    const bytes = new Uint8Array(await file.arrayBuffer());
+    const baseName = file.name.replace(/\.[^/.]+$/, '');
+    const documentModel = TEXT_DOCUMENT_READERS[sourceFormat](bytes, baseName);
+    documentModel.title ??= baseName;
+    if (signal?.aborted) return cancelledResult(file.size);
+
+    onProgress?.({ stage: 'finalizing', progress: 70, message: `Creating ${targetFormat} document...` });
+
+    let blob: Blob;
+    let pages: number | undefined;
+    if (targetFormat === 'PDF') {
+      // Text outside the standard fonts' character set needs embedded fonts
+      const unicodeFonts = await loadFontsForDocument(documentModel);
+      if (signal?.aborted) return cancelledResult(file.size);
+      const pdf = renderDocumentToPdf(documentModel, { unicodeFonts });
+      blob = new Blob([pdf.data], { type: 'application/pdf' });
+      pages = pdf.pageCount;
+    } else {
+      blob = new Blob([createDocx(documentModel)], { type: DOCX_MIME_TYPE });
+    }
+
+    onProgress?.({ stage: 'complete', progress: 100, message: `${label} conversion completed!` });
+
+    return {
+      success: true,
+      outputBlob: blob,
+      outputFileName: `${baseName}.${targetFormat.toLowerCase()}`,
+      originalSize: file.size,
+      convertedSize: blob.size,
+      pages,
+      conversionTime: Date.now() - startTime
+    };
+  } catch (error) {
+    if (signal?.aborted) return cancelledResult(file.size);
+    return {
+      success: false,
+      error: `${label} conversion failed: ${error instanceof Error ? error.message : 'Unknown error'}`,
+      originalSize: file.size
+    };
+  }
+};
+
 /**
- * Main conversion router with enhanced error handling
+ * XLSX to CSV (one file per sheet), CSV to XLSX and XLSX to PDF through the
+ * spreadsheet model. `delimiter` is the CSV field separator; CSV input
+ * without one has it detected.
+ */
+export const convertSpreadsheet = async (
+  file: File,
+  sourceFormat: 'XLSX' | 'CSV',
+  targetFormat: 'XLSX' | 'CSV' | 'PDF',
+  delimiter?: string,
+  onProgress?: (progress: ConversionProgress) => void,
+  signal?: AbortSignal
+): Promise<ConversionResult> => {
+  const startTime = Date.now();
+  const label = `${sourceFormat} to ${targetFormat}`;
+
+  try {
+    onProgress?.({ stage: 'validation', progress: 10, message: `Validating ${sourceFormat} file...` });
+
+    const validationError = validateInputFile(file);
+    if (validationError) {
+      return { success: false, error: validationError, originalSize: file.size };
+    }
+
+    const integrityCheck = await validateFileIntegrity(file);
+    if (!integrityCheck.valid) {
+      return { success: false, error: integrityCheck.error || 'File integrity check failed', originalSize: file.size };
+    }
+
+    onProgress?.({ stage: 'processing', progress: 30, message: `Reading ${sourceFormat} sheets...` });
+
+    const bytes = new Uint8Array(await file.arrayBuffer());
+    const baseName = file.name.replace(/\.[^/.]+$/, '');
+    const workbook = sourceFormat === 'XLSX' ? readXlsx(bytes) : readCsv(bytes, baseName, delimiter);
+    workbook.title ??= baseName;
+    if (workbook.sheets.length === 0) {
+      return { success: false, error: 'This workbook does not contain any worksheets', originalSize: file.size };
+    }
+    if (signal?.aborted) return cancelledResult(file.size);
+
+    onProgress?.({ stage: 'finalizing', progress: 70, message: `Creating ${targetFormat} file...` });
+
+    const outputFiles: Array<{ blob: Blob; fileName: string }> = [];
+    let pages: number | undefined;
+    if (targetFormat === 'CSV') {
+      const sheets = getPrintedSheets(workbook);
+      for (const sheet of sheets) {
+        // The byte order mark makes Excel read the file as UTF-8
+        const blob = new Blob([`\uFEFF${writeCsv(sheet, delimiter || ',', workbook.date1904)}`], { type: 'text/csv;charset=utf-8' });
+        const fileName = sheets.length === 1 ? `${baseName}.csv` : `${baseName}-${sheet.name.replace(/[\\/:*?"<>|]/g, '_')}.csv`;
+        outputFiles.push({ blob, fileName });
+      }
+    } else if (targetFormat === 'PDF') {
+      const documentModel = workbookToDocument(workbook);
+      const unicodeFonts = await loadFontsForDocument(documentModel);
+      if (signal?.aborted) return cancelledResult(file.size);
+      const pdf = renderDocumentToPdf(documentModel, { ...getWorkbookPageLayout(workbook), unicodeFonts });
+      outputFiles.push({ blob: new Blob([pdf.data], { type: 'application/pdf' }), fileName: `${baseName}.pdf` });
+      pages = pdf.pageCount;
+    } else {
+      outputFiles.push({ blob: new Blob([createXlsx(workbook)], { type: XLSX_MIME_TYPE }), fileName: `${baseName}.xlsx` });
+    }
+
+    onProgress?.({ stage: 'complete', progress: 100, message: `${label} conversion completed!` });
+
+    return {
+      success: true,
+      outputBlob: outputFiles[0].blob,
+      outputFileName: outputFiles[0].fileName,
+      outputFiles: outputFiles.length > 1 ? outputFiles : undefined,
+      originalSize: file.size,
+      convertedSize: outputFiles.reduce((total, output) => total + output.blob.size, 0),
+      pages,
+      conversionTime: Date.now() - startTime
+    };
+  } catch (error) {
+    if (signal?.aborted) return cancelledResult(file.size);
+    return {
+      success: false,
+      error: `${label} conversion failed: ${error instanceof Error ? error.message : 'Unknown error'}`,
+      originalSize: file.size
+    };
+  }
+};
+
+/**
+ * PPTX to PDF or images: each slide is rendered to a canvas and becomes a
+ * PDF page the size of the slide, or an image file of its own
+ */
+export const convertPresentation = async (
+  file: File,
+  targetFormat: 'PDF' | 'PNG' | 'JPG',
+  onProgress?: (progress: ConversionProgress) => void,
+  signal?: AbortSignal
+): Promise<ConversionResult> => {
+  const startTime = Date.now();
+
+  try {
+    onProgress?.({ stage: 'validation', progress: 10, message: 'Validating PPTX file...' });
+
+    const validationError = validateInputFile(file);
+    if (validationError) {
+      return { success: false, error: validationError, originalSize: file.size };
+    }
+
+    const integrityCheck = await validateFileIntegrity(file);
+    if (!integrityCheck.valid) {
+      return { success: false, error: integrityCheck.error || 'File integrity check failed', originalSize: file.size };
+    }
+
+    onProgress?.({ stage: 'processing', progress: 20, message: 'Reading slides...' });
+
+    const presentation = readPptx(new Uint8Array(await file.arrayBuffer()));
+    // Hidden slides are left out, as in a slide show
+    const visible = presentation.slides.filter(slide => !slide.hidden);
+    const slides = visible.length ? visible : presentation.slides;
+    if (slides.length === 0) {
+      return { success: false, error: 'This presentation does not contain any slides', originalSize: file.size };
+    }
+
+    // Slides are rendered at the PDF resolution, within the canvas size limit
+    let scale = QUALITY_SETTINGS.pdf.dpi / 72;
+    const area = presentation.width * presentation.height * scale * scale;
+    if (area > MAX_CANVAS_AREA) scale *= Math.sqrt(MAX_CANVAS_AREA / area);
+
+    // PDF pages hold JPEGs, which are embedded without re-encoding
+    const format = targetFormat === 'PNG' ? 'png' : 'jpg';
+    const mimeType = format === 'png' ? 'image/png' : 'image/jpeg';
+    const quality = format === 'jpg' ? DEFAULT_CONFIG.imageQuality : undefined;
+    const baseName = file.name.replace(/\.[^/.]+$/, '');
+    const images: Array<{ blob: Blob; fileName: string }> = [];
+
+    for (const [index, slide] of slides.entries()) {
+      if (signal?.aborted) return cancelledResult(file.size);
+      onProgress?.({
+        stage: 'processing',
+        progress: 20 + Math.round((index / slides.length) * 70),
+        message: `Rendering slide ${index + 1} of ${slides.length}...`,
+        currentPage: index + 1,
+        totalPages: slides.length
+      });
+
+      const { canvas, ctx } = createCanvas(presentation.width * scale, presentation.height * scale);
+      await renderSlide(ctx, slide, presentation.width, presentation.height, scale);
+      const blob = await canvasToBlob(canvas, mimeType, quality);
+      const fileName = slides.length === 1 ? `${baseName}.${format}` : `${baseName}-slide-${index + 1}.${format}`;
+      images.push({ blob, fileName });
+    }
+
+    onProgress?.({ stage: 'finalizing', progress: 95, message: `Creating ${targetFormat} ${targetFormat === 'PDF' ? 'file' : 'files'}...` });
+
+    let outputFiles = images;
+    if (targetFormat === 'PDF') {
+      const pages = await Promise.all(images.map(async image => ({ name: image.fileName, data: new Uint8Array(await image.blob.arrayBuffer()) })));
+      const pdf = createImagePdf(pages, { pageSize: 'fit', margin: 0, resolution: scale * 72 }, presentation.title ?? baseName);
+      outputFiles = [{ blob: new Blob([pdf.data], { type: 'application/pdf' }), fileName: `${baseName}.pdf` }];
+    }
+
+    onProgress?.({ stage: 'complete', progress: 100, message: `PPTX to ${targetFormat} conversion completed!` });
+
+    return {
+      success: true,
+      outputBlob: outputFiles[0].blob,
+      outputFileName: outputFiles[0].fileName,
+      outputFiles: outputFiles.length > 1 ? outputFiles : undefined,
+      originalSize: file.size,
+      convertedSize: outputFiles.reduce((total, output) => total + output.blob.size, 0),
+      pages: slides.length,
+      conversionTime: Date.now() - startTime
+    };
+  } catch (error) {
+    if (signal?.aborted) return cancelledResult(file.size);
+    return {
+      success: false,
+      error: `PPTX to ${targetFormat} conversion failed: ${error instanceof Error ? error.message : 'Unknown error'}`,
+      originalSize: file.size
+    };
+  }
+};
+
+/**
+ * JPG/PNG to PDF; several images are combined into one PDF, one page each
+ */
+export const convertImagesToPDF = async (
+  files: File[],
+  options: Partial<ImagePdfOptions> = {},
+  onProgress?: (progress: ConversionProgress) => void,
+  signal?: AbortSignal
+): Promise<ConversionResult> => {
+  const startTime = Date.now();
+  const originalSize = files.reduce((total, file) => total + file.size, 0);
+
+  try {
+    onProgress?.({ stage: 'validation', progress: 10, message: 'Validating images...' });
+
+    for (const file of files) {
+      const validationError = validateInputFile(file);
+      if (validationError) {
+        return { success: false, error: `${file.name}: ${validationError}`, originalSize };
+      }
+      const integrityCheck = await validateFileIntegrity(file);
+      if (!integrityCheck.valid) {
+        return { success: false, error: `${file.name}: ${integrityCheck.error || 'File integrity check failed'}`, originalSize };
+      }
+    }
+
+    const images: Array<{ name: string; data: Uint8Array }> = [];
+    for (let index = 0; index < files.length; index++) {
+      if (signal?.aborted) return cancelledResult(originalSize);
+      onProgress?.({
+        stage: 'processing',
+        progress: 20 + Math.round((index / files.length) * 50),
+        message: `Reading image ${index + 1} of ${files.length}...`,
+        currentPage: index + 1,
+        totalPages: files.length
+      });
+      images.push({ name: files[index].name, data: new Uint8Array(await files[index].arrayBuffer()) });
+    }
+
+    if (signal?.aborted) return cancelledResult(originalSize);
+    onProgress?.({ stage: 'finalizing', progress: 80, message: 'Creating PDF document...' });
+
+    const baseName = files[0].name.replace(/\.[^/.]+$/, '');
+    const pdf = createImagePdf(images, options, baseName);
+    const blob = new Blob([pdf.data], { type: 'application/pdf' });
+    const outputFileName = files.length > 1 ? `${baseName}-combined.pdf` : `${baseName}.pdf`;
+
+    onProgress?.({ stage: 'complete', progress: 100, message: 'Image to PDF conversion completed!' });
+
+    return {
+      success: true,
+      outputBlob: blob,
+      outputFileName,
+      originalSize,
+      convertedSize: blob.size,
+      pages: pdf.pageCount,
+      conversionTime: Date.now() - startTime
+    };
+  } catch (error) {
+    if (signal?.aborted) return cancelledResult(originalSize);
+    return {
+      success: false,
+      error: `Image to PDF conversion failed: ${error instanceof Error ? error.message : 'Unknown error'}`,
+      originalSize
+    };
+  }
+};
+
+/**
+ * Main conversion router: runs the registered converter for the format pair,
+ * or a chain of converters when there is no direct one
  */
 export const convertFile = async (
   file: File,
   fromFormat: string,
   toFormat: string,
-  onProgress?: (progress: ConversionProgress) => void
+  onProgress?: (progress: ConversionProgress) => void,
+  options: ConverterOptions = {},
+  signal?: AbortSignal
 ): Promise<ConversionResult> => {
   try {
     onProgress?.({ stage: 'validation', progress: 5, message: 'Initializing conversion...' });
@@ -675,33 +978,20 @@ export const convertFile = async (
       return { success: false, error: validationError, originalSize: file.size };
     }
 
-    // Route to appropriate converter
-    const fileExtension = file.name.split('.').pop()?.toLowerCase();
-    const conversionKey = `${fromFormat.toLowerCase()}-${toFormat.toLowerCase()}`;
-
-    switch (conversionKey) {
-      case 'pdf-jpg':
-      case 'pdf-png':
-        return await convertPDFToImage(file, toFormat, onProgress);
-      
-      case 'pdf-docx':
-        return await convertPDFToDocx(file, onProgress);
-      
-      case 'docx-pdf':
-        return await convertDocxToPDF(file, onProgress);
-      
-      case 'jpg-png':
-      case 'png-jpg':
-        return await convertImage(file, toFormat, onProgress);
-      
-      default:
-        return {
-          success: false,
-          error: `Conversion from ${fromFormat} to ${toFormat} is not supported. Supported conversions: PDF→JPG/PNG/DOCX, DOCX→PDF, JPG↔PNG`,
-          originalSize: file.size
-        };
+    const route = planConversion(fromFormat, toFormat);
+    if (!route) {
+      const supported = Object.entries(getConversionMatrix())
+        .map(([source, targets]) => `${source}→${targets.join('/')}`)
+        .join(', ');
+      return {
+        success: false,
+        error: `Conversion from ${fromFormat} to ${toFormat} is not supported. Supported conversions: ${supported}`,
+        originalSize: file.size
+      };
     }
 
+    return await runConversionRoute(route, [file], options, onProgress, signal);
+
   } catch (error) {
     return { 
       success: false, 
@@ -713,18 +1003,25 @@ export const convertFile = async (
 
 /**
  * Enhanced download function with security and cleanup
+ * A result with several output files is downloaded as one ZIP.
  */
-export const downloadConvertedFile = (result: ConversionResult): void => {
+export const downloadConvertedFile = async (result: ConversionResult): Promise<void> => {
   if (!result.success || !result.outputBlob || !result.outputFileName) {
     console.error('Cannot download: Invalid conversion result');
     return;
   }
 
   try {
-    const url = URL.createObjectURL(result.outputBlob);
+    const bundle = result.outputFiles && result.outputFiles.length > 1;
+    const blob = bundle
+      ? await createResultsArchive([{ name: result.outputFileName, files: result.outputFiles ?? [] }])
+      : result.outputBlob;
+    const fileName = bundle ? result.outputFileName.replace(/(-(page|slide)-\d+)?\.[^/.]+$/, '.zip') : result.outputFileName;
+
+    const url = URL.createObjectURL(blob);
     const link = document.createElement('a');
     link.href = url;
-    link.download = result.outputFileName;
+    link.download = fileName;
     link.style.display = 'none';
     
     // Add security attributes
@@ -739,7 +1036,7 @@ export const downloadConvertedFile = (result: ConversionResult): void => {
       URL.revokeObjectURL(url);
     }, 1000);
     
-    console.log(`✅ Download initiated: ${result.outputFileName} (${(result.convertedSize || 0 / 1024 / 1024).toFixed(2)} MB)`);
+    console.log(`✅ Download initiated: ${fileName} (${(result.convertedSize || 0 / 1024 / 1024).toFixed(2)} MB)`);
     
   } catch (error) {
     console.error('Download failed:', error);
@@ -749,82 +1046,75 @@ export const downloadConvertedFile = (result: ConversionResult): void => {
 
 /**
  * Batch conversion with progress tracking
+ * Files run through a job queue, several at a time; results keep the order
+ * of `files`.
  */
 export const convertMultipleFiles = async (
   files: File[],
   conversions: Array<{ fromFormat: string; toFormat: string }>,
   onProgress?: (fileIndex: number, progress: ConversionProgress) => void,
-  onComplete?: (results: ConversionResult[]) => void
+  onComplete?: (results: ConversionResult[]) => void,
+  signal?: AbortSignal,
+  queueOptions: Partial<ConversionQueueOptions> = {}
 ): Promise<ConversionResult[]> => {
-  const results: ConversionResult[] = [];
-  
-  for (let i = 0; i < files.length; i++) {
-    const file = files[i];
+  const queue = createConversionQueue(queueOptions);
+  signal?.addEventListener('abort', () => queue.cancelAll(), { once: true });
+
+  const results = await Promise.all(files.map((file, i) => {
     const conversion = conversions[i] || conversions[0];
-    
-    try {
-      const result = await convertFile(
-        file,
-        conversion.fromFormat,
-        conversion.toFormat,
-        (progress) => onProgress?.(i, progress)
-      );
-      
-      results.push(result);
-    } catch (error) {
-      results.push({
-        success: false,
-        error: `Failed to convert ${file.name}: ${error instanceof Error ? error.message : 'Unknown error'}`,
-        originalSize: file.size
-      });
-    }
-  }
+
+    // Files not yet started when the batch is cancelled are reported as cancelled too
+    if (signal?.aborted) return cancelledResult(file.size);
+
+    return queue.add({
+      id: String(i),
+      size: file.size,
+      run: async (jobSignal) => {
+        try {
+          return await convertFile(
+            file,
+            conversion.fromFormat,
+            conversion.toFormat,
+            (progress) => onProgress?.(i, progress),
+            {},
+            jobSignal
+          );
+        } catch (error) {
+          return {
+            success: false,
+            error: `Failed to convert ${file.name}: ${error instanceof Error ? error.message : 'Unknown error'}`,
+            originalSize: file.size
+          };
+        }
+      }
+    });
+  }));
   
   onComplete?.(results);
   return results;
 };
 
 /**
- * File format detection utility
+ * Detect the format of a file from its content. Text and other content that
+ * says little falls back to the name and MIME type; `warning` is set when a
+ * confident detection contradicts the extension (e.g. a PNG saved as .jpg).
  */
-export const detectFileFormat = (file: File): string => {
-  const extension = file.name.split('.').pop()?.toLowerCase();
-  const mimeType = file.type;
-  
-  // Priority: MIME type first, then extension
-  if (mimeType === 'application/pdf') return 'PDF';
-  if (mimeType === 'application/vnd.openxmlformats-officedocument.wordprocessingml.document') return 'DOCX';
-  if (mimeType === 'image/jpeg') return 'JPG';
-  if (mimeType === 'image/png') return 'PNG';
-  
-  // Fallback to extension
-  switch (extension) {
-    case 'pdf': return 'PDF';
-    case 'docx': return 'DOCX';
-    case 'jpg':
-    case 'jpeg': return 'JPG';
-    case 'png': return 'PNG';
-    default: return 'UNKNOWN';
+export const detectFileFormat = async (file: File): Promise<DetectedFormat> => {
+  const detection = await sniffFileFormat(file);
+  if (detection.format && detection.confidence >= CONFIDENT_DETECTION) {
+    return { format: detection.format, confidence: detection.confidence, warning: getExtensionMismatch(file.name, detection) ?? undefined };
   }
+  const named = getFileFormat(file)?.id;
+  if (named) return { format: named, confidence: Math.max(detection.confidence, 0.3) };
+  return { format: detection.format ?? 'UNKNOWN', confidence: detection.confidence };
 };
 
 /**
  * Get supported conversion targets for a given source format
  */
 export const getSupportedConversions = (sourceFormat: string): string[] => {
-  const format = sourceFormat.toLowerCase();
-  
-  switch (format) {
-    case 'pdf':
-      return ['JPG', 'PNG', 'DOCX'];
-    case 'docx':
-      return ['PDF'];
-    case 'jpg':
-    case 'jpeg':
-      return ['PNG'];
-    case 'png':
-      return ['JPG'];
-    default:
-      return [];
-  }
-};
\ No newline at end of file
+  const format = getInputFormats().find(
+    candidate => candidate.id === sourceFormat.toUpperCase() || candidate.extensions.includes(sourceFormat.toLowerCase())
+  );
+  return format ? getConversionMatrix()[format.id] ?? [] : [];
+};
@@ -0,0 +1,151 @@
+/**
+ * Fonts for text the standard PDF fonts cannot show
+ * Installed fonts are read through the Local Font Access API where the
+ * browser offers it; fonts served with the app are the fallback.
+ */
+
+import { DocumentBlock, DocumentModel } from '../types/documentModel';
+import { hasGlyph } from './pdfEmbeddedFont';
+import { isWinAnsiEncodable } from './pdfFontMetrics';
+import { isEmbeddingAllowed, parseTrueType, TrueTypeFont } from './trueTypeFont';
+
+// Installed families tried after the document's own, broadest coverage first
+const PREFERRED_FAMILIES = [
+  'Arial',
+  'Segoe UI',
+  'Noto Sans',
+  'DejaVu Sans',
+  'Tahoma',
+  'Arial Unicode MS',
+  'Noto Sans Arabic',
+  'Noto Sans Hebrew',
+  'Microsoft YaHei',
+  'SimSun',
+  'MS Gothic',
+  'Malgun Gothic',
+  'Noto Sans CJK SC',
+];
+
+// Noto fonts served from public/fonts (SIL Open Font License); the large CJK face comes last
+export const FALLBACK_FONT_URLS: Array<{ regular: string; bold?: string }> = [
+  { regular: '/fonts/NotoSans-Regular.ttf', bold: '/fonts/NotoSans-Bold.ttf' },
+  { regular: '/fonts/NotoSansArabic-Regular.ttf', bold: '/fonts/NotoSansArabic-Bold.ttf' },
+  { regular: '/fonts/NotoSansHebrew-Regular.ttf', bold: '/fonts/NotoSansHebrew-Bold.ttf' },
+  { regular: '/fonts/NotoSansSC-Regular.ttf' },
+];
+
+const MAX_FONTS = 8;
+
+// Local Font Access API (not yet in the DOM typings)
+interface LocalFontData {
+  family: string;
+  style: string;
+  blob: () => Promise<Blob>;
+}
+
+type QueryLocalFonts = () => Promise<LocalFontData[]>;
+
+const collectText = (blocks: DocumentBlock[], characters: Set<string>, families: Set<string>) => {
+  for (const block of blocks) {
+    if (block.type === 'table') {
+      for (const row of block.rows) {
+        for (const cell of row.cells) collectText(cell.blocks, characters, families);
+      }
+      continue;
+    }
+    for (const run of block.runs) {
+      if (run.type !== 'text') continue;
+      if (run.style.fontFamily) families.add(run.style.fontFamily);
+      for (const char of run.text) {
+        if (!/\s/.test(char) && !isWinAnsiEncodable(char)) characters.add(char);
+      }
+    }
+  }
+};
+
+const parseFont = (data: Uint8Array): TrueTypeFont | null => {
+  try {
+    const font = parseTrueType(data);
+    return isEmbeddingAllowed(font) ? font : null;
+  } catch {
+    // CFF-flavoured OpenType and damaged files cannot be embedded
+    return null;
+  }
+};
+
+const queryInstalledFonts = async (): Promise<LocalFontData[]> => {
+  // Only available on the main thread after a user gesture; workers use the fonts in public/fonts
+  const scope = globalThis as unknown as { queryLocalFonts?: QueryLocalFonts };
+  if (!scope.queryLocalFonts) return [];
+  try {
+    return await scope.queryLocalFonts();
+  } catch {
+    // Permission denied or no user activation
+    return [];
+  }
+};
+
+const readInstalledFont = async (data: LocalFontData): Promise<TrueTypeFont | null> => {
+  try {
+    return parseFont(new Uint8Array(await (await data.blob()).arrayBuffer()));
+  } catch {
+    return null;
+  }
+};
+
+const fetchFont = async (url: string): Promise<TrueTypeFont | null> => {
+  try {
+    const response = await fetch(url);
+    if (!response.ok) return null;
+    return parseFont(new Uint8Array(await response.arrayBuffer()));
+  } catch {
+    return null;
+  }
+};
+
+/**
+ * Find fonts covering the characters of a document that WinAnsiEncoding
+ * lacks, in the order the layout should try them. A family's bold face
+ * is included along with its regular face when one is available.
+ */
+export const loadFontsForDocument = async (model: DocumentModel): Promise<TrueTypeFont[]> => {
+  const missing = new Set<string>();
+  const documentFamilies = new Set<string>();
+  collectText(model.blocks, missing, documentFamilies);
+  if (!missing.size) return [];
+
+  const fonts: TrueTypeFont[] = [];
+  const addIfNeeded = (font: TrueTypeFont | null): boolean => {
+    if (!font) return false;
+    const covered = Array.from(missing).filter(char => hasGlyph(font, char));
+    if (!covered.length) return false;
+    fonts.push(font);
+    covered.forEach(char => missing.delete(char));
+    return true;
+  };
+
+  const installed = await queryInstalledFonts();
+  const byFamily = new Map<string, LocalFontData[]>();
+  for (const data of installed) byFamily.set(data.family, [...(byFamily.get(data.family) ?? []), data]);
+
+  for (const family of [...documentFamilies, ...PREFERRED_FAMILIES]) {
+    if (!missing.size || fonts.length >= MAX_FONTS) break;
+    const faces = byFamily.get(family);
+    const regular = faces?.find(face => /^(regular|normal|book|roman)$/i.test(face.style)) ?? faces?.[0];
+    if (!faces || !regular) continue;
+    byFamily.delete(family);
+    if (!addIfNeeded(await readInstalledFont(regular))) continue;
+    const bold = faces.find(face => /^bold$/i.test(face.style));
+    const boldFont = bold ? await readInstalledFont(bold) : null;
+    if (boldFont) fonts.push(boldFont);
+  }
+
+  for (const { regular, bold } of FALLBACK_FONT_URLS) {
+    if (!missing.size || fonts.length >= MAX_FONTS) break;
+    if (!addIfNeeded(await fetchFont(regular)) || !bold) continue;
+    const boldFont = await fetchFont(bold);
+    if (boldFont) fonts.push(boldFont);
+  }
+
+  return fonts;
+};
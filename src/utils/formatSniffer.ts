@@ -0,0 +1,211 @@
+/**
+ * Content-based format detection
+ * Identifies a file from its bytes rather than its name or MIME type. ZIP
+ * containers are told apart by the parts listed in their central directory
+ * (word/document.xml for DOCX) or by their leading "mimetype" entry (ODF, EPUB).
+ */
+
+export interface FormatDetection {
+  // Format id, e.g. "PNG"; null when the content is not recognised
+  format: string | null;
+  // From 0 (nothing to go on) to 1 (signature and structure both check out)
+  confidence: number;
+}
+
+// Below this a detection is a guess, e.g. text that could be any text format
+export const CONFIDENT_DETECTION = 0.7;
+
+// Extensions each detectable format is saved with
+const FORMAT_EXTENSIONS: Record<string, string[]> = {
+  PNG: ['png'],
+  JPG: ['jpg', 'jpeg', 'jpe', 'jfif'],
+  GIF: ['gif'],
+  WEBP: ['webp'],
+  BMP: ['bmp', 'dib'],
+  TIFF: ['tif', 'tiff'],
+  PDF: ['pdf'],
+  RTF: ['rtf'],
+  HTML: ['html', 'htm', 'xhtml'],
+  ZIP: ['zip'],
+  DOCX: ['docx', 'docm', 'dotx'],
+  XLSX: ['xlsx', 'xlsm', 'xltx'],
+  PPTX: ['pptx', 'pptm', 'potx'],
+  ODT: ['odt'],
+  ODS: ['ods'],
+  ODP: ['odp'],
+  EPUB: ['epub'],
+};
+
+// Formats that always start with a signature; content without one is damaged or something else
+const SIGNATURE_FORMATS = new Set(Object.keys(FORMAT_EXTENSIONS).filter(format => format !== 'HTML'));
+
+// OOXML packages by their main part
+const OOXML_PARTS: Array<[string, string]> = [
+  ['DOCX', 'word/document.xml'],
+  ['XLSX', 'xl/workbook.xml'],
+  ['PPTX', 'ppt/presentation.xml'],
+];
+
+// ODF and EPUB store their MIME type uncompressed as the first entry
+const CONTAINER_MIME_TYPES: Record<string, string> = {
+  'application/vnd.oasis.opendocument.text': 'ODT',
+  'application/vnd.oasis.opendocument.spreadsheet': 'ODS',
+  'application/vnd.oasis.opendocument.presentation': 'ODP',
+  'application/epub+zip': 'EPUB',
+};
+
+const HEAD_SIZE = 8192;
+// The end of central directory record is at most 22 bytes plus a 64KB comment from the end
+const ZIP_TAIL_SIZE = 22 + 65535;
+const MAX_DIRECTORY_SIZE = 16 * 1024 * 1024;
+
+const latin1Decoder = new TextDecoder('latin1');
+const utf8Decoder = new TextDecoder('utf-8');
+
+const matches = (bytes: Uint8Array, signature: string | number[], offset = 0): boolean => {
+  const expected = typeof signature === 'string' ? Array.from(signature, char => char.charCodeAt(0)) : signature;
+  return bytes.length >= offset + expected.length && expected.every((byte, index) => bytes[offset + index] === byte);
+};
+
+const readBytes = async (file: Blob, start: number, end: number): Promise<Uint8Array> =>
+  new Uint8Array(await file.slice(start, end).arrayBuffer());
+
+/**
+ * Names of the entries in a ZIP's central directory, or null when it cannot be found
+ */
+const readZipEntryNames = async (file: Blob): Promise<string[] | null> => {
+  const tailStart = Math.max(0, file.size - ZIP_TAIL_SIZE);
+  const tail = await readBytes(file, tailStart, file.size);
+  const view = new DataView(tail.buffer, tail.byteOffset, tail.byteLength);
+
+  for (let offset = tail.length - 22; offset >= 0; offset--) {
+    if (view.getUint32(offset, true) !== 0x06054b50) continue;
+    const directorySize = view.getUint32(offset + 12, true);
+    const directoryOffset = view.getUint32(offset + 16, true);
+    // ZIP64 archives and directories running past the end are not followed
+    if (directorySize > MAX_DIRECTORY_SIZE || directoryOffset + directorySize > tailStart + offset) return null;
+
+    const directory = await readBytes(file, directoryOffset, directoryOffset + directorySize);
+    const directoryView = new DataView(directory.buffer, directory.byteOffset, directory.byteLength);
+    const names: string[] = [];
+    let pos = 0;
+    while (pos + 46 <= directory.length && directoryView.getUint32(pos, true) === 0x02014b50) {
+      const nameLength = directoryView.getUint16(pos + 28, true);
+      const extraLength = directoryView.getUint16(pos + 30, true);
+      const commentLength = directoryView.getUint16(pos + 32, true);
+      names.push(utf8Decoder.decode(directory.subarray(pos + 46, pos + 46 + nameLength)).replace(/^\/+/, '').toLowerCase());
+      pos += 46 + nameLength + extraLength + commentLength;
+    }
+    return names;
+  }
+  return null;
+};
+
+/**
+ * Content of a stored "mimetype" entry at the start of the archive
+ */
+const readLeadingMimeType = (head: Uint8Array): string | null => {
+  if (head.length < 30) return null;
+  const view = new DataView(head.buffer, head.byteOffset, head.byteLength);
+  const method = view.getUint16(8, true);
+  const size = view.getUint32(18, true);
+  const nameLength = view.getUint16(26, true);
+  const extraLength = view.getUint16(28, true);
+  const start = 30 + nameLength + extraLength;
+  if (method !== 0 || size > 256 || start + size > head.length) return null;
+  if (latin1Decoder.decode(head.subarray(30, 30 + nameLength)) !== 'mimetype') return null;
+  return latin1Decoder.decode(head.subarray(start, start + size)).trim();
+};
+
+const detectZipContainer = async (file: Blob, head: Uint8Array): Promise<FormatDetection> => {
+  const mimeType = readLeadingMimeType(head);
+  if (mimeType && CONTAINER_MIME_TYPES[mimeType]) return { format: CONTAINER_MIME_TYPES[mimeType], confidence: 1 };
+
+  const names = await readZipEntryNames(file);
+  // A local header without a central directory: truncated or damaged
+  if (!names) return { format: 'ZIP', confidence: 0.4 };
+
+  const entries = new Set(names);
+  const hasContentTypes = entries.has('[content_types].xml');
+  for (const [format, part] of OOXML_PARTS) {
+    if (entries.has(part)) return { format, confidence: hasContentTypes ? 1 : 0.8 };
+  }
+  if (entries.has('meta-inf/container.xml') && names.some(name => name.endsWith('.opf'))) {
+    return { format: 'EPUB', confidence: 0.8 };
+  }
+  return { format: 'ZIP', confidence: 0.9 };
+};
+
+// Control characters other than tab, line breaks, form feed and escape
+const isControlByte = (byte: number): boolean =>
+  byte < 0x20 && byte !== 0x09 && byte !== 0x0a && byte !== 0x0c && byte !== 0x0d && byte !== 0x1b;
+
+/**
+ * Plain text: valid UTF-8 (or UTF-16 with a byte order mark) without control characters
+ */
+const detectText = (head: Uint8Array, truncated: boolean): FormatDetection => {
+  if (matches(head, [0xff, 0xfe]) || matches(head, [0xfe, 0xff])) return { format: 'TXT', confidence: 0.6 };
+
+  // A multi-byte character may be cut off at the end of the sample
+  const sample = truncated ? head.subarray(0, head.length - 3) : head;
+  let text: string;
+  try {
+    text = new TextDecoder('utf-8', { fatal: true }).decode(sample);
+  } catch {
+    return { format: null, confidence: 0 };
+  }
+  if (sample.some(isControlByte)) return { format: null, confidence: 0 };
+
+  const start = text.replace(/^\uFEFF/, '').trimStart().slice(0, 256).toLowerCase();
+  if (start.startsWith('<!doctype html') || start.startsWith('<html')) return { format: 'HTML', confidence: 0.8 };
+  // Extensions tell text formats (CSV, Markdown, ...) apart better than the content
+  return { format: 'TXT', confidence: 0.3 };
+};
+
+/**
+ * Detect the format of a file from its content alone
+ */
+export const sniffFileFormat = async (file: Blob): Promise<FormatDetection> => {
+  const head = await readBytes(file, 0, HEAD_SIZE);
+  if (head.length === 0) return { format: null, confidence: 0 };
+
+  if (matches(head, [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a])) {
+    return { format: 'PNG', confidence: matches(head, 'IHDR', 12) ? 1 : 0.8 };
+  }
+  if (matches(head, [0xff, 0xd8, 0xff])) return { format: 'JPG', confidence: head[3] >= 0xc0 ? 1 : 0.8 };
+  if (matches(head, 'GIF87a') || matches(head, 'GIF89a')) return { format: 'GIF', confidence: 1 };
+  if (matches(head, 'RIFF') && matches(head, 'WEBP', 8)) return { format: 'WEBP', confidence: 1 };
+  if (matches(head, 'II*\0') || matches(head, 'MM\0*')) return { format: 'TIFF', confidence: 0.9 };
+  if (matches(head, 'BM') && head.length >= 14 && head[6] === 0 && head[7] === 0 && head[8] === 0 && head[9] === 0) {
+    return { format: 'BMP', confidence: 0.8 };
+  }
+  if (matches(head, '%PDF-')) return { format: 'PDF', confidence: 1 };
+  if (matches(head, '{\\rtf')) return { format: 'RTF', confidence: 1 };
+  if (matches(head, [0x50, 0x4b, 0x03, 0x04]) || matches(head, [0x50, 0x4b, 0x05, 0x06])) {
+    return detectZipContainer(file, head);
+  }
+
+  // Readers accept PDFs with a little junk before the header
+  const pdfOffset = latin1Decoder.decode(head.subarray(0, 1024)).indexOf('%PDF-');
+  if (pdfOffset > 0) return { format: 'PDF', confidence: 0.8 };
+
+  return detectText(head, file.size > head.length);
+};
+
+/**
+ * Whether content claiming to be `format` must start with a recognisable signature
+ */
+export const hasSignature = (format: string): boolean => SIGNATURE_FORMATS.has(format);
+
+/**
+ * A warning when a confident detection contradicts the file's extension
+ */
+export const getExtensionMismatch = (fileName: string, detection: FormatDetection): string | null => {
+  if (!detection.format || detection.confidence < CONFIDENT_DETECTION) return null;
+  const extension = fileName.includes('.') ? fileName.split('.').pop()?.toLowerCase() ?? '' : '';
+  const expected = FORMAT_EXTENSIONS[detection.format] ?? [detection.format.toLowerCase()];
+  if (expected.includes(extension)) return null;
+  return extension
+    ? `${fileName} has a .${extension} extension but contains ${detection.format} data`
+    : `${fileName} has no extension but contains ${detection.format} data`;
+};
@@ -0,0 +1,1054 @@
+/**
+ * HTML reader
+ * Parses HTML leniently, the way browsers recover from unclosed tags, and
+ * turns its block and inline flow into a DocumentModel. A subset of CSS is
+ * applied from <style> elements and style attributes: fonts, colours, margins,
+ * alignment and page breaks. Only images embedded as data URIs are shown;
+ * nothing is fetched.
+ */
+
+import {
+  DocumentBlock,
+  DocumentModel,
+  DocumentRun,
+  ImageRun,
+  ListInfo,
+  ParagraphAlignment,
+  RunStyle,
+  TableCell,
+  TableRow,
+} from '../types/documentModel';
+import { createPdfImageSource } from './pdfImageEncoder';
+import { decodeText } from './textReader';
+import { XmlElement, XmlNode } from './xmlUtils';
+
+type CssDeclaration = [property: string, value: string];
+
+interface CompoundSelector {
+  tag?: string;
+  id?: string;
+  classes: string[];
+}
+
+interface SelectorPart {
+  compound: CompoundSelector;
+  // How this part relates to the one before it
+  combinator?: 'descendant' | 'child';
+}
+
+interface CssRule {
+  selector: SelectorPart[];
+  specificity: number;
+  order: number;
+  declarations: CssDeclaration[];
+}
+
+interface ComputedStyle {
+  // Inherited
+  run: RunStyle & { fontSize: number };
+  alignment?: ParagraphAlignment;
+  direction?: 'ltr' | 'rtl';
+  textIndent?: number;
+  lineSpacing?: number;
+  preserveWhitespace: boolean;
+  listStyle?: string;
+  // Not inherited; lengths in points
+  display: 'block' | 'inline' | 'none';
+  marginTop: number;
+  marginBottom: number;
+  marginLeft: number;
+  pageBreakBefore: boolean;
+  pageBreakAfter: boolean;
+  width?: number;
+  height?: number;
+}
+
+// Where content is placed: indentation, list nesting and the enclosing link
+interface FlowScope {
+  block: ComputedStyle;
+  indent: number;
+  listLevel: number;
+  // Indent of the outermost list's container; list levels are indented from it
+  listBase: number;
+  list?: { listId: string };
+  headingLevel?: number;
+  link?: string;
+}
+
+// Blocks being built for the document body or a table cell
+interface Flow {
+  blocks: DocumentBlock[];
+  runs: DocumentRun[];
+  paragraph: { scope: FlowScope; spaceBefore: number; list?: ListInfo } | null;
+  // Vertical margins between blocks collapse into the largest one
+  pendingSpace: number;
+  pendingPageBreak: boolean;
+  pendingList?: ListInfo;
+  trailingSpace: boolean;
+}
+
+interface ReaderContext {
+  rules: CssRule[];
+  listCount: number;
+}
+
+const VOID_ELEMENTS = new Set(['area', 'base', 'br', 'col', 'embed', 'hr', 'img', 'input', 'link', 'meta', 'param', 'source', 'track', 'wbr']);
+const RAW_TEXT_ELEMENTS = new Set(['script', 'style', 'title', 'textarea', 'xmp']);
+
+const BLOCK_ELEMENTS = new Set([
+  'html', 'body', 'address', 'article', 'aside', 'blockquote', 'caption', 'center', 'dd', 'details', 'dialog', 'div',
+  'dl', 'dt', 'fieldset', 'figcaption', 'figure', 'footer', 'form', 'h1', 'h2', 'h3', 'h4', 'h5', 'h6', 'header',
+  'hgroup', 'hr', 'legend', 'li', 'main', 'nav', 'ol', 'p', 'pre', 'section', 'summary', 'table', 'ul',
+]);
+
+// Opening one of these closes an open <p>
+const CLOSES_PARAGRAPH = new Set([...BLOCK_ELEMENTS].filter(name => !['html', 'body', 'caption', 'li', 'dd', 'dt'].includes(name)));
+
+// Elements an opening tag implicitly closes, searched no further than the boundaries
+const IMPLIED_ENDS: Record<string, { closes: string[]; boundaries: string[] }> = {
+  p: { closes: ['p'], boundaries: ['table', 'td', 'th', 'caption', 'button'] },
+  li: { closes: ['li'], boundaries: ['ul', 'ol', 'table'] },
+  dt: { closes: ['dt', 'dd'], boundaries: ['dl', 'table'] },
+  dd: { closes: ['dt', 'dd'], boundaries: ['dl', 'table'] },
+  tr: { closes: ['tr'], boundaries: ['table', 'thead', 'tbody', 'tfoot'] },
+  td: { closes: ['td', 'th'], boundaries: ['tr', 'table'] },
+  th: { closes: ['td', 'th'], boundaries: ['tr', 'table'] },
+  thead: { closes: ['thead', 'tbody', 'tfoot'], boundaries: ['table'] },
+  tbody: { closes: ['thead', 'tbody', 'tfoot'], boundaries: ['table'] },
+  tfoot: { closes: ['thead', 'tbody', 'tfoot'], boundaries: ['table'] },
+  option: { closes: ['option'], boundaries: ['select'] },
+};
+
+// Browser defaults for the elements the reader knows
+const DEFAULT_STYLESHEET = `
+  head, script, style, title, template, noscript, meta, link, input, select, svg, canvas, iframe, object, video, audio { display: none }
+  h1 { font-size: 2em; font-weight: bold; margin: 0.67em 0 }
+  h2 { font-size: 1.5em; font-weight: bold; margin: 0.83em 0 }
+  h3 { font-size: 1.17em; font-weight: bold; margin: 1em 0 }
+  h4 { font-weight: bold; margin: 1.33em 0 }
+  h5 { font-size: 0.83em; font-weight: bold; margin: 1.67em 0 }
+  h6 { font-size: 0.67em; font-weight: bold; margin: 2.33em 0 }
+  p, ul, ol, dl, pre { margin: 1em 0 }
+  li ul, li ol { margin: 0 }
+  blockquote, figure { margin: 1em 40px }
+  dd { margin-left: 40px }
+  b, strong, th, dt { font-weight: bold }
+  i, em, cite, var, dfn, address { font-style: italic }
+  u, ins { text-decoration: underline }
+  s, strike, del { text-decoration: line-through }
+  code, kbd, samp, tt, pre { font-family: monospace }
+  pre { white-space: pre }
+  ul { list-style-type: disc }
+  ol { list-style-type: decimal }
+  center, th, caption { text-align: center }
+  sup { vertical-align: super }
+  sub { vertical-align: sub }
+  small { font-size: smaller }
+  big { font-size: larger }
+  mark { background-color: yellow }
+`;
+
+// 16px, the browser default
+const ROOT_FONT_SIZE = 12;
+const PX_TO_PT = 0.75;
+// Matches the list indentation of the PDF layout
+const LIST_INDENT = 18;
+// CSS "normal" line height, which the PDF layout also uses
+const NORMAL_LINE_HEIGHT = 1.2;
+
+const FONT_SIZE_KEYWORDS: Record<string, number> = {
+  'xx-small': 9, 'x-small': 10, small: 13, medium: 16, large: 18, 'x-large': 24, 'xx-large': 32, 'xxx-large': 48,
+};
+
+// <font size="1"> to <font size="7">, in pixels
+const FONT_ELEMENT_SIZES = [10, 13, 16, 18, 24, 32, 48];
+
+const NAMED_COLORS: Record<string, string> = {
+  black: '000000', white: 'FFFFFF', red: 'FF0000', green: '008000', blue: '0000FF', yellow: 'FFFF00',
+  gray: '808080', grey: '808080', silver: 'C0C0C0', maroon: '800000', navy: '000080', purple: '800080',
+  teal: '008080', olive: '808000', lime: '00FF00', aqua: '00FFFF', cyan: '00FFFF', fuchsia: 'FF00FF',
+  magenta: 'FF00FF', orange: 'FFA500', darkgray: 'A9A9A9', darkgrey: 'A9A9A9', lightgray: 'D3D3D3',
+  lightgrey: 'D3D3D3', darkred: '8B0000', darkgreen: '006400', darkblue: '00008B', brown: 'A52A2A',
+};
+
+const GENERIC_FONT_FAMILIES: Record<string, string | undefined> = {
+  monospace: 'Courier New',
+  serif: 'Times New Roman',
+  'sans-serif': 'Arial',
+  'system-ui': undefined,
+};
+
+const TEXT_ALIGNMENTS: Record<string, ParagraphAlignment> = {
+  left: 'left', start: 'left', center: 'center', middle: 'center', right: 'right', end: 'right', justify: 'justify',
+};
+
+const LIST_STYLE_FORMATS: Record<string, string> = {
+  decimal: 'decimal',
+  'lower-alpha': 'lowerLetter',
+  'lower-latin': 'lowerLetter',
+  'upper-alpha': 'upperLetter',
+  'upper-latin': 'upperLetter',
+  'lower-roman': 'lowerRoman',
+  'upper-roman': 'upperRoman',
+  a: 'lowerLetter',
+  A: 'upperLetter',
+  i: 'lowerRoman',
+  I: 'upperRoman',
+  1: 'decimal',
+};
+
+const HTML_ENTITIES: Record<string, string> = {
+  amp: '&', lt: '<', gt: '>', quot: '"', apos: "'", nbsp: '\u00a0', copy: '©', reg: '®', trade: '™',
+  hellip: '…', mdash: '—', ndash: '–', lsquo: '‘', rsquo: '’', ldquo: '“', rdquo: '”', bull: '•',
+  middot: '·', times: '×', divide: '÷', deg: '°', euro: '€', pound: '£', yen: '¥', cent: '¢', sect: '§',
+  para: '¶', laquo: '«', raquo: '»', larr: '←', rarr: '→', uarr: '↑', darr: '↓', shy: '\u00ad',
+  ensp: '\u2002', emsp: '\u2003', thinsp: '\u2009', zwnj: '\u200c', zwj: '\u200d',
+};
+
+/**
+ * Character for an entity name ("amp", "#38", "#x26"), or null when it is unknown
+ */
+export const decodeHtmlEntity = (name: string): string | null => {
+  if (name[0] !== '#') return HTML_ENTITIES[name] ?? null;
+  const code = name[1] === 'x' || name[1] === 'X' ? parseInt(name.slice(2), 16) : parseInt(name.slice(1), 10);
+  return code > 0 && code <= 0x10ffff ? String.fromCodePoint(code) : '�';
+};
+
+const decodeEntities = (text: string): string =>
+  text.indexOf('&') < 0
+    ? text
+    : text.replace(/&(#\d{1,7}|#[xX][0-9a-fA-F]{1,6}|[A-Za-z][A-Za-z0-9]{1,31});/g, (match, name: string) => decodeHtmlEntity(name) ?? match);
+
+const START_TAG = /<([A-Za-z][^\s/>]*)((?:[^>"']|"[^"]*"|'[^']*')*)>/y;
+const END_TAG = /<\/([A-Za-z][^\s/>]*)[^>]*>/y;
+
+const parseAttributes = (source: string): Record<string, string> => {
+  const attributes: Record<string, string> = {};
+  const pattern = /([^\s"'>/=]+)(?:\s*=\s*(?:"([^"]*)"|'([^']*)'|([^\s>]+)))?/g;
+  let match: RegExpExecArray | null;
+  while ((match = pattern.exec(source)) !== null) {
+    const name = match[1].toLowerCase();
+    if (!(name in attributes)) attributes[name] = decodeEntities(match[2] ?? match[3] ?? match[4] ?? '');
+  }
+  return attributes;
+};
+
+/**
+ * Parse HTML into an element tree; element names are lower case
+ */
+export const parseHtml = (source: string): XmlElement => {
+  const root: XmlElement = { name: '#document', attributes: {}, children: [] };
+  const stack: XmlElement[] = [root];
+  const current = () => stack[stack.length - 1];
+
+  const closeImplied = (name: string) => {
+    const rule = IMPLIED_ENDS[name];
+    if (!rule) return;
+    for (let index = stack.length - 1; index > 0; index--) {
+      if (rule.closes.includes(stack[index].name)) {
+        stack.length = index;
+        return;
+      }
+      if (rule.boundaries.includes(stack[index].name)) return;
+    }
+  };
+
+  let pos = 0;
+  while (pos < source.length) {
+    const tagStart = source.indexOf('<', pos);
+    if (tagStart < 0) {
+      current().children.push(decodeEntities(source.slice(pos)));
+      break;
+    }
+    if (tagStart > pos) current().children.push(decodeEntities(source.slice(pos, tagStart)));
+
+    const rest = source.slice(tagStart, tagStart + 4);
+    if (rest.startsWith('<!--')) {
+      const end = source.indexOf('-->', tagStart + 4);
+      pos = end < 0 ? source.length : end + 3;
+      continue;
+    }
+    if (rest.startsWith('<!') || rest.startsWith('<?')) {
+      const end = source.indexOf('>', tagStart);
+      pos = end < 0 ? source.length : end + 1;
+      continue;
+    }
+
+    END_TAG.lastIndex = tagStart;
+    const endTag = END_TAG.exec(source);
+    if (endTag) {
+      const name = endTag[1].toLowerCase();
+      const index = stack.map(element => element.name).lastIndexOf(name);
+      if (index > 0) stack.length = index;
+      pos = tagStart + endTag[0].length;
+      continue;
+    }
+
+    START_TAG.lastIndex = tagStart;
+    const startTag = START_TAG.exec(source);
+    if (!startTag) {
+      current().children.push('<');
+      pos = tagStart + 1;
+      continue;
+    }
+    pos = tagStart + startTag[0].length;
+
+    const name = startTag[1].toLowerCase();
+    if (CLOSES_PARAGRAPH.has(name)) closeImplied('p');
+    closeImplied(name);
+    const element: XmlElement = { name, attributes: parseAttributes(startTag[2]), children: [] };
+    current().children.push(element);
+
+    if (RAW_TEXT_ELEMENTS.has(name)) {
+      const closing = new RegExp(`</${name}`, 'gi');
+      closing.lastIndex = pos;
+      const end = closing.exec(source)?.index ?? -1;
+      const text = source.slice(pos, end < 0 ? source.length : end);
+      if (text) element.children.push(name === 'script' || name === 'style' ? text : decodeEntities(text));
+      pos = end < 0 ? source.length : source.indexOf('>', end) + 1 || source.length;
+      continue;
+    }
+    if (!VOID_ELEMENTS.has(name) && !startTag[2].trimEnd().endsWith('/')) stack.push(element);
+  }
+
+  return root;
+};
+
+/**
+ * Split a declaration block on semicolons outside parentheses and quotes
+ */
+const parseDeclarations = (text: string): CssDeclaration[] => {
+  const declarations: CssDeclaration[] = [];
+  let depth = 0;
+  let quote = '';
+  let start = 0;
+  for (let index = 0; index <= text.length; index++) {
+    const char = text[index];
+    if (quote) {
+      if (char === quote) quote = '';
+    } else if (char === '"' || char === "'") {
+      quote = char;
+    } else if (char === '(') {
+      depth++;
+    } else if (char === ')') {
+      depth = Math.max(0, depth - 1);
+    } else if ((char === ';' && depth === 0) || char === undefined) {
+      const declaration = text.slice(start, index);
+      const colon = declaration.indexOf(':');
+      if (colon > 0) {
+        const value = declaration.slice(colon + 1).replace(/!\s*important\s*$/i, '').trim();
+        declarations.push([declaration.slice(0, colon).trim().toLowerCase(), value]);
+      }
+      start = index + 1;
+    }
+  }
+  return declarations;
+};
+
+/**
+ * Selectors made of type, class and id selectors joined by descendant or
+ * child combinators; anything else (attributes, pseudo-classes) is not supported
+ */
+const parseSelector = (text: string): SelectorPart[] | null => {
+  const parts: SelectorPart[] = [];
+  let combinator: SelectorPart['combinator'] = 'descendant';
+  for (const token of text.trim().replace(/\s*>\s*/g, ' > ').split(/\s+/)) {
+    if (token === '>') {
+      combinator = 'child';
+      continue;
+    }
+    const match = /^(\*|[A-Za-z][\w-]*)?((?:[.#][\w-]+)*)$/.exec(token);
+    if (!match || !token) return null;
+    const compound: CompoundSelector = { classes: [] };
+    if (match[1] && match[1] !== '*') compound.tag = match[1].toLowerCase();
+    for (const simple of match[2].match(/[.#][\w-]+/g) ?? []) {
+      if (simple[0] === '#') compound.id = simple.slice(1);
+      else compound.classes.push(simple.slice(1));
+    }
+    parts.push(parts.length > 0 ? { compound, combinator } : { compound });
+    combinator = 'descendant';
+  }
+  return parts.length > 0 ? parts : null;
+};
+
+const getSpecificity = (selector: SelectorPart[]): number =>
+  selector.reduce((total, { compound }) => total + (compound.id ? 10000 : 0) + compound.classes.length * 100 + (compound.tag ? 1 : 0), 0);
+
+/**
+ * Index of the brace closing the block opened at `open`, or -1
+ */
+const findBlockEnd = (source: string, open: number): number => {
+  let depth = 0;
+  for (let index = open; index < source.length; index++) {
+    if (source[index] === '{') depth++;
+    else if (source[index] === '}' && --depth === 0) return index;
+  }
+  return -1;
+};
+
+const parseStylesheet = (css: string, rules: CssRule[]) => {
+  const source = css.replace(/\/\*[\s\S]*?\*\//g, '').replace(/<!--|-->/g, '');
+  let pos = 0;
+  while (pos < source.length) {
+    const open = source.indexOf('{', pos);
+    if (open < 0) break;
+    const close = findBlockEnd(source, open);
+    const end = close < 0 ? source.length : close;
+    // At-rule statements (@import, @charset) end with a semicolon rather than a block
+    const prelude = source.slice(pos, open).replace(/@[^{};]*;/g, '').trim();
+    const body = source.slice(open + 1, end);
+    pos = end + 1;
+
+    if (prelude.startsWith('@')) {
+      // Print rules apply; screen-size variants, such as mobile layouts in emails, do not
+      if (/^@media\b/i.test(prelude) && /\b(?:print|all)\b/i.test(prelude) && !/\bnot\b/i.test(prelude)) parseStylesheet(body, rules);
+      continue;
+    }
+    const declarations = parseDeclarations(body);
+    for (const selectorText of prelude.split(',')) {
+      const selector = parseSelector(selectorText);
+      if (selector) rules.push({ selector, specificity: getSpecificity(selector), order: rules.length, declarations });
+    }
+  }
+};
+
+const DEFAULT_RULES: CssRule[] = [];
+parseStylesheet(DEFAULT_STYLESHEET, DEFAULT_RULES);
+
+const matchesCompound = (element: XmlElement, compound: CompoundSelector): boolean => {
+  if (compound.tag && element.name !== compound.tag) return false;
+  if (compound.id && element.attributes.id !== compound.id) return false;
+  if (compound.classes.length === 0) return true;
+  const classes = (element.attributes.class ?? '').split(/\s+/);
+  return compound.classes.every(name => classes.includes(name));
+};
+
+/**
+ * Match selector parts up to `index` against an element; `ancestors` run from the root to its parent
+ */
+const matchesSelector = (selector: SelectorPart[], index: number, element: XmlElement, ancestors: XmlElement[]): boolean => {
+  if (!matchesCompound(element, selector[index].compound)) return false;
+  if (index === 0) return true;
+  for (let depth = ancestors.length - 1; depth >= 0; depth--) {
+    if (matchesSelector(selector, index - 1, ancestors[depth], ancestors.slice(0, depth))) return true;
+    if (selector[index].combinator === 'child') return false;
+  }
+  return false;
+};
+
+const getMatchingDeclarations = (rules: CssRule[], element: XmlElement, ancestors: XmlElement[]): CssDeclaration[] =>
+  rules
+    .filter(rule => matchesSelector(rule.selector, rule.selector.length - 1, element, ancestors))
+    .sort((a, b) => a.specificity - b.specificity || a.order - b.order)
+    .flatMap(rule => rule.declarations);
+
+/**
+ * A CSS length in points; `em` is relative to `fontSize`, percentages to `percentBase` when given
+ */
+const parseLength = (value: string, fontSize: number, percentBase?: number): number | undefined => {
+  const match = /^(-?\d*\.?\d+)(px|pt|em|rem|ex|%|in|cm|mm|pc)?$/i.exec(value.trim());
+  if (!match) return undefined;
+  const number = parseFloat(match[1]);
+  switch (match[2]?.toLowerCase()) {
+    case 'pt': return number;
+    case 'em': return number * fontSize;
+    case 'rem': return number * ROOT_FONT_SIZE;
+    case 'ex': return number * fontSize / 2;
+    case '%': return percentBase === undefined ? undefined : number / 100 * percentBase;
+    case 'in': return number * 72;
+    case 'cm': return number * 72 / 2.54;
+    case 'mm': return number * 72 / 25.4;
+    case 'pc': return number * 12;
+    // Pixels, also assumed for unitless numbers in HTML attributes
+    default: return number * PX_TO_PT;
+  }
+};
+
+const parseFontSize = (value: string, parentSize: number): number | undefined => {
+  const keyword = value.trim().toLowerCase();
+  if (keyword in FONT_SIZE_KEYWORDS) return FONT_SIZE_KEYWORDS[keyword] * PX_TO_PT;
+  if (keyword === 'smaller') return parentSize / 1.2;
+  if (keyword === 'larger') return parentSize * 1.2;
+  const size = parseLength(value, parentSize, parentSize);
+  return size !== undefined && size > 0 ? size : undefined;
+};
+
+/**
+ * Hex colour without '#', or undefined for transparent and unknown colours
+ */
+const parseColor = (value: string): string | undefined => {
+  const color = value.trim().toLowerCase();
+  if (color in NAMED_COLORS) return NAMED_COLORS[color];
+  const hex = /^#([0-9a-f]{3,8})$/.exec(color)?.[1];
+  if (hex?.length === 3 || hex?.length === 4) return hex.slice(0, 3).split('').map(digit => digit + digit).join('').toUpperCase();
+  if (hex?.length === 6 || hex?.length === 8) return hex.slice(0, 6).toUpperCase();
+  const rgb = /^rgba?\(\s*(\d+%?)[\s,]+(\d+%?)[\s,]+(\d+%?)(?:[\s,/]+([\d.]+%?))?\s*\)$/.exec(color);
+  if (!rgb || (rgb[4] !== undefined && parseFloat(rgb[4]) === 0)) return undefined;
+  return rgb.slice(1, 4)
+    .map(channel => Math.min(255, Math.round(channel.endsWith('%') ? parseFloat(channel) * 2.55 : parseInt(channel, 10))))
+    .map(channel => channel.toString(16).padStart(2, '0'))
+    .join('')
+    .toUpperCase();
+};
+
+const parseFontFamily = (value: string): string | undefined => {
+  const family = value.split(',')[0].trim().replace(/^["']|["']$/g, '');
+  const generic = family.toLowerCase();
+  return generic in GENERIC_FONT_FAMILIES ? GENERIC_FONT_FAMILIES[generic] : family || undefined;
+};
+
+/**
+ * Top, right, bottom and left from a margin or padding shorthand
+ */
+const parseBoxShorthand = (value: string, fontSize: number): Array<number | undefined> => {
+  const values = value.trim().split(/\s+/).map(part => parseLength(part, fontSize));
+  const [top, right = top, bottom = top, left = right] = values;
+  return [top, right, bottom, left];
+};
+
+const isPageBreak = (value: string): boolean => ['always', 'page', 'left', 'right'].includes(value.trim().toLowerCase());
+
+// The CSS properties behind presentational attributes such as align and <font color>
+const getAttributeDeclarations = (element: XmlElement): CssDeclaration[] => {
+  const { attributes } = element;
+  const declarations: CssDeclaration[] = [];
+  if (attributes.align && element.name !== 'img' && element.name !== 'table') declarations.push(['text-align', attributes.align]);
+  if (attributes.dir) declarations.push(['direction', attributes.dir]);
+  if (element.name === 'font') {
+    if (attributes.color) declarations.push(['color', attributes.color]);
+    if (attributes.face) declarations.push(['font-family', attributes.face]);
+    const size = parseInt(attributes.size ?? '', 10);
+    if (size) {
+      const index = /^[+-]/.test(attributes.size) ? 2 + size : size - 1;
+      declarations.push(['font-size', `${FONT_ELEMENT_SIZES[Math.min(Math.max(index, 0), 6)]}px`]);
+    }
+  }
+  // Links take the browser's link colour, which style sheets can override
+  if (element.name === 'a' && attributes.href) declarations.push(['color', '#0563C1'], ['text-decoration', 'underline']);
+  if (element.name === 'img') {
+    if (attributes.width) declarations.push(['width', attributes.width]);
+    if (attributes.height) declarations.push(['height', attributes.height]);
+  }
+  if ((element.name === 'ol' || element.name === 'ul' || element.name === 'li') && attributes.type) {
+    declarations.push(['list-style-type', attributes.type]);
+  }
+  return declarations;
+};
+
+const applyDeclaration = (style: ComputedStyle, parent: ComputedStyle, property: string, rawValue: string) => {
+  const value = rawValue.trim().toLowerCase();
+  if (['inherit', 'initial', 'unset', 'revert'].includes(value)) return;
+  const fontSize = style.run.fontSize;
+  const setRun = (changes: RunStyle) => {
+    style.run = { ...style.run, ...changes };
+  };
+  const setMargins = (margins: Array<number | undefined>, padding: boolean) => {
+    const [top, , bottom, left] = margins;
+    // Padding adds to the margins; block boxes have no background or border here
+    if (top !== undefined) style.marginTop = (padding ? style.marginTop : 0) + top;
+    if (bottom !== undefined) style.marginBottom = (padding ? style.marginBottom : 0) + bottom;
+    if (left !== undefined) style.marginLeft = (padding ? style.marginLeft : 0) + left;
+  };
+
+  switch (property) {
+    case 'font-size': {
+      const size = parseFontSize(value, parent.run.fontSize);
+      if (size) setRun({ fontSize: size });
+      break;
+    }
+    case 'font': {
+      const sizeMatch = /(?:^|\s)([\d.]+(?:px|pt|em|rem|%)|(?:xx?-)?(?:small|large)|medium)(?:\/\S+)?\s+(.+)$/.exec(value);
+      setRun({ bold: /\bbold\b|\b[6-9]00\b/.test(value) || undefined, italic: /\b(?:italic|oblique)\b/.test(value) || undefined });
+      if (sizeMatch) {
+        setRun({ fontSize: parseFontSize(sizeMatch[1], parent.run.fontSize) ?? fontSize, fontFamily: parseFontFamily(rawValue.slice(-sizeMatch[2].length)) });
+      }
+      break;
+    }
+    case 'font-weight':
+      setRun({ bold: value === 'bold' || value === 'bolder' || parseInt(value, 10) >= 600 || undefined });
+      break;
+    case 'font-style':
+      setRun({ italic: value === 'italic' || value === 'oblique' || undefined });
+      break;
+    case 'font-family':
+      setRun({ fontFamily: parseFontFamily(rawValue) });
+      break;
+    case 'color':
+      setRun({ color: parseColor(value) });
+      break;
+    case 'background':
+    case 'background-color': {
+      // Only inline boxes get a background, drawn as a highlight behind the text
+      if (style.display !== 'inline') break;
+      const color = value.split(/\s+/).map(parseColor).find(Boolean);
+      if (color && color !== 'FFFFFF') setRun({ highlight: color });
+      break;
+    }
+    case 'text-decoration':
+    case 'text-decoration-line':
+      if (value.includes('none')) setRun({ underline: undefined, strike: undefined });
+      if (value.includes('underline')) setRun({ underline: true });
+      if (value.includes('line-through')) setRun({ strike: true });
+      break;
+    case 'vertical-align':
+      setRun({ verticalAlign: value === 'super' ? 'superscript' : value === 'sub' ? 'subscript' : undefined });
+      break;
+    case 'text-align': {
+      const alignment = TEXT_ALIGNMENTS[value.replace(/^-(?:webkit|moz)-/, '')];
+      if (alignment) style.alignment = alignment;
+      break;
+    }
+    case 'text-indent':
+      style.textIndent = parseLength(value, fontSize) ?? style.textIndent;
+      break;
+    case 'line-height': {
+      const multiple = /^\d*\.?\d+$/.test(value) ? parseFloat(value) : (parseLength(value, fontSize, fontSize) ?? 0) / fontSize;
+      style.lineSpacing = value === 'normal' ? undefined : multiple > 0 ? multiple / NORMAL_LINE_HEIGHT : style.lineSpacing;
+      break;
+    }
+    case 'direction':
+      if (value === 'rtl' || value === 'ltr') style.direction = value;
+      break;
+    case 'white-space':
+      style.preserveWhitespace = value.startsWith('pre') && value !== 'pre-line';
+      break;
+    case 'display':
+      if (value === 'none') style.display = 'none';
+      else if (value === 'inline' || value === 'inline-block' || value === 'inline-flex') style.display = 'inline';
+      else if (value) style.display = 'block';
+      break;
+    case 'margin':
+    case 'padding':
+      setMargins(parseBoxShorthand(value, fontSize), property === 'padding');
+      break;
+    case 'margin-top':
+    case 'margin-bottom':
+    case 'margin-left':
+    case 'padding-top':
+    case 'padding-bottom':
+    case 'padding-left': {
+      const length = parseLength(value, fontSize);
+      const side = property.split('-')[1];
+      const margins = [side === 'top' ? length : undefined, undefined, side === 'bottom' ? length : undefined, side === 'left' ? length : undefined];
+      setMargins(margins, property.startsWith('padding'));
+      break;
+    }
+    case 'page-break-before':
+    case 'break-before':
+      style.pageBreakBefore = isPageBreak(value);
+      break;
+    case 'page-break-after':
+    case 'break-after':
+      style.pageBreakAfter = isPageBreak(value);
+      break;
+    case 'width':
+      style.width = parseLength(value, fontSize);
+      break;
+    case 'height':
+      style.height = parseLength(value, fontSize);
+      break;
+    case 'list-style':
+    case 'list-style-type': {
+      const type = rawValue.trim().split(/\s+/).find(part => part in LIST_STYLE_FORMATS || /^(none|disc|circle|square)$/i.test(part));
+      if (type) style.listStyle = type;
+      break;
+    }
+  }
+};
+
+const computeStyle = (element: XmlElement, ancestors: XmlElement[], parent: ComputedStyle, context: ReaderContext): ComputedStyle => {
+  const style: ComputedStyle = {
+    run: parent.run,
+    alignment: parent.alignment,
+    direction: parent.direction,
+    textIndent: parent.textIndent,
+    lineSpacing: parent.lineSpacing,
+    preserveWhitespace: parent.preserveWhitespace,
+    listStyle: parent.listStyle,
+    display: BLOCK_ELEMENTS.has(element.name) ? 'block' : 'inline',
+    marginTop: 0,
+    marginBottom: 0,
+    marginLeft: 0,
+    pageBreakBefore: false,
+    pageBreakAfter: false,
+  };
+
+  // Browser defaults, then presentational attributes, style sheets and the style attribute
+  const declarations = [
+    ...getMatchingDeclarations(DEFAULT_RULES, element, ancestors),
+    ...getAttributeDeclarations(element),
+    ...getMatchingDeclarations(context.rules, element, ancestors),
+    ...parseDeclarations(element.attributes.style ?? ''),
+  ];
+  // The font size comes first since em lengths depend on it
+  for (const [property, value] of declarations) {
+    if (property === 'font-size' || property === 'font') applyDeclaration(style, parent, property, value);
+  }
+  for (const [property, value] of declarations) {
+    if (property === 'display') applyDeclaration(style, parent, property, value);
+  }
+  for (const [property, value] of declarations) {
+    if (property !== 'font-size' && property !== 'font' && property !== 'display') applyDeclaration(style, parent, property, value);
+  }
+  return style;
+};
+
+const getTextContent = (node: XmlNode): string =>
+  typeof node === 'string' ? node : node.children.map(getTextContent).join('');
+
+const findElement = (node: XmlElement, name: string): XmlElement | null => {
+  for (const child of node.children) {
+    if (typeof child === 'string') continue;
+    if (child.name === name) return child;
+    const found = findElement(child, name);
+    if (found) return found;
+  }
+  return null;
+};
+
+const isSafeLink = (href: string): boolean => /^(?:https?:|mailto:|tel:|ftp:)/i.test(href.trim());
+
+/**
+ * Picture bytes from a data URI; other sources would have to be fetched
+ */
+const decodeDataUri = (src: string): { contentType: string; data: Uint8Array } | null => {
+  const match = /^data:([^;,]*)((?:;[^;,]*)*),(.*)$/s.exec(src.trim());
+  if (!match) return null;
+  try {
+    if (/;base64/i.test(match[2])) {
+      const binary = atob(match[3].replace(/\s+/g, ''));
+      return { contentType: match[1] || 'application/octet-stream', data: Uint8Array.from(binary, char => char.charCodeAt(0)) };
+    }
+    return { contentType: match[1] || 'text/plain', data: new TextEncoder().encode(decodeURIComponent(match[3])) };
+  } catch {
+    return null;
+  }
+};
+
+const createFlow = (): Flow => ({
+  blocks: [],
+  runs: [],
+  paragraph: null,
+  pendingSpace: 0,
+  pendingPageBreak: false,
+  trailingSpace: false,
+});
+
+const openParagraph = (flow: Flow, scope: FlowScope) => {
+  if (flow.paragraph) return;
+  flow.paragraph = { scope, spaceBefore: flow.pendingSpace, list: flow.pendingList };
+  // A break before the first block would leave an empty first page
+  if (flow.pendingPageBreak && flow.blocks.length > 0) flow.runs.push({ type: 'break', kind: 'page' });
+  flow.pendingSpace = 0;
+  flow.pendingPageBreak = false;
+  flow.pendingList = undefined;
+  flow.trailingSpace = false;
+};
+
+const endParagraph = (flow: Flow) => {
+  if (!flow.paragraph) return;
+  const { scope, spaceBefore, list } = flow.paragraph;
+  const last = flow.runs[flow.runs.length - 1];
+  if (last?.type === 'text' && !scope.block.preserveWhitespace) last.text = last.text.replace(/ +$/, '');
+
+  let indentLeft: number | undefined = Math.max(scope.indent, 0) || undefined;
+  let indentFirstLine = scope.block.textIndent;
+  if (list) {
+    // The writers indent list items by their level; only items inside indented blocks need more
+    indentLeft = scope.listBase ? scope.listBase + LIST_INDENT * (list.level + 1) : undefined;
+    indentFirstLine = scope.listBase ? -LIST_INDENT : undefined;
+  }
+  flow.blocks.push({
+    type: 'paragraph',
+    runs: flow.runs,
+    style: {
+      alignment: scope.block.alignment,
+      direction: scope.block.direction,
+      spaceBefore,
+      spaceAfter: 0,
+      indentLeft,
+      indentFirstLine,
+      lineSpacing: scope.block.lineSpacing,
+    },
+    ...(scope.headingLevel ? { headingLevel: scope.headingLevel } : {}),
+    ...(list ? { list } : {}),
+  });
+  flow.runs = [];
+  flow.paragraph = null;
+};
+
+const startBlock = (flow: Flow, style: ComputedStyle) => {
+  endParagraph(flow);
+  flow.pendingSpace = Math.max(flow.pendingSpace, style.marginTop);
+  if (style.pageBreakBefore) flow.pendingPageBreak = true;
+};
+
+const endBlock = (flow: Flow, style: ComputedStyle) => {
+  endParagraph(flow);
+  flow.pendingSpace = Math.max(flow.pendingSpace, style.marginBottom);
+  if (style.pageBreakAfter) flow.pendingPageBreak = true;
+};
+
+const addText = (flow: Flow, text: string, style: ComputedStyle, scope: FlowScope) => {
+  const link = scope.link ? { link: scope.link } : {};
+  if (style.preserveWhitespace) {
+    openParagraph(flow, scope);
+    text.replace(/\r\n?/g, '\n').split('\n').forEach((line, index) => {
+      if (index > 0) flow.runs.push({ type: 'break', kind: 'line' });
+      if (line) flow.runs.push({ type: 'text', text: line, style: style.run, ...link });
+    });
+    return;
+  }
+
+  // Runs of white space collapse into one space, dropped at the start of a line
+  let collapsed = text.replace(/[ \t\n\r\f]+/g, ' ');
+  if (!flow.paragraph || flow.trailingSpace) collapsed = collapsed.replace(/^ /, '');
+  if (!collapsed) return;
+  openParagraph(flow, scope);
+  flow.runs.push({ type: 'text', text: collapsed, style: style.run, ...link });
+  flow.trailingSpace = collapsed.endsWith(' ');
+};
+
+const addImage = (flow: Flow, element: XmlElement, style: ComputedStyle, scope: FlowScope) => {
+  const picture = decodeDataUri(element.attributes.src ?? '');
+  let source = null;
+  try {
+    source = picture ? createPdfImageSource(picture.data) : null;
+  } catch {
+    // Damaged pictures fall back to their description
+  }
+  const altText = element.attributes.alt?.trim();
+  if (!picture || !source) {
+    if (altText) addText(flow, altText, style, scope);
+    return;
+  }
+
+  const naturalWidth = source.width * PX_TO_PT;
+  const naturalHeight = source.height * PX_TO_PT;
+  const width = style.width ?? (style.height ? naturalWidth * style.height / naturalHeight : naturalWidth);
+  const height = style.height ?? (style.width ? naturalHeight * style.width / naturalWidth : naturalHeight);
+  const image: ImageRun = { type: 'image', data: picture.data, contentType: picture.contentType, width, height, altText };
+  openParagraph(flow, scope);
+  flow.runs.push(image);
+  flow.trailingSpace = false;
+};
+
+/**
+ * Rows of a table with their elements' computed styles, looking through thead, tbody and tfoot
+ */
+const getTableRows = (
+  table: XmlElement,
+  ancestors: XmlElement[],
+  tableStyle: ComputedStyle,
+  context: ReaderContext
+): Array<{ element: XmlElement; style: ComputedStyle; ancestors: XmlElement[]; isHeader: boolean }> => {
+  const rows: Array<{ element: XmlElement; style: ComputedStyle; ancestors: XmlElement[]; isHeader: boolean }> = [];
+  const tableAncestors = [...ancestors, table];
+  for (const child of table.children) {
+    if (typeof child === 'string') continue;
+    if (child.name === 'tr') {
+      rows.push({ element: child, style: computeStyle(child, tableAncestors, tableStyle, context), ancestors: tableAncestors, isHeader: false });
+    } else if (['thead', 'tbody', 'tfoot'].includes(child.name)) {
+      const sectionStyle = computeStyle(child, tableAncestors, tableStyle, context);
+      if (sectionStyle.display === 'none') continue;
+      for (const row of child.children) {
+        if (typeof row === 'string' || row.name !== 'tr') continue;
+        const rowAncestors = [...tableAncestors, child];
+        rows.push({ element: row, style: computeStyle(row, rowAncestors, sectionStyle, context), ancestors: rowAncestors, isHeader: child.name === 'thead' });
+      }
+    }
+  }
+  return rows.filter(row => row.style.display !== 'none');
+};
+
+/**
+ * Lay out the children of an element into the flow
+ */
+const walkChildren = (element: XmlElement, style: ComputedStyle, ancestors: XmlElement[], flow: Flow, scope: FlowScope, context: ReaderContext) => {
+  const childAncestors = [...ancestors, element];
+  element.children.forEach((child, index) => {
+    if (typeof child === 'string') {
+      // The line break straight after <pre> is not part of its content
+      addText(flow, element.name === 'pre' && index === 0 ? child.replace(/^\r?\n/, '') : child, style, scope);
+    } else {
+      walkElement(child, childAncestors, style, flow, scope, context);
+    }
+  });
+};
+
+const walkTable = (table: XmlElement, ancestors: XmlElement[], style: ComputedStyle, flow: Flow, scope: FlowScope, context: ReaderContext) => {
+  const rows = getTableRows(table, ancestors, style, context);
+  const cellsOf = (row: XmlElement) =>
+    row.children.filter((cell): cell is XmlElement => typeof cell !== 'string' && (cell.name === 'td' || cell.name === 'th'));
+
+  startBlock(flow, style);
+  for (const child of table.children) {
+    if (typeof child !== 'string' && child.name === 'caption') walkElement(child, [...ancestors, table], style, flow, scope, context);
+  }
+
+  // Tables that only position content, common in email templates, are read as plain blocks
+  if (table.attributes.role === 'presentation' || rows.every(row => cellsOf(row.element).length <= 1)) {
+    for (const row of rows) {
+      const cellAncestors = [...row.ancestors, row.element];
+      for (const cell of cellsOf(row.element)) {
+        const cellStyle = computeStyle(cell, cellAncestors, row.style, context);
+        if (cellStyle.display === 'none') continue;
+        startBlock(flow, cellStyle);
+        walkChildren(cell, cellStyle, cellAncestors, flow, { ...scope, block: cellStyle, indent: scope.indent + cellStyle.marginLeft }, context);
+        endBlock(flow, cellStyle);
+      }
+    }
+    endBlock(flow, style);
+    return;
+  }
+
+  endParagraph(flow);
+  const tableRows: TableRow[] = rows.map(row => {
+    const cells = cellsOf(row.element);
+    const cellAncestors = [...row.ancestors, row.element];
+    return {
+      isHeader: row.isHeader || cells.every(cell => cell.name === 'th') || undefined,
+      cells: cells.flatMap((cell): TableCell[] => {
+        const cellStyle = computeStyle(cell, cellAncestors, row.style, context);
+        if (cellStyle.display === 'none') return [];
+        const cellFlow = createFlow();
+        walkChildren(cell, cellStyle, cellAncestors, cellFlow, { block: cellStyle, indent: 0, listLevel: -1, listBase: 0, link: scope.link }, context);
+        endParagraph(cellFlow);
+        const colSpan = parseInt(cell.attributes.colspan ?? '', 10);
+        return [{ blocks: cellFlow.blocks, ...(colSpan > 1 ? { colSpan } : {}) }];
+      }),
+    };
+  }).filter(row => row.cells.length > 0);
+
+  if (tableRows.length > 0) {
+    // The table cannot carry a page break itself; a paragraph holding only the break goes before it
+    if (flow.pendingPageBreak && flow.blocks.length > 0) {
+      flow.blocks.push({ type: 'paragraph', runs: [{ type: 'break', kind: 'page' }], style: { spaceAfter: 0 } });
+    }
+    flow.pendingPageBreak = false;
+    flow.blocks.push({ type: 'table', rows: tableRows });
+  }
+  endBlock(flow, style);
+};
+
+const walkElement = (element: XmlElement, ancestors: XmlElement[], parentStyle: ComputedStyle, flow: Flow, scope: FlowScope, context: ReaderContext) => {
+  const style = computeStyle(element, ancestors, parentStyle, context);
+  if (style.display === 'none') return;
+
+  switch (element.name) {
+    case 'br':
+      openParagraph(flow, scope);
+      flow.runs.push({ type: 'break', kind: 'line' });
+      flow.trailingSpace = true;
+      return;
+    case 'img':
+      addImage(flow, element, style, scope);
+      return;
+    case 'hr':
+      // The document model has no horizontal rule; an empty paragraph keeps the gap
+      startBlock(flow, style);
+      openParagraph(flow, scope);
+      endBlock(flow, style);
+      return;
+    case 'table':
+      walkTable(element, ancestors, style, flow, scope, context);
+      return;
+  }
+
+  if (style.display === 'inline') {
+    const href = element.name === 'a' ? element.attributes.href : undefined;
+    const inlineScope = href && isSafeLink(href) ? { ...scope, link: href.trim() } : scope;
+    walkChildren(element, style, ancestors, flow, inlineScope, context);
+    return;
+  }
+
+  startBlock(flow, style);
+  const indent = scope.indent + style.marginLeft;
+  let childScope: FlowScope = { ...scope, block: style, indent };
+  if (/^h[1-6]$/.test(element.name)) childScope.headingLevel = Number(element.name[1]);
+
+  if (element.name === 'ul' || element.name === 'ol') {
+    childScope = {
+      ...childScope,
+      listLevel: scope.listLevel + 1,
+      listBase: scope.listLevel < 0 ? indent : scope.listBase,
+      list: { listId: `html-list-${++context.listCount}` },
+    };
+  } else if (element.name === 'li' && scope.list && style.listStyle !== 'none') {
+    // An item holding only a nested list still shows its own marker
+    if (flow.pendingList) {
+      openParagraph(flow, scope);
+      endParagraph(flow);
+    }
+    const format = style.listStyle ? LIST_STYLE_FORMATS[style.listStyle] ?? LIST_STYLE_FORMATS[style.listStyle.toLowerCase()] : undefined;
+    // list-style-type decides between numbers and bullets, whatever the list element
+    flow.pendingList = { ordered: format !== undefined, level: Math.max(scope.listLevel, 0), listId: scope.list.listId, ...(format ? { format } : {}) };
+    // Further paragraphs of the item line up with its text
+    childScope.indent = scope.listBase + LIST_INDENT * (scope.listLevel + 1) + style.marginLeft;
+  }
+
+  walkChildren(element, style, ancestors, flow, childScope, context);
+  if (flow.pendingList) {
+    // An empty item still shows its marker
+    openParagraph(flow, childScope);
+  }
+  endBlock(flow, style);
+};
+
+/**
+ * Decode by byte order mark, then the charset a <meta> element declares, then by content
+ */
+const decodeHtml = (bytes: Uint8Array): string => {
+  const hasBom = (bytes[0] === 0xef && bytes[1] === 0xbb) || (bytes[0] === 0xff && bytes[1] === 0xfe) || (bytes[0] === 0xfe && bytes[1] === 0xff);
+  if (hasBom) return decodeText(bytes);
+  const head = new TextDecoder('latin1').decode(bytes.subarray(0, 2048));
+  const declared = /<meta[^>]+charset\s*=\s*["']?([\w-]+)/i.exec(head)?.[1];
+  if (declared && !/^utf-?8$/i.test(declared)) {
+    try {
+      return new TextDecoder(declared).decode(bytes);
+    } catch {
+      // Unknown encodings fall through to detection
+    }
+  }
+  return decodeText(bytes);
+};
+
+/**
+ * Parse an HTML file into the document model
+ */
+export const readHtml = (bytes: Uint8Array, title?: string): DocumentModel => {
+  const root = parseHtml(decodeHtml(bytes));
+  const context: ReaderContext = { rules: [], listCount: 0 };
+
+  const collectStyles = (element: XmlElement) => {
+    for (const child of element.children) {
+      if (typeof child === 'string') continue;
+      if (child.name === 'style' && !/\b(?:screen|speech)\b/i.test(child.attributes.media ?? '')) {
+        parseStylesheet(getTextContent(child), context.rules);
+      } else {
+        collectStyles(child);
+      }
+    }
+  };
+  collectStyles(root);
+
+  const rootStyle: ComputedStyle = {
+    run: { fontSize: ROOT_FONT_SIZE },
+    preserveWhitespace: false,
+    display: 'block',
+    marginTop: 0,
+    marginBottom: 0,
+    marginLeft: 0,
+    pageBreakBefore: false,
+    pageBreakAfter: false,
+  };
+  const flow = createFlow();
+  walkChildren(root, rootStyle, [], flow, { block: rootStyle, indent: 0, listLevel: -1, listBase: 0 }, context);
+  endParagraph(flow);
+
+  const documentTitle = findElement(root, 'title');
+  return {
+    title: (documentTitle ? getTextContent(documentTitle).replace(/\s+/g, ' ').trim() : '') || title,
+    blocks: flow.blocks,
+  };
+};
@@ -0,0 +1,99 @@
+/**
+ * Images to PDF
+ * Places each JPEG or PNG on its own page, scaled to fit within the
+ * margins. JPEG data is embedded unchanged.
+ */
+
+import { createPdfImageSource, PdfImageSource, writePdfImage } from './pdfImageEncoder';
+import { PAGE_SIZES, RenderedPdf } from './pdfLayout';
+import { createPdfWriter, formatNumber, pdfDate, PdfRaw, pdfRef, pdfString } from './pdfWriter';
+
+export type ImagePageSize = 'a4' | 'letter' | 'fit';
+export type PageOrientation = 'portrait' | 'landscape' | 'auto';
+
+export interface ImagePdfOptions {
+  // 'fit' makes every page the size of its image plus the margins
+  pageSize: ImagePageSize;
+  // 'auto' turns the page to match the image
+  orientation: PageOrientation;
+  // Margin on every side, in points
+  margin: number;
+  // Pixels per inch of the images; 96 as in browsers when unset
+  resolution?: number;
+}
+
+export const DEFAULT_IMAGE_PDF_OPTIONS: ImagePdfOptions = {
+  pageSize: 'a4',
+  orientation: 'auto',
+  margin: 36,
+};
+
+// Pixels are taken to be 1/96 inch, as in browsers
+const DEFAULT_RESOLUTION = 96;
+
+/**
+ * Page size for an image of the given size in points
+ */
+const getPageSize = (width: number, height: number, options: ImagePdfOptions): [number, number] => {
+  if (options.pageSize === 'fit') return [width + options.margin * 2, height + options.margin * 2];
+  const [shortSide, longSide] = PAGE_SIZES[options.pageSize];
+  const landscape = options.orientation === 'landscape' || (options.orientation === 'auto' && width > height);
+  return landscape ? [longSide, shortSide] : [shortSide, longSide];
+};
+
+/**
+ * Build a PDF with one page per image. Throws when an image is neither
+ * a JPEG nor a PNG.
+ */
+export const createImagePdf = (
+  images: Array<{ name: string; data: Uint8Array }>,
+  overrides: Partial<ImagePdfOptions> = {},
+  title?: string
+): RenderedPdf => {
+  const options: ImagePdfOptions = { ...DEFAULT_IMAGE_PDF_OPTIONS, ...overrides };
+  const sources: PdfImageSource[] = images.map(({ name, data }) => {
+    const source = createPdfImageSource(data);
+    if (!source) throw new Error(`${name} is not a JPEG or PNG image`);
+    return source;
+  });
+
+  const writer = createPdfWriter();
+  const pagesId = writer.allocate();
+  const pointsPerPixel = 72 / (options.resolution ?? DEFAULT_RESOLUTION);
+  const pageRefs: PdfRaw[] = sources.map(source => {
+    const imageWidth = source.width * pointsPerPixel;
+    const imageHeight = source.height * pointsPerPixel;
+    const [pageWidth, pageHeight] = getPageSize(imageWidth, imageHeight, options);
+
+    // Scale down to the printable area and centre; small images keep their size
+    const areaWidth = Math.max(pageWidth - options.margin * 2, 1);
+    const areaHeight = Math.max(pageHeight - options.margin * 2, 1);
+    const scale = Math.min(1, areaWidth / imageWidth, areaHeight / imageHeight);
+    const width = imageWidth * scale;
+    const height = imageHeight * scale;
+    const x = (pageWidth - width) / 2;
+    const y = (pageHeight - height) / 2;
+
+    const image = writePdfImage(writer, source);
+    const contents = writer.addStream(
+      {},
+      new TextEncoder().encode(`q ${formatNumber(width)} 0 0 ${formatNumber(height)} ${formatNumber(x)} ${formatNumber(y)} cm /Im1 Do Q`)
+    );
+    return writer.addObject({
+      Type: 'Page',
+      Parent: pdfRef(pagesId),
+      MediaBox: [0, 0, pageWidth, pageHeight],
+      Resources: { XObject: { Im1: image }, ProcSet: ['PDF', 'ImageB', 'ImageC', 'ImageI'] },
+      Contents: contents,
+    });
+  });
+  writer.writeObject(pagesId, { Type: 'Pages', Kids: pageRefs, Count: pageRefs.length });
+
+  const catalog = writer.addObject({ Type: 'Catalog', Pages: pdfRef(pagesId) });
+  const info = writer.addObject({
+    Title: title ? pdfString(title) : undefined,
+    Producer: pdfString('Vixert File Converter'),
+    CreationDate: pdfDate(new Date()),
+  });
+  return { data: writer.finish(catalog, info), pageCount: pageRefs.length };
+};
@@ -0,0 +1,686 @@
+/**
+ * Markdown reader
+ * Parses CommonMark, with GitHub's tables, strikethrough and bare links, into
+ * a DocumentModel. Blocks are parsed first so link reference definitions are
+ * known before any inline content is read.
+ */
+
+import {
+  DocumentBlock,
+  DocumentModel,
+  DocumentParagraph,
+  DocumentRun,
+  ParagraphAlignment,
+  RunStyle,
+  TableRow,
+} from '../types/documentModel';
+import { decodeHtmlEntity } from './htmlReader';
+import { decodeText } from './textReader';
+
+type MarkdownBlock =
+  | { kind: 'paragraph'; text: string }
+  | { kind: 'heading'; level: number; text: string }
+  | { kind: 'code'; lines: string[] }
+  | { kind: 'rule' }
+  | { kind: 'quote'; children: MarkdownBlock[] }
+  | { kind: 'list'; ordered: boolean; start: number; items: MarkdownBlock[][] }
+  | { kind: 'table'; alignments: Array<ParagraphAlignment | undefined>; header: string[]; rows: string[][] };
+
+interface ListItemStart {
+  ordered: boolean;
+  // Bullet character or ordered delimiter; a different one starts a new list
+  marker: string;
+  start: number;
+  // Column where the item's content starts; continuation lines are indented to it
+  contentIndent: number;
+  content: string;
+}
+
+// Where blocks are placed while converting: inside quotes and list items
+interface BlockScope {
+  quoteIndent: number;
+  // Left indent of paragraphs, in points
+  indent: number;
+  listLevel: number;
+  style: RunStyle;
+}
+
+interface ConvertContext {
+  definitions: Map<string, string>;
+  listCount: number;
+}
+
+const CODE_STYLE: RunStyle = { fontFamily: 'Courier New', fontSize: 10 };
+const INLINE_CODE_STYLE: RunStyle = { ...CODE_STYLE, highlight: 'F3F4F6' };
+const LINK_STYLE: RunStyle = { color: '0563C1', underline: true };
+const QUOTE_STYLE: RunStyle = { color: '4B5563' };
+
+// Matches the list indentation of the PDF layout
+const LIST_INDENT = 18;
+const QUOTE_INDENT = 24;
+const CODE_INDENT = 12;
+
+const ATX_HEADING = /^ {0,3}(#{1,6})(?:[ \t]+(.*))?$/;
+const SETEXT_UNDERLINE = /^ {0,3}(=+|-+)[ \t]*$/;
+const THEMATIC_BREAK = /^ {0,3}([-*_])(?:[ \t]*\1){2,}[ \t]*$/;
+const FENCE_OPEN = /^( {0,3})(`{3,}|~{3,})(.*)$/;
+const BLOCKQUOTE = /^ {0,3}> ?(.*)$/;
+const LIST_ITEM = /^( {0,3})([-+*]|\d{1,9}[.)])(?:( +)(.*))?$/;
+const TABLE_DELIMITER = /^ {0,3}\|?[ \t]*:?-+:?[ \t]*(?:\|[ \t]*:?-+:?[ \t]*)*\|?[ \t]*$/;
+const LINK_DEFINITION = /^ {0,3}\[([^\]]+)\]:[ \t]*<?([^\s>]+)>?(?:[ \t]+(?:"[^"]*"|'[^']*'|\([^)]*\)))?[ \t]*$/;
+const ESCAPED_PUNCTUATION = /\\([!-/:-@[-`{-~])/g;
+
+const isBlank = (line: string): boolean => /^[ \t]*$/.test(line);
+
+const leadingSpaces = (line: string): number => line.length - line.trimStart().length;
+
+const normalizeLabel = (label: string): string => label.trim().replace(/\s+/g, ' ').toLowerCase();
+
+// Tabs are expanded to stops of four columns before the block structure is read
+const expandTabs = (line: string): string => {
+  if (!line.includes('\t')) return line;
+  let result = '';
+  for (const char of line) {
+    result += char === '\t' ? ' '.repeat(4 - (result.length % 4)) : char;
+  }
+  return result;
+};
+
+const parseListItemStart = (line: string): ListItemStart | null => {
+  const match = line.match(LIST_ITEM);
+  if (!match) return null;
+  const [, indent, marker, spacing = '', content = ''] = match;
+  const ordered = /\d/.test(marker);
+  // More than four spaces after the marker make the content an indented code block
+  const padding = content === '' || spacing.length > 4 ? 1 : spacing.length;
+  return {
+    ordered,
+    marker: ordered ? marker.slice(-1) : marker,
+    start: ordered ? parseInt(marker, 10) : 1,
+    contentIndent: indent.length + marker.length + padding,
+    content: spacing.length > 4 ? ' '.repeat(spacing.length - 1) + content : content,
+  };
+};
+
+/**
+ * Whether a line starts a block that ends a paragraph, table or lazy continuation
+ */
+const startsBlock = (line: string): boolean => {
+  if (ATX_HEADING.test(line) || THEMATIC_BREAK.test(line) || FENCE_OPEN.test(line) || BLOCKQUOTE.test(line)) return true;
+  const item = parseListItemStart(line);
+  return item !== null && item.content.trim() !== '';
+};
+
+const splitTableRow = (line: string): string[] => {
+  let row = line.trim();
+  if (row.startsWith('|')) row = row.slice(1);
+  if (row.endsWith('|') && !row.endsWith('\\|')) row = row.slice(0, -1);
+  return row.split(/(?<!\\)\|/).map(cell => cell.trim().replace(/\\\|/g, '|'));
+};
+
+const parseAlignment = (cell: string): ParagraphAlignment | undefined => {
+  if (/^:-+:$/.test(cell)) return 'center';
+  if (/^-+:$/.test(cell)) return 'right';
+  if (/^:-+$/.test(cell)) return 'left';
+  return undefined;
+};
+
+/**
+ * Split lines into blocks; container blocks (quotes, list items) are parsed recursively
+ */
+const parseBlocks = (lines: string[], definitions: Map<string, string>): MarkdownBlock[] => {
+  const blocks: MarkdownBlock[] = [];
+  let paragraph: string[] = [];
+
+  const closeParagraph = () => {
+    if (paragraph.length > 0) blocks.push({ kind: 'paragraph', text: paragraph.join('\n').trimEnd() });
+    paragraph = [];
+  };
+
+  let index = 0;
+  while (index < lines.length) {
+    const line = lines[index];
+    const inParagraph = paragraph.length > 0;
+
+    if (isBlank(line)) {
+      closeParagraph();
+      index++;
+      continue;
+    }
+
+    const fence = line.match(FENCE_OPEN);
+    if (fence && !(fence[2][0] === '`' && fence[3].includes('`'))) {
+      closeParagraph();
+      const [, fenceIndent, marker] = fence;
+      const closing = new RegExp(`^ {0,3}${marker[0] === '`' ? '`' : '~'}{${marker.length},}[ \\t]*$`);
+      const code: string[] = [];
+      index++;
+      while (index < lines.length && !closing.test(lines[index])) {
+        code.push(lines[index].slice(Math.min(fenceIndent.length, leadingSpaces(lines[index]))));
+        index++;
+      }
+      blocks.push({ kind: 'code', lines: code });
+      index++;
+      continue;
+    }
+
+    // Indented code cannot interrupt a paragraph
+    if (!inParagraph && leadingSpaces(line) >= 4) {
+      const code: string[] = [];
+      while (index < lines.length && (isBlank(lines[index]) || leadingSpaces(lines[index]) >= 4)) {
+        code.push(lines[index].slice(4));
+        index++;
+      }
+      while (code.length > 0 && isBlank(code[code.length - 1])) code.pop();
+      blocks.push({ kind: 'code', lines: code });
+      continue;
+    }
+
+    const heading = line.match(ATX_HEADING);
+    if (heading) {
+      closeParagraph();
+      const text = (heading[2] ?? '').replace(/(?:^|[ \t]+)#+[ \t]*$/, '').trim();
+      blocks.push({ kind: 'heading', level: heading[1].length, text });
+      index++;
+      continue;
+    }
+
+    if (inParagraph) {
+      const underline = line.match(SETEXT_UNDERLINE);
+      if (underline) {
+        blocks.push({ kind: 'heading', level: underline[1][0] === '=' ? 1 : 2, text: paragraph.join('\n').trim() });
+        paragraph = [];
+        index++;
+        continue;
+      }
+
+      // A table header is the line above its delimiter row
+      const header = splitTableRow(paragraph[paragraph.length - 1]);
+      const delimiter = TABLE_DELIMITER.test(line) && line.includes('-') ? splitTableRow(line) : null;
+      if (delimiter && delimiter.length === header.length && (line.includes('|') || header.length > 1)) {
+        paragraph.pop();
+        closeParagraph();
+        const rows: string[][] = [];
+        index++;
+        while (index < lines.length && !isBlank(lines[index]) && !startsBlock(lines[index])) {
+          const cells = splitTableRow(lines[index]);
+          rows.push(header.map((_cell, column) => cells[column] ?? ''));
+          index++;
+        }
+        blocks.push({ kind: 'table', alignments: delimiter.map(parseAlignment), header, rows });
+        continue;
+      }
+    }
+
+    if (THEMATIC_BREAK.test(line)) {
+      closeParagraph();
+      blocks.push({ kind: 'rule' });
+      index++;
+      continue;
+    }
+
+    if (BLOCKQUOTE.test(line)) {
+      closeParagraph();
+      const quoted: string[] = [];
+      while (index < lines.length) {
+        const quote = lines[index].match(BLOCKQUOTE);
+        const previous = quoted[quoted.length - 1];
+        if (quote) {
+          quoted.push(quote[1]);
+        } else if (!isBlank(lines[index]) && previous !== undefined && !isBlank(previous) && !startsBlock(lines[index])) {
+          // Lazy continuation of a quoted paragraph
+          quoted.push(lines[index]);
+        } else {
+          break;
+        }
+        index++;
+      }
+      blocks.push({ kind: 'quote', children: parseBlocks(quoted, definitions) });
+      continue;
+    }
+
+    const first = parseListItemStart(line);
+    // Only non-empty items, and ordered lists starting at 1, interrupt a paragraph
+    if (first && (!inParagraph || (first.content.trim() !== '' && first.start === 1))) {
+      closeParagraph();
+      const items: MarkdownBlock[][] = [];
+      while (index < lines.length) {
+        const item = parseListItemStart(lines[index]);
+        if (!item || item.ordered !== first.ordered || item.marker !== first.marker || THEMATIC_BREAK.test(lines[index])) break;
+
+        const itemLines = [item.content];
+        let previousBlank = item.content === '';
+        index++;
+        while (index < lines.length) {
+          const next = lines[index];
+          if (isBlank(next)) {
+            itemLines.push('');
+            previousBlank = true;
+          } else if (leadingSpaces(next) >= item.contentIndent) {
+            itemLines.push(next.slice(item.contentIndent));
+            previousBlank = false;
+          } else if (!previousBlank && !startsBlock(next)) {
+            itemLines.push(next);
+          } else {
+            break;
+          }
+          index++;
+        }
+        while (itemLines.length > 0 && isBlank(itemLines[itemLines.length - 1])) itemLines.pop();
+        items.push(parseBlocks(itemLines, definitions));
+      }
+      blocks.push({ kind: 'list', ordered: first.ordered, start: first.start, items });
+      continue;
+    }
+
+    const definition = inParagraph ? null : line.match(LINK_DEFINITION);
+    if (definition) {
+      const label = normalizeLabel(definition[1]);
+      if (!definitions.has(label)) definitions.set(label, definition[2].replace(ESCAPED_PUNCTUATION, '$1'));
+      index++;
+      continue;
+    }
+
+    paragraph.push(line.trimStart());
+    index++;
+  }
+
+  closeParagraph();
+  return blocks;
+};
+
+const isWhitespace = (char: string | undefined): boolean => char === undefined || /\s/.test(char);
+
+const isAlphanumeric = (char: string | undefined): boolean => char !== undefined && /[\p{L}\p{N}]/u.test(char);
+
+const countRun = (text: string, start: number, char: string): number => {
+  let end = start;
+  while (text[end] === char) end++;
+  return end - start;
+};
+
+const canOpen = (text: string, start: number, length: number, char: string): boolean =>
+  !isWhitespace(text[start + length]) && (char !== '_' || !isAlphanumeric(text[start - 1]));
+
+const canClose = (text: string, start: number, length: number, char: string): boolean =>
+  start > 0 && !isWhitespace(text[start - 1]) && (char !== '_' || !isAlphanumeric(text[start + length]));
+
+/**
+ * Position of the backtick run that closes a code span, or -1
+ */
+const findCodeSpanEnd = (text: string, from: number, length: number): number => {
+  let pos = text.indexOf('`', from);
+  while (pos !== -1) {
+    const run = countRun(text, pos, '`');
+    if (run === length) return pos;
+    pos = text.indexOf('`', pos + run);
+  }
+  return -1;
+};
+
+/**
+ * Skip an escape or code span at `pos`; returns the position after it, or `pos`
+ */
+const skipLiteral = (text: string, pos: number): number => {
+  if (text[pos] === '\\') return pos + 2;
+  if (text[pos] !== '`') return pos;
+  const length = countRun(text, pos, '`');
+  const end = findCodeSpanEnd(text, pos + length, length);
+  return end === -1 ? pos + length : end + length;
+};
+
+/**
+ * The delimiter run closing an emphasis, stepping over nested pairs of the same character
+ */
+const findEmphasisCloser = (text: string, from: number, char: string): { start: number; length: number } | null => {
+  let depth = 0;
+  let pos = from;
+  while (pos < text.length) {
+    const skipped = skipLiteral(text, pos);
+    if (skipped !== pos) {
+      pos = skipped;
+      continue;
+    }
+    if (text[pos] !== char) {
+      pos++;
+      continue;
+    }
+    const length = countRun(text, pos, char);
+    if (canClose(text, pos, length, char)) {
+      if (depth === 0) return { start: pos, length };
+      depth--;
+    } else if (canOpen(text, pos, length, char)) {
+      depth++;
+    }
+    pos += length;
+  }
+  return null;
+};
+
+const findBracketEnd = (text: string, start: number): number => {
+  let depth = 0;
+  let pos = start;
+  while (pos < text.length) {
+    const skipped = skipLiteral(text, pos);
+    if (skipped !== pos) {
+      pos = skipped;
+      continue;
+    }
+    if (text[pos] === '[') depth++;
+    if (text[pos] === ']' && --depth === 0) return pos;
+    pos++;
+  }
+  return -1;
+};
+
+/**
+ * An inline link destination "(url "title")" starting at `pos`
+ */
+const parseDestination = (text: string, pos: number): { url: string; end: number } | null => {
+  let cursor = pos + 1;
+  while (isWhitespace(text[cursor]) && cursor < text.length) cursor++;
+
+  let url: string;
+  if (text[cursor] === '<') {
+    const close = text.indexOf('>', cursor);
+    if (close === -1) return null;
+    url = text.slice(cursor + 1, close);
+    cursor = close + 1;
+  } else {
+    const start = cursor;
+    let depth = 0;
+    while (cursor < text.length && !isWhitespace(text[cursor])) {
+      if (text[cursor] === '\\') cursor++;
+      else if (text[cursor] === '(') depth++;
+      else if (text[cursor] === ')' && depth-- === 0) break;
+      cursor++;
+    }
+    url = text.slice(start, cursor);
+  }
+
+  while (isWhitespace(text[cursor]) && cursor < text.length) cursor++;
+  const title = text.slice(cursor).match(/^("(?:[^"\\]|\\.)*"|'(?:[^'\\]|\\.)*'|\((?:[^()\\]|\\.)*\))/);
+  if (title) cursor += title[0].length;
+  while (isWhitespace(text[cursor]) && cursor < text.length) cursor++;
+  if (text[cursor] !== ')') return null;
+  return { url: url.replace(ESCAPED_PUNCTUATION, '$1'), end: cursor + 1 };
+};
+
+/**
+ * Parse inline content (emphasis, code spans, links, ...) into runs
+ */
+const parseInline = (text: string, style: RunStyle, context: ConvertContext, link?: string): DocumentRun[] => {
+  const runs: DocumentRun[] = [];
+  let buffer = '';
+
+  const flush = () => {
+    if (buffer) runs.push({ type: 'text', text: buffer, style, ...(link ? { link } : {}) });
+    buffer = '';
+  };
+
+  const pushLink = (label: string, url: string) => {
+    flush();
+    runs.push(...parseInline(label, link ? style : { ...style, ...LINK_STYLE }, context, link ?? url));
+  };
+
+  let pos = 0;
+  while (pos < text.length) {
+    const char = text[pos];
+    const rest = text.slice(pos);
+
+    if (char === '\\') {
+      if (text[pos + 1] === '\n') {
+        flush();
+        runs.push({ type: 'break', kind: 'line' });
+        pos += 2;
+      } else if (/[!-/:-@[-`{-~]/.test(text[pos + 1] ?? '')) {
+        buffer += text[pos + 1];
+        pos += 2;
+      } else {
+        buffer += char;
+        pos++;
+      }
+      continue;
+    }
+
+    if (char === '\n') {
+      // Two trailing spaces make a hard line break; otherwise the line break is a space
+      const hardBreak = / {2,}$/.test(buffer);
+      buffer = buffer.replace(/ +$/, '');
+      if (hardBreak) {
+        flush();
+        runs.push({ type: 'break', kind: 'line' });
+      } else {
+        buffer += ' ';
+      }
+      pos++;
+      while (text[pos] === ' ') pos++;
+      continue;
+    }
+
+    if (char === '`') {
+      const length = countRun(text, pos, '`');
+      const end = findCodeSpanEnd(text, pos + length, length);
+      if (end === -1) {
+        buffer += text.slice(pos, pos + length);
+        pos += length;
+        continue;
+      }
+      let code = text.slice(pos + length, end).replace(/\n/g, ' ');
+      if (/^ .*[^ ].* $/.test(code)) code = code.slice(1, -1);
+      flush();
+      runs.push({ type: 'text', text: code, style: { ...style, ...INLINE_CODE_STYLE }, ...(link ? { link } : {}) });
+      pos = end + length;
+      continue;
+    }
+
+    if (char === '*' || char === '_' || char === '~') {
+      const length = countRun(text, pos, char);
+      const closer = canOpen(text, pos, length, char) ? findEmphasisCloser(text, pos + length, char) : null;
+      const size = closer ? Math.min(length, closer.length, 3) : 0;
+      // Strikethrough takes two tildes on each side
+      if (!closer || (char === '~' && (size < 2 || length !== closer.length))) {
+        buffer += text.slice(pos, pos + length);
+        pos += length;
+        continue;
+      }
+      buffer += char.repeat(length - size);
+      flush();
+      const innerStyle = char === '~'
+        ? { ...style, strike: true }
+        : { ...style, bold: size >= 2 || style.bold, italic: size !== 2 || style.italic };
+      runs.push(...parseInline(text.slice(pos + length, closer.start), innerStyle, context, link));
+      buffer += char.repeat(closer.length - size);
+      pos = closer.start + closer.length;
+      continue;
+    }
+
+    if (char === '[' || (char === '!' && text[pos + 1] === '[')) {
+      const isImage = char === '!';
+      const open = isImage ? pos + 1 : pos;
+      const close = findBracketEnd(text, open);
+      if (close !== -1) {
+        const label = text.slice(open + 1, close);
+        let url: string | undefined;
+        let end = close + 1;
+        const destination = text[close + 1] === '(' ? parseDestination(text, close + 1) : null;
+        if (destination) {
+          url = destination.url;
+          end = destination.end;
+        } else {
+          // Full [text][label], collapsed [text][] or shortcut [text] reference
+          const reference = text.slice(close + 1).match(/^\[([^\]]*)\]/);
+          const key = normalizeLabel(reference && reference[1] ? reference[1] : label);
+          url = context.definitions.get(key);
+          if (reference) end += reference[0].length;
+        }
+        if (url !== undefined) {
+          // Pictures are not fetched; their description stands in for them
+          if (isImage) {
+            flush();
+            runs.push(...parseInline(label, { ...style, italic: true }, context, link));
+          } else {
+            pushLink(label, url);
+          }
+          pos = end;
+          continue;
+        }
+      }
+      buffer += char;
+      pos++;
+      continue;
+    }
+
+    if (char === '<') {
+      const autolink = rest.match(/^<([A-Za-z][A-Za-z0-9+.-]{1,31}:[^\s<>]*)>/);
+      const email = rest.match(/^<([^\s<>@]+@[^\s<>]+\.[^\s<>]+)>/);
+      const lineBreak = rest.match(/^<br\s*\/?>/i);
+      const html = rest.match(/^(?:<!--[\s\S]*?-->|<\/?[A-Za-z][A-Za-z0-9-]*(?:\s[^<>]*)?\/?>)/);
+      if (autolink) {
+        pushLink(autolink[1], autolink[1]);
+        pos += autolink[0].length;
+      } else if (email) {
+        pushLink(email[1], `mailto:${email[1]}`);
+        pos += email[0].length;
+      } else if (lineBreak) {
+        flush();
+        runs.push({ type: 'break', kind: 'line' });
+        pos += lineBreak[0].length;
+      } else if (html) {
+        // Other inline HTML is dropped, keeping the text between the tags
+        pos += html[0].length;
+      } else {
+        buffer += char;
+        pos++;
+      }
+      continue;
+    }
+
+    if (char === '&') {
+      const entity = rest.match(/^&(#\d{1,7}|#[xX][0-9a-fA-F]{1,6}|[A-Za-z][A-Za-z0-9]{1,31});/);
+      const decoded = entity ? decodeHtmlEntity(entity[1]) : null;
+      if (entity && decoded !== null) {
+        buffer += decoded;
+        pos += entity[0].length;
+        continue;
+      }
+    }
+
+    // Bare web addresses become links
+    if (!link && (char === 'h' || char === 'w') && !isAlphanumeric(text[pos - 1])) {
+      const address = rest.match(/^(?:https?:\/\/|www\.)[^\s<]+/)?.[0].replace(/[.,:;!?"')*_~]+$/, '');
+      if (address && address.length > 4) {
+        pushLink(address, address.startsWith('www.') ? `http://${address}` : address);
+        pos += address.length;
+        continue;
+      }
+    }
+
+    buffer += char;
+    pos++;
+  }
+
+  flush();
+  return runs;
+};
+
+const convertBlocks = (blocks: MarkdownBlock[], scope: BlockScope, context: ConvertContext): DocumentBlock[] => {
+  const result: DocumentBlock[] = [];
+  const indentLeft = scope.indent || undefined;
+
+  for (const block of blocks) {
+    switch (block.kind) {
+      case 'paragraph':
+        result.push({ type: 'paragraph', runs: parseInline(block.text, scope.style, context), style: { indentLeft } });
+        break;
+      case 'heading':
+        result.push({
+          type: 'paragraph',
+          runs: parseInline(block.text, scope.style, context),
+          style: { indentLeft },
+          headingLevel: block.level,
+        });
+        break;
+      case 'code': {
+        const runs: DocumentRun[] = [];
+        block.lines.forEach((line, index) => {
+          if (index > 0) runs.push({ type: 'break', kind: 'line' });
+          if (line) runs.push({ type: 'text', text: line, style: { ...scope.style, ...CODE_STYLE } });
+        });
+        result.push({
+          type: 'paragraph',
+          runs,
+          style: { indentLeft: scope.indent + CODE_INDENT, spaceBefore: 4, spaceAfter: 8, alignment: 'left' },
+        });
+        break;
+      }
+      case 'rule':
+        // The document model has no horizontal rule; an empty paragraph keeps the gap
+        result.push({ type: 'paragraph', runs: [], style: {} });
+        break;
+      case 'quote':
+        result.push(...convertBlocks(block.children, {
+          ...scope,
+          quoteIndent: scope.quoteIndent + QUOTE_INDENT,
+          indent: scope.indent + QUOTE_INDENT,
+          style: { ...scope.style, ...QUOTE_STYLE },
+        }, context));
+        break;
+      case 'list': {
+        const listId = `markdown-list-${++context.listCount}`;
+        const level = scope.listLevel + 1;
+        const start = block.ordered && block.start !== 1 ? block.start : undefined;
+        for (const item of block.items) {
+          const itemBlocks = convertBlocks(item, { ...scope, indent: scope.indent + LIST_INDENT, listLevel: level }, context);
+          const first = itemBlocks[0];
+          if (first?.type === 'paragraph' && !first.list) {
+            first.list = { ordered: block.ordered, level, listId, format: block.ordered ? 'decimal' : undefined, start };
+            // Outside quotes the writers indent list items by their level; inside, the marker hangs
+            if (scope.quoteIndent) first.style.indentFirstLine = -LIST_INDENT;
+            else first.style.indentLeft = undefined;
+          } else {
+            // An item starting with another block still gets its marker
+            result.push({ type: 'paragraph', runs: [], style: {}, list: { ordered: block.ordered, level, listId, start } });
+          }
+          result.push(...itemBlocks);
+        }
+        break;
+      }
+      case 'table': {
+        const toRow = (cells: string[], isHeader: boolean): TableRow => ({
+          isHeader: isHeader || undefined,
+          cells: cells.map((cell, column) => ({
+            blocks: [{
+              type: 'paragraph',
+              runs: parseInline(cell, isHeader ? { ...scope.style, bold: true } : scope.style, context),
+              style: { alignment: block.alignments[column] },
+            } satisfies DocumentParagraph],
+          })),
+        });
+        result.push({ type: 'table', rows: [toRow(block.header, true), ...block.rows.map(row => toRow(row, false))] });
+        break;
+      }
+    }
+  }
+  return result;
+};
+
+/**
+ * Parse a Markdown file into the document model
+ */
+export const readMarkdown = (bytes: Uint8Array, title?: string): DocumentModel => {
+  let lines = decodeText(bytes).split(/\r\n|\r|\n/).map(expandTabs);
+
+  // YAML front matter is metadata for site generators, not content
+  if (lines[0]?.trim() === '---') {
+    const end = lines.findIndex((line, index) => index > 0 && /^(---|\.\.\.)\s*$/.test(line));
+    if (end !== -1) lines = lines.slice(end + 1);
+  }
+
+  const context: ConvertContext = { definitions: new Map(), listCount: 0 };
+  const blocks = parseBlocks(lines, context.definitions);
+  return {
+    title,
+    blocks: convertBlocks(blocks, { quoteIndent: 0, indent: 0, listLevel: -1, style: {} }, context),
+  };
+};
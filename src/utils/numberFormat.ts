@@ -0,0 +1,543 @@
+/**
+ * Spreadsheet number formats
+ * Renders cell values the way Excel displays them, from its number format
+ * codes: sections, digit placeholders, grouping, percentages, scientific
+ * notation, fractions, dates, times and literal text.
+ */
+
+import { SpreadsheetCell } from '../types/spreadsheetModel';
+
+// Formats every workbook has without declaring them, by id
+export const BUILTIN_NUMBER_FORMATS: Record<number, string> = {
+  0: 'General',
+  1: '0',
+  2: '0.00',
+  3: '#,##0',
+  4: '#,##0.00',
+  9: '0%',
+  10: '0.00%',
+  11: '0.00E+00',
+  12: '# ?/?',
+  13: '# ??/??',
+  14: 'm/d/yyyy',
+  15: 'd-mmm-yy',
+  16: 'd-mmm',
+  17: 'mmm-yy',
+  18: 'h:mm AM/PM',
+  19: 'h:mm:ss AM/PM',
+  20: 'h:mm',
+  21: 'h:mm:ss',
+  22: 'm/d/yyyy h:mm',
+  37: '#,##0 ;(#,##0)',
+  38: '#,##0 ;[Red](#,##0)',
+  39: '#,##0.00;(#,##0.00)',
+  40: '#,##0.00;[Red](#,##0.00)',
+  45: 'mm:ss',
+  46: '[h]:mm:ss',
+  47: 'mmss.0',
+  48: '##0.0E+0',
+  49: '@',
+};
+
+const MONTH_NAMES = ['January', 'February', 'March', 'April', 'May', 'June', 'July', 'August', 'September', 'October', 'November', 'December'];
+const DAY_NAMES = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
+
+const MS_PER_DAY = 86400000;
+// Days between 1899-12-30 and 1970-01-01
+const UNIX_EPOCH_SERIAL = 25569;
+// Serial day 0 of the 1904 date system is day 1462 of the 1900 one
+const DATE_1904_OFFSET = 1462;
+
+/**
+ * Serial day number of a date (UTC), in the 1900 date system unless `date1904`
+ */
+export const dateToSerial = (date: Date, date1904 = false): number => {
+  const serial = date.getTime() / MS_PER_DAY + UNIX_EPOCH_SERIAL;
+  return date1904 ? serial - DATE_1904_OFFSET : serial;
+};
+
+/**
+ * Date (UTC) of a serial day number; serial 60 is Excel's 29 February 1900
+ * and comes out as 1 March
+ */
+export const serialToDate = (serial: number, date1904 = false): Date => {
+  let days = date1904 ? serial + DATE_1904_OFFSET : serial;
+  // Lotus 1-2-3 counted 1900 as a leap year and Excel kept the phantom day
+  if (!date1904 && days < 61) days += 1;
+  return new Date(Math.round((days - UNIX_EPOCH_SERIAL) * MS_PER_DAY));
+};
+
+type Token =
+  | { kind: 'literal'; text: string }
+  | { kind: 'digit'; char: '0' | '#' | '?' }
+  | { kind: 'point' }
+  | { kind: 'comma' }
+  | { kind: 'percent' }
+  | { kind: 'slash' }
+  | { kind: 'exponent'; sign: '+' | '-' }
+  | { kind: 'text' }
+  | { kind: 'date'; code: string }
+  | { kind: 'elapsed'; unit: 'h' | 'm' | 's'; width: number }
+  | { kind: 'ampm'; text: string }
+  | { kind: 'subsecond'; digits: number };
+
+interface Section {
+  tokens: Token[];
+  condition?: { operator: string; value: number };
+  // The section shows a date or time rather than a number
+  isDate: boolean;
+  isGeneral: boolean;
+}
+
+/**
+ * Split a format code into its sections at semicolons outside quotes and brackets
+ */
+const splitSections = (code: string): string[] => {
+  const sections: string[] = [];
+  let current = '';
+  for (let i = 0; i < code.length; i++) {
+    const char = code[i];
+    if (char === '"') {
+      const end = code.indexOf('"', i + 1);
+      const stop = end < 0 ? code.length : end + 1;
+      current += code.slice(i, stop);
+      i = stop - 1;
+    } else if (char === '[') {
+      const end = code.indexOf(']', i + 1);
+      const stop = end < 0 ? code.length : end + 1;
+      current += code.slice(i, stop);
+      i = stop - 1;
+    } else if (char === '\\' || char === '_' || char === '*') {
+      current += code.slice(i, i + 2);
+      i++;
+    } else if (char === ';') {
+      sections.push(current);
+      current = '';
+    } else {
+      current += char;
+    }
+  }
+  sections.push(current);
+  return sections;
+};
+
+const DATE_LETTERS = /[ymdhs]/i;
+
+const parseSection = (source: string): Section => {
+  const tokens: Token[] = [];
+  const section: Section = { tokens, isDate: false, isGeneral: false };
+  const literal = (text: string) => {
+    const last = tokens[tokens.length - 1];
+    if (last?.kind === 'literal') last.text += text;
+    else tokens.push({ kind: 'literal', text });
+  };
+
+  let i = 0;
+  while (i < source.length) {
+    const char = source[i];
+    const rest = source.slice(i);
+
+    if (char === '"') {
+      const end = source.indexOf('"', i + 1);
+      literal(source.slice(i + 1, end < 0 ? source.length : end));
+      i = end < 0 ? source.length : end + 1;
+    } else if (char === '\\') {
+      literal(source[i + 1] ?? '');
+      i += 2;
+    } else if (char === '_') {
+      // Space as wide as the next character, used to line up parentheses
+      literal(' ');
+      i += 2;
+    } else if (char === '*') {
+      // Repeat fill up to the column width; a cell of text has no width
+      i += 2;
+    } else if (char === '[') {
+      const end = source.indexOf(']', i + 1);
+      const content = source.slice(i + 1, end < 0 ? source.length : end);
+      i = end < 0 ? source.length : end + 1;
+      const elapsed = /^(h+|m+|s+)$/i.exec(content);
+      const condition = /^(<=|>=|<>|<|>|=)\s*(-?[\d.]+)$/.exec(content);
+      if (elapsed) {
+        tokens.push({ kind: 'elapsed', unit: elapsed[1][0].toLowerCase() as 'h' | 'm' | 's', width: elapsed[1].length });
+        section.isDate = true;
+      } else if (condition) {
+        section.condition = { operator: condition[1], value: Number(condition[2]) };
+      } else if (content.startsWith('$')) {
+        // Currency and locale, e.g. [$€-407]
+        literal(content.slice(1).split('-')[0]);
+      }
+      // Colours ([Red], [Color10]) do not apply to text
+    } else if (/^general/i.test(rest)) {
+      section.isGeneral = true;
+      tokens.push({ kind: 'text' });
+      i += 7;
+    } else if (/^(am\/pm|a\/p)/i.test(rest)) {
+      const text = /^am\/pm/i.test(rest) ? rest.slice(0, 5) : rest.slice(0, 3);
+      tokens.push({ kind: 'ampm', text });
+      section.isDate = true;
+      i += text.length;
+    } else if (DATE_LETTERS.test(char)) {
+      let end = i + 1;
+      while (end < source.length && source[end].toLowerCase() === char.toLowerCase()) end++;
+      tokens.push({ kind: 'date', code: source.slice(i, end).toLowerCase() });
+      section.isDate = true;
+      i = end;
+    } else if (char === '0' || char === '#' || char === '?') {
+      tokens.push({ kind: 'digit', char });
+      i++;
+    } else if (char === '.') {
+      // Fractional seconds after a seconds field, e.g. ss.00
+      const subsecond = /^\.(0+)/.exec(rest);
+      const previous = tokens.filter(token => token.kind !== 'literal').pop();
+      if (subsecond && previous && ((previous.kind === 'date' && previous.code[0] === 's') || (previous.kind === 'elapsed' && previous.unit === 's'))) {
+        tokens.push({ kind: 'subsecond', digits: subsecond[1].length });
+        i += subsecond[0].length;
+      } else {
+        tokens.push({ kind: 'point' });
+        i++;
+      }
+    } else if (char === ',') {
+      tokens.push({ kind: 'comma' });
+      i++;
+    } else if (char === '%') {
+      tokens.push({ kind: 'percent' });
+      i++;
+    } else if (char === '/') {
+      tokens.push({ kind: 'slash' });
+      i++;
+    } else if ((char === 'E' || char === 'e') && (source[i + 1] === '+' || source[i + 1] === '-')) {
+      tokens.push({ kind: 'exponent', sign: source[i + 1] as '+' | '-' });
+      i += 2;
+    } else if (char === '@') {
+      tokens.push({ kind: 'text' });
+      i++;
+    } else {
+      literal(char);
+      i++;
+    }
+  }
+
+  // In dates, number punctuation (and digits) are plain text
+  if (section.isDate) {
+    const punctuation: Partial<Record<Token['kind'], string>> = { slash: '/', comma: ',', point: '.', percent: '%' };
+    section.tokens = tokens.map(token => {
+      if (token.kind === 'digit') return { kind: 'literal', text: token.char };
+      const text = punctuation[token.kind];
+      return text === undefined ? token : { kind: 'literal', text };
+    });
+  }
+  return section;
+};
+
+const sectionCache = new Map<string, Section[]>();
+
+const getSections = (code: string): Section[] => {
+  let sections = sectionCache.get(code);
+  if (!sections) {
+    sections = splitSections(code).map(parseSection);
+    sectionCache.set(code, sections);
+  }
+  return sections;
+};
+
+const testCondition = (condition: NonNullable<Section['condition']>, value: number): boolean => {
+  switch (condition.operator) {
+    case '<': return value < condition.value;
+    case '<=': return value <= condition.value;
+    case '>': return value > condition.value;
+    case '>=': return value >= condition.value;
+    case '=': return value === condition.value;
+    default: return value !== condition.value;
+  }
+};
+
+/**
+ * Section for a number and whether the sign is already part of it
+ */
+const selectSection = (sections: Section[], value: number): [Section, boolean] => {
+  // A fourth section is for text
+  const numeric = sections.slice(0, 3);
+  if (numeric.some(section => section.condition)) {
+    const match = numeric.find(section => section.condition && testCondition(section.condition, value))
+      ?? numeric.find(section => !section.condition)
+      ?? numeric[numeric.length - 1];
+    return [match, false];
+  }
+  if (value < 0 && numeric.length >= 2) return [numeric[1], true];
+  if (value === 0 && numeric.length >= 3) return [numeric[2], false];
+  return [numeric[0], false];
+};
+
+const trimExponent = (text: string): string =>
+  text.replace(/\.?0+e/, 'e').replace(/e([+-])(\d)$/, 'e$10$2').toUpperCase();
+
+/**
+ * Excel's General format: up to 10 significant digits, scientific notation
+ * for very large or very small numbers
+ */
+export const formatGeneral = (value: number): string => {
+  if (!Number.isFinite(value)) return '#NUM!';
+  if (value === 0) return '0';
+  const magnitude = Math.abs(value);
+  if (magnitude >= 1e11 || magnitude < 1e-9) return trimExponent(value.toExponential(5));
+  const text = String(Number(value.toPrecision(10)));
+  return text.includes('e') ? trimExponent(Number(text).toExponential(5)) : text;
+};
+
+/**
+ * Round to a number of decimals without binary floating point surprises (1.005 -> 1.01)
+ */
+const roundTo = (value: number, decimals: number): number => {
+  if (value >= 1e15) return value;
+  const rounded = Math.round(Number(`${value}e${decimals}`));
+  return Number.isFinite(rounded) ? Number(`${rounded}e-${decimals}`) : Number(value.toFixed(decimals));
+};
+
+const pad = (value: number, width: number) => String(value).padStart(width, '0');
+
+const formatDate = (section: Section, value: number, date1904: boolean): string => {
+  const { tokens } = section;
+  const subsecondDigits = tokens.reduce((max, token) => (token.kind === 'subsecond' ? Math.max(max, token.digits) : max), 0);
+  // Times round to the displayed precision, which may carry into the next day
+  const unit = 1000 / 10 ** subsecondDigits;
+  const totalMs = Math.round((value * MS_PER_DAY) / unit) * unit;
+  const date = serialToDate(Math.floor(totalMs / MS_PER_DAY), date1904);
+  const msOfDay = totalMs - Math.floor(totalMs / MS_PER_DAY) * MS_PER_DAY;
+  const hours = Math.floor(msOfDay / 3600000);
+  const minutes = Math.floor(msOfDay / 60000) % 60;
+  const seconds = Math.floor(msOfDay / 1000) % 60;
+  const twelveHour = tokens.some(token => token.kind === 'ampm');
+
+  // "m" means minutes right after an hour field or right before a seconds field
+  const meaningful: Token[] = tokens.filter(token => token.kind === 'date' || token.kind === 'elapsed');
+  const isMinutes = (token: Token): boolean => {
+    const index = meaningful.indexOf(token);
+    const previous = meaningful[index - 1];
+    const next = meaningful[index + 1];
+    return (previous?.kind === 'date' && previous.code[0] === 'h')
+      || (previous?.kind === 'elapsed' && previous.unit === 'h')
+      || (next?.kind === 'date' && next.code[0] === 's')
+      || (next?.kind === 'elapsed' && next.unit === 's');
+  };
+
+  return tokens.map(token => {
+    switch (token.kind) {
+      case 'literal':
+        return token.text;
+      case 'ampm': {
+        const pm = hours >= 12;
+        if (token.text.length === 3) return pm ? token.text[2] : token.text[0];
+        return pm ? token.text.slice(3) : token.text.slice(0, 2);
+      }
+      case 'subsecond':
+        return `.${pad(Math.floor((msOfDay % 1000) / (1000 / 10 ** token.digits)), token.digits)}`;
+      case 'elapsed': {
+        const divisor = token.unit === 'h' ? 3600000 : token.unit === 'm' ? 60000 : 1000;
+        return pad(Math.floor(totalMs / divisor), token.width);
+      }
+      case 'date': {
+        const { code } = token;
+        switch (code[0]) {
+          case 'y':
+            return code.length <= 2 ? pad(date.getUTCFullYear() % 100, 2) : String(date.getUTCFullYear());
+          case 'm':
+            if (code.length <= 2 && isMinutes(token)) return pad(minutes, code.length);
+            if (code.length <= 2) return pad(date.getUTCMonth() + 1, code.length);
+            if (code.length === 3) return MONTH_NAMES[date.getUTCMonth()].slice(0, 3);
+            if (code.length === 5) return MONTH_NAMES[date.getUTCMonth()][0];
+            return MONTH_NAMES[date.getUTCMonth()];
+          case 'd':
+            if (code.length <= 2) return pad(date.getUTCDate(), code.length);
+            return code.length === 3 ? DAY_NAMES[date.getUTCDay()].slice(0, 3) : DAY_NAMES[date.getUTCDay()];
+          case 'h':
+            return pad(twelveHour ? (hours % 12 || 12) : hours, Math.min(code.length, 2));
+          default:
+            return pad(seconds, Math.min(code.length, 2));
+        }
+      }
+      default:
+        return '';
+    }
+  }).join('');
+};
+
+/**
+ * Closest fraction to `value` with a denominator below `maxDenominator`
+ */
+const approximateFraction = (value: number, maxDenominator: number): [number, number] => {
+  let best: [number, number] = [Math.round(value), 1];
+  for (let denominator = 2; denominator <= maxDenominator; denominator++) {
+    const numerator = Math.round(value * denominator);
+    if (Math.abs(numerator / denominator - value) < Math.abs(best[0] / best[1] - value)) best = [numerator, denominator];
+  }
+  return best;
+};
+
+/**
+ * Fill digit placeholders with the digits of a whole number, right to left;
+ * the leftmost placeholder takes any digits left over
+ */
+const fillInteger = (placeholders: Array<'0' | '#' | '?'>, digits: string, grouping: boolean): string[] => {
+  const filled = new Array<string>(placeholders.length).fill('');
+  let position = digits.length;
+  let count = 0;
+  const emit = (digit: string) => {
+    const separator = grouping && count > 0 && count % 3 === 0 ? ',' : '';
+    count++;
+    return digit + separator;
+  };
+
+  for (let index = placeholders.length - 1; index >= 0; index--) {
+    let piece = '';
+    if (position > 0) piece = emit(digits[--position]) + piece;
+    else if (placeholders[index] === '0') piece = emit('0');
+    else if (placeholders[index] === '?') piece = ' ';
+    if (index === 0) {
+      while (position > 0) piece = emit(digits[--position]) + piece;
+    }
+    filled[index] = piece;
+  }
+  return filled;
+};
+
+const formatNumber = (section: Section, value: number, text: string): string => {
+  const tokens = [...section.tokens];
+  const digitIndexes = tokens.flatMap((token, index) => (token.kind === 'digit' ? [index] : []));
+  if (digitIndexes.length === 0) {
+    return tokens.map(token => (token.kind === 'literal' ? token.text : token.kind === 'percent' ? '%' : token.kind === 'text' ? text : '')).join('');
+  }
+
+  let scaled = value * 100 ** tokens.filter(token => token.kind === 'percent').length;
+  // Commas right after the last digit placeholder divide by a thousand each
+  const lastDigit = digitIndexes[digitIndexes.length - 1];
+  for (let index = lastDigit + 1; tokens[index]?.kind === 'comma'; index++) scaled /= 1000;
+  const grouping = tokens.some((token, index) => token.kind === 'comma' && index > digitIndexes[0] && index < lastDigit);
+
+  const pointIndex = tokens.findIndex(token => token.kind === 'point');
+  const exponentIndex = tokens.findIndex(token => token.kind === 'exponent');
+  const slashIndex = tokens.findIndex(token => token.kind === 'slash');
+  const integerEnd = [pointIndex, exponentIndex, slashIndex].filter(index => index >= 0).reduce((min, index) => Math.min(min, index), tokens.length);
+  const placeholdersIn = (start: number, end: number) =>
+    digitIndexes.filter(index => index >= start && index < end).map(index => (tokens[index] as { char: '0' | '#' | '?' }).char);
+
+  const output = new Map<number, string>();
+
+  if (slashIndex >= 0) {
+    // Fractions, e.g. "# ?/?" or "?/8": whole part, numerator and denominator
+    let numeratorStart = slashIndex;
+    while (tokens[numeratorStart - 1]?.kind === 'digit') numeratorStart--;
+    const numeratorIndexes = digitIndexes.filter(index => index >= numeratorStart && index < slashIndex);
+    const denominatorIndexes = digitIndexes.filter(index => index > slashIndex);
+    const next = tokens[slashIndex + 1];
+    const fixedDenominator = next?.kind === 'literal' ? parseInt(next.text, 10) : NaN;
+
+    const wholePlaceholders = placeholdersIn(0, numeratorStart);
+    const whole = wholePlaceholders.length > 0 ? Math.floor(scaled) : 0;
+    const remainder = scaled - whole;
+    const [numerator, denominator] = fixedDenominator > 0
+      ? [Math.round(remainder * fixedDenominator), fixedDenominator]
+      : approximateFraction(remainder, 10 ** denominatorIndexes.length - 1);
+    // A fraction that rounds to 0 or 1 leaves blanks where it would be
+    const showFraction = numerator !== 0 && numerator !== denominator;
+    const blank = (piece: string) => (showFraction ? piece : piece.replace(/./g, ' '));
+    const wholeText = whole === 0 && numerator !== 0 ? '' : String(whole + (numerator === denominator ? 1 : 0));
+
+    fillInteger(wholePlaceholders, wholeText, grouping).forEach((piece, index) => output.set(digitIndexes[index], piece));
+    fillInteger(placeholdersIn(numeratorStart, slashIndex), String(numerator), false)
+      .forEach((piece, index) => output.set(numeratorIndexes[index], blank(piece)));
+    fillInteger(placeholdersIn(slashIndex + 1, tokens.length), String(denominator), false)
+      .forEach((piece, index) => output.set(denominatorIndexes[index], blank(piece)));
+    if (!showFraction) {
+      output.set(slashIndex, ' ');
+      if (next?.kind === 'literal') output.set(slashIndex + 1, next.text.replace(/^\d+/, digits => ' '.repeat(digits.length)));
+    }
+  } else {
+    const integerPlaceholders = placeholdersIn(0, integerEnd);
+    const fractionEnd = exponentIndex >= 0 ? exponentIndex : tokens.length;
+    const fractionPlaceholders = pointIndex >= 0 ? placeholdersIn(pointIndex, fractionEnd) : [];
+
+    let exponent = 0;
+    if (exponentIndex >= 0 && scaled !== 0) {
+      exponent = Math.floor(Math.log10(scaled));
+      // "##0.0E+0" keeps exponents a multiple of the integer placeholder count
+      const step = integerPlaceholders.length > 1 && integerPlaceholders.includes('#') ? integerPlaceholders.length : 1;
+      exponent = Math.floor(exponent / step) * step - (step === 1 ? integerPlaceholders.length - 1 : 0);
+      scaled /= 10 ** exponent;
+      if (roundTo(scaled, fractionPlaceholders.length) >= 10 ** Math.max(integerPlaceholders.length, 1) && step === 1) {
+        scaled /= 10;
+        exponent++;
+      }
+    }
+
+    const rounded = roundTo(scaled, fractionPlaceholders.length);
+    const integerPart = Math.floor(rounded);
+    const fractionDigits = fractionPlaceholders.length
+      ? rounded.toFixed(fractionPlaceholders.length).split('.')[1]
+      : '';
+    const integerDigits = integerPart === 0 ? '' : integerPart.toLocaleString('en-US', { useGrouping: false, maximumFractionDigits: 0 });
+    fillInteger(integerPlaceholders, integerDigits, grouping).forEach((piece, index) => output.set(digitIndexes[index], piece));
+
+    // Optional trailing zeros after the point are dropped (#) or blanked (?)
+    let trailing = true;
+    for (let index = fractionPlaceholders.length - 1; index >= 0; index--) {
+      const placeholder = fractionPlaceholders[index];
+      const digit = fractionDigits[index];
+      let piece = digit;
+      if (trailing && digit === '0' && placeholder === '#') piece = '';
+      else if (trailing && digit === '0' && placeholder === '?') piece = ' ';
+      else trailing = false;
+      output.set(digitIndexes[integerPlaceholders.length + index], piece);
+    }
+
+    if (exponentIndex >= 0) {
+      const exponentPlaceholders = placeholdersIn(exponentIndex, tokens.length);
+      const exponentIndexes = digitIndexes.filter(index => index > exponentIndex);
+      const sign = exponent < 0 ? '-' : (tokens[exponentIndex] as { sign: string }).sign === '+' ? '+' : '';
+      output.set(exponentIndex, `E${sign}`);
+      fillInteger(exponentPlaceholders, String(Math.abs(exponent)), false).forEach((piece, index) => output.set(exponentIndexes[index], piece));
+    }
+  }
+
+  return tokens.map((token, index) => {
+    if (output.has(index)) return output.get(index);
+    switch (token.kind) {
+      case 'literal': return token.text;
+      case 'point': return '.';
+      case 'percent': return '%';
+      case 'slash': return '/';
+      case 'text': return text;
+      default: return '';
+    }
+  }).join('');
+};
+
+/**
+ * Text a cell shows: its value in its number format
+ */
+export const formatCellValue = (cell: SpreadsheetCell, date1904 = false): string => {
+  const { value } = cell;
+  if (typeof value === 'boolean') return value ? 'TRUE' : 'FALSE';
+  const sections = getSections(cell.numberFormat || 'General');
+
+  if (typeof value === 'string') {
+    // A fourth section, or a lone section with @, formats text
+    const textSection = sections[3] ?? (sections.length === 1 && sections[0].tokens.some(token => token.kind === 'text') && !sections[0].isGeneral ? sections[0] : null);
+    if (cell.error || !textSection) return value;
+    return textSection.tokens.map(token => (token.kind === 'literal' ? token.text : token.kind === 'text' ? value : '')).join('');
+  }
+
+  const [section, signed] = selectSection(sections, value);
+  if (section.isGeneral) {
+    const general = formatGeneral(signed ? Math.abs(value) : value);
+    return section.tokens.map(token => (token.kind === 'literal' ? token.text : token.kind === 'text' ? general : '')).join('');
+  }
+  if (section.isDate) {
+    // Dates before the epoch or beyond year 9999 cannot be shown
+    if (value < 0 || value > 2958465) return '#'.repeat(8);
+    return formatDate(section, value, date1904);
+  }
+  const magnitude = Math.abs(value);
+  const formatted = formatNumber(section, magnitude, formatGeneral(magnitude));
+  // A lone number section shows a minus sign unless the number rounds to zero
+  return value < 0 && !signed && /[1-9]/.test(formatted) ? `-${formatted}` : formatted;
+};
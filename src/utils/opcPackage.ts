@@ -0,0 +1,121 @@
+/**
+ * Open Packaging Conventions helpers
+ * Resolves parts and relationships inside DOCX/XLSX/PPTX packages, and
+ * builds the package-level parts the DOCX and XLSX writers share.
+ */
+
+import { ZipArchive } from './zipReader';
+import { childElements, escapeXml, getAttribute, parseXml, XML_DECLARATION, XmlElement } from './xmlUtils';
+
+// Namespace of r:id attributes, and the prefix of the Office relationship types
+export const NS_REL = 'http://schemas.openxmlformats.org/officeDocument/2006/relationships';
+export const NS_PACKAGE_REL = 'http://schemas.openxmlformats.org/package/2006/relationships';
+
+export interface Relationship {
+  id: string;
+  // Relationship type URI, e.g. ".../relationships/styles"
+  type: string;
+  // Resolved part path for internal targets, raw URI for external ones
+  target: string;
+  external: boolean;
+}
+
+/**
+ * Resolve a relationship target relative to the part that references it
+ */
+export const resolvePartPath = (sourcePart: string, target: string): string => {
+  if (target.startsWith('/')) return target.slice(1);
+  const segments = sourcePart.split('/').slice(0, -1).filter(Boolean);
+  for (const segment of target.split('/')) {
+    if (segment === '..') segments.pop();
+    else if (segment && segment !== '.') segments.push(segment);
+  }
+  return segments.join('/');
+};
+
+const getRelationshipsPath = (part: string): string => {
+  const slash = part.lastIndexOf('/');
+  return `${part.slice(0, slash + 1)}_rels/${part.slice(slash + 1)}.rels`;
+};
+
+/**
+ * Relationships of a part (pass '' for the package-level relationships), keyed by id
+ */
+export const readRelationships = (zip: ZipArchive, part: string): Map<string, Relationship> => {
+  const relationships = new Map<string, Relationship>();
+  const xml = zip.readText(part ? getRelationshipsPath(part) : '_rels/.rels');
+  if (!xml) return relationships;
+
+  for (const element of childElements(parseXml(xml), 'Relationship')) {
+    const id = getAttribute(element, 'Id');
+    const target = getAttribute(element, 'Target');
+    if (!id || target === null) continue;
+    const external = getAttribute(element, 'TargetMode') === 'External';
+    relationships.set(id, {
+      id,
+      type: getAttribute(element, 'Type') || '',
+      target: external ? target : resolvePartPath(part, target),
+      external,
+    });
+  }
+  return relationships;
+};
+
+/**
+ * First relationship whose type ends with the given suffix (e.g. "/styles")
+ */
+export const findRelationship = (relationships: Map<string, Relationship>, typeSuffix: string): Relationship | null => {
+  for (const relationship of relationships.values()) {
+    if (relationship.type.endsWith(typeSuffix)) return relationship;
+  }
+  return null;
+};
+
+/**
+ * Read and parse an XML part, or null if it does not exist
+ */
+export const readXmlPart = (zip: ZipArchive, part: string): XmlElement | null => {
+  const xml = zip.readText(part);
+  return xml ? parseXml(xml) : null;
+};
+
+/**
+ * [Content_Types].xml with the defaults for relationship and XML parts and
+ * the overrides for the document properties; `overrides` maps part names
+ * to content types, `defaults` file extensions to content types
+ */
+export const buildContentTypesXml = (overrides: Array<[string, string]>, defaults: Array<[string, string]> = []): string =>
+  `${XML_DECLARATION}<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">`
+  + '<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>'
+  + '<Default Extension="xml" ContentType="application/xml"/>'
+  + defaults.map(([extension, contentType]) => `<Default Extension="${extension}" ContentType="${contentType}"/>`).join('')
+  + overrides.map(([partName, contentType]) => `<Override PartName="/${partName}" ContentType="${contentType}"/>`).join('')
+  + '<Override PartName="/docProps/core.xml" ContentType="application/vnd.openxmlformats-package.core-properties+xml"/>'
+  + '<Override PartName="/docProps/app.xml" ContentType="application/vnd.openxmlformats-officedocument.extended-properties+xml"/>'
+  + '</Types>';
+
+/**
+ * _rels/.rels pointing at the main part and the document properties
+ */
+export const buildPackageRelationshipsXml = (mainPart: string): string =>
+  `${XML_DECLARATION}<Relationships xmlns="${NS_PACKAGE_REL}">`
+  + `<Relationship Id="rId1" Type="${NS_REL}/officeDocument" Target="${mainPart}"/>`
+  + `<Relationship Id="rId2" Type="${NS_PACKAGE_REL}/metadata/core-properties" Target="docProps/core.xml"/>`
+  + `<Relationship Id="rId3" Type="${NS_REL}/extended-properties" Target="docProps/app.xml"/>`
+  + '</Relationships>';
+
+/**
+ * docProps/core.xml with the title, the creator and the current time
+ */
+export const buildCorePropertiesXml = (title?: string): string => {
+  const now = new Date().toISOString().replace(/\.\d+Z$/, 'Z');
+  return `${XML_DECLARATION}<cp:coreProperties xmlns:cp="http://schemas.openxmlformats.org/package/2006/metadata/core-properties" xmlns:dc="http://purl.org/dc/elements/1.1/" xmlns:dcterms="http://purl.org/dc/terms/" xmlns:xsi="http://www.w3.org/2001/XMLSchema-instance">`
+    + (title ? `<dc:title>${escapeXml(title)}</dc:title>` : '')
+    + '<dc:creator>Vixert File Converter</dc:creator>'
+    + `<dcterms:created xsi:type="dcterms:W3CDTF">${now}</dcterms:created>`
+    + `<dcterms:modified xsi:type="dcterms:W3CDTF">${now}</dcterms:modified>`
+    + '</cp:coreProperties>';
+};
+
+// docProps/app.xml
+export const APP_PROPERTIES_XML = `${XML_DECLARATION}<Properties xmlns="http://schemas.openxmlformats.org/officeDocument/2006/extended-properties"><Application>Vixert File Converter</Application></Properties>`;
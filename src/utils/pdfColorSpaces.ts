@@ -0,0 +1,175 @@
+/**
+ * PDF colour spaces
+ * Converts colour components from any supported colour space to sRGB.
+ */
+
+import { createPdfFunction } from './pdfFunctions';
+import { isName, isPdfString, isStream, PdfDocument, PdfObject } from './pdfParser';
+
+export type RGB = [number, number, number];
+
+export interface PdfColorSpace {
+  name: string;
+  components: number;
+  defaultColor: number[];
+  // Components are in the colour space's natural range (0..1, or index for Indexed)
+  toRGB: (components: number[]) => RGB;
+}
+
+const clamp01 = (value: number) => (value < 0 ? 0 : value > 1 ? 1 : value);
+
+const DEVICE_GRAY: PdfColorSpace = {
+  name: 'DeviceGray',
+  components: 1,
+  defaultColor: [0],
+  toRGB: ([gray = 0]) => {
+    const value = Math.round(clamp01(gray) * 255);
+    return [value, value, value];
+  },
+};
+
+const DEVICE_RGB: PdfColorSpace = {
+  name: 'DeviceRGB',
+  components: 3,
+  defaultColor: [0, 0, 0],
+  toRGB: ([r = 0, g = 0, b = 0]) => [Math.round(clamp01(r) * 255), Math.round(clamp01(g) * 255), Math.round(clamp01(b) * 255)],
+};
+
+const DEVICE_CMYK: PdfColorSpace = {
+  name: 'DeviceCMYK',
+  components: 4,
+  defaultColor: [0, 0, 0, 1],
+  toRGB: ([c = 0, m = 0, y = 0, k = 1]) => [
+    Math.round(255 * (1 - clamp01(c)) * (1 - clamp01(k))),
+    Math.round(255 * (1 - clamp01(m)) * (1 - clamp01(k))),
+    Math.round(255 * (1 - clamp01(y)) * (1 - clamp01(k))),
+  ],
+};
+
+const LAB_WHITE: RGB = [0.9505, 1, 1.089];
+
+const labToRGB = (l: number, a: number, b: number): RGB => {
+  const fy = (l + 16) / 116;
+  const fx = fy + a / 500;
+  const fz = fy - b / 200;
+  const inverse = (t: number) => (t > 6 / 29 ? t * t * t : 3 * (6 / 29) * (6 / 29) * (t - 4 / 29));
+  const x = LAB_WHITE[0] * inverse(fx);
+  const y = LAB_WHITE[1] * inverse(fy);
+  const z = LAB_WHITE[2] * inverse(fz);
+  const linear = [
+    3.2406 * x - 1.5372 * y - 0.4986 * z,
+    -0.9689 * x + 1.8758 * y + 0.0415 * z,
+    0.0557 * x - 0.204 * y + 1.057 * z,
+  ];
+  return linear.map(c => {
+    const v = c <= 0.0031308 ? 12.92 * c : 1.055 * Math.pow(c, 1 / 2.4) - 0.055;
+    return Math.round(clamp01(v) * 255);
+  }) as RGB;
+};
+
+export const getDeviceColorSpace = (components: number): PdfColorSpace =>
+  components === 1 ? DEVICE_GRAY : components === 4 ? DEVICE_CMYK : DEVICE_RGB;
+
+/**
+ * Resolve a colour space from its name or array definition
+ * Named spaces not built in are looked up in the page resources' /ColorSpace.
+ */
+export const createColorSpace = (
+  doc: PdfDocument,
+  obj: PdfObject,
+  lookupNamed?: (name: string) => PdfObject,
+  depth = 0
+): PdfColorSpace => {
+  const value = doc.resolve(obj);
+  if (depth > 8) return DEVICE_RGB;
+
+  if (isName(value)) {
+    switch (value.name) {
+      case 'DeviceGray': case 'G': case 'CalGray': return DEVICE_GRAY;
+      case 'DeviceRGB': case 'RGB': case 'CalRGB': return DEVICE_RGB;
+      case 'DeviceCMYK': case 'CMYK': return DEVICE_CMYK;
+      case 'Pattern': return { name: 'Pattern', components: 0, defaultColor: [], toRGB: () => [0, 0, 0] };
+      default: {
+        const named = lookupNamed?.(value.name);
+        return named !== undefined && named !== null ? createColorSpace(doc, named, lookupNamed, depth + 1) : DEVICE_RGB;
+      }
+    }
+  }
+
+  if (!Array.isArray(value) || !isName(doc.resolve(value[0]))) return DEVICE_RGB;
+  const family = (doc.resolve(value[0]) as { name: string }).name;
+
+  switch (family) {
+    case 'CalGray': return DEVICE_GRAY;
+    case 'CalRGB': return DEVICE_RGB;
+    case 'CalCMYK': return DEVICE_CMYK;
+    case 'ICCBased': {
+      const stream = doc.resolve(value[1]);
+      if (isStream(stream)) {
+        const alternate = doc.get(stream, 'Alternate');
+        if (alternate) return createColorSpace(doc, alternate, lookupNamed, depth + 1);
+        const n = doc.get(stream, 'N');
+        return getDeviceColorSpace(typeof n === 'number' ? n : 3);
+      }
+      return DEVICE_RGB;
+    }
+    case 'Lab': {
+      return {
+        name: 'Lab',
+        components: 3,
+        defaultColor: [0, 0, 0],
+        toRGB: ([l = 0, a = 0, b = 0]) => labToRGB(l, a, b),
+      };
+    }
+    case 'Indexed': case 'I': {
+      const base = createColorSpace(doc, value[1], lookupNamed, depth + 1);
+      const hival = (doc.resolve(value[2]) as number) || 0;
+      const lookupObj = doc.resolve(value[3]);
+      const lookup = isStream(lookupObj)
+        ? doc.getStreamData(lookupObj)
+        : isPdfString(lookupObj) ? lookupObj.bytes : new Uint8Array(0);
+      const palette: RGB[] = [];
+      for (let i = 0; i <= hival; i++) {
+        const components: number[] = [];
+        for (let j = 0; j < base.components; j++) components.push((lookup[i * base.components + j] ?? 0) / 255);
+        palette.push(base.name === 'Lab' ? base.toRGB(components.map((c, j) => (j === 0 ? c * 100 : c * 255 - 128))) : base.toRGB(components));
+      }
+      return {
+        name: 'Indexed',
+        components: 1,
+        defaultColor: [0],
+        toRGB: ([index = 0]) => palette[Math.max(0, Math.min(palette.length - 1, Math.round(index)))] || [0, 0, 0],
+      };
+    }
+    case 'Separation': case 'DeviceN': {
+      const isSeparation = family === 'Separation';
+      const names = doc.resolve(value[1]);
+      const components = isSeparation ? 1 : Array.isArray(names) ? names.length : 1;
+      const alternate = createColorSpace(doc, value[2], lookupNamed, depth + 1);
+      const tintTransform = createPdfFunction(doc, value[3]);
+      if (isSeparation && isName(names, 'None')) {
+        return { name: family, components, defaultColor: [1], toRGB: () => [255, 255, 255] };
+      }
+      return {
+        name: family,
+        components,
+        defaultColor: new Array(components).fill(1),
+        toRGB: tints => {
+          if (!tintTransform) {
+            // Without a transform, treat the tint as ink coverage
+            const gray = 1 - Math.max(...tints.map(clamp01));
+            return DEVICE_GRAY.toRGB([gray]);
+          }
+          return alternate.toRGB(tintTransform(tints));
+        },
+      };
+    }
+    case 'Pattern':
+      return { name: 'Pattern', components: 0, defaultColor: [], toRGB: () => [0, 0, 0] };
+    default:
+      return DEVICE_RGB;
+  }
+};
+
+export const rgbToCss = ([r, g, b]: RGB, alpha = 1): string =>
+  alpha >= 1 ? `rgb(${r}, ${g}, ${b})` : `rgba(${r}, ${g}, ${b}, ${alpha})`;
@@ -0,0 +1,171 @@
+/**
+ * PDF content stream reader
+ * Splits page content into operators with their operands and provides
+ * the matrix helpers shared by text extraction and rendering.
+ */
+
+import {
+  createLexer,
+  isDict,
+  isKeyword,
+  parseObject,
+  PdfDict,
+  PdfObject,
+  PdfPage,
+} from './pdfParser';
+
+export type Matrix = [number, number, number, number, number, number];
+
+export const IDENTITY_MATRIX: Matrix = [1, 0, 0, 1, 0, 0];
+
+export interface InlineImage {
+  dict: PdfDict;
+  data: Uint8Array;
+}
+
+export interface PdfOperation {
+  operator: string;
+  operands: PdfObject[];
+  inlineImage?: InlineImage;
+}
+
+/**
+ * Multiply two affine matrices (m1 applied first, then m2)
+ */
+export const multiplyMatrix = (m1: Matrix, m2: Matrix): Matrix => [
+  m1[0] * m2[0] + m1[1] * m2[2],
+  m1[0] * m2[1] + m1[1] * m2[3],
+  m1[2] * m2[0] + m1[3] * m2[2],
+  m1[2] * m2[1] + m1[3] * m2[3],
+  m1[4] * m2[0] + m1[5] * m2[2] + m2[4],
+  m1[4] * m2[1] + m1[5] * m2[3] + m2[5],
+];
+
+export const applyMatrix = (m: Matrix, x: number, y: number): [number, number] => [
+  m[0] * x + m[2] * y + m[4],
+  m[1] * x + m[3] * y + m[5],
+];
+
+export const toMatrix = (obj: PdfObject): Matrix | null => {
+  if (!Array.isArray(obj) || obj.length < 6) return null;
+  const values = obj.slice(0, 6).map(v => (typeof v === 'number' ? v : 0));
+  return values as Matrix;
+};
+
+export interface PageViewport {
+  width: number;
+  height: number;
+  // Maps PDF user space to top-left-origin device space
+  transform: Matrix;
+}
+
+/**
+ * Compute the device transform for a page at the given scale (1 = 72 DPI),
+ * honouring the crop box and /Rotate
+ */
+export const getPageViewport = (page: PdfPage, scale = 1): PageViewport => {
+  const [x0, y0, x1, y1] = page.cropBox;
+  const boxWidth = x1 - x0;
+  const boxHeight = y1 - y0;
+  const rotate = page.rotate;
+
+  // Flip the y axis and move the crop box origin to (0, 0)
+  let transform: Matrix = [1, 0, 0, -1, -x0, y1];
+  let width = boxWidth;
+  let height = boxHeight;
+
+  if (rotate === 90) {
+    transform = multiplyMatrix(transform, [0, 1, -1, 0, boxHeight, 0]);
+    width = boxHeight;
+    height = boxWidth;
+  } else if (rotate === 180) {
+    transform = multiplyMatrix(transform, [-1, 0, 0, -1, boxWidth, boxHeight]);
+  } else if (rotate === 270) {
+    transform = multiplyMatrix(transform, [0, -1, 1, 0, 0, boxWidth]);
+    width = boxHeight;
+    height = boxWidth;
+  }
+
+  transform = multiplyMatrix(transform, [scale, 0, 0, scale, 0, 0]);
+  return { width: width * scale, height: height * scale, transform };
+};
+
+const isWhitespaceByte = (byte: number | undefined) =>
+  byte === 0x20 || byte === 0x0a || byte === 0x0d || byte === 0x09 || byte === 0x0c || byte === 0x00;
+
+/**
+ * Read the binary payload of an inline image (between ID and EI)
+ */
+const readInlineImageData = (bytes: Uint8Array, start: number): { data: Uint8Array; end: number } => {
+  // Exactly one whitespace byte separates ID from the data
+  const dataStart = isWhitespaceByte(bytes[start]) ? start + 1 : start;
+
+  for (let i = dataStart; i < bytes.length - 1; i++) {
+    if (
+      bytes[i] === 0x45 && bytes[i + 1] === 0x49 &&
+      isWhitespaceByte(bytes[i - 1]) &&
+      (i + 2 >= bytes.length || isWhitespaceByte(bytes[i + 2]))
+    ) {
+      return { data: bytes.subarray(dataStart, i - 1), end: i + 2 };
+    }
+  }
+
+  return { data: bytes.subarray(dataStart), end: bytes.length };
+};
+
+/**
+ * Parse a content stream into a flat list of operations
+ */
+export const parseContentStream = (bytes: Uint8Array): PdfOperation[] => {
+  const lexer = createLexer(bytes);
+  const operations: PdfOperation[] = [];
+  let operands: PdfObject[] = [];
+
+  for (;;) {
+    const token = parseObject(lexer, false);
+    if (token === undefined) break;
+
+    if (!isKeyword(token)) {
+      operands.push(token as PdfObject);
+      continue;
+    }
+
+    if (token.value === 'BI') {
+      // Inline image: key/value pairs until ID, then raw data until EI
+      const entries = new Map<string, PdfObject>();
+      for (;;) {
+        const key = parseObject(lexer, false);
+        if (key === undefined || isKeyword(key, 'ID')) break;
+        const value = parseObject(lexer, false);
+        if (typeof key === 'object' && key !== null && !Array.isArray(key) && key.type === 'name' && !isKeyword(value)) {
+          entries.set(key.name, (value ?? null) as PdfObject);
+        }
+      }
+      const { data, end } = readInlineImageData(bytes, lexer.pos);
+      lexer.pos = end;
+      operations.push({ operator: 'BI', operands: [], inlineImage: { dict: { type: 'dict', entries }, data } });
+      operands = [];
+      continue;
+    }
+
+    operations.push({ operator: token.value, operands });
+    operands = [];
+  }
+
+  return operations;
+};
+
+/**
+ * Look up a named resource (font, XObject, ...) in a resource dictionary
+ */
+export const getResource = (
+  resolve: (obj: PdfObject | undefined) => PdfObject,
+  resources: PdfDict | null,
+  category: string,
+  name: string
+): PdfObject => {
+  if (!resources) return null;
+  const group = resolve(resources.entries.get(category));
+  if (!isDict(group)) return null;
+  return resolve(group.entries.get(name));
+};
@@ -0,0 +1,477 @@
+/**
+ * Cryptographic primitives for PDF decryption
+ * MD5, SHA-2, RC4 and AES in pure TypeScript. They run synchronously, like
+ * the PDF parser that calls them, and work in workers without WebCrypto.
+ */
+
+// MD5 (RFC 1321) rotation amounts for each step
+const MD5_SHIFTS = [
+  7, 12, 17, 22, 7, 12, 17, 22, 7, 12, 17, 22, 7, 12, 17, 22,
+  5, 9, 14, 20, 5, 9, 14, 20, 5, 9, 14, 20, 5, 9, 14, 20,
+  4, 11, 16, 23, 4, 11, 16, 23, 4, 11, 16, 23, 4, 11, 16, 23,
+  6, 10, 15, 21, 6, 10, 15, 21, 6, 10, 15, 21, 6, 10, 15, 21,
+];
+const MD5_CONSTANTS = Array.from({ length: 64 }, (_, i) => Math.floor(Math.abs(Math.sin(i + 1)) * 2 ** 32) | 0);
+
+const rotateLeft = (value: number, bits: number): number => (value << bits) | (value >>> (32 - bits));
+
+export const md5 = (data: Uint8Array): Uint8Array => {
+  const paddedLength = (((data.length + 8) >>> 6) + 1) * 64;
+  const padded = new Uint8Array(paddedLength);
+  padded.set(data);
+  padded[data.length] = 0x80;
+  const view = new DataView(padded.buffer);
+  view.setUint32(paddedLength - 8, (data.length * 8) >>> 0, true);
+  view.setUint32(paddedLength - 4, Math.floor(data.length / 2 ** 29), true);
+
+  let h0 = 0x67452301;
+  let h1 = 0xefcdab89 | 0;
+  let h2 = 0x98badcfe | 0;
+  let h3 = 0x10325476;
+  const words = new Int32Array(16);
+
+  for (let block = 0; block < paddedLength; block += 64) {
+    for (let i = 0; i < 16; i++) words[i] = view.getInt32(block + i * 4, true);
+    let a = h0;
+    let b = h1;
+    let c = h2;
+    let d = h3;
+    for (let i = 0; i < 64; i++) {
+      let f: number;
+      let g: number;
+      if (i < 16) {
+        f = (b & c) | (~b & d);
+        g = i;
+      } else if (i < 32) {
+        f = (d & b) | (~d & c);
+        g = (5 * i + 1) % 16;
+      } else if (i < 48) {
+        f = b ^ c ^ d;
+        g = (3 * i + 5) % 16;
+      } else {
+        f = c ^ (b | ~d);
+        g = (7 * i) % 16;
+      }
+      f = (f + a + MD5_CONSTANTS[i] + words[g]) | 0;
+      a = d;
+      d = c;
+      c = b;
+      b = (b + rotateLeft(f, MD5_SHIFTS[i])) | 0;
+    }
+    h0 = (h0 + a) | 0;
+    h1 = (h1 + b) | 0;
+    h2 = (h2 + c) | 0;
+    h3 = (h3 + d) | 0;
+  }
+
+  const digest = new Uint8Array(16);
+  const digestView = new DataView(digest.buffer);
+  [h0, h1, h2, h3].forEach((value, index) => digestView.setInt32(index * 4, value, true));
+  return digest;
+};
+
+const firstPrimes = (count: number): number[] => {
+  const primes: number[] = [];
+  for (let candidate = 2; primes.length < count; candidate++) {
+    if (primes.every(prime => candidate % prime !== 0)) primes.push(candidate);
+  }
+  return primes;
+};
+
+const integerRoot = (value: bigint, degree: bigint): bigint => {
+  // Newton's method from an overestimate
+  let x = 1n << (BigInt(value.toString(2).length) / degree + 1n);
+  for (;;) {
+    const next = ((degree - 1n) * x + value / x ** (degree - 1n)) / degree;
+    if (next >= x) return x;
+    x = next;
+  }
+};
+
+// The fractional bits of square and cube roots of primes, as FIPS 180-4 defines the constants
+const rootFractions = (primes: number[], degree: bigint, bits: bigint): bigint[] =>
+  primes.map(prime => integerRoot(BigInt(prime) << (bits * degree), degree) & ((1n << bits) - 1n));
+
+interface Sha2Constants {
+  sha256Init: Int32Array;
+  sha256Rounds: Int32Array;
+  // 64-bit values as high and low halves
+  sha512Init: Int32Array;
+  sha384Init: Int32Array;
+  sha512Rounds: Int32Array;
+}
+
+let sha2Constants: Sha2Constants | null = null;
+
+const toInt32Array = (values: bigint[], halves: boolean): Int32Array =>
+  Int32Array.from(values.flatMap(value => halves
+    ? [Number(BigInt.asIntN(32, value >> 32n)), Number(BigInt.asIntN(32, value))]
+    : [Number(BigInt.asIntN(32, value))]));
+
+const getSha2Constants = (): Sha2Constants => {
+  if (!sha2Constants) {
+    const primes = firstPrimes(80);
+    sha2Constants = {
+      sha256Init: toInt32Array(rootFractions(primes.slice(0, 8), 2n, 32n), false),
+      sha256Rounds: toInt32Array(rootFractions(primes.slice(0, 64), 3n, 32n), false),
+      sha512Init: toInt32Array(rootFractions(primes.slice(0, 8), 2n, 64n), true),
+      sha384Init: toInt32Array(rootFractions(primes.slice(8, 16), 2n, 64n), true),
+      sha512Rounds: toInt32Array(rootFractions(primes, 3n, 64n), true),
+    };
+  }
+  return sha2Constants;
+};
+
+// Message padded to whole blocks, ending with its length in bits
+const padMessage = (data: Uint8Array, blockSize: number): Uint8Array => {
+  const lengthSize = blockSize / 8;
+  const paddedLength = Math.ceil((data.length + 1 + lengthSize) / blockSize) * blockSize;
+  const padded = new Uint8Array(paddedLength);
+  padded.set(data);
+  padded[data.length] = 0x80;
+  const view = new DataView(padded.buffer);
+  view.setUint32(paddedLength - 8, Math.floor(data.length / 2 ** 29));
+  view.setUint32(paddedLength - 4, (data.length * 8) >>> 0);
+  return padded;
+};
+
+const rotateRight = (value: number, bits: number): number => (value >>> bits) | (value << (32 - bits));
+
+export const sha256 = (data: Uint8Array): Uint8Array => {
+  const { sha256Init, sha256Rounds } = getSha2Constants();
+  const padded = padMessage(data, 64);
+  const view = new DataView(padded.buffer);
+  const hash = Int32Array.from(sha256Init);
+  const w = new Int32Array(64);
+
+  for (let block = 0; block < padded.length; block += 64) {
+    for (let i = 0; i < 16; i++) w[i] = view.getInt32(block + i * 4);
+    for (let i = 16; i < 64; i++) {
+      const s0 = rotateRight(w[i - 15], 7) ^ rotateRight(w[i - 15], 18) ^ (w[i - 15] >>> 3);
+      const s1 = rotateRight(w[i - 2], 17) ^ rotateRight(w[i - 2], 19) ^ (w[i - 2] >>> 10);
+      w[i] = (w[i - 16] + s0 + w[i - 7] + s1) | 0;
+    }
+
+    let [a, b, c, d, e, f, g, h] = hash;
+    for (let i = 0; i < 64; i++) {
+      const t1 = (h + (rotateRight(e, 6) ^ rotateRight(e, 11) ^ rotateRight(e, 25)) + ((e & f) ^ (~e & g)) + sha256Rounds[i] + w[i]) | 0;
+      const t2 = ((rotateRight(a, 2) ^ rotateRight(a, 13) ^ rotateRight(a, 22)) + ((a & b) ^ (a & c) ^ (b & c))) | 0;
+      h = g;
+      g = f;
+      f = e;
+      e = (d + t1) | 0;
+      d = c;
+      c = b;
+      b = a;
+      a = (t1 + t2) | 0;
+    }
+    [a, b, c, d, e, f, g, h].forEach((value, index) => {
+      hash[index] = (hash[index] + value) | 0;
+    });
+  }
+
+  const digest = new Uint8Array(32);
+  const digestView = new DataView(digest.buffer);
+  hash.forEach((value, index) => digestView.setInt32(index * 4, value));
+  return digest;
+};
+
+/**
+ * SHA-512 core on 32-bit halves; `init` picks SHA-512 or SHA-384
+ */
+const sha512Core = (data: Uint8Array, init: Int32Array, digestLength: number): Uint8Array => {
+  const { sha512Rounds: k } = getSha2Constants();
+  const padded = padMessage(data, 128);
+  const view = new DataView(padded.buffer);
+  const hash = Int32Array.from(init);
+  const w = new Int32Array(160);
+  const state = new Int32Array(16);
+
+  // 64-bit addition of (ah, al) and (bh, bl), written to `target` at `index`
+  const add = (target: Int32Array, index: number, ah: number, al: number, bh: number, bl: number) => {
+    const low = (al >>> 0) + (bl >>> 0);
+    target[index] = (ah + bh + (low > 0xffffffff ? 1 : 0)) | 0;
+    target[index + 1] = low | 0;
+  };
+  const sum = new Int32Array(2);
+
+  for (let block = 0; block < padded.length; block += 128) {
+    for (let i = 0; i < 32; i++) w[i] = view.getInt32(block + i * 4);
+    for (let i = 16; i < 80; i++) {
+      const xh = w[(i - 15) * 2];
+      const xl = w[(i - 15) * 2 + 1];
+      // σ0 = rotr 1 ^ rotr 8 ^ shr 7
+      const s0h = ((xh >>> 1) | (xl << 31)) ^ ((xh >>> 8) | (xl << 24)) ^ (xh >>> 7);
+      const s0l = ((xl >>> 1) | (xh << 31)) ^ ((xl >>> 8) | (xh << 24)) ^ ((xl >>> 7) | (xh << 25));
+      const yh = w[(i - 2) * 2];
+      const yl = w[(i - 2) * 2 + 1];
+      // σ1 = rotr 19 ^ rotr 61 ^ shr 6
+      const s1h = ((yh >>> 19) | (yl << 13)) ^ ((yl >>> 29) | (yh << 3)) ^ (yh >>> 6);
+      const s1l = ((yl >>> 19) | (yh << 13)) ^ ((yh >>> 29) | (yl << 3)) ^ ((yl >>> 6) | (yh << 26));
+      add(sum, 0, w[(i - 16) * 2], w[(i - 16) * 2 + 1], s0h, s0l);
+      add(sum, 0, sum[0], sum[1], w[(i - 7) * 2], w[(i - 7) * 2 + 1]);
+      add(w, i * 2, sum[0], sum[1], s1h, s1l);
+    }
+
+    state.set(hash);
+    for (let i = 0; i < 80; i++) {
+      const ah = state[0], al = state[1], bh = state[2], bl = state[3];
+      const ch = state[4], cl = state[5], dh = state[6], dl = state[7];
+      const eh = state[8], el = state[9], fh = state[10], fl = state[11];
+      const gh = state[12], gl = state[13], hh = state[14], hl = state[15];
+      // Σ1(e) = rotr 14 ^ rotr 18 ^ rotr 41
+      const e1h = ((eh >>> 14) | (el << 18)) ^ ((eh >>> 18) | (el << 14)) ^ ((el >>> 9) | (eh << 23));
+      const e1l = ((el >>> 14) | (eh << 18)) ^ ((el >>> 18) | (eh << 14)) ^ ((eh >>> 9) | (el << 23));
+      const chh = (eh & fh) ^ (~eh & gh);
+      const chl = (el & fl) ^ (~el & gl);
+      add(sum, 0, hh, hl, e1h, e1l);
+      add(sum, 0, sum[0], sum[1], chh, chl);
+      add(sum, 0, sum[0], sum[1], k[i * 2], k[i * 2 + 1]);
+      add(sum, 0, sum[0], sum[1], w[i * 2], w[i * 2 + 1]);
+      const t1h = sum[0];
+      const t1l = sum[1];
+      // Σ0(a) = rotr 28 ^ rotr 34 ^ rotr 39
+      const a0h = ((ah >>> 28) | (al << 4)) ^ ((al >>> 2) | (ah << 30)) ^ ((al >>> 7) | (ah << 25));
+      const a0l = ((al >>> 28) | (ah << 4)) ^ ((ah >>> 2) | (al << 30)) ^ ((ah >>> 7) | (al << 25));
+      const majh = (ah & bh) ^ (ah & ch) ^ (bh & ch);
+      const majl = (al & bl) ^ (al & cl) ^ (bl & cl);
+      state.copyWithin(2, 0, 14);
+      add(state, 8, dh, dl, t1h, t1l);
+      add(sum, 0, a0h, a0l, majh, majl);
+      add(state, 0, t1h, t1l, sum[0], sum[1]);
+    }
+    for (let i = 0; i < 16; i += 2) add(hash, i, hash[i], hash[i + 1], state[i], state[i + 1]);
+  }
+
+  const digest = new Uint8Array(64);
+  const digestView = new DataView(digest.buffer);
+  hash.forEach((value, index) => digestView.setInt32(index * 4, value));
+  return digest.slice(0, digestLength);
+};
+
+export const sha384 = (data: Uint8Array): Uint8Array => sha512Core(data, getSha2Constants().sha384Init, 48);
+
+export const sha512 = (data: Uint8Array): Uint8Array => sha512Core(data, getSha2Constants().sha512Init, 64);
+
+export const rc4 = (key: Uint8Array, data: Uint8Array): Uint8Array => {
+  const s = new Uint8Array(256);
+  for (let i = 0; i < 256; i++) s[i] = i;
+  for (let i = 0, j = 0; i < 256; i++) {
+    j = (j + s[i] + key[i % key.length]) & 0xff;
+    [s[i], s[j]] = [s[j], s[i]];
+  }
+
+  const output = new Uint8Array(data.length);
+  for (let n = 0, i = 0, j = 0; n < data.length; n++) {
+    i = (i + 1) & 0xff;
+    j = (j + s[i]) & 0xff;
+    [s[i], s[j]] = [s[j], s[i]];
+    output[n] = data[n] ^ s[(s[i] + s[j]) & 0xff];
+  }
+  return output;
+};
+
+// AES (FIPS 197) S-box and its inverse
+const SBOX = new Uint8Array(256);
+const INV_SBOX = new Uint8Array(256);
+
+const multiply = (a: number, b: number): number => {
+  let product = 0;
+  for (; b; b >>= 1) {
+    if (b & 1) product ^= a;
+    a = (a << 1) ^ (a & 0x80 ? 0x11b : 0);
+  }
+  return product;
+};
+
+// S-box from multiplicative inverses in GF(2^8) and the affine transform
+for (let x = 0; x < 256; x++) {
+  let inverse = 0;
+  for (let y = 1; x && y < 256; y++) {
+    if (multiply(x, y) === 1) {
+      inverse = y;
+      break;
+    }
+  }
+  let value = inverse;
+  for (let shift = 1; shift <= 4; shift++) value ^= ((inverse << shift) | (inverse >> (8 - shift))) & 0xff;
+  SBOX[x] = value ^ 0x63;
+  INV_SBOX[SBOX[x]] = x;
+}
+
+// Round tables combining SubBytes and MixColumns on big-endian column words;
+// the second to fourth tables are the first rotated by one to three bytes
+const ENCRYPT_TABLES = Array.from({ length: 4 }, () => new Int32Array(256));
+const DECRYPT_TABLES = Array.from({ length: 4 }, () => new Int32Array(256));
+for (let x = 0; x < 256; x++) {
+  const s = SBOX[x];
+  const i = INV_SBOX[x];
+  let encrypt = (multiply(s, 2) << 24) | (s << 16) | (s << 8) | multiply(s, 3);
+  let decrypt = (multiply(i, 14) << 24) | (multiply(i, 9) << 16) | (multiply(i, 13) << 8) | multiply(i, 11);
+  for (let table = 0; table < 4; table++) {
+    ENCRYPT_TABLES[table][x] = encrypt;
+    DECRYPT_TABLES[table][x] = decrypt;
+    encrypt = (encrypt >>> 8) | (encrypt << 24);
+    decrypt = (decrypt >>> 8) | (decrypt << 24);
+  }
+}
+const [TE0, TE1, TE2, TE3] = ENCRYPT_TABLES;
+const [TD0, TD1, TD2, TD3] = DECRYPT_TABLES;
+
+interface AesKey {
+  rounds: number;
+  // Four words per round
+  encrypt: Int32Array;
+  // Round keys of the equivalent inverse cipher, last round first
+  decrypt: Int32Array;
+}
+
+const subWord = (word: number): number =>
+  (SBOX[word >>> 24] << 24) | (SBOX[(word >>> 16) & 0xff] << 16) | (SBOX[(word >>> 8) & 0xff] << 8) | SBOX[word & 0xff];
+
+const expandKey = (key: Uint8Array): AesKey => {
+  const keyWords = key.length / 4;
+  if (![4, 6, 8].includes(keyWords)) throw new Error(`Invalid AES key length: ${key.length} bytes`);
+  const rounds = keyWords + 6;
+  const total = 4 * (rounds + 1);
+  const encrypt = new Int32Array(total);
+  const keyView = new DataView(key.buffer, key.byteOffset, key.byteLength);
+  for (let i = 0; i < keyWords; i++) encrypt[i] = keyView.getInt32(i * 4);
+
+  let rcon = 1;
+  for (let i = keyWords; i < total; i++) {
+    let temp = encrypt[i - 1];
+    if (i % keyWords === 0) {
+      temp = subWord((temp << 8) | (temp >>> 24)) ^ (rcon << 24);
+      rcon = multiply(rcon, 2);
+    } else if (keyWords > 6 && i % keyWords === 4) {
+      temp = subWord(temp);
+    }
+    encrypt[i] = encrypt[i - keyWords] ^ temp;
+  }
+
+  // InvMixColumns is applied to the inner round keys
+  const decrypt = new Int32Array(total);
+  for (let round = 0; round <= rounds; round++) {
+    for (let j = 0; j < 4; j++) {
+      const word = encrypt[(rounds - round) * 4 + j];
+      decrypt[round * 4 + j] = round === 0 || round === rounds
+        ? word
+        : TD0[SBOX[word >>> 24]] ^ TD1[SBOX[(word >>> 16) & 0xff]] ^ TD2[SBOX[(word >>> 8) & 0xff]] ^ TD3[SBOX[word & 0xff]];
+    }
+  }
+  return { rounds, encrypt, decrypt };
+};
+
+// Encrypt or decrypt the four words in `block` in place
+const encryptBlock = (block: Int32Array, { rounds, encrypt: k }: AesKey) => {
+  let s0 = block[0] ^ k[0];
+  let s1 = block[1] ^ k[1];
+  let s2 = block[2] ^ k[2];
+  let s3 = block[3] ^ k[3];
+  for (let round = 1; round < rounds; round++) {
+    const o = round * 4;
+    const t0 = TE0[s0 >>> 24] ^ TE1[(s1 >>> 16) & 0xff] ^ TE2[(s2 >>> 8) & 0xff] ^ TE3[s3 & 0xff] ^ k[o];
+    const t1 = TE0[s1 >>> 24] ^ TE1[(s2 >>> 16) & 0xff] ^ TE2[(s3 >>> 8) & 0xff] ^ TE3[s0 & 0xff] ^ k[o + 1];
+    const t2 = TE0[s2 >>> 24] ^ TE1[(s3 >>> 16) & 0xff] ^ TE2[(s0 >>> 8) & 0xff] ^ TE3[s1 & 0xff] ^ k[o + 2];
+    const t3 = TE0[s3 >>> 24] ^ TE1[(s0 >>> 16) & 0xff] ^ TE2[(s1 >>> 8) & 0xff] ^ TE3[s2 & 0xff] ^ k[o + 3];
+    s0 = t0;
+    s1 = t1;
+    s2 = t2;
+    s3 = t3;
+  }
+  const o = rounds * 4;
+  block[0] = subWord((s0 & 0xff000000) | (s1 & 0xff0000) | (s2 & 0xff00) | (s3 & 0xff)) ^ k[o];
+  block[1] = subWord((s1 & 0xff000000) | (s2 & 0xff0000) | (s3 & 0xff00) | (s0 & 0xff)) ^ k[o + 1];
+  block[2] = subWord((s2 & 0xff000000) | (s3 & 0xff0000) | (s0 & 0xff00) | (s1 & 0xff)) ^ k[o + 2];
+  block[3] = subWord((s3 & 0xff000000) | (s0 & 0xff0000) | (s1 & 0xff00) | (s2 & 0xff)) ^ k[o + 3];
+};
+
+const invSubWord = (word: number): number =>
+  (INV_SBOX[word >>> 24] << 24) | (INV_SBOX[(word >>> 16) & 0xff] << 16) | (INV_SBOX[(word >>> 8) & 0xff] << 8) | INV_SBOX[word & 0xff];
+
+const decryptBlock = (block: Int32Array, { rounds, decrypt: k }: AesKey) => {
+  let s0 = block[0] ^ k[0];
+  let s1 = block[1] ^ k[1];
+  let s2 = block[2] ^ k[2];
+  let s3 = block[3] ^ k[3];
+  for (let round = 1; round < rounds; round++) {
+    const o = round * 4;
+    const t0 = TD0[s0 >>> 24] ^ TD1[(s3 >>> 16) & 0xff] ^ TD2[(s2 >>> 8) & 0xff] ^ TD3[s1 & 0xff] ^ k[o];
+    const t1 = TD0[s1 >>> 24] ^ TD1[(s0 >>> 16) & 0xff] ^ TD2[(s3 >>> 8) & 0xff] ^ TD3[s2 & 0xff] ^ k[o + 1];
+    const t2 = TD0[s2 >>> 24] ^ TD1[(s1 >>> 16) & 0xff] ^ TD2[(s0 >>> 8) & 0xff] ^ TD3[s3 & 0xff] ^ k[o + 2];
+    const t3 = TD0[s3 >>> 24] ^ TD1[(s2 >>> 16) & 0xff] ^ TD2[(s1 >>> 8) & 0xff] ^ TD3[s0 & 0xff] ^ k[o + 3];
+    s0 = t0;
+    s1 = t1;
+    s2 = t2;
+    s3 = t3;
+  }
+  const o = rounds * 4;
+  block[0] = invSubWord((s0 & 0xff000000) | (s3 & 0xff0000) | (s2 & 0xff00) | (s1 & 0xff)) ^ k[o];
+  block[1] = invSubWord((s1 & 0xff000000) | (s0 & 0xff0000) | (s3 & 0xff00) | (s2 & 0xff)) ^ k[o + 1];
+  block[2] = invSubWord((s2 & 0xff000000) | (s1 & 0xff0000) | (s0 & 0xff00) | (s3 & 0xff)) ^ k[o + 2];
+  block[3] = invSubWord((s3 & 0xff000000) | (s2 & 0xff0000) | (s1 & 0xff00) | (s0 & 0xff)) ^ k[o + 3];
+};
+
+const readWords = (bytes: Uint8Array, offset: number, target: Int32Array) => {
+  for (let i = 0; i < 4; i++) {
+    const at = offset + i * 4;
+    target[i] = (bytes[at] << 24) | (bytes[at + 1] << 16) | (bytes[at + 2] << 8) | bytes[at + 3];
+  }
+};
+
+const writeWords = (source: Int32Array, bytes: Uint8Array, offset: number) => {
+  for (let i = 0; i < 4; i++) {
+    const word = source[i];
+    const at = offset + i * 4;
+    bytes[at] = word >>> 24;
+    bytes[at + 1] = word >>> 16;
+    bytes[at + 2] = word >>> 8;
+    bytes[at + 3] = word;
+  }
+};
+
+/**
+ * AES-CBC decryption. With `unpad`, PKCS#5 padding is removed; a trailing
+ * partial block, as some writers leave, is dropped.
+ */
+export const aesDecryptCbc = (key: Uint8Array, iv: Uint8Array, data: Uint8Array, unpad = true): Uint8Array => {
+  const aesKey = expandKey(key);
+  const length = data.length - (data.length % 16);
+  const output = new Uint8Array(length);
+  const block = new Int32Array(4);
+  const previous = new Int32Array(4);
+  readWords(iv, 0, previous);
+
+  for (let offset = 0; offset < length; offset += 16) {
+    readWords(data, offset, block);
+    decryptBlock(block, aesKey);
+    for (let i = 0; i < 4; i++) block[i] ^= previous[i];
+    writeWords(block, output, offset);
+    readWords(data, offset, previous);
+  }
+
+  const padding = output[length - 1];
+  if (unpad && length > 0 && padding >= 1 && padding <= 16) return output.subarray(0, length - padding);
+  return output;
+};
+
+/**
+ * AES-CBC encryption without padding; `data` must be a whole number of blocks
+ */
+export const aesEncryptCbc = (key: Uint8Array, iv: Uint8Array, data: Uint8Array): Uint8Array => {
+  const aesKey = expandKey(key);
+  const output = new Uint8Array(data.length - (data.length % 16));
+  const block = new Int32Array(4);
+  const previous = new Int32Array(4);
+  readWords(iv, 0, previous);
+
+  for (let offset = 0; offset < output.length; offset += 16) {
+    readWords(data, offset, block);
+    for (let i = 0; i < 4; i++) block[i] ^= previous[i];
+    encryptBlock(block, aesKey);
+    writeWords(block, output, offset);
+    previous.set(block);
+  }
+  return output;
+};
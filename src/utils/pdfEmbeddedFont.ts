@@ -0,0 +1,168 @@
+/**
+ * Embedded TrueType fonts for generated PDFs
+ * Text is written as two-byte glyph ids (Identity-H) into a Type0 font whose
+ * subset is embedded, with a ToUnicode CMap so the text stays searchable.
+ */
+
+import { getArabicBaseText } from './bidiText';
+import { PdfRaw, pdfString, PdfValue, PdfWriter } from './pdfWriter';
+import { subsetTrueType, TrueTypeFont } from './trueTypeFont';
+
+export interface EmbeddedFont {
+  font: TrueTypeFont;
+  // Original glyph ids in order of first use; the index is the glyph id in the subset
+  glyphs: number[];
+  subsetIds: Map<number, number>;
+  // Text each subset glyph stands for
+  unicode: Map<number, string>;
+}
+
+export const createEmbeddedFont = (font: TrueTypeFont): EmbeddedFont => ({
+  font,
+  glyphs: [0],
+  subsetIds: new Map([[0, 0]]),
+  unicode: new Map(),
+});
+
+/**
+ * Glyph for a character, falling back from Arabic presentation forms
+ * to the plain letter when the font lacks the form
+ */
+const getGlyph = (font: TrueTypeFont, char: string): number => {
+  const glyph = font.getGlyphId(char.codePointAt(0) ?? 0);
+  if (glyph) return glyph;
+  const base = getArabicBaseText(char);
+  return base && base.length === 1 ? font.getGlyphId(base.codePointAt(0) ?? 0) : 0;
+};
+
+export const hasGlyph = (font: TrueTypeFont, char: string): boolean => getGlyph(font, char) !== 0;
+
+/**
+ * Width of text in points
+ */
+export const measureEmbeddedText = (embedded: EmbeddedFont, text: string, fontSize: number): number => {
+  const { font } = embedded;
+  let width = 0;
+  for (const char of text) width += font.getAdvanceWidth(getGlyph(font, char));
+  return (width * fontSize) / font.unitsPerEm;
+};
+
+/**
+ * Encode text as a hex string of subset glyph ids, registering new glyphs
+ */
+export const encodeEmbeddedText = (embedded: EmbeddedFont, text: string): string => {
+  let hex = '';
+  for (const char of text) {
+    const glyph = getGlyph(embedded.font, char);
+    let subsetId = embedded.subsetIds.get(glyph);
+    if (subsetId === undefined) {
+      subsetId = embedded.glyphs.length;
+      embedded.glyphs.push(glyph);
+      embedded.subsetIds.set(glyph, subsetId);
+    }
+    if (!embedded.unicode.has(subsetId) && glyph) embedded.unicode.set(subsetId, getArabicBaseText(char) ?? char);
+    hex += subsetId.toString(16).padStart(4, '0');
+  }
+  return `<${hex}>`;
+};
+
+const toUtf16Hex = (text: string): string =>
+  Array.from({ length: text.length }, (_, index) => text.charCodeAt(index).toString(16).padStart(4, '0')).join('');
+
+const buildToUnicodeCMap = (unicode: Map<number, string>): string => {
+  const entries = Array.from(unicode.entries()).sort(([a], [b]) => a - b);
+  const chunks: string[] = [];
+  for (let i = 0; i < entries.length; i += 100) {
+    const chunk = entries.slice(i, i + 100);
+    chunks.push(
+      `${chunk.length} beginbfchar\n`
+      + chunk.map(([id, text]) => `<${id.toString(16).padStart(4, '0')}> <${toUtf16Hex(text)}>`).join('\n')
+      + '\nendbfchar'
+    );
+  }
+  return [
+    '/CIDInit /ProcSet findresource begin',
+    '12 dict begin',
+    'begincmap',
+    '/CIDSystemInfo << /Registry (Adobe) /Ordering (UCS) /Supplement 0 >> def',
+    '/CMapName /Adobe-Identity-UCS def',
+    '/CMapType 2 def',
+    '1 begincodespacerange',
+    '<0000> <FFFF>',
+    'endcodespacerange',
+    ...chunks,
+    'endcmap',
+    'CMapName currentdict /CMap defineresource pop',
+    'end',
+    'end',
+  ].join('\n');
+};
+
+/**
+ * Six-letter subset tag derived from the glyph set, e.g. "KQWZAB+"
+ */
+const getSubsetTag = (glyphs: number[]): string => {
+  let hash = 2166136261;
+  for (const glyph of glyphs) hash = Math.imul(hash ^ glyph, 16777619) >>> 0;
+  let tag = '';
+  for (let i = 0; i < 6; i++) {
+    tag += String.fromCharCode(65 + (hash % 26));
+    hash = Math.floor(hash / 26) + i * 7919;
+  }
+  return `${tag}+`;
+};
+
+/**
+ * Write the subset font with its descriptor, widths and ToUnicode map
+ */
+export const writeEmbeddedFont = (writer: PdfWriter, embedded: EmbeddedFont): PdfRaw => {
+  const { font, glyphs } = embedded;
+  const scale = 1000 / font.unitsPerEm;
+  const fontData = subsetTrueType(font, glyphs);
+  const baseFont = `${getSubsetTag(glyphs)}${font.postScriptName.replace(/[^!-~]|[#()<>[\]{}/%]/g, '')}`;
+
+  // Symbolic (4), plus fixed pitch (1) and italic (64) where the font says so
+  let flags = 4;
+  if (font.fixedPitch) flags |= 1;
+  if (font.italic) flags |= 64;
+
+  const fontFile = writer.addStream({ Length1: fontData.length }, fontData);
+  const descriptor = writer.addObject({
+    Type: 'FontDescriptor',
+    FontName: baseFont,
+    Flags: flags,
+    FontBBox: font.bbox.map(value => Math.round(value * scale)),
+    ItalicAngle: font.italicAngle,
+    Ascent: Math.round(font.ascent * scale),
+    Descent: Math.round(font.descent * scale),
+    CapHeight: Math.round(font.capHeight * scale),
+    StemV: font.bold ? 120 : 80,
+    FontFile2: fontFile,
+  });
+
+  const widths: PdfValue[] = glyphs.map(glyph => Math.round(font.getAdvanceWidth(glyph) * scale));
+  const cidFont = writer.addObject({
+    Type: 'Font',
+    Subtype: 'CIDFontType2',
+    BaseFont: baseFont,
+    CIDSystemInfo: {
+      Registry: pdfString('Adobe'),
+      Ordering: pdfString('Identity'),
+      Supplement: 0,
+    },
+    FontDescriptor: descriptor,
+    DW: widths[0] as number,
+    W: [0, widths],
+    CIDToGIDMap: 'Identity',
+  });
+
+  const toUnicode = writer.addStream({}, new TextEncoder().encode(buildToUnicodeCMap(embedded.unicode)));
+  return writer.addObject({
+    Type: 'Font',
+    Subtype: 'Type0',
+    BaseFont: baseFont,
+    Encoding: 'Identity-H',
+    DescendantFonts: [cidFont],
+    ToUnicode: toUnicode,
+  });
+};
@@ -0,0 +1,305 @@
+/**
+ * PDF stream filter implementations
+ * Decodes the standard filters used by content streams, object streams and images
+ */
+
+import { inflate } from './zlib';
+
+export interface FilterParams {
+  Predictor?: number;
+  Colors?: number;
+  BitsPerComponent?: number;
+  Columns?: number;
+  EarlyChange?: number;
+}
+
+export interface DecodedStream {
+  data: Uint8Array;
+  // Image codec left for the consumer (DCTDecode, JPXDecode, ...), if any
+  imageFilter?: string;
+  imageFilterParams?: FilterParams;
+}
+
+// Filters whose output is an encoded image rather than raw bytes
+const IMAGE_FILTERS = ['DCTDecode', 'DCT', 'JPXDecode', 'CCITTFaxDecode', 'CCF', 'JBIG2Decode'];
+
+const FILTER_ALIASES: Record<string, string> = {
+  Fl: 'FlateDecode',
+  LZW: 'LZWDecode',
+  A85: 'ASCII85Decode',
+  AHx: 'ASCIIHexDecode',
+  RL: 'RunLengthDecode',
+  DCT: 'DCTDecode',
+  CCF: 'CCITTFaxDecode',
+};
+
+const isWhitespace = (byte: number) =>
+  byte === 0x20 || byte === 0x0a || byte === 0x0d || byte === 0x09 || byte === 0x0c || byte === 0x00;
+
+/**
+ * ASCIIHexDecode: pairs of hex digits terminated by '>'
+ */
+export const decodeASCIIHex = (input: Uint8Array): Uint8Array => {
+  const output = new Uint8Array(Math.ceil(input.length / 2));
+  let length = 0;
+  let high = -1;
+
+  for (let i = 0; i < input.length; i++) {
+    const byte = input[i];
+    if (byte === 0x3e) break; // '>'
+    let digit: number;
+    if (byte >= 0x30 && byte <= 0x39) digit = byte - 0x30;
+    else if (byte >= 0x41 && byte <= 0x46) digit = byte - 0x37;
+    else if (byte >= 0x61 && byte <= 0x66) digit = byte - 0x57;
+    else continue;
+
+    if (high < 0) {
+      high = digit;
+    } else {
+      output[length++] = (high << 4) | digit;
+      high = -1;
+    }
+  }
+  if (high >= 0) output[length++] = high << 4;
+
+  return output.subarray(0, length);
+};
+
+/**
+ * ASCII85Decode: base-85 groups terminated by '~>'
+ */
+export const decodeASCII85 = (input: Uint8Array): Uint8Array => {
+  const output = new Uint8Array(Math.ceil(input.length * 4 / 5) + 4);
+  let length = 0;
+  const group: number[] = [];
+
+  const flush = (count: number) => {
+    while (group.length < 5) group.push(84);
+    let value = 0;
+    for (const digit of group) value = value * 85 + digit;
+    const bytes = [(value >>> 24) & 0xff, (value >>> 16) & 0xff, (value >>> 8) & 0xff, value & 0xff];
+    for (let i = 0; i < count; i++) output[length++] = bytes[i];
+    group.length = 0;
+  };
+
+  let start = 0;
+  // Skip an optional '<~' prefix
+  if (input[0] === 0x3c && input[1] === 0x7e) start = 2;
+
+  for (let i = start; i < input.length; i++) {
+    const byte = input[i];
+    if (byte === 0x7e) break; // '~'
+    if (isWhitespace(byte)) continue;
+    if (byte === 0x7a && group.length === 0) {
+      // 'z' stands for four zero bytes
+      output[length++] = 0;
+      output[length++] = 0;
+      output[length++] = 0;
+      output[length++] = 0;
+      continue;
+    }
+    if (byte < 0x21 || byte > 0x75) continue;
+    group.push(byte - 0x21);
+    if (group.length === 5) flush(4);
+  }
+  if (group.length > 1) flush(group.length - 1);
+
+  return output.subarray(0, length);
+};
+
+/**
+ * RunLengthDecode: PackBits-style run-length encoding
+ */
+export const decodeRunLength = (input: Uint8Array): Uint8Array => {
+  const chunks: number[] = [];
+  let i = 0;
+
+  while (i < input.length) {
+    const length = input[i++];
+    if (length === 128) break;
+    if (length < 128) {
+      for (let j = 0; j <= length && i < input.length; j++) chunks.push(input[i++]);
+    } else {
+      const byte = input[i++];
+      for (let j = 0; j < 257 - length; j++) chunks.push(byte);
+    }
+  }
+
+  return Uint8Array.from(chunks);
+};
+
+/**
+ * LZWDecode with variable code width (9-12 bits)
+ */
+export const decodeLZW = (input: Uint8Array, earlyChange = 1): Uint8Array => {
+  const output: number[] = [];
+  let dictionary: Uint8Array[] = [];
+  let codeWidth = 9;
+  let bitBuffer = 0;
+  let bitCount = 0;
+  let pos = 0;
+  let previous: Uint8Array | null = null;
+
+  const resetDictionary = () => {
+    dictionary = [];
+    for (let i = 0; i < 256; i++) dictionary.push(Uint8Array.of(i));
+    dictionary.push(new Uint8Array(0), new Uint8Array(0)); // 256 clear, 257 EOD
+    codeWidth = 9;
+    previous = null;
+  };
+
+  resetDictionary();
+
+  for (;;) {
+    while (bitCount < codeWidth && pos < input.length) {
+      bitBuffer = (bitBuffer << 8) | input[pos++];
+      bitCount += 8;
+    }
+    if (bitCount < codeWidth) break;
+
+    const code = (bitBuffer >>> (bitCount - codeWidth)) & ((1 << codeWidth) - 1);
+    bitCount -= codeWidth;
+    bitBuffer &= (1 << bitCount) - 1;
+
+    if (code === 256) {
+      resetDictionary();
+      continue;
+    }
+    if (code === 257) break;
+
+    let entry: Uint8Array;
+    if (code < dictionary.length) {
+      entry = dictionary[code];
+    } else if (previous) {
+      entry = new Uint8Array(previous.length + 1);
+      entry.set(previous);
+      entry[previous.length] = previous[0];
+    } else {
+      break;
+    }
+
+    for (let i = 0; i < entry.length; i++) output.push(entry[i]);
+
+    if (previous) {
+      const added = new Uint8Array(previous.length + 1);
+      added.set(previous);
+      added[previous.length] = entry[0];
+      dictionary.push(added);
+    }
+    previous = entry;
+
+    const nextSize = dictionary.length + earlyChange;
+    if (nextSize >= 4096) codeWidth = 12;
+    else if (nextSize >= 2048) codeWidth = 12;
+    else if (nextSize >= 1024) codeWidth = 11;
+    else if (nextSize >= 512) codeWidth = 10;
+  }
+
+  return Uint8Array.from(output);
+};
+
+/**
+ * Undo TIFF (2) and PNG (10-15) predictors applied before Flate/LZW compression
+ */
+export const applyPredictor = (input: Uint8Array, params: FilterParams): Uint8Array => {
+  const predictor = params.Predictor ?? 1;
+  if (predictor <= 1) return input;
+
+  const colors = params.Colors ?? 1;
+  const bitsPerComponent = params.BitsPerComponent ?? 8;
+  const columns = params.Columns ?? 1;
+  const bytesPerPixel = Math.max(1, Math.ceil((colors * bitsPerComponent) / 8));
+  const rowLength = Math.ceil((colors * bitsPerComponent * columns) / 8);
+
+  if (predictor === 2) {
+    const output = input.slice();
+    if (bitsPerComponent !== 8) return output;
+    for (let row = 0; row < output.length; row += rowLength) {
+      for (let i = bytesPerPixel; i < rowLength && row + i < output.length; i++) {
+        output[row + i] = (output[row + i] + output[row + i - bytesPerPixel]) & 0xff;
+      }
+    }
+    return output;
+  }
+
+  const rows = Math.floor(input.length / (rowLength + 1));
+  const output = new Uint8Array(rows * rowLength);
+  let previousRow = new Uint8Array(rowLength);
+
+  for (let row = 0; row < rows; row++) {
+    const filterType = input[row * (rowLength + 1)];
+    const source = input.subarray(row * (rowLength + 1) + 1, (row + 1) * (rowLength + 1));
+    const current = output.subarray(row * rowLength, (row + 1) * rowLength);
+
+    for (let i = 0; i < rowLength; i++) {
+      const left = i >= bytesPerPixel ? current[i - bytesPerPixel] : 0;
+      const up = previousRow[i];
+      const upLeft = i >= bytesPerPixel ? previousRow[i - bytesPerPixel] : 0;
+      let value = source[i];
+
+      switch (filterType) {
+        case 1: value += left; break;
+        case 2: value += up; break;
+        case 3: value += (left + up) >> 1; break;
+        case 4: {
+          const p = left + up - upLeft;
+          const pa = Math.abs(p - left);
+          const pb = Math.abs(p - up);
+          const pc = Math.abs(p - upLeft);
+          value += pa <= pb && pa <= pc ? left : pb <= pc ? up : upLeft;
+          break;
+        }
+        default: break;
+      }
+      current[i] = value & 0xff;
+    }
+    previousRow = current;
+  }
+
+  return output;
+};
+
+/**
+ * Run a chain of filters over stream data
+ * Decoding stops at the first image codec, which is reported back to the caller.
+ */
+export const decodeFilters = (
+  input: Uint8Array,
+  filters: string[],
+  params: Array<FilterParams | null>
+): DecodedStream => {
+  let data = input;
+
+  for (let i = 0; i < filters.length; i++) {
+    const filter = FILTER_ALIASES[filters[i]] || filters[i];
+    const filterParams = params[i] || {};
+
+    if (IMAGE_FILTERS.includes(filter)) {
+      return { data, imageFilter: filter, imageFilterParams: filterParams };
+    }
+
+    switch (filter) {
+      case 'FlateDecode':
+        data = applyPredictor(inflate(data, { lenient: true }), filterParams);
+        break;
+      case 'LZWDecode':
+        data = applyPredictor(decodeLZW(data, filterParams.EarlyChange ?? 1), filterParams);
+        break;
+      case 'ASCII85Decode':
+        data = decodeASCII85(data);
+        break;
+      case 'ASCIIHexDecode':
+        data = decodeASCIIHex(data);
+        break;
+      case 'RunLengthDecode':
+        data = decodeRunLength(data);
+        break;
+      case 'Crypt':
+        break;
+      default:
+        throw new Error(`Unsupported PDF filter: ${filter}`);
+    }
+  }
+
+  return { data };
+};
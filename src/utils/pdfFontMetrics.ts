@@ -0,0 +1,206 @@
+/**
+ * Metrics for the standard 14 PDF fonts
+ * Widths (per 1000 units of em) let generated PDFs wrap text without embedding fonts.
+ */
+
+export type StandardFontFamily = 'helvetica' | 'times' | 'courier';
+
+export interface StandardFontMetrics {
+  baseFont: string;
+  // Widths of ASCII 32..126
+  asciiWidths: number[];
+  // Widths of common non-ASCII WinAnsi characters
+  extraWidths: Record<string, number>;
+  defaultWidth: number;
+  ascent: number;
+  descent: number;
+}
+
+const HELVETICA_WIDTHS = [
+  278, 278, 355, 556, 556, 889, 667, 191, 333, 333, 389, 584, 278, 333, 278, 278,
+  556, 556, 556, 556, 556, 556, 556, 556, 556, 556, 278, 278, 584, 584, 584, 556,
+  1015, 667, 667, 722, 722, 667, 611, 778, 722, 278, 500, 667, 556, 833, 722, 778,
+  667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 278, 278, 278, 469, 556,
+  333, 556, 556, 500, 556, 556, 278, 556, 556, 222, 222, 500, 222, 833, 556, 556,
+  556, 556, 333, 500, 278, 556, 500, 722, 500, 500, 500, 334, 260, 334, 584,
+];
+
+const HELVETICA_BOLD_WIDTHS = [
+  278, 333, 474, 556, 556, 889, 722, 238, 333, 333, 389, 584, 278, 333, 278, 278,
+  556, 556, 556, 556, 556, 556, 556, 556, 556, 556, 333, 333, 584, 584, 584, 611,
+  975, 722, 722, 722, 722, 667, 611, 778, 722, 278, 556, 722, 611, 833, 722, 778,
+  667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 333, 278, 333, 584, 556,
+  333, 556, 611, 556, 611, 556, 333, 611, 611, 278, 278, 556, 278, 889, 611, 611,
+  611, 611, 389, 556, 333, 611, 556, 778, 556, 556, 500, 389, 280, 389, 584,
+];
+
+const TIMES_ROMAN_WIDTHS = [
+  250, 333, 408, 500, 500, 833, 778, 180, 333, 333, 500, 564, 250, 333, 250, 278,
+  500, 500, 500, 500, 500, 500, 500, 500, 500, 500, 278, 278, 564, 564, 564, 444,
+  921, 722, 667, 667, 722, 611, 556, 722, 722, 333, 389, 722, 611, 889, 722, 722,
+  556, 722, 667, 556, 611, 722, 722, 944, 722, 722, 611, 333, 278, 333, 469, 500,
+  333, 444, 500, 444, 500, 444, 333, 500, 500, 278, 278, 500, 278, 778, 500, 500,
+  500, 500, 333, 389, 278, 500, 500, 722, 500, 500, 444, 480, 200, 480, 541,
+];
+
+const TIMES_BOLD_WIDTHS = [
+  250, 333, 555, 500, 500, 1000, 833, 278, 333, 333, 500, 570, 250, 333, 250, 278,
+  500, 500, 500, 500, 500, 500, 500, 500, 500, 500, 333, 333, 570, 570, 570, 500,
+  930, 722, 667, 722, 722, 667, 611, 778, 778, 389, 500, 778, 667, 944, 722, 778,
+  611, 778, 722, 556, 667, 722, 722, 1000, 722, 722, 667, 333, 278, 333, 581, 500,
+  333, 500, 556, 444, 556, 444, 333, 500, 556, 278, 333, 556, 278, 833, 556, 500,
+  556, 556, 444, 389, 333, 556, 500, 722, 500, 500, 444, 394, 220, 394, 520,
+];
+
+const TIMES_ITALIC_WIDTHS = [
+  250, 333, 420, 500, 500, 833, 778, 214, 333, 333, 500, 675, 250, 333, 250, 278,
+  500, 500, 500, 500, 500, 500, 500, 500, 500, 500, 333, 333, 675, 675, 675, 500,
+  920, 611, 611, 667, 722, 611, 611, 722, 722, 333, 444, 667, 556, 833, 667, 722,
+  611, 722, 611, 500, 556, 722, 611, 833, 611, 556, 556, 389, 278, 389, 422, 500,
+  333, 500, 500, 444, 500, 444, 278, 500, 500, 278, 278, 444, 278, 722, 500, 500,
+  500, 500, 389, 389, 278, 500, 444, 667, 444, 444, 389, 400, 275, 400, 541,
+];
+
+const TIMES_BOLD_ITALIC_WIDTHS = [
+  250, 389, 555, 500, 500, 833, 778, 278, 333, 333, 500, 570, 250, 333, 250, 278,
+  500, 500, 500, 500, 500, 500, 500, 500, 500, 500, 333, 333, 570, 570, 570, 500,
+  832, 667, 667, 667, 722, 667, 667, 722, 778, 389, 500, 667, 611, 889, 722, 722,
+  611, 722, 667, 556, 611, 722, 667, 889, 667, 611, 611, 333, 278, 333, 570, 500,
+  333, 500, 500, 444, 500, 444, 333, 500, 556, 278, 278, 500, 278, 778, 556, 500,
+  500, 500, 389, 389, 278, 556, 444, 667, 500, 444, 389, 348, 220, 348, 570,
+];
+
+const COURIER_WIDTHS = new Array(95).fill(600);
+
+const SANS_EXTRA_WIDTHS: Record<string, number> = {
+  '\u00a0': 278, '\u00ad': 333, '‘': 222, '’': 222, '‚': 222, '“': 333, '”': 333, '„': 333,
+  '–': 556, '—': 1000, '•': 350, '…': 1000, '€': 556, '©': 737, '®': 737, '™': 1000,
+  '°': 400, '±': 584, '×': 584, '÷': 584, '§': 556, '¶': 537, '«': 556, '»': 556,
+  '‹': 333, '›': 333, 'ß': 611, 'æ': 889, 'Æ': 1000, 'œ': 944, 'Œ': 1000, '·': 278,
+  '¢': 556, '£': 556, '¥': 556, '¿': 611, '¡': 333, '†': 556, '‡': 556, '‰': 1000,
+};
+
+const SERIF_EXTRA_WIDTHS: Record<string, number> = {
+  '\u00a0': 250, '\u00ad': 333, '‘': 333, '’': 333, '‚': 333, '“': 444, '”': 444, '„': 444,
+  '–': 500, '—': 1000, '•': 350, '…': 1000, '€': 500, '©': 760, '®': 760, '™': 980,
+  '°': 400, '±': 564, '×': 564, '÷': 564, '§': 500, '¶': 453, '«': 500, '»': 500,
+  '‹': 333, '›': 333, 'ß': 500, 'æ': 667, 'Æ': 889, 'œ': 722, 'Œ': 889, '·': 250,
+  '¢': 500, '£': 500, '¥': 500, '¿': 444, '¡': 333, '†': 500, '‡': 500, '‰': 1000,
+};
+
+const createMetrics = (
+  baseFont: string,
+  asciiWidths: number[],
+  extraWidths: Record<string, number>,
+  ascent: number,
+  descent: number
+): StandardFontMetrics => ({
+  baseFont,
+  asciiWidths,
+  extraWidths,
+  defaultWidth: Math.round(asciiWidths.reduce((total, width) => total + width, 0) / asciiWidths.length),
+  ascent,
+  descent,
+});
+
+const COURIER_EXTRA_WIDTHS = Object.fromEntries(Object.keys(SANS_EXTRA_WIDTHS).map(char => [char, 600]));
+
+const STANDARD_FONTS: Record<string, StandardFontMetrics> = {
+  'Helvetica': createMetrics('Helvetica', HELVETICA_WIDTHS, SANS_EXTRA_WIDTHS, 718, -207),
+  'Helvetica-Bold': createMetrics('Helvetica-Bold', HELVETICA_BOLD_WIDTHS, SANS_EXTRA_WIDTHS, 718, -207),
+  'Helvetica-Oblique': createMetrics('Helvetica-Oblique', HELVETICA_WIDTHS, SANS_EXTRA_WIDTHS, 718, -207),
+  'Helvetica-BoldOblique': createMetrics('Helvetica-BoldOblique', HELVETICA_BOLD_WIDTHS, SANS_EXTRA_WIDTHS, 718, -207),
+  'Times-Roman': createMetrics('Times-Roman', TIMES_ROMAN_WIDTHS, SERIF_EXTRA_WIDTHS, 683, -217),
+  'Times-Bold': createMetrics('Times-Bold', TIMES_BOLD_WIDTHS, SERIF_EXTRA_WIDTHS, 683, -217),
+  'Times-Italic': createMetrics('Times-Italic', TIMES_ITALIC_WIDTHS, SERIF_EXTRA_WIDTHS, 683, -217),
+  'Times-BoldItalic': createMetrics('Times-BoldItalic', TIMES_BOLD_ITALIC_WIDTHS, SERIF_EXTRA_WIDTHS, 683, -217),
+  'Courier': createMetrics('Courier', COURIER_WIDTHS, COURIER_EXTRA_WIDTHS, 629, -157),
+  'Courier-Bold': createMetrics('Courier-Bold', COURIER_WIDTHS, COURIER_EXTRA_WIDTHS, 629, -157),
+  'Courier-Oblique': createMetrics('Courier-Oblique', COURIER_WIDTHS, COURIER_EXTRA_WIDTHS, 629, -157),
+  'Courier-BoldOblique': createMetrics('Courier-BoldOblique', COURIER_WIDTHS, COURIER_EXTRA_WIDTHS, 629, -157),
+};
+
+/**
+ * Pick the standard font for a family and style
+ */
+export const getStandardFont = (family: StandardFontFamily, bold = false, italic = false): StandardFontMetrics => {
+  if (family === 'times') {
+    const name = bold && italic ? 'Times-BoldItalic' : bold ? 'Times-Bold' : italic ? 'Times-Italic' : 'Times-Roman';
+    return STANDARD_FONTS[name];
+  }
+  const base = family === 'courier' ? 'Courier' : 'Helvetica';
+  const suffix = bold && italic ? '-BoldOblique' : bold ? '-Bold' : italic ? '-Oblique' : '';
+  return STANDARD_FONTS[base + suffix];
+};
+
+/**
+ * Map a document font name (e.g. "Calibri", "Georgia") to the closest standard family
+ */
+export const getStandardFontFamily = (fontFamily?: string): StandardFontFamily => {
+  if (!fontFamily) return 'helvetica';
+  if (/courier|consol|mono|menlo|code/i.test(fontFamily)) return 'courier';
+  if (/times|georgia|garamond|cambria|serif|book|palatino|minion/i.test(fontFamily) && !/sans/i.test(fontFamily)) return 'times';
+  return 'helvetica';
+};
+
+/**
+ * Width of one character in 1/1000 em
+ */
+export const getCharWidth = (metrics: StandardFontMetrics, char: string): number => {
+  const code = char.charCodeAt(0);
+  if (code >= 32 && code <= 126) return metrics.asciiWidths[code - 32];
+  const extra = metrics.extraWidths[char];
+  if (extra !== undefined) return extra;
+  // Accented letters are as wide as their base letter
+  const base = char.normalize('NFD')[0];
+  if (base !== char) {
+    const baseCode = base.charCodeAt(0);
+    if (baseCode >= 32 && baseCode <= 126) return metrics.asciiWidths[baseCode - 32];
+  }
+  return metrics.defaultWidth;
+};
+
+/**
+ * Width of a string in points
+ */
+export const measureStandardText = (metrics: StandardFontMetrics, text: string, fontSize: number): number => {
+  let width = 0;
+  for (const char of text) width += getCharWidth(metrics, char);
+  return (width * fontSize) / 1000;
+};
+
+// Unicode to WinAnsiEncoding byte for the 0x80..0x9F range
+const WIN_ANSI_HIGH = (() => {
+  const map = new Map<string, number>();
+  const decoder = new TextDecoder('windows-1252');
+  for (let byte = 0x80; byte <= 0x9f; byte++) {
+    const char = decoder.decode(new Uint8Array([byte]));
+    if (char !== '\ufffd') map.set(char, byte);
+  }
+  return map;
+})();
+
+const isLatin1Printable = (code: number) => (code >= 32 && code <= 126) || (code >= 0xa0 && code <= 0xff);
+
+/**
+ * Whether every character can be shown with the standard fonts
+ */
+export const isWinAnsiEncodable = (text: string): boolean => {
+  for (const char of text) {
+    if (!isLatin1Printable(char.codePointAt(0) || 0) && !WIN_ANSI_HIGH.has(char)) return false;
+  }
+  return true;
+};
+
+/**
+ * Encode text as WinAnsiEncoding bytes; unsupported characters become '?'
+ */
+export const encodeWinAnsi = (text: string): Uint8Array => {
+  const bytes: number[] = [];
+  for (const char of text) {
+    const code = char.codePointAt(0) || 0;
+    if (isLatin1Printable(code)) bytes.push(code);
+    else bytes.push(WIN_ANSI_HIGH.get(char) ?? 0x3f);
+  }
+  return new Uint8Array(bytes);
+};
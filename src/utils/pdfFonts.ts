@@ -0,0 +1,496 @@
+/**
+ * PDF font decoding
+ * Maps character codes in content streams to Unicode text and glyph widths,
+ * using ToUnicode CMaps, simple-font encodings and CID font metrics.
+ */
+
+import {
+  createLexer,
+  isDict,
+  isKeyword,
+  isName,
+  isPdfString,
+  isStream,
+  parseObject,
+  PdfDict,
+  PdfDocument,
+  PdfLexer,
+  PdfObject,
+  PdfString,
+} from './pdfParser';
+
+export interface DecodedGlyph {
+  code: number;
+  unicode: string;
+  // Advance width in thousandths of text space units
+  width: number;
+  // Single-byte code 32, which receives word spacing (Tw)
+  isSpace: boolean;
+}
+
+export interface PdfFontFile {
+  data: Uint8Array;
+  format: 'truetype' | 'opentype' | 'type1' | 'cff';
+}
+
+export interface PdfFont {
+  baseFont: string;
+  subtype: string;
+  bold: boolean;
+  italic: boolean;
+  serif: boolean;
+  monospace: boolean;
+  vertical: boolean;
+  // Type3 glyphs are drawn from content streams and scaled by this matrix
+  fontMatrix: [number, number, number, number, number, number];
+  fontFile?: PdfFontFile;
+  decode: (bytes: Uint8Array) => DecodedGlyph[];
+}
+
+const ACCENT_MARKS: Record<string, string> = {
+  acute: '\u0301',
+  grave: '\u0300',
+  circumflex: '\u0302',
+  dieresis: '\u0308',
+  tilde: '\u0303',
+  ring: '\u030a',
+  cedilla: '\u0327',
+  caron: '\u030c',
+  macron: '\u0304',
+  breve: '\u0306',
+  ogonek: '\u0328',
+  dotaccent: '\u0307',
+  hungarumlaut: '\u030b',
+  commaaccent: '\u0326',
+};
+
+// Glyph names that are not simply a letter or a letter plus accent
+const GLYPH_NAMES: Record<string, string> = {
+  space: ' ', exclam: '!', quotedbl: '"', numbersign: '#', dollar: '$', percent: '%',
+  ampersand: '&', quotesingle: "'", quoteright: '’', parenleft: '(', parenright: ')',
+  asterisk: '*', plus: '+', comma: ',', hyphen: '-', period: '.', slash: '/',
+  zero: '0', one: '1', two: '2', three: '3', four: '4', five: '5', six: '6', seven: '7',
+  eight: '8', nine: '9', colon: ':', semicolon: ';', less: '<', equal: '=', greater: '>',
+  question: '?', at: '@', bracketleft: '[', backslash: '\\', bracketright: ']',
+  asciicircum: '^', underscore: '_', grave: '`', quoteleft: '‘', braceleft: '{', bar: '|',
+  braceright: '}', asciitilde: '~', exclamdown: '¡', cent: '¢', sterling: '£',
+  fraction: '⁄', yen: '¥', florin: 'ƒ', section: '§', currency: '¤',
+  quotedblleft: '“', guillemotleft: '«', guilsinglleft: '‹', guilsinglright: '›',
+  fi: 'fi', fl: 'fl', ff: 'ff', ffi: 'ffi', ffl: 'ffl', endash: '–', dagger: '†',
+  daggerdbl: '‡', periodcentered: '·', paragraph: '¶', bullet: '•',
+  quotesinglbase: '‚', quotedblbase: '„', quotedblright: '”',
+  guillemotright: '»', ellipsis: '…', perthousand: '‰', questiondown: '¿',
+  acute: '´', circumflex: 'ˆ', tilde: '˜', macron: '¯', breve: '˘',
+  dotaccent: '˙', dieresis: '¨', ring: '˚', cedilla: '¸',
+  hungarumlaut: '˝', ogonek: '˛', caron: 'ˇ', emdash: '—', AE: 'Æ',
+  ordfeminine: 'ª', Lslash: 'Ł', Oslash: 'Ø', OE: 'Œ', ordmasculine: 'º',
+  ae: 'æ', dotlessi: 'ı', lslash: 'ł', oslash: 'ø', oe: 'œ',
+  germandbls: 'ß', Eth: 'Ð', eth: 'ð', Thorn: 'Þ', thorn: 'þ',
+  brokenbar: '¦', copyright: '©', registered: '®', trademark: '™',
+  degree: '°', plusminus: '±', multiply: '×', divide: '÷', minus: '−',
+  logicalnot: '¬', mu: 'µ', onehalf: '½', onequarter: '¼',
+  threequarters: '¾', onesuperior: '¹', twosuperior: '²', threesuperior: '³',
+  Euro: '€', nbspace: '\u00a0', sfthyphen: '\u00ad', softhyphen: '\u00ad',
+  notequal: '≠', lessequal: '≤', greaterequal: '≥', infinity: '∞',
+  partialdiff: '∂', summation: '∑', product: '∏', pi: 'π', integral: '∫',
+  Omega: 'Ω', radical: '√', approxequal: '≈', Delta: '∆', lozenge: '◊',
+  arrowleft: '←', arrowright: '→', arrowup: '↑', arrowdown: '↓',
+  checkmark: '✓', circle: '○', dotlessj: 'ȷ',
+};
+
+/**
+ * Map a glyph name to Unicode following the Adobe Glyph List conventions
+ */
+export const glyphNameToUnicode = (name: string): string => {
+  if (GLYPH_NAMES[name]) return GLYPH_NAMES[name];
+  if (/^[A-Za-z]$/.test(name)) return name;
+
+  // Suffixes such as "a.sc" or "f_i" ligature components
+  const base = name.split('.')[0];
+  if (base !== name && base) return glyphNameToUnicode(base);
+  if (name.includes('_')) return name.split('_').map(glyphNameToUnicode).join('');
+
+  let match = /^uni([0-9A-Fa-f]{4,})$/.exec(name);
+  if (match) {
+    let result = '';
+    for (let i = 0; i + 4 <= match[1].length; i += 4) {
+      result += String.fromCharCode(parseInt(match[1].slice(i, i + 4), 16));
+    }
+    return result;
+  }
+  match = /^u([0-9A-Fa-f]{4,6})$/.exec(name);
+  if (match) return String.fromCodePoint(parseInt(match[1], 16));
+
+  // Letter + accent ("Aacute", "ccedilla", "scaron")
+  match = /^([A-Za-z])([a-z]+)$/.exec(name);
+  if (match && ACCENT_MARKS[match[2]]) {
+    return (match[1] + ACCENT_MARKS[match[2]]).normalize('NFC');
+  }
+
+  return '';
+};
+
+const buildEncoding = (decoder: string): string[] => {
+  const table: string[] = [];
+  const textDecoder = new TextDecoder(decoder);
+  for (let code = 0; code < 256; code++) {
+    table.push(code < 32 ? '' : textDecoder.decode(Uint8Array.of(code)));
+  }
+  return table;
+};
+
+// Adobe StandardEncoding above the ASCII range (code -> Unicode)
+const STANDARD_HIGH: Record<number, string> = {
+  0xa1: '¡', 0xa2: '¢', 0xa3: '£', 0xa4: '⁄', 0xa5: '¥', 0xa6: 'ƒ',
+  0xa7: '§', 0xa8: '¤', 0xa9: "'", 0xaa: '“', 0xab: '«', 0xac: '‹',
+  0xad: '›', 0xae: 'fi', 0xaf: 'fl', 0xb1: '–', 0xb2: '†', 0xb3: '‡',
+  0xb4: '·', 0xb6: '¶', 0xb7: '•', 0xb8: '‚', 0xb9: '„', 0xba: '”',
+  0xbb: '»', 0xbc: '…', 0xbd: '‰', 0xbf: '¿', 0xc1: '`', 0xc2: '´',
+  0xc3: 'ˆ', 0xc4: '˜', 0xc5: '¯', 0xc6: '˘', 0xc7: '˙', 0xc8: '¨',
+  0xca: '˚', 0xcb: '¸', 0xcd: '˝', 0xce: '˛', 0xcf: 'ˇ', 0xd0: '—',
+  0xe1: 'Æ', 0xe3: 'ª', 0xe8: 'Ł', 0xe9: 'Ø', 0xea: 'Œ', 0xeb: 'º',
+  0xf1: 'æ', 0xf5: 'ı', 0xf8: 'ł', 0xf9: 'ø', 0xfa: 'œ', 0xfb: 'ß',
+};
+
+const encodingCache: Record<string, string[]> = {};
+
+const getBaseEncoding = (name: string): string[] => {
+  if (encodingCache[name]) return encodingCache[name];
+
+  let table: string[];
+  if (name === 'WinAnsiEncoding') {
+    table = buildEncoding('windows-1252');
+  } else if (name === 'MacRomanEncoding') {
+    table = buildEncoding('macintosh');
+  } else {
+    table = [];
+    for (let code = 0; code < 256; code++) {
+      if (code >= 32 && code < 127) table.push(String.fromCharCode(code));
+      else table.push(STANDARD_HIGH[code] || '');
+    }
+    table[0x27] = '’';
+    table[0x60] = '‘';
+  }
+
+  encodingCache[name] = table;
+  return table;
+};
+
+interface CodespaceRange {
+  bytes: number;
+  low: number;
+  high: number;
+}
+
+interface ParsedCMap {
+  codespaces: CodespaceRange[];
+  // code -> unicode (ToUnicode) or code -> CID (encoding CMaps)
+  map: Map<number, string | number>;
+  vertical: boolean;
+}
+
+const bytesToNumber = (bytes: Uint8Array): number => {
+  let value = 0;
+  for (let i = 0; i < bytes.length; i++) value = value * 256 + bytes[i];
+  return value;
+};
+
+const utf16BytesToString = (bytes: Uint8Array): string => {
+  let result = '';
+  for (let i = 0; i + 1 < bytes.length; i += 2) result += String.fromCharCode((bytes[i] << 8) | bytes[i + 1]);
+  if (bytes.length % 2 === 1) result += String.fromCharCode(bytes[bytes.length - 1]);
+  return result;
+};
+
+const readCMapString = (lexer: PdfLexer): PdfString | null => {
+  const token = parseObject(lexer, false);
+  return isPdfString(token as PdfObject) ? (token as PdfString) : null;
+};
+
+/**
+ * Parse a CMap program (ToUnicode or embedded encoding CMap)
+ */
+export const parseCMap = (data: Uint8Array): ParsedCMap => {
+  const lexer = createLexer(data);
+  const codespaces: CodespaceRange[] = [];
+  const map = new Map<number, string | number>();
+  let vertical = false;
+
+  for (;;) {
+    const token = parseObject(lexer, false);
+    if (token === undefined) break;
+    if (!isKeyword(token)) {
+      if (isName(token as PdfObject, 'Identity-V')) vertical = true;
+      continue;
+    }
+
+    if (token.value === 'begincodespacerange') {
+      for (;;) {
+        const low = readCMapString(lexer);
+        const high = low && readCMapString(lexer);
+        if (!low || !high) break;
+        codespaces.push({ bytes: low.bytes.length, low: bytesToNumber(low.bytes), high: bytesToNumber(high.bytes) });
+      }
+    } else if (token.value === 'beginbfchar' || token.value === 'begincidchar') {
+      for (;;) {
+        const src = readCMapString(lexer);
+        if (!src) break;
+        const dst = parseObject(lexer, false) as PdfObject;
+        const code = bytesToNumber(src.bytes);
+        if (isPdfString(dst)) map.set(code, utf16BytesToString(dst.bytes));
+        else if (typeof dst === 'number') map.set(code, dst);
+        else if (isName(dst)) map.set(code, glyphNameToUnicode(dst.name));
+      }
+    } else if (token.value === 'beginbfrange' || token.value === 'begincidrange') {
+      for (;;) {
+        const low = readCMapString(lexer);
+        const high = low && readCMapString(lexer);
+        if (!low || !high) break;
+        const dst = parseObject(lexer, false) as PdfObject;
+        const start = bytesToNumber(low.bytes);
+        const end = Math.min(bytesToNumber(high.bytes), start + 0xffff);
+
+        if (typeof dst === 'number') {
+          for (let code = start; code <= end; code++) map.set(code, dst + (code - start));
+        } else if (Array.isArray(dst)) {
+          dst.forEach((item, i) => {
+            if (isPdfString(item) && start + i <= end) map.set(start + i, utf16BytesToString(item.bytes));
+          });
+        } else if (isPdfString(dst)) {
+          // Increment the last UTF-16 unit across the range
+          const base = dst.bytes;
+          const prefix = utf16BytesToString(base.subarray(0, Math.max(0, base.length - 2)));
+          const last = base.length >= 2 ? (base[base.length - 2] << 8) | base[base.length - 1] : base[0] || 0;
+          for (let code = start; code <= end; code++) {
+            map.set(code, prefix + String.fromCharCode(last + (code - start)));
+          }
+        }
+      }
+    }
+  }
+
+  return { codespaces, map, vertical };
+};
+
+/**
+ * Split a byte string into character codes using codespace ranges
+ */
+const splitCodes = (bytes: Uint8Array, codespaces: CodespaceRange[], defaultBytes: number): number[] => {
+  const codes: number[] = [];
+  let i = 0;
+
+  while (i < bytes.length) {
+    let matched = false;
+    for (let length = 1; length <= 4 && i + length <= bytes.length; length++) {
+      const code = bytesToNumber(bytes.subarray(i, i + length));
+      if (codespaces.some(range => range.bytes === length && code >= range.low && code <= range.high)) {
+        codes.push(code);
+        i += length;
+        matched = true;
+        break;
+      }
+    }
+    if (!matched) {
+      const length = Math.min(defaultBytes, bytes.length - i);
+      codes.push(bytesToNumber(bytes.subarray(i, i + length)));
+      i += length;
+    }
+  }
+
+  return codes;
+};
+
+const loadFontFile = (doc: PdfDocument, descriptor: PdfObject): PdfFontFile | undefined => {
+  if (!isDict(descriptor)) return undefined;
+
+  const candidates: Array<[string, PdfFontFile['format']]> = [
+    ['FontFile2', 'truetype'],
+    ['FontFile3', 'cff'],
+    ['FontFile', 'type1'],
+  ];
+
+  for (const [key, defaultFormat] of candidates) {
+    const stream = doc.get(descriptor, key);
+    if (!isStream(stream)) continue;
+    try {
+      const data = doc.getStreamData(stream);
+      const subtype = doc.get(stream, 'Subtype');
+      const format = isName(subtype, 'OpenType') ? 'opentype' : defaultFormat;
+      return { data, format };
+    } catch {
+      return undefined;
+    }
+  }
+  return undefined;
+};
+
+const parseToUnicode = (doc: PdfDocument, obj: PdfObject): ParsedCMap | null => {
+  if (!isStream(obj)) return null;
+  try {
+    return parseCMap(doc.getStreamData(obj));
+  } catch {
+    return null;
+  }
+};
+
+const describeFont = (baseFont: string, flags: number) => {
+  const name = baseFont.replace(/^[A-Z]{6}\+/, '');
+  const lower = name.toLowerCase();
+  return {
+    bold: /bold|black|heavy|semibold|demi/.test(lower) || (flags & 0x40000) !== 0,
+    italic: /italic|oblique/.test(lower) || (flags & 0x40) !== 0,
+    serif: /times|serif|roman|georgia|garamond|book|cambria/.test(lower) && !/sans/.test(lower) || (flags & 0x2) !== 0,
+    monospace: /courier|mono|consol|code/.test(lower) || (flags & 0x1) !== 0,
+  };
+};
+
+/**
+ * Build a decoder for a font dictionary
+ * Standard-14 fonts without /Widths use the supplied fallback metrics.
+ */
+export const loadPdfFont = (
+  doc: PdfDocument,
+  fontDict: PdfDict,
+  standardWidths?: (baseFont: string, unicode: string) => number | undefined
+): PdfFont => {
+  const subtypeObj = doc.get(fontDict, 'Subtype');
+  const subtype = isName(subtypeObj) ? subtypeObj.name : 'Type1';
+  const baseFontObj = doc.get(fontDict, 'BaseFont');
+  const baseFont = isName(baseFontObj) ? baseFontObj.name : 'Unknown';
+  const toUnicode = parseToUnicode(doc, doc.get(fontDict, 'ToUnicode'));
+  const fontMatrixObj = doc.get(fontDict, 'FontMatrix');
+  const fontMatrix = (Array.isArray(fontMatrixObj) && fontMatrixObj.length === 6
+    ? fontMatrixObj.map(v => (typeof v === 'number' ? v : 0))
+    : [0.001, 0, 0, 0.001, 0, 0]) as PdfFont['fontMatrix'];
+
+  if (subtype === 'Type0') {
+    const descendants = doc.get(fontDict, 'DescendantFonts');
+    const cidFont = Array.isArray(descendants) ? doc.resolve(descendants[0]) : null;
+    const cidDict = isDict(cidFont) ? cidFont : { type: 'dict' as const, entries: new Map<string, PdfObject>() };
+    const descriptor = doc.get(cidDict, 'FontDescriptor');
+    const flags = isDict(descriptor) ? (doc.get(descriptor, 'Flags') as number) || 0 : 0;
+
+    // Encoding: Identity-H/V or an embedded CMap stream
+    const encoding = doc.get(fontDict, 'Encoding');
+    let encodingCMap: ParsedCMap | null = null;
+    let vertical = false;
+    if (isStream(encoding)) {
+      encodingCMap = parseToUnicode(doc, encoding);
+      vertical = encodingCMap?.vertical ?? false;
+    } else if (isName(encoding)) {
+      vertical = encoding.name.endsWith('-V');
+    }
+    const codespaces = encodingCMap?.codespaces.length
+      ? encodingCMap.codespaces
+      : toUnicode?.codespaces.length ? toUnicode.codespaces : [{ bytes: 2, low: 0, high: 0xffff }];
+
+    // Widths: /W [c [w1 w2 ...]] or [cFirst cLast w]
+    const defaultWidth = (doc.get(cidDict, 'DW') as number) ?? 1000;
+    const widths = new Map<number, number>();
+    const w = doc.get(cidDict, 'W');
+    if (Array.isArray(w)) {
+      let i = 0;
+      while (i < w.length) {
+        const first = doc.resolve(w[i]);
+        const next = doc.resolve(w[i + 1]);
+        if (typeof first !== 'number') break;
+        if (Array.isArray(next)) {
+          next.forEach((width, j) => {
+            const value = doc.resolve(width);
+            if (typeof value === 'number') widths.set(first + j, value);
+          });
+          i += 2;
+        } else {
+          const last = next as number;
+          const width = doc.resolve(w[i + 2]);
+          if (typeof last === 'number' && typeof width === 'number') {
+            for (let cid = first; cid <= last && cid - first < 0x10000; cid++) widths.set(cid, width);
+          }
+          i += 3;
+        }
+      }
+    }
+
+    return {
+      baseFont,
+      subtype,
+      ...describeFont(baseFont, flags),
+      vertical,
+      fontMatrix,
+      fontFile: loadFontFile(doc, descriptor),
+      decode: (bytes: Uint8Array) => splitCodes(bytes, codespaces, 2).map(code => {
+        const mapped = encodingCMap?.map.get(code);
+        const cid = typeof mapped === 'number' ? mapped : code;
+        const unicode = toUnicode?.map.get(code);
+        return {
+          code,
+          unicode: typeof unicode === 'string' ? unicode : '',
+          width: widths.get(cid) ?? defaultWidth,
+          isSpace: false,
+        };
+      }),
+    };
+  }
+
+  // Simple fonts (Type1, TrueType, Type3, MMType1)
+  const descriptor = doc.get(fontDict, 'FontDescriptor');
+  const flags = isDict(descriptor) ? (doc.get(descriptor, 'Flags') as number) || 0 : 0;
+  const isSymbolic = (flags & 0x4) !== 0 && (flags & 0x20) === 0;
+  const encoding = doc.get(fontDict, 'Encoding');
+
+  let baseEncodingName = subtype === 'TrueType' && !isSymbolic ? 'WinAnsiEncoding' : 'StandardEncoding';
+  const differences = new Map<number, string>();
+
+  if (isName(encoding)) {
+    baseEncodingName = encoding.name;
+  } else if (isDict(encoding)) {
+    const base = doc.get(encoding, 'BaseEncoding');
+    if (isName(base)) baseEncodingName = base.name;
+    const diffs = doc.get(encoding, 'Differences');
+    if (Array.isArray(diffs)) {
+      let code = 0;
+      for (const item of diffs) {
+        const value = doc.resolve(item);
+        if (typeof value === 'number') code = value;
+        else if (isName(value)) differences.set(code++, value.name);
+      }
+    }
+  }
+
+  const baseEncoding = getBaseEncoding(baseEncodingName);
+  const firstChar = (doc.get(fontDict, 'FirstChar') as number) ?? 0;
+  const widthsObj = doc.get(fontDict, 'Widths');
+  const widthArray = Array.isArray(widthsObj) ? widthsObj.map(v => doc.resolve(v)) : null;
+  const missingWidth = isDict(descriptor) ? (doc.get(descriptor, 'MissingWidth') as number) || 0 : 0;
+  // Type3 widths are in glyph space, so scale them into thousandths of text space
+  const widthScale = subtype === 'Type3' ? fontMatrix[0] * 1000 : 1;
+
+  return {
+    baseFont,
+    subtype,
+    ...describeFont(baseFont, flags),
+    vertical: false,
+    fontMatrix,
+    fontFile: loadFontFile(doc, descriptor),
+    decode: (bytes: Uint8Array) => Array.from(bytes, code => {
+      let unicode = '';
+      const mapped = toUnicode?.map.get(code);
+      if (typeof mapped === 'string') {
+        unicode = mapped;
+      } else if (differences.has(code)) {
+        unicode = glyphNameToUnicode(differences.get(code) as string);
+      } else {
+        unicode = baseEncoding[code] || '';
+      }
+
+      let width: number | undefined;
+      if (widthArray && code >= firstChar && code - firstChar < widthArray.length) {
+        const value = widthArray[code - firstChar];
+        if (typeof value === 'number') width = value * widthScale;
+      }
+      if (width === undefined) width = standardWidths?.(baseFont, unicode) ?? (missingWidth || 500);
+
+      return { code, unicode, width, isSpace: code === 32 };
+    }),
+  };
+};
@@ -0,0 +1,234 @@
+/**
+ * PDF function objects (types 0, 2, 3 and 4)
+ * Used by shadings and Separation/DeviceN tint transforms.
+ */
+
+import { bytesToLatin1, isDict, isStream, PdfDocument, PdfObject } from './pdfParser';
+
+export type PdfFunction = (inputs: number[]) => number[];
+
+const toNumbers = (doc: PdfDocument, obj: PdfObject): number[] | null => {
+  const value = doc.resolve(obj);
+  if (!Array.isArray(value)) return null;
+  return value.map(v => {
+    const resolved = doc.resolve(v);
+    return typeof resolved === 'number' ? resolved : 0;
+  });
+};
+
+const clip = (value: number, min: number, max: number) => Math.min(Math.max(value, min), max);
+
+const interpolate = (x: number, xMin: number, xMax: number, yMin: number, yMax: number) =>
+  xMax === xMin ? yMin : yMin + ((x - xMin) * (yMax - yMin)) / (xMax - xMin);
+
+/**
+ * Evaluate a PostScript calculator function body (type 4)
+ */
+const compilePostScript = (source: string): ((stack: number[]) => void) => {
+  const tokens = source.match(/[{}]|[^\s{}]+/g) || [];
+  let pos = 0;
+
+  type Node = string | number | Node[];
+  const parseBlock = (): Node[] => {
+    const block: Node[] = [];
+    while (pos < tokens.length) {
+      const token = tokens[pos++];
+      if (token === '{') block.push(parseBlock());
+      else if (token === '}') return block;
+      else if (/^[+-]?(\d+\.?\d*|\.\d+)$/.test(token)) block.push(parseFloat(token));
+      else block.push(token);
+    }
+    return block;
+  };
+
+  // Skip the outer brace
+  while (pos < tokens.length && tokens[pos] !== '{') pos++;
+  pos++;
+  const program = parseBlock();
+
+  const execute = (block: Node[], stack: number[]) => {
+    for (let i = 0; i < block.length; i++) {
+      const node = block[i];
+      if (typeof node === 'number') {
+        stack.push(node);
+        continue;
+      }
+      if (Array.isArray(node)) {
+        // Procedures are only consumed by if/ifelse, which look back at them
+        const next = block[i + 1];
+        const afterNext = block[i + 2];
+        if (next === 'if') {
+          if (stack.pop()) execute(node, stack);
+          i++;
+        } else if (Array.isArray(next) && afterNext === 'ifelse') {
+          execute(stack.pop() ? node : next, stack);
+          i += 2;
+        }
+        continue;
+      }
+
+      const b = () => stack.pop() ?? 0;
+      switch (node) {
+        case 'abs': stack.push(Math.abs(b())); break;
+        case 'add': { const y = b(); stack.push(b() + y); break; }
+        case 'sub': { const y = b(); stack.push(b() - y); break; }
+        case 'mul': { const y = b(); stack.push(b() * y); break; }
+        case 'div': { const y = b(); stack.push(y === 0 ? 0 : b() / y); break; }
+        case 'idiv': { const y = b(); stack.push(y === 0 ? 0 : Math.trunc(b() / y)); break; }
+        case 'mod': { const y = b(); stack.push(y === 0 ? 0 : b() % y); break; }
+        case 'neg': stack.push(-b()); break;
+        case 'ceiling': stack.push(Math.ceil(b())); break;
+        case 'floor': stack.push(Math.floor(b())); break;
+        case 'round': stack.push(Math.round(b())); break;
+        case 'truncate': case 'cvi': stack.push(Math.trunc(b())); break;
+        case 'cvr': break;
+        case 'sqrt': stack.push(Math.sqrt(b())); break;
+        case 'sin': stack.push(Math.sin((b() * Math.PI) / 180)); break;
+        case 'cos': stack.push(Math.cos((b() * Math.PI) / 180)); break;
+        case 'atan': {
+          const den = b();
+          const angle = (Math.atan2(b(), den) * 180) / Math.PI;
+          stack.push(angle < 0 ? angle + 360 : angle);
+          break;
+        }
+        case 'exp': { const e = b(); stack.push(Math.pow(b(), e)); break; }
+        case 'ln': stack.push(Math.log(b())); break;
+        case 'log': stack.push(Math.log10(b())); break;
+        case 'eq': stack.push(b() === b() ? 1 : 0); break;
+        case 'ne': stack.push(b() !== b() ? 1 : 0); break;
+        case 'gt': { const y = b(); stack.push(b() > y ? 1 : 0); break; }
+        case 'ge': { const y = b(); stack.push(b() >= y ? 1 : 0); break; }
+        case 'lt': { const y = b(); stack.push(b() < y ? 1 : 0); break; }
+        case 'le': { const y = b(); stack.push(b() <= y ? 1 : 0); break; }
+        case 'and': { const y = b(); stack.push(b() & y); break; }
+        case 'or': { const y = b(); stack.push(b() | y); break; }
+        case 'xor': { const y = b(); stack.push(b() ^ y); break; }
+        case 'not': { const x = b(); stack.push(x === 0 ? 1 : x === 1 ? 0 : ~x); break; }
+        case 'bitshift': { const shift = b(); const x = b(); stack.push(shift >= 0 ? x << shift : x >> -shift); break; }
+        case 'true': stack.push(1); break;
+        case 'false': stack.push(0); break;
+        case 'pop': b(); break;
+        case 'dup': stack.push(stack[stack.length - 1] ?? 0); break;
+        case 'exch': { const y = b(); const x = b(); stack.push(y, x); break; }
+        case 'copy': { const n = b(); stack.push(...stack.slice(stack.length - n)); break; }
+        case 'index': { const n = b(); stack.push(stack[stack.length - 1 - n] ?? 0); break; }
+        case 'roll': {
+          const j = b();
+          const n = b();
+          if (n > 0 && n <= stack.length) {
+            const items = stack.splice(stack.length - n, n);
+            const shift = ((j % n) + n) % n;
+            stack.push(...items.slice(n - shift), ...items.slice(0, n - shift));
+          }
+          break;
+        }
+        default:
+          break;
+      }
+    }
+  };
+
+  return (stack: number[]) => execute(program, stack);
+};
+
+/**
+ * Build a callable from a PDF function object (dictionary or stream)
+ */
+export const createPdfFunction = (doc: PdfDocument, obj: PdfObject): PdfFunction | null => {
+  const fn = doc.resolve(obj);
+
+  if (Array.isArray(fn)) {
+    // An array of 1-output functions, one per colour component
+    const parts = fn.map(part => createPdfFunction(doc, part));
+    if (parts.some(part => !part)) return null;
+    return inputs => parts.map(part => (part as PdfFunction)(inputs)[0]);
+  }
+
+  const dict = isStream(fn) ? fn.dict : fn;
+  if (!isDict(dict)) return null;
+
+  const type = doc.get(dict, 'FunctionType');
+  const domain = toNumbers(doc, doc.get(dict, 'Domain')) || [0, 1];
+  const range = toNumbers(doc, doc.get(dict, 'Range'));
+
+  const clipOutputs = (outputs: number[]) =>
+    range ? outputs.map((value, i) => clip(value, range[i * 2] ?? value, range[i * 2 + 1] ?? value)) : outputs;
+
+  if (type === 2) {
+    const c0 = toNumbers(doc, doc.get(dict, 'C0')) || [0];
+    const c1 = toNumbers(doc, doc.get(dict, 'C1')) || [1];
+    const n = (doc.get(dict, 'N') as number) ?? 1;
+    return inputs => {
+      const x = clip(inputs[0] ?? 0, domain[0], domain[1]);
+      const t = Math.pow(x, n);
+      return clipOutputs(c0.map((start, i) => start + t * ((c1[i] ?? start) - start)));
+    };
+  }
+
+  if (type === 3) {
+    const functionsObj = doc.get(dict, 'Functions');
+    const functions = Array.isArray(functionsObj) ? functionsObj.map(f => createPdfFunction(doc, f)) : [];
+    const bounds = toNumbers(doc, doc.get(dict, 'Bounds')) || [];
+    const encode = toNumbers(doc, doc.get(dict, 'Encode')) || [];
+    return inputs => {
+      const x = clip(inputs[0] ?? 0, domain[0], domain[1]);
+      let index = bounds.findIndex(bound => x < bound);
+      if (index < 0) index = bounds.length;
+      const low = index === 0 ? domain[0] : bounds[index - 1];
+      const high = index === bounds.length ? domain[1] : bounds[index];
+      const e0 = encode[index * 2] ?? 0;
+      const e1 = encode[index * 2 + 1] ?? 1;
+      const fn = functions[index];
+      return fn ? clipOutputs(fn([interpolate(x, low, high, e0, e1)])) : [0];
+    };
+  }
+
+  if (type === 0 && isStream(fn)) {
+    const size = toNumbers(doc, doc.get(dict, 'Size')) || [2];
+    const bitsPerSample = (doc.get(dict, 'BitsPerSample') as number) || 8;
+    const encode = toNumbers(doc, doc.get(dict, 'Encode')) || [0, size[0] - 1];
+    const outputCount = range ? range.length / 2 : 1;
+    const decode = toNumbers(doc, doc.get(dict, 'Decode')) || range || [0, 1];
+    const data = doc.getStreamData(fn);
+    const maxSample = Math.pow(2, bitsPerSample) - 1;
+
+    const readSample = (index: number): number => {
+      const bitOffset = index * bitsPerSample;
+      let value = 0;
+      for (let bit = 0; bit < bitsPerSample; bit++) {
+        const pos = bitOffset + bit;
+        value = value * 2 + ((data[pos >> 3] >> (7 - (pos & 7))) & 1);
+      }
+      return value;
+    };
+
+    // Only the first input dimension is sampled; shading functions are one-dimensional
+    return inputs => {
+      const x = clip(inputs[0] ?? 0, domain[0], domain[1]);
+      const e = clip(interpolate(x, domain[0], domain[1], encode[0], encode[1]), 0, size[0] - 1);
+      const i0 = Math.floor(e);
+      const i1 = Math.min(i0 + 1, size[0] - 1);
+      const t = e - i0;
+      const outputs: number[] = [];
+      for (let j = 0; j < outputCount; j++) {
+        const s0 = readSample(i0 * outputCount + j);
+        const s1 = readSample(i1 * outputCount + j);
+        const sample = s0 + (s1 - s0) * t;
+        outputs.push(interpolate(sample, 0, maxSample, decode[j * 2] ?? 0, decode[j * 2 + 1] ?? 1));
+      }
+      return clipOutputs(outputs);
+    };
+  }
+
+  if (type === 4 && isStream(fn)) {
+    const program = compilePostScript(bytesToLatin1(doc.getStreamData(fn)));
+    return inputs => {
+      const stack = inputs.map((value, i) => clip(value, domain[i * 2] ?? value, domain[i * 2 + 1] ?? value));
+      program(stack);
+      const outputCount = range ? range.length / 2 : stack.length;
+      return clipOutputs(stack.slice(Math.max(0, stack.length - outputCount)));
+    };
+  }
+
+  return null;
+};
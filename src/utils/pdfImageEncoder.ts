@@ -0,0 +1,154 @@
+/**
+ * Image XObjects for generated PDFs
+ * JPEGs are embedded as-is (DCTDecode); PNGs keep their compressed data
+ * where PDF can read it directly and are re-encoded otherwise.
+ */
+
+import { decodePng, isPng, readPngInfo } from './pngDecoder';
+import { PdfDictValue, pdfHexString, PdfRaw, PdfWriter } from './pdfWriter';
+
+export interface PdfImageSource {
+  // Size in pixels
+  width: number;
+  height: number;
+  dict: PdfDictValue;
+  data: Uint8Array;
+  // False when the data is already in its final encoding
+  compress: boolean;
+  softMask?: { dict: PdfDictValue; data: Uint8Array };
+}
+
+interface JpegInfo {
+  width: number;
+  height: number;
+  components: number;
+  // Adobe APP14 marker, which means CMYK data is stored inverted
+  adobe: boolean;
+}
+
+/**
+ * Read the frame header of a JPEG
+ */
+const readJpegInfo = (data: Uint8Array): JpegInfo | null => {
+  if (data[0] !== 0xff || data[1] !== 0xd8) return null;
+  let adobe = false;
+  let offset = 2;
+  while (offset + 4 <= data.length) {
+    if (data[offset] !== 0xff) {
+      offset++;
+      continue;
+    }
+    const marker = data[offset + 1];
+    if (marker === 0xff || marker === 0xd8 || marker === 0x01 || (marker >= 0xd0 && marker <= 0xd7)) {
+      offset += marker === 0xff ? 1 : 2;
+      continue;
+    }
+    const length = (data[offset + 2] << 8) | data[offset + 3];
+    if (marker === 0xee && String.fromCharCode(...data.subarray(offset + 4, offset + 9)) === 'Adobe') adobe = true;
+    // SOF0-SOF15 except DHT (C4), JPG (C8) and DAC (CC)
+    if (marker >= 0xc0 && marker <= 0xcf && marker !== 0xc4 && marker !== 0xc8 && marker !== 0xcc) {
+      return {
+        height: (data[offset + 5] << 8) | data[offset + 6],
+        width: (data[offset + 7] << 8) | data[offset + 8],
+        components: data[offset + 9],
+        adobe,
+      };
+    }
+    if (marker === 0xda || marker === 0xd9) return null;
+    offset += 2 + length;
+  }
+  return null;
+};
+
+const isJpeg = (data: Uint8Array) => data[0] === 0xff && data[1] === 0xd8 && data[2] === 0xff;
+
+const jpegSource = (data: Uint8Array): PdfImageSource | null => {
+  const info = readJpegInfo(data);
+  if (!info || !info.width || !info.height) return null;
+  const colorSpace = info.components === 1 ? 'DeviceGray' : info.components === 4 ? 'DeviceCMYK' : 'DeviceRGB';
+  return {
+    width: info.width,
+    height: info.height,
+    dict: {
+      Type: 'XObject',
+      Subtype: 'Image',
+      Width: info.width,
+      Height: info.height,
+      ColorSpace: colorSpace,
+      BitsPerComponent: 8,
+      Filter: 'DCTDecode',
+      Decode: info.components === 4 && info.adobe ? [1, 0, 1, 0, 1, 0, 1, 0] : undefined,
+    },
+    data,
+    compress: false,
+  };
+};
+
+const pngSource = (data: Uint8Array): PdfImageSource => {
+  const info = readPngInfo(data);
+  const { width, height, bitDepth, colorType } = info;
+
+  // Opaque, non-interlaced grey, RGB and palette images use the PNG predictors directly
+  if (!info.interlaced && !info.transparency && (colorType === 0 || colorType === 2 || (colorType === 3 && info.palette))) {
+    const colors = colorType === 2 ? 3 : 1;
+    const colorSpace = colorType === 3 && info.palette
+      ? ['Indexed', 'DeviceRGB', info.palette.length / 3 - 1, pdfHexString(info.palette)]
+      : colorType === 2 ? 'DeviceRGB' : 'DeviceGray';
+    return {
+      width,
+      height,
+      dict: {
+        Type: 'XObject',
+        Subtype: 'Image',
+        Width: width,
+        Height: height,
+        ColorSpace: colorSpace,
+        BitsPerComponent: bitDepth,
+        Filter: 'FlateDecode',
+        DecodeParms: { Predictor: 15, Colors: colors, BitsPerComponent: bitDepth, Columns: width },
+      },
+      data: info.imageData,
+      compress: false,
+    };
+  }
+
+  // Everything else is decoded and split into colour and alpha
+  const { rgba } = decodePng(data);
+  const pixelCount = width * height;
+  const rgb = new Uint8Array(pixelCount * 3);
+  const alpha = new Uint8Array(pixelCount);
+  let hasAlpha = false;
+  for (let i = 0; i < pixelCount; i++) {
+    rgb[i * 3] = rgba[i * 4];
+    rgb[i * 3 + 1] = rgba[i * 4 + 1];
+    rgb[i * 3 + 2] = rgba[i * 4 + 2];
+    alpha[i] = rgba[i * 4 + 3];
+    if (alpha[i] !== 255) hasAlpha = true;
+  }
+  const imageDict: PdfDictValue = { Type: 'XObject', Subtype: 'Image', Width: width, Height: height, BitsPerComponent: 8 };
+  return {
+    width,
+    height,
+    dict: { ...imageDict, ColorSpace: 'DeviceRGB' },
+    data: rgb,
+    compress: true,
+    softMask: hasAlpha ? { dict: { ...imageDict, ColorSpace: 'DeviceGray' }, data: alpha } : undefined,
+  };
+};
+
+/**
+ * Prepare a JPEG or PNG for embedding; returns null for other formats
+ */
+export const createPdfImageSource = (data: Uint8Array): PdfImageSource | null => {
+  if (isJpeg(data)) return jpegSource(data);
+  if (isPng(data)) return pngSource(data);
+  return null;
+};
+
+/**
+ * Write an image (and its soft mask) and return the XObject reference
+ */
+export const writePdfImage = (writer: PdfWriter, source: PdfImageSource): PdfRaw => {
+  const softMask = source.softMask ? writer.addStream(source.softMask.dict, source.softMask.data) : undefined;
+  return writer.addStream({ ...source.dict, SMask: softMask }, source.data, { compress: source.compress });
+};
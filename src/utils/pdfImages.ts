@@ -0,0 +1,271 @@
+/**
+ * PDF image decoding
+ * Turns image XObjects and inline images into drawable canvas sources,
+ * including stencil masks, soft masks and colour-key masking.
+ */
+
+import { createCanvas, decodeImageBlob } from './canvasUtils';
+import { createColorSpace, PdfColorSpace, RGB } from './pdfColorSpaces';
+import { isName, isStream, PdfDict, PdfDocument, PdfObject, PdfStream } from './pdfParser';
+
+export interface ImageDecodeOptions {
+  // Colour used to paint stencil masks
+  fillColor: RGB;
+  fillAlpha: number;
+  lookupColorSpace?: (name: string) => PdfObject;
+}
+
+interface RawImage {
+  width: number;
+  height: number;
+  rgba: Uint8ClampedArray;
+}
+
+const getEntry = (doc: PdfDocument, dict: PdfDict, ...keys: string[]): PdfObject => {
+  for (const key of keys) {
+    const value = doc.get(dict, key);
+    if (value !== null && value !== undefined) return value;
+  }
+  return null;
+};
+
+/**
+ * Read packed samples of 1, 2, 4, 8 or 16 bits per component
+ */
+const createSampleReader = (data: Uint8Array, bitsPerComponent: number, rowBytes: number) => {
+  const maxValue = Math.pow(2, bitsPerComponent) - 1;
+  return (row: number, index: number): number => {
+    const rowStart = row * rowBytes;
+    if (bitsPerComponent === 8) return data[rowStart + index] ?? 0;
+    if (bitsPerComponent === 16) return ((data[rowStart + index * 2] ?? 0) << 8 | (data[rowStart + index * 2 + 1] ?? 0)) / 257;
+    const bitOffset = index * bitsPerComponent;
+    const byte = data[rowStart + (bitOffset >> 3)] ?? 0;
+    const shift = 8 - (bitOffset & 7) - bitsPerComponent;
+    return (byte >> shift) & maxValue;
+  };
+};
+
+const decodeStencil = (
+  data: Uint8Array,
+  width: number,
+  height: number,
+  invert: boolean
+): Uint8Array => {
+  // Returns 1 where the stencil paints
+  const mask = new Uint8Array(width * height);
+  const rowBytes = Math.ceil(width / 8);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const bit = ((data[y * rowBytes + (x >> 3)] ?? 0) >> (7 - (x & 7))) & 1;
+      mask[y * width + x] = (bit === 0) !== invert ? 1 : 0;
+    }
+  }
+  return mask;
+};
+
+const toNumberArray = (doc: PdfDocument, obj: PdfObject): number[] | null => {
+  const value = doc.resolve(obj);
+  return Array.isArray(value) ? value.map(v => (typeof v === 'number' ? v : 0)) : null;
+};
+
+/**
+ * Decode raw (non-JPEG) samples into RGBA pixels
+ */
+const decodeRawSamples = (
+  doc: PdfDocument,
+  dict: PdfDict,
+  data: Uint8Array,
+  colorSpace: PdfColorSpace,
+  width: number,
+  height: number,
+  bitsPerComponent: number
+): Uint8ClampedArray => {
+  const components = colorSpace.components || 1;
+  const rowBytes = Math.ceil((width * components * bitsPerComponent) / 8);
+  const read = createSampleReader(data, bitsPerComponent, rowBytes);
+  const maxValue = Math.pow(2, bitsPerComponent) - 1;
+  const decode = toNumberArray(doc, getEntry(doc, dict, 'Decode', 'D'));
+  const isIndexed = colorSpace.name === 'Indexed';
+  const rgba = new Uint8ClampedArray(width * height * 4);
+
+  // Map a raw sample to the colour space's component range
+  const mapSample = (value: number, component: number): number => {
+    const dMin = decode ? decode[component * 2] : 0;
+    const dMax = decode ? decode[component * 2 + 1] : isIndexed ? maxValue : 1;
+    return dMin + (value * (dMax - dMin)) / maxValue;
+  };
+
+  // Cache conversions for low bit depths and palettes
+  const cache = new Map<number, RGB>();
+  const components8: number[] = new Array(components);
+
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      let key = 0;
+      for (let c = 0; c < components; c++) {
+        const sample = read(y, x * components + c);
+        components8[c] = sample;
+        key = key * (maxValue + 1) + sample;
+      }
+
+      let rgb = components <= 3 || bitsPerComponent < 8 ? cache.get(key) : undefined;
+      if (!rgb) {
+        rgb = colorSpace.toRGB(components8.map((sample, c) => mapSample(sample, c)));
+        if (cache.size < 65536) cache.set(key, rgb);
+      }
+
+      const offset = (y * width + x) * 4;
+      rgba[offset] = rgb[0];
+      rgba[offset + 1] = rgb[1];
+      rgba[offset + 2] = rgb[2];
+      rgba[offset + 3] = 255;
+    }
+  }
+
+  // Colour-key masking: samples inside every range become transparent
+  const maskObj = getEntry(doc, dict, 'Mask');
+  if (Array.isArray(maskObj)) {
+    const ranges = maskObj.map(v => (typeof v === 'number' ? v : 0));
+    for (let y = 0; y < height; y++) {
+      for (let x = 0; x < width; x++) {
+        let masked = true;
+        for (let c = 0; c < components && masked; c++) {
+          const sample = read(y, x * components + c);
+          if (sample < ranges[c * 2] || sample > ranges[c * 2 + 1]) masked = false;
+        }
+        if (masked) rgba[(y * width + x) * 4 + 3] = 0;
+      }
+    }
+  }
+
+  return rgba;
+};
+
+/**
+ * Decode a grey soft mask and resample it to the base image size
+ */
+const applySoftMask = (doc: PdfDocument, smask: PdfStream, target: RawImage) => {
+  const width = (doc.get(smask, 'Width') as number) || 0;
+  const height = (doc.get(smask, 'Height') as number) || 0;
+  if (!width || !height) return;
+
+  const bitsPerComponent = (doc.get(smask, 'BitsPerComponent') as number) || 8;
+  const decoded = doc.decodeStream(smask);
+  if (decoded.imageFilter) return;
+
+  const rowBytes = Math.ceil((width * bitsPerComponent) / 8);
+  const read = createSampleReader(decoded.data, bitsPerComponent, rowBytes);
+  const maxValue = Math.pow(2, bitsPerComponent) - 1;
+  const decode = toNumberArray(doc, doc.get(smask, 'Decode'));
+  const invert = decode ? decode[0] > decode[1] : false;
+
+  for (let y = 0; y < target.height; y++) {
+    const sy = Math.min(height - 1, Math.floor((y * height) / target.height));
+    for (let x = 0; x < target.width; x++) {
+      const sx = Math.min(width - 1, Math.floor((x * width) / target.width));
+      let alpha = (read(sy, sx) / maxValue) * 255;
+      if (invert) alpha = 255 - alpha;
+      const offset = (y * target.width + x) * 4 + 3;
+      target.rgba[offset] = (target.rgba[offset] * alpha) / 255;
+    }
+  }
+};
+
+/**
+ * Apply an explicit stencil mask (/Mask stream): mask samples of 0 are painted
+ */
+const applyStencilMask = (doc: PdfDocument, mask: PdfStream, target: RawImage) => {
+  const width = (doc.get(mask, 'Width') as number) || 0;
+  const height = (doc.get(mask, 'Height') as number) || 0;
+  if (!width || !height) return;
+  const decoded = doc.decodeStream(mask);
+  if (decoded.imageFilter) return;
+  const decode = toNumberArray(doc, doc.get(mask, 'Decode'));
+  const stencil = decodeStencil(decoded.data, width, height, decode ? decode[0] === 1 : false);
+
+  for (let y = 0; y < target.height; y++) {
+    const sy = Math.min(height - 1, Math.floor((y * height) / target.height));
+    for (let x = 0; x < target.width; x++) {
+      const sx = Math.min(width - 1, Math.floor((x * width) / target.width));
+      if (!stencil[sy * width + sx]) target.rgba[(y * target.width + x) * 4 + 3] = 0;
+    }
+  }
+};
+
+const rawImageToCanvas = (image: RawImage) => {
+  const { canvas, ctx } = createCanvas(image.width, image.height);
+  ctx.putImageData(new ImageData(image.rgba, image.width, image.height), 0, 0);
+  return canvas;
+};
+
+/**
+ * Decode an image XObject (or inline image) into a drawable source
+ * Returns null for codecs the browser cannot decode (JBIG2, CCITT, most JPEG 2000).
+ */
+export const decodePdfImage = async (
+  doc: PdfDocument,
+  image: PdfStream,
+  options: ImageDecodeOptions
+): Promise<CanvasImageSource | null> => {
+  const dict = image.dict;
+  const width = (getEntry(doc, dict, 'Width', 'W') as number) || 0;
+  const height = (getEntry(doc, dict, 'Height', 'H') as number) || 0;
+  if (!width || !height || width * height > 64 * 1024 * 1024) return null;
+
+  const isMask = getEntry(doc, dict, 'ImageMask', 'IM') === true;
+  const decoded = doc.decodeStream(image);
+  const smask = doc.get(dict, 'SMask');
+  const mask = doc.get(dict, 'Mask');
+
+  if (decoded.imageFilter === 'DCTDecode' || decoded.imageFilter === 'JPXDecode') {
+    const type = decoded.imageFilter === 'DCTDecode' ? 'image/jpeg' : 'image/jp2';
+    let bitmap: ImageBitmap;
+    try {
+      bitmap = await decodeImageBlob(new Blob([decoded.data], { type }));
+    } catch {
+      return null;
+    }
+    if (!isStream(smask) && !isStream(mask)) return bitmap;
+
+    // Combine the decoded JPEG with its mask on a scratch canvas
+    const { canvas, ctx } = createCanvas(bitmap.width, bitmap.height);
+    ctx.drawImage(bitmap, 0, 0);
+    const pixels = ctx.getImageData(0, 0, canvas.width, canvas.height);
+    const raw: RawImage = { width: canvas.width, height: canvas.height, rgba: pixels.data };
+    if (isStream(smask)) applySoftMask(doc, smask, raw);
+    else if (isStream(mask)) applyStencilMask(doc, mask, raw);
+    ctx.putImageData(pixels, 0, 0);
+    return canvas;
+  }
+
+  if (decoded.imageFilter) return null;
+
+  if (isMask) {
+    const decode = toNumberArray(doc, getEntry(doc, dict, 'Decode', 'D'));
+    const stencil = decodeStencil(decoded.data, width, height, decode ? decode[0] === 1 : false);
+    const rgba = new Uint8ClampedArray(width * height * 4);
+    const alpha = Math.round(options.fillAlpha * 255);
+    for (let i = 0; i < stencil.length; i++) {
+      if (!stencil[i]) continue;
+      rgba[i * 4] = options.fillColor[0];
+      rgba[i * 4 + 1] = options.fillColor[1];
+      rgba[i * 4 + 2] = options.fillColor[2];
+      rgba[i * 4 + 3] = alpha;
+    }
+    return rawImageToCanvas({ width, height, rgba });
+  }
+
+  const colorSpaceObj = getEntry(doc, dict, 'ColorSpace', 'CS');
+  const colorSpace = createColorSpace(doc, colorSpaceObj ?? { type: 'name', name: 'DeviceGray' }, options.lookupColorSpace);
+  const bitsPerComponent = (getEntry(doc, dict, 'BitsPerComponent', 'BPC') as number) || 8;
+  const rgba = decodeRawSamples(doc, dict, decoded.data, colorSpace, width, height, bitsPerComponent);
+  const raw: RawImage = { width, height, rgba };
+
+  if (isStream(smask)) applySoftMask(doc, smask, raw);
+  else if (isStream(mask)) applyStencilMask(doc, mask, raw);
+
+  return rawImageToCanvas(raw);
+};
+
+export const isImageXObject = (doc: PdfDocument, obj: PdfObject): obj is PdfStream =>
+  isStream(obj) && isName(doc.get(obj, 'Subtype'), 'Image');
@@ -0,0 +1,1077 @@
+/**
+ * PDF document layout
+ * Flows a DocumentModel onto pages: wraps text to the page width,
+ * paginates, and writes the result through the PDF writer.
+ */
+
+import {
+  DocumentBlock,
+  DocumentModel,
+  DocumentParagraph,
+  DocumentTable,
+  FloatingPosition,
+  ImageRun,
+  ListInfo,
+  RunStyle,
+  TableRow,
+} from '../types/documentModel';
+import { detectTextDirection, getCharDirection, reorderByLevels, reverseRtlText, shapeArabic, TextDirection } from './bidiText';
+import {
+  createEmbeddedFont,
+  EmbeddedFont,
+  encodeEmbeddedText,
+  hasGlyph,
+  measureEmbeddedText,
+  writeEmbeddedFont,
+} from './pdfEmbeddedFont';
+import {
+  encodeWinAnsi,
+  getStandardFont,
+  getStandardFontFamily,
+  isWinAnsiEncodable,
+  measureStandardText,
+  StandardFontFamily,
+  StandardFontMetrics,
+} from './pdfFontMetrics';
+import { createPdfImageSource, PdfImageSource, writePdfImage } from './pdfImageEncoder';
+import {
+  createPdfWriter,
+  formatNumber,
+  pdfDate,
+  pdfLiteralString,
+  PdfDictValue,
+  PdfRaw,
+  pdfRef,
+  pdfString,
+} from './pdfWriter';
+import { TrueTypeFont } from './trueTypeFont';
+
+export interface PageMargins {
+  top: number;
+  right: number;
+  bottom: number;
+  left: number;
+}
+
+export interface PdfLayoutOptions {
+  // Page width and height in points
+  pageSize: [number, number];
+  margins: PageMargins;
+  fontFamily: StandardFontFamily;
+  fontSize: number;
+  // Line height as a multiple of the font size
+  lineHeight: number;
+  // Space after each paragraph, in points
+  paragraphSpacing: number;
+  // Embedded for characters outside WinAnsiEncoding, tried in order
+  unicodeFonts?: TrueTypeFont[];
+}
+
+export interface RenderedPdf {
+  data: Uint8Array;
+  pageCount: number;
+}
+
+// Page sizes in points
+export const PAGE_SIZES: Record<'a4' | 'letter', [number, number]> = {
+  a4: [595.28, 841.89],
+  letter: [612, 792],
+};
+
+const DEFAULT_OPTIONS: PdfLayoutOptions = {
+  pageSize: PAGE_SIZES.a4,
+  margins: { top: 72, right: 72, bottom: 72, left: 72 },
+  fontFamily: 'helvetica',
+  fontSize: 11,
+  lineHeight: 1.2,
+  paragraphSpacing: 6,
+};
+
+interface LayoutFont {
+  resourceName: string;
+  // Per 1000 units of the font size
+  ascent: number;
+  descent: number;
+  measure: (text: string, fontSize: number) => number;
+  // Text as a PDF string operand
+  encode: (text: string) => string;
+  // Set for embedded fonts, which may lack the bold or italic face
+  embedded?: EmbeddedFont;
+}
+
+interface LayoutImage {
+  resourceName: string;
+  source: PdfImageSource;
+}
+
+interface Fragment {
+  text: string;
+  font: LayoutFont;
+  fontSize: number;
+  width: number;
+  isSpace: boolean;
+  style: RunStyle;
+  // Baseline shift for superscript and subscript, in points
+  rise: number;
+  link?: string;
+  // Inline picture drawn instead of text; it sits on the baseline
+  image?: LayoutImage;
+  imageHeight?: number;
+  // Bidi embedding level: odd for right-to-left text, whose characters are already reversed
+  level?: number;
+}
+
+type InlineItem = Fragment | { type: 'line' } | { type: 'page' };
+
+interface LayoutLine {
+  fragments: Fragment[];
+  width: number;
+  fontSize: number;
+  ascent: number;
+  descent: number;
+  pageBreakBefore?: boolean;
+  // Set when the line was ended by wrapping, so it may be justified
+  wrapped?: boolean;
+}
+
+interface LinkArea {
+  pageIndex: number;
+  rect: [number, number, number, number];
+  uri: string;
+}
+
+interface LayoutContext {
+  options: PdfLayoutOptions;
+  fonts: Map<string, LayoutFont>;
+  // Content stream operators for each page
+  pages: string[][];
+  // Distance from the top edge of the current page, in points
+  cursorY: number;
+  // Table cells are laid out in one piece and never break across pages
+  allowPageBreaks: boolean;
+  // Current number at each level, per list
+  listCounters: Map<string, number[]>;
+  links: LinkArea[];
+  // Keyed by the image data; null for pictures that cannot be embedded
+  images: Map<Uint8Array, LayoutImage | null>;
+}
+
+const TAB_SPACES = '    ';
+
+// Defaults for headings whose runs carry no explicit size, in points
+const HEADING_FONT_SIZES = [16, 13, 12, 11, 11, 11];
+const HEADING_SPACE_BEFORE = 12;
+
+// Indentation per list level and the hanging space for the marker
+const LIST_INDENT = 18;
+const LIST_MARKER_GAP = 4;
+
+const TABLE_CELL_PADDING_X = 4;
+const TABLE_CELL_PADDING_Y = 3;
+const TABLE_BORDER_WIDTH = 0.5;
+
+// Superscript/subscript size and baseline shift, relative to the run size
+const SCRIPT_SCALE = 0.65;
+const SUPERSCRIPT_RISE = 0.33;
+const SUBSCRIPT_RISE = -0.14;
+
+const createStandardLayoutFont = (resourceName: string, metrics: StandardFontMetrics): LayoutFont => ({
+  resourceName,
+  ascent: metrics.ascent,
+  descent: metrics.descent,
+  measure: (text, fontSize) => measureStandardText(metrics, text, fontSize),
+  encode: text => pdfLiteralString(encodeWinAnsi(text)),
+});
+
+const createEmbeddedLayoutFont = (resourceName: string, font: TrueTypeFont): LayoutFont => {
+  const embedded = createEmbeddedFont(font);
+  return {
+    resourceName,
+    ascent: (font.ascent * 1000) / font.unitsPerEm,
+    descent: (font.descent * 1000) / font.unitsPerEm,
+    measure: (text, fontSize) => measureEmbeddedText(embedded, text, fontSize),
+    encode: text => encodeEmbeddedText(embedded, text),
+    embedded,
+  };
+};
+
+const getFont = (context: LayoutContext, style: RunStyle): LayoutFont => {
+  const family = style.fontFamily ? getStandardFontFamily(style.fontFamily) : context.options.fontFamily;
+  const metrics = getStandardFont(family, !!style.bold, !!style.italic);
+  let font = context.fonts.get(metrics.baseFont);
+  if (!font) {
+    font = createStandardLayoutFont(`F${context.fonts.size + 1}`, metrics);
+    context.fonts.set(metrics.baseFont, font);
+  }
+  return font;
+};
+
+/**
+ * Embedded font for a character the standard fonts cannot show: the first
+ * font that has it, in the face of that family closest to the run style
+ */
+const getUnicodeFont = (context: LayoutContext, style: RunStyle, char: string): LayoutFont | null => {
+  const candidates = (context.options.unicodeFonts ?? []).filter(font => hasGlyph(font, char));
+  if (!candidates.length) return null;
+  const family = candidates.filter(font => font.familyName === candidates[0].familyName);
+  const font = family.find(face => face.bold === !!style.bold && face.italic === !!style.italic)
+    ?? family.find(face => face.bold === !!style.bold)
+    ?? family[0];
+
+  const key = `embedded:${font.postScriptName}`;
+  let layoutFont = context.fonts.get(key);
+  if (!layoutFont) {
+    layoutFont = createEmbeddedLayoutFont(`F${context.fonts.size + 1}`, font);
+    context.fonts.set(key, layoutFont);
+  }
+  return layoutFont;
+};
+
+const getImage = (context: LayoutContext, run: ImageRun): LayoutImage | null => {
+  let image = context.images.get(run.data);
+  if (image === undefined) {
+    let source: PdfImageSource | null = null;
+    try {
+      source = createPdfImageSource(run.data);
+    } catch {
+      // Corrupt pictures are left out rather than failing the document
+    }
+    image = source ? { resourceName: `Im${context.images.size + 1}`, source } : null;
+    context.images.set(run.data, image);
+  }
+  return image;
+};
+
+/**
+ * Display size of a picture, scaled down to fit within the given box
+ */
+const fitImage = (width: number, height: number, maxWidth: number, maxHeight: number): [number, number] => {
+  const scale = Math.min(1, maxWidth / width, maxHeight / height);
+  return [width * scale, height * scale];
+};
+
+/**
+ * Hex colour (RRGGBB) as PDF colour operands
+ */
+const toPdfColor = (hex: string | undefined): string => {
+  if (!hex || !/^[0-9a-fA-F]{6}$/.test(hex)) return '0 0 0';
+  return [0, 2, 4].map(index => formatNumber(parseInt(hex.slice(index, index + 2), 16) / 255)).join(' ');
+};
+
+const currentPage = (context: LayoutContext) => context.pages[context.pages.length - 1];
+
+const startNewPage = (context: LayoutContext) => {
+  context.pages.push([]);
+  context.cursorY = context.options.margins.top;
+};
+
+const pageBottom = (context: LayoutContext) => context.options.pageSize[1] - context.options.margins.bottom;
+
+/**
+ * Move to a new page unless the next `height` points fit on the current one
+ */
+const ensureSpace = (context: LayoutContext, height: number) => {
+  if (!context.allowPageBreaks) return;
+  const atTop = context.cursorY <= context.options.margins.top;
+  if (!atTop && context.cursorY + height > pageBottom(context)) startNewPage(context);
+};
+
+/**
+ * Run style with the heading defaults filled in
+ */
+const getEffectiveStyle = (paragraph: DocumentParagraph, style: RunStyle): RunStyle => {
+  if (!paragraph.headingLevel) return style;
+  return {
+    ...style,
+    bold: style.bold ?? true,
+    fontSize: style.fontSize ?? HEADING_FONT_SIZES[paragraph.headingLevel - 1],
+  };
+};
+
+/**
+ * Explicit paragraph direction, or that of its first strong character
+ */
+const getParagraphDirection = (paragraph: DocumentParagraph): TextDirection =>
+  paragraph.style.direction
+  ?? detectTextDirection(paragraph.runs.map(run => (run.type === 'text' ? run.text : '')).join(''));
+
+/**
+ * Split a word into runs of one direction with their bidi levels. Neutral
+ * characters join the run before them; numbers after right-to-left text
+ * keep their left-to-right order.
+ */
+const splitDirectionRuns = (word: string, baseLevel: number): Array<{ text: string; level: number }> => {
+  const ltrLevel = baseLevel === 1 ? 2 : 0;
+  const runs: Array<{ text: string; level: number; isNumber?: boolean }> = [];
+  let leading = '';
+  let previousStrong: TextDirection | null = null;
+
+  for (const char of word) {
+    const direction = getCharDirection(char);
+    const last = runs[runs.length - 1];
+    if (direction === 'neutral') {
+      if (/\p{Nd}/u.test(char) && previousStrong === 'rtl' && !last?.isNumber) runs.push({ text: char, level: 2, isNumber: true });
+      else if (last) last.text += char;
+      else leading += char;
+      continue;
+    }
+    previousStrong = direction;
+    const level = direction === 'rtl' ? 1 : ltrLevel;
+    if (last && last.level === level && !last.isNumber) {
+      last.text += char;
+    } else {
+      runs.push({ text: leading + char, level });
+      leading = '';
+    }
+  }
+  if (leading) runs.push({ text: leading, level: baseLevel === 1 && /\p{Nd}/u.test(leading) ? 2 : baseLevel });
+  return runs;
+};
+
+/**
+ * Split text into runs that one font can show: the standard font where
+ * WinAnsiEncoding covers the characters, embedded fonts elsewhere
+ */
+const splitFontRuns = (context: LayoutContext, text: string, style: RunStyle, standardFont: LayoutFont): Array<{ text: string; font: LayoutFont }> => {
+  if (isWinAnsiEncodable(text)) return [{ text, font: standardFont }];
+  // Keep the word in one font when the first embedded font covers all of it
+  const firstFont = getUnicodeFont(context, style, Array.from(text).find(char => !isWinAnsiEncodable(char)) ?? '');
+  const embedded = firstFont?.embedded;
+  if (firstFont && embedded && Array.from(text).every(char => hasGlyph(embedded.font, char))) return [{ text, font: firstFont }];
+
+  const runs: Array<{ text: string; font: LayoutFont }> = [];
+  for (const char of text) {
+    const last = runs[runs.length - 1];
+    let font = standardFont;
+    if (!isWinAnsiEncodable(char)) font = getUnicodeFont(context, style, char) ?? standardFont;
+    // Punctuation between non-Latin letters stays in the embedded font
+    else if (last?.font.embedded && hasGlyph(last.font.embedded.font, char)) font = last.font;
+    if (last && last.font === font) last.text += char;
+    else runs.push({ text: char, font });
+  }
+  return runs;
+};
+
+/**
+ * Split paragraph runs into measured words, spaces and breaks
+ */
+const toInlineItems = (context: LayoutContext, paragraph: DocumentParagraph): InlineItem[] => {
+  const items: InlineItem[] = [];
+  const baseLevel = getParagraphDirection(paragraph) === 'rtl' ? 1 : 0;
+  for (const run of paragraph.runs) {
+    if (run.type === 'break') {
+      items.push({ type: run.kind });
+      continue;
+    }
+    if (run.type === 'image') {
+      const image = run.float ? null : getImage(context, run);
+      if (!image) continue;
+      const { pageSize, margins } = context.options;
+      const [width, height] = fitImage(
+        run.width,
+        run.height,
+        pageSize[0] - margins.left - margins.right,
+        pageSize[1] - margins.top - margins.bottom
+      );
+      items.push({
+        text: '',
+        font: getFont(context, {}),
+        fontSize: 0,
+        width,
+        isSpace: false,
+        style: {},
+        rise: 0,
+        image,
+        imageHeight: height,
+        level: baseLevel,
+      });
+      continue;
+    }
+    const style = getEffectiveStyle(paragraph, run.style);
+    const font = getFont(context, style);
+    const baseSize = style.fontSize || context.options.fontSize;
+    const fontSize = style.verticalAlign ? baseSize * SCRIPT_SCALE : baseSize;
+    const rise = style.verticalAlign === 'superscript'
+      ? baseSize * SUPERSCRIPT_RISE
+      : style.verticalAlign === 'subscript' ? baseSize * SUBSCRIPT_RISE : 0;
+
+    run.text.split('\n').forEach((line, index) => {
+      if (index > 0) items.push({ type: 'line' });
+      for (const part of line.replace(/\t/g, TAB_SPACES).split(/(\s+)/)) {
+        if (!part) continue;
+        const fragment = { fontSize, style, rise, link: run.link };
+        if (/^\s+$/.test(part)) {
+          items.push({ ...fragment, text: part, font, width: font.measure(part, fontSize), isSpace: true, level: baseLevel });
+          continue;
+        }
+        for (const directionRun of splitDirectionRuns(part, baseLevel)) {
+          const isRtl = directionRun.level % 2 === 1;
+          const text = isRtl ? shapeArabic(directionRun.text) : directionRun.text;
+          for (const fontRun of splitFontRuns(context, text, style, font)) {
+            items.push({
+              ...fragment,
+              text: isRtl ? reverseRtlText(fontRun.text) : fontRun.text,
+              font: fontRun.font,
+              width: fontRun.font.measure(fontRun.text, fontSize),
+              isSpace: false,
+              level: directionRun.level,
+            });
+          }
+        }
+      }
+    });
+  }
+  return items;
+};
+
+/**
+ * Break a word that is wider than the line into pieces that fit
+ */
+const splitLongWord = (fragment: Fragment, maxWidth: number): Fragment[] => {
+  const pieces: Fragment[] = [];
+  let text = '';
+  for (const char of fragment.text) {
+    const candidate = text + char;
+    if (text && fragment.font.measure(candidate, fragment.fontSize) > maxWidth) {
+      pieces.push({ ...fragment, text, width: fragment.font.measure(text, fragment.fontSize) });
+      text = char;
+    } else {
+      text = candidate;
+    }
+  }
+  if (text) pieces.push({ ...fragment, text, width: fragment.font.measure(text, fragment.fontSize) });
+  // Right-to-left text is stored reversed, so its pieces come in visual order
+  return fragment.level && fragment.level % 2 === 1 ? pieces.reverse() : pieces;
+};
+
+const getFragmentAscent = (fragment: Fragment): number =>
+  fragment.image
+    ? fragment.imageHeight ?? 0
+    : (fragment.font.ascent * fragment.fontSize) / 1000 + Math.max(fragment.rise, 0);
+
+const getFragmentDescent = (fragment: Fragment): number =>
+  fragment.image ? 0 : (-fragment.font.descent * fragment.fontSize) / 1000 - Math.min(fragment.rise, 0);
+
+/**
+ * Scale an inline picture down to the line width
+ */
+const fitImageFragment = (fragment: Fragment, maxWidth: number): Fragment => {
+  const [width, imageHeight] = fitImage(fragment.width, fragment.imageHeight ?? 0, maxWidth, Infinity);
+  return { ...fragment, width, imageHeight };
+};
+
+/**
+ * Greedy line breaking; trailing spaces do not count towards the line width.
+ * The first line may have a different width because of first-line indents.
+ */
+const breakIntoLines = (items: InlineItem[], firstWidth: number, width: number, defaultFontSize: number): LayoutLine[] => {
+  const lines: LayoutLine[] = [];
+  let fragments: Fragment[] = [];
+  let lineWidth = 0;
+  let pageBreakPending = false;
+  const maxWidth = () => (lines.length ? width : firstWidth);
+
+  const pushLine = (wrapped = false) => {
+    while (fragments.length && fragments[fragments.length - 1].isSpace) {
+      lineWidth -= (fragments.pop() as Fragment).width;
+    }
+    const fontSize = fragments.length ? Math.max(...fragments.map(fragment => fragment.fontSize)) : defaultFontSize;
+    const ascent = fragments.length ? Math.max(...fragments.map(getFragmentAscent)) : fontSize * 0.75;
+    const descent = fragments.length ? Math.max(...fragments.map(getFragmentDescent)) : fontSize * 0.25;
+    lines.push({
+      fragments,
+      width: lineWidth,
+      fontSize,
+      ascent,
+      descent,
+      pageBreakBefore: pageBreakPending || undefined,
+      wrapped: wrapped || undefined,
+    });
+    pageBreakPending = false;
+    fragments = [];
+    lineWidth = 0;
+  };
+
+  const isWordPart = (item: InlineItem | undefined): item is Fragment =>
+    !!item && !('type' in item) && !item.isSpace && !item.image;
+
+  items.forEach((item, index) => {
+    if ('type' in item) {
+      if (item.type === 'page') {
+        if (fragments.length) pushLine();
+        pageBreakPending = true;
+      } else {
+        pushLine();
+      }
+      return;
+    }
+
+    if (item.isSpace) {
+      // Spaces at the start of a wrapped line are dropped
+      if (fragments.length || !lines.length) {
+        fragments.push(item);
+        lineWidth += item.width;
+      }
+      return;
+    }
+
+    // A word made of several fragments (style, font or direction changes) wraps as a whole
+    if (isWordPart(item) && !isWordPart(items[index - 1])) {
+      let wordWidth = 0;
+      for (let next = index; isWordPart(items[next]); next++) wordWidth += (items[next] as Fragment).width;
+      if (lineWidth + wordWidth > maxWidth() && wordWidth <= maxWidth() && fragments.some(fragment => !fragment.isSpace)) {
+        pushLine(true);
+      }
+    }
+
+    let pieces = [item];
+    if (item.image) pieces = [fitImageFragment(item, maxWidth())];
+    else if (item.width > maxWidth()) pieces = splitLongWord(item, maxWidth());
+    for (const piece of pieces) {
+      if (lineWidth + piece.width > maxWidth() && fragments.some(fragment => !fragment.isSpace)) pushLine(true);
+      fragments.push(piece);
+      lineWidth += piece.width;
+    }
+  });
+  if (fragments.length || !lines.length || pageBreakPending) pushLine();
+
+  return lines;
+};
+
+const countSpaces = (text: string) => text.split(' ').length - 1;
+
+/**
+ * Fragments of a line in display order. Spaces between two fragments of
+ * the same level take that level; others keep the paragraph level.
+ */
+const toVisualOrder = (fragments: Fragment[]): Fragment[] => {
+  if (!fragments.some(fragment => fragment.level)) return fragments;
+  const levels = fragments.map(fragment => fragment.level ?? 0);
+  fragments.forEach((fragment, index) => {
+    if (!fragment.isSpace) return;
+    let before = index - 1;
+    while (before >= 0 && fragments[before].isSpace) before--;
+    let after = index + 1;
+    while (after < fragments.length && fragments[after].isSpace) after++;
+    if (before >= 0 && after < fragments.length && levels[before] === levels[after]) levels[index] = levels[before];
+  });
+  return reorderByLevels(fragments, levels);
+};
+
+/**
+ * Emit one line with its baseline at `baselineY` (from the top).
+ * `wordSpacing` is added to every space when the line is justified.
+ */
+const drawLine = (context: LayoutContext, line: LayoutLine, x: number, baselineY: number, wordSpacing = 0) => {
+  const pageHeight = context.options.pageSize[1];
+  const ops = currentPage(context);
+  const baseline = pageHeight - baselineY;
+
+  const placed: Array<{ fragment: Fragment; x: number; width: number }> = [];
+  let cursorX = x;
+  for (const fragment of toVisualOrder(line.fragments)) {
+    const width = fragment.width + countSpaces(fragment.text) * wordSpacing;
+    placed.push({ fragment, x: cursorX, width });
+    cursorX += width;
+  }
+
+  // Highlights go behind the text
+  for (const { fragment, x: fragmentX, width } of placed) {
+    if (!fragment.style.highlight) continue;
+    ops.push(
+      `q ${toPdfColor(fragment.style.highlight)} rg ${formatNumber(fragmentX)} ${formatNumber(baseline - line.descent)} `
+      + `${formatNumber(width)} ${formatNumber(line.ascent + line.descent)} re f Q`
+    );
+  }
+
+  let index = 0;
+  while (index < placed.length) {
+    const first = placed[index];
+    if (first.fragment.image) {
+      const height = first.fragment.imageHeight ?? 0;
+      ops.push(
+        `q ${formatNumber(first.width)} 0 0 ${formatNumber(height)} ${formatNumber(first.x)} ${formatNumber(baseline)} cm `
+        + `/${first.fragment.image.resourceName} Do Q`
+      );
+      index++;
+      continue;
+    }
+
+    // Consecutive fragments in the same font and style are written as one string;
+    // on justified lines every word is placed on its own
+    const { font, fontSize, rise, style } = first.fragment;
+    let text = '';
+    while (
+      index < placed.length
+      && !placed[index].fragment.image
+      && placed[index].fragment.font === font
+      && placed[index].fragment.fontSize === fontSize
+      && placed[index].fragment.rise === rise
+      && placed[index].fragment.style.color === style.color
+      && !!placed[index].fragment.style.bold === !!style.bold
+      && !!placed[index].fragment.style.italic === !!style.italic
+      && !(wordSpacing && placed[index].fragment.isSpace !== first.fragment.isSpace)
+    ) {
+      text += placed[index].fragment.text;
+      index++;
+    }
+
+    if (text.trim()) {
+      // Faces missing from an embedded family are simulated: bold by also
+      // stroking the outlines, italic by slanting the text matrix
+      const syntheticBold = !!style.bold && !!font.embedded && !font.embedded.font.bold;
+      const syntheticItalic = !!style.italic && !!font.embedded && !font.embedded.font.italic;
+      const color = toPdfColor(style.color);
+      const textOp = `BT /${font.resourceName} ${formatNumber(fontSize)} Tf ${color} rg `
+        + (syntheticBold ? `${color} RG 2 Tr ${formatNumber(fontSize * 0.03)} w ` : '')
+        + `1 0 ${syntheticItalic ? '0.21' : '0'} 1 ${formatNumber(first.x)} ${formatNumber(baseline + rise)} Tm `
+        + `${font.encode(text)} Tj ET`;
+      ops.push(syntheticBold ? `q ${textOp} Q` : textOp);
+    }
+  }
+
+  for (const { fragment, x: fragmentX, width } of placed) {
+    const { style, fontSize, rise } = fragment;
+    const thickness = Math.max(fontSize * 0.05, 0.5);
+    const color = toPdfColor(style.color);
+    if (style.underline) {
+      ops.push(`q ${color} rg ${formatNumber(fragmentX)} ${formatNumber(baseline + rise - fontSize * 0.12)} ${formatNumber(width)} ${formatNumber(thickness)} re f Q`);
+    }
+    if (style.strike) {
+      ops.push(`q ${color} rg ${formatNumber(fragmentX)} ${formatNumber(baseline + rise + fontSize * 0.28)} ${formatNumber(width)} ${formatNumber(thickness)} re f Q`);
+    }
+  }
+
+  // Neighbouring fragments with the same target become one link area
+  for (const { fragment, x: fragmentX, width } of placed) {
+    if (!fragment.link) continue;
+    const previous = context.links[context.links.length - 1];
+    const rect: [number, number, number, number] = [fragmentX, baseline - line.descent, fragmentX + width, baseline + line.ascent];
+    if (
+      previous
+      && previous.uri === fragment.link
+      && previous.pageIndex === context.pages.length - 1
+      && Math.abs(previous.rect[2] - fragmentX) < 0.01
+      && previous.rect[1] === rect[1]
+    ) {
+      previous.rect[2] = rect[2];
+    } else {
+      context.links.push({ pageIndex: context.pages.length - 1, rect, uri: fragment.link });
+    }
+  }
+};
+
+const toRoman = (value: number): string => {
+  const numerals: Array<[number, string]> = [
+    [1000, 'm'], [900, 'cm'], [500, 'd'], [400, 'cd'], [100, 'c'], [90, 'xc'],
+    [50, 'l'], [40, 'xl'], [10, 'x'], [9, 'ix'], [5, 'v'], [4, 'iv'], [1, 'i'],
+  ];
+  let result = '';
+  for (const [amount, numeral] of numerals) {
+    while (value >= amount) {
+      result += numeral;
+      value -= amount;
+    }
+  }
+  return result;
+};
+
+const toLetters = (value: number): string => {
+  let result = '';
+  while (value > 0) {
+    value--;
+    result = String.fromCharCode(97 + (value % 26)) + result;
+    value = Math.floor(value / 26);
+  }
+  return result;
+};
+
+/**
+ * Marker text for an ordered list item, e.g. "3.", "c.", "iv."
+ */
+const formatListNumber = (format: string | undefined, value: number): string => {
+  switch (format) {
+    case 'lowerLetter': return `${toLetters(value)}.`;
+    case 'upperLetter': return `${toLetters(value).toUpperCase()}.`;
+    case 'lowerRoman': return `${toRoman(value)}.`;
+    case 'upperRoman': return `${toRoman(value).toUpperCase()}.`;
+    default: return `${value}.`;
+  }
+};
+
+/**
+ * Advance the counters of a list and return the number of this item
+ */
+const nextListNumber = (context: LayoutContext, list: ListInfo): number => {
+  const key = list.listId ?? (list.ordered ? 'ordered' : 'bullet');
+  const counters = context.listCounters.get(key) ?? [];
+  counters[list.level] = (counters[list.level] ?? (list.start ?? 1) - 1) + 1;
+  // Starting an item resets the numbering of deeper levels
+  counters.length = list.level + 1;
+  context.listCounters.set(key, counters);
+  return counters[list.level];
+};
+
+/**
+ * Bullets are drawn as shapes so they do not depend on the font encoding:
+ * a disc, a circle and a square for successive levels
+ */
+const drawBullet = (context: LayoutContext, level: number, x: number, baselineY: number, fontSize: number) => {
+  const pageHeight = context.options.pageSize[1];
+  const radius = fontSize * 0.17;
+  const cx = x + radius;
+  const cy = pageHeight - baselineY + fontSize * 0.3;
+  const shape = level % 3;
+
+  if (shape === 2) {
+    context.pages[context.pages.length - 1].push(
+      `q 0 0 0 rg ${formatNumber(cx - radius)} ${formatNumber(cy - radius)} ${formatNumber(radius * 2)} ${formatNumber(radius * 2)} re f Q`
+    );
+    return;
+  }
+
+  // Four Bezier quarter-circles
+  const k = radius * 0.5523;
+  const f = formatNumber;
+  const path = [
+    `${f(cx + radius)} ${f(cy)} m`,
+    `${f(cx + radius)} ${f(cy + k)} ${f(cx + k)} ${f(cy + radius)} ${f(cx)} ${f(cy + radius)} c`,
+    `${f(cx - k)} ${f(cy + radius)} ${f(cx - radius)} ${f(cy + k)} ${f(cx - radius)} ${f(cy)} c`,
+    `${f(cx - radius)} ${f(cy - k)} ${f(cx - k)} ${f(cy - radius)} ${f(cx)} ${f(cy - radius)} c`,
+    `${f(cx + k)} ${f(cy - radius)} ${f(cx + radius)} ${f(cy - k)} ${f(cx + radius)} ${f(cy)} c`,
+  ].join(' ');
+  currentPage(context).push(shape === 0 ? `q 0 0 0 rg ${path} f Q` : `q 0 0 0 RG ${f(fontSize * 0.06)} w ${path} S Q`);
+};
+
+const getListMarkerFragment = (context: LayoutContext, paragraph: DocumentParagraph, list: ListInfo): Fragment => {
+  const firstRun = paragraph.runs.find(run => run.type === 'text');
+  const style = getEffectiveStyle(paragraph, firstRun?.type === 'text' ? { ...firstRun.style, underline: false, strike: false, highlight: undefined } : {});
+  const font = getFont(context, style);
+  const fontSize = style.fontSize || context.options.fontSize;
+  const text = list.ordered ? formatListNumber(list.format, nextListNumber(context, list)) : '';
+  return {
+    text,
+    font,
+    fontSize,
+    width: list.ordered ? font.measure(text, fontSize) : fontSize * 0.34,
+    isSpace: false,
+    style,
+    rise: 0,
+  };
+};
+
+const resolveFloatingPosition = (position: FloatingPosition, start: number, size: number, extent: number): number => {
+  if (position.align === 'center') return start + (size - extent) / 2;
+  if (position.align === 'end') return start + size - extent;
+  return start + (position.offset ?? 0);
+};
+
+/**
+ * Draw the anchored pictures of a paragraph at their declared position and
+ * return the bottom edge of those that the text has to go below
+ */
+const placeFloatingImages = (context: LayoutContext, paragraph: DocumentParagraph, x: number, width: number): number => {
+  const { pageSize, margins, fontSize, lineHeight } = context.options;
+  let wrapBottom = 0;
+
+  for (const run of paragraph.runs) {
+    if (run.type !== 'image' || !run.float) continue;
+    const image = getImage(context, run);
+    if (!image) continue;
+    const { horizontal, vertical, wrapText, behindText } = run.float;
+    const [imageWidth, imageHeight] = fitImage(run.width, run.height, pageSize[0], pageSize[1] - margins.top - margins.bottom);
+    if (vertical.relativeTo === 'paragraph') ensureSpace(context, (vertical.offset ?? 0) + imageHeight);
+
+    const horizontalArea = horizontal.relativeTo === 'page'
+      ? [0, pageSize[0]]
+      : horizontal.relativeTo === 'margin' ? [margins.left, pageSize[0] - margins.left - margins.right] : [x, width];
+    const verticalArea = vertical.relativeTo === 'page'
+      ? [0, pageSize[1]]
+      : vertical.relativeTo === 'margin' ? [margins.top, pageSize[1] - margins.top - margins.bottom] : [context.cursorY, 0];
+    const left = resolveFloatingPosition(horizontal, horizontalArea[0], horizontalArea[1], imageWidth);
+    const top = resolveFloatingPosition(vertical, verticalArea[0], verticalArea[1], imageHeight);
+
+    const op = `q ${formatNumber(imageWidth)} 0 0 ${formatNumber(imageHeight)} ${formatNumber(left)} ${formatNumber(pageSize[1] - top - imageHeight)} cm `
+      + `/${image.resourceName} Do Q`;
+    if (behindText) currentPage(context).unshift(op);
+    else currentPage(context).push(op);
+
+    // Only pictures that start around the current line push the text down
+    if (wrapText && top <= context.cursorY + fontSize * lineHeight) wrapBottom = Math.max(wrapBottom, top + imageHeight);
+  }
+  return wrapBottom;
+};
+
+const layoutParagraph = (context: LayoutContext, paragraph: DocumentParagraph, x: number, width: number) => {
+  const { options } = context;
+  const { style, list } = paragraph;
+  // Right-to-left paragraphs are laid out mirrored: indents and markers start at the right edge
+  const isRtl = getParagraphDirection(paragraph) === 'rtl';
+  const alignment = isRtl && (style.alignment === 'left' || style.alignment === 'right')
+    ? (style.alignment === 'left' ? 'right' : 'left')
+    : style.alignment ?? (isRtl ? 'right' : 'left');
+
+  let indentLeft = style.indentLeft ?? 0;
+  let indentFirstLine = style.indentFirstLine ?? 0;
+  if (list && style.indentLeft === undefined) {
+    indentLeft = LIST_INDENT * (list.level + 1);
+    indentFirstLine = -LIST_INDENT;
+  }
+
+  // The marker hangs at the first-line position; the text starts after it
+  const marker = list ? getListMarkerFragment(context, paragraph, list) : null;
+  let firstLineX = indentLeft + indentFirstLine;
+  if (marker) firstLineX = Math.max(indentLeft, firstLineX + marker.width + LIST_MARKER_GAP);
+
+  const lines = breakIntoLines(
+    toInlineItems(context, paragraph),
+    Math.max(width - firstLineX, 1),
+    Math.max(width - indentLeft, 1),
+    options.fontSize
+  );
+  const lineSpacing = options.lineHeight * (style.lineSpacing ?? 1);
+
+  context.cursorY += style.spaceBefore ?? (paragraph.headingLevel ? HEADING_SPACE_BEFORE : 0);
+  context.cursorY = Math.max(context.cursorY, placeFloatingImages(context, paragraph, x, width));
+  lines.forEach((line, index) => {
+    if (line.pageBreakBefore && context.allowPageBreaks) startNewPage(context);
+    const lineHeight = Math.max(line.fontSize * lineSpacing, line.ascent + line.descent);
+    // Keep a heading together with the start of the text that follows it
+    ensureSpace(context, paragraph.headingLevel && index === 0 ? lineHeight * 3 : lineHeight);
+    // Centre the glyph box vertically inside the line's leading
+    const baselineY = context.cursorY + (lineHeight - line.ascent - line.descent) / 2 + line.ascent;
+
+    const lineIndent = index === 0 ? firstLineX : indentLeft;
+    const available = width - lineIndent;
+    const areaX = isRtl ? x : x + lineIndent;
+    let offset = 0;
+    let wordSpacing = 0;
+    if (alignment === 'center') offset = (available - line.width) / 2;
+    else if (alignment === 'right' || (alignment === 'justify' && isRtl && !line.wrapped)) offset = available - line.width;
+    else if (alignment === 'justify' && line.wrapped) {
+      const spaces = line.fragments.reduce((count, fragment) => count + countSpaces(fragment.text), 0);
+      if (spaces) wordSpacing = (available - line.width) / spaces;
+    }
+    drawLine(context, line, areaX + Math.max(offset, 0), baselineY, wordSpacing);
+
+    if (index === 0 && marker) {
+      const markerIndent = indentLeft + indentFirstLine;
+      const markerX = isRtl ? x + width - markerIndent - marker.width : x + markerIndent;
+      if (list?.ordered) drawLine(context, { ...line, fragments: [marker], width: marker.width }, markerX, baselineY);
+      else drawBullet(context, list?.level ?? 0, markerX, baselineY, marker.fontSize);
+    }
+    context.cursorY += lineHeight;
+  });
+  context.cursorY += style.spaceAfter ?? options.paragraphSpacing;
+};
+
+interface ContentWidths {
+  // Widest unbreakable piece
+  min: number;
+  // Width without any wrapping
+  max: number;
+}
+
+const measureBlocks = (context: LayoutContext, blocks: DocumentBlock[]): ContentWidths => {
+  const result: ContentWidths = { min: 0, max: 0 };
+  for (const block of blocks) {
+    if (block.type === 'paragraph') {
+      const indent = Math.max(block.style.indentLeft ?? (block.list ? LIST_INDENT * (block.list.level + 1) : 0), 0);
+      let lineWidth = 0;
+      for (const item of toInlineItems(context, block)) {
+        if ('type' in item) {
+          lineWidth = 0;
+          continue;
+        }
+        if (!item.isSpace) result.min = Math.max(result.min, item.width + indent);
+        lineWidth += item.width;
+        result.max = Math.max(result.max, lineWidth + indent);
+      }
+    } else {
+      for (const row of block.rows) {
+        let rowMin = 0;
+        let rowMax = 0;
+        for (const cell of row.cells) {
+          const cellWidths = measureBlocks(context, cell.blocks);
+          rowMin += cellWidths.min + TABLE_CELL_PADDING_X * 2;
+          rowMax += cellWidths.max + TABLE_CELL_PADDING_X * 2;
+        }
+        result.min = Math.max(result.min, rowMin);
+        result.max = Math.max(result.max, rowMax);
+      }
+    }
+  }
+  return result;
+};
+
+/**
+ * Share the available width between the table columns, giving more room
+ * to columns with more content
+ */
+const getColumnWidths = (context: LayoutContext, table: DocumentTable, width: number): number[] => {
+  const columnCount = Math.max(1, ...table.rows.map(row => row.cells.reduce((count, cell) => count + (cell.colSpan ?? 1), 0)));
+  const mins = new Array<number>(columnCount).fill(TABLE_CELL_PADDING_X * 2);
+  const maxs = new Array<number>(columnCount).fill(TABLE_CELL_PADDING_X * 2);
+
+  for (const row of table.rows) {
+    let column = 0;
+    for (const cell of row.cells) {
+      const span = cell.colSpan ?? 1;
+      if (span === 1) {
+        const widths = measureBlocks(context, cell.blocks);
+        mins[column] = Math.max(mins[column], widths.min + TABLE_CELL_PADDING_X * 2);
+        maxs[column] = Math.max(maxs[column], widths.max + TABLE_CELL_PADDING_X * 2);
+      }
+      column += span;
+    }
+  }
+
+  const minTotal = mins.reduce((sum, value) => sum + value, 0);
+  const maxTotal = maxs.reduce((sum, value) => sum + value, 0);
+  if (maxTotal <= width) return maxs.map(value => (value * width) / maxTotal);
+  if (minTotal >= width) return mins.map(value => (value * width) / minTotal);
+  return mins.map((min, index) => min + ((width - minTotal) * (maxs[index] - min)) / (maxTotal - minTotal));
+};
+
+/**
+ * Lay out one table row at the cursor and return its height. With `dryRun`
+ * nothing is drawn, which is used to measure the row before placing it.
+ */
+const layoutTableRow = (context: LayoutContext, row: TableRow, x: number, columnWidths: number[], dryRun: boolean): number => {
+  const top = context.cursorY;
+  const cellAreas: Array<[number, number]> = [];
+  let height = context.options.fontSize * context.options.lineHeight + TABLE_CELL_PADDING_Y * 2;
+  let column = 0;
+
+  for (const cell of row.cells) {
+    const span = Math.max(cell.colSpan ?? 1, 1);
+    const cellX = x + columnWidths.slice(0, column).reduce((sum, value) => sum + value, 0);
+    const cellWidth = columnWidths.slice(column, column + span).reduce((sum, value) => sum + value, 0);
+    column += span;
+    cellAreas.push([cellX, cellWidth]);
+
+    const cellContext: LayoutContext = {
+      ...context,
+      pages: dryRun ? [[]] : context.pages,
+      links: dryRun ? [] : context.links,
+      listCounters: dryRun
+        ? new Map(Array.from(context.listCounters, ([key, counters]) => [key, [...counters]]))
+        : context.listCounters,
+      cursorY: top + TABLE_CELL_PADDING_Y,
+      allowPageBreaks: false,
+    };
+    layoutBlocks(cellContext, cell.blocks, cellX + TABLE_CELL_PADDING_X, Math.max(cellWidth - TABLE_CELL_PADDING_X * 2, 1));
+    height = Math.max(height, cellContext.cursorY - top + TABLE_CELL_PADDING_Y);
+  }
+
+  if (!dryRun) {
+    const pageHeight = context.options.pageSize[1];
+    const borders = cellAreas
+      .map(([cellX, cellWidth]) => `${formatNumber(cellX)} ${formatNumber(pageHeight - top - height)} ${formatNumber(cellWidth)} ${formatNumber(height)} re`)
+      .join(' ');
+    currentPage(context).push(`q 0 0 0 RG ${formatNumber(TABLE_BORDER_WIDTH)} w ${borders} S Q`);
+  }
+  return height;
+};
+
+/**
+ * Lay out a table row by row; header rows are repeated after page breaks
+ */
+const layoutTable = (context: LayoutContext, table: DocumentTable, x: number, width: number) => {
+  const columnWidths = getColumnWidths(context, table, width);
+  const headerRows: TableRow[] = [];
+  for (const row of table.rows) {
+    if (!row.isHeader) break;
+    headerRows.push(row);
+  }
+
+  table.rows.forEach((row, index) => {
+    const height = layoutTableRow(context, row, x, columnWidths, true);
+    const pageCount = context.pages.length;
+    ensureSpace(context, height);
+    if (context.pages.length !== pageCount && index >= headerRows.length) {
+      for (const header of headerRows) {
+        context.cursorY += layoutTableRow(context, header, x, columnWidths, false);
+      }
+    }
+    context.cursorY += layoutTableRow(context, row, x, columnWidths, false);
+  });
+  context.cursorY += context.options.paragraphSpacing;
+};
+
+const layoutBlocks = (context: LayoutContext, blocks: DocumentBlock[], x: number, width: number) => {
+  for (const block of blocks) {
+    if (block.type === 'paragraph') layoutParagraph(context, block, x, width);
+    else layoutTable(context, block, x, width);
+  }
+};
+
+/**
+ * Lay out a document and serialise it as a PDF file
+ */
+export const renderDocumentToPdf = (model: DocumentModel, overrides: Partial<PdfLayoutOptions> = {}): RenderedPdf => {
+  const options: PdfLayoutOptions = { ...DEFAULT_OPTIONS, ...overrides };
+  const context: LayoutContext = {
+    options,
+    fonts: new Map(),
+    pages: [],
+    cursorY: 0,
+    allowPageBreaks: true,
+    listCounters: new Map(),
+    links: [],
+    images: new Map(),
+  };
+  startNewPage(context);
+
+  const [pageWidth, pageHeight] = options.pageSize;
+  const contentWidth = pageWidth - options.margins.left - options.margins.right;
+  layoutBlocks(context, model.blocks, options.margins.left, contentWidth);
+
+  const writer = createPdfWriter();
+  const fontDict: PdfDictValue = {};
+  context.fonts.forEach((font, key) => {
+    fontDict[font.resourceName] = font.embedded
+      ? writeEmbeddedFont(writer, font.embedded)
+      : writer.addObject({ Type: 'Font', Subtype: 'Type1', BaseFont: key, Encoding: 'WinAnsiEncoding' });
+  });
+  const imageDict: PdfDictValue = {};
+  context.images.forEach(image => {
+    if (image) imageDict[image.resourceName] = writePdfImage(writer, image.source);
+  });
+  const resources = writer.addObject({
+    Font: fontDict,
+    XObject: context.images.size ? imageDict : undefined,
+    ProcSet: ['PDF', 'Text', 'ImageB', 'ImageC', 'ImageI'],
+  });
+
+  const pagesId = writer.allocate();
+  const pageRefs: PdfRaw[] = context.pages.map((ops, pageIndex) => {
+    const contents = writer.addStream({}, new TextEncoder().encode(ops.join('\n')));
+    const annotations = context.links
+      .filter(link => link.pageIndex === pageIndex)
+      .map(link => ({
+        Type: 'Annot',
+        Subtype: 'Link',
+        Rect: link.rect,
+        Border: [0, 0, 0],
+        A: { S: 'URI', URI: { raw: pdfLiteralString(new TextEncoder().encode(link.uri)) } },
+      }));
+    return writer.addObject({
+      Type: 'Page',
+      Parent: pdfRef(pagesId),
+      MediaBox: [0, 0, pageWidth, pageHeight],
+      Resources: resources,
+      Contents: contents,
+      Annots: annotations.length ? annotations : undefined,
+    });
+  });
+  writer.writeObject(pagesId, { Type: 'Pages', Kids: pageRefs, Count: pageRefs.length });
+
+  const catalog = writer.addObject({ Type: 'Catalog', Pages: pdfRef(pagesId) });
+  const info = writer.addObject({
+    Title: model.title ? pdfString(model.title) : undefined,
+    Producer: pdfString('Vixert File Converter'),
+    CreationDate: pdfDate(new Date()),
+  });
+  return { data: writer.finish(catalog, info), pageCount: pageRefs.length };
+};
@@ -0,0 +1,911 @@
+/**
+ * PDF Object Parser
+ * Reads the cross-reference data (tables and streams), object streams and page tree
+ * of a PDF file so converters can work from real document content.
+ */
+
+import { decodeFilters, DecodedStream, FilterParams } from './pdfFilters';
+import { createSecurityHandler, PdfSecurityHandler } from './pdfSecurity';
+
+export interface PdfName {
+  type: 'name';
+  name: string;
+}
+
+export interface PdfString {
+  type: 'string';
+  bytes: Uint8Array;
+  hex: boolean;
+}
+
+export interface PdfRef {
+  type: 'ref';
+  num: number;
+  gen: number;
+}
+
+export interface PdfDict {
+  type: 'dict';
+  entries: Map<string, PdfObject>;
+}
+
+export interface PdfStream {
+  type: 'stream';
+  dict: PdfDict;
+  raw: Uint8Array;
+  ref?: PdfRef;
+}
+
+export type PdfObject =
+  | null
+  | boolean
+  | number
+  | PdfName
+  | PdfString
+  | PdfRef
+  | PdfDict
+  | PdfStream
+  | PdfObject[];
+
+// Keywords are kept distinct from names so the parser can recognise operators
+export interface PdfKeyword {
+  type: 'keyword';
+  value: string;
+}
+
+export type PdfToken = PdfObject | PdfKeyword;
+
+export type PdfRect = [number, number, number, number];
+
+export interface PdfPage {
+  index: number;
+  dict: PdfDict;
+  ref?: PdfRef;
+  mediaBox: PdfRect;
+  cropBox: PdfRect;
+  rotate: number;
+  resources: PdfDict | null;
+}
+
+export interface PdfOpenOptions {
+  // Tried after the empty password for encrypted documents
+  password?: string;
+}
+
+export interface PdfDocument {
+  version: string;
+  encrypted: boolean;
+  trailer: PdfDict;
+  catalog: PdfDict;
+  pages: PdfPage[];
+  resolve: (obj: PdfObject | undefined) => PdfObject;
+  get: (dict: PdfDict | PdfStream | null | undefined, key: string) => PdfObject;
+  getObject: (num: number, gen?: number) => PdfObject;
+  decodeStream: (stream: PdfStream) => DecodedStream;
+  getStreamData: (stream: PdfStream) => Uint8Array;
+  getPageContents: (page: PdfPage) => Uint8Array;
+}
+
+export const makeName = (name: string): PdfName => ({ type: 'name', name });
+
+export const isName = (obj: PdfObject | undefined, name?: string): obj is PdfName =>
+  typeof obj === 'object' && obj !== null && !Array.isArray(obj) && obj.type === 'name' && (name === undefined || obj.name === name);
+
+export const isDict = (obj: PdfObject | undefined): obj is PdfDict =>
+  typeof obj === 'object' && obj !== null && !Array.isArray(obj) && obj.type === 'dict';
+
+export const isStream = (obj: PdfObject | undefined): obj is PdfStream =>
+  typeof obj === 'object' && obj !== null && !Array.isArray(obj) && obj.type === 'stream';
+
+export const isRef = (obj: PdfObject | undefined): obj is PdfRef =>
+  typeof obj === 'object' && obj !== null && !Array.isArray(obj) && obj.type === 'ref';
+
+export const isPdfString = (obj: PdfObject | undefined): obj is PdfString =>
+  typeof obj === 'object' && obj !== null && !Array.isArray(obj) && obj.type === 'string';
+
+export const isKeyword = (token: PdfToken | undefined, value?: string): token is PdfKeyword =>
+  typeof token === 'object' && token !== null && !Array.isArray(token) && token.type === 'keyword' && (value === undefined || token.value === value);
+
+/**
+ * Decode a PDF text string (UTF-16BE with BOM, UTF-8 with BOM, or PDFDocEncoding)
+ */
+export const decodePdfString = (str: PdfString): string => {
+  const { bytes } = str;
+  if (bytes.length >= 2 && bytes[0] === 0xfe && bytes[1] === 0xff) {
+    let result = '';
+    for (let i = 2; i + 1 < bytes.length; i += 2) result += String.fromCharCode((bytes[i] << 8) | bytes[i + 1]);
+    return result;
+  }
+  if (bytes.length >= 3 && bytes[0] === 0xef && bytes[1] === 0xbb && bytes[2] === 0xbf) {
+    return new TextDecoder('utf-8').decode(bytes.subarray(3));
+  }
+  return bytesToLatin1(bytes);
+};
+
+export const bytesToLatin1 = (bytes: Uint8Array): string => {
+  let result = '';
+  for (let i = 0; i < bytes.length; i += 8192) {
+    result += String.fromCharCode(...bytes.subarray(i, i + 8192));
+  }
+  return result;
+};
+
+const isWhitespace = (byte: number) =>
+  byte === 0x20 || byte === 0x0a || byte === 0x0d || byte === 0x09 || byte === 0x0c || byte === 0x00;
+
+const isDelimiter = (byte: number) =>
+  byte === 0x28 || byte === 0x29 || byte === 0x3c || byte === 0x3e || byte === 0x5b ||
+  byte === 0x5d || byte === 0x7b || byte === 0x7d || byte === 0x2f || byte === 0x25;
+
+const isRegular = (byte: number) => !isWhitespace(byte) && !isDelimiter(byte);
+
+const hexValue = (byte: number): number => {
+  if (byte >= 0x30 && byte <= 0x39) return byte - 0x30;
+  if (byte >= 0x41 && byte <= 0x46) return byte - 0x37;
+  if (byte >= 0x61 && byte <= 0x66) return byte - 0x57;
+  return -1;
+};
+
+/**
+ * Tokenizer over raw PDF bytes, shared by the file parser and the content stream reader
+ */
+export interface PdfLexer {
+  readonly bytes: Uint8Array;
+  pos: number;
+  skipWhitespace: () => void;
+  nextToken: () => PdfToken | undefined;
+  peekToken: () => PdfToken | undefined;
+}
+
+// Marker objects for structural tokens
+const ARRAY_START: PdfKeyword = { type: 'keyword', value: '[' };
+const ARRAY_END: PdfKeyword = { type: 'keyword', value: ']' };
+const DICT_START: PdfKeyword = { type: 'keyword', value: '<<' };
+const DICT_END: PdfKeyword = { type: 'keyword', value: '>>' };
+
+export const createLexer = (bytes: Uint8Array, start = 0): PdfLexer => {
+  let peeked: { token: PdfToken | undefined; end: number; start: number } | null = null;
+
+  const lexer: PdfLexer = {
+    bytes,
+    pos: start,
+    skipWhitespace: () => {
+      while (lexer.pos < bytes.length) {
+        const byte = bytes[lexer.pos];
+        if (isWhitespace(byte)) {
+          lexer.pos++;
+        } else if (byte === 0x25) {
+          // Comment runs to end of line
+          while (lexer.pos < bytes.length && bytes[lexer.pos] !== 0x0a && bytes[lexer.pos] !== 0x0d) lexer.pos++;
+        } else {
+          break;
+        }
+      }
+    },
+    nextToken: () => {
+      if (peeked && peeked.start === lexer.pos) {
+        const { token, end } = peeked;
+        peeked = null;
+        lexer.pos = end;
+        return token;
+      }
+      peeked = null;
+      return readToken();
+    },
+    peekToken: () => {
+      const startPos = lexer.pos;
+      if (peeked && peeked.start === startPos) return peeked.token;
+      const token = readToken();
+      peeked = { token, end: lexer.pos, start: startPos };
+      lexer.pos = startPos;
+      return token;
+    },
+  };
+
+  const readLiteralString = (): PdfString => {
+    const output: number[] = [];
+    let depth = 1;
+    lexer.pos++; // '('
+
+    while (lexer.pos < bytes.length) {
+      let byte = bytes[lexer.pos++];
+      if (byte === 0x28) {
+        depth++;
+      } else if (byte === 0x29) {
+        depth--;
+        if (depth === 0) break;
+      } else if (byte === 0x5c) {
+        byte = bytes[lexer.pos++];
+        switch (byte) {
+          case 0x6e: output.push(0x0a); continue; // \n
+          case 0x72: output.push(0x0d); continue; // \r
+          case 0x74: output.push(0x09); continue; // \t
+          case 0x62: output.push(0x08); continue; // \b
+          case 0x66: output.push(0x0c); continue; // \f
+          case 0x0d:
+            if (bytes[lexer.pos] === 0x0a) lexer.pos++;
+            continue;
+          case 0x0a:
+            continue;
+          default:
+            if (byte >= 0x30 && byte <= 0x37) {
+              let value = byte - 0x30;
+              for (let i = 0; i < 2 && bytes[lexer.pos] >= 0x30 && bytes[lexer.pos] <= 0x37; i++) {
+                value = value * 8 + (bytes[lexer.pos++] - 0x30);
+              }
+              output.push(value & 0xff);
+              continue;
+            }
+            // \( \) \\ and unknown escapes keep the character itself
+            output.push(byte);
+            continue;
+        }
+      }
+      output.push(byte);
+    }
+
+    return { type: 'string', bytes: Uint8Array.from(output), hex: false };
+  };
+
+  const readHexString = (): PdfString => {
+    const output: number[] = [];
+    let high = -1;
+    lexer.pos++; // '<'
+
+    while (lexer.pos < bytes.length) {
+      const byte = bytes[lexer.pos++];
+      if (byte === 0x3e) break;
+      const digit = hexValue(byte);
+      if (digit < 0) continue;
+      if (high < 0) {
+        high = digit;
+      } else {
+        output.push((high << 4) | digit);
+        high = -1;
+      }
+    }
+    if (high >= 0) output.push(high << 4);
+
+    return { type: 'string', bytes: Uint8Array.from(output), hex: true };
+  };
+
+  const readName = (): PdfName => {
+    lexer.pos++; // '/'
+    let name = '';
+    while (lexer.pos < bytes.length && isRegular(bytes[lexer.pos])) {
+      const byte = bytes[lexer.pos++];
+      if (byte === 0x23 && lexer.pos + 1 < bytes.length) {
+        const high = hexValue(bytes[lexer.pos]);
+        const low = hexValue(bytes[lexer.pos + 1]);
+        if (high >= 0 && low >= 0) {
+          name += String.fromCharCode((high << 4) | low);
+          lexer.pos += 2;
+          continue;
+        }
+      }
+      name += String.fromCharCode(byte);
+    }
+    return { type: 'name', name };
+  };
+
+  const readToken = (): PdfToken | undefined => {
+    lexer.skipWhitespace();
+    if (lexer.pos >= bytes.length) return undefined;
+
+    const byte = bytes[lexer.pos];
+    switch (byte) {
+      case 0x28: return readLiteralString();
+      case 0x2f: return readName();
+      case 0x5b: lexer.pos++; return ARRAY_START;
+      case 0x5d: lexer.pos++; return ARRAY_END;
+      case 0x7b: lexer.pos++; return { type: 'keyword', value: '{' };
+      case 0x7d: lexer.pos++; return { type: 'keyword', value: '}' };
+      case 0x3c:
+        if (bytes[lexer.pos + 1] === 0x3c) {
+          lexer.pos += 2;
+          return DICT_START;
+        }
+        return readHexString();
+      case 0x3e:
+        lexer.pos++;
+        if (bytes[lexer.pos] === 0x3e) {
+          lexer.pos++;
+          return DICT_END;
+        }
+        return { type: 'keyword', value: '>' };
+      case 0x29:
+        // Stray closing paren: skip it rather than failing the whole document
+        lexer.pos++;
+        return readToken();
+      default:
+        break;
+    }
+
+    const start = lexer.pos;
+    while (lexer.pos < bytes.length && isRegular(bytes[lexer.pos])) lexer.pos++;
+    const word = bytesToLatin1(bytes.subarray(start, lexer.pos));
+
+    if (/^[+-]*(\d+\.?\d*|\.\d+)$/.test(word)) {
+      // Tolerate doubled signs some producers emit ("--5")
+      const negative = (word.match(/-/g) || []).length % 2 === 1;
+      const value = parseFloat(word.replace(/^[+-]+/, ''));
+      return negative ? -value : value;
+    }
+    if (word === 'true') return true;
+    if (word === 'false') return false;
+    if (word === 'null') return null;
+    return { type: 'keyword', value: word };
+  };
+
+  return lexer;
+};
+
+/**
+ * Parse one complete object (array, dictionary, reference, ...) from the lexer
+ * Streams are not handled here: callers check for the `stream` keyword afterwards.
+ */
+export const parseObject = (lexer: PdfLexer, allowRefs = true): PdfToken | undefined => {
+  const token = lexer.nextToken();
+
+  if (token === ARRAY_START) {
+    const array: PdfObject[] = [];
+    for (;;) {
+      const next = lexer.peekToken();
+      if (next === undefined) break;
+      if (next === ARRAY_END) {
+        lexer.nextToken();
+        break;
+      }
+      const item = parseObject(lexer, allowRefs);
+      if (item === undefined) break;
+      if (isKeyword(item)) continue;
+      array.push(item as PdfObject);
+    }
+    return array;
+  }
+
+  if (token === DICT_START) {
+    const entries = new Map<string, PdfObject>();
+    for (;;) {
+      const key = lexer.nextToken();
+      if (key === undefined || key === DICT_END) break;
+      if (!isName(key as PdfObject)) {
+        // Malformed entry: skip to the next name
+        if (isKeyword(key) && (key.value === 'endobj' || key.value === 'stream')) break;
+        continue;
+      }
+      const next = lexer.peekToken();
+      if (next === DICT_END) {
+        entries.set((key as PdfName).name, null);
+        continue;
+      }
+      const value = parseObject(lexer, allowRefs);
+      if (value === undefined) break;
+      if (isKeyword(value)) continue;
+      entries.set((key as PdfName).name, value as PdfObject);
+    }
+    return { type: 'dict', entries };
+  }
+
+  if (allowRefs && typeof token === 'number' && Number.isInteger(token) && token >= 0) {
+    // Look ahead for "num gen R"
+    const saved = lexer.pos;
+    const gen = lexer.nextToken();
+    if (typeof gen === 'number' && Number.isInteger(gen) && gen >= 0) {
+      const keyword = lexer.nextToken();
+      if (isKeyword(keyword, 'R')) {
+        return { type: 'ref', num: token, gen };
+      }
+    }
+    lexer.pos = saved;
+  }
+
+  return token;
+};
+
+type XrefEntry =
+  | { type: 'offset'; offset: number; gen: number }
+  | { type: 'compressed'; streamNum: number; index: number }
+  | { type: 'free' };
+
+const indexOfBytes = (bytes: Uint8Array, pattern: string, from = 0, to = bytes.length): number => {
+  const first = pattern.charCodeAt(0);
+  const end = Math.min(to, bytes.length) - pattern.length;
+  outer: for (let i = from; i <= end; i++) {
+    if (bytes[i] !== first) continue;
+    for (let j = 1; j < pattern.length; j++) {
+      if (bytes[i + j] !== pattern.charCodeAt(j)) continue outer;
+    }
+    return i;
+  }
+  return -1;
+};
+
+const lastIndexOfBytes = (bytes: Uint8Array, pattern: string, from = bytes.length): number => {
+  for (let i = Math.min(from, bytes.length - pattern.length); i >= 0; i--) {
+    let match = true;
+    for (let j = 0; j < pattern.length; j++) {
+      if (bytes[i + j] !== pattern.charCodeAt(j)) {
+        match = false;
+        break;
+      }
+    }
+    if (match) return i;
+  }
+  return -1;
+};
+
+const toRect = (obj: PdfObject): PdfRect | null => {
+  if (!Array.isArray(obj) || obj.length < 4) return null;
+  const [x0, y0, x1, y1] = obj.map(v => (typeof v === 'number' ? v : 0));
+  return [Math.min(x0, x1), Math.min(y0, y1), Math.max(x0, x1), Math.max(y0, y1)];
+};
+
+/**
+ * Open a PDF from its raw bytes
+ * Builds the cross-reference table (repairing it by scanning the file if needed),
+ * unlocks encrypted documents and walks the page tree. Throws a PdfPasswordError
+ * when an encrypted document needs a password that was not given or is wrong.
+ */
+export const openPdfDocument = (bytes: Uint8Array, options: PdfOpenOptions = {}): PdfDocument => {
+  const headerPos = indexOfBytes(bytes, '%PDF-', 0, 1024);
+  if (headerPos < 0) {
+    throw new Error('File does not contain a PDF header');
+  }
+  const version = bytesToLatin1(bytes.subarray(headerPos + 5, headerPos + 8));
+
+  const xref = new Map<number, XrefEntry>();
+  const objectCache = new Map<string, PdfObject>();
+  const objectStreamCache = new Map<number, Map<number, PdfObject>>();
+  let trailer: PdfDict | null = null;
+  let reconstructed: Map<number, { offset: number; gen: number }> | null = null;
+  let security: PdfSecurityHandler | null = null;
+  // The encryption dictionary itself is never encrypted
+  let encryptNum = -1;
+
+  const readIndirectObjectAt = (offset: number, expectedNum?: number): { num: number; gen: number; value: PdfObject } | null => {
+    const lexer = createLexer(bytes, offset);
+    const num = lexer.nextToken();
+    const gen = lexer.nextToken();
+    const keyword = lexer.nextToken();
+    if (typeof num !== 'number' || typeof gen !== 'number' || !isKeyword(keyword, 'obj')) return null;
+    if (expectedNum !== undefined && num !== expectedNum) return null;
+
+    const value = parseObject(lexer);
+    if (isKeyword(value)) return { num, gen, value: null };
+
+    if (isDict(value as PdfObject) && isKeyword(lexer.peekToken(), 'stream')) {
+      lexer.nextToken();
+      return { num, gen, value: readStreamBody(lexer, value as PdfDict, { type: 'ref', num, gen }) };
+    }
+    return { num, gen, value: value as PdfObject };
+  };
+
+  const readStreamBody = (lexer: PdfLexer, dict: PdfDict, ref?: PdfRef): PdfStream => {
+    // The stream keyword is followed by CRLF or LF (some writers use a lone CR)
+    let start = lexer.pos;
+    if (bytes[start] === 0x0d) start++;
+    if (bytes[start] === 0x0a) start++;
+
+    let length = -1;
+    const lengthObj = dict.entries.get('Length');
+    if (typeof lengthObj === 'number') {
+      length = lengthObj;
+    } else if (isRef(lengthObj)) {
+      const resolved = doc.resolve(lengthObj);
+      if (typeof resolved === 'number') length = resolved;
+    }
+
+    let end = start + length;
+    const endstreamValid = length >= 0 && end <= bytes.length &&
+      indexOfBytes(bytes, 'endstream', end, Math.min(bytes.length, end + 32)) >= 0;
+
+    if (!endstreamValid) {
+      const found = indexOfBytes(bytes, 'endstream', start);
+      end = found >= 0 ? found : bytes.length;
+      // Trim the end-of-line marker before endstream
+      if (bytes[end - 1] === 0x0a) end--;
+      if (bytes[end - 1] === 0x0d) end--;
+    }
+
+    return { type: 'stream', dict, raw: bytes.subarray(start, end), ref };
+  };
+
+  const setEntry = (num: number, entry: XrefEntry) => {
+    // Newer sections are read first, so never overwrite an existing entry
+    if (!xref.has(num)) xref.set(num, entry);
+  };
+
+  const readXrefTable = (lexer: PdfLexer): PdfDict | null => {
+    for (;;) {
+      const token = lexer.nextToken();
+      if (token === undefined) return null;
+      if (isKeyword(token, 'trailer')) {
+        const dict = parseObject(lexer);
+        return isDict(dict as PdfObject) ? (dict as PdfDict) : null;
+      }
+      if (typeof token !== 'number') return null;
+
+      const first = token;
+      const count = lexer.nextToken();
+      if (typeof count !== 'number') return null;
+
+      for (let i = 0; i < count; i++) {
+        const offset = lexer.nextToken();
+        const gen = lexer.nextToken();
+        const kind = lexer.nextToken();
+        if (typeof offset !== 'number' || typeof gen !== 'number' || !isKeyword(kind)) return null;
+        if (kind.value === 'n') {
+          if (offset > 0) setEntry(first + i, { type: 'offset', offset, gen });
+        } else {
+          setEntry(first + i, { type: 'free' });
+        }
+      }
+    }
+  };
+
+  const readXrefStream = (stream: PdfStream): PdfDict => {
+    const dict = stream.dict;
+    const widths = (dict.entries.get('W') as PdfObject[] | undefined)?.map(w => (typeof w === 'number' ? w : 0)) || [1, 2, 1];
+    const size = (dict.entries.get('Size') as number) || 0;
+    const index = (dict.entries.get('Index') as number[] | undefined) || [0, size];
+    const data = doc.getStreamData(stream);
+    const entryLength = widths[0] + widths[1] + widths[2];
+
+    const readField = (pos: number, width: number): number => {
+      let value = 0;
+      for (let i = 0; i < width; i++) value = value * 256 + data[pos + i];
+      return value;
+    };
+
+    let pos = 0;
+    for (let i = 0; i + 1 < index.length; i += 2) {
+      const first = index[i];
+      const count = index[i + 1];
+      for (let j = 0; j < count && pos + entryLength <= data.length; j++) {
+        const type = widths[0] === 0 ? 1 : readField(pos, widths[0]);
+        const field2 = readField(pos + widths[0], widths[1]);
+        const field3 = readField(pos + widths[0] + widths[1], widths[2]);
+        pos += entryLength;
+
+        if (type === 0) setEntry(first + j, { type: 'free' });
+        else if (type === 1) setEntry(first + j, { type: 'offset', offset: field2, gen: field3 });
+        else if (type === 2) setEntry(first + j, { type: 'compressed', streamNum: field2, index: field3 });
+      }
+    }
+
+    return dict;
+  };
+
+  const loadXref = (startOffset: number) => {
+    const visited = new Set<number>();
+    let offset: number | null = startOffset;
+
+    while (offset !== null && !visited.has(offset) && offset < bytes.length) {
+      visited.add(offset);
+      const lexer = createLexer(bytes, offset);
+      const first = lexer.peekToken();
+      let sectionTrailer: PdfDict | null = null;
+
+      if (isKeyword(first, 'xref')) {
+        lexer.nextToken();
+        sectionTrailer = readXrefTable(lexer);
+        // Hybrid files keep compressed entries in a separate stream
+        const xrefStm = sectionTrailer?.entries.get('XRefStm');
+        if (typeof xrefStm === 'number') {
+          const stmObject = readIndirectObjectAt(xrefStm);
+          if (stmObject && isStream(stmObject.value)) readXrefStream(stmObject.value);
+        }
+      } else {
+        const object = readIndirectObjectAt(offset);
+        if (object && isStream(object.value)) sectionTrailer = readXrefStream(object.value);
+      }
+
+      if (!sectionTrailer) throw new Error('Invalid cross-reference section');
+      if (!trailer) trailer = sectionTrailer;
+
+      const prev = sectionTrailer.entries.get('Prev');
+      offset = typeof prev === 'number' ? prev : null;
+    }
+  };
+
+  // Scan the whole file for "n g obj" headers when the xref is missing or broken
+  const reconstructXref = () => {
+    if (reconstructed) return reconstructed;
+    reconstructed = new Map();
+    const text = bytesToLatin1(bytes);
+    const pattern = /(\d+)[ \t\r\n\f\0]+(\d+)[ \t\r\n\f\0]+obj\b/g;
+    let match: RegExpExecArray | null;
+    while ((match = pattern.exec(text)) !== null) {
+      // Later definitions win, mirroring incremental updates
+      reconstructed.set(parseInt(match[1], 10), { offset: match.index, gen: parseInt(match[2], 10) });
+    }
+    return reconstructed;
+  };
+
+  const findTrailerByScanning = (): PdfDict | null => {
+    let pos = bytes.length;
+    for (;;) {
+      const found = lastIndexOfBytes(bytes, 'trailer', pos);
+      if (found < 0) break;
+      const dict = parseObject(createLexer(bytes, found + 7));
+      if (isDict(dict as PdfObject) && (dict as PdfDict).entries.has('Root')) return dict as PdfDict;
+      pos = found - 1;
+    }
+
+    // No classic trailer: look for an xref stream or the catalog itself
+    for (const [num, { offset }] of reconstructXref()) {
+      const object = readIndirectObjectAt(offset, num);
+      if (!object) continue;
+      const dict = isStream(object.value) ? object.value.dict : object.value;
+      if (!isDict(dict)) continue;
+      if (dict.entries.has('Root')) return dict;
+      if (isName(dict.entries.get('Type'), 'Catalog')) {
+        return { type: 'dict', entries: new Map<string, PdfObject>([['Root', { type: 'ref', num, gen: object.gen }]]) };
+      }
+    }
+    return null;
+  };
+
+  const loadFromObjectStream = (streamNum: number, num: number): PdfObject => {
+    let objects = objectStreamCache.get(streamNum);
+    if (!objects) {
+      objects = new Map();
+      objectStreamCache.set(streamNum, objects);
+      const stream = doc.getObject(streamNum);
+      if (isStream(stream)) {
+        const count = (stream.dict.entries.get('N') as number) || 0;
+        const first = (stream.dict.entries.get('First') as number) || 0;
+        const data = doc.getStreamData(stream);
+        const lexer = createLexer(data);
+        const headers: Array<[number, number]> = [];
+        for (let i = 0; i < count; i++) {
+          const objNum = lexer.nextToken();
+          const objOffset = lexer.nextToken();
+          if (typeof objNum !== 'number' || typeof objOffset !== 'number') break;
+          headers.push([objNum, objOffset]);
+        }
+        for (const [objNum, objOffset] of headers) {
+          const objectLexer = createLexer(data, first + objOffset);
+          const value = parseObject(objectLexer);
+          objects.set(objNum, isKeyword(value) ? null : (value as PdfObject));
+        }
+      }
+    }
+
+    return objects.get(num) ?? null;
+  };
+
+  // Objects inside object streams were decrypted with the stream
+  const decryptObject = (value: PdfObject, num: number, gen: number): PdfObject => {
+    if (!security || num === encryptNum) return value;
+    if (isPdfString(value)) return { ...value, bytes: security.decryptString(value.bytes, num, gen) };
+    if (Array.isArray(value)) return value.map(item => decryptObject(item, num, gen));
+    if (isDict(value)) {
+      const entries = new Map<string, PdfObject>();
+      value.entries.forEach((entry, entryKey) => entries.set(entryKey, decryptObject(entry, num, gen)));
+      return { type: 'dict', entries };
+    }
+    if (isStream(value)) {
+      const dict = decryptObject(value.dict, num, gen) as PdfDict;
+      return { ...value, dict, raw: security.decryptStream(value.raw, num, gen, dict) };
+    }
+    return value;
+  };
+
+  const getObject = (num: number, gen = 0): PdfObject => {
+    const key = `${num} ${gen}`;
+    if (objectCache.has(key)) return objectCache.get(key) as PdfObject;
+    // Guard against reference cycles (e.g. /Length pointing at its own stream)
+    objectCache.set(key, null);
+
+    let value: PdfObject = null;
+    const entry = xref.get(num);
+
+    if (entry?.type === 'compressed') {
+      value = loadFromObjectStream(entry.streamNum, num);
+    } else {
+      let object = entry?.type === 'offset' ? readIndirectObjectAt(entry.offset, num) : null;
+      if (!object) {
+        const fallback = reconstructXref().get(num);
+        if (fallback) object = readIndirectObjectAt(fallback.offset, num);
+      }
+      value = object ? decryptObject(object.value, num, object.gen) : null;
+    }
+
+    objectCache.set(key, value);
+    return value;
+  };
+
+  const resolve = (obj: PdfObject | undefined): PdfObject => {
+    let current: PdfObject | undefined = obj;
+    for (let depth = 0; isRef(current) && depth < 32; depth++) {
+      current = getObject(current.num, current.gen);
+    }
+    return current === undefined || isRef(current) ? null : current;
+  };
+
+  const get = (dict: PdfDict | PdfStream | null | undefined, key: string): PdfObject => {
+    if (!dict) return null;
+    const target = isStream(dict) ? dict.dict : dict;
+    return resolve(target.entries.get(key));
+  };
+
+  const toFilterParams = (obj: PdfObject): FilterParams | null => {
+    const dict = resolve(obj);
+    if (!isDict(dict)) return null;
+    const params: Record<string, number> = {};
+    dict.entries.forEach((value, key) => {
+      const resolved = resolve(value);
+      if (typeof resolved === 'number') params[key] = resolved;
+    });
+    return params;
+  };
+
+  const decodeStream = (stream: PdfStream): DecodedStream => {
+    const filterObj = get(stream, 'Filter') ?? get(stream, 'F');
+    const parmsObj = get(stream, 'DecodeParms') ?? get(stream, 'DP');
+    const names = Array.isArray(filterObj)
+      ? filterObj.map(f => resolve(f)).filter((f): f is PdfName => isName(f)).map(f => f.name)
+      : isName(filterObj) ? [filterObj.name] : [];
+    const params = Array.isArray(parmsObj) ? parmsObj.map(toFilterParams) : [toFilterParams(parmsObj)];
+    // Only the Identity crypt filter is supported, which leaves the data as it is
+    const filters = names.filter(name => name !== 'Crypt');
+    const filterParams = params.filter((_, index) => names[index] !== 'Crypt');
+
+    return decodeFilters(stream.raw, filters, filterParams);
+  };
+
+  const getStreamData = (stream: PdfStream): Uint8Array => decodeStream(stream).data;
+
+  const doc: PdfDocument = {
+    version,
+    encrypted: false,
+    trailer: { type: 'dict', entries: new Map() },
+    catalog: { type: 'dict', entries: new Map() },
+    pages: [],
+    resolve,
+    get,
+    getObject,
+    decodeStream,
+    getStreamData,
+    getPageContents: (page: PdfPage) => {
+      const contents = get(page.dict, 'Contents');
+      const streams = Array.isArray(contents) ? contents.map(c => resolve(c)) : [contents];
+      const parts = streams.filter(isStream).map(s => {
+        try {
+          return getStreamData(s);
+        } catch {
+          return new Uint8Array(0);
+        }
+      });
+      // Content streams are concatenated with whitespace between them
+      const total = parts.reduce((sum, part) => sum + part.length + 1, 0);
+      const result = new Uint8Array(total);
+      let offset = 0;
+      for (const part of parts) {
+        result.set(part, offset);
+        offset += part.length;
+        result[offset++] = 0x0a;
+      }
+      return result;
+    },
+  };
+
+  // Follow the cross-reference chain from the last startxref
+  const startxrefPos = lastIndexOfBytes(bytes, 'startxref');
+  if (startxrefPos >= 0) {
+    const offset = createLexer(bytes, startxrefPos + 9).nextToken();
+    if (typeof offset === 'number') {
+      try {
+        loadXref(offset);
+      } catch {
+        xref.clear();
+        trailer = null;
+      }
+    }
+  }
+
+  if (!trailer || !isDict(resolve((trailer as PdfDict).entries.get('Root')))) {
+    // Broken or missing cross-reference data: rebuild from the object headers
+    xref.clear();
+    objectCache.clear();
+    for (const [num, { offset, gen }] of reconstructXref()) {
+      xref.set(num, { type: 'offset', offset, gen });
+    }
+    // Pick up compressed objects from any cross-reference streams
+    for (const { offset } of reconstructXref().values()) {
+      const object = readIndirectObjectAt(offset);
+      if (object && isStream(object.value) && isName(object.value.dict.entries.get('Type'), 'XRef')) {
+        readXrefStream(object.value);
+      }
+    }
+    trailer = findTrailerByScanning();
+  }
+
+  if (!trailer) {
+    throw new Error('Cannot locate the PDF trailer');
+  }
+
+  const encrypt = (trailer as PdfDict).entries.get('Encrypt');
+  if (encrypt) {
+    const encryptDict = resolve(encrypt);
+    if (!isDict(encryptDict)) {
+      throw new Error('The encryption dictionary of this PDF is damaged');
+    }
+    const ids = resolve((trailer as PdfDict).entries.get('ID'));
+    const firstId = Array.isArray(ids) ? resolve(ids[0]) : null;
+    security = createSecurityHandler(encryptDict, isPdfString(firstId) ? firstId.bytes : new Uint8Array(0), options.password ?? '', resolve);
+    encryptNum = isRef(encrypt) ? encrypt.num : -1;
+    doc.encrypted = true;
+    // Objects read so far (the catalog check above) are still encrypted
+    objectCache.clear();
+    objectStreamCache.clear();
+  }
+
+  const catalog = resolve((trailer as PdfDict).entries.get('Root'));
+  if (!isDict(catalog)) {
+    throw new Error('PDF catalog is missing or invalid');
+  }
+
+  doc.trailer = trailer;
+  doc.catalog = catalog;
+  doc.pages = collectPages(doc, catalog);
+
+  return doc;
+};
+
+/**
+ * Walk the page tree depth-first, applying inherited attributes
+ */
+const collectPages = (doc: PdfDocument, catalog: PdfDict): PdfPage[] => {
+  const pages: PdfPage[] = [];
+  const visited = new Set<PdfDict>();
+  const defaultBox: PdfRect = [0, 0, 612, 792];
+
+  interface Inherited {
+    resources: PdfDict | null;
+    mediaBox: PdfRect | null;
+    cropBox: PdfRect | null;
+    rotate: number;
+  }
+
+  const visit = (node: PdfObject, inherited: Inherited, ref?: PdfRef) => {
+    const dict = doc.resolve(node);
+    if (!isDict(dict) || visited.has(dict)) return;
+    visited.add(dict);
+
+    const resources = doc.get(dict, 'Resources');
+    const mediaBox = toRect(doc.get(dict, 'MediaBox'));
+    const cropBox = toRect(doc.get(dict, 'CropBox'));
+    const rotate = doc.get(dict, 'Rotate');
+
+    const current: Inherited = {
+      resources: isDict(resources) ? resources : inherited.resources,
+      mediaBox: mediaBox || inherited.mediaBox,
+      cropBox: cropBox || inherited.cropBox,
+      rotate: typeof rotate === 'number' ? rotate : inherited.rotate,
+    };
+
+    const kids = doc.get(dict, 'Kids');
+    const type = doc.get(dict, 'Type');
+    if (Array.isArray(kids) && !isName(type, 'Page')) {
+      for (const kid of kids) visit(kid, current, isRef(kid) ? kid : undefined);
+      return;
+    }
+
+    const media = current.mediaBox || defaultBox;
+    pages.push({
+      index: pages.length,
+      dict,
+      ref,
+      mediaBox: media,
+      cropBox: current.cropBox || media,
+      rotate: ((current.rotate % 360) + 360) % 360,
+      resources: current.resources,
+    });
+  };
+
+  visit(catalog.entries.get('Pages') ?? null, { resources: null, mediaBox: null, cropBox: null, rotate: 0 });
+  return pages;
+};
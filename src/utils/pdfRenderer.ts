@@ -0,0 +1,760 @@
+/**
+ * PDF page renderer
+ * Interprets page content streams onto a 2D canvas: vector paths, clipping,
+ * text, images, shadings, form XObjects and annotation appearances.
+ */
+
+import { DrawingContext } from './canvasUtils';
+import { createColorSpace, PdfColorSpace, RGB, rgbToCss } from './pdfColorSpaces';
+import {
+  applyMatrix,
+  getPageViewport,
+  getResource,
+  InlineImage,
+  Matrix,
+  multiplyMatrix,
+  PageViewport,
+  parseContentStream,
+  toMatrix,
+} from './pdfContent';
+import { loadPdfFont, PdfFont } from './pdfFonts';
+import { createPdfFunction } from './pdfFunctions';
+import { decodePdfImage, isImageXObject } from './pdfImages';
+import {
+  isDict,
+  isName,
+  isStream,
+  isPdfString,
+  PdfDict,
+  PdfDocument,
+  PdfObject,
+  PdfPage,
+  PdfStream,
+} from './pdfParser';
+
+interface GraphicsState {
+  ctm: Matrix;
+  fillColorSpace: PdfColorSpace;
+  strokeColorSpace: PdfColorSpace;
+  fillColor: RGB;
+  strokeColor: RGB;
+  fillPattern: PdfObject;
+  strokePattern: PdfObject;
+  fillAlpha: number;
+  strokeAlpha: number;
+  lineWidth: number;
+  lineCap: CanvasLineCap;
+  lineJoin: CanvasLineJoin;
+  miterLimit: number;
+  dash: number[];
+  dashPhase: number;
+  blendMode: GlobalCompositeOperation;
+  font: PdfFont | null;
+  fontSize: number;
+  charSpacing: number;
+  wordSpacing: number;
+  horizontalScale: number;
+  leading: number;
+  rise: number;
+  renderMode: number;
+}
+
+const LINE_CAPS: CanvasLineCap[] = ['butt', 'round', 'square'];
+const LINE_JOINS: CanvasLineJoin[] = ['miter', 'round', 'bevel'];
+
+const BLEND_MODES: Record<string, GlobalCompositeOperation> = {
+  Normal: 'source-over',
+  Compatible: 'source-over',
+  Multiply: 'multiply',
+  Screen: 'screen',
+  Overlay: 'overlay',
+  Darken: 'darken',
+  Lighten: 'lighten',
+  ColorDodge: 'color-dodge',
+  ColorBurn: 'color-burn',
+  HardLight: 'hard-light',
+  SoftLight: 'soft-light',
+  Difference: 'difference',
+  Exclusion: 'exclusion',
+  Hue: 'hue',
+  Saturation: 'saturation',
+  Color: 'color',
+  Luminosity: 'luminosity',
+};
+
+const MAX_FORM_DEPTH = 12;
+// Text is drawn at this pixel size and scaled down by the transform
+const TEXT_RENDER_SIZE = 100;
+
+const invertMatrix = (m: Matrix): Matrix | null => {
+  const det = m[0] * m[3] - m[1] * m[2];
+  if (Math.abs(det) < 1e-12) return null;
+  return [
+    m[3] / det,
+    -m[1] / det,
+    -m[2] / det,
+    m[0] / det,
+    (m[2] * m[5] - m[3] * m[4]) / det,
+    (m[1] * m[4] - m[0] * m[5]) / det,
+  ];
+};
+
+const matrixScale = (m: Matrix): number => Math.sqrt(Math.abs(m[0] * m[3] - m[1] * m[2])) || 1;
+
+const getFontFamily = (font: PdfFont): string => {
+  if (font.monospace) return '"Courier New", Courier, monospace';
+  if (font.serif) return '"Times New Roman", Times, serif';
+  return 'Helvetica, Arial, sans-serif';
+};
+
+/**
+ * Render one page into a canvas context sized to the given viewport
+ */
+export const renderPdfPage = async (
+  doc: PdfDocument,
+  page: PdfPage,
+  ctx: DrawingContext,
+  viewport: PageViewport
+): Promise<void> => {
+  const canvasWidth = ctx.canvas.width;
+  const canvasHeight = ctx.canvas.height;
+  const fontCache = new Map<PdfDict, PdfFont>();
+  const imageCache = new Map<PdfStream, CanvasImageSource | null>();
+  const glyphWidthCache = new Map<string, number>();
+
+  const deviceGray = createColorSpace(doc, { type: 'name', name: 'DeviceGray' });
+
+  const createInitialState = (ctm: Matrix): GraphicsState => ({
+    ctm,
+    fillColorSpace: deviceGray,
+    strokeColorSpace: deviceGray,
+    fillColor: [0, 0, 0],
+    strokeColor: [0, 0, 0],
+    fillPattern: null,
+    strokePattern: null,
+    fillAlpha: 1,
+    strokeAlpha: 1,
+    lineWidth: 1,
+    lineCap: 'butt',
+    lineJoin: 'miter',
+    miterLimit: 10,
+    dash: [],
+    dashPhase: 0,
+    blendMode: 'source-over',
+    font: null,
+    fontSize: 0,
+    charSpacing: 0,
+    wordSpacing: 0,
+    horizontalScale: 1,
+    leading: 0,
+    rise: 0,
+    renderMode: 0,
+  });
+
+  const setTransform = (m: Matrix) => ctx.setTransform(m[0], m[1], m[2], m[3], m[4], m[5]);
+
+  /**
+   * Fill the whole visible canvas area (inside the current clip) in the given coordinate space
+   */
+  const fillVisibleArea = (transform: Matrix) => {
+    const inverse = invertMatrix(transform);
+    if (!inverse) return;
+    const corners = [
+      applyMatrix(inverse, 0, 0),
+      applyMatrix(inverse, canvasWidth, 0),
+      applyMatrix(inverse, 0, canvasHeight),
+      applyMatrix(inverse, canvasWidth, canvasHeight),
+    ];
+    const xs = corners.map(c => c[0]);
+    const ys = corners.map(c => c[1]);
+    setTransform(transform);
+    ctx.fillRect(Math.min(...xs), Math.min(...ys), Math.max(...xs) - Math.min(...xs), Math.max(...ys) - Math.min(...ys));
+  };
+
+  /**
+   * Build a canvas gradient for an axial or radial shading (types 2 and 3)
+   */
+  const createShadingGradient = (shadingObj: PdfObject, lookupColorSpace: (name: string) => PdfObject): CanvasGradient | null => {
+    const shading = doc.resolve(shadingObj);
+    const dict = isStream(shading) ? shading.dict : shading;
+    if (!isDict(dict)) return null;
+
+    const type = doc.get(dict, 'ShadingType');
+    const coordsObj = doc.get(dict, 'Coords');
+    const coords = Array.isArray(coordsObj) ? coordsObj.map(v => (typeof v === 'number' ? v : 0)) : null;
+    const fn = createPdfFunction(doc, doc.get(dict, 'Function'));
+    const colorSpace = createColorSpace(doc, doc.get(dict, 'ColorSpace'), lookupColorSpace);
+    const domainObj = doc.get(dict, 'Domain');
+    const domain = Array.isArray(domainObj) ? domainObj.map(v => (typeof v === 'number' ? v : 0)) : [0, 1];
+    if (!coords || !fn) return null;
+
+    let gradient: CanvasGradient;
+    if (type === 2 && coords.length >= 4) {
+      gradient = ctx.createLinearGradient(coords[0], coords[1], coords[2], coords[3]);
+    } else if (type === 3 && coords.length >= 6) {
+      gradient = ctx.createRadialGradient(coords[0], coords[1], Math.max(0, coords[2]), coords[3], coords[4], Math.max(0, coords[5]));
+    } else {
+      return null;
+    }
+
+    const steps = 32;
+    for (let i = 0; i <= steps; i++) {
+      const t = i / steps;
+      const color = colorSpace.toRGB(fn([domain[0] + t * (domain[1] - domain[0])]));
+      gradient.addColorStop(t, rgbToCss(color));
+    }
+    return gradient;
+  };
+
+  const run = async (
+    content: Uint8Array,
+    resources: PdfDict | null,
+    initialState: GraphicsState,
+    depth: number,
+    // CTM in effect when the content stream started, which defines pattern space
+    baseMatrix: Matrix
+  ): Promise<void> => {
+    const operations = parseContentStream(content);
+    const stateStack: GraphicsState[] = [];
+    let state: GraphicsState = { ...initialState };
+    let path = new Path2D();
+    let pendingClip: CanvasFillRule | null = null;
+    let textMatrix: Matrix = [1, 0, 0, 1, 0, 0];
+    let lineMatrix: Matrix = [1, 0, 0, 1, 0, 0];
+    let currentPoint: [number, number] = [0, 0];
+
+    const lookupColorSpace = (name: string) => getResource(doc.resolve, resources, 'ColorSpace', name);
+
+    const getFont = (name: string): PdfFont | null => {
+      const fontDict = getResource(doc.resolve, resources, 'Font', name);
+      if (!isDict(fontDict)) return null;
+      let font = fontCache.get(fontDict);
+      if (!font) {
+        font = loadPdfFont(doc, fontDict);
+        fontCache.set(fontDict, font);
+      }
+      return font;
+    };
+
+    const applyStrokeStyle = () => {
+      const minWidth = 1 / matrixScale(state.ctm);
+      ctx.lineWidth = Math.max(state.lineWidth, minWidth);
+      ctx.lineCap = state.lineCap;
+      ctx.lineJoin = state.lineJoin;
+      ctx.miterLimit = state.miterLimit;
+      ctx.setLineDash(state.dash.every(d => d === 0) ? [] : state.dash);
+      ctx.lineDashOffset = state.dashPhase;
+      ctx.strokeStyle = rgbToCss(state.strokeColor);
+      ctx.globalAlpha = state.strokeAlpha;
+      ctx.globalCompositeOperation = state.blendMode;
+    };
+
+    const fillWithPattern = (patternObj: PdfObject, fillRule: CanvasFillRule) => {
+      const pattern = doc.resolve(patternObj);
+      const dict = isStream(pattern) ? pattern.dict : pattern;
+      if (!isDict(dict) || doc.get(dict, 'PatternType') !== 2) return;
+      const gradient = createShadingGradient(doc.get(dict, 'Shading'), lookupColorSpace);
+      if (!gradient) return;
+
+      const patternMatrix = toMatrix(doc.get(dict, 'Matrix')) || [1, 0, 0, 1, 0, 0];
+      ctx.save();
+      setTransform(state.ctm);
+      ctx.clip(path, fillRule);
+      ctx.fillStyle = gradient;
+      ctx.globalAlpha = state.fillAlpha;
+      fillVisibleArea(multiplyMatrix(patternMatrix, baseMatrix));
+      ctx.restore();
+    };
+
+    const paint = (fill: CanvasFillRule | null, stroke: boolean) => {
+      setTransform(state.ctm);
+      ctx.globalCompositeOperation = state.blendMode;
+      if (fill) {
+        if (state.fillColorSpace.name === 'Pattern') {
+          fillWithPattern(state.fillPattern, fill);
+        } else {
+          ctx.fillStyle = rgbToCss(state.fillColor);
+          ctx.globalAlpha = state.fillAlpha;
+          ctx.fill(path, fill);
+        }
+      }
+      if (stroke) {
+        setTransform(state.ctm);
+        applyStrokeStyle();
+        ctx.stroke(path);
+      }
+      endPath();
+    };
+
+    const endPath = () => {
+      if (pendingClip) {
+        setTransform(state.ctm);
+        ctx.clip(path, pendingClip);
+        pendingClip = null;
+      }
+      path = new Path2D();
+    };
+
+    const setColor = (target: 'fill' | 'stroke', operands: PdfObject[]) => {
+      const space = target === 'fill' ? state.fillColorSpace : state.strokeColorSpace;
+      const last = operands[operands.length - 1];
+      if (space.name === 'Pattern' || isName(last)) {
+        const pattern = isName(last) ? getResource(doc.resolve, resources, 'Pattern', last.name) : null;
+        if (target === 'fill') state.fillPattern = pattern;
+        else state.strokePattern = pattern;
+        return;
+      }
+      const components = operands.filter((v): v is number => typeof v === 'number');
+      const color = space.toRGB(components);
+      if (target === 'fill') state.fillColor = color;
+      else state.strokeColor = color;
+    };
+
+    const setDeviceColor = (target: 'fill' | 'stroke', space: string, operands: PdfObject[]) => {
+      const colorSpace = createColorSpace(doc, { type: 'name', name: space });
+      const color = colorSpace.toRGB(operands.filter((v): v is number => typeof v === 'number'));
+      if (target === 'fill') {
+        state.fillColorSpace = colorSpace;
+        state.fillColor = color;
+      } else {
+        state.strokeColorSpace = colorSpace;
+        state.strokeColor = color;
+      }
+    };
+
+    const applyExtGState = (name: string) => {
+      const gs = getResource(doc.resolve, resources, 'ExtGState', name);
+      if (!isDict(gs)) return;
+      gs.entries.forEach((rawValue, key) => {
+        const value = doc.resolve(rawValue);
+        switch (key) {
+          case 'LW': if (typeof value === 'number') state.lineWidth = value; break;
+          case 'LC': if (typeof value === 'number') state.lineCap = LINE_CAPS[value] || 'butt'; break;
+          case 'LJ': if (typeof value === 'number') state.lineJoin = LINE_JOINS[value] || 'miter'; break;
+          case 'ML': if (typeof value === 'number') state.miterLimit = value; break;
+          case 'CA': if (typeof value === 'number') state.strokeAlpha = value; break;
+          case 'ca': if (typeof value === 'number') state.fillAlpha = value; break;
+          case 'D':
+            if (Array.isArray(value) && Array.isArray(doc.resolve(value[0]))) {
+              state.dash = (doc.resolve(value[0]) as PdfObject[]).map(v => (typeof v === 'number' ? v : 0));
+              state.dashPhase = typeof value[1] === 'number' ? value[1] : 0;
+            }
+            break;
+          case 'BM': {
+            const mode = Array.isArray(value) ? doc.resolve(value[0]) : value;
+            if (isName(mode)) state.blendMode = BLEND_MODES[mode.name] || 'source-over';
+            break;
+          }
+          case 'Font':
+            if (Array.isArray(value) && isDict(doc.resolve(value[0]))) {
+              const fontDict = doc.resolve(value[0]) as PdfDict;
+              let font = fontCache.get(fontDict);
+              if (!font) {
+                font = loadPdfFont(doc, fontDict);
+                fontCache.set(fontDict, font);
+              }
+              state.font = font;
+              state.fontSize = typeof value[1] === 'number' ? value[1] : state.fontSize;
+            }
+            break;
+          default:
+            break;
+        }
+      });
+    };
+
+    const moveLine = (tx: number, ty: number) => {
+      lineMatrix = multiplyMatrix([1, 0, 0, 1, tx, ty], lineMatrix);
+      textMatrix = lineMatrix;
+    };
+
+    const showText = (bytes: Uint8Array) => {
+      const font = state.font;
+      if (!font) return;
+      const mode = state.renderMode % 4;
+      const shouldFill = mode === 0 || mode === 2;
+      const shouldStroke = mode === 1 || mode === 2;
+      const cssFont = `${font.italic ? 'italic ' : ''}${font.bold ? 'bold ' : ''}${TEXT_RENDER_SIZE}px ${getFontFamily(font)}`;
+
+      ctx.font = cssFont;
+      ctx.textBaseline = 'alphabetic';
+      ctx.textAlign = 'left';
+      ctx.globalCompositeOperation = state.blendMode;
+
+      for (const glyph of font.decode(bytes)) {
+        const advance = font.vertical
+          ? 0
+          : (glyph.width / 1000) * state.fontSize + state.charSpacing + (glyph.isSpace ? state.wordSpacing : 0);
+
+        if (mode !== 3 && glyph.unicode && glyph.unicode.trim()) {
+          // Fit the substitute glyph into the advance width recorded in the PDF
+          const key = `${cssFont}|${glyph.unicode}`;
+          let measured = glyphWidthCache.get(key);
+          if (measured === undefined) {
+            measured = ctx.measureText(glyph.unicode).width;
+            glyphWidthCache.set(key, measured);
+          }
+          const expected = (glyph.width / 1000) * TEXT_RENDER_SIZE;
+          const stretch = measured > 0 && expected > 0 ? Math.min(Math.max(expected / measured, 0.5), 1.5) : 1;
+
+          const renderMatrix = multiplyMatrix(
+            multiplyMatrix(
+              [(state.fontSize * state.horizontalScale * stretch) / TEXT_RENDER_SIZE, 0, 0, -state.fontSize / TEXT_RENDER_SIZE, 0, state.rise],
+              textMatrix
+            ),
+            state.ctm
+          );
+          // Glyph space has y up; canvas text has y down, hence the negative scale above
+          setTransform(renderMatrix);
+          if (shouldFill) {
+            ctx.fillStyle = rgbToCss(state.fillColor);
+            ctx.globalAlpha = state.fillAlpha;
+            ctx.fillText(glyph.unicode, 0, 0);
+          }
+          if (shouldStroke) {
+            ctx.strokeStyle = rgbToCss(state.strokeColor);
+            ctx.globalAlpha = state.strokeAlpha;
+            ctx.lineWidth = (state.lineWidth * TEXT_RENDER_SIZE) / Math.max(state.fontSize, 1);
+            ctx.strokeText(glyph.unicode, 0, 0);
+          }
+        }
+
+        const dy = font.vertical ? -state.fontSize : 0;
+        textMatrix = multiplyMatrix([1, 0, 0, 1, advance * state.horizontalScale, dy], textMatrix);
+      }
+    };
+
+    const drawImage = async (image: PdfStream) => {
+      let source = imageCache.get(image);
+      if (source === undefined) {
+        try {
+          source = await decodePdfImage(doc, image, {
+            fillColor: state.fillColor,
+            fillAlpha: 1,
+            lookupColorSpace,
+          });
+        } catch (error) {
+          console.warn('Failed to decode PDF image:', error);
+          source = null;
+        }
+        // Stencil masks depend on the fill colour, so only cache regular images
+        const isMask = doc.get(image, 'ImageMask') === true || doc.get(image, 'IM') === true;
+        if (!isMask) imageCache.set(image, source);
+      }
+      if (!source) return;
+
+      const width = (source as { width: number }).width;
+      const height = (source as { height: number }).height;
+      const imageMatrix = multiplyMatrix([1 / width, 0, 0, -1 / height, 0, 1], state.ctm);
+      setTransform(imageMatrix);
+      ctx.globalAlpha = state.fillAlpha;
+      ctx.globalCompositeOperation = state.blendMode;
+      // Keep hard edges when small images (QR codes, pixel art) are enlarged a lot
+      const deviceScale = matrixScale(state.ctm) / Math.max(width, height);
+      ctx.imageSmoothingEnabled = deviceScale < 4 || doc.get(image, 'Interpolate') === true;
+      ctx.imageSmoothingQuality = 'high';
+      ctx.drawImage(source, 0, 0, width, height);
+    };
+
+    const drawInlineImage = async (inline: InlineImage) => {
+      const stream: PdfStream = { type: 'stream', dict: inline.dict, raw: inline.data };
+      await drawImage(stream);
+    };
+
+    const drawForm = async (form: PdfStream) => {
+      if (depth >= MAX_FORM_DEPTH) return;
+      const formMatrix = toMatrix(doc.get(form, 'Matrix')) || [1, 0, 0, 1, 0, 0];
+      const formResources = doc.get(form, 'Resources');
+      const bboxObj = doc.get(form, 'BBox');
+      const ctm = multiplyMatrix(formMatrix, state.ctm);
+
+      ctx.save();
+      if (Array.isArray(bboxObj) && bboxObj.length >= 4) {
+        const [x0, y0, x1, y1] = bboxObj.map(v => (typeof v === 'number' ? v : 0));
+        const clipPath = new Path2D();
+        clipPath.rect(Math.min(x0, x1), Math.min(y0, y1), Math.abs(x1 - x0), Math.abs(y1 - y0));
+        setTransform(ctm);
+        ctx.clip(clipPath);
+      }
+      try {
+        await run(
+          doc.getStreamData(form),
+          isDict(formResources) ? formResources : resources,
+          { ...state, ctm },
+          depth + 1,
+          ctm
+        );
+      } finally {
+        ctx.restore();
+      }
+    };
+
+    const num = (value: PdfObject | undefined) => (typeof value === 'number' ? value : 0);
+
+    for (const { operator, operands, inlineImage } of operations) {
+      try {
+        switch (operator) {
+          // Graphics state
+          case 'q':
+            stateStack.push({ ...state });
+            ctx.save();
+            break;
+          case 'Q':
+            if (stateStack.length) {
+              state = stateStack.pop() as GraphicsState;
+              ctx.restore();
+            }
+            break;
+          case 'cm': {
+            const m = toMatrix(operands);
+            if (m) state.ctm = multiplyMatrix(m, state.ctm);
+            break;
+          }
+          case 'w': state.lineWidth = num(operands[0]); break;
+          case 'J': state.lineCap = LINE_CAPS[num(operands[0])] || 'butt'; break;
+          case 'j': state.lineJoin = LINE_JOINS[num(operands[0])] || 'miter'; break;
+          case 'M': state.miterLimit = num(operands[0]) || 10; break;
+          case 'd':
+            state.dash = Array.isArray(operands[0]) ? operands[0].map(num) : [];
+            state.dashPhase = num(operands[1]);
+            break;
+          case 'gs':
+            if (isName(operands[0])) applyExtGState(operands[0].name);
+            break;
+
+          // Path construction
+          case 'm':
+            path.moveTo(num(operands[0]), num(operands[1]));
+            currentPoint = [num(operands[0]), num(operands[1])];
+            break;
+          case 'l':
+            path.lineTo(num(operands[0]), num(operands[1]));
+            currentPoint = [num(operands[0]), num(operands[1])];
+            break;
+          case 'c':
+            path.bezierCurveTo(num(operands[0]), num(operands[1]), num(operands[2]), num(operands[3]), num(operands[4]), num(operands[5]));
+            currentPoint = [num(operands[4]), num(operands[5])];
+            break;
+          case 'v':
+            path.bezierCurveTo(currentPoint[0], currentPoint[1], num(operands[0]), num(operands[1]), num(operands[2]), num(operands[3]));
+            currentPoint = [num(operands[2]), num(operands[3])];
+            break;
+          case 'y':
+            path.bezierCurveTo(num(operands[0]), num(operands[1]), num(operands[2]), num(operands[3]), num(operands[2]), num(operands[3]));
+            currentPoint = [num(operands[2]), num(operands[3])];
+            break;
+          case 'h':
+            path.closePath();
+            break;
+          case 're': {
+            const [x, y, w, h] = operands.map(num);
+            path.rect(x, y, w, h);
+            currentPoint = [x, y];
+            break;
+          }
+
+          // Path painting
+          case 'S': paint(null, true); break;
+          case 's': path.closePath(); paint(null, true); break;
+          case 'f': case 'F': paint('nonzero', false); break;
+          case 'f*': paint('evenodd', false); break;
+          case 'B': paint('nonzero', true); break;
+          case 'B*': paint('evenodd', true); break;
+          case 'b': path.closePath(); paint('nonzero', true); break;
+          case 'b*': path.closePath(); paint('evenodd', true); break;
+          case 'n': endPath(); break;
+          case 'W': pendingClip = 'nonzero'; break;
+          case 'W*': pendingClip = 'evenodd'; break;
+
+          // Colour
+          case 'CS':
+            state.strokeColorSpace = createColorSpace(doc, operands[0], lookupColorSpace);
+            state.strokeColor = state.strokeColorSpace.toRGB(state.strokeColorSpace.defaultColor);
+            break;
+          case 'cs':
+            state.fillColorSpace = createColorSpace(doc, operands[0], lookupColorSpace);
+            state.fillColor = state.fillColorSpace.toRGB(state.fillColorSpace.defaultColor);
+            break;
+          case 'SC': case 'SCN': setColor('stroke', operands); break;
+          case 'sc': case 'scn': setColor('fill', operands); break;
+          case 'G': setDeviceColor('stroke', 'DeviceGray', operands); break;
+          case 'g': setDeviceColor('fill', 'DeviceGray', operands); break;
+          case 'RG': setDeviceColor('stroke', 'DeviceRGB', operands); break;
+          case 'rg': setDeviceColor('fill', 'DeviceRGB', operands); break;
+          case 'K': setDeviceColor('stroke', 'DeviceCMYK', operands); break;
+          case 'k': setDeviceColor('fill', 'DeviceCMYK', operands); break;
+
+          // Shading
+          case 'sh': {
+            if (!isName(operands[0])) break;
+            const gradient = createShadingGradient(getResource(doc.resolve, resources, 'Shading', operands[0].name), lookupColorSpace);
+            if (!gradient) break;
+            ctx.save();
+            ctx.fillStyle = gradient;
+            ctx.globalAlpha = state.fillAlpha;
+            fillVisibleArea(state.ctm);
+            ctx.restore();
+            break;
+          }
+
+          // Text
+          case 'BT':
+            textMatrix = [1, 0, 0, 1, 0, 0];
+            lineMatrix = [1, 0, 0, 1, 0, 0];
+            break;
+          case 'ET': break;
+          case 'Tf':
+            state.font = isName(operands[0]) ? getFont(operands[0].name) : null;
+            state.fontSize = num(operands[1]);
+            break;
+          case 'Tc': state.charSpacing = num(operands[0]); break;
+          case 'Tw': state.wordSpacing = num(operands[0]); break;
+          case 'Tz': state.horizontalScale = num(operands[0]) / 100; break;
+          case 'TL': state.leading = num(operands[0]); break;
+          case 'Ts': state.rise = num(operands[0]); break;
+          case 'Tr': state.renderMode = num(operands[0]); break;
+          case 'Td': moveLine(num(operands[0]), num(operands[1])); break;
+          case 'TD':
+            state.leading = -num(operands[1]);
+            moveLine(num(operands[0]), num(operands[1]));
+            break;
+          case 'Tm': {
+            const m = toMatrix(operands);
+            if (m) {
+              textMatrix = m;
+              lineMatrix = m;
+            }
+            break;
+          }
+          case 'T*': moveLine(0, -state.leading); break;
+          case 'Tj':
+            if (isPdfString(operands[0])) showText(operands[0].bytes);
+            break;
+          case "'":
+            moveLine(0, -state.leading);
+            if (isPdfString(operands[0])) showText(operands[0].bytes);
+            break;
+          case '"':
+            state.wordSpacing = num(operands[0]);
+            state.charSpacing = num(operands[1]);
+            moveLine(0, -state.leading);
+            if (isPdfString(operands[2])) showText(operands[2].bytes);
+            break;
+          case 'TJ':
+            if (!Array.isArray(operands[0])) break;
+            for (const element of operands[0]) {
+              if (isPdfString(element)) {
+                showText(element.bytes);
+              } else if (typeof element === 'number') {
+                const shift = (-element / 1000) * state.fontSize * state.horizontalScale;
+                textMatrix = multiplyMatrix([1, 0, 0, 1, shift, 0], textMatrix);
+              }
+            }
+            break;
+
+          // XObjects and inline images
+          case 'Do': {
+            if (!isName(operands[0])) break;
+            const xobject = getResource(doc.resolve, resources, 'XObject', operands[0].name);
+            if (isImageXObject(doc, xobject)) {
+              await drawImage(xobject);
+            } else if (isStream(xobject) && isName(doc.get(xobject, 'Subtype'), 'Form')) {
+              await drawForm(xobject);
+            }
+            break;
+          }
+          case 'BI':
+            if (inlineImage) await drawInlineImage(inlineImage);
+            break;
+
+          default:
+            break;
+        }
+      } catch (error) {
+        // A single bad operator should not abort the whole page
+        console.warn(`PDF render error at operator ${operator}:`, error);
+      }
+    }
+
+    // Balance any unmatched q operators
+    while (stateStack.length) {
+      stateStack.pop();
+      ctx.restore();
+    }
+  };
+
+  const pageMatrix = viewport.transform;
+  ctx.save();
+  await run(doc.getPageContents(page), page.resources, createInitialState(pageMatrix), 0, pageMatrix);
+  ctx.restore();
+
+  // Annotation appearance streams (form fields, stamps, highlights)
+  const annots = doc.get(page.dict, 'Annots');
+  if (Array.isArray(annots)) {
+    for (const annotRef of annots) {
+      const annot = doc.resolve(annotRef);
+      if (!isDict(annot)) continue;
+      const flags = (doc.get(annot, 'F') as number) || 0;
+      if (flags & 0x2 || flags & 0x20) continue; // Hidden or NoView
+
+      const ap = doc.get(annot, 'AP');
+      let appearance = isDict(ap) ? doc.get(ap, 'N') : null;
+      if (isDict(appearance)) {
+        const state = doc.get(annot, 'AS');
+        appearance = isName(state) ? doc.get(appearance, state.name) : null;
+      }
+      const rectObj = doc.get(annot, 'Rect');
+      if (!isStream(appearance) || !Array.isArray(rectObj) || rectObj.length < 4) continue;
+
+      const rect = rectObj.map(v => (typeof v === 'number' ? v : 0));
+      const bboxObj = doc.get(appearance, 'BBox');
+      const bbox = Array.isArray(bboxObj) ? bboxObj.map(v => (typeof v === 'number' ? v : 0)) : rect;
+      const formMatrix = toMatrix(doc.get(appearance, 'Matrix')) || [1, 0, 0, 1, 0, 0];
+
+      // Map the transformed bounding box onto the annotation rectangle
+      const corners = [
+        applyMatrix(formMatrix, bbox[0], bbox[1]),
+        applyMatrix(formMatrix, bbox[2], bbox[1]),
+        applyMatrix(formMatrix, bbox[0], bbox[3]),
+        applyMatrix(formMatrix, bbox[2], bbox[3]),
+      ];
+      const minX = Math.min(...corners.map(c => c[0]));
+      const minY = Math.min(...corners.map(c => c[1]));
+      const maxX = Math.max(...corners.map(c => c[0]));
+      const maxY = Math.max(...corners.map(c => c[1]));
+      const scaleX = maxX - minX ? (Math.max(rect[0], rect[2]) - Math.min(rect[0], rect[2])) / (maxX - minX) : 1;
+      const scaleY = maxY - minY ? (Math.max(rect[1], rect[3]) - Math.min(rect[1], rect[3])) / (maxY - minY) : 1;
+      const fit: Matrix = [scaleX, 0, 0, scaleY, Math.min(rect[0], rect[2]) - minX * scaleX, Math.min(rect[1], rect[3]) - minY * scaleY];
+      const ctm = multiplyMatrix(fit, pageMatrix);
+
+      ctx.save();
+      try {
+        // drawForm applies /Matrix itself, so start from the fitted annotation space
+        await run(
+          new TextEncoder().encode('/Annot Do'),
+          { type: 'dict', entries: new Map([['XObject', { type: 'dict', entries: new Map([['Annot', appearance]]) }]]) },
+          createInitialState(ctm),
+          0,
+          ctm
+        );
+      } catch (error) {
+        console.warn('Failed to render annotation:', error);
+      } finally {
+        ctx.restore();
+      }
+    }
+  }
+
+  ctx.setTransform(1, 0, 0, 1, 0, 0);
+};
+
+/**
+ * Viewport for rendering a page at the requested DPI, reduced if the canvas would be too large
+ */
+export const getRenderViewport = (page: PdfPage, dpi: number, maxArea: number): PageViewport => {
+  let scale = dpi / 72;
+  const base = getPageViewport(page, 1);
+  const area = base.width * base.height * scale * scale;
+  if (area > maxArea) scale *= Math.sqrt(maxArea / area);
+  return getPageViewport(page, scale);
+};
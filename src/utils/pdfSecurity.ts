@@ -0,0 +1,282 @@
+/**
+ * PDF standard security handler
+ * Authenticates a user or owner password against the /Encrypt dictionary and
+ * decrypts strings and streams: RC4 (40 to 128 bit), AES-128 and AES-256
+ * (revisions 2 to 6 of the standard handler).
+ */
+
+import { aesDecryptCbc, aesEncryptCbc, md5, rc4, sha256, sha384, sha512 } from './pdfCrypto';
+import { isDict, isName, isPdfString, PdfDict, PdfObject } from './pdfParser';
+
+export interface PdfPasswordError extends Error {
+  passwordRequired: true;
+  // A password was given but did not match
+  incorrectPassword: boolean;
+}
+
+export interface PdfSecurityHandler {
+  decryptString: (bytes: Uint8Array, num: number, gen: number) => Uint8Array;
+  // Streams with their own /Crypt filter and, when so declared, metadata are left as they are
+  decryptStream: (bytes: Uint8Array, num: number, gen: number, dict: PdfDict) => Uint8Array;
+}
+
+type CryptMethod = 'None' | 'V2' | 'AESV2' | 'AESV3';
+
+// Padding string from the PDF specification (Algorithm 2, step a)
+const PASSWORD_PADDING = new Uint8Array([
+  0x28, 0xbf, 0x4e, 0x5e, 0x4e, 0x75, 0x8a, 0x41, 0x64, 0x00, 0x4e, 0x56, 0xff, 0xfa, 0x01, 0x08,
+  0x2e, 0x2e, 0x00, 0xb6, 0xd0, 0x68, 0x3e, 0x80, 0x2f, 0x0c, 0xa9, 0xfe, 0x64, 0x53, 0x69, 0x7a,
+]);
+
+const AES_SALT = [0x73, 0x41, 0x6c, 0x54];
+
+const createPasswordError = (incorrectPassword: boolean): PdfPasswordError =>
+  Object.assign(
+    new Error(incorrectPassword
+      ? 'The password for this PDF is incorrect'
+      : 'This PDF is password-protected. Enter its password to convert it.'),
+    { passwordRequired: true as const, incorrectPassword }
+  );
+
+export const isPdfPasswordError = (error: unknown): error is PdfPasswordError =>
+  error instanceof Error && (error as Partial<PdfPasswordError>).passwordRequired === true;
+
+const concat = (...parts: Array<Uint8Array | number[]>): Uint8Array => {
+  const result = new Uint8Array(parts.reduce((total, part) => total + part.length, 0));
+  let offset = 0;
+  for (const part of parts) {
+    result.set(part, offset);
+    offset += part.length;
+  }
+  return result;
+};
+
+const equalBytes = (a: Uint8Array, b: Uint8Array, length: number): boolean => {
+  if (a.length < length || b.length < length) return false;
+  for (let i = 0; i < length; i++) if (a[i] !== b[i]) return false;
+  return true;
+};
+
+// Passwords for revisions 2 to 4 are Latin-1, cut or padded to 32 bytes
+const padPassword = (password: string): Uint8Array => {
+  const bytes = Uint8Array.from(Array.from(password.slice(0, 32), char => char.charCodeAt(0) & 0xff));
+  return concat(bytes, PASSWORD_PADDING.subarray(0, 32 - bytes.length));
+};
+
+const xorKey = (key: Uint8Array, value: number): Uint8Array => key.map(byte => byte ^ value);
+
+// Revisions 2 to 4 (RC4 and AES-128)
+interface LegacyParams {
+  revision: number;
+  keyLength: number;
+  owner: Uint8Array;
+  user: Uint8Array;
+  permissions: number;
+  fileId: Uint8Array;
+  encryptMetadata: boolean;
+}
+
+// Algorithm 2: the file key from a padded user password
+const computeLegacyKey = (padded: Uint8Array, params: LegacyParams): Uint8Array => {
+  const permissions = [params.permissions & 0xff, (params.permissions >> 8) & 0xff, (params.permissions >> 16) & 0xff, (params.permissions >>> 24) & 0xff];
+  const metadata = params.revision >= 4 && !params.encryptMetadata ? [0xff, 0xff, 0xff, 0xff] : [];
+  let hash = md5(concat(padded, params.owner.subarray(0, 32), permissions, params.fileId, metadata));
+  if (params.revision >= 3) {
+    for (let i = 0; i < 50; i++) hash = md5(hash.subarray(0, params.keyLength));
+  }
+  return hash.slice(0, params.keyLength);
+};
+
+// Algorithms 4 and 5: the key if the padded password is the user password
+const authenticateLegacyUser = (padded: Uint8Array, params: LegacyParams): Uint8Array | null => {
+  const key = computeLegacyKey(padded, params);
+  if (params.revision === 2) {
+    return equalBytes(rc4(key, PASSWORD_PADDING), params.user, 32) ? key : null;
+  }
+  let check = rc4(key, md5(concat(PASSWORD_PADDING, params.fileId)));
+  for (let i = 1; i <= 19; i++) check = rc4(xorKey(key, i), check);
+  return equalBytes(check, params.user, 16) ? key : null;
+};
+
+// Algorithm 7: recover the user password from the owner password
+const authenticateLegacyOwner = (password: string, params: LegacyParams): Uint8Array | null => {
+  let hash = md5(padPassword(password));
+  if (params.revision >= 3) {
+    for (let i = 0; i < 50; i++) hash = md5(hash);
+  }
+  const ownerKey = hash.subarray(0, params.revision === 2 ? 5 : params.keyLength);
+
+  let userPassword = params.owner.subarray(0, 32);
+  if (params.revision === 2) {
+    userPassword = rc4(ownerKey, userPassword);
+  } else {
+    for (let i = 19; i >= 0; i--) userPassword = rc4(xorKey(ownerKey, i), userPassword);
+  }
+  return authenticateLegacyUser(userPassword, params);
+};
+
+// Algorithm 2.B; revision 5 uses a single SHA-256
+const hashModern = (password: Uint8Array, salt: Uint8Array, userKey: Uint8Array, revision: number): Uint8Array => {
+  let k = sha256(concat(password, salt, userKey));
+  if (revision < 6) return k;
+
+  let e = new Uint8Array(0);
+  for (let round = 0; round < 64 || e[e.length - 1] > round - 32; round++) {
+    const sequence = concat(password, k, userKey);
+    const k1 = new Uint8Array(sequence.length * 64);
+    for (let i = 0; i < 64; i++) k1.set(sequence, i * sequence.length);
+    e = aesEncryptCbc(k.subarray(0, 16), k.subarray(16, 32), k1);
+
+    // The first 16 bytes as a number mod 3; 256 is 1 mod 3, so summing the bytes suffices
+    let remainder = 0;
+    for (let i = 0; i < 16; i++) remainder += e[i];
+    k = [sha256, sha384, sha512][remainder % 3](e);
+  }
+  return k.subarray(0, 32);
+};
+
+// Revisions 5 and 6 (AES-256)
+interface ModernParams {
+  revision: number;
+  owner: Uint8Array;
+  user: Uint8Array;
+  ownerKey: Uint8Array;
+  userKey: Uint8Array;
+}
+
+const authenticateModern = (password: string, params: ModernParams): Uint8Array | null => {
+  // UTF-8, at most 127 bytes (SASLprep normalisation is not applied)
+  const bytes = new TextEncoder().encode(password).subarray(0, 127);
+  const { owner, user, revision } = params;
+  const zeroIv = new Uint8Array(16);
+
+  const ownerUser = user.subarray(0, 48);
+  if (equalBytes(hashModern(bytes, owner.subarray(32, 40), ownerUser, revision), owner, 32)) {
+    const intermediate = hashModern(bytes, owner.subarray(40, 48), ownerUser, revision);
+    return aesDecryptCbc(intermediate, zeroIv, params.ownerKey.subarray(0, 32), false);
+  }
+  const none = new Uint8Array(0);
+  if (equalBytes(hashModern(bytes, user.subarray(32, 40), none, revision), user, 32)) {
+    const intermediate = hashModern(bytes, user.subarray(40, 48), none, revision);
+    return aesDecryptCbc(intermediate, zeroIv, params.userKey.subarray(0, 32), false);
+  }
+  return null;
+};
+
+/**
+ * Open the security handler of an encrypted document.
+ * Throws a PdfPasswordError when neither the empty password nor `password`
+ * opens it, and a plain error for unsupported encryption.
+ */
+export const createSecurityHandler = (
+  encrypt: PdfDict,
+  fileId: Uint8Array,
+  password: string,
+  resolve: (obj: PdfObject | undefined) => PdfObject
+): PdfSecurityHandler => {
+  const get = (dict: PdfDict, key: string) => resolve(dict.entries.get(key));
+  const getBytes = (key: string): Uint8Array => {
+    const value = get(encrypt, key);
+    return isPdfString(value) ? value.bytes : new Uint8Array(0);
+  };
+  const getNumber = (dict: PdfDict, key: string, fallback: number): number => {
+    const value = get(dict, key);
+    return typeof value === 'number' ? value : fallback;
+  };
+  const getNameValue = (dict: PdfDict, key: string): string | null => {
+    const value = get(dict, key);
+    return isName(value) ? value.name : null;
+  };
+
+  const filter = getNameValue(encrypt, 'Filter');
+  if (filter !== 'Standard') {
+    throw new Error(`This PDF uses an unsupported encryption method (${filter ?? 'unknown'})`);
+  }
+
+  const version = getNumber(encrypt, 'V', 0);
+  const revision = getNumber(encrypt, 'R', 2);
+  const encryptMetadata = get(encrypt, 'EncryptMetadata') !== false;
+
+  // Crypt filters (version 4 and up) choose the method for strings and streams separately
+  const cryptFilters = get(encrypt, 'CF');
+  const getMethod = (filterName: string | null): { method: CryptMethod; length?: number } => {
+    if (version < 4) return { method: 'V2' };
+    if (!filterName || filterName === 'Identity') return { method: 'None' };
+    const cryptFilter = isDict(cryptFilters) ? get(cryptFilters, filterName) : null;
+    if (!isDict(cryptFilter)) return { method: 'None' };
+    const method = getNameValue(cryptFilter, 'CFM') ?? 'None';
+    if (!['None', 'V2', 'AESV2', 'AESV3'].includes(method)) {
+      throw new Error(`This PDF uses an unsupported encryption method (${method})`);
+    }
+    const length = get(cryptFilter, 'Length');
+    return { method: method as CryptMethod, length: typeof length === 'number' ? length : undefined };
+  };
+  const stringMethod = getMethod(getNameValue(encrypt, 'StrF'));
+  const streamMethod = getMethod(getNameValue(encrypt, 'StmF'));
+
+  let fileKey: Uint8Array | null;
+  if (revision >= 5) {
+    const params: ModernParams = {
+      revision,
+      owner: getBytes('O'),
+      user: getBytes('U'),
+      ownerKey: getBytes('OE'),
+      userKey: getBytes('UE'),
+    };
+    if (params.owner.length < 48 || params.user.length < 48 || params.ownerKey.length < 32 || params.userKey.length < 32) {
+      throw new Error('The encryption dictionary of this PDF is damaged');
+    }
+    fileKey = authenticateModern('', params) ?? (password ? authenticateModern(password, params) : null);
+  } else {
+    // Key lengths are in bits; a few writers give crypt filter lengths in bytes
+    const filterLength = streamMethod.length ?? stringMethod.length;
+    const bits = version === 1 ? 40 : getNumber(encrypt, 'Length', filterLength !== undefined ? (filterLength <= 32 ? filterLength * 8 : filterLength) : 40);
+    const params: LegacyParams = {
+      revision,
+      keyLength: revision === 2 ? 5 : Math.min(16, Math.max(5, Math.floor(bits / 8))),
+      owner: getBytes('O'),
+      user: getBytes('U'),
+      permissions: getNumber(encrypt, 'P', 0),
+      fileId,
+      encryptMetadata,
+    };
+    if (params.owner.length < 32 || params.user.length < 16) {
+      throw new Error('The encryption dictionary of this PDF is damaged');
+    }
+    fileKey = authenticateLegacyUser(padPassword(''), params)
+      ?? (password ? authenticateLegacyUser(padPassword(password), params) ?? authenticateLegacyOwner(password, params) : null);
+  }
+  if (!fileKey) throw createPasswordError(password !== '');
+  const key = fileKey;
+
+  // Algorithm 1: revisions up to 4 derive a key per object
+  const objectKey = (num: number, gen: number, aes: boolean): Uint8Array => {
+    const hash = md5(concat(key, [num & 0xff, (num >> 8) & 0xff, (num >> 16) & 0xff, gen & 0xff, (gen >> 8) & 0xff], aes ? AES_SALT : []));
+    return hash.subarray(0, Math.min(key.length + 5, 16));
+  };
+
+  const decrypt = (method: CryptMethod, bytes: Uint8Array, num: number, gen: number): Uint8Array => {
+    switch (method) {
+      case 'V2':
+        return rc4(objectKey(num, gen, false), bytes);
+      case 'AESV2':
+        return bytes.length < 16 ? new Uint8Array(0) : aesDecryptCbc(objectKey(num, gen, true), bytes.subarray(0, 16), bytes.subarray(16));
+      case 'AESV3':
+        return bytes.length < 16 ? new Uint8Array(0) : aesDecryptCbc(key, bytes.subarray(0, 16), bytes.subarray(16));
+      default:
+        return bytes;
+    }
+  };
+
+  return {
+    decryptString: (bytes, num, gen) => decrypt(stringMethod.method, bytes, num, gen),
+    decryptStream: (bytes, num, gen, dict) => {
+      const filters = get(dict, 'Filter');
+      const names = Array.isArray(filters) ? filters.map(item => resolve(item)) : [filters];
+      if (names.some(name => isName(name, 'Crypt'))) return bytes;
+      const type = getNameValue(dict, 'Type');
+      if (type === 'XRef' || (type === 'Metadata' && !encryptMetadata)) return bytes;
+      return decrypt(streamMethod.method, bytes, num, gen);
+    },
+  };
+};
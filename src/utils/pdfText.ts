@@ -0,0 +1,415 @@
+/**
+ * PDF text extraction
+ * Interprets page content streams to position every glyph, then groups the
+ * positioned text into lines, paragraphs and headings.
+ */
+
+import {
+  getPageViewport,
+  getResource,
+  IDENTITY_MATRIX,
+  Matrix,
+  multiplyMatrix,
+  parseContentStream,
+  toMatrix,
+} from './pdfContent';
+import { loadPdfFont, PdfFont } from './pdfFonts';
+import {
+  isDict,
+  isName,
+  isPdfString,
+  isStream,
+  PdfDict,
+  PdfDocument,
+  PdfObject,
+  PdfPage,
+} from './pdfParser';
+
+export interface PdfTextItem {
+  text: string;
+  // Baseline start in top-left-origin page coordinates (points)
+  x: number;
+  y: number;
+  width: number;
+  fontSize: number;
+  bold: boolean;
+  italic: boolean;
+}
+
+export interface PdfTextLine {
+  text: string;
+  x: number;
+  y: number;
+  width: number;
+  fontSize: number;
+  bold: boolean;
+  italic: boolean;
+}
+
+export interface PdfParagraph {
+  text: string;
+  lines: PdfTextLine[];
+  fontSize: number;
+  bold: boolean;
+  italic: boolean;
+  headingLevel?: number;
+  pageIndex: number;
+}
+
+interface TextState {
+  ctm: Matrix;
+  font: PdfFont | null;
+  fontSize: number;
+  charSpacing: number;
+  wordSpacing: number;
+  horizontalScale: number;
+  leading: number;
+  rise: number;
+}
+
+const MAX_FORM_DEPTH = 8;
+
+/**
+ * Collect positioned text runs from a page
+ */
+export const extractPageTextItems = (doc: PdfDocument, page: PdfPage): PdfTextItem[] => {
+  const viewport = getPageViewport(page);
+  const items: PdfTextItem[] = [];
+  const fontCache = new Map<PdfDict, PdfFont>();
+
+  const getFont = (resources: PdfDict | null, name: string): PdfFont | null => {
+    const fontDict = getResource(doc.resolve, resources, 'Font', name);
+    if (!isDict(fontDict)) return null;
+    let font = fontCache.get(fontDict);
+    if (!font) {
+      font = loadPdfFont(doc, fontDict);
+      fontCache.set(fontDict, font);
+    }
+    return font;
+  };
+
+  const run = (content: Uint8Array, resources: PdfDict | null, baseMatrix: Matrix, depth: number) => {
+    const operations = parseContentStream(content);
+    const stack: TextState[] = [];
+    let state: TextState = {
+      ctm: baseMatrix,
+      font: null,
+      fontSize: 0,
+      charSpacing: 0,
+      wordSpacing: 0,
+      horizontalScale: 1,
+      leading: 0,
+      rise: 0,
+    };
+    let textMatrix: Matrix = IDENTITY_MATRIX;
+    let lineMatrix: Matrix = IDENTITY_MATRIX;
+
+    const num = (value: PdfObject | undefined) => (typeof value === 'number' ? value : 0);
+
+    const moveLine = (tx: number, ty: number) => {
+      lineMatrix = multiplyMatrix([1, 0, 0, 1, tx, ty], lineMatrix);
+      textMatrix = lineMatrix;
+    };
+
+    const showText = (bytes: Uint8Array) => {
+      const font = state.font;
+      if (!font) return;
+
+      const glyphs = font.decode(bytes);
+      let text = '';
+      let startMatrix: Matrix | null = null;
+
+      for (const glyph of glyphs) {
+        const renderMatrix = multiplyMatrix(
+          multiplyMatrix([state.fontSize * state.horizontalScale, 0, 0, state.fontSize, 0, state.rise], textMatrix),
+          state.ctm
+        );
+        if (!startMatrix) startMatrix = renderMatrix;
+        text += glyph.unicode;
+
+        const advance = font.vertical
+          ? 0
+          : (glyph.width / 1000) * state.fontSize + state.charSpacing + (glyph.isSpace ? state.wordSpacing : 0);
+        textMatrix = multiplyMatrix([1, 0, 0, 1, advance * state.horizontalScale, 0], textMatrix);
+      }
+
+      if (!startMatrix || !text) return;
+
+      const endMatrix = multiplyMatrix(
+        multiplyMatrix([state.fontSize * state.horizontalScale, 0, 0, state.fontSize, 0, state.rise], textMatrix),
+        state.ctm
+      );
+      const start = multiplyMatrix(startMatrix, viewport.transform);
+      const end = multiplyMatrix(endMatrix, viewport.transform);
+      const fontSize = Math.hypot(start[2], start[3]);
+
+      items.push({
+        text,
+        x: start[4],
+        y: start[5],
+        width: Math.hypot(end[4] - start[4], end[5] - start[5]),
+        fontSize: fontSize || state.fontSize,
+        bold: font.bold,
+        italic: font.italic,
+      });
+    };
+
+    for (const { operator, operands } of operations) {
+      switch (operator) {
+        case 'q':
+          stack.push({ ...state });
+          break;
+        case 'Q':
+          if (stack.length) state = stack.pop() as TextState;
+          break;
+        case 'cm': {
+          const m = toMatrix(operands);
+          if (m) state.ctm = multiplyMatrix(m, state.ctm);
+          break;
+        }
+        case 'BT':
+          textMatrix = IDENTITY_MATRIX;
+          lineMatrix = IDENTITY_MATRIX;
+          break;
+        case 'Tf': {
+          const [name, size] = operands;
+          state.font = isName(name) ? getFont(resources, name.name) : null;
+          state.fontSize = num(size);
+          break;
+        }
+        case 'Tc': state.charSpacing = num(operands[0]); break;
+        case 'Tw': state.wordSpacing = num(operands[0]); break;
+        case 'Tz': state.horizontalScale = num(operands[0]) / 100; break;
+        case 'TL': state.leading = num(operands[0]); break;
+        case 'Ts': state.rise = num(operands[0]); break;
+        case 'Td':
+          moveLine(num(operands[0]), num(operands[1]));
+          break;
+        case 'TD':
+          state.leading = -num(operands[1]);
+          moveLine(num(operands[0]), num(operands[1]));
+          break;
+        case 'Tm': {
+          const m = toMatrix(operands);
+          if (m) {
+            textMatrix = m;
+            lineMatrix = m;
+          }
+          break;
+        }
+        case 'T*':
+          moveLine(0, -state.leading);
+          break;
+        case 'Tj':
+          if (isPdfString(operands[0])) showText(operands[0].bytes);
+          break;
+        case "'":
+          moveLine(0, -state.leading);
+          if (isPdfString(operands[0])) showText(operands[0].bytes);
+          break;
+        case '"':
+          state.wordSpacing = num(operands[0]);
+          state.charSpacing = num(operands[1]);
+          moveLine(0, -state.leading);
+          if (isPdfString(operands[2])) showText(operands[2].bytes);
+          break;
+        case 'TJ': {
+          const array = operands[0];
+          if (!Array.isArray(array)) break;
+          for (const element of array) {
+            if (isPdfString(element)) {
+              showText(element.bytes);
+            } else if (typeof element === 'number') {
+              const shift = (-element / 1000) * state.fontSize * state.horizontalScale;
+              textMatrix = multiplyMatrix([1, 0, 0, 1, shift, 0], textMatrix);
+            }
+          }
+          break;
+        }
+        case 'Do': {
+          const [name] = operands;
+          if (!isName(name) || depth >= MAX_FORM_DEPTH) break;
+          const xobject = getResource(doc.resolve, resources, 'XObject', name.name);
+          if (!isStream(xobject) || !isName(doc.get(xobject, 'Subtype'), 'Form')) break;
+          const formResources = doc.get(xobject, 'Resources');
+          const formMatrix = toMatrix(doc.get(xobject, 'Matrix')) || IDENTITY_MATRIX;
+          try {
+            run(
+              doc.getStreamData(xobject),
+              isDict(formResources) ? formResources : resources,
+              multiplyMatrix(formMatrix, state.ctm),
+              depth + 1
+            );
+          } catch {
+            // Skip unreadable form XObjects
+          }
+          break;
+        }
+        default:
+          break;
+      }
+    }
+  };
+
+  run(doc.getPageContents(page), page.resources, IDENTITY_MATRIX, 0);
+  return items;
+};
+
+const median = (values: number[]): number => {
+  if (!values.length) return 0;
+  const sorted = [...values].sort((a, b) => a - b);
+  return sorted[Math.floor(sorted.length / 2)];
+};
+
+/**
+ * Merge text items that share a baseline into lines, inserting spaces at gaps
+ */
+export const groupItemsIntoLines = (items: PdfTextItem[]): PdfTextLine[] => {
+  const visible = items.filter(item => item.text.trim() || item.text === ' ');
+  const sorted = [...visible].sort((a, b) => a.y - b.y || a.x - b.x);
+  const rows: PdfTextItem[][] = [];
+
+  for (const item of sorted) {
+    const row = rows[rows.length - 1];
+    const tolerance = Math.max(1, item.fontSize * 0.4);
+    if (row && Math.abs(row[0].y - item.y) <= tolerance) row.push(item);
+    else rows.push([item]);
+  }
+
+  return rows.map(row => {
+    row.sort((a, b) => a.x - b.x);
+    let text = '';
+    let cursor = row[0].x;
+
+    for (const item of row) {
+      const gap = item.x - cursor;
+      if (text && gap > item.fontSize * 0.2 && !text.endsWith(' ') && !item.text.startsWith(' ')) {
+        text += ' ';
+      }
+      text += item.text;
+      cursor = Math.max(cursor, item.x + item.width);
+    }
+
+    // Weight style and size by the amount of text carrying them
+    const totalChars = row.reduce((sum, item) => sum + item.text.length, 0) || 1;
+    const boldChars = row.filter(item => item.bold).reduce((sum, item) => sum + item.text.length, 0);
+    const italicChars = row.filter(item => item.italic).reduce((sum, item) => sum + item.text.length, 0);
+
+    return {
+      text: text.replace(/\s+/g, ' ').trim(),
+      x: row[0].x,
+      y: row[0].y,
+      width: cursor - row[0].x,
+      fontSize: median(row.map(item => item.fontSize)),
+      bold: boldChars / totalChars > 0.6,
+      italic: italicChars / totalChars > 0.6,
+    };
+  }).filter(line => line.text.length > 0);
+};
+
+/**
+ * Group lines into paragraphs using vertical spacing and font size changes
+ */
+export const groupLinesIntoParagraphs = (lines: PdfTextLine[], pageIndex: number): PdfParagraph[] => {
+  const paragraphs: PdfParagraph[] = [];
+  let current: PdfTextLine[] = [];
+
+  const flush = () => {
+    if (!current.length) return;
+    let text = '';
+    for (const line of current) {
+      if (!text) {
+        text = line.text;
+      } else if (/[A-Za-z]-$/.test(text) && /^[a-z]/.test(line.text)) {
+        // Re-join words hyphenated across a line break
+        text = text.slice(0, -1) + line.text;
+      } else {
+        text += ' ' + line.text;
+      }
+    }
+    paragraphs.push({
+      text,
+      lines: current,
+      fontSize: median(current.map(line => line.fontSize)),
+      bold: current.every(line => line.bold),
+      italic: current.every(line => line.italic),
+      pageIndex,
+    });
+    current = [];
+  };
+
+  for (const line of lines) {
+    const previous = current[current.length - 1];
+    if (previous) {
+      const gap = line.y - previous.y;
+      const sizeChange = Math.abs(line.fontSize - previous.fontSize) / Math.max(previous.fontSize, 1);
+      const styleChange = line.bold !== previous.bold;
+      if (gap > previous.fontSize * 1.6 || gap < 0 || sizeChange > 0.15 || styleChange) flush();
+    }
+    current.push(line);
+  }
+  flush();
+
+  return paragraphs;
+};
+
+/**
+ * Mark paragraphs set noticeably larger than the body text as headings
+ */
+export const detectHeadings = (paragraphs: PdfParagraph[]): PdfParagraph[] => {
+  const sizeWeights = new Map<number, number>();
+  for (const paragraph of paragraphs) {
+    const size = Math.round(paragraph.fontSize * 2) / 2;
+    sizeWeights.set(size, (sizeWeights.get(size) || 0) + paragraph.text.length);
+  }
+
+  let bodySize = 0;
+  let bestWeight = -1;
+  sizeWeights.forEach((weight, size) => {
+    if (weight > bestWeight) {
+      bestWeight = weight;
+      bodySize = size;
+    }
+  });
+
+  const headingSizes = [...sizeWeights.keys()]
+    .filter(size => size >= bodySize * 1.15)
+    .sort((a, b) => b - a);
+
+  return paragraphs.map(paragraph => {
+    const size = Math.round(paragraph.fontSize * 2) / 2;
+    const isShort = paragraph.text.length <= 120 && paragraph.lines.length <= 3;
+    const rank = headingSizes.indexOf(size);
+
+    if (rank >= 0 && isShort) {
+      return { ...paragraph, headingLevel: Math.min(rank + 1, 3) };
+    }
+    // Short bold lines at body size read as minor headings
+    if (paragraph.bold && paragraph.lines.length === 1 && paragraph.text.length <= 80 && !/[.:;,]$/.test(paragraph.text)) {
+      return { ...paragraph, headingLevel: Math.min(headingSizes.length + 1, 4) };
+    }
+    return paragraph;
+  });
+};
+
+/**
+ * Extract the text of every page as paragraphs, with headings detected document-wide
+ */
+export const extractDocumentParagraphs = (
+  doc: PdfDocument,
+  onPage?: (pageIndex: number, pageCount: number) => void
+): PdfParagraph[] => {
+  const paragraphs: PdfParagraph[] = [];
+
+  doc.pages.forEach((page, index) => {
+    onPage?.(index, doc.pages.length);
+    try {
+      const lines = groupItemsIntoLines(extractPageTextItems(doc, page));
+      paragraphs.push(...groupLinesIntoParagraphs(lines, index));
+    } catch (error) {
+      console.warn(`Failed to extract text from page ${index + 1}:`, error);
+    }
+  });
+
+  return detectHeadings(paragraphs);
+};
@@ -0,0 +1,182 @@
+/**
+ * Low-level PDF file writer
+ * Serialises objects and streams, tracking real byte offsets for the
+ * cross-reference table so the output opens without repair.
+ */
+
+import { deflate } from './zlib';
+
+// Pre-serialised PDF token (reference, string, ...)
+export interface PdfRaw {
+  raw: string;
+}
+
+export interface PdfDictValue {
+  [key: string]: PdfValue | undefined;
+}
+
+// JS strings are written as PDF names; use pdfString() for text
+export type PdfValue = number | boolean | null | string | PdfRaw | PdfValue[] | PdfDictValue;
+
+export interface PdfWriter {
+  // Reserve an object number so it can be referenced before it is written
+  allocate: () => number;
+  writeObject: (id: number, value: PdfValue) => PdfRaw;
+  writeStream: (id: number, dict: PdfDictValue, data: Uint8Array, options?: { compress?: boolean }) => PdfRaw;
+  addObject: (value: PdfValue) => PdfRaw;
+  addStream: (dict: PdfDictValue, data: Uint8Array, options?: { compress?: boolean }) => PdfRaw;
+  finish: (root: PdfRaw, info?: PdfRaw) => Uint8Array;
+}
+
+const textEncoder = new TextEncoder();
+
+export const pdfRef = (id: number): PdfRaw => ({ raw: `${id} 0 R` });
+
+const isRaw = (value: PdfValue): value is PdfRaw =>
+  typeof value === 'object' && value !== null && !Array.isArray(value) && typeof (value as PdfRaw).raw === 'string' && Object.keys(value).length === 1;
+
+/**
+ * Format a number compactly (no exponent, at most 4 decimals)
+ */
+export const formatNumber = (value: number): string => {
+  if (!Number.isFinite(value)) return '0';
+  if (Number.isInteger(value)) return String(value);
+  const fixed = value.toFixed(4).replace(/0+$/, '').replace(/\.$/, '');
+  return fixed === '-0' ? '0' : fixed;
+};
+
+const escapeName = (name: string): string =>
+  name.replace(/[^!-~]|[#()<>[\]{}/%]/g, char => `#${char.charCodeAt(0).toString(16).padStart(2, '0')}`);
+
+/**
+ * Literal string from bytes, escaping delimiters and control characters
+ */
+export const pdfLiteralString = (bytes: Uint8Array): string => {
+  let result = '(';
+  for (const byte of bytes) {
+    if (byte === 0x28 || byte === 0x29 || byte === 0x5c) result += `\\${String.fromCharCode(byte)}`;
+    else if (byte === 0x0a) result += '\\n';
+    else if (byte === 0x0d) result += '\\r';
+    else if (byte < 0x20 || byte > 0x7e) result += `\\${byte.toString(8).padStart(3, '0')}`;
+    else result += String.fromCharCode(byte);
+  }
+  return `${result})`;
+};
+
+export const pdfHexString = (bytes: Uint8Array): PdfRaw => ({
+  raw: `<${Array.from(bytes, byte => byte.toString(16).padStart(2, '0')).join('')}>`,
+});
+
+/**
+ * Text string for metadata and annotations: ASCII as-is, anything else as UTF-16BE with BOM
+ */
+export const pdfString = (text: string): PdfRaw => {
+  if (/^[\x20-\x7e]*$/.test(text)) {
+    return { raw: pdfLiteralString(textEncoder.encode(text)) };
+  }
+  const bytes = [0xfe, 0xff];
+  for (let i = 0; i < text.length; i++) {
+    const unit = text.charCodeAt(i);
+    bytes.push(unit >> 8, unit & 0xff);
+  }
+  return pdfHexString(new Uint8Array(bytes));
+};
+
+/**
+ * PDF date string (D:YYYYMMDDHHmmSSZ)
+ */
+export const pdfDate = (date: Date): PdfRaw => {
+  const pad = (value: number) => String(value).padStart(2, '0');
+  return {
+    raw: `(D:${date.getUTCFullYear()}${pad(date.getUTCMonth() + 1)}${pad(date.getUTCDate())}${pad(date.getUTCHours())}${pad(date.getUTCMinutes())}${pad(date.getUTCSeconds())}Z)`,
+  };
+};
+
+export const serializePdfValue = (value: PdfValue): string => {
+  if (value === null) return 'null';
+  if (typeof value === 'number') return formatNumber(value);
+  if (typeof value === 'boolean') return value ? 'true' : 'false';
+  if (typeof value === 'string') return `/${escapeName(value)}`;
+  if (Array.isArray(value)) return `[${value.map(serializePdfValue).join(' ')}]`;
+  if (isRaw(value)) return value.raw;
+  const entries = Object.entries(value)
+    .filter((entry): entry is [string, PdfValue] => entry[1] !== undefined)
+    .map(([key, entry]) => `/${escapeName(key)} ${serializePdfValue(entry)}`);
+  return `<<${entries.join(' ')}>>`;
+};
+
+/**
+ * Create a writer that accumulates a PDF file in memory
+ */
+export const createPdfWriter = (): PdfWriter => {
+  const chunks: Uint8Array[] = [];
+  const offsets: number[] = [];
+  let length = 0;
+  let nextId = 1;
+
+  const write = (data: string | Uint8Array) => {
+    const bytes = typeof data === 'string' ? textEncoder.encode(data) : data;
+    chunks.push(bytes);
+    length += bytes.length;
+  };
+
+  // Header with a binary comment so transfer tools treat the file as binary
+  write('%PDF-1.7\n%');
+  write(new Uint8Array([0xe2, 0xe3, 0xcf, 0xd3, 0x0a]));
+
+  const allocate = () => nextId++;
+
+  const writeObject = (id: number, value: PdfValue): PdfRaw => {
+    offsets[id] = length;
+    write(`${id} 0 obj\n${serializePdfValue(value)}\nendobj\n`);
+    return pdfRef(id);
+  };
+
+  const writeStream = (id: number, dict: PdfDictValue, data: Uint8Array, options: { compress?: boolean } = {}): PdfRaw => {
+    const compress = options.compress ?? true;
+    const body = compress ? deflate(data) : data;
+    const streamDict: PdfDictValue = { ...dict, Length: body.length };
+    if (compress) {
+      const existing = dict.Filter;
+      streamDict.Filter = existing === undefined ? 'FlateDecode' : ['FlateDecode', ...(Array.isArray(existing) ? existing : [existing])];
+    }
+    offsets[id] = length;
+    write(`${id} 0 obj\n${serializePdfValue(streamDict)}\nstream\n`);
+    write(body);
+    write('\nendstream\nendobj\n');
+    return pdfRef(id);
+  };
+
+  const finish = (root: PdfRaw, info?: PdfRaw): Uint8Array => {
+    const size = nextId;
+    const xrefOffset = length;
+    let xref = `xref\n0 ${size}\n0000000000 65535 f \n`;
+    for (let id = 1; id < size; id++) {
+      if (offsets[id] === undefined) throw new Error(`PDF object ${id} was allocated but never written`);
+      xref += `${String(offsets[id]).padStart(10, '0')} 00000 n \n`;
+    }
+    write(xref);
+
+    const idBytes = new Uint8Array(16);
+    crypto.getRandomValues(idBytes);
+    const fileId = pdfHexString(idBytes);
+    write(`trailer\n${serializePdfValue({ Size: size, Root: root, Info: info, ID: [fileId, fileId] })}\nstartxref\n${xrefOffset}\n%%EOF\n`);
+
+    const output = new Uint8Array(length);
+    let pos = 0;
+    for (const chunk of chunks) {
+      output.set(chunk, pos);
+      pos += chunk.length;
+    }
+    return output;
+  };
+
+  return {
+    allocate,
+    writeObject,
+    writeStream,
+    addObject: value => writeObject(allocate(), value),
+    addStream: (dict, data, options) => writeStream(allocate(), dict, data, options),
+    finish,
+  };
+};
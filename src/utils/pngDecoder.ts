@@ -0,0 +1,209 @@
+/**
+ * PNG decoder
+ * Parses the chunk structure and decodes scanlines (all colour types,
+ * bit depths and Adam7 interlacing) without relying on a canvas.
+ */
+
+import { inflate } from './zlib';
+
+export interface PngInfo {
+  width: number;
+  height: number;
+  bitDepth: number;
+  // 0 grey, 2 RGB, 3 palette, 4 grey + alpha, 6 RGBA
+  colorType: number;
+  interlaced: boolean;
+  palette?: Uint8Array;
+  // tRNS chunk: palette alphas, or the transparent grey/RGB sample
+  transparency?: Uint8Array;
+  // Concatenated IDAT chunks (zlib stream)
+  imageData: Uint8Array;
+}
+
+const PNG_SIGNATURE = [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a];
+
+const CHANNELS: Record<number, number> = { 0: 1, 2: 3, 3: 1, 4: 2, 6: 4 };
+
+// Adam7 passes: x start, y start, x step, y step
+const ADAM7_PASSES = [
+  [0, 0, 8, 8],
+  [4, 0, 8, 8],
+  [0, 4, 4, 8],
+  [2, 0, 4, 4],
+  [0, 2, 2, 4],
+  [1, 0, 2, 2],
+  [0, 1, 1, 2],
+];
+
+export const isPng = (data: Uint8Array): boolean => PNG_SIGNATURE.every((byte, index) => data[index] === byte);
+
+/**
+ * Read the header, palette, transparency and image data chunks
+ */
+export const readPngInfo = (data: Uint8Array): PngInfo => {
+  if (!isPng(data)) throw new Error('Not a PNG image');
+  const view = new DataView(data.buffer, data.byteOffset, data.byteLength);
+  const idat: Uint8Array[] = [];
+  let info: Omit<PngInfo, 'imageData'> | null = null;
+  let offset = 8;
+
+  while (offset + 8 <= data.length) {
+    const length = view.getUint32(offset);
+    const type = String.fromCharCode(...data.subarray(offset + 4, offset + 8));
+    const body = data.subarray(offset + 8, Math.min(offset + 8 + length, data.length));
+    offset += 12 + length;
+
+    if (type === 'IHDR' && body.length >= 13) {
+      const header = new DataView(body.buffer, body.byteOffset, body.byteLength);
+      info = {
+        width: header.getUint32(0),
+        height: header.getUint32(4),
+        bitDepth: body[8],
+        colorType: body[9],
+        interlaced: body[12] === 1,
+      };
+    } else if (type === 'PLTE') {
+      if (info) info.palette = body;
+    } else if (type === 'tRNS') {
+      if (info) info.transparency = body;
+    } else if (type === 'IDAT') {
+      idat.push(body);
+    } else if (type === 'IEND') {
+      break;
+    }
+  }
+
+  if (!info || !info.width || !info.height || CHANNELS[info.colorType] === undefined) {
+    throw new Error('Invalid PNG header');
+  }
+  const imageData = new Uint8Array(idat.reduce((total, chunk) => total + chunk.length, 0));
+  let position = 0;
+  for (const chunk of idat) {
+    imageData.set(chunk, position);
+    position += chunk.length;
+  }
+  return { ...info, imageData };
+};
+
+const paeth = (left: number, up: number, upLeft: number): number => {
+  const estimate = left + up - upLeft;
+  const distanceLeft = Math.abs(estimate - left);
+  const distanceUp = Math.abs(estimate - up);
+  const distanceUpLeft = Math.abs(estimate - upLeft);
+  if (distanceLeft <= distanceUp && distanceLeft <= distanceUpLeft) return left;
+  return distanceUp <= distanceUpLeft ? up : upLeft;
+};
+
+/**
+ * Undo the per-scanline filters of one (sub-)image starting at `offset`
+ */
+const unfilter = (data: Uint8Array, offset: number, rowBytes: number, rows: number, bytesPerPixel: number): Uint8Array => {
+  const output = new Uint8Array(rowBytes * rows);
+  for (let row = 0; row < rows; row++) {
+    const filter = data[offset + row * (rowBytes + 1)];
+    const source = offset + row * (rowBytes + 1) + 1;
+    const target = row * rowBytes;
+    for (let i = 0; i < rowBytes; i++) {
+      const raw = data[source + i] ?? 0;
+      const left = i >= bytesPerPixel ? output[target + i - bytesPerPixel] : 0;
+      const up = row > 0 ? output[target - rowBytes + i] : 0;
+      const upLeft = row > 0 && i >= bytesPerPixel ? output[target - rowBytes + i - bytesPerPixel] : 0;
+      let value = raw;
+      if (filter === 1) value = raw + left;
+      else if (filter === 2) value = raw + up;
+      else if (filter === 3) value = raw + ((left + up) >> 1);
+      else if (filter === 4) value = raw + paeth(left, up, upLeft);
+      output[target + i] = value & 0xff;
+    }
+  }
+  return output;
+};
+
+/**
+ * Decode a PNG into 8-bit RGBA pixels
+ */
+export const decodePng = (data: Uint8Array): { width: number; height: number; rgba: Uint8Array } => {
+  const info = readPngInfo(data);
+  const { width, height, bitDepth, colorType, palette, transparency } = info;
+  const channels = CHANNELS[colorType];
+  const bitsPerPixel = channels * bitDepth;
+  const bytesPerPixel = Math.max(1, bitsPerPixel >> 3);
+  const inflated = inflate(info.imageData, { lenient: true });
+  const rgba = new Uint8Array(width * height * 4);
+  const maxSample = (1 << Math.min(bitDepth, 8)) - 1;
+
+  const readSample = (row: Uint8Array, rowOffset: number, index: number): number => {
+    if (bitDepth === 8) return row[rowOffset + index];
+    if (bitDepth === 16) return row[rowOffset + index * 2];
+    const bit = index * bitDepth;
+    const byte = row[rowOffset + (bit >> 3)];
+    return (byte >> (8 - bitDepth - (bit & 7))) & maxSample;
+  };
+  // Full 16-bit sample, used to compare against tRNS colour keys
+  const readExactSample = (row: Uint8Array, rowOffset: number, index: number): number =>
+    bitDepth === 16 ? (row[rowOffset + index * 2] << 8) | row[rowOffset + index * 2 + 1] : readSample(row, rowOffset, index);
+  const scale = (value: number) => (bitDepth >= 8 || colorType === 3 ? value : Math.round((value * 255) / maxSample));
+  const keyAt = (index: number) => transparency && transparency.length >= index * 2 + 2
+    ? (transparency[index * 2] << 8) | transparency[index * 2 + 1]
+    : -1;
+
+  const writePixels = (rows: Uint8Array, rowBytes: number, passWidth: number, passHeight: number, xStart: number, yStart: number, xStep: number, yStep: number) => {
+    for (let y = 0; y < passHeight; y++) {
+      const rowOffset = y * rowBytes;
+      for (let x = 0; x < passWidth; x++) {
+        const target = ((yStart + y * yStep) * width + xStart + x * xStep) * 4;
+        const sampleIndex = x * channels;
+        let r: number;
+        let g: number;
+        let b: number;
+        let a = 255;
+        if (colorType === 3) {
+          const index = readSample(rows, rowOffset, x);
+          r = palette?.[index * 3] ?? 0;
+          g = palette?.[index * 3 + 1] ?? 0;
+          b = palette?.[index * 3 + 2] ?? 0;
+          if (transparency && index < transparency.length) a = transparency[index];
+        } else if (colorType === 0 || colorType === 4) {
+          r = g = b = scale(readSample(rows, rowOffset, sampleIndex));
+          if (colorType === 4) a = scale(readSample(rows, rowOffset, sampleIndex + 1));
+          else if (readExactSample(rows, rowOffset, sampleIndex) === keyAt(0)) a = 0;
+        } else {
+          r = readSample(rows, rowOffset, sampleIndex);
+          g = readSample(rows, rowOffset, sampleIndex + 1);
+          b = readSample(rows, rowOffset, sampleIndex + 2);
+          if (colorType === 6) {
+            a = readSample(rows, rowOffset, sampleIndex + 3);
+          } else if (
+            readExactSample(rows, rowOffset, sampleIndex) === keyAt(0)
+            && readExactSample(rows, rowOffset, sampleIndex + 1) === keyAt(1)
+            && readExactSample(rows, rowOffset, sampleIndex + 2) === keyAt(2)
+          ) {
+            a = 0;
+          }
+        }
+        rgba[target] = r;
+        rgba[target + 1] = g;
+        rgba[target + 2] = b;
+        rgba[target + 3] = a;
+      }
+    }
+  };
+
+  if (!info.interlaced) {
+    const rowBytes = Math.ceil((width * bitsPerPixel) / 8);
+    writePixels(unfilter(inflated, 0, rowBytes, height, bytesPerPixel), rowBytes, width, height, 0, 0, 1, 1);
+  } else {
+    let offset = 0;
+    for (const [xStart, yStart, xStep, yStep] of ADAM7_PASSES) {
+      const passWidth = Math.ceil((width - xStart) / xStep);
+      const passHeight = Math.ceil((height - yStart) / yStep);
+      if (passWidth <= 0 || passHeight <= 0) continue;
+      const rowBytes = Math.ceil((passWidth * bitsPerPixel) / 8);
+      const rows = unfilter(inflated, offset, rowBytes, passHeight, bytesPerPixel);
+      writePixels(rows, rowBytes, passWidth, passHeight, xStart, yStart, xStep, yStep);
+      offset += (rowBytes + 1) * passHeight;
+    }
+  }
+
+  return { width, height, rgba };
+};
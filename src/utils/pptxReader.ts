@@ -0,0 +1,1328 @@
+/**
+ * PPTX (Office Open XML) reader
+ * Reads the slides of a presentation with their backgrounds, shapes, text,
+ * pictures and tables into a Presentation. What a slide inherits is
+ * resolved here: placeholder positions and text styles from its layout and
+ * master, shapes shown from the master, and colours and fonts from the theme.
+ */
+
+import {
+  PathCommand,
+  Presentation,
+  ShapeGeometry,
+  ShapePath,
+  Slide,
+  SlideColor,
+  SlideElement,
+  SlideFill,
+  SlideImage,
+  SlideOutline,
+  SlideParagraph,
+  SlideTableCell,
+  SlideTextBody,
+  SlideTextRun,
+  SlideTransform,
+  TextSpacing,
+} from '../types/presentationModel';
+import { findRelationship, readRelationships, readXmlPart, Relationship } from './opcPackage';
+import { openZip, ZipArchive } from './zipReader';
+import { childElement, childElements, findElement, getAttribute, getTextContent, localName, XmlElement } from './xmlUtils';
+
+const EMU_PER_POINT = 12700;
+const DEFAULT_FONT_SIZE = 18;
+// 10" x 7.5", the slide size of older presentations
+const DEFAULT_SLIDE_SIZE = { width: 720, height: 540 };
+// Text inset from the shape edges when unset: 0.1" at the sides, 0.05" above and below
+const DEFAULT_INSETS = { left: 7.2, top: 3.6, right: 7.2, bottom: 3.6 };
+
+// The Office theme, for packages without one
+const DEFAULT_THEME_COLORS: Record<string, string> = {
+  dk1: '000000',
+  lt1: 'FFFFFF',
+  dk2: '44546A',
+  lt2: 'E7E6E6',
+  accent1: '4472C4',
+  accent2: 'ED7D31',
+  accent3: 'A5A5A5',
+  accent4: 'FFC000',
+  accent5: '5B9BD5',
+  accent6: '70AD47',
+  hlink: '0563C1',
+  folHlink: '954F72',
+};
+const DEFAULT_COLOR_MAP: Record<string, string> = { bg1: 'lt1', tx1: 'dk1', bg2: 'lt2', tx2: 'dk2' };
+
+const PRESET_COLORS: Record<string, string> = {
+  black: '000000',
+  white: 'FFFFFF',
+  red: 'FF0000',
+  green: '008000',
+  blue: '0000FF',
+  yellow: 'FFFF00',
+  orange: 'FFA500',
+  purple: '800080',
+  gray: '808080',
+  grey: '808080',
+  silver: 'C0C0C0',
+  navy: '000080',
+  darkBlue: '00008B',
+  darkRed: '8B0000',
+  darkGreen: '006400',
+  cyan: '00FFFF',
+  magenta: 'FF00FF',
+};
+
+const IMAGE_TYPES: Record<string, string> = {
+  png: 'image/png',
+  jpg: 'image/jpeg',
+  jpeg: 'image/jpeg',
+  jpe: 'image/jpeg',
+  gif: 'image/gif',
+  bmp: 'image/bmp',
+  webp: 'image/webp',
+  tif: 'image/tiff',
+  tiff: 'image/tiff',
+  svg: 'image/svg+xml',
+  emf: 'image/emf',
+  wmf: 'image/wmf',
+};
+
+// Dash patterns in multiples of the line width
+const DASH_PATTERNS: Record<string, number[]> = {
+  dot: [1, 3],
+  dash: [4, 3],
+  lgDash: [8, 3],
+  dashDot: [4, 3, 1, 3],
+  lgDashDot: [8, 3, 1, 3],
+  lgDashDotDot: [8, 3, 1, 3, 1, 3],
+  sysDot: [1, 1],
+  sysDash: [3, 1],
+  sysDashDot: [3, 1, 1, 1],
+  sysDashDotDot: [3, 1, 1, 1, 1, 1],
+};
+
+const ALIGNMENTS: Record<string, SlideParagraph['alignment']> = {
+  l: 'left',
+  ctr: 'center',
+  r: 'right',
+  just: 'justify',
+  justLow: 'justify',
+  dist: 'justify',
+  thaiDist: 'justify',
+};
+
+// Symbol fonts draw bullets from letters; the characters they stand for
+const SYMBOL_BULLETS: Record<string, string> = {
+  '§': '■',
+  'ü': '✓',
+  'Ø': '➢',
+  'q': '❑',
+  'n': '■',
+  'l': '●',
+  'v': '❖',
+  'o': '○',
+  '·': '•',
+};
+
+const COLOR_ELEMENTS = new Set(['srgbClr', 'schemeClr', 'sysClr', 'prstClr', 'scrgbClr', 'hslClr']);
+const FILL_ELEMENTS = new Set(['noFill', 'solidFill', 'gradFill', 'blipFill', 'pattFill', 'grpFill']);
+
+interface Theme {
+  colors: Record<string, string>;
+  majorFont: string;
+  minorFont: string;
+  // Fill and line styles that style references (p:style) point into
+  fillStyles: XmlElement[];
+  lineStyles: XmlElement[];
+  backgroundFillStyles: XmlElement[];
+}
+
+// A part whose shapes are being read: relationships resolve its pictures
+interface PartContext {
+  zip: ZipArchive;
+  part: string;
+  relationships: Map<string, Relationship>;
+  theme: Theme;
+  colorMap: Record<string, string>;
+  // Pictures by part name, shared so each is decoded once
+  images: Map<string, SlideImage>;
+}
+
+interface Placeholder {
+  type: string;
+  index?: string;
+  element: XmlElement;
+}
+
+interface MasterPart {
+  xml: XmlElement;
+  relationships: Map<string, Relationship>;
+  theme: Theme;
+  colorMap: Record<string, string>;
+  placeholders: Placeholder[];
+  textStyles: XmlElement | null;
+}
+
+interface LayoutPart {
+  path: string;
+  xml: XmlElement;
+  relationships: Map<string, Relationship>;
+  placeholders: Placeholder[];
+  master: MasterPart & { path: string };
+}
+
+// What the shapes of one slide are read against
+interface SlideLayers {
+  layout: LayoutPart;
+  defaultTextStyle: XmlElement | null;
+  tableStyles: Map<string, XmlElement>;
+  slideNumber: number;
+}
+
+interface RunStyle {
+  size?: number;
+  bold?: boolean;
+  italic?: boolean;
+  underline?: boolean;
+  strike?: boolean;
+  color?: SlideColor;
+  font?: string;
+  baseline?: number;
+}
+
+type BulletStyle = { type: 'none' } | { type: 'char'; char: string } | { type: 'number'; scheme: string; startAt: number };
+
+interface ParagraphStyle {
+  alignment?: SlideParagraph['alignment'];
+  marginLeft?: number;
+  indent?: number;
+  spaceBefore?: TextSpacing;
+  spaceAfter?: TextSpacing;
+  lineSpacing?: TextSpacing;
+  bullet?: BulletStyle;
+  bulletColor?: SlideColor;
+  bulletSize?: TextSpacing;
+  bulletFont?: string;
+  run: RunStyle;
+}
+
+// A list style (levels of paragraph properties) or properties applying at every level
+type TextStyleSource = XmlElement | ParagraphStyle | null;
+
+// Maps a transform in a group's child coordinates onto the slide
+type TransformMap = (transform: SlideTransform) => SlideTransform;
+
+const emu = (value: string | null, fallback = 0): number => {
+  const number = Number(value);
+  return value === null || value === '' || Number.isNaN(number) ? fallback : number / EMU_PER_POINT;
+};
+
+const readFlag = (value: string | null): boolean | undefined =>
+  value === null ? undefined : value === '1' || value === 'true' || value === 'on';
+
+// Copy of `base` with the values `overrides` defines
+const merge = <T extends object>(base: T, overrides: Partial<T>): T => {
+  const result = { ...base };
+  for (const [key, value] of Object.entries(overrides)) {
+    if (value !== undefined) (result as Record<string, unknown>)[key] = value;
+  }
+  return result;
+};
+
+const mergeParagraphStyle = (base: ParagraphStyle, overrides: ParagraphStyle): ParagraphStyle => ({
+  ...merge(base, overrides),
+  run: merge(base.run, overrides.run),
+});
+
+// Non-visual properties (p:nvSpPr, p:nvPicPr, ...) hold the placeholder reference
+const getPlaceholder = (element: XmlElement): { type: string; index?: string } | null => {
+  const properties = childElements(element).find(child => localName(child.name).startsWith('nv'));
+  const placeholder = childElement(childElement(properties, 'nvPr'), 'ph');
+  if (!placeholder) return null;
+  return { type: getAttribute(placeholder, 'type') ?? 'obj', index: getAttribute(placeholder, 'idx') ?? undefined };
+};
+
+// Masters only have title, body, date, footer and slide number placeholders
+const getMasterType = (type: string): string => {
+  if (type === 'ctrTitle') return 'title';
+  return ['title', 'dt', 'ftr', 'sldNum', 'hdr'].includes(type) ? type : 'body';
+};
+
+const findPlaceholder = (candidates: Placeholder[], reference: { type: string; index?: string }): XmlElement | null => {
+  const byIndex = reference.index !== undefined ? candidates.find(candidate => candidate.index === reference.index) : undefined;
+  const byType = candidates.find(candidate => candidate.type === reference.type)
+    ?? candidates.find(candidate => getMasterType(candidate.type) === getMasterType(reference.type));
+  return (byIndex ?? byType)?.element ?? null;
+};
+
+const readPlaceholders = (partXml: XmlElement): Placeholder[] =>
+  childElements(childElement(childElement(partXml, 'cSld'), 'spTree')).flatMap(element => {
+    const placeholder = getPlaceholder(element);
+    return placeholder ? [{ ...placeholder, element }] : [];
+  });
+
+const readTheme = (themeXml: XmlElement | null): Theme => {
+  const elements = childElement(themeXml, 'themeElements');
+  const colors = { ...DEFAULT_THEME_COLORS };
+  for (const entry of childElements(childElement(elements, 'clrScheme'))) {
+    const color = childElements(entry)[0];
+    const value = color && localName(color.name) === 'sysClr' ? getAttribute(color, 'lastClr') : getAttribute(color, 'val');
+    if (value && /^[0-9A-Fa-f]{6}$/.test(value)) colors[localName(entry.name)] = value.toUpperCase();
+  }
+  const fonts = childElement(elements, 'fontScheme');
+  const formats = childElement(elements, 'fmtScheme');
+  return {
+    colors,
+    majorFont: getAttribute(childElement(childElement(fonts, 'majorFont'), 'latin'), 'typeface') || 'Calibri Light',
+    minorFont: getAttribute(childElement(childElement(fonts, 'minorFont'), 'latin'), 'typeface') || 'Calibri',
+    fillStyles: childElements(childElement(formats, 'fillStyleLst')),
+    lineStyles: childElements(childElement(formats, 'lnStyleLst')),
+    backgroundFillStyles: childElements(childElement(formats, 'bgFillStyleLst')),
+  };
+};
+
+const readColorMap = (element: XmlElement | null, base: Record<string, string>): Record<string, string> => {
+  if (!element) return base;
+  const colorMap = { ...base };
+  for (const [name, value] of Object.entries(element.attributes)) colorMap[localName(name)] = value;
+  return colorMap;
+};
+
+// Layouts and slides follow the master's colour map unless they override it
+const overrideColorMap = (partXml: XmlElement, base: Record<string, string>): Record<string, string> =>
+  readColorMap(childElement(childElement(partXml, 'clrMapOvr'), 'overrideClrMapping'), base);
+
+const rgbToHsl = (r: number, g: number, b: number): [number, number, number] => {
+  const [red, green, blue] = [r / 255, g / 255, b / 255];
+  const max = Math.max(red, green, blue);
+  const min = Math.min(red, green, blue);
+  const lightness = (max + min) / 2;
+  if (max === min) return [0, 0, lightness];
+  const delta = max - min;
+  const saturation = lightness > 0.5 ? delta / (2 - max - min) : delta / (max + min);
+  let hue = max === red ? (green - blue) / delta + (green < blue ? 6 : 0) : max === green ? (blue - red) / delta + 2 : (red - green) / delta + 4;
+  hue /= 6;
+  return [hue, saturation, lightness];
+};
+
+const hslToRgb = (hue: number, saturation: number, lightness: number): [number, number, number] => {
+  if (saturation === 0) return [lightness * 255, lightness * 255, lightness * 255];
+  const q = lightness < 0.5 ? lightness * (1 + saturation) : lightness + saturation - lightness * saturation;
+  const p = 2 * lightness - q;
+  const channel = (t: number) => {
+    const h = t < 0 ? t + 1 : t > 1 ? t - 1 : t;
+    if (h < 1 / 6) return p + (q - p) * 6 * h;
+    if (h < 1 / 2) return q;
+    if (h < 2 / 3) return p + (q - p) * (2 / 3 - h) * 6;
+    return p;
+  };
+  return [channel(hue + 1 / 3) * 255, channel(hue) * 255, channel(hue - 1 / 3) * 255];
+};
+
+const toHex = (channels: number[]): string =>
+  channels.map(channel => Math.round(Math.min(255, Math.max(0, channel))).toString(16).padStart(2, '0')).join('').toUpperCase();
+
+/**
+ * Apply colour transforms (tints, shades, luminance changes, transparency)
+ * in document order
+ */
+const transformColor = (hex: string, color: XmlElement, baseAlpha: number): SlideColor => {
+  let rgb = [0, 2, 4].map(offset => parseInt(hex.slice(offset, offset + 2), 16));
+  let alpha = baseAlpha;
+  for (const modifier of childElements(color)) {
+    const value = Number(getAttribute(modifier, 'val')) / 100000;
+    if (Number.isNaN(value)) continue;
+    const name = localName(modifier.name);
+    if (name === 'alpha') alpha = value;
+    else if (name === 'alphaMod') alpha *= value;
+    else if (name === 'tint') rgb = rgb.map(channel => channel * value + 255 * (1 - value));
+    else if (name === 'shade') rgb = rgb.map(channel => channel * value);
+    else if (name === 'lumMod' || name === 'lumOff' || name === 'satMod') {
+      const [hue, saturation, lightness] = rgbToHsl(rgb[0], rgb[1], rgb[2]);
+      if (name === 'lumMod') rgb = hslToRgb(hue, saturation, Math.min(1, lightness * value));
+      else if (name === 'lumOff') rgb = hslToRgb(hue, saturation, Math.min(1, Math.max(0, lightness + value)));
+      else rgb = hslToRgb(hue, Math.min(1, saturation * value), lightness);
+    }
+  }
+  return alpha < 1 ? { hex: toHex(rgb), alpha: Math.max(0, alpha) } : { hex: toHex(rgb) };
+};
+
+/**
+ * Colour held by an element (solidFill, buClr, a style reference, ...);
+ * phClr stands for the colour a style reference passes in
+ */
+const readColor = (container: XmlElement | null, context: PartContext, placeholderColor?: SlideColor): SlideColor | undefined => {
+  const color = childElements(container).find(child => COLOR_ELEMENTS.has(localName(child.name)));
+  if (!color) return undefined;
+
+  let hex: string | null | undefined;
+  let alpha = 1;
+  switch (localName(color.name)) {
+    case 'srgbClr':
+      hex = getAttribute(color, 'val');
+      break;
+    case 'sysClr':
+      hex = getAttribute(color, 'lastClr') ?? (getAttribute(color, 'val') === 'window' ? 'FFFFFF' : '000000');
+      break;
+    case 'prstClr':
+      hex = PRESET_COLORS[getAttribute(color, 'val') ?? ''] ?? '000000';
+      break;
+    case 'scrgbClr':
+      // Linear RGB percentages
+      hex = toHex(['r', 'g', 'b'].map(channel => Math.pow(Math.max(0, Number(getAttribute(color, channel)) / 100000), 1 / 2.2) * 255));
+      break;
+    case 'hslClr':
+      hex = toHex(hslToRgb(
+        Number(getAttribute(color, 'hue')) / 21600000,
+        Number(getAttribute(color, 'sat')) / 100000,
+        Number(getAttribute(color, 'lum')) / 100000
+      ));
+      break;
+    case 'schemeClr': {
+      const name = getAttribute(color, 'val') ?? '';
+      if (name === 'phClr') {
+        if (!placeholderColor) return undefined;
+        hex = placeholderColor.hex;
+        alpha = placeholderColor.alpha ?? 1;
+      } else {
+        hex = context.theme.colors[context.colorMap[name] ?? name];
+      }
+      break;
+    }
+  }
+  if (!hex || !/^[0-9A-Fa-f]{6}$/.test(hex)) return undefined;
+  return transformColor(hex.toUpperCase(), color, alpha);
+};
+
+const readImage = (blipFill: XmlElement | null, context: PartContext): SlideImage | undefined => {
+  const id = getAttribute(childElement(blipFill, 'blip'), 'embed');
+  const relationship = id ? context.relationships.get(id) : undefined;
+  if (!relationship || relationship.external) return undefined;
+
+  const cached = context.images.get(relationship.target);
+  if (cached) return cached;
+  const data = context.zip.read(relationship.target);
+  if (!data) return undefined;
+  const extension = relationship.target.split('.').pop()?.toLowerCase() ?? '';
+  const image = { data, contentType: IMAGE_TYPES[extension] ?? 'application/octet-stream' };
+  context.images.set(relationship.target, image);
+  return image;
+};
+
+/**
+ * A fill element; null for noFill, undefined when it cannot be used
+ */
+const readFillElement = (
+  element: XmlElement | undefined,
+  context: PartContext,
+  placeholderColor?: SlideColor,
+  groupFill?: SlideFill | null
+): SlideFill | null | undefined => {
+  if (!element) return undefined;
+  switch (localName(element.name)) {
+    case 'noFill':
+      return null;
+    case 'solidFill': {
+      const color = readColor(element, context, placeholderColor);
+      return color ? { type: 'solid', color } : undefined;
+    }
+    case 'gradFill': {
+      const stops = childElements(childElement(element, 'gsLst'), 'gs').flatMap(stop => {
+        const color = readColor(stop, context, placeholderColor);
+        return color ? [{ position: Number(getAttribute(stop, 'pos') ?? 0) / 100000, color }] : [];
+      }).sort((a, b) => a.position - b.position);
+      if (stops.length === 0) return undefined;
+      const angle = Number(getAttribute(childElement(element, 'lin'), 'ang') ?? 0) / 60000;
+      return childElement(element, 'path') ? { type: 'gradient', stops, angle, radial: true } : { type: 'gradient', stops, angle };
+    }
+    case 'blipFill': {
+      const image = readImage(element, context);
+      return image ? { type: 'image', image } : undefined;
+    }
+    case 'pattFill': {
+      // Patterns are drawn in their foreground colour
+      const color = readColor(childElement(element, 'fgClr'), context, placeholderColor);
+      return color ? { type: 'solid', color } : undefined;
+    }
+    case 'grpFill':
+      return groupFill;
+    default:
+      return undefined;
+  }
+};
+
+// Fill among an element's children: null for an explicit noFill, undefined when none is given
+const readFill = (
+  container: XmlElement | null,
+  context: PartContext,
+  placeholderColor?: SlideColor,
+  groupFill?: SlideFill | null
+): SlideFill | null | undefined =>
+  readFillElement(childElements(container).find(child => FILL_ELEMENTS.has(localName(child.name))), context, placeholderColor, groupFill);
+
+/**
+ * Line properties (a:ln) over the outline they refine
+ */
+const readOutline = (
+  line: XmlElement | null,
+  context: PartContext,
+  inherited?: SlideOutline | null,
+  placeholderColor?: SlideColor
+): SlideOutline | null | undefined => {
+  if (!line) return inherited;
+  const fill = readFill(line, context, placeholderColor);
+  if (fill === null) return null;
+  const color = fill?.type === 'solid' ? fill.color : fill?.type === 'gradient' ? fill.stops[0].color : inherited?.color;
+  if (!color) return inherited;
+
+  const outline: SlideOutline = { color, width: emu(getAttribute(line, 'w'), inherited?.width ?? 0.75) };
+  const dash = DASH_PATTERNS[getAttribute(childElement(line, 'prstDash'), 'val') ?? ''] ?? inherited?.dash;
+  if (dash) outline.dash = dash;
+  const hasArrow = (end: XmlElement | null) => (end ? getAttribute(end, 'type') !== 'none' && getAttribute(end, 'type') !== null : undefined);
+  const arrowStart = hasArrow(childElement(line, 'headEnd')) ?? inherited?.arrowStart;
+  const arrowEnd = hasArrow(childElement(line, 'tailEnd')) ?? inherited?.arrowEnd;
+  if (arrowStart) outline.arrowStart = true;
+  if (arrowEnd) outline.arrowEnd = true;
+  return outline;
+};
+
+// Theme fill a style reference (fillRef, bgRef) points to, in the reference's colour
+const readStyleFill = (reference: XmlElement | null, context: PartContext): SlideFill | null | undefined => {
+  if (!reference) return undefined;
+  const index = Number(getAttribute(reference, 'idx'));
+  if (!index) return null;
+  const style = index >= 1001 ? context.theme.backgroundFillStyles[index - 1001] : context.theme.fillStyles[index - 1];
+  return readFillElement(style, context, readColor(reference, context));
+};
+
+const readStyleOutline = (reference: XmlElement | null, context: PartContext): SlideOutline | null | undefined => {
+  if (!reference) return undefined;
+  const index = Number(getAttribute(reference, 'idx'));
+  if (!index) return null;
+  return readOutline(context.theme.lineStyles[index - 1] ?? null, context, undefined, readColor(reference, context));
+};
+
+const readTransform = (xfrm: XmlElement | null): SlideTransform | null => {
+  const offset = childElement(xfrm, 'off');
+  const extent = childElement(xfrm, 'ext');
+  if (!offset || !extent) return null;
+  const transform: SlideTransform = {
+    x: emu(getAttribute(offset, 'x')),
+    y: emu(getAttribute(offset, 'y')),
+    width: emu(getAttribute(extent, 'cx')),
+    height: emu(getAttribute(extent, 'cy')),
+  };
+  const rotation = Number(getAttribute(xfrm, 'rot') ?? 0) / 60000;
+  if (rotation) transform.rotation = rotation;
+  if (readFlag(getAttribute(xfrm, 'flipH'))) transform.flipH = true;
+  if (readFlag(getAttribute(xfrm, 'flipV'))) transform.flipV = true;
+  return transform;
+};
+
+/**
+ * Place a group's children: their coordinates are scaled from the child
+ * extent onto the group's frame, then flipped and rotated with the group
+ */
+const groupTransform = (xfrm: XmlElement | null, parent: TransformMap): TransformMap => {
+  const frame = readTransform(xfrm);
+  if (!frame) return parent;
+  const childOffset = childElement(xfrm, 'chOff');
+  const childExtent = childElement(xfrm, 'chExt');
+  const childX = emu(getAttribute(childOffset, 'x'));
+  const childY = emu(getAttribute(childOffset, 'y'));
+  const scaleX = childExtent && emu(getAttribute(childExtent, 'cx')) ? frame.width / emu(getAttribute(childExtent, 'cx')) : 1;
+  const scaleY = childExtent && emu(getAttribute(childExtent, 'cy')) ? frame.height / emu(getAttribute(childExtent, 'cy')) : 1;
+  const centerX = frame.x + frame.width / 2;
+  const centerY = frame.y + frame.height / 2;
+  const angle = ((frame.rotation ?? 0) * Math.PI) / 180;
+
+  return (child) => {
+    let dx = frame.x + (child.x + child.width / 2 - childX) * scaleX - centerX;
+    let dy = frame.y + (child.y + child.height / 2 - childY) * scaleY - centerY;
+    if (frame.flipH) dx = -dx;
+    if (frame.flipV) dy = -dy;
+    const width = child.width * scaleX;
+    const height = child.height * scaleY;
+    // A mirrored group turns its children the other way
+    const mirrored = Boolean(frame.flipH) !== Boolean(frame.flipV);
+    const rotation = ((mirrored ? -(child.rotation ?? 0) : child.rotation ?? 0) + (frame.rotation ?? 0)) % 360;
+    const transform: SlideTransform = {
+      x: centerX + dx * Math.cos(angle) - dy * Math.sin(angle) - width / 2,
+      y: centerY + dx * Math.sin(angle) + dy * Math.cos(angle) - height / 2,
+      width,
+      height,
+    };
+    if (rotation) transform.rotation = rotation;
+    if (Boolean(child.flipH) !== Boolean(frame.flipH)) transform.flipH = true;
+    if (Boolean(child.flipV) !== Boolean(frame.flipV)) transform.flipV = true;
+    return parent(transform);
+  };
+};
+
+const readPathCommand = (element: XmlElement): PathCommand | null => {
+  const points = childElements(element, 'pt').map((point): [number, number] =>
+    [Number(getAttribute(point, 'x')) || 0, Number(getAttribute(point, 'y')) || 0]);
+  switch (localName(element.name)) {
+    case 'moveTo':
+    case 'lnTo':
+      return points[0] ? { type: localName(element.name) === 'moveTo' ? 'move' : 'line', x: points[0][0], y: points[0][1] } : null;
+    case 'cubicBezTo':
+      return points.length === 3 ? { type: 'cubic', points } : null;
+    case 'quadBezTo':
+      return points.length === 2 ? { type: 'quad', points } : null;
+    case 'arcTo':
+      return {
+        type: 'arc',
+        widthRadius: Number(getAttribute(element, 'wR')) || 0,
+        heightRadius: Number(getAttribute(element, 'hR')) || 0,
+        startAngle: (Number(getAttribute(element, 'stAng')) || 0) / 60000,
+        sweepAngle: (Number(getAttribute(element, 'swAng')) || 0) / 60000,
+      };
+    case 'close':
+      return { type: 'close' };
+    default:
+      return null;
+  }
+};
+
+const readPath = (path: XmlElement): ShapePath => {
+  const width = Number(getAttribute(path, 'w'));
+  const height = Number(getAttribute(path, 'h'));
+  let commands = childElements(path).map(readPathCommand).filter((command): command is PathCommand => command !== null);
+  const shapePath: ShapePath = {
+    commands,
+    fill: getAttribute(path, 'fill') !== 'none',
+    stroke: readFlag(getAttribute(path, 'stroke')) !== false,
+  };
+  if (width && height) {
+    shapePath.width = width;
+    shapePath.height = height;
+  } else {
+    // Without a coordinate space the path is in EMUs
+    const scale = (value: number) => value / EMU_PER_POINT;
+    commands = commands.map((command): PathCommand => {
+      if (command.type === 'move' || command.type === 'line') return { ...command, x: scale(command.x), y: scale(command.y) };
+      if (command.type === 'cubic' || command.type === 'quad') return { ...command, points: command.points.map(([x, y]): [number, number] => [scale(x), scale(y)]) };
+      if (command.type === 'arc') return { ...command, widthRadius: scale(command.widthRadius), heightRadius: scale(command.heightRadius) };
+      return command;
+    });
+    shapePath.commands = commands;
+  }
+  return shapePath;
+};
+
+const readGeometry = (shapeProperties: XmlElement | null): ShapeGeometry | undefined => {
+  const preset = childElement(shapeProperties, 'prstGeom');
+  if (preset) {
+    const adjustments: Record<string, number> = {};
+    for (const guide of childElements(childElement(preset, 'avLst'), 'gd')) {
+      const value = /^val\s+(-?\d+)$/.exec(getAttribute(guide, 'fmla') ?? '');
+      if (value) adjustments[getAttribute(guide, 'name') ?? ''] = Number(value[1]);
+    }
+    return { preset: getAttribute(preset, 'prst') ?? 'rect', adjustments };
+  }
+  const custom = childElement(shapeProperties, 'custGeom');
+  if (custom) return { paths: childElements(childElement(custom, 'pathLst'), 'path').map(readPath) };
+  return undefined;
+};
+
+const readSpacing = (element: XmlElement | null): TextSpacing | undefined => {
+  const percent = getAttribute(childElement(element, 'spcPct'), 'val');
+  if (percent !== null) return { percent: Number(percent) / 100000 };
+  const points = getAttribute(childElement(element, 'spcPts'), 'val');
+  return points !== null ? { points: Number(points) / 100 } : undefined;
+};
+
+const resolveFont = (typeface: string | null, context: PartContext): string | undefined => {
+  if (!typeface) return undefined;
+  if (typeface.startsWith('+mj')) return context.theme.majorFont;
+  if (typeface.startsWith('+mn')) return context.theme.minorFont;
+  return typeface;
+};
+
+const readRunStyle = (properties: XmlElement | null, context: PartContext): RunStyle => {
+  if (!properties) return {};
+  const size = getAttribute(properties, 'sz');
+  const underline = getAttribute(properties, 'u');
+  const strike = getAttribute(properties, 'strike');
+  const baseline = getAttribute(properties, 'baseline');
+  const fill = readFill(properties, context);
+  return {
+    size: size !== null ? Number(size) / 100 : undefined,
+    bold: readFlag(getAttribute(properties, 'b')),
+    italic: readFlag(getAttribute(properties, 'i')),
+    underline: underline !== null ? underline !== 'none' : undefined,
+    strike: strike !== null ? strike !== 'noStrike' : undefined,
+    baseline: baseline !== null ? Number(baseline) / 100000 : undefined,
+    color: fill?.type === 'solid' ? fill.color : fill?.type === 'gradient' ? fill.stops[0].color : undefined,
+    font: resolveFont(getAttribute(childElement(properties, 'latin'), 'typeface'), context),
+  };
+};
+
+const readParagraphStyle = (properties: XmlElement | null, context: PartContext): ParagraphStyle => {
+  if (!properties) return { run: {} };
+  const marginLeft = getAttribute(properties, 'marL');
+  const indent = getAttribute(properties, 'indent');
+  const style: ParagraphStyle = {
+    alignment: ALIGNMENTS[getAttribute(properties, 'algn') ?? ''],
+    marginLeft: marginLeft !== null ? emu(marginLeft) : undefined,
+    indent: indent !== null ? emu(indent) : undefined,
+    spaceBefore: readSpacing(childElement(properties, 'spcBef')),
+    spaceAfter: readSpacing(childElement(properties, 'spcAft')),
+    lineSpacing: readSpacing(childElement(properties, 'lnSpc')),
+    bulletColor: readColor(childElement(properties, 'buClr'), context),
+    bulletFont: getAttribute(childElement(properties, 'buFont'), 'typeface') ?? undefined,
+    run: readRunStyle(childElement(properties, 'defRPr'), context),
+  };
+
+  const bulletSize = getAttribute(childElement(properties, 'buSzPct'), 'val');
+  const bulletPoints = getAttribute(childElement(properties, 'buSzPts'), 'val');
+  if (bulletSize !== null) style.bulletSize = { percent: Number(bulletSize) / 100000 };
+  else if (bulletPoints !== null) style.bulletSize = { points: Number(bulletPoints) / 100 };
+
+  const character = childElement(properties, 'buChar');
+  const autoNumber = childElement(properties, 'buAutoNum');
+  if (childElement(properties, 'buNone')) style.bullet = { type: 'none' };
+  else if (character) style.bullet = { type: 'char', char: getAttribute(character, 'char') ?? '•' };
+  else if (autoNumber) {
+    style.bullet = {
+      type: 'number',
+      scheme: getAttribute(autoNumber, 'type') ?? 'arabicPeriod',
+      startAt: Number(getAttribute(autoNumber, 'startAt') ?? 1),
+    };
+  }
+  return style;
+};
+
+/**
+ * Paragraph style at a level, from the least to the most specific source
+ */
+const resolveParagraphStyle = (sources: TextStyleSource[], level: number, context: PartContext): ParagraphStyle =>
+  sources.reduce<ParagraphStyle>((style, source) => {
+    if (!source) return style;
+    if (!('name' in source)) return mergeParagraphStyle(style, source);
+    const defaults = readParagraphStyle(childElement(source, 'defPPr'), context);
+    const levelStyle = readParagraphStyle(childElement(source, `lvl${level + 1}pPr`), context);
+    return mergeParagraphStyle(mergeParagraphStyle(style, defaults), levelStyle);
+  }, { run: {} });
+
+const toRoman = (value: number): string => {
+  const numerals: Array<[number, string]> = [
+    [1000, 'm'], [900, 'cm'], [500, 'd'], [400, 'cd'], [100, 'c'], [90, 'xc'],
+    [50, 'l'], [40, 'xl'], [10, 'x'], [9, 'ix'], [5, 'v'], [4, 'iv'], [1, 'i'],
+  ];
+  let remaining = value;
+  let result = '';
+  for (const [amount, numeral] of numerals) {
+    while (remaining >= amount) {
+      result += numeral;
+      remaining -= amount;
+    }
+  }
+  return result;
+};
+
+const toLetters = (value: number): string => {
+  let result = '';
+  for (let remaining = value; remaining > 0; remaining = Math.floor((remaining - 1) / 26)) {
+    result = String.fromCharCode(97 + ((remaining - 1) % 26)) + result;
+  }
+  return result;
+};
+
+/**
+ * Text of an automatic number, e.g. "3." for arabicPeriod or "(c)" for alphaLcParenBoth
+ */
+const formatAutoNumber = (scheme: string, value: number): string => {
+  const match = /^(arabic|alphaLc|alphaUc|romanLc|romanUc)(Period|ParenR|ParenBoth|Plain|Minus)?/.exec(scheme);
+  const [, kind = 'arabic', punctuation = 'Period'] = match ?? [];
+  let text = String(value);
+  if (kind === 'alphaLc' || kind === 'alphaUc') text = toLetters(value);
+  if (kind === 'romanLc' || kind === 'romanUc') text = toRoman(value);
+  if (kind.endsWith('Uc')) text = text.toUpperCase();
+  if (punctuation === 'ParenR') return `${text})`;
+  if (punctuation === 'ParenBoth') return `(${text})`;
+  if (punctuation === 'Plain') return text;
+  if (punctuation === 'Minus') return `- ${text} -`;
+  return `${text}.`;
+};
+
+const toTextRun = (text: string, style: RunStyle, context: PartContext): SlideTextRun => {
+  const run: SlideTextRun = {
+    text,
+    fontSize: style.size ?? DEFAULT_FONT_SIZE,
+    fontFamily: style.font ?? context.theme.minorFont,
+    color: style.color ?? { hex: context.theme.colors[context.colorMap.tx1 ?? 'dk1'] ?? '000000' },
+  };
+  if (style.bold) run.bold = true;
+  if (style.italic) run.italic = true;
+  if (style.underline) run.underline = true;
+  if (style.strike) run.strike = true;
+  if (style.baseline) run.baseline = style.baseline;
+  return run;
+};
+
+const bodyAttribute = (bodies: Array<XmlElement | null>, name: string): string | null =>
+  bodies.reduceRight<string | null>((found, body) => found ?? getAttribute(body, name), null);
+
+/**
+ * Paragraphs of a text body with their styles resolved; body properties
+ * (anchoring, insets, autofit) come from the most specific of `bodies`
+ */
+const readTextBody = (
+  textBody: XmlElement | null,
+  sources: TextStyleSource[],
+  bodies: Array<XmlElement | null>,
+  context: PartContext,
+  slideNumber: number
+): SlideTextBody | undefined => {
+  if (!textBody) return undefined;
+  const properties = childElement(textBody, 'bodyPr');
+  const allBodies = [...bodies, properties];
+  const styleSources = [...sources, childElement(textBody, 'lstStyle')];
+
+  // Text PowerPoint shrank to fit is drawn at the size it chose
+  const autofit = allBodies.reduceRight<XmlElement | null>((found, body) =>
+    found ?? childElements(body).find(child => ['normAutofit', 'noAutofit', 'spAutoFit'].includes(localName(child.name))) ?? null, null);
+  const fontScale = Number(getAttribute(autofit, 'fontScale') ?? 100000) / 100000;
+  const spacingReduction = Number(getAttribute(autofit, 'lnSpcReduction') ?? 0) / 100000;
+
+  const paragraphs: SlideParagraph[] = [];
+  const counters = new Map<number, { scheme: string; next: number }>();
+  let hasText = false;
+
+  for (const paragraph of childElements(textBody, 'p')) {
+    const paragraphProperties = childElement(paragraph, 'pPr');
+    const level = Math.min(8, Math.max(0, Number(getAttribute(paragraphProperties, 'lvl') ?? 0)));
+    const style = mergeParagraphStyle(resolveParagraphStyle(styleSources, level, context), readParagraphStyle(paragraphProperties, context));
+
+    const runs: SlideTextRun[] = [];
+    for (const child of childElements(paragraph)) {
+      const name = localName(child.name);
+      const runStyle = merge(style.run, readRunStyle(childElement(child, 'rPr'), context));
+      runStyle.size = (runStyle.size ?? DEFAULT_FONT_SIZE) * fontScale;
+      if (name === 'r') {
+        runs.push(toTextRun(getTextContent(childElement(child, 't')), runStyle, context));
+      } else if (name === 'br') {
+        runs.push(toTextRun('\n', runStyle, context));
+      } else if (name === 'fld') {
+        const text = getAttribute(child, 'type') === 'slidenum' ? String(slideNumber) : getTextContent(childElement(child, 't'));
+        runs.push(toTextRun(text, runStyle, context));
+      }
+    }
+    const endStyle = merge(style.run, readRunStyle(childElement(paragraph, 'endParaRPr'), context));
+    const empty = runs.every(run => !run.text.trim());
+    if (!empty) hasText = true;
+
+    const spacing = style.lineSpacing && 'percent' in style.lineSpacing
+      ? { percent: style.lineSpacing.percent * (1 - spacingReduction) }
+      : style.lineSpacing ?? (spacingReduction ? { percent: 1 - spacingReduction } : undefined);
+    const result: SlideParagraph = {
+      runs,
+      alignment: style.alignment ?? 'left',
+      marginLeft: style.marginLeft ?? 0,
+      indent: style.indent ?? 0,
+      fontSize: endStyle.size ? endStyle.size * fontScale : runs[0]?.fontSize ?? DEFAULT_FONT_SIZE * fontScale,
+    };
+    if (style.spaceBefore) result.spaceBefore = style.spaceBefore;
+    if (style.spaceAfter) result.spaceAfter = style.spaceAfter;
+    if (spacing) result.lineSpacing = spacing;
+
+    // Numbering continues over paragraphs of the same level; a shallower paragraph restarts deeper lists
+    for (const counterLevel of [...counters.keys()]) {
+      if (counterLevel > level) counters.delete(counterLevel);
+    }
+    const bullet = style.bullet;
+    if (!bullet || bullet.type !== 'number') counters.delete(level);
+    if (bullet && bullet.type !== 'none' && !empty) {
+      let text: string;
+      if (bullet.type === 'number') {
+        const counter = counters.get(level);
+        const value = counter && counter.scheme === bullet.scheme ? counter.next : bullet.startAt;
+        counters.set(level, { scheme: bullet.scheme, next: value + 1 });
+        text = formatAutoNumber(bullet.scheme, value);
+      } else {
+        text = /wingdings|symbol/i.test(style.bulletFont ?? '') ? SYMBOL_BULLETS[bullet.char] ?? '•' : bullet.char;
+      }
+      const textSize = runs[0]?.fontSize ?? result.fontSize;
+      const size = style.bulletSize && 'points' in style.bulletSize ? style.bulletSize.points : textSize * (style.bulletSize?.percent ?? 1);
+      const font = style.bulletFont && !/wingdings|symbol/i.test(style.bulletFont) ? resolveFont(style.bulletFont, context) : undefined;
+      result.bullet = {
+        text,
+        fontSize: size,
+        fontFamily: font ?? runs[0]?.fontFamily ?? context.theme.minorFont,
+        color: style.bulletColor ?? runs[0]?.color ?? toTextRun('', endStyle, context).color,
+      };
+    }
+    paragraphs.push(result);
+  }
+  if (!hasText) return undefined;
+
+  const inset = (name: string, fallback: number) => emu(bodyAttribute(allBodies, name), fallback);
+  const anchor = bodyAttribute(allBodies, 'anchor');
+  const vertical = bodyAttribute(allBodies, 'vert');
+  const body: SlideTextBody = {
+    paragraphs,
+    anchor: anchor === 'ctr' ? 'middle' : anchor === 'b' ? 'bottom' : 'top',
+    insets: {
+      left: inset('lIns', DEFAULT_INSETS.left),
+      top: inset('tIns', DEFAULT_INSETS.top),
+      right: inset('rIns', DEFAULT_INSETS.right),
+      bottom: inset('bIns', DEFAULT_INSETS.bottom),
+    },
+    wrap: bodyAttribute(allBodies, 'wrap') !== 'none',
+  };
+  if (vertical === 'vert' || vertical === 'eaVert' || vertical === 'wordArtVertRtl') body.vertical = 90;
+  else if (vertical === 'vert270') body.vertical = 270;
+  return body;
+};
+
+/**
+ * Text styles a shape's text starts from: the master's title, body or
+ * other style and the lists of the placeholders it inherits from
+ */
+const getTextStyleSources = (
+  placeholder: { type: string } | null,
+  inherited: XmlElement[],
+  layers: SlideLayers,
+  fontReference: ParagraphStyle | null
+): TextStyleSource[] => {
+  const masterStyles = layers.layout.master.textStyles;
+  if (!placeholder) return [layers.defaultTextStyle, childElement(masterStyles, 'otherStyle'), fontReference];
+  const category = getMasterType(placeholder.type);
+  const masterStyle = category === 'title' ? 'titleStyle' : category === 'body' ? 'bodyStyle' : 'otherStyle';
+  return [
+    childElement(masterStyles, masterStyle),
+    fontReference,
+    ...inherited.map(element => childElement(childElement(element, 'txBody'), 'lstStyle')),
+  ];
+};
+
+// Font colour and theme font a style reference (p:style) gives a shape's text
+const readFontReference = (style: XmlElement | null, context: PartContext): ParagraphStyle | null => {
+  const reference = childElement(style, 'fontRef');
+  if (!reference) return null;
+  const index = getAttribute(reference, 'idx');
+  return {
+    run: {
+      color: readColor(reference, context),
+      font: index === 'major' ? context.theme.majorFont : index === 'minor' ? context.theme.minorFont : undefined,
+    },
+  };
+};
+
+/**
+ * Elements a placeholder inherits from, least specific first: the
+ * master's placeholder, then the layout's
+ */
+const getInheritedPlaceholders = (placeholder: { type: string; index?: string } | null, layers: SlideLayers): XmlElement[] => {
+  if (!placeholder) return [];
+  const layout = findPlaceholder(layers.layout.placeholders, placeholder);
+  const master = findPlaceholder(layers.layout.master.placeholders, layout ? getPlaceholder(layout) ?? placeholder : placeholder);
+  return [master, layout].filter((element): element is XmlElement => element !== null);
+};
+
+const findInherited = <T>(elements: XmlElement[], read: (element: XmlElement) => T | null | undefined): T | undefined => {
+  for (let index = elements.length - 1; index >= 0; index--) {
+    const value = read(elements[index]);
+    if (value) return value;
+  }
+  return undefined;
+};
+
+interface TreeState {
+  context: PartContext;
+  layers: SlideLayers;
+  map: TransformMap;
+  groupFill?: SlideFill | null;
+  // Layouts and masters contribute only their shapes that are not placeholders
+  template: boolean;
+}
+
+const readShape = (element: XmlElement, state: TreeState, elements: SlideElement[]) => {
+  const { context, layers } = state;
+  const placeholder = getPlaceholder(element);
+  if (placeholder && state.template) return;
+  const inherited = getInheritedPlaceholders(placeholder, layers);
+  const shapeProperties = childElement(element, 'spPr');
+  const transform = readTransform(childElement(shapeProperties, 'xfrm'))
+    ?? findInherited(inherited, parent => readTransform(childElement(childElement(parent, 'spPr'), 'xfrm')));
+  if (!transform) return;
+
+  const style = childElement(element, 'style');
+  let fill = readFill(shapeProperties, context, undefined, state.groupFill);
+  if (fill === undefined) fill = readStyleFill(childElement(style, 'fillRef'), context);
+  if (fill === undefined) fill = findInherited(inherited, parent => readFill(childElement(parent, 'spPr'), context));
+
+  let outline = readStyleOutline(childElement(style, 'lnRef'), context);
+  for (const source of [...inherited, element]) outline = readOutline(childElement(childElement(source, 'spPr'), 'ln'), context, outline);
+
+  const text = readTextBody(
+    childElement(element, 'txBody'),
+    getTextStyleSources(placeholder, inherited, layers, readFontReference(style, context)),
+    inherited.map(parent => childElement(childElement(parent, 'txBody'), 'bodyPr')),
+    context,
+    layers.slideNumber
+  );
+  if (!fill && !outline && !text) return;
+
+  elements.push({
+    type: 'shape',
+    ...state.map(transform),
+    geometry: readGeometry(shapeProperties) ?? findInherited(inherited, parent => readGeometry(childElement(parent, 'spPr'))) ?? { preset: 'rect', adjustments: {} },
+    fill: fill ?? undefined,
+    outline: outline ?? undefined,
+    text,
+  });
+};
+
+const readPicture = (element: XmlElement, state: TreeState, elements: SlideElement[], frame?: SlideTransform) => {
+  const { context, layers } = state;
+  const placeholder = getPlaceholder(element);
+  if (placeholder && state.template) return;
+  const inherited = getInheritedPlaceholders(placeholder, layers);
+  const shapeProperties = childElement(element, 'spPr');
+  const transform = frame ?? readTransform(childElement(shapeProperties, 'xfrm'))
+    ?? findInherited(inherited, parent => readTransform(childElement(childElement(parent, 'spPr'), 'xfrm')));
+  const blipFill = childElement(element, 'blipFill');
+  const image = readImage(blipFill, context);
+  if (!transform || !image) return;
+
+  let outline = readStyleOutline(childElement(childElement(element, 'style'), 'lnRef'), context);
+  outline = readOutline(childElement(shapeProperties, 'ln'), context, outline);
+  const geometry = readGeometry(shapeProperties);
+  const source = childElement(blipFill, 'srcRect');
+  const cropSide = (name: string) => Number(getAttribute(source, name) ?? 0) / 100000;
+  const crop = { left: cropSide('l'), top: cropSide('t'), right: cropSide('r'), bottom: cropSide('b') };
+
+  elements.push({
+    type: 'picture',
+    ...state.map(transform),
+    image,
+    crop: Object.values(crop).some(Boolean) ? crop : undefined,
+    geometry: geometry && !('preset' in geometry && geometry.preset === 'rect') ? geometry : undefined,
+    outline: outline ?? undefined,
+  });
+};
+
+type TablePart = 'wholeTbl' | 'band1H' | 'band2H' | 'band1V' | 'band2V' | 'lastCol' | 'firstCol' | 'lastRow' | 'firstRow';
+type BorderSide = 'left' | 'top' | 'right' | 'bottom';
+
+/**
+ * A table: cell fills, borders and text styles come from its table style
+ * (whole table, banding, header row and column), then from each cell
+ */
+const readTable = (table: XmlElement, transform: SlideTransform, state: TreeState, elements: SlideElement[]) => {
+  const { context, layers } = state;
+  const properties = childElement(table, 'tblPr');
+  const flag = (name: string) => readFlag(getAttribute(properties, name)) ?? false;
+  const styleId = getTextContent(childElement(properties, 'tableStyleId')).trim();
+  const tableStyle = childElement(properties, 'tableStyle') ?? layers.tableStyles.get(styleId) ?? null;
+
+  const columns = childElements(childElement(table, 'tblGrid'), 'gridCol').map(column => emu(getAttribute(column, 'w')));
+  const rowElements = childElements(table, 'tr');
+  const lastRow = rowElements.length - 1;
+  const lastColumn = columns.length - 1;
+  const bandRowOffset = flag('firstRow') ? 1 : 0;
+  const bandColumnOffset = flag('firstCol') ? 1 : 0;
+
+  // Parts of the table style that apply to a cell, in increasing priority
+  const partsFor = (row: number, column: number): Array<{ part: XmlElement; region: 'table' | 'row' | 'column' }> => {
+    const parts: Array<{ part: XmlElement; region: 'table' | 'row' | 'column' }> = [];
+    const add = (name: TablePart, region: 'table' | 'row' | 'column') => {
+      const part = childElement(tableStyle, name);
+      if (part) parts.push({ part, region });
+    };
+    add('wholeTbl', 'table');
+    const headerRow = (flag('firstRow') && row === 0) || (flag('lastRow') && row === lastRow);
+    const headerColumn = (flag('firstCol') && column === 0) || (flag('lastCol') && column === lastColumn);
+    if (flag('bandRow') && !headerRow) add((row - bandRowOffset) % 2 === 0 ? 'band1H' : 'band2H', 'row');
+    if (flag('bandCol') && !headerColumn) add((column - bandColumnOffset) % 2 === 0 ? 'band1V' : 'band2V', 'column');
+    if (flag('lastCol') && column === lastColumn) add('lastCol', 'column');
+    if (flag('firstCol') && column === 0) add('firstCol', 'column');
+    if (flag('lastRow') && row === lastRow) add('lastRow', 'row');
+    if (flag('firstRow') && row === 0) add('firstRow', 'row');
+    return parts;
+  };
+
+  const rows = rowElements.map((rowElement, rowIndex) => {
+    const cells = childElements(rowElement, 'tc').map((cellElement, columnIndex): SlideTableCell => {
+      const cellProperties = childElement(cellElement, 'tcPr');
+      const cell: SlideTableCell = { borders: {} };
+      let fill: SlideFill | null | undefined;
+      let textStyle: ParagraphStyle = { run: {} };
+
+      for (const { part, region } of partsFor(rowIndex, columnIndex)) {
+        const cellStyle = childElement(part, 'tcStyle');
+        const partFill = readFill(childElement(cellStyle, 'fill'), context) ?? readStyleFill(childElement(cellStyle, 'fillRef'), context);
+        if (partFill !== undefined) fill = partFill;
+
+        const textProperties = childElement(part, 'tcTxStyle');
+        if (textProperties) {
+          textStyle = mergeParagraphStyle(textStyle, {
+            run: {
+              bold: readFlag(getAttribute(textProperties, 'b')),
+              italic: readFlag(getAttribute(textProperties, 'i')),
+              color: readColor(textProperties, context) ?? readColor(childElement(textProperties, 'fontRef'), context),
+            },
+          });
+        }
+
+        // Outer edges of the part's region take its outer borders, the others the inside ones
+        const borders = childElement(cellStyle, 'tcBdr');
+        const outer: Record<BorderSide, boolean> = {
+          left: region === 'column' || columnIndex === 0,
+          right: region === 'column' || columnIndex === lastColumn,
+          top: region === 'row' || rowIndex === 0,
+          bottom: region === 'row' || rowIndex === lastRow,
+        };
+        for (const side of ['left', 'right', 'top', 'bottom'] as const) {
+          const name = outer[side] ? side : side === 'left' || side === 'right' ? 'insideV' : 'insideH';
+          const border = childElement(borders, name);
+          if (!border) continue;
+          const line = readOutline(childElement(border, 'ln'), context) ?? readStyleOutline(childElement(border, 'lnRef'), context);
+          if (line !== undefined) cell.borders[side] = line ?? undefined;
+        }
+      }
+
+      const cellFill = readFill(cellProperties, context);
+      if (cellFill !== undefined) fill = cellFill;
+      if (fill) cell.fill = fill;
+      const sides: Array<[BorderSide, string]> = [['left', 'lnL'], ['right', 'lnR'], ['top', 'lnT'], ['bottom', 'lnB']];
+      for (const [side, name] of sides) {
+        const line = childElement(cellProperties, name);
+        if (line) cell.borders[side] = readOutline(line, context, cell.borders[side]) ?? undefined;
+      }
+
+      const margin = (name: string, fallback: number) => emu(getAttribute(cellProperties, name), fallback);
+      const text = readTextBody(
+        childElement(cellElement, 'txBody'),
+        [layers.defaultTextStyle, childElement(layers.layout.master.textStyles, 'otherStyle'), textStyle],
+        [],
+        context,
+        layers.slideNumber
+      );
+      if (text) {
+        const anchor = getAttribute(cellProperties, 'anchor');
+        cell.text = {
+          ...text,
+          anchor: anchor === 'ctr' ? 'middle' : anchor === 'b' ? 'bottom' : 'top',
+          insets: {
+            left: margin('marL', DEFAULT_INSETS.left),
+            top: margin('marT', DEFAULT_INSETS.top),
+            right: margin('marR', DEFAULT_INSETS.right),
+            bottom: margin('marB', DEFAULT_INSETS.bottom),
+          },
+          wrap: true,
+        };
+      }
+
+      const colSpan = Number(getAttribute(cellElement, 'gridSpan') ?? 1);
+      const rowSpan = Number(getAttribute(cellElement, 'rowSpan') ?? 1);
+      if (colSpan > 1) cell.colSpan = colSpan;
+      if (rowSpan > 1) cell.rowSpan = rowSpan;
+      if (readFlag(getAttribute(cellElement, 'hMerge')) || readFlag(getAttribute(cellElement, 'vMerge'))) cell.merged = true;
+      return cell;
+    });
+    return { height: emu(getAttribute(rowElement, 'h')), cells };
+  });
+
+  elements.push({ type: 'table', ...state.map(transform), columns, rows });
+};
+
+/**
+ * SmartArt: PowerPoint saves the drawn diagram as a shape tree in its own
+ * part, found through the diagram's data part
+ */
+const readDiagram = (relationshipIds: XmlElement, transform: SlideTransform, state: TreeState, elements: SlideElement[]) => {
+  const { context } = state;
+  const data = context.relationships.get(getAttribute(relationshipIds, 'dm') ?? '');
+  const dataXml = data ? readXmlPart(context.zip, data.target) : null;
+  const drawingId = getAttribute(findElement(dataXml, 'dataModelExt'), 'relId');
+  const drawing = drawingId ? context.relationships.get(drawingId) : undefined;
+  const drawingXml = drawing ? readXmlPart(context.zip, drawing.target) : null;
+  const tree = childElement(drawingXml, 'spTree');
+  if (!drawing || !tree) return;
+
+  const drawingContext: PartContext = { ...context, part: drawing.target, relationships: readRelationships(context.zip, drawing.target) };
+  const frame = state.map(transform);
+  const map: TransformMap = child => ({ ...child, x: child.x + frame.x, y: child.y + frame.y });
+  readShapeTree(tree, { ...state, context: drawingContext, map, template: false }, elements);
+};
+
+const readGraphicFrame = (element: XmlElement, state: TreeState, elements: SlideElement[]) => {
+  const placeholder = getPlaceholder(element);
+  if (placeholder && state.template) return;
+  const inherited = getInheritedPlaceholders(placeholder, state.layers);
+  const transform = readTransform(childElement(element, 'xfrm'))
+    ?? findInherited(inherited, parent => readTransform(childElement(childElement(parent, 'spPr'), 'xfrm')));
+  const data = childElement(childElement(element, 'graphic'), 'graphicData');
+  if (!transform || !data) return;
+
+  const table = childElement(data, 'tbl');
+  const diagram = childElement(data, 'relIds');
+  // Embedded objects (OLE) carry a picture of their contents
+  const picture = findElement(data, 'pic');
+  if (table) readTable(table, transform, state, elements);
+  else if (diagram) readDiagram(diagram, transform, state, elements);
+  else if (picture) readPicture(picture, state, elements, transform);
+};
+
+/**
+ * Read the shapes of a shape tree (or group) in drawing order
+ */
+const readShapeTree = (tree: XmlElement, state: TreeState, elements: SlideElement[]) => {
+  for (const element of childElements(tree)) {
+    switch (localName(element.name)) {
+      case 'sp':
+      case 'cxnSp':
+        readShape(element, state, elements);
+        break;
+      case 'pic':
+        readPicture(element, state, elements);
+        break;
+      case 'graphicFrame':
+        readGraphicFrame(element, state, elements);
+        break;
+      case 'grpSp': {
+        const groupProperties = childElement(element, 'grpSpPr');
+        const groupFill = readFill(groupProperties, state.context, undefined, state.groupFill);
+        readShapeTree(element, {
+          ...state,
+          map: groupTransform(childElement(groupProperties, 'xfrm'), state.map),
+          groupFill: groupFill === undefined ? state.groupFill : groupFill,
+        }, elements);
+        break;
+      }
+      case 'AlternateContent': {
+        // Newer content comes with a fallback in plain DrawingML
+        const fallback = childElement(element, 'Fallback') ?? childElement(element, 'Choice');
+        if (fallback) readShapeTree(fallback, state, elements);
+        break;
+      }
+    }
+  }
+};
+
+const readBackground = (partXml: XmlElement, context: PartContext): SlideFill | null | undefined => {
+  const background = childElement(childElement(partXml, 'cSld'), 'bg');
+  if (!background) return undefined;
+  const properties = childElement(background, 'bgPr');
+  return properties ? readFill(properties, context) : readStyleFill(childElement(background, 'bgRef'), context);
+};
+
+const readTableStyles = (zip: ZipArchive, relationships: Map<string, Relationship>): Map<string, XmlElement> => {
+  const part = findRelationship(relationships, '/tableStyles');
+  const styles = new Map<string, XmlElement>();
+  for (const style of childElements(part ? readXmlPart(zip, part.target) : null, 'tblStyle')) {
+    styles.set(getAttribute(style, 'styleId') ?? '', style);
+  }
+  return styles;
+};
+
+/**
+ * Read a .pptx file into the presentation model
+ */
+export const readPptx = (bytes: Uint8Array): Presentation => {
+  const zip = openZip(bytes);
+  const packageRelationships = readRelationships(zip, '');
+  const presentationPath = findRelationship(packageRelationships, '/officeDocument')?.target || 'ppt/presentation.xml';
+  const presentationXml = readXmlPart(zip, presentationPath);
+  if (!presentationXml || localName(presentationXml.name) !== 'presentation') {
+    throw new Error('This file is not a PowerPoint presentation (ppt/presentation.xml is missing)');
+  }
+
+  const relationships = readRelationships(zip, presentationPath);
+  const size = childElement(presentationXml, 'sldSz');
+  const presentation: Presentation = {
+    width: emu(getAttribute(size, 'cx'), DEFAULT_SLIDE_SIZE.width) || DEFAULT_SLIDE_SIZE.width,
+    height: emu(getAttribute(size, 'cy'), DEFAULT_SLIDE_SIZE.height) || DEFAULT_SLIDE_SIZE.height,
+    slides: [],
+  };
+  const defaultTextStyle = childElement(presentationXml, 'defaultTextStyle');
+  const tableStyles = readTableStyles(zip, relationships);
+  const images = new Map<string, SlideImage>();
+
+  const masters = new Map<string, MasterPart & { path: string }>();
+  const loadMaster = (path: string) => {
+    const cached = masters.get(path);
+    if (cached) return cached;
+    const xml = readXmlPart(zip, path);
+    if (!xml) return null;
+    const masterRelationships = readRelationships(zip, path);
+    const themePart = findRelationship(masterRelationships, '/theme');
+    const master = {
+      path,
+      xml,
+      relationships: masterRelationships,
+      theme: readTheme(themePart ? readXmlPart(zip, themePart.target) : null),
+      colorMap: readColorMap(childElement(xml, 'clrMap'), DEFAULT_COLOR_MAP),
+      placeholders: readPlaceholders(xml),
+      textStyles: childElement(xml, 'txStyles'),
+    };
+    masters.set(path, master);
+    return master;
+  };
+
+  const layouts = new Map<string, LayoutPart>();
+  const loadLayout = (path: string) => {
+    const cached = layouts.get(path);
+    if (cached) return cached;
+    const xml = readXmlPart(zip, path);
+    const layoutRelationships = readRelationships(zip, path);
+    const masterPart = findRelationship(layoutRelationships, '/slideMaster');
+    const master = masterPart ? loadMaster(masterPart.target) : null;
+    if (!xml || !master) return null;
+    const layout = { path, xml, relationships: layoutRelationships, placeholders: readPlaceholders(xml), master };
+    layouts.set(path, layout);
+    return layout;
+  };
+
+  for (const entry of childElements(childElement(presentationXml, 'sldIdLst'), 'sldId')) {
+    // The relationship id is the namespaced r:id, next to a plain numeric id
+    const relationshipId = Object.entries(entry.attributes).find(([name]) => name !== 'id' && localName(name) === 'id')?.[1];
+    const relationship = relationships.get(relationshipId ?? '');
+    const slideXml = relationship ? readXmlPart(zip, relationship.target) : null;
+    if (!relationship || !slideXml) continue;
+    const slideRelationships = readRelationships(zip, relationship.target);
+    const layoutPart = findRelationship(slideRelationships, '/slideLayout');
+    const layout = layoutPart ? loadLayout(layoutPart.target) : null;
+    if (!layout) continue;
+
+    const { master } = layout;
+    const colorMap = overrideColorMap(slideXml, overrideColorMap(layout.xml, master.colorMap));
+    const partContext = (part: string, partRelationships: Map<string, Relationship>): PartContext =>
+      ({ zip, part, relationships: partRelationships, theme: master.theme, colorMap, images });
+    const slideContext = partContext(relationship.target, slideRelationships);
+    const layoutContext = partContext(layout.path, layout.relationships);
+    const masterContext = partContext(master.path, master.relationships);
+    const layers: SlideLayers = { layout, defaultTextStyle, tableStyles, slideNumber: presentation.slides.length + 1 };
+
+    const slide: Slide = { elements: [] };
+    const background = readBackground(slideXml, slideContext)
+      ?? readBackground(layout.xml, layoutContext)
+      ?? readBackground(master.xml, masterContext);
+    if (background) slide.background = background;
+
+    // Slides and layouts can hide the shapes of the parts behind them
+    const showLayoutShapes = getAttribute(slideXml, 'showMasterSp') !== '0' && getAttribute(slideXml, 'showMasterSp') !== 'false';
+    const showMasterShapes = showLayoutShapes && getAttribute(layout.xml, 'showMasterSp') !== '0' && getAttribute(layout.xml, 'showMasterSp') !== 'false';
+    const identity: TransformMap = transform => transform;
+    const readTree = (partXml: XmlElement, context: PartContext, template: boolean) => {
+      const tree = childElement(childElement(partXml, 'cSld'), 'spTree');
+      if (tree) readShapeTree(tree, { context, layers, map: identity, template }, slide.elements);
+    };
+    if (showMasterShapes) readTree(master.xml, masterContext, true);
+    if (showLayoutShapes) readTree(layout.xml, layoutContext, true);
+    readTree(slideXml, slideContext, false);
+
+    if (getAttribute(slideXml, 'show') === '0' || getAttribute(slideXml, 'show') === 'false') slide.hidden = true;
+    presentation.slides.push(slide);
+  }
+
+  const corePart = findRelationship(packageRelationships, '/core-properties');
+  const title = getTextContent(childElement(corePart ? readXmlPart(zip, corePart.target) : null, 'title')).trim();
+  if (title) presentation.title = title;
+
+  return presentation;
+};
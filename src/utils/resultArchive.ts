@@ -0,0 +1,72 @@
+/**
+ * Results archive
+ * Bundles converted files into one ZIP for a single download. Clashing
+ * names get a numbered suffix, e.g. "page (2).png".
+ */
+
+import { createZip, ZipEntryInput } from './zipWriter';
+
+export interface ArchiveSource {
+  // Name of the source file; used for its folder
+  name: string;
+  files: Array<{ blob: Blob; fileName: string }>;
+}
+
+export interface ArchiveOptions {
+  // Put the outputs of each source file in a folder of its own
+  folderPerSource: boolean;
+}
+
+// Formats that are compressed already; deflating them again only costs time
+const STORED_EXTENSIONS = new Set(['jpg', 'jpeg', 'png', 'gif', 'webp', 'pdf', 'docx', 'xlsx', 'pptx', 'zip']);
+
+const splitExtension = (name: string): [string, string] => {
+  const dot = name.lastIndexOf('.');
+  return dot > 0 ? [name.slice(0, dot), name.slice(dot)] : [name, ''];
+};
+
+/**
+ * A name not yet in `used` (compared case-insensitively, as most file
+ * systems do), which is then added to it
+ */
+const claimName = (name: string, used: Set<string>): string => {
+  const [base, extension] = splitExtension(name);
+  let candidate = name;
+  for (let count = 2; used.has(candidate.toLowerCase()); count++) candidate = `${base} (${count})${extension}`;
+  used.add(candidate.toLowerCase());
+  return candidate;
+};
+
+// Slashes and other characters that would create folders or fail to extract
+const sanitizeName = (name: string): string => name.replace(/[\\/:*?"<>|]/g, '_').trim() || 'file';
+
+/**
+ * Build a ZIP holding every output file
+ */
+export const createResultsArchive = async (
+  sources: ArchiveSource[],
+  options: ArchiveOptions = { folderPerSource: false }
+): Promise<Blob> => {
+  const entries: ZipEntryInput[] = [];
+  const usedFolders = new Set<string>();
+  const rootNames = new Set<string>();
+
+  for (const source of sources) {
+    const folder = options.folderPerSource
+      ? `${claimName(sanitizeName(splitExtension(source.name)[0]), usedFolders)}/`
+      : '';
+    const names = options.folderPerSource ? new Set<string>() : rootNames;
+
+    for (const file of source.files) {
+      const name = claimName(sanitizeName(file.fileName), names);
+      const extension = splitExtension(name)[1].slice(1).toLowerCase();
+      entries.push({
+        name: folder + name,
+        data: new Uint8Array(await file.blob.arrayBuffer()),
+        compress: !STORED_EXTENSIONS.has(extension),
+      });
+    }
+  }
+
+  return new Blob([createZip(entries)], { type: 'application/zip' });
+};
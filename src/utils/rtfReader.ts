@@ -0,0 +1,529 @@
+/**
+ * RTF reader
+ * Walks the group structure of a Rich Text Format file, resolving its font and
+ * colour tables, into a DocumentModel. Character formatting, paragraph
+ * alignment, spacing and indentation are kept; pictures, headers, footers and
+ * other destinations a converter cannot place are skipped.
+ */
+
+import { DocumentBlock, DocumentModel, DocumentRun, ParagraphStyle, RunStyle } from '../types/documentModel';
+
+interface FontEntry {
+  name: string;
+  // Code page of the font's character set, for \'hh bytes
+  codePage?: number;
+}
+
+type Destination = 'text' | 'fonttbl' | 'colortbl' | 'info' | 'title' | 'fldinst' | 'skip';
+
+interface GroupState {
+  destination: Destination;
+  style: RunStyle;
+  font?: number;
+  paragraph: ParagraphStyle;
+  headingLevel?: number;
+  // Characters that stand in for a \uN character in older readers
+  unicodeSkip: number;
+  link?: string;
+  field?: { instruction: string };
+  // Paragraph line spacing from \sl, in twips, until \slmult says it is a multiple
+  lineSpacingTwips?: number;
+}
+
+// Destinations with content that has no place in the document model
+const SKIPPED_DESTINATIONS = new Set([
+  'stylesheet', 'pict', 'object', 'header', 'headerl', 'headerr', 'headerf', 'footer', 'footerl', 'footerr',
+  'footerf', 'footnote', 'annotation', 'listtable', 'listoverridetable', 'revtbl', 'rsidtbl', 'filetbl',
+  'themedata', 'colorschememapping', 'latentstyles', 'datastore', 'xmlnstbl', 'nonshppict', 'shp',
+]);
+
+const INFO_FIELDS = new Set(['author', 'operator', 'subject', 'keywords', 'comment', 'doccomm', 'company', 'category', 'manager', 'hlinkbase']);
+
+// Control words standing for a single character
+const SYMBOLS: Record<string, string> = {
+  tab: '\t',
+  emdash: '—',
+  endash: '–',
+  emspace: ' ',
+  enspace: ' ',
+  qmspace: ' ',
+  bullet: '•',
+  lquote: '‘',
+  rquote: '’',
+  ldblquote: '“',
+  rdblquote: '”',
+};
+
+// Code pages of the \fcharset values in use
+const CHARSET_CODE_PAGES: Record<number, number> = {
+  0: 1252, 77: 10000, 128: 932, 129: 949, 134: 936, 136: 950, 161: 1253, 162: 1254,
+  163: 1258, 177: 1255, 178: 1256, 186: 1257, 204: 1251, 222: 874, 238: 1250,
+};
+
+const CODE_PAGE_ENCODINGS: Record<number, string> = {
+  437: 'ibm866', 874: 'windows-874', 932: 'shift_jis', 936: 'gbk', 949: 'euc-kr', 950: 'big5', 10000: 'macintosh',
+};
+
+const ALIGNMENTS: Record<string, ParagraphStyle['alignment']> = { ql: 'left', qc: 'center', qr: 'right', qj: 'justify' };
+
+const decoders = new Map<number, TextDecoder>();
+
+const getDecoder = (codePage: number): TextDecoder => {
+  let decoder = decoders.get(codePage);
+  if (!decoder) {
+    try {
+      decoder = new TextDecoder(CODE_PAGE_ENCODINGS[codePage] ?? `windows-${codePage}`);
+    } catch {
+      decoder = new TextDecoder('windows-1252');
+    }
+    decoders.set(codePage, decoder);
+  }
+  return decoder;
+};
+
+const twipsToPoints = (twips: number): number => twips / 20;
+
+const toHex = (value: number): string => value.toString(16).padStart(2, '0').toUpperCase();
+
+const isLetter = (byte: number): boolean => (byte >= 0x61 && byte <= 0x7a) || (byte >= 0x41 && byte <= 0x5a);
+
+const isDigit = (byte: number): boolean => byte >= 0x30 && byte <= 0x39;
+
+const sameStyle = (a: RunStyle, b: RunStyle): boolean => {
+  const keys = new Set([...Object.keys(a), ...Object.keys(b)]) as Set<keyof RunStyle>;
+  return [...keys].every(key => a[key] === b[key]);
+};
+
+/**
+ * Parse an RTF file into the document model
+ */
+export const readRtf = (bytes: Uint8Array): DocumentModel => {
+  const fonts = new Map<number, FontEntry>();
+  const colors: Array<string | undefined> = [];
+  const blocks: DocumentBlock[] = [];
+  let title: string | undefined;
+  let defaultFont: number | undefined;
+  let defaultCodePage = 1252;
+
+  let state: GroupState = { destination: 'text', style: {}, paragraph: {}, unicodeSkip: 1 };
+  const stack: GroupState[] = [];
+  let runs: DocumentRun[] = [];
+
+  // Font and colour table entries being read
+  let fontNumber = 0;
+  let fontName = '';
+  let color: { red: number; green: number; blue: number } | null = null;
+
+  // \'hh bytes are collected so multi-byte code pages decode as a whole
+  let pendingBytes: number[] = [];
+  let pendingCodePage = defaultCodePage;
+  // Fallback characters still to drop after a \uN
+  let skipCount = 0;
+  // \* marks the next destination as one to skip unless it is understood
+  let ignorable = false;
+
+  const getCodePage = (): number => fonts.get(state.font ?? defaultFont ?? -1)?.codePage ?? defaultCodePage;
+
+  const appendText = (text: string) => {
+    if (!text) return;
+    switch (state.destination) {
+      case 'fonttbl':
+        fontName += text;
+        return;
+      case 'title':
+        title = (title ?? '') + text;
+        return;
+      case 'fldinst':
+        if (state.field) state.field.instruction += text;
+        return;
+      case 'text':
+        break;
+      default:
+        return;
+    }
+
+    const family = fonts.get(state.font ?? defaultFont ?? -1)?.name;
+    const style = family ? { ...state.style, fontFamily: family } : state.style;
+    const previous = runs[runs.length - 1];
+    if (previous?.type === 'text' && previous.link === state.link && sameStyle(previous.style, style)) {
+      previous.text += text;
+    } else {
+      runs.push({ type: 'text', text, style, ...(state.link ? { link: state.link } : {}) });
+    }
+  };
+
+  const flushBytes = () => {
+    if (pendingBytes.length === 0) return;
+    const text = getDecoder(pendingCodePage).decode(new Uint8Array(pendingBytes));
+    pendingBytes = [];
+    appendText(text);
+  };
+
+  const appendByte = (byte: number) => {
+    const codePage = getCodePage();
+    if (pendingBytes.length > 0 && codePage !== pendingCodePage) flushBytes();
+    pendingCodePage = codePage;
+    pendingBytes.push(byte);
+  };
+
+  const endParagraph = () => {
+    if (state.destination !== 'text') return;
+    blocks.push({
+      type: 'paragraph',
+      runs,
+      style: { ...state.paragraph },
+      ...(state.headingLevel !== undefined ? { headingLevel: state.headingLevel } : {}),
+    });
+    runs = [];
+  };
+
+  // A colour table entry without components is the automatic colour
+  const endColor = () => {
+    colors.push(color ? toHex(color.red) + toHex(color.green) + toHex(color.blue) : undefined);
+    color = null;
+  };
+
+  const setStyle = (changes: RunStyle) => {
+    state.style = { ...state.style, ...changes };
+  };
+
+  const setParagraph = (changes: ParagraphStyle) => {
+    state.paragraph = { ...state.paragraph, ...changes };
+  };
+
+  const applyControlWord = (word: string, param: number | null) => {
+    const on = param === null || param !== 0;
+
+    if (ignorable) {
+      ignorable = false;
+      if (word !== 'fldinst') {
+        state.destination = 'skip';
+        return;
+      }
+    }
+    if (SKIPPED_DESTINATIONS.has(word) || (state.destination === 'info' && INFO_FIELDS.has(word))) {
+      state.destination = 'skip';
+      return;
+    }
+    if (word in SYMBOLS) {
+      appendText(SYMBOLS[word]);
+      return;
+    }
+
+    switch (word) {
+      // Document and destinations
+      case 'ansicpg':
+        if (param !== null) defaultCodePage = param;
+        break;
+      case 'mac':
+        defaultCodePage = 10000;
+        break;
+      case 'deff':
+        if (param !== null) defaultFont = param;
+        break;
+      case 'fonttbl':
+        state.destination = 'fonttbl';
+        break;
+      case 'colortbl':
+        state.destination = 'colortbl';
+        color = null;
+        break;
+      case 'info':
+        state.destination = 'info';
+        break;
+      case 'title':
+        if (state.destination === 'info') state.destination = 'title';
+        break;
+      case 'field':
+        state.field = { instruction: '' };
+        break;
+      case 'fldinst':
+        state.destination = state.field ? 'fldinst' : 'skip';
+        break;
+      case 'fldrslt': {
+        const target = state.field?.instruction.match(/HYPERLINK\s+(?:\\l\s+)?"([^"]+)"/)?.[1];
+        if (target) state.link = target;
+        break;
+      }
+
+      // Font and colour tables
+      case 'f':
+        if (state.destination === 'fonttbl') {
+          fontNumber = param ?? 0;
+          fontName = '';
+          fonts.set(fontNumber, { name: '' });
+        } else if (param !== null) {
+          state.font = param;
+        }
+        break;
+      case 'fcharset': {
+        const entry = fonts.get(fontNumber);
+        if (state.destination === 'fonttbl' && entry && param !== null) entry.codePage = CHARSET_CODE_PAGES[param];
+        break;
+      }
+      case 'cpg': {
+        const entry = fonts.get(fontNumber);
+        if (state.destination === 'fonttbl' && entry && param !== null) entry.codePage = param;
+        break;
+      }
+      case 'red':
+      case 'green':
+      case 'blue':
+        if (state.destination === 'colortbl') {
+          color = { red: 0, green: 0, blue: 0, ...color, [word]: param ?? 0 };
+        }
+        break;
+
+      // Character formatting
+      case 'plain':
+        state.style = {};
+        state.font = undefined;
+        break;
+      case 'b':
+        setStyle({ bold: on || undefined });
+        break;
+      case 'i':
+        setStyle({ italic: on || undefined });
+        break;
+      case 'ul':
+      case 'uld':
+      case 'uldb':
+      case 'uldash':
+      case 'ulth':
+      case 'ulw':
+      case 'ulwave':
+        setStyle({ underline: on || undefined });
+        break;
+      case 'ulnone':
+        setStyle({ underline: undefined });
+        break;
+      case 'strike':
+      case 'striked':
+        setStyle({ strike: on || undefined });
+        break;
+      case 'fs':
+        setStyle({ fontSize: param ? param / 2 : undefined });
+        break;
+      case 'cf':
+        setStyle({ color: param ? colors[param] : undefined });
+        break;
+      case 'highlight':
+      case 'cb':
+      case 'chcbpat':
+        setStyle({ highlight: param ? colors[param] : undefined });
+        break;
+      case 'super':
+        setStyle({ verticalAlign: 'superscript' });
+        break;
+      case 'sub':
+        setStyle({ verticalAlign: 'subscript' });
+        break;
+      case 'nosupersub':
+        setStyle({ verticalAlign: undefined });
+        break;
+
+      // Paragraph formatting
+      case 'pard':
+        state.paragraph = {};
+        state.headingLevel = undefined;
+        state.lineSpacingTwips = undefined;
+        break;
+      case 'ql':
+      case 'qc':
+      case 'qr':
+      case 'qj':
+        setParagraph({ alignment: ALIGNMENTS[word] });
+        break;
+      case 'li':
+        setParagraph({ indentLeft: twipsToPoints(param ?? 0) });
+        break;
+      case 'fi':
+        setParagraph({ indentFirstLine: twipsToPoints(param ?? 0) });
+        break;
+      case 'sb':
+        setParagraph({ spaceBefore: twipsToPoints(param ?? 0) });
+        break;
+      case 'sa':
+        setParagraph({ spaceAfter: twipsToPoints(param ?? 0) });
+        break;
+      case 'sl':
+        state.lineSpacingTwips = param ?? undefined;
+        break;
+      case 'slmult':
+        // Single spacing is 240 twips when the value is a multiple
+        if (param === 1 && state.lineSpacingTwips && state.lineSpacingTwips > 0) {
+          setParagraph({ lineSpacing: state.lineSpacingTwips / 240 });
+        }
+        break;
+      case 'rtlpar':
+        setParagraph({ direction: 'rtl' });
+        break;
+      case 'ltrpar':
+        setParagraph({ direction: 'ltr' });
+        break;
+      case 'outlinelevel':
+        state.headingLevel = param !== null && param < 9 ? param + 1 : undefined;
+        break;
+
+      // Breaks and special characters
+      // Table rows become lines with tab-separated cells
+      case 'par':
+      case 'sect':
+      case 'row':
+        flushBytes();
+        endParagraph();
+        break;
+      case 'cell':
+        appendText('\t');
+        break;
+      case 'line':
+        if (state.destination === 'text') runs.push({ type: 'break', kind: 'line' });
+        break;
+      case 'page':
+        if (state.destination === 'text') runs.push({ type: 'break', kind: 'page' });
+        break;
+      case 'uc':
+        state.unicodeSkip = param ?? 1;
+        break;
+      case 'u':
+        if (param !== null) {
+          appendText(String.fromCharCode(param < 0 ? param + 65536 : param));
+          skipCount = state.unicodeSkip;
+        }
+        break;
+    }
+  };
+
+  let pos = 0;
+  while (pos < bytes.length) {
+    const byte = bytes[pos];
+
+    if (byte === 0x7b) {
+      flushBytes();
+      stack.push(state);
+      state = { ...state };
+      skipCount = 0;
+      pos++;
+      continue;
+    }
+    if (byte === 0x7d) {
+      flushBytes();
+      if (state.destination === 'fonttbl' && fontName.trim()) {
+        fonts.set(fontNumber, { ...fonts.get(fontNumber), name: fontName.replace(/;$/, '').trim() });
+        fontName = '';
+      }
+      state = stack.pop() ?? state;
+      skipCount = 0;
+      ignorable = false;
+      pos++;
+      continue;
+    }
+    if (byte === 0x0d || byte === 0x0a) {
+      pos++;
+      continue;
+    }
+
+    if (byte !== 0x5c) {
+      pos++;
+      if (skipCount > 0) {
+        skipCount--;
+        continue;
+      }
+      if (state.destination === 'skip') continue;
+      if (state.destination === 'fonttbl' && byte === 0x3b) {
+        flushBytes();
+        const entry = fonts.get(fontNumber);
+        fonts.set(fontNumber, { ...entry, name: fontName.trim() || entry?.name || '' });
+        fontName = '';
+        continue;
+      }
+      if (state.destination === 'colortbl') {
+        if (byte === 0x3b) endColor();
+        continue;
+      }
+      if (byte === 0x09) {
+        flushBytes();
+        appendText('\t');
+      } else if (byte < 0x80) {
+        flushBytes();
+        appendText(String.fromCharCode(byte));
+      } else {
+        appendByte(byte);
+      }
+      continue;
+    }
+
+    // Control word: a backslash, letters, an optional signed number and an optional space
+    const next = bytes[pos + 1];
+    if (next !== undefined && isLetter(next)) {
+      let end = pos + 1;
+      while (end < bytes.length && isLetter(bytes[end])) end++;
+      const word = String.fromCharCode(...bytes.subarray(pos + 1, end));
+      let param: number | null = null;
+      const paramStart = end;
+      if (bytes[end] === 0x2d && isDigit(bytes[end + 1])) end++;
+      while (end < bytes.length && isDigit(bytes[end])) end++;
+      if (end > paramStart) param = parseInt(String.fromCharCode(...bytes.subarray(paramStart, end)), 10);
+      if (bytes[end] === 0x20) end++;
+      pos = end;
+
+      // Binary data is skipped as a whole
+      if (word === 'bin') {
+        pos += Math.max(0, param ?? 0);
+        continue;
+      }
+      if (skipCount > 0 && word !== 'u') {
+        skipCount--;
+        continue;
+      }
+      if (state.destination === 'skip') continue;
+      flushBytes();
+      applyControlWord(word, param);
+      continue;
+    }
+
+    // Control symbol
+    pos += 2;
+    if (next === 0x27) {
+      const value = parseInt(String.fromCharCode(bytes[pos] ?? 0, bytes[pos + 1] ?? 0), 16);
+      pos += 2;
+      if (skipCount > 0) {
+        skipCount--;
+        continue;
+      }
+      if (state.destination === 'skip' || Number.isNaN(value)) continue;
+      appendByte(value);
+      continue;
+    }
+    if (skipCount > 0) {
+      skipCount--;
+      continue;
+    }
+    if (state.destination === 'skip') continue;
+    flushBytes();
+    switch (next) {
+      case 0x5c:
+      case 0x7b:
+      case 0x7d:
+        appendText(String.fromCharCode(next));
+        break;
+      case 0x2a:
+        ignorable = true;
+        break;
+      case 0x7e:
+        appendText(' ');
+        break;
+      case 0x5f:
+        appendText('-');
+        break;
+      case 0x0d:
+      case 0x0a:
+        endParagraph();
+        break;
+    }
+  }
+
+  flushBytes();
+  if (runs.length > 0) endParagraph();
+  return { blocks, title: title?.trim() || undefined };
+};
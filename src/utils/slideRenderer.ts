@@ -0,0 +1,737 @@
+/**
+ * Slide renderer
+ * Paints a slide of the presentation model onto a 2D canvas: background,
+ * preset and custom shapes with their fills and outlines, pictures,
+ * tables and wrapped text. Coordinates are in points, scaled to pixels.
+ */
+
+import {
+  ShapeGeometry,
+  ShapePath,
+  Slide,
+  SlideColor,
+  SlideElement,
+  SlideFill,
+  SlideImage,
+  SlideOutline,
+  SlideParagraph,
+  SlidePicture,
+  SlideShape,
+  SlideTable,
+  SlideTextBody,
+  SlideTextRun,
+  SlideTransform,
+  TextSpacing,
+} from '../types/presentationModel';
+import { decodeImageBlob, DrawingContext } from './canvasUtils';
+
+type Point = [number, number];
+type Adjust = (name: string, fallback: number) => number;
+
+// Single line spacing and the share of it below the baseline, relative to the font size
+const LINE_HEIGHT = 1.2;
+const DESCENT = 0.25;
+// Super- and subscript text is drawn smaller
+const SCRIPT_SCALE = 2 / 3;
+
+const closedPath = (...points: Point[]): ShapePath[] => [{
+  commands: [
+    { type: 'move', x: points[0][0], y: points[0][1] },
+    ...points.slice(1).map(([x, y]) => ({ type: 'line' as const, x, y })),
+    { type: 'close' },
+  ],
+  fill: true,
+  stroke: true,
+}];
+
+const openPath = (...points: Point[]): ShapePath[] => [{
+  commands: [
+    { type: 'move', x: points[0][0], y: points[0][1] },
+    ...points.slice(1).map(([x, y]) => ({ type: 'line' as const, x, y })),
+  ],
+  fill: false,
+  stroke: true,
+}];
+
+const ellipsePath = (width: number, height: number): ShapePath[] => [{
+  commands: [
+    { type: 'move', x: width, y: height / 2 },
+    { type: 'arc', widthRadius: width / 2, heightRadius: height / 2, startAngle: 0, sweepAngle: 360 },
+    { type: 'close' },
+  ],
+  fill: true,
+  stroke: true,
+}];
+
+/**
+ * Rectangle with rounded corners; radii go clockwise from the top left
+ */
+const roundedRectPath = (width: number, height: number, radii: [number, number, number, number]): ShapePath[] => {
+  const [topLeft, topRight, bottomRight, bottomLeft] = radii.map(radius => Math.max(0, Math.min(radius, width / 2, height / 2)));
+  const corner = (radius: number, startAngle: number) =>
+    ({ type: 'arc' as const, widthRadius: radius, heightRadius: radius, startAngle, sweepAngle: 90 });
+  return [{
+    commands: [
+      { type: 'move', x: topLeft, y: 0 },
+      { type: 'line', x: width - topRight, y: 0 },
+      corner(topRight, 270),
+      { type: 'line', x: width, y: height - bottomRight },
+      corner(bottomRight, 0),
+      { type: 'line', x: bottomLeft, y: height },
+      corner(bottomLeft, 90),
+      { type: 'line', x: 0, y: topLeft },
+      corner(topLeft, 180),
+      { type: 'close' },
+    ],
+    fill: true,
+    stroke: true,
+  }];
+};
+
+// Arrow pointing right over `length`, `breadth` across
+const arrowPoints = (length: number, breadth: number, adjust: Adjust): Point[] => {
+  const shaft = breadth * adjust('adj1', 50000);
+  const head = Math.min(length, Math.min(length, breadth) * adjust('adj2', 50000));
+  const top = (breadth - shaft) / 2;
+  return [[0, top], [length - head, top], [length - head, 0], [length, breadth / 2], [length - head, breadth], [length - head, top + shaft], [0, top + shaft]];
+};
+
+const starPoints = (width: number, height: number, points: number, inner: number): Point[] =>
+  Array.from({ length: points * 2 }, (_value, index): Point => {
+    const angle = ((-90 + (index * 180) / points) * Math.PI) / 180;
+    const radius = index % 2 === 0 ? 1 : inner;
+    return [width / 2 + (Math.cos(angle) * width * radius) / 2, height / 2 + (Math.sin(angle) * height * radius) / 2];
+  });
+
+/**
+ * Outlines of the preset shapes, in the shape's own box. Adjustments are
+ * fractions; most are relative to the shorter side as in DrawingML.
+ */
+const PRESET_SHAPES: Record<string, (width: number, height: number, adjust: Adjust) => ShapePath[]> = {
+  rect: (w, h) => closedPath([0, 0], [w, 0], [w, h], [0, h]),
+  roundRect: (w, h, adjust) => {
+    const radius = Math.min(w, h) * adjust('adj', 16667);
+    return roundedRectPath(w, h, [radius, radius, radius, radius]);
+  },
+  round2SameRect: (w, h, adjust) => {
+    const top = Math.min(w, h) * adjust('adj1', 16667);
+    const bottom = Math.min(w, h) * adjust('adj2', 0);
+    return roundedRectPath(w, h, [top, top, bottom, bottom]);
+  },
+  snip1Rect: (w, h, adjust) => {
+    const snip = Math.min(w, h) * adjust('adj', 16667);
+    return closedPath([0, 0], [w - snip, 0], [w, snip], [w, h], [0, h]);
+  },
+  ellipse: (w, h) => ellipsePath(w, h),
+  donut: (w, h, adjust) => {
+    const thickness = Math.min(w, h) * adjust('adj', 25000);
+    const [outer] = ellipsePath(w, h);
+    // Drawn the other way round, the inner ellipse leaves a hole
+    outer.commands.push(
+      { type: 'move', x: w - thickness, y: h / 2 },
+      { type: 'arc', widthRadius: w / 2 - thickness, heightRadius: h / 2 - thickness, startAngle: 0, sweepAngle: -360 },
+      { type: 'close' }
+    );
+    return [outer];
+  },
+  frame: (w, h, adjust) => {
+    const t = Math.min(w, h) * adjust('adj1', 12500);
+    const [path] = closedPath([0, 0], [w, 0], [w, h], [0, h]);
+    path.commands.push(...closedPath([t, t], [t, h - t], [w - t, h - t], [w - t, t])[0].commands);
+    return [path];
+  },
+  triangle: (w, h, adjust) => closedPath([w * adjust('adj', 50000), 0], [w, h], [0, h]),
+  rtTriangle: (w, h) => closedPath([0, 0], [w, h], [0, h]),
+  diamond: (w, h) => closedPath([w / 2, 0], [w, h / 2], [w / 2, h], [0, h / 2]),
+  parallelogram: (w, h, adjust) => {
+    const offset = Math.min(w, h) * adjust('adj', 25000);
+    return closedPath([offset, 0], [w, 0], [w - offset, h], [0, h]);
+  },
+  trapezoid: (w, h, adjust) => {
+    const offset = Math.min(w, h) * adjust('adj', 25000);
+    return closedPath([0, h], [offset, 0], [w - offset, 0], [w, h]);
+  },
+  pentagon: (w, h) => closedPath([w / 2, 0], [w, h * 0.3633], [w * 0.8123, h], [w * 0.1877, h], [0, h * 0.3633]),
+  hexagon: (w, h, adjust) => {
+    const offset = Math.min(w, h) * adjust('adj', 25000);
+    return closedPath([offset, 0], [w - offset, 0], [w, h / 2], [w - offset, h], [offset, h], [0, h / 2]);
+  },
+  octagon: (w, h, adjust) => {
+    const o = Math.min(w, h) * adjust('adj', 29289);
+    return closedPath([o, 0], [w - o, 0], [w, o], [w, h - o], [w - o, h], [o, h], [0, h - o], [0, o]);
+  },
+  plus: (w, h, adjust) => {
+    const o = Math.min(w, h) * adjust('adj', 25000);
+    return closedPath([o, 0], [w - o, 0], [w - o, o], [w, o], [w, h - o], [w - o, h - o], [w - o, h], [o, h], [o, h - o], [0, h - o], [0, o], [o, o]);
+  },
+  homePlate: (w, h, adjust) => {
+    const point = Math.min(w, Math.min(w, h) * adjust('adj', 50000));
+    return closedPath([0, 0], [w - point, 0], [w, h / 2], [w - point, h], [0, h]);
+  },
+  chevron: (w, h, adjust) => {
+    const point = Math.min(w, Math.min(w, h) * adjust('adj', 50000));
+    return closedPath([0, 0], [w - point, 0], [w, h / 2], [w - point, h], [0, h], [point, h / 2]);
+  },
+  rightArrow: (w, h, adjust) => closedPath(...arrowPoints(w, h, adjust)),
+  leftArrow: (w, h, adjust) => closedPath(...arrowPoints(w, h, adjust).map(([x, y]): Point => [w - x, y])),
+  downArrow: (w, h, adjust) => closedPath(...arrowPoints(h, w, adjust).map(([x, y]): Point => [y, x])),
+  upArrow: (w, h, adjust) => closedPath(...arrowPoints(h, w, adjust).map(([x, y]): Point => [y, h - x])),
+  leftRightArrow: (w, h, adjust) => {
+    const shaft = h * adjust('adj1', 50000);
+    const head = Math.min(w / 2, Math.min(w, h) * adjust('adj2', 50000));
+    const top = (h - shaft) / 2;
+    return closedPath(
+      [0, h / 2], [head, 0], [head, top], [w - head, top], [w - head, 0], [w, h / 2],
+      [w - head, h], [w - head, top + shaft], [head, top + shaft], [head, h]
+    );
+  },
+  star4: (w, h, adjust) => closedPath(...starPoints(w, h, 4, adjust('adj', 12500) * 2)),
+  star5: (w, h, adjust) => closedPath(...starPoints(w, h, 5, adjust('adj', 19098) * 2)),
+  star6: (w, h, adjust) => closedPath(...starPoints(w, h, 6, adjust('adj', 28868) * 2)),
+  star8: (w, h, adjust) => closedPath(...starPoints(w, h, 8, adjust('adj', 38250) * 2)),
+  line: (w, h) => openPath([0, 0], [w, h]),
+  bentConnector2: (w, h) => openPath([0, 0], [w, 0], [w, h]),
+  bentConnector3: (w, h, adjust) => {
+    const x = w * adjust('adj1', 50000);
+    return openPath([0, 0], [x, 0], [x, h], [w, h]);
+  },
+  curvedConnector3: (w, h) => [{
+    commands: [{ type: 'move', x: 0, y: 0 }, { type: 'cubic', points: [[w / 2, 0], [w / 2, h], [w, h]] }],
+    fill: false,
+    stroke: true,
+  }],
+  flowChartTerminator: (w, h) => {
+    const radius = Math.min(w, h) / 2;
+    return roundedRectPath(w, h, [radius, radius, radius, radius]);
+  },
+  flowChartInputOutput: (w, h) => closedPath([w * 0.2, 0], [w, 0], [w * 0.8, h], [0, h]),
+};
+
+// Presets drawn like one of the shapes above
+const PRESET_ALIASES: Record<string, string> = {
+  straightConnector1: 'line',
+  bentConnector4: 'bentConnector3',
+  bentConnector5: 'bentConnector3',
+  curvedConnector2: 'curvedConnector3',
+  curvedConnector4: 'curvedConnector3',
+  curvedConnector5: 'curvedConnector3',
+  flowChartProcess: 'rect',
+  flowChartPredefinedProcess: 'rect',
+  flowChartAlternateProcess: 'roundRect',
+  flowChartDecision: 'diamond',
+  flowChartConnector: 'ellipse',
+  wedgeRectCallout: 'rect',
+  wedgeRoundRectCallout: 'roundRect',
+  wedgeEllipseCallout: 'ellipse',
+  cloud: 'ellipse',
+  cloudCallout: 'ellipse',
+  teardrop: 'ellipse',
+};
+
+const getShapePaths = (geometry: ShapeGeometry, width: number, height: number): ShapePath[] => {
+  if ('paths' in geometry) return geometry.paths;
+  const draw = PRESET_SHAPES[geometry.preset] ?? PRESET_SHAPES[PRESET_ALIASES[geometry.preset] ?? 'rect'] ?? PRESET_SHAPES.rect;
+  return draw(width, height, (name, fallback) => (geometry.adjustments[name] ?? fallback) / 100000);
+};
+
+// Angle on an ellipse as seen from its centre, to the angle of its parametric form
+const toParametricAngle = (angle: number, radiusX: number, radiusY: number): number =>
+  Math.atan2(radiusX * Math.sin(angle), radiusY * Math.cos(angle));
+
+/**
+ * Trace a path stretched over a width x height box as the current path;
+ * returns the points it passes through, for arrowheads
+ */
+const tracePath = (ctx: DrawingContext, path: ShapePath, width: number, height: number): Point[] => {
+  const scaleX = path.width ? width / path.width : 1;
+  const scaleY = path.height ? height / path.height : 1;
+  const points: Point[] = [];
+  let current: Point = [0, 0];
+
+  ctx.beginPath();
+  for (const command of path.commands) {
+    switch (command.type) {
+      case 'move':
+      case 'line':
+        current = [command.x * scaleX, command.y * scaleY];
+        if (command.type === 'move') ctx.moveTo(current[0], current[1]);
+        else ctx.lineTo(current[0], current[1]);
+        points.push(current);
+        break;
+      case 'cubic':
+      case 'quad': {
+        const scaled = command.points.map(([x, y]): Point => [x * scaleX, y * scaleY]);
+        if (command.type === 'cubic') ctx.bezierCurveTo(scaled[0][0], scaled[0][1], scaled[1][0], scaled[1][1], scaled[2][0], scaled[2][1]);
+        else ctx.quadraticCurveTo(scaled[0][0], scaled[0][1], scaled[1][0], scaled[1][1]);
+        current = scaled[scaled.length - 1];
+        points.push(...scaled);
+        break;
+      }
+      case 'arc': {
+        const radiusX = command.widthRadius * scaleX;
+        const radiusY = command.heightRadius * scaleY;
+        const start = (command.startAngle * Math.PI) / 180;
+        const sweep = (command.sweepAngle * Math.PI) / 180;
+        if (radiusX <= 0 || radiusY <= 0) break;
+        const startParameter = toParametricAngle(start, radiusX, radiusY);
+        let endParameter = toParametricAngle(start + sweep, radiusX, radiusY);
+        if (Math.abs(sweep) >= 2 * Math.PI) endParameter = startParameter + sweep;
+        else if (sweep > 0 && endParameter < startParameter) endParameter += 2 * Math.PI;
+        else if (sweep < 0 && endParameter > startParameter) endParameter -= 2 * Math.PI;
+        const centerX = current[0] - radiusX * Math.cos(startParameter);
+        const centerY = current[1] - radiusY * Math.sin(startParameter);
+        ctx.ellipse(centerX, centerY, radiusX, radiusY, 0, startParameter, endParameter, sweep < 0);
+        current = [centerX + radiusX * Math.cos(endParameter), centerY + radiusY * Math.sin(endParameter)];
+        points.push(current);
+        break;
+      }
+      case 'close':
+        ctx.closePath();
+        break;
+    }
+  }
+  return points;
+};
+
+const toCssColor = (color: SlideColor): string => {
+  if (color.alpha === undefined) return `#${color.hex}`;
+  const [red, green, blue] = [0, 2, 4].map(offset => parseInt(color.hex.slice(offset, offset + 2), 16));
+  return `rgba(${red}, ${green}, ${blue}, ${color.alpha})`;
+};
+
+/**
+ * Fill the current path; gradients and pictures stretch over the box
+ */
+const paintFill = (ctx: DrawingContext, fill: SlideFill, width: number, height: number, images: Map<SlideImage, ImageBitmap | null>) => {
+  if (fill.type === 'solid') {
+    ctx.fillStyle = toCssColor(fill.color);
+    ctx.fill();
+  } else if (fill.type === 'gradient') {
+    let gradient: CanvasGradient;
+    if (fill.radial) {
+      gradient = ctx.createRadialGradient(width / 2, height / 2, 0, width / 2, height / 2, Math.hypot(width, height) / 2);
+    } else {
+      const angle = (fill.angle * Math.PI) / 180;
+      const [dx, dy] = [Math.cos(angle), Math.sin(angle)];
+      const half = (Math.abs(width * dx) + Math.abs(height * dy)) / 2;
+      gradient = ctx.createLinearGradient(width / 2 - dx * half, height / 2 - dy * half, width / 2 + dx * half, height / 2 + dy * half);
+    }
+    for (const stop of fill.stops) gradient.addColorStop(Math.min(1, Math.max(0, stop.position)), toCssColor(stop.color));
+    ctx.fillStyle = gradient;
+    ctx.fill();
+  } else {
+    const bitmap = images.get(fill.image);
+    if (!bitmap) return;
+    ctx.save();
+    ctx.clip();
+    ctx.drawImage(bitmap, 0, 0, width, height);
+    ctx.restore();
+  }
+};
+
+const applyOutline = (ctx: DrawingContext, outline: SlideOutline) => {
+  ctx.strokeStyle = toCssColor(outline.color);
+  // A zero width is the thinnest line the device can show
+  ctx.lineWidth = Math.max(outline.width, 0.5);
+  ctx.lineJoin = 'round';
+  ctx.setLineDash(outline.dash ? outline.dash.map(length => length * ctx.lineWidth) : []);
+};
+
+const drawArrowhead = (ctx: DrawingContext, from: Point, to: Point, outline: SlideOutline) => {
+  const length = Math.max(outline.width * 3, 4);
+  const angle = Math.atan2(to[1] - from[1], to[0] - from[0]);
+  const spread = Math.PI / 7;
+  ctx.save();
+  ctx.setLineDash([]);
+  ctx.fillStyle = toCssColor(outline.color);
+  ctx.beginPath();
+  ctx.moveTo(to[0], to[1]);
+  ctx.lineTo(to[0] - length * Math.cos(angle - spread), to[1] - length * Math.sin(angle - spread));
+  ctx.lineTo(to[0] - length * Math.cos(angle + spread), to[1] - length * Math.sin(angle + spread));
+  ctx.closePath();
+  ctx.fill();
+  ctx.restore();
+};
+
+/**
+ * Draw in an element's box: the origin at its top left corner, turned
+ * and (for shapes, not text) mirrored about its centre
+ */
+const withTransform = (ctx: DrawingContext, transform: SlideTransform, mirror: boolean, draw: () => void, extraRotation = 0) => {
+  const { x, y, width, height } = transform;
+  ctx.save();
+  ctx.translate(x + width / 2, y + height / 2);
+  const rotation = (transform.rotation ?? 0) + extraRotation;
+  if (rotation) ctx.rotate((rotation * Math.PI) / 180);
+  if (mirror && (transform.flipH || transform.flipV)) ctx.scale(transform.flipH ? -1 : 1, transform.flipV ? -1 : 1);
+  ctx.translate(-width / 2, -height / 2);
+  draw();
+  ctx.restore();
+};
+
+const toCssFontFamily = (family: string): string => {
+  const generic = /mono|courier|consolas/i.test(family)
+    ? 'monospace'
+    : /times|georgia|garamond|cambria|palatino|book antiqua|serif/i.test(family) && !/sans/i.test(family) ? 'serif' : 'sans-serif';
+  return `"${family.replace(/"/g, '')}", ${generic}`;
+};
+
+const getRunFontSize = (run: Pick<SlideTextRun, 'fontSize' | 'baseline'>): number =>
+  (run.baseline ? run.fontSize * SCRIPT_SCALE : run.fontSize);
+
+const toCssFont = (run: Pick<SlideTextRun, 'fontSize' | 'fontFamily' | 'bold' | 'italic' | 'baseline'>): string =>
+  `${run.italic ? 'italic ' : ''}${run.bold ? 'bold ' : ''}${getRunFontSize(run)}px ${toCssFontFamily(run.fontFamily)}`;
+
+interface TextFragment {
+  text: string;
+  run: SlideTextRun;
+  width: number;
+  space: boolean;
+}
+
+interface TextLine {
+  fragments: TextFragment[];
+  // Offset of the line from the left edge of the text area
+  start: number;
+  top: number;
+  baseline: number;
+  paragraph: SlideParagraph;
+  // Justified lines are stretched; the last line of a paragraph is not
+  last: boolean;
+  bullet?: { x: number };
+}
+
+const spacingToPoints = (spacing: TextSpacing | undefined, fontSize: number): number => {
+  if (!spacing) return 0;
+  return 'points' in spacing ? spacing.points : spacing.percent * fontSize * LINE_HEIGHT;
+};
+
+const measure = (ctx: DrawingContext, text: string, run: SlideTextRun): number => {
+  ctx.font = toCssFont(run);
+  return ctx.measureText(text).width;
+};
+
+// Words, runs of spaces, line breaks, and CJK characters, which may break anywhere
+const TOKEN_PATTERN = /(\n|[ \t]+|[\u2E80-\u9FFF\uAC00-\uD7AF\uF900-\uFAFF\uFF00-\uFFEF])/;
+
+/**
+ * Break a paragraph into lines no wider than `width` (when wrapping)
+ */
+const layoutParagraph = (ctx: DrawingContext, paragraph: SlideParagraph, width: number, wrap: boolean): Array<Omit<TextLine, 'top' | 'baseline'>> => {
+  const lines: Array<Omit<TextLine, 'top' | 'baseline'>> = [];
+  const bullet = paragraph.bullet;
+  const bulletX = paragraph.marginLeft + paragraph.indent;
+  const firstStart = bullet
+    ? Math.max(paragraph.marginLeft, bulletX + measure(ctx, bullet.text, bullet) + bullet.fontSize * 0.3)
+    : bulletX;
+
+  let line: Omit<TextLine, 'top' | 'baseline'> = { fragments: [], start: firstStart, paragraph, last: false, bullet: bullet ? { x: bulletX } : undefined };
+  let lineWidth = 0;
+  const finishLine = (last: boolean) => {
+    // Spaces at the end of a wrapped line take no room
+    while (!last && line.fragments.length > 0 && line.fragments[line.fragments.length - 1].space) line.fragments.pop();
+    lines.push({ ...line, last });
+    line = { fragments: [], start: paragraph.marginLeft, paragraph, last: false };
+    lineWidth = 0;
+  };
+  const contentWidth = () => line.fragments.reduce((total, fragment) => total + fragment.width, 0);
+
+  for (const run of paragraph.runs) {
+    for (const token of run.text.replace(/\t/g, '    ').split(TOKEN_PATTERN)) {
+      if (!token) continue;
+      if (token === '\n') {
+        finishLine(true);
+        continue;
+      }
+      const space = /^[ \t]+$/.test(token);
+      // Wrapped lines do not start with the space they were broken at
+      if (space && line.fragments.length === 0 && lines.length > 0 && !lines[lines.length - 1].last) continue;
+
+      const tokenWidth = measure(ctx, token, run);
+      const available = width - line.start;
+      if (!space && wrap && lineWidth + tokenWidth > available && line.fragments.some(fragment => !fragment.space)) {
+        finishLine(false);
+      }
+      if (!space && wrap && tokenWidth > width - line.start) {
+        // A word longer than the line is broken between characters
+        let piece = '';
+        for (const character of token) {
+          const pieceWidth = measure(ctx, piece + character, run);
+          if (piece && lineWidth + pieceWidth > width - line.start) {
+            line.fragments.push({ text: piece, run, width: measure(ctx, piece, run), space: false });
+            finishLine(false);
+            piece = character;
+          } else {
+            piece += character;
+          }
+        }
+        if (piece) {
+          line.fragments.push({ text: piece, run, width: measure(ctx, piece, run), space: false });
+          lineWidth = contentWidth();
+        }
+        continue;
+      }
+      line.fragments.push({ text: token, run, width: tokenWidth, space });
+      lineWidth += tokenWidth;
+    }
+  }
+  finishLine(true);
+  return lines;
+};
+
+/**
+ * Lay out a text body in a text area `width` wide; returns its lines with
+ * their positions and the height they take
+ */
+const layoutText = (ctx: DrawingContext, body: SlideTextBody, width: number): { lines: TextLine[]; height: number } => {
+  const lines: TextLine[] = [];
+  let y = 0;
+  body.paragraphs.forEach((paragraph, index) => {
+    const firstSize = paragraph.runs.find(run => run.text.trim())?.fontSize ?? paragraph.fontSize;
+    // Space before the first paragraph is left out, as in PowerPoint
+    if (index > 0) y += spacingToPoints(paragraph.spaceBefore, firstSize);
+    let lastSize = firstSize;
+    for (const line of layoutParagraph(ctx, paragraph, width, body.wrap)) {
+      const size = line.fragments.length > 0 ? Math.max(...line.fragments.map(fragment => fragment.run.fontSize)) : paragraph.fontSize;
+      const natural = size * LINE_HEIGHT;
+      const height = paragraph.lineSpacing
+        ? 'points' in paragraph.lineSpacing ? paragraph.lineSpacing.points : natural * paragraph.lineSpacing.percent
+        : natural;
+      lines.push({ ...line, top: y, baseline: y + height - size * DESCENT });
+      y += height;
+      lastSize = size;
+    }
+    y += spacingToPoints(paragraph.spaceAfter, lastSize);
+  });
+  return { lines, height: y };
+};
+
+const drawTextLine = (ctx: DrawingContext, line: TextLine, left: number, width: number) => {
+  const { paragraph } = line;
+  const content = line.fragments.reduce((total, fragment) => total + fragment.width, 0);
+  const available = width - line.start;
+  let x = left + line.start;
+  let extraPerSpace = 0;
+  if (paragraph.alignment === 'center') x += (available - content) / 2;
+  else if (paragraph.alignment === 'right') x += available - content;
+  else if (paragraph.alignment === 'justify' && !line.last) {
+    const spaces = line.fragments.reduce((total, fragment) => total + (fragment.space ? fragment.text.length : 0), 0);
+    if (spaces > 0 && available > content) extraPerSpace = (available - content) / spaces;
+  }
+
+  if (line.bullet && paragraph.bullet) {
+    const { bullet } = paragraph;
+    ctx.font = toCssFont(bullet);
+    ctx.fillStyle = toCssColor(bullet.color);
+    ctx.fillText(bullet.text, left + line.bullet.x, line.baseline);
+  }
+
+  for (const fragment of line.fragments) {
+    const { run } = fragment;
+    if (!fragment.space) {
+      const size = getRunFontSize(run);
+      const baseline = line.baseline - (run.baseline ?? 0) * run.fontSize;
+      ctx.font = toCssFont(run);
+      ctx.fillStyle = toCssColor(run.color);
+      ctx.fillText(fragment.text, x, baseline);
+      const thickness = Math.max(size / 16, 0.5);
+      if (run.underline) ctx.fillRect(x, baseline + size * 0.12, fragment.width, thickness);
+      if (run.strike) ctx.fillRect(x, baseline - size * 0.3, fragment.width, thickness);
+    } else if (run.underline) {
+      ctx.fillStyle = toCssColor(run.color);
+      ctx.fillRect(x, line.baseline + run.fontSize * 0.12, fragment.width + extraPerSpace * fragment.text.length, Math.max(run.fontSize / 16, 0.5));
+    }
+    x += fragment.width + (fragment.space ? extraPerSpace * fragment.text.length : 0);
+  }
+};
+
+/**
+ * Draw a text body in a width x height box, anchored inside its insets
+ */
+const drawTextBody = (ctx: DrawingContext, body: SlideTextBody, boxWidth: number, boxHeight: number) => {
+  ctx.save();
+  let width = boxWidth;
+  let height = boxHeight;
+  if (body.vertical) {
+    // Vertical text is laid out across the box's height, then turned
+    [width, height] = [boxHeight, boxWidth];
+    if (body.vertical === 90) {
+      ctx.translate(boxWidth, 0);
+      ctx.rotate(Math.PI / 2);
+    } else {
+      ctx.translate(0, boxHeight);
+      ctx.rotate(-Math.PI / 2);
+    }
+  }
+  const { insets } = body;
+  const textWidth = Math.max(0, width - insets.left - insets.right);
+  const textHeight = height - insets.top - insets.bottom;
+  const layout = layoutText(ctx, body, textWidth);
+  const offset = body.anchor === 'middle' ? (textHeight - layout.height) / 2 : body.anchor === 'bottom' ? textHeight - layout.height : 0;
+
+  ctx.textBaseline = 'alphabetic';
+  ctx.translate(0, insets.top + offset);
+  for (const line of layout.lines) drawTextLine(ctx, line, insets.left, textWidth);
+  ctx.restore();
+};
+
+const drawShape = (ctx: DrawingContext, shape: SlideShape, images: Map<SlideImage, ImageBitmap | null>) => {
+  withTransform(ctx, shape, true, () => {
+    for (const path of getShapePaths(shape.geometry, shape.width, shape.height)) {
+      const points = tracePath(ctx, path, shape.width, shape.height);
+      if (shape.fill && path.fill) paintFill(ctx, shape.fill, shape.width, shape.height, images);
+      if (!shape.outline || !path.stroke) continue;
+      applyOutline(ctx, shape.outline);
+      ctx.stroke();
+      if (points.length >= 2) {
+        if (shape.outline.arrowStart) drawArrowhead(ctx, points[1], points[0], shape.outline);
+        if (shape.outline.arrowEnd) drawArrowhead(ctx, points[points.length - 2], points[points.length - 1], shape.outline);
+      }
+    }
+  });
+  // Text is not mirrored; upside-down shapes turn it over
+  if (shape.text) {
+    const text = shape.text;
+    withTransform(ctx, shape, false, () => drawTextBody(ctx, text, shape.width, shape.height), shape.flipV ? 180 : 0);
+  }
+};
+
+const drawPicture = (ctx: DrawingContext, picture: SlidePicture, images: Map<SlideImage, ImageBitmap | null>) => {
+  const bitmap = images.get(picture.image);
+  withTransform(ctx, picture, true, () => {
+    const paths = picture.geometry ? getShapePaths(picture.geometry, picture.width, picture.height) : null;
+    if (bitmap) {
+      ctx.save();
+      if (paths) {
+        tracePath(ctx, paths[0], picture.width, picture.height);
+        ctx.clip();
+      }
+      const { left = 0, top = 0, right = 0, bottom = 0 } = picture.crop ?? {};
+      const sourceWidth = (1 - left - right) * bitmap.width;
+      const sourceHeight = (1 - top - bottom) * bitmap.height;
+      if (sourceWidth > 0 && sourceHeight > 0) {
+        ctx.drawImage(bitmap, left * bitmap.width, top * bitmap.height, sourceWidth, sourceHeight, 0, 0, picture.width, picture.height);
+      }
+      ctx.restore();
+    }
+    if (picture.outline) {
+      if (paths) tracePath(ctx, paths[0], picture.width, picture.height);
+      else {
+        ctx.beginPath();
+        ctx.rect(0, 0, picture.width, picture.height);
+      }
+      applyOutline(ctx, picture.outline);
+      ctx.stroke();
+    }
+  });
+};
+
+const strokeLine = (ctx: DrawingContext, outline: SlideOutline | undefined, from: Point, to: Point) => {
+  if (!outline) return;
+  ctx.save();
+  applyOutline(ctx, outline);
+  ctx.beginPath();
+  ctx.moveTo(from[0], from[1]);
+  ctx.lineTo(to[0], to[1]);
+  ctx.stroke();
+  ctx.restore();
+};
+
+const drawTable = (ctx: DrawingContext, table: SlideTable, images: Map<SlideImage, ImageBitmap | null>) => {
+  const columnX = table.columns.reduce<number[]>((positions, width) => [...positions, positions[positions.length - 1] + width], [0]);
+  const spanWidth = (column: number, span = 1) => columnX[Math.min(column + span, table.columns.length)] - columnX[column];
+
+  // Rows grow to fit the text of their cells
+  const heights = table.rows.map(row => row.height);
+  table.rows.forEach((row, rowIndex) => row.cells.forEach((cell, column) => {
+    if (cell.merged || !cell.text || (cell.rowSpan ?? 1) > 1 || column >= table.columns.length) return;
+    const { insets } = cell.text;
+    const needed = layoutText(ctx, cell.text, Math.max(0, spanWidth(column, cell.colSpan) - insets.left - insets.right)).height;
+    heights[rowIndex] = Math.max(heights[rowIndex], needed + insets.top + insets.bottom);
+  }));
+  const rowY = heights.reduce<number[]>((positions, height) => [...positions, positions[positions.length - 1] + height], [0]);
+
+  withTransform(ctx, { ...table, height: rowY[rowY.length - 1] }, false, () => {
+    const cells = table.rows.flatMap((row, rowIndex) => row.cells.flatMap((cell, column) => {
+      if (cell.merged || column >= table.columns.length) return [];
+      const bottomRow = Math.min(rowIndex + (cell.rowSpan ?? 1), table.rows.length);
+      return [{ cell, x: columnX[column], y: rowY[rowIndex], width: spanWidth(column, cell.colSpan), height: rowY[bottomRow] - rowY[rowIndex] }];
+    }));
+
+    for (const { cell, x, y, width, height } of cells) {
+      if (cell.fill) {
+        ctx.save();
+        ctx.translate(x, y);
+        ctx.beginPath();
+        ctx.rect(0, 0, width, height);
+        paintFill(ctx, cell.fill, width, height, images);
+        ctx.restore();
+      }
+      if (cell.text) {
+        ctx.save();
+        ctx.translate(x, y);
+        drawTextBody(ctx, cell.text, width, height);
+        ctx.restore();
+      }
+    }
+    for (const { cell, x, y, width, height } of cells) {
+      strokeLine(ctx, cell.borders.top, [x, y], [x + width, y]);
+      strokeLine(ctx, cell.borders.bottom, [x, y + height], [x + width, y + height]);
+      strokeLine(ctx, cell.borders.left, [x, y], [x, y + height]);
+      strokeLine(ctx, cell.borders.right, [x + width, y], [x + width, y + height]);
+    }
+  });
+};
+
+// Decoded pictures, shared by the slides that show them
+const decodedImages = new WeakMap<SlideImage, Promise<ImageBitmap | null>>();
+
+// Pictures that cannot be decoded (EMF, WMF, TIFF in most browsers) are left out
+const decodeSlideImage = (image: SlideImage): Promise<ImageBitmap | null> => {
+  let decoded = decodedImages.get(image);
+  if (!decoded) {
+    decoded = decodeImageBlob(new Blob([image.data], { type: image.contentType })).catch(() => null);
+    decodedImages.set(image, decoded);
+  }
+  return decoded;
+};
+
+const collectImages = (slide: Slide): SlideImage[] => {
+  const images: SlideImage[] = [];
+  const addFill = (fill: SlideFill | undefined) => {
+    if (fill?.type === 'image') images.push(fill.image);
+  };
+  addFill(slide.background);
+  for (const element of slide.elements) {
+    if (element.type === 'picture') images.push(element.image);
+    else if (element.type === 'shape') addFill(element.fill);
+    else element.rows.forEach(row => row.cells.forEach(cell => addFill(cell.fill)));
+  }
+  return images;
+};
+
+const drawElement = (ctx: DrawingContext, element: SlideElement, images: Map<SlideImage, ImageBitmap | null>) => {
+  if (element.type === 'shape') drawShape(ctx, element, images);
+  else if (element.type === 'picture') drawPicture(ctx, element, images);
+  else drawTable(ctx, element, images);
+};
+
+/**
+ * Render a slide of the given size (in points) at `scale` pixels per point
+ */
+export const renderSlide = async (ctx: DrawingContext, slide: Slide, width: number, height: number, scale: number): Promise<void> => {
+  const images = new Map<SlideImage, ImageBitmap | null>();
+  for (const image of collectImages(slide)) images.set(image, await decodeSlideImage(image));
+
+  ctx.save();
+  ctx.scale(scale, scale);
+  ctx.fillStyle = '#FFFFFF';
+  ctx.fillRect(0, 0, width, height);
+  if (slide.background) {
+    ctx.beginPath();
+    ctx.rect(0, 0, width, height);
+    paintFill(ctx, slide.background, width, height, images);
+  }
+  for (const element of slide.elements) drawElement(ctx, element, images);
+  ctx.restore();
+};
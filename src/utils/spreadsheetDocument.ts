@@ -0,0 +1,139 @@
+/**
+ * Spreadsheets as documents
+ * Lays the sheets of a workbook out as document tables so they can be
+ * rendered to PDF: one table per sheet with the values as displayed, merged
+ * cells spanning columns and the heading rows repeated on every page.
+ */
+
+import { DocumentBlock, DocumentModel, DocumentRun, ParagraphAlignment, TableCell, TableRow } from '../types/documentModel';
+import { SpreadsheetCell, Workbook, Worksheet } from '../types/spreadsheetModel';
+import { formatCellValue } from './numberFormat';
+import { PAGE_SIZES, PdfLayoutOptions } from './pdfLayout';
+
+const CELL_FONT_SIZE = 9;
+// Wider sheets are printed in landscape
+const PORTRAIT_MAX_COLUMNS = 6;
+
+/**
+ * Sheets to print: the visible ones, or all of them if every sheet is hidden
+ */
+export const getPrintedSheets = (workbook: Workbook): Worksheet[] => {
+  const visible = workbook.sheets.filter(sheet => !sheet.hidden);
+  return visible.length ? visible : workbook.sheets;
+};
+
+// Columns up to the last one holding a value, without hidden ones
+const getColumns = (sheet: Worksheet): number[] => {
+  const width = sheet.rows.reduce((max, row) => Math.max(max, row?.length ?? 0), 0);
+  return Array.from({ length: width }, (_value, index) => index).filter(index => sheet.columnWidths?.[index] !== 0);
+};
+
+const renderCell = (cell: SpreadsheetCell | undefined, date1904: boolean, header: boolean): TableCell => {
+  if (!cell) return { blocks: [{ type: 'paragraph', runs: [], style: { spaceBefore: 0, spaceAfter: 0 } }] };
+
+  const style = cell.style ?? {};
+  const runs: DocumentRun[] = [];
+  formatCellValue(cell, date1904).split(/\r\n|\r|\n/).forEach((line, index) => {
+    if (index > 0) runs.push({ type: 'break', kind: 'line' });
+    if (line) {
+      runs.push({
+        type: 'text',
+        text: line,
+        style: {
+          fontSize: CELL_FONT_SIZE,
+          bold: header || style.bold || undefined,
+          italic: style.italic,
+          color: style.color,
+          highlight: style.fill,
+        },
+      });
+    }
+  });
+
+  // Like Excel, numbers line up on the right and booleans and errors are centred
+  const alignment: ParagraphAlignment = style.alignment
+    ?? (typeof cell.value === 'number' ? 'right' : typeof cell.value === 'boolean' || cell.error ? 'center' : 'left');
+  return { blocks: [{ type: 'paragraph', runs, style: { alignment, spaceBefore: 0, spaceAfter: 0 } }] };
+};
+
+const sheetToTable = (sheet: Worksheet, date1904: boolean): DocumentBlock | null => {
+  const columns = getColumns(sheet);
+  if (columns.length === 0) return null;
+
+  // Title rows merged across the sheet are repeated with the column headings under them
+  const isTitleRow = (row: number) => row < sheet.rows.length - 1 && sheet.merges.some(range =>
+    range.startRow === row && range.startColumn <= columns[0] && range.endColumn >= columns[columns.length - 1]);
+  let headerRows = 1;
+  while (isTitleRow(headerRows - 1)) headerRows++;
+
+  // Merged ranges span columns from their first cell; the cells they cover are left out
+  const covered = new Set<string>();
+  const spans = new Map<string, number>();
+  for (const range of sheet.merges) {
+    const spannedColumns = columns.filter(column => column >= range.startColumn && column <= range.endColumn).length;
+    spans.set(`${range.startRow}:${range.startColumn}`, Math.max(spannedColumns, 1));
+    for (let row = range.startRow; row <= range.endRow; row++) {
+      for (let column = range.startColumn; column <= range.endColumn; column++) {
+        if (row !== range.startRow || column !== range.startColumn) covered.add(`${row}:${column}`);
+      }
+    }
+  }
+  // A heading merged over several rows is repeated as a whole
+  for (const range of sheet.merges) {
+    if (range.startRow < headerRows) headerRows = Math.max(headerRows, range.endRow + 1);
+  }
+
+  const rows: TableRow[] = [];
+  for (let rowIndex = 0; rowIndex < sheet.rows.length; rowIndex++) {
+    const row = sheet.rows[rowIndex] ?? [];
+    const header = rowIndex < headerRows;
+    const cells: TableCell[] = [];
+    for (const column of columns) {
+      const key = `${rowIndex}:${column}`;
+      const span = spans.get(key);
+      if (covered.has(key)) {
+        // Rows under a vertical merge keep a blank cell in its place
+        const top = sheet.merges.find(range => range.startColumn === column && rowIndex > range.startRow && rowIndex <= range.endRow);
+        if (top) cells.push({ ...renderCell(undefined, date1904, header), colSpan: spans.get(`${top.startRow}:${top.startColumn}`) });
+        continue;
+      }
+      const cell = renderCell(row[column], date1904, header);
+      cells.push(span && span > 1 ? { ...cell, colSpan: span } : cell);
+    }
+    rows.push({ cells, isHeader: header || undefined });
+  }
+  return { type: 'table', rows };
+};
+
+/**
+ * A document with one table per printed sheet, each on a new page under
+ * the sheet's name
+ */
+export const workbookToDocument = (workbook: Workbook): DocumentModel => {
+  const sheets = getPrintedSheets(workbook);
+  const blocks: DocumentBlock[] = [];
+  sheets.forEach((sheet, index) => {
+    if (sheets.length > 1) {
+      const runs: DocumentRun[] = [{ type: 'text', text: sheet.name, style: {} }];
+      if (index > 0) runs.unshift({ type: 'break', kind: 'page' });
+      blocks.push({ type: 'paragraph', runs, style: { spaceAfter: 6 }, headingLevel: 2 });
+    }
+    const table = sheetToTable(sheet, workbook.date1904 ?? false);
+    if (table) blocks.push(table);
+  });
+  return { title: workbook.title, blocks };
+};
+
+/**
+ * Page set-up for printing a workbook: small margins, and landscape pages
+ * when a sheet has many columns
+ */
+export const getWorkbookPageLayout = (workbook: Workbook): Partial<PdfLayoutOptions> => {
+  const columns = Math.max(0, ...getPrintedSheets(workbook).map(sheet => getColumns(sheet).length));
+  const [width, height] = PAGE_SIZES.a4;
+  return {
+    pageSize: columns > PORTRAIT_MAX_COLUMNS ? [height, width] : [width, height],
+    margins: { top: 36, right: 36, bottom: 36, left: 36 },
+    fontSize: CELL_FONT_SIZE,
+  };
+};
@@ -0,0 +1,42 @@
+/**
+ * Plain text reader
+ * Decodes text files whatever their encoding and turns them into a
+ * DocumentModel with one paragraph per line.
+ */
+
+import { DocumentModel, DocumentParagraph, RunStyle } from '../types/documentModel';
+
+// Monospaced so columns and indentation line up as in a text editor
+const TEXT_STYLE: RunStyle = { fontFamily: 'Courier New', fontSize: 10 };
+
+/**
+ * Decode text by its byte order mark, as UTF-8 when it is valid, otherwise as Windows-1252
+ */
+export const decodeText = (bytes: Uint8Array): string => {
+  if (bytes[0] === 0xef && bytes[1] === 0xbb && bytes[2] === 0xbf) return new TextDecoder('utf-8').decode(bytes.subarray(3));
+  if (bytes[0] === 0xff && bytes[1] === 0xfe) return new TextDecoder('utf-16le').decode(bytes.subarray(2));
+  if (bytes[0] === 0xfe && bytes[1] === 0xff) return new TextDecoder('utf-16be').decode(bytes.subarray(2));
+  try {
+    return new TextDecoder('utf-8', { fatal: true }).decode(bytes);
+  } catch {
+    return new TextDecoder('windows-1252').decode(bytes);
+  }
+};
+
+/**
+ * Read a text file; form feeds start a new page
+ */
+export const readPlainText = (bytes: Uint8Array, title?: string): DocumentModel => {
+  const lines = decodeText(bytes).replace(/(\r\n|\r|\n)$/, '').split(/\r\n|\r|\n/);
+  return {
+    title,
+    blocks: lines.map((line): DocumentParagraph => {
+      const runs: DocumentParagraph['runs'] = [];
+      line.split('\f').forEach((part, index) => {
+        if (index > 0) runs.push({ type: 'break', kind: 'page' });
+        if (part) runs.push({ type: 'text', text: part, style: TEXT_STYLE });
+      });
+      return { type: 'paragraph', runs, style: { spaceBefore: 0, spaceAfter: 0 } };
+    }),
+  };
+};
@@ -0,0 +1,331 @@
+/**
+ * TrueType font parsing and subsetting
+ * Reads the metrics and character map of a TrueType (glyf) font or
+ * collection member and writes subsets containing only the used glyphs.
+ */
+
+export interface TrueTypeFont {
+  postScriptName: string;
+  familyName: string;
+  bold: boolean;
+  italic: boolean;
+  unitsPerEm: number;
+  // Vertical metrics in font units
+  ascent: number;
+  descent: number;
+  capHeight: number;
+  bbox: [number, number, number, number];
+  italicAngle: number;
+  fixedPitch: boolean;
+  numGlyphs: number;
+  // Glyph for a Unicode code point, 0 (.notdef) when the font has none
+  getGlyphId: (codePoint: number) => number;
+  // Advance width in font units
+  getAdvanceWidth: (glyphId: number) => number;
+  tables: Map<string, Uint8Array>;
+}
+
+// Tables carried over into subsets; cmap is not needed with Identity CID mapping
+const SUBSET_TABLES = ['head', 'hhea', 'maxp', 'hmtx', 'loca', 'glyf', 'cvt ', 'fpgm', 'prep'];
+
+// Composite glyph component flags
+const ARG_1_AND_2_ARE_WORDS = 0x0001;
+const WE_HAVE_A_SCALE = 0x0008;
+const MORE_COMPONENTS = 0x0020;
+const WE_HAVE_AN_X_AND_Y_SCALE = 0x0040;
+const WE_HAVE_A_TWO_BY_TWO = 0x0080;
+
+const readTag = (data: Uint8Array, offset: number) => String.fromCharCode(...data.subarray(offset, offset + 4));
+
+const view = (data: Uint8Array) => new DataView(data.buffer, data.byteOffset, data.byteLength);
+
+const decodeUtf16 = (data: Uint8Array): string => {
+  let result = '';
+  for (let i = 0; i + 1 < data.length; i += 2) result += String.fromCharCode((data[i] << 8) | data[i + 1]);
+  return result;
+};
+
+const readName = (table: Uint8Array | undefined, nameId: number): string => {
+  if (!table) return '';
+  const dv = view(table);
+  const count = dv.getUint16(2);
+  const stringOffset = dv.getUint16(4);
+  let fallback = '';
+  for (let i = 0; i < count; i++) {
+    const record = 6 + i * 12;
+    const platform = dv.getUint16(record);
+    if (dv.getUint16(record + 6) !== nameId) continue;
+    const length = dv.getUint16(record + 8);
+    const offset = stringOffset + dv.getUint16(record + 10);
+    const bytes = table.subarray(offset, offset + length);
+    if (platform === 3 || platform === 0) return decodeUtf16(bytes);
+    if (platform === 1) fallback = String.fromCharCode(...bytes);
+  }
+  return fallback;
+};
+
+/**
+ * Build a code point lookup from the best Unicode cmap subtable (format 4 or 12)
+ */
+const parseCmap = (table: Uint8Array | undefined): ((codePoint: number) => number) => {
+  if (!table) return () => 0;
+  const dv = view(table);
+  const count = dv.getUint16(2);
+  let best: { offset: number; score: number; symbol: boolean } | null = null;
+
+  for (let i = 0; i < count; i++) {
+    const platform = dv.getUint16(4 + i * 8);
+    const encoding = dv.getUint16(6 + i * 8);
+    const offset = dv.getUint32(8 + i * 8);
+    if (offset + 2 > table.length) continue;
+    const format = dv.getUint16(offset);
+    let score = 0;
+    if (format === 12 && (platform === 0 || (platform === 3 && encoding === 10))) score = 4;
+    else if (format === 4 && (platform === 0 || (platform === 3 && encoding === 1))) score = 3;
+    else if (format === 4 && platform === 3 && encoding === 0) score = 1;
+    if (score && (!best || score > best.score)) best = { offset, score, symbol: platform === 3 && encoding === 0 };
+  }
+  if (!best) return () => 0;
+
+  const { offset, symbol } = best;
+  if (dv.getUint16(offset) === 12) {
+    const groups = dv.getUint32(offset + 12);
+    return (codePoint: number) => {
+      let low = 0;
+      let high = groups - 1;
+      while (low <= high) {
+        const middle = (low + high) >> 1;
+        const group = offset + 16 + middle * 12;
+        const start = dv.getUint32(group);
+        const end = dv.getUint32(group + 4);
+        if (codePoint < start) high = middle - 1;
+        else if (codePoint > end) low = middle + 1;
+        else return dv.getUint32(group + 8) + codePoint - start;
+      }
+      return 0;
+    };
+  }
+
+  const segments = dv.getUint16(offset + 6) / 2;
+  const endCodes = offset + 14;
+  const startCodes = endCodes + segments * 2 + 2;
+  const idDeltas = startCodes + segments * 2;
+  const idRangeOffsets = idDeltas + segments * 2;
+  const lookup = (codePoint: number) => {
+    if (codePoint > 0xffff) return 0;
+    for (let i = 0; i < segments; i++) {
+      if (codePoint > dv.getUint16(endCodes + i * 2)) continue;
+      const start = dv.getUint16(startCodes + i * 2);
+      if (codePoint < start) return 0;
+      const delta = dv.getInt16(idDeltas + i * 2);
+      const rangeOffset = dv.getUint16(idRangeOffsets + i * 2);
+      if (!rangeOffset) return (codePoint + delta) & 0xffff;
+      const glyphAddress = idRangeOffsets + i * 2 + rangeOffset + (codePoint - start) * 2;
+      if (glyphAddress + 2 > table.length) return 0;
+      const glyph = dv.getUint16(glyphAddress);
+      return glyph ? (glyph + delta) & 0xffff : 0;
+    }
+    return 0;
+  };
+  // Symbol fonts map their characters into the private use area
+  return symbol ? (codePoint: number) => lookup(codePoint) || (codePoint < 0x100 ? lookup(0xf000 + codePoint) : 0) : lookup;
+};
+
+/**
+ * Parse a TrueType font; `fontIndex` selects the member of a .ttc collection
+ */
+export const parseTrueType = (data: Uint8Array, fontIndex = 0): TrueTypeFont => {
+  let directory = 0;
+  if (readTag(data, 0) === 'ttcf') {
+    const count = view(data).getUint32(8);
+    if (fontIndex >= count) throw new Error('Font index out of range');
+    directory = view(data).getUint32(12 + fontIndex * 4);
+  }
+  const version = readTag(data, directory);
+  if (version === 'OTTO') throw new Error('CFF-based OpenType fonts are not supported');
+
+  const dv = view(data);
+  const tableCount = dv.getUint16(directory + 4);
+  const tables = new Map<string, Uint8Array>();
+  for (let i = 0; i < tableCount; i++) {
+    const record = directory + 12 + i * 16;
+    const offset = dv.getUint32(record + 8);
+    const length = dv.getUint32(record + 12);
+    tables.set(readTag(data, record), data.subarray(offset, offset + length));
+  }
+
+  const head = tables.get('head');
+  const hhea = tables.get('hhea');
+  const maxp = tables.get('maxp');
+  const hmtx = tables.get('hmtx');
+  if (!head || !hhea || !maxp || !hmtx || !tables.has('glyf') || !tables.has('loca')) {
+    throw new Error('Not a TrueType font with glyph outlines');
+  }
+
+  const headView = view(head);
+  const hheaView = view(hhea);
+  const hmtxView = view(hmtx);
+  const os2 = tables.get('OS/2');
+  const os2View = os2 ? view(os2) : null;
+  const post = tables.get('post');
+  const postView = post ? view(post) : null;
+  const macStyle = headView.getUint16(44);
+  const fsSelection = os2View && os2View.byteLength >= 64 ? os2View.getUint16(62) : 0;
+  const numberOfHMetrics = Math.max(hheaView.getUint16(34), 1);
+  const unitsPerEm = headView.getUint16(18) || 1000;
+  const ascent = os2View && os2View.byteLength >= 72 ? os2View.getInt16(68) : hheaView.getInt16(4);
+  const descent = os2View && os2View.byteLength >= 72 ? os2View.getInt16(70) : hheaView.getInt16(6);
+
+  return {
+    postScriptName: readName(tables.get('name'), 6) || 'Embedded',
+    familyName: readName(tables.get('name'), 1),
+    bold: (macStyle & 1) !== 0 || (fsSelection & 0x20) !== 0,
+    italic: (macStyle & 2) !== 0 || (fsSelection & 1) !== 0,
+    unitsPerEm,
+    ascent,
+    descent,
+    capHeight: os2View && os2View.byteLength >= 90 ? os2View.getInt16(88) : Math.round(ascent * 0.7),
+    bbox: [headView.getInt16(36), headView.getInt16(38), headView.getInt16(40), headView.getInt16(42)],
+    italicAngle: postView ? postView.getInt32(4) / 65536 : 0,
+    fixedPitch: postView ? postView.getUint32(12) !== 0 : false,
+    numGlyphs: view(maxp).getUint16(4),
+    getGlyphId: parseCmap(tables.get('cmap')),
+    getAdvanceWidth: (glyphId: number) => {
+      const index = Math.min(glyphId, numberOfHMetrics - 1);
+      return index * 4 + 2 <= hmtx.length ? hmtxView.getUint16(index * 4) : 0;
+    },
+    tables,
+  };
+};
+
+/**
+ * Whether the font's licence (OS/2 fsType) allows embedding it in documents
+ */
+export const isEmbeddingAllowed = (font: TrueTypeFont): boolean => {
+  const os2 = font.tables.get('OS/2');
+  if (!os2 || os2.length < 10) return true;
+  const fsType = view(os2).getUint16(8);
+  // Restricted licence unless a less restrictive bit is also set
+  return (fsType & 0x000f) !== 0x0002;
+};
+
+const getGlyphData = (font: TrueTypeFont, glyphId: number): Uint8Array => {
+  const loca = font.tables.get('loca') as Uint8Array;
+  const glyf = font.tables.get('glyf') as Uint8Array;
+  const longOffsets = view(font.tables.get('head') as Uint8Array).getInt16(50) === 1;
+  const locaView = view(loca);
+  if (glyphId >= font.numGlyphs) return new Uint8Array(0);
+  const start = longOffsets ? locaView.getUint32(glyphId * 4) : locaView.getUint16(glyphId * 2) * 2;
+  const end = longOffsets ? locaView.getUint32(glyphId * 4 + 4) : locaView.getUint16(glyphId * 2 + 2) * 2;
+  return end > start ? glyf.subarray(start, Math.min(end, glyf.length)) : new Uint8Array(0);
+};
+
+/**
+ * Visit the component references of a composite glyph
+ */
+const forEachComponent = (glyph: Uint8Array, visit: (glyphIdOffset: number) => void) => {
+  if (glyph.length < 10 || view(glyph).getInt16(0) >= 0) return;
+  const dv = view(glyph);
+  let offset = 10;
+  let flags = MORE_COMPONENTS;
+  while (flags & MORE_COMPONENTS && offset + 4 <= glyph.length) {
+    flags = dv.getUint16(offset);
+    visit(offset + 2);
+    offset += 4 + (flags & ARG_1_AND_2_ARE_WORDS ? 4 : 2);
+    if (flags & WE_HAVE_A_SCALE) offset += 2;
+    else if (flags & WE_HAVE_AN_X_AND_Y_SCALE) offset += 4;
+    else if (flags & WE_HAVE_A_TWO_BY_TWO) offset += 8;
+  }
+};
+
+const tableChecksum = (data: Uint8Array): number => {
+  let sum = 0;
+  const padded = new Uint8Array(Math.ceil(data.length / 4) * 4);
+  padded.set(data);
+  const dv = view(padded);
+  for (let i = 0; i < padded.length; i += 4) sum = (sum + dv.getUint32(i)) >>> 0;
+  return sum;
+};
+
+/**
+ * Write a font file containing `glyphIds` in that order, so the index in the
+ * list becomes the glyph id in the subset. Components of composite glyphs
+ * are appended to the list as needed.
+ */
+export const subsetTrueType = (font: TrueTypeFont, glyphIds: number[]): Uint8Array => {
+  const order = glyphIds.length && glyphIds[0] === 0 ? [...glyphIds] : [0, ...glyphIds.filter(id => id !== 0)];
+  const newIds = new Map(order.map((id, index) => [id, index]));
+
+  const glyphs: Uint8Array[] = [];
+  for (let index = 0; index < order.length; index++) {
+    const glyph = getGlyphData(font, order[index]).slice();
+    forEachComponent(glyph, offset => {
+      const component = view(glyph).getUint16(offset);
+      if (!newIds.has(component)) {
+        newIds.set(component, order.length);
+        order.push(component);
+      }
+      view(glyph).setUint16(offset, newIds.get(component) as number);
+    });
+    glyphs.push(glyph);
+  }
+
+  const glyfLength = glyphs.reduce((total, glyph) => total + Math.ceil(glyph.length / 4) * 4, 0);
+  const glyf = new Uint8Array(glyfLength);
+  const loca = new Uint8Array((order.length + 1) * 4);
+  const hmtx = new Uint8Array(order.length * 4);
+  const hmtxSource = view(font.tables.get('hmtx') as Uint8Array);
+  const sourceMetrics = Math.max(view(font.tables.get('hhea') as Uint8Array).getUint16(34), 1);
+  let position = 0;
+  glyphs.forEach((glyph, index) => {
+    view(loca).setUint32(index * 4, position);
+    glyf.set(glyph, position);
+    position += Math.ceil(glyph.length / 4) * 4;
+    const oldId = order[index];
+    const lsbOffset = oldId < sourceMetrics ? oldId * 4 + 2 : sourceMetrics * 4 + (oldId - sourceMetrics) * 2;
+    view(hmtx).setUint16(index * 4, font.getAdvanceWidth(oldId));
+    view(hmtx).setInt16(index * 4 + 2, lsbOffset + 2 <= hmtxSource.byteLength ? hmtxSource.getInt16(lsbOffset) : 0);
+  });
+  view(loca).setUint32(order.length * 4, position);
+
+  const head = (font.tables.get('head') as Uint8Array).slice();
+  view(head).setUint32(8, 0);
+  view(head).setInt16(50, 1);
+  const hhea = (font.tables.get('hhea') as Uint8Array).slice();
+  view(hhea).setUint16(34, order.length);
+  const maxp = (font.tables.get('maxp') as Uint8Array).slice();
+  view(maxp).setUint16(4, order.length);
+
+  const replaced: Record<string, Uint8Array> = { head, hhea, maxp, hmtx, loca, glyf };
+  const tables = SUBSET_TABLES
+    .map(tag => [tag, replaced[tag] ?? font.tables.get(tag)] as [string, Uint8Array | undefined])
+    .filter((entry): entry is [string, Uint8Array] => entry[1] !== undefined)
+    .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0));
+
+  // Offset table with binary search parameters, then the table records
+  const headerLength = 12 + tables.length * 16;
+  const total = headerLength + tables.reduce((sum, [, data]) => sum + Math.ceil(data.length / 4) * 4, 0);
+  const output = new Uint8Array(total);
+  const out = view(output);
+  const searchPower = 2 ** Math.floor(Math.log2(tables.length));
+  out.setUint32(0, 0x00010000);
+  out.setUint16(4, tables.length);
+  out.setUint16(6, searchPower * 16);
+  out.setUint16(8, Math.log2(searchPower));
+  out.setUint16(10, tables.length * 16 - searchPower * 16);
+
+  let offset = headerLength;
+  let headOffset = 0;
+  tables.forEach(([tag, data], index) => {
+    const record = 12 + index * 16;
+    for (let i = 0; i < 4; i++) output[record + i] = tag.charCodeAt(i);
+    out.setUint32(record + 4, tableChecksum(data));
+    out.setUint32(record + 8, offset);
+    out.setUint32(record + 12, data.length);
+    output.set(data, offset);
+    if (tag === 'head') headOffset = offset;
+    offset += Math.ceil(data.length / 4) * 4;
+  });
+  out.setUint32(headOffset + 8, (0xb1b0afba - tableChecksum(output)) >>> 0);
+  return output;
+};
@@ -0,0 +1,239 @@
+/**
+ * XLSX (Office Open XML) reader
+ * Reads the sheets of a workbook with their shared strings, cell styles,
+ * number formats, merged cells and column widths into a Workbook.
+ */
+
+import { CellRange, CellStyle, SpreadsheetCell, Workbook, Worksheet } from '../types/spreadsheetModel';
+import { BUILTIN_NUMBER_FORMATS, dateToSerial } from './numberFormat';
+import { findRelationship, readRelationships, readXmlPart } from './opcPackage';
+import { openZip } from './zipReader';
+import { childElement, childElements, getAttribute, getTextContent, localName, XmlElement } from './xmlUtils';
+
+interface CellFormat {
+  numberFormat?: string;
+  style?: CellStyle;
+}
+
+const HORIZONTAL_ALIGNMENTS: Record<string, CellStyle['alignment']> = {
+  left: 'left',
+  center: 'center',
+  centerContinuous: 'center',
+  right: 'right',
+};
+
+/**
+ * Zero-based row and column of an A1-style reference
+ */
+const parseCellReference = (reference: string): [number, number] | null => {
+  const match = /^\$?([A-Z]{1,3})\$?(\d+)$/i.exec(reference);
+  if (!match) return null;
+  let column = 0;
+  for (const letter of match[1].toUpperCase()) column = column * 26 + letter.charCodeAt(0) - 64;
+  return [Number(match[2]) - 1, column - 1];
+};
+
+const parseRange = (reference: string): CellRange | null => {
+  const [start, end = start] = reference.split(':');
+  const from = parseCellReference(start);
+  const to = parseCellReference(end);
+  if (!from || !to) return null;
+  return {
+    startRow: Math.min(from[0], to[0]),
+    startColumn: Math.min(from[1], to[1]),
+    endRow: Math.max(from[0], to[0]),
+    endColumn: Math.max(from[1], to[1]),
+  };
+};
+
+// Characters XML cannot hold are stored as _xHHHH_
+const decodeEscapes = (text: string): string =>
+  text.replace(/_x([0-9A-Fa-f]{4})_/g, (_match, code: string) => String.fromCharCode(parseInt(code, 16)));
+
+/**
+ * Text of a string item: plain or rich text runs, without phonetic guides
+ */
+const readStringItem = (item: XmlElement): string =>
+  decodeEscapes(childElements(item).map(child => {
+    const name = localName(child.name);
+    if (name === 't') return getTextContent(child);
+    if (name === 'r') return getTextContent(childElement(child, 't'));
+    return '';
+  }).join(''));
+
+// ARGB as stored by Excel; theme and indexed colours are left out
+const readColor = (element: XmlElement | null): string | undefined => {
+  const rgb = getAttribute(element, 'rgb');
+  return rgb && /^[0-9A-Fa-f]{6,8}$/.test(rgb) ? rgb.slice(-6).toUpperCase() : undefined;
+};
+
+const isOn = (element: XmlElement | null): boolean => {
+  if (!element) return false;
+  const value = getAttribute(element, 'val');
+  return value === null || value === '1' || value === 'true';
+};
+
+/**
+ * Number formats and styles of the cell formats (cellXfs), by index
+ */
+const readCellFormats = (stylesXml: XmlElement | null): CellFormat[] => {
+  const numberFormats = new Map<number, string>();
+  for (const format of childElements(childElement(stylesXml, 'numFmts'), 'numFmt')) {
+    const code = getAttribute(format, 'formatCode');
+    if (code !== null) numberFormats.set(Number(getAttribute(format, 'numFmtId')), code);
+  }
+
+  const fonts = childElements(childElement(stylesXml, 'fonts'), 'font').map((font): CellStyle => ({
+    bold: isOn(childElement(font, 'b')) || undefined,
+    italic: isOn(childElement(font, 'i')) || undefined,
+    color: readColor(childElement(font, 'color')),
+  }));
+  const fills = childElements(childElement(stylesXml, 'fills'), 'fill').map(fill => {
+    const pattern = childElement(fill, 'patternFill');
+    return getAttribute(pattern, 'patternType') === 'solid' ? readColor(childElement(pattern, 'fgColor')) : undefined;
+  });
+
+  return childElements(childElement(stylesXml, 'cellXfs'), 'xf').map((xf): CellFormat => {
+    const formatId = Number(getAttribute(xf, 'numFmtId') ?? 0);
+    const code = numberFormats.get(formatId) ?? BUILTIN_NUMBER_FORMATS[formatId];
+    const style: CellStyle = {
+      ...fonts[Number(getAttribute(xf, 'fontId') ?? 0)],
+      fill: fills[Number(getAttribute(xf, 'fillId') ?? 0)],
+      alignment: HORIZONTAL_ALIGNMENTS[getAttribute(childElement(xf, 'alignment'), 'horizontal') ?? ''],
+    };
+    const hasStyle = Object.values(style).some(value => value !== undefined);
+    return { numberFormat: code && code !== 'General' ? code : undefined, style: hasStyle ? style : undefined };
+  });
+};
+
+const readCell = (element: XmlElement, sharedStrings: string[], formats: CellFormat[]): SpreadsheetCell | undefined => {
+  const type = getAttribute(element, 't') ?? 'n';
+  const valueElement = childElement(element, 'v');
+  const raw = valueElement ? getTextContent(valueElement) : null;
+  const format = formats[Number(getAttribute(element, 's') ?? 0)] ?? {};
+  const formula = childElement(element, 'f');
+
+  let cell: SpreadsheetCell;
+  switch (type) {
+    case 's':
+      if (raw === null) return undefined;
+      cell = { value: sharedStrings[Number(raw)] ?? '' };
+      break;
+    case 'inlineStr': {
+      const item = childElement(element, 'is');
+      if (!item) return undefined;
+      cell = { value: readStringItem(item) };
+      break;
+    }
+    case 'str':
+      cell = { value: decodeEscapes(raw ?? '') };
+      break;
+    case 'b':
+      if (raw === null) return undefined;
+      cell = { value: raw === '1' || raw === 'true' };
+      break;
+    case 'e':
+      cell = { value: raw ?? '#N/A', error: true };
+      break;
+    case 'd': {
+      if (!raw) return undefined;
+      // Times without a zone are wall-clock times, kept as they are like serial dates
+      const date = new Date(/[zZ]|[+-]\d\d:?\d\d$/.test(raw) || !raw.includes('T') ? raw : `${raw}Z`);
+      if (Number.isNaN(date.getTime())) return undefined;
+      cell = { value: dateToSerial(date), numberFormat: format.numberFormat ?? 'yyyy-mm-dd' };
+      break;
+    }
+    default: {
+      if (raw === null || raw === '') return undefined;
+      const number = Number(raw);
+      if (Number.isNaN(number)) return undefined;
+      cell = { value: number };
+    }
+  }
+
+  if (format.numberFormat && !cell.error) cell.numberFormat ??= format.numberFormat;
+  if (format.style) cell.style = format.style;
+  const formulaText = formula ? getTextContent(formula) : '';
+  if (formulaText) cell.formula = formulaText;
+  return cell;
+};
+
+const readWorksheet = (sheetXml: XmlElement, name: string, sharedStrings: string[], formats: CellFormat[]): Worksheet => {
+  const sheet: Worksheet = { name, rows: [], merges: [] };
+
+  let rowIndex = -1;
+  for (const row of childElements(childElement(sheetXml, 'sheetData'), 'row')) {
+    // Row and cell positions are optional and then follow on from the previous one
+    const number = Number(getAttribute(row, 'r'));
+    rowIndex = number > 0 ? number - 1 : rowIndex + 1;
+    const cells: Array<SpreadsheetCell | undefined> = [];
+    let columnIndex = -1;
+    for (const element of childElements(row, 'c')) {
+      const position = parseCellReference(getAttribute(element, 'r') ?? '');
+      columnIndex = position ? position[1] : columnIndex + 1;
+      const cell = readCell(element, sharedStrings, formats);
+      if (cell) cells[columnIndex] = cell;
+    }
+    if (cells.length > 0) sheet.rows[rowIndex] = cells;
+  }
+
+  for (const merge of childElements(childElement(sheetXml, 'mergeCells'), 'mergeCell')) {
+    const range = parseRange(getAttribute(merge, 'ref') ?? '');
+    if (range) sheet.merges.push(range);
+  }
+
+  const columnWidths: Array<number | undefined> = [];
+  for (const column of childElements(childElement(sheetXml, 'cols'), 'col')) {
+    const hidden = getAttribute(column, 'hidden') === '1' || getAttribute(column, 'hidden') === 'true';
+    const width = hidden ? 0 : Number(getAttribute(column, 'width'));
+    const min = Number(getAttribute(column, 'min'));
+    // A range may cover every column up to 16384; only the first ones matter
+    const max = Math.min(Number(getAttribute(column, 'max')), min + 256);
+    if (!min || (!hidden && !width)) continue;
+    for (let index = min; index <= max; index++) columnWidths[index - 1] = width;
+  }
+  if (columnWidths.length > 0) sheet.columnWidths = columnWidths;
+
+  return sheet;
+};
+
+/**
+ * Read a .xlsx file into the shared spreadsheet model
+ */
+export const readXlsx = (bytes: Uint8Array): Workbook => {
+  const zip = openZip(bytes);
+  const packageRelationships = readRelationships(zip, '');
+  const workbookPath = findRelationship(packageRelationships, '/officeDocument')?.target || 'xl/workbook.xml';
+
+  const workbookXml = readXmlPart(zip, workbookPath);
+  const sheetList = childElement(workbookXml, 'sheets');
+  if (!workbookXml || !sheetList) {
+    throw new Error('This file is not an Excel workbook (xl/workbook.xml is missing)');
+  }
+
+  const relationships = readRelationships(zip, workbookPath);
+  const sharedStringsPart = findRelationship(relationships, '/sharedStrings');
+  const sharedStrings = childElements(sharedStringsPart ? readXmlPart(zip, sharedStringsPart.target) : null, 'si').map(readStringItem);
+  const stylesPart = findRelationship(relationships, '/styles');
+  const formats = readCellFormats(stylesPart ? readXmlPart(zip, stylesPart.target) : null);
+
+  const date1904 = getAttribute(childElement(workbookXml, 'workbookPr'), 'date1904');
+  const workbook: Workbook = { sheets: [], date1904: date1904 === '1' || date1904 === 'true' || undefined };
+
+  for (const entry of childElements(sheetList, 'sheet')) {
+    const relationship = relationships.get(getAttribute(entry, 'id') ?? '');
+    // Chart sheets and dialog sheets hold no cells
+    if (!relationship || !relationship.type.endsWith('/worksheet')) continue;
+    const sheetXml = readXmlPart(zip, relationship.target);
+    if (!sheetXml) continue;
+    const sheet = readWorksheet(sheetXml, getAttribute(entry, 'name') || `Sheet${workbook.sheets.length + 1}`, sharedStrings, formats);
+    if (getAttribute(entry, 'state') === 'hidden' || getAttribute(entry, 'state') === 'veryHidden') sheet.hidden = true;
+    workbook.sheets.push(sheet);
+  }
+
+  const corePart = findRelationship(packageRelationships, '/core-properties');
+  const title = getTextContent(childElement(corePart ? readXmlPart(zip, corePart.target) : null, 'title')).trim();
+  if (title) workbook.title = title;
+
+  return workbook;
+};
@@ -0,0 +1,236 @@
+/**
+ * XLSX (Office Open XML) writer
+ * Serialises a Workbook into a SpreadsheetML package with shared strings,
+ * number formats, cell styles, merged cells and column widths.
+ */
+
+import { CellStyle, SpreadsheetCell, Workbook, Worksheet } from '../types/spreadsheetModel';
+import { BUILTIN_NUMBER_FORMATS } from './numberFormat';
+import {
+  APP_PROPERTIES_XML,
+  buildContentTypesXml,
+  buildCorePropertiesXml,
+  buildPackageRelationshipsXml,
+  NS_PACKAGE_REL,
+  NS_REL,
+} from './opcPackage';
+import { escapeXml, replaceInvalidXmlChars, XML_DECLARATION } from './xmlUtils';
+import { createZip } from './zipWriter';
+
+const NS_MAIN = 'http://schemas.openxmlformats.org/spreadsheetml/2006/main';
+
+export const XLSX_MIME_TYPE = 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet';
+
+// Ids below this are built in; custom number formats are numbered from it
+const FIRST_CUSTOM_FORMAT_ID = 164;
+const MAX_SHEET_NAME_LENGTH = 31;
+
+const BUILTIN_FORMAT_IDS = new Map(Object.entries(BUILTIN_NUMBER_FORMATS).map(([id, code]) => [code, Number(id)]));
+
+interface StyleTable {
+  // Cell format (xf) index by number format and style
+  formats: Map<string, number>;
+  numberFormats: Map<string, number>;
+  fonts: Map<string, number>;
+  fills: Map<string, number>;
+  cellFormats: string[];
+}
+
+/**
+ * A1-style reference of a zero-based row and column
+ */
+const cellReference = (row: number, column: number): string => {
+  let letters = '';
+  for (let remaining = column + 1; remaining > 0; remaining = Math.floor((remaining - 1) / 26)) {
+    letters = String.fromCharCode(65 + ((remaining - 1) % 26)) + letters;
+  }
+  return `${letters}${row + 1}`;
+};
+
+/**
+ * Text content; characters XML cannot hold are written as _xHHHH_
+ */
+const textElement = (text: string): string => {
+  // An underscore that would read as an escape is escaped itself
+  const encoded = replaceInvalidXmlChars(
+    text.replace(/_(x[0-9A-Fa-f]{4}_)/g, '_x005F_$1'),
+    char => `_x${char.charCodeAt(0).toString(16).padStart(4, '0').toUpperCase()}_`
+  );
+  return /^\s|\s$/.test(text) ? `<t xml:space="preserve">${escapeXml(encoded)}</t>` : `<t>${escapeXml(encoded)}</t>`;
+};
+
+/**
+ * Sheet names must be unique, at most 31 characters and free of []:*?/\
+ */
+const getSheetNames = (sheets: Worksheet[]): string[] => {
+  const used = new Set<string>();
+  return sheets.map((sheet, index) => {
+    const base = sheet.name.replace(/[[\]:*?/\\]/g, '_').replace(/^'+|'+$/g, '').trim().slice(0, MAX_SHEET_NAME_LENGTH) || `Sheet${index + 1}`;
+    let name = base;
+    for (let count = 2; used.has(name.toLowerCase()); count++) {
+      const suffix = ` (${count})`;
+      name = base.slice(0, MAX_SHEET_NAME_LENGTH - suffix.length) + suffix;
+    }
+    used.add(name.toLowerCase());
+    return name;
+  });
+};
+
+const getStyleIndex = (table: StyleTable, cell: SpreadsheetCell): number => {
+  const numberFormat = cell.numberFormat && cell.numberFormat !== 'General' ? cell.numberFormat : undefined;
+  const style: CellStyle = cell.style ?? {};
+  if (!numberFormat && !Object.values(style).some(value => value !== undefined)) return 0;
+
+  const key = JSON.stringify([numberFormat, style.bold, style.italic, style.color, style.fill, style.alignment]);
+  const existing = table.formats.get(key);
+  if (existing !== undefined) return existing;
+
+  let formatId = 0;
+  if (numberFormat) {
+    formatId = BUILTIN_FORMAT_IDS.get(numberFormat) ?? table.numberFormats.get(numberFormat) ?? FIRST_CUSTOM_FORMAT_ID + table.numberFormats.size;
+    if (formatId >= FIRST_CUSTOM_FORMAT_ID) table.numberFormats.set(numberFormat, formatId);
+  }
+
+  const fontKey = JSON.stringify([style.bold, style.italic, style.color]);
+  let fontId = 0;
+  if (style.bold || style.italic || style.color) {
+    fontId = table.fonts.get(fontKey) ?? table.fonts.size + 1;
+    table.fonts.set(fontKey, fontId);
+  }
+  // Fills 0 and 1 are the required "none" and "gray125" patterns
+  let fillId = 0;
+  if (style.fill) {
+    fillId = table.fills.get(style.fill) ?? table.fills.size + 2;
+    table.fills.set(style.fill, fillId);
+  }
+
+  const alignment = style.alignment ? `<alignment horizontal="${style.alignment}"/>` : '';
+  table.cellFormats.push(
+    `<xf numFmtId="${formatId}" fontId="${fontId}" fillId="${fillId}" borderId="0" xfId="0"`
+    + `${formatId ? ' applyNumberFormat="1"' : ''}${fontId ? ' applyFont="1"' : ''}${fillId ? ' applyFill="1"' : ''}`
+    + (alignment ? ` applyAlignment="1">${alignment}</xf>` : '/>')
+  );
+  const index = table.cellFormats.length - 1;
+  table.formats.set(key, index);
+  return index;
+};
+
+const buildStylesXml = (table: StyleTable): string => {
+  const numberFormats = Array.from(table.numberFormats, ([code, id]) => `<numFmt numFmtId="${id}" formatCode="${escapeXml(code)}"/>`);
+  const fonts = Array.from(table.fonts.keys(), key => {
+    const [bold, italic, color] = JSON.parse(key) as [boolean | null, boolean | null, string | null];
+    return `<font>${bold ? '<b/>' : ''}${italic ? '<i/>' : ''}<sz val="11"/>${color ? `<color rgb="FF${color}"/>` : ''}<name val="Calibri"/><family val="2"/></font>`;
+  });
+  const fills = Array.from(table.fills.keys(), color => `<fill><patternFill patternType="solid"><fgColor rgb="FF${color}"/><bgColor indexed="64"/></patternFill></fill>`);
+
+  return `${XML_DECLARATION}<styleSheet xmlns="${NS_MAIN}">`
+    + (numberFormats.length ? `<numFmts count="${numberFormats.length}">${numberFormats.join('')}</numFmts>` : '')
+    + `<fonts count="${fonts.length + 1}"><font><sz val="11"/><name val="Calibri"/><family val="2"/></font>${fonts.join('')}</fonts>`
+    + `<fills count="${fills.length + 2}"><fill><patternFill patternType="none"/></fill><fill><patternFill patternType="gray125"/></fill>${fills.join('')}</fills>`
+    + '<borders count="1"><border><left/><right/><top/><bottom/><diagonal/></border></borders>'
+    + '<cellStyleXfs count="1"><xf numFmtId="0" fontId="0" fillId="0" borderId="0"/></cellStyleXfs>'
+    + `<cellXfs count="${table.cellFormats.length}">${table.cellFormats.join('')}</cellXfs>`
+    + '<cellStyles count="1"><cellStyle name="Normal" xfId="0" builtinId="0"/></cellStyles>'
+    + '</styleSheet>';
+};
+
+const renderCell = (cell: SpreadsheetCell, reference: string, styles: StyleTable, sharedStrings: Map<string, number>): string => {
+  const styleIndex = getStyleIndex(styles, cell);
+  const style = styleIndex ? ` s="${styleIndex}"` : '';
+  const formula = cell.formula ? `<f>${escapeXml(cell.formula)}</f>` : '';
+  const { value } = cell;
+
+  if (cell.error) return `<c r="${reference}"${style} t="e">${formula}<v>${escapeXml(String(value))}</v></c>`;
+  if (typeof value === 'boolean') return `<c r="${reference}"${style} t="b">${formula}<v>${value ? 1 : 0}</v></c>`;
+  if (typeof value === 'number') {
+    if (!Number.isFinite(value)) return `<c r="${reference}"${style} t="e">${formula}<v>#NUM!</v></c>`;
+    return `<c r="${reference}"${style}>${formula}<v>${value}</v></c>`;
+  }
+  // Formula results are stored with the cell; other text is shared
+  if (formula) return `<c r="${reference}"${style} t="str">${formula}<v>${escapeXml(value)}</v></c>`;
+  let index = sharedStrings.get(value);
+  if (index === undefined) {
+    index = sharedStrings.size;
+    sharedStrings.set(value, index);
+  }
+  return `<c r="${reference}"${style} t="s"><v>${index}</v></c>`;
+};
+
+const buildSheetXml = (sheet: Worksheet, styles: StyleTable, sharedStrings: Map<string, number>): string => {
+  const rows: string[] = [];
+  sheet.rows.forEach((row, rowIndex) => {
+    const cells = (row ?? []).flatMap((cell, columnIndex) =>
+      cell ? [renderCell(cell, cellReference(rowIndex, columnIndex), styles, sharedStrings)] : []);
+    if (cells.length) rows.push(`<row r="${rowIndex + 1}">${cells.join('')}</row>`);
+  });
+
+  const columns = (sheet.columnWidths ?? []).flatMap((width, index) => (width === undefined ? [] : [
+    `<col min="${index + 1}" max="${index + 1}" width="${width}" customWidth="1"${width === 0 ? ' hidden="1"' : ''}/>`,
+  ]));
+  const merges = sheet.merges.map(range =>
+    `<mergeCell ref="${cellReference(range.startRow, range.startColumn)}:${cellReference(range.endRow, range.endColumn)}"/>`);
+
+  return `${XML_DECLARATION}<worksheet xmlns="${NS_MAIN}" xmlns:r="${NS_REL}">`
+    + (columns.length ? `<cols>${columns.join('')}</cols>` : '')
+    + `<sheetData>${rows.join('')}</sheetData>`
+    + (merges.length ? `<mergeCells count="${merges.length}">${merges.join('')}</mergeCells>` : '')
+    + '</worksheet>';
+};
+
+/**
+ * Build a .xlsx package from a workbook
+ */
+export const createXlsx = (workbook: Workbook): Uint8Array => {
+  // A workbook needs at least one sheet, and one that is visible
+  const sheets = workbook.sheets.length ? workbook.sheets : [{ name: 'Sheet1', rows: [], merges: [] }];
+  const firstVisible = Math.max(0, sheets.findIndex(sheet => !sheet.hidden));
+  const names = getSheetNames(sheets);
+  const styles: StyleTable = {
+    formats: new Map(),
+    numberFormats: new Map(),
+    fonts: new Map(),
+    fills: new Map(),
+    cellFormats: ['<xf numFmtId="0" fontId="0" fillId="0" borderId="0" xfId="0"/>'],
+  };
+  const sharedStrings = new Map<string, number>();
+  const sheetXml = sheets.map(sheet => buildSheetXml(sheet, styles, sharedStrings));
+
+  const workbookXml = `${XML_DECLARATION}<workbook xmlns="${NS_MAIN}" xmlns:r="${NS_REL}">`
+    + (workbook.date1904 ? '<workbookPr date1904="1"/>' : '')
+    + `<bookViews><workbookView activeTab="${firstVisible}"/></bookViews>`
+    + '<sheets>'
+    + sheets.map((sheet, index) =>
+      `<sheet name="${escapeXml(names[index])}" sheetId="${index + 1}"${sheet.hidden && index !== firstVisible ? ' state="hidden"' : ''} r:id="rId${index + 1}"/>`).join('')
+    + '</sheets></workbook>';
+
+  const sharedStringsXml = `${XML_DECLARATION}<sst xmlns="${NS_MAIN}" count="${sharedStrings.size}" uniqueCount="${sharedStrings.size}">`
+    + Array.from(sharedStrings.keys(), text => `<si>${textElement(text)}</si>`).join('')
+    + '</sst>';
+
+  const contentTypesXml = buildContentTypesXml([
+    ['xl/workbook.xml', 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet.main+xml'],
+    ...sheets.map((_sheet, index): [string, string] =>
+      [`xl/worksheets/sheet${index + 1}.xml`, 'application/vnd.openxmlformats-officedocument.spreadsheetml.worksheet+xml']),
+    ['xl/styles.xml', 'application/vnd.openxmlformats-officedocument.spreadsheetml.styles+xml'],
+    ['xl/sharedStrings.xml', 'application/vnd.openxmlformats-officedocument.spreadsheetml.sharedStrings+xml'],
+  ]);
+
+  const workbookRelsXml = `${XML_DECLARATION}<Relationships xmlns="${NS_PACKAGE_REL}">`
+    + sheets.map((_sheet, index) =>
+      `<Relationship Id="rId${index + 1}" Type="${NS_REL}/worksheet" Target="worksheets/sheet${index + 1}.xml"/>`).join('')
+    + `<Relationship Id="rId${sheets.length + 1}" Type="${NS_REL}/styles" Target="styles.xml"/>`
+    + `<Relationship Id="rId${sheets.length + 2}" Type="${NS_REL}/sharedStrings" Target="sharedStrings.xml"/>`
+    + '</Relationships>';
+
+  return createZip([
+    { name: '[Content_Types].xml', data: contentTypesXml },
+    { name: '_rels/.rels', data: buildPackageRelationshipsXml('xl/workbook.xml') },
+    { name: 'xl/workbook.xml', data: workbookXml },
+    { name: 'xl/_rels/workbook.xml.rels', data: workbookRelsXml },
+    ...sheetXml.map((data, index) => ({ name: `xl/worksheets/sheet${index + 1}.xml`, data })),
+    { name: 'xl/styles.xml', data: buildStylesXml(styles) },
+    { name: 'xl/sharedStrings.xml', data: sharedStringsXml },
+    { name: 'docProps/core.xml', data: buildCorePropertiesXml(workbook.title) },
+    { name: 'docProps/app.xml', data: APP_PROPERTIES_XML },
+  ]);
+};
@@ -0,0 +1,196 @@
+/**
+ * XML helpers shared by the Office document readers and writers
+ * The parser is pure TypeScript so it also works where DOMParser is unavailable (Web Workers).
+ */
+
+// Control characters other than tab and line breaks, and U+FFFE and U+FFFF, are not allowed anywhere in XML 1.0
+const isXmlCharCode = (code: number): boolean =>
+  code >= 0x20 ? code !== 0xfffe && code !== 0xffff : code === 0x09 || code === 0x0a || code === 0x0d;
+
+/**
+ * Replace the characters XML cannot hold; they are dropped by default
+ */
+export const replaceInvalidXmlChars = (text: string, replace: (char: string) => string = () => ''): string => {
+  let result = '';
+  let start = 0;
+  for (let index = 0; index < text.length; index++) {
+    if (isXmlCharCode(text.charCodeAt(index))) continue;
+    result += text.slice(start, index) + replace(text[index]);
+    start = index + 1;
+  }
+  return start === 0 ? text : result + text.slice(start);
+};
+
+/**
+ * Escape text for use in XML content or attribute values
+ */
+export const escapeXml = (text: string): string =>
+  replaceInvalidXmlChars(text)
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+
+export const XML_DECLARATION = '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>\n';
+
+export interface XmlElement {
+  // Qualified name as written, e.g. "w:p"
+  name: string;
+  attributes: Record<string, string>;
+  children: XmlNode[];
+}
+
+export type XmlNode = XmlElement | string;
+
+const NAMED_ENTITIES: Record<string, string> = { lt: '<', gt: '>', amp: '&', quot: '"', apos: "'" };
+
+const decodeEntities = (text: string): string =>
+  text.indexOf('&') < 0
+    ? text
+    : text.replace(/&(#x[0-9a-fA-F]+|#\d+|\w+);/g, (match, entity: string) => {
+      if (entity[0] === '#') {
+        const code = entity[1] === 'x' ? parseInt(entity.slice(2), 16) : parseInt(entity.slice(1), 10);
+        return Number.isFinite(code) && code <= 0x10ffff ? String.fromCodePoint(code) : match;
+      }
+      return NAMED_ENTITIES[entity] ?? match;
+    });
+
+/**
+ * Parse an XML document into a lightweight element tree and return the root element
+ */
+export const parseXml = (source: string): XmlElement => {
+  const root: XmlElement = { name: '#document', attributes: {}, children: [] };
+  const stack: XmlElement[] = [root];
+  const attributePattern = /([^\s=/>]+)\s*=\s*(?:"([^"]*)"|'([^']*)')/g;
+  let pos = 0;
+
+  while (pos < source.length) {
+    const tagStart = source.indexOf('<', pos);
+    if (tagStart < 0) {
+      const text = source.slice(pos);
+      if (text) stack[stack.length - 1].children.push(decodeEntities(text));
+      break;
+    }
+    if (tagStart > pos) stack[stack.length - 1].children.push(decodeEntities(source.slice(pos, tagStart)));
+
+    if (source.startsWith('<!--', tagStart)) {
+      const end = source.indexOf('-->', tagStart + 4);
+      pos = end < 0 ? source.length : end + 3;
+    } else if (source.startsWith('<![CDATA[', tagStart)) {
+      const end = source.indexOf(']]>', tagStart + 9);
+      stack[stack.length - 1].children.push(source.slice(tagStart + 9, end < 0 ? source.length : end));
+      pos = end < 0 ? source.length : end + 3;
+    } else if (source[tagStart + 1] === '?') {
+      const end = source.indexOf('?>', tagStart + 2);
+      pos = end < 0 ? source.length : end + 2;
+    } else if (source[tagStart + 1] === '!') {
+      // DOCTYPE, possibly with an internal subset in brackets
+      let depth = 0;
+      let end = tagStart + 2;
+      for (; end < source.length; end++) {
+        if (source[end] === '[') depth++;
+        else if (source[end] === ']') depth--;
+        else if (source[end] === '>' && depth <= 0) break;
+      }
+      pos = end + 1;
+    } else if (source[tagStart + 1] === '/') {
+      const end = source.indexOf('>', tagStart);
+      const name = source.slice(tagStart + 2, end < 0 ? source.length : end).trim();
+      // Tolerate mismatched end tags by closing up to the matching element
+      for (let i = stack.length - 1; i > 0; i--) {
+        if (stack[i].name === name) {
+          stack.length = i;
+          break;
+        }
+      }
+      pos = end < 0 ? source.length : end + 1;
+    } else {
+      // Find the end of the tag, skipping '>' inside quoted attribute values
+      let end = tagStart + 1;
+      let quote = '';
+      for (; end < source.length; end++) {
+        const char = source[end];
+        if (quote) {
+          if (char === quote) quote = '';
+        } else if (char === '"' || char === "'") {
+          quote = char;
+        } else if (char === '>') {
+          break;
+        }
+      }
+
+      const selfClosing = source[end - 1] === '/';
+      const body = source.slice(tagStart + 1, selfClosing ? end - 1 : end);
+      const nameMatch = /^[^\s/>]+/.exec(body);
+      const element: XmlElement = { name: nameMatch ? nameMatch[0] : '', attributes: {}, children: [] };
+
+      attributePattern.lastIndex = element.name.length;
+      let match: RegExpExecArray | null;
+      while ((match = attributePattern.exec(body))) {
+        element.attributes[match[1]] = decodeEntities(match[2] ?? match[3] ?? '');
+      }
+
+      stack[stack.length - 1].children.push(element);
+      if (!selfClosing) stack.push(element);
+      pos = end + 1;
+    }
+  }
+
+  const documentElement = root.children.find((child): child is XmlElement => typeof child !== 'string');
+  if (!documentElement) throw new Error('XML document has no root element');
+  return documentElement;
+};
+
+/**
+ * Local part of a qualified name ("w:p" -> "p")
+ */
+export const localName = (name: string): string => {
+  const colon = name.indexOf(':');
+  return colon < 0 ? name : name.slice(colon + 1);
+};
+
+/**
+ * Child elements, optionally filtered by local name
+ */
+export const childElements = (element: XmlElement | null | undefined, name?: string): XmlElement[] => {
+  if (!element) return [];
+  return element.children.filter(
+    (child): child is XmlElement => typeof child !== 'string' && (!name || localName(child.name) === name)
+  );
+};
+
+export const childElement = (element: XmlElement | null | undefined, name: string): XmlElement | null =>
+  childElements(element, name)[0] || null;
+
+/**
+ * First descendant element with the given local name, depth-first
+ */
+export const findElement = (element: XmlElement | null | undefined, name: string): XmlElement | null => {
+  for (const child of childElements(element)) {
+    if (localName(child.name) === name) return child;
+    const found = findElement(child, name);
+    if (found) return found;
+  }
+  return null;
+};
+
+/**
+ * Attribute value by local name, so "w:val" and "val" both match "val"
+ */
+export const getAttribute = (element: XmlElement | null | undefined, name: string): string | null => {
+  if (!element) return null;
+  if (name in element.attributes) return element.attributes[name];
+  for (const key in element.attributes) {
+    if (localName(key) === name) return element.attributes[key];
+  }
+  return null;
+};
+
+/**
+ * Concatenated text of an element and its descendants
+ */
+export const getTextContent = (element: XmlElement | null | undefined): string => {
+  if (!element) return '';
+  return element.children.map(child => (typeof child === 'string' ? child : getTextContent(child))).join('');
+};
@@ -0,0 +1,99 @@
+/**
+ * ZIP archives as conversion input
+ * Lists the entries of an uploaded archive and extracts the chosen ones as
+ * files. Entry count and uncompressed size are limited so that a small
+ * archive cannot expand into gigabytes (a "zip bomb").
+ */
+
+import { getFileFormat, getInputFormats } from './converterRegistry';
+import { openZip, ZipArchive } from './zipReader';
+
+export const ZIP_INPUT_LIMITS = {
+  maxArchiveSize: 200 * 1024 * 1024,
+  maxEntries: 500,
+  // Per entry; matches the limit for uploaded files
+  maxEntrySize: 50 * 1024 * 1024,
+  maxTotalSize: 500 * 1024 * 1024,
+};
+
+export interface ZipInputEntry {
+  // Path inside the archive
+  name: string;
+  size: number;
+  // Registered format of the entry, when a converter can read it
+  format?: string;
+}
+
+const ZIP_MIME_TYPES = ['application/zip', 'application/x-zip-compressed'];
+
+const formatSize = (bytes: number) => `${(bytes / 1024 / 1024).toFixed(0)}MB`;
+
+/**
+ * Whether an upload is a plain ZIP archive (not a DOCX or other ZIP-based format)
+ */
+export const isZipUpload = (file: File): boolean =>
+  /\.zip$/i.test(file.name) || ZIP_MIME_TYPES.includes(file.type);
+
+const baseName = (path: string): string => path.split('/').pop() ?? path;
+
+// Folders, macOS resource forks and hidden files are not offered
+const isHiddenEntry = (path: string): boolean =>
+  path.startsWith('__MACOSX/') || path.split('/').some(part => part.startsWith('.'));
+
+const openArchive = async (file: File): Promise<ZipArchive> => {
+  if (file.size > ZIP_INPUT_LIMITS.maxArchiveSize) {
+    throw new Error(`${file.name} is larger than ${formatSize(ZIP_INPUT_LIMITS.maxArchiveSize)}`);
+  }
+  return openZip(new Uint8Array(await file.arrayBuffer()));
+};
+
+/**
+ * Files in an archive, with the format of each that can be converted.
+ * Throws when the archive is damaged or over the limits.
+ */
+export const listZipEntries = async (file: File): Promise<ZipInputEntry[]> => {
+  const archive = await openArchive(file);
+  const entries = archive.entries.filter(entry => !entry.isDirectory && !isHiddenEntry(entry.name));
+
+  if (entries.length > ZIP_INPUT_LIMITS.maxEntries) {
+    throw new Error(`${file.name} contains ${entries.length} files; at most ${ZIP_INPUT_LIMITS.maxEntries} are supported`);
+  }
+  const totalSize = entries.reduce((total, entry) => total + entry.size, 0);
+  if (totalSize > ZIP_INPUT_LIMITS.maxTotalSize) {
+    throw new Error(`${file.name} expands to more than ${formatSize(ZIP_INPUT_LIMITS.maxTotalSize)}`);
+  }
+
+  const inputFormats = new Set(getInputFormats().map(format => format.id));
+  return entries.map(entry => {
+    const format = getFileFormat(new File([], baseName(entry.name)))?.id;
+    const supported = !!format && inputFormats.has(format) && !entry.encrypted && entry.size <= ZIP_INPUT_LIMITS.maxEntrySize;
+    return { name: entry.name, size: entry.size, format: supported ? format : undefined };
+  });
+};
+
+/**
+ * Extract the named entries as files, typed by their registered format
+ */
+export const extractZipEntries = async (file: File, names: string[]): Promise<File[]> => {
+  const archive = await openArchive(file);
+  const files: File[] = [];
+  let totalSize = 0;
+
+  for (const name of names) {
+    const entry = archive.getEntry(name);
+    if (!entry) continue;
+    // The declared size is checked while inflating, so a lying header cannot get past the limits
+    const data = archive.read(name, { maxSize: Math.min(entry.size, ZIP_INPUT_LIMITS.maxEntrySize) });
+    if (!data) continue;
+
+    totalSize += data.length;
+    if (totalSize > ZIP_INPUT_LIMITS.maxTotalSize) {
+      throw new Error(`${file.name} expands to more than ${formatSize(ZIP_INPUT_LIMITS.maxTotalSize)}`);
+    }
+
+    const fileName = baseName(entry.name);
+    const format = getFileFormat(new File([], fileName));
+    files.push(new File([data], fileName, { type: format?.mimeTypes[0] ?? '' }));
+  }
+  return files;
+};
@@ -0,0 +1,151 @@
+/**
+ * ZIP archive reader
+ * Reads the central directory and inflates entries on demand.
+ */
+
+import { inflateRaw } from './zlib';
+
+export interface ZipEntry {
+  name: string;
+  method: number;
+  compressedSize: number;
+  size: number;
+  crc: number;
+  localHeaderOffset: number;
+  isDirectory: boolean;
+  encrypted: boolean;
+}
+
+export interface ZipArchive {
+  entries: ZipEntry[];
+  // Lookups ignore case and a leading slash, as OPC part names do
+  getEntry: (name: string) => ZipEntry | null;
+  // Entries that inflate to more than `maxSize` bytes (DEFAULT_MAX_ENTRY_SIZE unless given) are rejected
+  read: (name: string, options?: { maxSize?: number }) => Uint8Array | null;
+  readText: (name: string) => string | null;
+}
+
+// Far beyond any real document part, but stops a small crafted archive from exhausting memory
+export const DEFAULT_MAX_ENTRY_SIZE = 256 * 1024 * 1024;
+
+const utf8Decoder = new TextDecoder('utf-8');
+
+const normalizeName = (name: string) => name.replace(/^\/+/, '').toLowerCase();
+
+/**
+ * Locate the end of central directory record, which may be followed by a comment
+ */
+const findEndOfCentralDirectory = (view: DataView): number => {
+  const minOffset = Math.max(0, view.byteLength - 22 - 65535);
+  for (let offset = view.byteLength - 22; offset >= minOffset; offset--) {
+    if (view.getUint32(offset, true) === 0x06054b50) return offset;
+  }
+  return -1;
+};
+
+/**
+ * Open a ZIP archive held in memory
+ */
+export const openZip = (bytes: Uint8Array): ZipArchive => {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const endOffset = bytes.length >= 22 ? findEndOfCentralDirectory(view) : -1;
+  if (endOffset < 0) {
+    throw new Error('Not a valid ZIP archive (end of central directory not found)');
+  }
+
+  let entryCount = view.getUint16(endOffset + 10, true);
+  let directoryOffset = view.getUint32(endOffset + 16, true);
+
+  // ZIP64 archives store the real values in a separate record
+  const locatorOffset = endOffset - 20;
+  if (locatorOffset >= 0 && view.getUint32(locatorOffset, true) === 0x07064b50) {
+    const zip64Offset = Number(view.getBigUint64(locatorOffset + 8, true));
+    if (zip64Offset + 56 <= bytes.length && view.getUint32(zip64Offset, true) === 0x06064b50) {
+      entryCount = Number(view.getBigUint64(zip64Offset + 32, true));
+      directoryOffset = Number(view.getBigUint64(zip64Offset + 48, true));
+    }
+  }
+
+  const entries: ZipEntry[] = [];
+  let pos = directoryOffset;
+  for (let i = 0; i < entryCount; i++) {
+    if (pos + 46 > bytes.length || view.getUint32(pos, true) !== 0x02014b50) {
+      throw new Error('Corrupted ZIP central directory');
+    }
+
+    const flags = view.getUint16(pos + 8, true);
+    const method = view.getUint16(pos + 10, true);
+    const crc = view.getUint32(pos + 16, true);
+    let compressedSize = view.getUint32(pos + 20, true);
+    let size = view.getUint32(pos + 24, true);
+    const nameLength = view.getUint16(pos + 28, true);
+    const extraLength = view.getUint16(pos + 30, true);
+    const commentLength = view.getUint16(pos + 32, true);
+    let localHeaderOffset = view.getUint32(pos + 42, true);
+    const name = utf8Decoder.decode(bytes.subarray(pos + 46, pos + 46 + nameLength));
+
+    // ZIP64 extended information extra field
+    let extraPos = pos + 46 + nameLength;
+    const extraEnd = extraPos + extraLength;
+    while (extraPos + 4 <= extraEnd) {
+      const id = view.getUint16(extraPos, true);
+      const length = view.getUint16(extraPos + 2, true);
+      if (id === 0x0001) {
+        let field = extraPos + 4;
+        if (size === 0xffffffff) { size = Number(view.getBigUint64(field, true)); field += 8; }
+        if (compressedSize === 0xffffffff) { compressedSize = Number(view.getBigUint64(field, true)); field += 8; }
+        if (localHeaderOffset === 0xffffffff) localHeaderOffset = Number(view.getBigUint64(field, true));
+      }
+      extraPos += 4 + length;
+    }
+
+    entries.push({
+      name,
+      method,
+      compressedSize,
+      size,
+      crc,
+      localHeaderOffset,
+      isDirectory: name.endsWith('/'),
+      encrypted: (flags & 0x1) !== 0,
+    });
+    pos = extraEnd + commentLength;
+  }
+
+  const index = new Map<string, ZipEntry>();
+  for (const entry of entries) index.set(normalizeName(entry.name), entry);
+
+  const getEntry = (name: string) => index.get(normalizeName(name)) || null;
+
+  const read = (name: string, { maxSize = DEFAULT_MAX_ENTRY_SIZE }: { maxSize?: number } = {}): Uint8Array | null => {
+    const entry = getEntry(name);
+    if (!entry || entry.isDirectory) return null;
+    if (entry.encrypted) throw new Error(`ZIP entry "${entry.name}" is encrypted`);
+
+    const offset = entry.localHeaderOffset;
+    if (offset + 30 > bytes.length || view.getUint32(offset, true) !== 0x04034b50) {
+      throw new Error(`Corrupted ZIP entry "${entry.name}"`);
+    }
+    const dataStart = offset + 30 + view.getUint16(offset + 26, true) + view.getUint16(offset + 28, true);
+    const data = bytes.subarray(dataStart, dataStart + entry.compressedSize);
+
+    if (entry.method === 0) {
+      if (data.length > maxSize) {
+        throw new Error(`ZIP entry "${entry.name}" exceeds the allowed size`);
+      }
+      return data;
+    }
+    if (entry.method === 8) {
+      // DEFLATE expands at most about 1032 times, so a larger declared size is a lie
+      return inflateRaw(data, { sizeHint: Math.min(entry.size, data.length * 1032), maxSize });
+    }
+    throw new Error(`ZIP entry "${entry.name}" uses unsupported compression method ${entry.method}`);
+  };
+
+  const readText = (name: string): string | null => {
+    const data = read(name);
+    return data ? utf8Decoder.decode(data) : null;
+  };
+
+  return { entries, getEntry, read, readText };
+};
@@ -0,0 +1,102 @@
+/**
+ * ZIP archive writer
+ * Builds ZIP packages in memory (DOCX/XLSX/PPTX containers, download bundles).
+ */
+
+import { crc32, deflateRaw } from './zlib';
+
+export interface ZipEntryInput {
+  name: string;
+  data: Uint8Array | string;
+  // Defaults to true; already-compressed data (JPEG, PNG) is better stored
+  compress?: boolean;
+  modified?: Date;
+}
+
+const textEncoder = new TextEncoder();
+
+const toDosDateTime = (date: Date): { time: number; date: number } => ({
+  time: (date.getHours() << 11) | (date.getMinutes() << 5) | Math.floor(date.getSeconds() / 2),
+  date: (Math.max(0, date.getFullYear() - 1980) << 9) | ((date.getMonth() + 1) << 5) | date.getDate(),
+});
+
+/**
+ * Create a ZIP archive from the given entries
+ */
+export const createZip = (entries: ZipEntryInput[]): Uint8Array => {
+  const localParts: Uint8Array[] = [];
+  const centralParts: Uint8Array[] = [];
+  let offset = 0;
+
+  for (const entry of entries) {
+    const nameBytes = textEncoder.encode(entry.name);
+    const data = typeof entry.data === 'string' ? textEncoder.encode(entry.data) : entry.data;
+    const checksum = crc32(data);
+
+    let method = 0;
+    let stored = data;
+    if (entry.compress !== false && data.length > 0) {
+      const compressed = deflateRaw(data);
+      if (compressed.length < data.length) {
+        method = 8;
+        stored = compressed;
+      }
+    }
+
+    const { time, date } = toDosDateTime(entry.modified || new Date());
+    // Bit 11 marks the file name as UTF-8
+    const flags = 0x0800;
+
+    const local = new Uint8Array(30 + nameBytes.length);
+    const localView = new DataView(local.buffer);
+    localView.setUint32(0, 0x04034b50, true);
+    localView.setUint16(4, 20, true);
+    localView.setUint16(6, flags, true);
+    localView.setUint16(8, method, true);
+    localView.setUint16(10, time, true);
+    localView.setUint16(12, date, true);
+    localView.setUint32(14, checksum, true);
+    localView.setUint32(18, stored.length, true);
+    localView.setUint32(22, data.length, true);
+    localView.setUint16(26, nameBytes.length, true);
+    localView.setUint16(28, 0, true);
+    local.set(nameBytes, 30);
+
+    const central = new Uint8Array(46 + nameBytes.length);
+    const centralView = new DataView(central.buffer);
+    centralView.setUint32(0, 0x02014b50, true);
+    centralView.setUint16(4, 20, true);
+    centralView.setUint16(6, 20, true);
+    centralView.setUint16(8, flags, true);
+    centralView.setUint16(10, method, true);
+    centralView.setUint16(12, time, true);
+    centralView.setUint16(14, date, true);
+    centralView.setUint32(16, checksum, true);
+    centralView.setUint32(20, stored.length, true);
+    centralView.setUint32(24, data.length, true);
+    centralView.setUint16(28, nameBytes.length, true);
+    centralView.setUint32(42, offset, true);
+    central.set(nameBytes, 46);
+
+    localParts.push(local, stored);
+    centralParts.push(central);
+    offset += local.length + stored.length;
+  }
+
+  const centralSize = centralParts.reduce((total, part) => total + part.length, 0);
+  const end = new Uint8Array(22);
+  const endView = new DataView(end.buffer);
+  endView.setUint32(0, 0x06054b50, true);
+  endView.setUint16(8, entries.length, true);
+  endView.setUint16(10, entries.length, true);
+  endView.setUint32(12, centralSize, true);
+  endView.setUint32(16, offset, true);
+
+  const output = new Uint8Array(offset + centralSize + end.length);
+  let pos = 0;
+  for (const part of [...localParts, ...centralParts, end]) {
+    output.set(part, pos);
+    pos += part.length;
+  }
+  return output;
+};
@@ -0,0 +1,442 @@
+/**
+ * Pure TypeScript DEFLATE encoder and decoder (RFC 1950 / RFC 1951)
+ * Runs synchronously so it can be used inside parsers and workers alike
+ */
+
+// Length and distance base tables from RFC 1951 section 3.2.5
+const LENGTH_BASE = [3, 4, 5, 6, 7, 8, 9, 10, 11, 13, 15, 17, 19, 23, 27, 31, 35, 43, 51, 59, 67, 83, 99, 115, 131, 163, 195, 227, 258];
+const LENGTH_EXTRA = [0, 0, 0, 0, 0, 0, 0, 0, 1, 1, 1, 1, 2, 2, 2, 2, 3, 3, 3, 3, 4, 4, 4, 4, 5, 5, 5, 5, 0];
+const DIST_BASE = [1, 2, 3, 4, 5, 7, 9, 13, 17, 25, 33, 49, 65, 97, 129, 193, 257, 385, 513, 769, 1025, 1537, 2049, 3073, 4097, 6145, 8193, 12289, 16385, 24577];
+const DIST_EXTRA = [0, 0, 0, 0, 1, 1, 2, 2, 3, 3, 4, 4, 5, 5, 6, 6, 7, 7, 8, 8, 9, 9, 10, 10, 11, 11, 12, 12, 13, 13];
+const CODE_LENGTH_ORDER = [16, 17, 18, 0, 8, 7, 9, 6, 10, 5, 11, 4, 12, 3, 13, 2, 14, 1, 15];
+
+interface HuffmanTable {
+  counts: Uint16Array;
+  symbols: Uint16Array;
+}
+
+const buildHuffmanTable = (lengths: ArrayLike<number>, count: number): HuffmanTable => {
+  const counts = new Uint16Array(16);
+  const symbols = new Uint16Array(count);
+  const offsets = new Uint16Array(16);
+
+  for (let i = 0; i < count; i++) counts[lengths[i]]++;
+  counts[0] = 0;
+  for (let i = 1; i < 16; i++) offsets[i] = offsets[i - 1] + counts[i - 1];
+  for (let i = 0; i < count; i++) {
+    if (lengths[i]) symbols[offsets[lengths[i]]++] = i;
+  }
+
+  return { counts, symbols };
+};
+
+const FIXED_LITERAL_TABLE = (() => {
+  const lengths = new Uint8Array(288);
+  lengths.fill(8, 0, 144);
+  lengths.fill(9, 144, 256);
+  lengths.fill(7, 256, 280);
+  lengths.fill(8, 280, 288);
+  return buildHuffmanTable(lengths, 288);
+})();
+
+const FIXED_DISTANCE_TABLE = buildHuffmanTable(new Uint8Array(30).fill(5), 30);
+
+/**
+ * Growable output buffer used while inflating
+ */
+interface OutputBuffer {
+  data: Uint8Array;
+  length: number;
+  // Largest output accepted, as a guard against decompression bombs
+  limit?: number;
+}
+
+const ensureCapacity = (out: OutputBuffer, extra: number) => {
+  if (out.length + extra <= out.data.length) return;
+  if (out.limit !== undefined && out.length + extra > out.limit) throw new Error('Decompressed data exceeds the allowed size');
+  let size = out.data.length * 2;
+  while (size < out.length + extra) size *= 2;
+  const next = new Uint8Array(size);
+  next.set(out.data.subarray(0, out.length));
+  out.data = next;
+};
+
+/**
+ * Inflate a raw DEFLATE stream (no zlib header)
+ * When `lenient` is set, truncated input returns whatever was decoded so far,
+ * which matches how PDF viewers treat damaged Flate streams. Output beyond
+ * `maxSize` bytes is an error.
+ */
+export const inflateRaw = (
+  input: Uint8Array,
+  options: { lenient?: boolean; sizeHint?: number; maxSize?: number } = {}
+): Uint8Array => {
+  const limit = options.maxSize;
+  const initialSize = Math.max(options.sizeHint ?? input.length * 4, 1024);
+  const out: OutputBuffer = {
+    data: new Uint8Array(limit === undefined ? initialSize : Math.min(initialSize, Math.max(limit, 1))),
+    length: 0,
+    limit,
+  };
+  let pos = 0;
+  let bitBuffer = 0;
+  let bitCount = 0;
+
+  const needBits = (n: number) => {
+    while (bitCount < n) {
+      if (pos >= input.length) throw new Error('Unexpected end of compressed data');
+      bitBuffer |= input[pos++] << bitCount;
+      bitCount += 8;
+    }
+  };
+
+  const readBits = (n: number): number => {
+    if (n === 0) return 0;
+    needBits(n);
+    const value = bitBuffer & ((1 << n) - 1);
+    bitBuffer >>>= n;
+    bitCount -= n;
+    return value;
+  };
+
+  const decodeSymbol = (table: HuffmanTable): number => {
+    let code = 0;
+    let first = 0;
+    let index = 0;
+    for (let len = 1; len < 16; len++) {
+      code |= readBits(1);
+      const count = table.counts[len];
+      if (code - count < first) return table.symbols[index + (code - first)];
+      index += count;
+      first += count;
+      first <<= 1;
+      code <<= 1;
+    }
+    throw new Error('Invalid Huffman code in compressed data');
+  };
+
+  const inflateBlock = (literals: HuffmanTable, distances: HuffmanTable) => {
+    for (;;) {
+      const symbol = decodeSymbol(literals);
+      if (symbol < 256) {
+        ensureCapacity(out, 1);
+        out.data[out.length++] = symbol;
+      } else if (symbol === 256) {
+        return;
+      } else {
+        const lengthIndex = symbol - 257;
+        if (lengthIndex >= 29) throw new Error('Invalid length code in compressed data');
+        const length = LENGTH_BASE[lengthIndex] + readBits(LENGTH_EXTRA[lengthIndex]);
+        const distIndex = decodeSymbol(distances);
+        if (distIndex >= 30) throw new Error('Invalid distance code in compressed data');
+        const distance = DIST_BASE[distIndex] + readBits(DIST_EXTRA[distIndex]);
+        if (distance > out.length) throw new Error('Invalid back-reference in compressed data');
+        ensureCapacity(out, length);
+        const data = out.data;
+        let from = out.length - distance;
+        for (let i = 0; i < length; i++) data[out.length++] = data[from++];
+      }
+    }
+  };
+
+  const readDynamicTables = (): [HuffmanTable, HuffmanTable] => {
+    const literalCount = readBits(5) + 257;
+    const distanceCount = readBits(5) + 1;
+    const codeLengthCount = readBits(4) + 4;
+
+    const codeLengths = new Uint8Array(19);
+    for (let i = 0; i < codeLengthCount; i++) codeLengths[CODE_LENGTH_ORDER[i]] = readBits(3);
+    const codeLengthTable = buildHuffmanTable(codeLengths, 19);
+
+    const lengths = new Uint8Array(literalCount + distanceCount);
+    let index = 0;
+    while (index < literalCount + distanceCount) {
+      const symbol = decodeSymbol(codeLengthTable);
+      if (symbol < 16) {
+        lengths[index++] = symbol;
+        continue;
+      }
+      let repeat = 0;
+      let value = 0;
+      if (symbol === 16) {
+        if (index === 0) throw new Error('Invalid code length repeat in compressed data');
+        value = lengths[index - 1];
+        repeat = 3 + readBits(2);
+      } else if (symbol === 17) {
+        repeat = 3 + readBits(3);
+      } else {
+        repeat = 11 + readBits(7);
+      }
+      if (index + repeat > lengths.length) throw new Error('Invalid code lengths in compressed data');
+      lengths.fill(value, index, index + repeat);
+      index += repeat;
+    }
+
+    return [
+      buildHuffmanTable(lengths.subarray(0, literalCount), literalCount),
+      buildHuffmanTable(lengths.subarray(literalCount), distanceCount),
+    ];
+  };
+
+  try {
+    let isFinal = 0;
+    while (!isFinal) {
+      isFinal = readBits(1);
+      const blockType = readBits(2);
+
+      if (blockType === 0) {
+        // Stored block: discard remaining bits of the current byte
+        bitBuffer = 0;
+        bitCount = 0;
+        if (pos + 4 > input.length) throw new Error('Unexpected end of compressed data');
+        const length = input[pos] | (input[pos + 1] << 8);
+        pos += 4;
+        if (pos + length > input.length) throw new Error('Unexpected end of compressed data');
+        ensureCapacity(out, length);
+        out.data.set(input.subarray(pos, pos + length), out.length);
+        out.length += length;
+        pos += length;
+      } else if (blockType === 1) {
+        inflateBlock(FIXED_LITERAL_TABLE, FIXED_DISTANCE_TABLE);
+      } else if (blockType === 2) {
+        const [literals, distances] = readDynamicTables();
+        inflateBlock(literals, distances);
+      } else {
+        throw new Error('Invalid block type in compressed data');
+      }
+    }
+  } catch (error) {
+    if (!options.lenient || out.length === 0) throw error;
+  }
+
+  return out.data.slice(0, out.length);
+};
+
+/**
+ * Inflate a zlib-wrapped stream (2-byte header, Adler-32 trailer)
+ * Streams without a valid header are treated as raw DEFLATE data.
+ */
+export const inflate = (input: Uint8Array, options: { lenient?: boolean; sizeHint?: number } = {}): Uint8Array => {
+  const hasZlibHeader = input.length >= 2
+    && (input[0] & 0x0f) === 8
+    && ((input[0] << 8) | input[1]) % 31 === 0;
+
+  return inflateRaw(hasZlibHeader ? input.subarray(2) : input, options);
+};
+
+// Fixed Huffman codes (RFC 1951 section 3.2.6), stored bit-reversed for LSB-first output
+const reverseBits = (code: number, length: number): number => {
+  let reversed = 0;
+  for (let i = 0; i < length; i++) {
+    reversed = (reversed << 1) | (code & 1);
+    code >>= 1;
+  }
+  return reversed;
+};
+
+const FIXED_LITERAL_CODES = (() => {
+  const codes = new Uint16Array(288);
+  const lengths = new Uint8Array(288);
+  for (let symbol = 0; symbol < 288; symbol++) {
+    let code: number;
+    let length: number;
+    if (symbol < 144) [code, length] = [0x30 + symbol, 8];
+    else if (symbol < 256) [code, length] = [0x190 + symbol - 144, 9];
+    else if (symbol < 280) [code, length] = [symbol - 256, 7];
+    else [code, length] = [0xc0 + symbol - 280, 8];
+    codes[symbol] = reverseBits(code, length);
+    lengths[symbol] = length;
+  }
+  return { codes, lengths };
+})();
+
+const FIXED_DISTANCE_CODES = Uint16Array.from({ length: 30 }, (_, symbol) => reverseBits(symbol, 5));
+
+// Length (3..258) to length-code index; later entries win so 258 maps to its dedicated code
+const LENGTH_CODE_INDEX = (() => {
+  const table = new Uint8Array(259);
+  LENGTH_BASE.forEach((base, index) => {
+    for (let length = base; length < base + (1 << LENGTH_EXTRA[index]) && length <= 258; length++) table[length] = index;
+  });
+  return table;
+})();
+
+const getDistanceCodeIndex = (distance: number): number => {
+  let index = 0;
+  while (index < 29 && DIST_BASE[index + 1] <= distance) index++;
+  return index;
+};
+
+interface BitWriter {
+  out: OutputBuffer;
+  bitBuffer: number;
+  bitCount: number;
+}
+
+const writeBits = (writer: BitWriter, value: number, count: number) => {
+  writer.bitBuffer |= value << writer.bitCount;
+  writer.bitCount += count;
+  while (writer.bitCount >= 8) {
+    ensureCapacity(writer.out, 1);
+    writer.out.data[writer.out.length++] = writer.bitBuffer & 0xff;
+    writer.bitBuffer >>>= 8;
+    writer.bitCount -= 8;
+  }
+};
+
+const WINDOW_SIZE = 32768;
+const HASH_SIZE = 1 << 15;
+
+/**
+ * Encode as stored (uncompressed) blocks, used when compression does not pay off
+ */
+const storeRaw = (input: Uint8Array): Uint8Array => {
+  const blockCount = Math.max(1, Math.ceil(input.length / 65535));
+  const output = new Uint8Array(input.length + blockCount * 5);
+  let pos = 0;
+  for (let block = 0; block < blockCount; block++) {
+    const start = block * 65535;
+    const length = Math.min(65535, input.length - start);
+    output[pos++] = block === blockCount - 1 ? 1 : 0;
+    output[pos++] = length & 0xff;
+    output[pos++] = length >> 8;
+    output[pos++] = ~length & 0xff;
+    output[pos++] = (~length >> 8) & 0xff;
+    output.set(input.subarray(start, start + length), pos);
+    pos += length;
+  }
+  return output;
+};
+
+/**
+ * Compress with LZ77 matching and the fixed Huffman code
+ * `maxChain` trades speed for ratio: how many earlier matches to try per position.
+ */
+export const deflateRaw = (input: Uint8Array, options: { maxChain?: number } = {}): Uint8Array => {
+  const maxChain = options.maxChain ?? 64;
+  const length = input.length;
+  const writer: BitWriter = {
+    out: { data: new Uint8Array(Math.max(1024, length >> 1)), length: 0 },
+    bitBuffer: 0,
+    bitCount: 0,
+  };
+  const { codes, lengths } = FIXED_LITERAL_CODES;
+  const writeSymbol = (symbol: number) => writeBits(writer, codes[symbol], lengths[symbol]);
+
+  const head = new Int32Array(HASH_SIZE).fill(-1);
+  const prev = new Int32Array(WINDOW_SIZE);
+  const hashAt = (pos: number) => ((input[pos] << 10) ^ (input[pos + 1] << 5) ^ input[pos + 2]) & (HASH_SIZE - 1);
+  const insert = (pos: number) => {
+    if (pos + 2 >= length) return;
+    const hash = hashAt(pos);
+    prev[pos & (WINDOW_SIZE - 1)] = head[hash];
+    head[hash] = pos;
+  };
+
+  // Single final block with fixed codes
+  writeBits(writer, 1, 1);
+  writeBits(writer, 1, 2);
+
+  let pos = 0;
+  while (pos < length) {
+    let bestLength = 0;
+    let bestDistance = 0;
+
+    if (pos + 2 < length) {
+      const maxLength = Math.min(258, length - pos);
+      let candidate = head[hashAt(pos)];
+      let chain = maxChain;
+      while (candidate >= 0 && pos - candidate <= WINDOW_SIZE && chain-- > 0) {
+        if (input[candidate + bestLength] === input[pos + bestLength]) {
+          let matchLength = 0;
+          while (matchLength < maxLength && input[candidate + matchLength] === input[pos + matchLength]) matchLength++;
+          if (matchLength > bestLength) {
+            bestLength = matchLength;
+            bestDistance = pos - candidate;
+            if (matchLength === maxLength) break;
+          }
+        }
+        const next = prev[candidate & (WINDOW_SIZE - 1)];
+        // A slot overwritten by a newer position ends the chain
+        if (next >= candidate) break;
+        candidate = next;
+      }
+    }
+
+    if (bestLength >= 3) {
+      const lengthIndex = LENGTH_CODE_INDEX[bestLength];
+      writeSymbol(257 + lengthIndex);
+      writeBits(writer, bestLength - LENGTH_BASE[lengthIndex], LENGTH_EXTRA[lengthIndex]);
+      const distanceIndex = getDistanceCodeIndex(bestDistance);
+      writeBits(writer, FIXED_DISTANCE_CODES[distanceIndex], 5);
+      writeBits(writer, bestDistance - DIST_BASE[distanceIndex], DIST_EXTRA[distanceIndex]);
+      for (let i = 0; i < bestLength; i++) insert(pos + i);
+      pos += bestLength;
+    } else {
+      writeSymbol(input[pos]);
+      insert(pos);
+      pos++;
+    }
+  }
+
+  writeSymbol(256);
+  if (writer.bitCount > 0) writeBits(writer, 0, 8 - writer.bitCount);
+
+  const compressed = writer.out.data.subarray(0, writer.out.length);
+  return compressed.length > length + 5 * Math.max(1, Math.ceil(length / 65535)) ? storeRaw(input) : compressed;
+};
+
+/**
+ * Compress into a zlib-wrapped stream (as used by PDF FlateDecode and PNG)
+ */
+export const deflate = (input: Uint8Array, options: { maxChain?: number } = {}): Uint8Array => {
+  const compressed = deflateRaw(input, options);
+  const output = new Uint8Array(compressed.length + 6);
+  output[0] = 0x78;
+  output[1] = 0x9c;
+  output.set(compressed, 2);
+  const checksum = adler32(input);
+  output[output.length - 4] = checksum >>> 24;
+  output[output.length - 3] = (checksum >>> 16) & 0xff;
+  output[output.length - 2] = (checksum >>> 8) & 0xff;
+  output[output.length - 1] = checksum & 0xff;
+  return output;
+};
+
+let crcTable: Uint32Array | null = null;
+
+/**
+ * CRC-32 checksum as used by ZIP and PNG
+ */
+export const crc32 = (data: Uint8Array, previous = 0): number => {
+  if (!crcTable) {
+    crcTable = new Uint32Array(256);
+    for (let n = 0; n < 256; n++) {
+      let c = n;
+      for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+      crcTable[n] = c >>> 0;
+    }
+  }
+
+  let crc = ~previous >>> 0;
+  for (let i = 0; i < data.length; i++) crc = crcTable[(crc ^ data[i]) & 0xff] ^ (crc >>> 8);
+  return ~crc >>> 0;
+};
+
+/**
+ * Adler-32 checksum as used by the zlib container
+ */
+export const adler32 = (data: Uint8Array): number => {
+  let a = 1;
+  let b = 0;
+  for (let i = 0; i < data.length; i += 5552) {
+    const end = Math.min(i + 5552, data.length);
+    for (let j = i; j < end; j++) {
+      a += data[j];
+      b += a;
+    }
+    a %= 65521;
+    b %= 65521;
+  }
+  return ((b << 16) | a) >>> 0;
+};